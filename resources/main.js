@@ -20,12 +20,14 @@
     const messageInput = document.getElementById('messageInput');
     const sendBtn = document.getElementById('sendBtn');
     const loadingIndicator = document.getElementById('loadingIndicator');
+    const stopBtn = document.getElementById('stopBtn');
     const settingsPanel = document.getElementById('settingsPanel');
     const historyPanel = document.getElementById('historyPanel');
     const settingsBtn = document.getElementById('settingsBtn');
     const historyBtn = document.getElementById('historyBtn');
     const newChatBtn = document.getElementById('newChatBtn');
     const agentModeToggle = document.getElementById('agentModeToggle');
+    const agentDryRunToggle = document.getElementById('agentDryRunToggle');
     const generateCommitBtn = document.getElementById('generateCommitBtn');
     const clearBtn = document.getElementById('clearBtn');
     const closeSettings = document.getElementById('closeSettings');
@@ -35,6 +37,27 @@
     const fileReferencesDiv = document.getElementById('fileReferences');
     const fileReferencesList = document.getElementById('fileReferencesList');
     const autocompleteDropdown = document.getElementById('autocompleteDropdown');
+    const toolProgressDiv = document.getElementById('toolProgress');
+    const agentApprovalsDiv = document.getElementById('agentApprovals');
+    const mcpCatalogModal = document.getElementById('mcpCatalogModal');
+    const attachedResourcesDiv = document.getElementById('attachedResources');
+    const attachedResourcesList = document.getElementById('attachedResourcesList');
+
+    // MCP prompt currently selected in the catalog
+    let mcpCatalog = { resources: [], prompts: [] };
+    let selectedMCPPrompt = null;
+
+    // Latest progress report per running tool, keyed by request id
+    const toolProgressEntries = new Map();
+
+    // Characters of streamed command output kept per running tool
+    const TOOL_OUTPUT_TAIL = 4000;
+
+    // Agent actions waiting for approve/skip/edit, keyed by approval id
+    const agentApprovals = new Map();
+
+    // File checkpoints recorded during a chat turn, keyed by the user message id
+    const turnCheckpoints = new Map();
 
     // Initialize the application
     function init() {
@@ -49,6 +72,7 @@
     function setupEventListeners() {
         // Message input and sending
         sendBtn.addEventListener('click', sendMessage);
+        if (stopBtn) stopBtn.addEventListener('click', cancelRequest);
         messageInput.addEventListener('keydown', handleInputKeydown);
         messageInput.addEventListener('input', updateSendButton);
 
@@ -57,6 +81,7 @@
         historyBtn.addEventListener('click', showHistory);
         newChatBtn.addEventListener('click', createNewChat);
         agentModeToggle.addEventListener('click', toggleAgentMode);
+        agentDryRunToggle.addEventListener('click', toggleAgentDryRun);
         generateCommitBtn.addEventListener('click', generateCommitMessage);
         if (clearBtn) clearBtn.addEventListener('click', clearChat);
         closeSettings.addEventListener('click', hideSettings);
@@ -67,6 +92,11 @@
         document.getElementById('saveMCPServer').addEventListener('click', saveMCPServer);
         document.getElementById('cancelMCPServer').addEventListener('click', hideMCPServerModal);
 
+        // MCP resources and prompts
+        document.getElementById('mcpCatalogBtn').addEventListener('click', showMCPCatalog);
+        document.getElementById('closeMCPCatalog').addEventListener('click', hideMCPCatalog);
+        document.getElementById('useMCPPromptBtn').addEventListener('click', useSelectedMCPPrompt);
+
         // Listen for VS Code messages
         window.addEventListener('message', handleVSCodeMessage);
 
@@ -527,6 +557,10 @@
         updateSendButton();
     }
 
+    function cancelRequest() {
+        vscode.postMessage({ type: 'cancelRequest' });
+    }
+
     function clearChat() {
         if (confirm('Are you sure you want to clear the chat history?')) {
             vscode.postMessage({ type: 'clearChat' });
@@ -563,6 +597,13 @@
         });
     }
 
+    function toggleAgentDryRun() {
+        vscode.postMessage({
+            type: 'toggleAgentDryRun',
+            enabled: !settings.agentDryRun
+        });
+    }
+
     function generateCommitMessage() {
         // Show loading state on button
         const btn = document.getElementById('generateCommitBtn');
@@ -690,7 +731,7 @@
         const description = document.getElementById('serverDescription').value.trim();
 
         if (!name || !command) {
-            showNotification('Please fill in server name and command', 'error');
+            showNotification('Please fill in server name and command or URL', 'error');
             return;
         }
 
@@ -745,6 +786,341 @@
             case 'updateDynamicTools':
                 updateToolsList(message.data);
                 break;
+            case 'sessionUsage':
+                renderSessionUsage(message.data);
+                break;
+            case 'toolProgress':
+                updateToolProgress(message.data);
+                renderToolProgress();
+                break;
+            case 'mcpCatalog':
+                renderMCPCatalog(message.data);
+                break;
+            case 'attachedResources':
+                renderAttachedResources(message.data);
+                break;
+            case 'insertPrompt':
+                insertPromptText(message.text);
+                break;
+            case 'agentApprovalRequest':
+                agentApprovals.set(message.data.id, message.data);
+                renderAgentApprovals();
+                break;
+            case 'agentApprovalResolved':
+                agentApprovals.delete(message.id);
+                renderAgentApprovals();
+                break;
+            case 'checkpoints':
+                turnCheckpoints.clear();
+                message.data.forEach(checkpoint => turnCheckpoints.set(checkpoint.groupId, checkpoint));
+                refreshCheckpointActions();
+                break;
+        }
+    }
+
+    function renderAgentApprovals() {
+        if (agentApprovals.size === 0) {
+            agentApprovalsDiv.classList.add('hidden');
+            agentApprovalsDiv.innerHTML = '';
+            return;
+        }
+
+        agentApprovalsDiv.classList.remove('hidden');
+        agentApprovalsDiv.innerHTML = Array.from(agentApprovals.values()).map(request => `
+            <div class="bg-slate-800/60 border border-amber-500/40 rounded-lg p-2 space-y-2">
+                <div class="flex justify-between gap-2 text-xs">
+                    <span class="text-amber-300 font-medium truncate">✋ ${request.step ? `Step ${request.step}` : escapeHtml(request.tool)}: ${escapeHtml(request.preview.title)}</span>
+                    <span class="text-slate-500 truncate">${escapeHtml(request.reason)}</span>
+                </div>
+                <p class="text-xs text-slate-300">${escapeHtml(request.description)}</p>
+                <pre class="text-xs bg-slate-900/80 rounded p-2 max-h-48 overflow-auto">${renderPreviewText(request.preview)}</pre>
+                <textarea id="agentApprovalPayload-${request.id}" rows="6"
+                    class="hidden w-full bg-slate-900/80 border border-slate-700/50 text-slate-100 rounded p-2 text-xs font-mono">${escapeHtml(JSON.stringify(request.payload, null, 2))}</textarea>
+                <div class="flex gap-2">
+                    <button onclick="window.respondToAgentApproval('${request.id}', 'approve')" class="px-2 py-1 text-xs rounded bg-green-600 hover:bg-green-500 text-white">Approve</button>
+                    <button onclick="window.respondToAgentApproval('${request.id}', 'skip')" class="px-2 py-1 text-xs rounded border border-slate-600 text-slate-300 hover:bg-slate-700">Skip</button>
+                    <button id="agentApprovalEdit-${request.id}" onclick="window.editAgentApproval('${request.id}')" class="px-2 py-1 text-xs rounded border border-slate-600 text-slate-300 hover:bg-slate-700">Edit</button>
+                </div>
+            </div>
+        `).join('');
+        scrollToBottom();
+    }
+
+    function refreshCheckpointActions() {
+        chatMessages.querySelectorAll('[data-message-id]').forEach(element => {
+            element.querySelector('.checkpoint-actions')?.remove();
+            const wrapper = element.firstElementChild;
+            const checkpointActions = wrapper && renderCheckpointActions(element.getAttribute('data-message-id'));
+            if (checkpointActions) {
+                wrapper.appendChild(checkpointActions);
+            }
+        });
+    }
+
+    function renderCheckpointActions(messageId) {
+        const checkpoint = turnCheckpoints.get(messageId);
+        if (!checkpoint) {
+            return null;
+        }
+
+        const actions = document.createElement('div');
+        actions.className = 'checkpoint-actions flex items-center gap-2 mt-2 text-xs text-blue-100';
+        actions.title = checkpoint.files.join('\n');
+        actions.innerHTML = `
+            <span class="opacity-75">${checkpoint.files.length} ${checkpoint.files.length === 1 ? 'file' : 'files'} changed</span>
+            <button onclick="window.undoTurnCheckpoint('${checkpoint.id}')" class="px-2 py-0.5 rounded border border-blue-300/40 hover:bg-blue-500/40">Undo</button>
+            <button onclick="window.showTurnCheckpointDiff('${checkpoint.id}', '${checkpoint.nextId || ''}')" class="px-2 py-0.5 rounded border border-blue-300/40 hover:bg-blue-500/40">Diff</button>
+            <button onclick="window.restoreTurnCheckpoint('${checkpoint.id}')" class="px-2 py-0.5 rounded border border-blue-300/40 hover:bg-blue-500/40" title="Restore every file changed since this turn">Restore to here</button>
+        `;
+        return actions;
+    }
+
+    window.undoTurnCheckpoint = function(checkpointId) {
+        vscode.postMessage({ type: 'undoCheckpoint', checkpointId });
+    };
+
+    window.showTurnCheckpointDiff = function(fromId, toId) {
+        vscode.postMessage({ type: 'showCheckpointDiff', fromId, toId: toId || undefined });
+    };
+
+    window.restoreTurnCheckpoint = function(checkpointId) {
+        vscode.postMessage({ type: 'restoreCheckpoint', checkpointId });
+    };
+
+    function renderPreviewText(preview) {
+        if (preview.kind !== 'diff') {
+            return escapeHtml(preview.text);
+        }
+        return preview.text.split('\n').map(line => {
+            const color = line.startsWith('+') ? 'text-green-400' : line.startsWith('-') ? 'text-red-400' : 'text-slate-400';
+            return `<span class="${color}">${escapeHtml(line)}</span>`;
+        }).join('\n');
+    }
+
+    window.respondToAgentApproval = function(id, decision) {
+        vscode.postMessage({ type: 'agentApprovalResponse', id, decision });
+    };
+
+    window.editAgentApproval = function(id) {
+        const editor = document.getElementById(`agentApprovalPayload-${id}`);
+        const button = document.getElementById(`agentApprovalEdit-${id}`);
+        if (editor.classList.contains('hidden')) {
+            editor.classList.remove('hidden');
+            button.textContent = 'Run edited';
+            editor.focus();
+            return;
+        }
+
+        let payload;
+        try {
+            payload = JSON.parse(editor.value);
+        } catch (error) {
+            showNotification('The edited payload is not valid JSON', 'error');
+            return;
+        }
+        vscode.postMessage({ type: 'agentApprovalResponse', id, decision: 'edit', payload });
+    };
+
+    function updateToolProgress(progress) {
+        const previous = toolProgressEntries.get(progress.requestId);
+        if (!progress.output) {
+            toolProgressEntries.set(progress.requestId, { ...progress, output: previous?.output || '' });
+            return;
+        }
+
+        const output = ((previous?.output || '') + progress.output.text).slice(-TOOL_OUTPUT_TAIL);
+        toolProgressEntries.set(progress.requestId, { ...(previous || { ...progress, message: 'Running…' }), output });
+    }
+
+    function renderToolProgress() {
+        if (toolProgressEntries.size === 0) {
+            toolProgressDiv.classList.add('hidden');
+            toolProgressDiv.innerHTML = '';
+            return;
+        }
+
+        toolProgressDiv.classList.remove('hidden');
+        toolProgressDiv.innerHTML = Array.from(toolProgressEntries.values()).map(entry => {
+            const percent = entry.total ? Math.min(100, Math.round((entry.progress / entry.total) * 100)) : null;
+            const label = entry.message || (percent !== null ? `${percent}%` : `${entry.progress}`);
+            return `
+                <div class="text-xs text-slate-400">
+                    <div class="flex justify-between gap-2">
+                        <span class="text-purple-300 truncate">🛠️ ${escapeHtml(entry.toolName)}</span>
+                        <span class="truncate">${escapeHtml(String(label))}</span>
+                    </div>
+                    ${percent !== null ? `<div class="h-1 mt-1 bg-slate-800 rounded"><div class="h-1 bg-purple-500 rounded" style="width: ${percent}%"></div></div>` : ''}
+                    ${entry.output ? `<pre class="mt-1 max-h-40 overflow-y-auto whitespace-pre-wrap bg-slate-900 rounded p-2 text-slate-300">${escapeHtml(entry.output)}</pre>` : ''}
+                </div>
+            `;
+        }).join('');
+        scrollToBottom();
+    }
+
+    function showMCPCatalog() {
+        selectedMCPPrompt = null;
+        document.getElementById('mcpPromptForm').classList.add('hidden');
+        mcpCatalogModal.classList.remove('hidden');
+        vscode.postMessage({ type: 'getMCPCatalog' });
+    }
+
+    function hideMCPCatalog() {
+        mcpCatalogModal.classList.add('hidden');
+    }
+
+    function renderMCPCatalog(catalog) {
+        mcpCatalog = catalog || { resources: [], prompts: [] };
+        const resourcesList = document.getElementById('mcpResourcesList');
+        const promptsList = document.getElementById('mcpPromptsList');
+
+        resourcesList.innerHTML = mcpCatalog.resources.length === 0
+            ? '<p class="text-xs text-slate-500">No resources exposed by connected servers</p>'
+            : mcpCatalog.resources.map((resource, index) => `
+                <button class="w-full text-left px-2 py-1.5 rounded-md bg-slate-800/50 hover:bg-slate-800 transition-colors" onclick="attachMCPResource(${index})" title="${escapeHtml(resource.uri).replace(/"/g, '&quot;')}">
+                    <div class="text-xs text-slate-200 truncate">${escapeHtml(resource.name || resource.uri)}</div>
+                    <div class="text-xs text-slate-500 truncate">${escapeHtml(resource.serverName)} · ${escapeHtml(resource.mimeType || resource.uri)}</div>
+                </button>
+            `).join('');
+
+        promptsList.innerHTML = mcpCatalog.prompts.length === 0
+            ? '<p class="text-xs text-slate-500">No prompts exposed by connected servers</p>'
+            : mcpCatalog.prompts.map((prompt, index) => `
+                <button class="w-full text-left px-2 py-1.5 rounded-md bg-slate-800/50 hover:bg-slate-800 transition-colors" onclick="selectMCPPrompt(${index})">
+                    <div class="text-xs text-slate-200 truncate">${escapeHtml(prompt.name)}</div>
+                    <div class="text-xs text-slate-500 truncate">${escapeHtml(prompt.serverName)}${prompt.description ? ' · ' + escapeHtml(prompt.description) : ''}</div>
+                </button>
+            `).join('');
+    }
+
+    window.attachMCPResource = function(index) {
+        const resource = mcpCatalog.resources[index];
+        if (!resource) return;
+
+        vscode.postMessage({ type: 'attachMCPResource', serverName: resource.serverName, uri: resource.uri });
+        hideMCPCatalog();
+    };
+
+    window.detachMCPResource = function(serverName, uri) {
+        vscode.postMessage({ type: 'detachMCPResource', serverName, uri });
+    };
+
+    window.selectMCPPrompt = function(index) {
+        const prompt = mcpCatalog.prompts[index];
+        if (!prompt) return;
+
+        const args = prompt.arguments || [];
+        if (args.length === 0) {
+            vscode.postMessage({ type: 'useMCPPrompt', serverName: prompt.serverName, name: prompt.name, arguments: {} });
+            hideMCPCatalog();
+            return;
+        }
+
+        selectedMCPPrompt = prompt;
+        document.getElementById('mcpPromptFormTitle').textContent = prompt.name;
+        document.getElementById('mcpPromptArguments').innerHTML = args.map((arg, argIndex) => `
+            <div class="space-y-1">
+                <label for="mcpPromptArg-${argIndex}" class="block text-xs font-medium text-slate-300">${escapeHtml(arg.name)}${arg.required ? ' <span class="text-red-400">*</span>' : ''}</label>
+                <input id="mcpPromptArg-${argIndex}"
+                    class="w-full bg-slate-800/80 border border-slate-700/50 text-slate-100 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-500/50 transition-all"
+                    placeholder="${escapeHtml(arg.description || '').replace(/"/g, '&quot;')}" />
+            </div>
+        `).join('');
+        document.getElementById('mcpPromptForm').classList.remove('hidden');
+    };
+
+    function useSelectedMCPPrompt() {
+        if (!selectedMCPPrompt) return;
+
+        const values = {};
+        const args = selectedMCPPrompt.arguments || [];
+        for (let i = 0; i < args.length; i++) {
+            const value = document.getElementById(`mcpPromptArg-${i}`).value.trim();
+            if (!value && args[i].required) {
+                showNotification(`Please fill in ${args[i].name}`, 'error');
+                return;
+            }
+            if (value) {
+                values[args[i].name] = value;
+            }
+        }
+
+        vscode.postMessage({
+            type: 'useMCPPrompt',
+            serverName: selectedMCPPrompt.serverName,
+            name: selectedMCPPrompt.name,
+            arguments: values
+        });
+        hideMCPCatalog();
+    }
+
+    function renderAttachedResources(resources) {
+        if (!resources || resources.length === 0) {
+            attachedResourcesDiv.classList.add('hidden');
+            attachedResourcesList.innerHTML = '';
+            return;
+        }
+
+        attachedResourcesDiv.classList.remove('hidden');
+        attachedResourcesList.innerHTML = resources.map(resource => {
+            const serverName = escapeHtml(resource.serverName).replace(/'/g, "\\'");
+            const uri = escapeHtml(resource.uri).replace(/'/g, "\\'");
+            const title = `${resource.uri}${resource.subscribed ? ' (live)' : ''}`;
+            return `
+                <div class="file-reference" title="${escapeHtml(title).replace(/"/g, '&quot;')}">
+                    <span class="font-medium">${escapeHtml(resource.name)}</span>
+                    <button onclick="detachMCPResource('${serverName}', '${uri}')">×</button>
+                </div>
+            `;
+        }).join('');
+    }
+
+    function insertPromptText(text) {
+        messageInput.value = messageInput.value.trim() ? `${messageInput.value}\n\n${text}` : text;
+        autoResizeTextarea();
+        updateSendButton();
+        messageInput.focus();
+    }
+
+    function formatTokenCount(count) {
+        if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+        if (count >= 1000) return `${(count / 1000).toFixed(1)}k`;
+        return String(count);
+    }
+
+    function renderSessionUsage(data) {
+        const container = document.getElementById('sessionUsage');
+        const tokensLabel = document.getElementById('sessionUsageTokens');
+        const contextLabel = document.getElementById('sessionUsageContext');
+        if (!container || !tokensLabel || !contextLabel) return;
+
+        const { usage, lastPrompt } = data || {};
+        if (!usage && !lastPrompt) {
+            container.classList.add('hidden');
+            return;
+        }
+        container.classList.remove('hidden');
+
+        if (usage) {
+            const approx = usage.estimated ? '~' : '';
+            const cost = usage.requests > usage.unpricedRequests ? ` · ${approx}$${usage.costUsd.toFixed(4)}` : '';
+            tokensLabel.textContent = `${approx}${formatTokenCount(usage.inputTokens + usage.outputTokens)} tokens${cost}`;
+            tokensLabel.title = `Session: ${usage.requests} requests, ${usage.inputTokens} in / ${usage.outputTokens} out`
+                + (usage.unpricedRequests > 0 ? `\n${usage.unpricedRequests} requests to models without known pricing` : '')
+                + (usage.estimated ? '\nSome counts are estimated locally' : '');
+        } else {
+            tokensLabel.textContent = '';
+        }
+
+        if (lastPrompt) {
+            const percent = Math.round((lastPrompt.usedTokens / lastPrompt.budgetTokens) * 100);
+            contextLabel.textContent = `context ${percent}% of ${formatTokenCount(lastPrompt.budgetTokens)}`;
+            const notes = [];
+            if (lastPrompt.summarizedMessages > 0) notes.push(`${lastPrompt.summarizedMessages} older messages summarized`);
+            if (lastPrompt.droppedFiles.length > 0) notes.push(`Left out: ${lastPrompt.droppedFiles.map(makePathRelative).join(', ')}`);
+            contextLabel.title = notes.join('\n') || 'Everything fit in the context window';
+            contextLabel.classList.toggle('text-amber-400', notes.length > 0);
+        } else {
+            contextLabel.textContent = '';
         }
     }
 
@@ -810,6 +1186,11 @@
         isLoading = loading;
         loadingIndicator.classList.toggle('hidden', !loading);
         updateSendButton();
+
+        if (!loading) {
+            toolProgressEntries.clear();
+            renderToolProgress();
+        }
         
         if (loading) {
             scrollToBottom();
@@ -931,6 +1312,19 @@
         const processedContent = processMarkdownWithAgentic(message.content);
         contentDiv.innerHTML = processedContent;
 
+        if (message.metadata?.toolTimeline?.length > 0) {
+            contentDiv.innerHTML += renderToolTimeline(message.metadata.toolTimeline, message.metadata.toolLoopStop);
+        }
+
+        if (message.metadata?.contextReport) {
+            contentDiv.innerHTML += renderContextReport(message.metadata.contextReport);
+        }
+
+        if (message.metadata?.isStreaming) {
+            contentDiv.innerHTML += renderStreamingToolCalls(message.metadata.toolCalls) +
+                '<span class="inline-block w-2 h-4 align-middle bg-blue-400 animate-pulse"></span>';
+        }
+
         const metadataDiv = document.createElement('div');
         metadataDiv.className = `flex items-center gap-2 mt-3 pt-2 border-t ${
             isUser ? 'border-blue-500/30' : 'border-slate-700/50'
@@ -966,6 +1360,46 @@
             `;
         }
         
+        if (message.metadata?.tokens) {
+            metadataHTML += `
+                <div class="flex items-center gap-1">
+                    <div class="w-1 h-1 bg-current rounded-full opacity-50"></div>
+                    <span class="opacity-75">${formatTokenCount(message.metadata.tokens)} tokens</span>
+                </div>
+            `;
+        }
+        
+        if (message.metadata?.toolHop) {
+            metadataHTML += `
+                <div class="flex items-center gap-1">
+                    <div class="w-1 h-1 bg-current rounded-full opacity-50"></div>
+                    <span class="text-purple-300">tool round ${message.metadata.toolHop}</span>
+                </div>
+            `;
+        }
+
+        if (message.metadata?.cancelled) {
+            metadataHTML += `
+                <div class="flex items-center gap-1">
+                    <div class="w-1 h-1 bg-current rounded-full opacity-50"></div>
+                    <span class="text-amber-400">stopped</span>
+                </div>
+            `;
+        }
+
+        if (message.metadata?.failedAttempts?.length > 0) {
+            const attemptSummary = message.metadata.failedAttempts
+                .map(attempt => `${attempt.provider}${attempt.model ? ` (${attempt.model})` : ''}: ${attempt.error}`)
+                .join('\n');
+            const label = message.metadata.fallbackUsed ? 'fallback' : 'retried';
+            metadataHTML += `
+                <div class="flex items-center gap-1" title="${escapeHtml(attemptSummary).replace(/"/g, '&quot;')}">
+                    <div class="w-1 h-1 bg-current rounded-full opacity-50"></div>
+                    <span class="text-amber-400">${label}</span>
+                </div>
+            `;
+        }
+
         if (message.metadata?.files?.length > 0) {
             const fileCount = message.metadata.files.length;
             const relativeExplicitFiles = message.metadata.files.map(path => makePathRelative(path));
@@ -1016,11 +1450,83 @@
 
         contentWrapper.appendChild(contentDiv);
         contentWrapper.appendChild(metadataDiv);
+
+        const checkpointActions = isUser && renderCheckpointActions(message.id);
+        if (checkpointActions) {
+            contentWrapper.appendChild(checkpointActions);
+        }
         messageDiv.appendChild(contentWrapper);
 
         return messageDiv;
     }
 
+    function renderStreamingToolCalls(toolCalls) {
+        if (!toolCalls || toolCalls.length === 0) {
+            return '';
+        }
+
+        return toolCalls.map(call => `
+            <div class="mt-2 p-2 bg-slate-900/60 border border-slate-700/50 rounded-md text-xs">
+                <div class="text-purple-300 font-medium">🛠️ ${escapeHtml(call.function?.name || '...')}</div>
+                <pre class="mt-1 whitespace-pre-wrap break-all text-slate-400 font-mono">${escapeHtml(call.function?.arguments || '')}</pre>
+            </div>
+        `).join('');
+    }
+
+    function renderToolTimeline(timeline, stopReason) {
+        const rounds = new Set(timeline.map(entry => entry.hop)).size;
+        const entries = timeline.map(entry => {
+            const icon = entry.repeatOfHop ? '🔁' : entry.success ? '✅' : '❌';
+            const time = entry.repeatOfHop ? '' : `<span class="opacity-60">${entry.executionTime}ms</span>`;
+            return `
+                <li class="flex items-start gap-2">
+                    <span class="shrink-0 px-1.5 rounded bg-slate-700/60 text-slate-300 font-mono">${entry.hop}</span>
+                    <span class="shrink-0">${icon}</span>
+                    <div class="min-w-0">
+                        <div class="flex items-center gap-2"><span class="text-purple-300 font-medium">${escapeHtml(entry.toolName)}</span>${time}</div>
+                        <div class="text-slate-400 truncate">${escapeHtml(entry.summary || '')}</div>
+                    </div>
+                </li>
+            `;
+        }).join('');
+
+        return `
+            <details class="mt-3 p-2 bg-slate-900/60 border border-slate-700/50 rounded-md text-xs not-prose">
+                <summary class="cursor-pointer text-slate-300">🛠️ ${timeline.length} tool ${timeline.length === 1 ? 'call' : 'calls'} over ${rounds} ${rounds === 1 ? 'round' : 'rounds'}</summary>
+                <ol class="mt-2 space-y-1.5">${entries}</ol>
+                ${stopReason ? `<div class="mt-2 text-amber-400">${escapeHtml(stopReason)}</div>` : ''}
+            </details>
+        `;
+    }
+
+    function renderContextReport(report) {
+        const renderEntry = (entry, dropped) => `
+            <li class="flex items-start gap-2">
+                <span class="shrink-0">${dropped ? '➖' : '📄'}</span>
+                <div class="min-w-0">
+                    <div class="flex items-center gap-2">
+                        <span class="${dropped ? 'text-slate-400' : 'text-blue-300'} font-medium truncate">${escapeHtml(makePathRelative(entry.path))}</span>
+                        ${entry.lines ? `<span class="opacity-60">lines ${escapeHtml(entry.lines)}</span>` : ''}
+                        ${dropped ? '' : `<span class="opacity-60">${entry.tokens} tokens</span>`}
+                    </div>
+                    <div class="text-slate-400">${escapeHtml(entry.reason)}</div>
+                </div>
+            </li>
+        `;
+        const count = report.included.length;
+
+        return `
+            <details class="mt-3 p-2 bg-slate-900/60 border border-slate-700/50 rounded-md text-xs not-prose">
+                <summary class="cursor-pointer text-slate-300">📎 Context used: ${count} ${count === 1 ? 'file' : 'files'}, ${report.usedTokens.toLocaleString()}/${report.budgetTokens.toLocaleString()} tokens${report.dropped.length > 0 ? ` · ${report.dropped.length} left out` : ''}</summary>
+                ${count > 0 ? `<ul class="mt-2 space-y-1.5">${report.included.map(entry => renderEntry(entry, false)).join('')}</ul>` : ''}
+                ${report.dropped.length > 0 ? `
+                    <div class="mt-2 text-amber-400">Left out</div>
+                    <ul class="mt-1 space-y-1.5">${report.dropped.map(entry => renderEntry(entry, true)).join('')}</ul>
+                ` : ''}
+            </details>
+        `;
+    }
+
     // Global function to copy entire message
     window.copyMessage = async function(content) {
         // Strip HTML tags for plain text copy
@@ -1304,6 +1810,15 @@
         
         const isEnabled = settings.agentModeEnabled || false;
         
+        // Dry run only applies to agent runs
+        agentDryRunToggle.classList.toggle('hidden', !isEnabled);
+        agentDryRunToggle.classList.toggle('flex', isEnabled);
+        agentDryRunToggle.classList.toggle('text-amber-400', !!settings.agentDryRun);
+        agentDryRunToggle.classList.toggle('bg-amber-500/20', !!settings.agentDryRun);
+        agentDryRunToggle.title = settings.agentDryRun
+            ? 'Dry Run: ON - Agent runs only preview changes. Click to disable'
+            : 'Dry Run: OFF - Click to preview changes without applying them';
+
         if (isEnabled) {
             agentButton.classList.remove('text-slate-400', 'hover:text-purple-400');
             agentButton.classList.add('text-purple-400', 'bg-purple-500/20');
@@ -1899,7 +2414,7 @@
                 <div class="flex items-center justify-between mb-2">
                     <div class="flex items-center gap-2">
                         <span class="text-sm font-medium text-slate-200">${server.name}</span>
-                        <span class="text-xs px-2 py-0.5 rounded-full bg-slate-700/50 text-slate-300">${server.command}</span>
+                        <span class="text-xs px-2 py-0.5 rounded-full bg-slate-700/50 text-slate-300">${server.url ? (server.transport || 'http') : server.command}</span>
                         ${toolCount > 0 ? `<span class="text-xs px-2 py-0.5 rounded-full bg-green-600/20 text-green-400">${toolCount} tools</span>` : ''}
                     </div>
                     <div class="flex items-center gap-1">
@@ -1908,11 +2423,17 @@
                     </div>
                 </div>
                 <div class="text-xs text-slate-400 font-mono">
-                    ${Array.isArray(server.args) ? server.args.join(' ') : (typeof server.args === 'string' ? server.args : (server.args ? JSON.stringify(server.args) : 'No arguments'))}
+                    ${server.url ? escapeHtml(server.url) : Array.isArray(server.args) ? server.args.join(' ') : (typeof server.args === 'string' ? server.args : (server.args ? JSON.stringify(server.args) : 'No arguments'))}
                 </div>
                 ${server.description ? `<div class="text-xs text-slate-500 mt-1 italic">${server.description}</div>` : ''}
                 ${lastError ? `<div class="text-xs text-red-400 mt-1 font-mono">Error: ${lastError}</div>` : ''}
+                <div class="flex justify-end mt-1">
+                    <button class="mcp-log-btn text-xs text-slate-400 hover:text-slate-200 transition-colors">View log</button>
+                </div>
             `;
+            div.querySelector('.mcp-log-btn').addEventListener('click', () => {
+                vscode.postMessage({ type: 'showMCPServerLog', serverName: server.name });
+            });
             
             container.appendChild(div);
         });
@@ -1,18 +1,37 @@
 import * as vscode from 'vscode';
-import { AIProviderManager } from '../providers/AIProviderManager';
+import { AIProviderManager, ChatResponse, Message } from '../providers/AIProviderManager';
+import { BudgetContextFile, ModelLimits, estimateMessageTokens, estimateTokens, getModelLimits, getPromptBudget, truncateToTokens } from '../providers/TokenBudget';
 import { ContextRetrievalEngine } from '../context/ContextRetrievalEngine';
+import { ContextCandidate, ContextPackReport, packContext } from '../context/ContextPacker';
 import { MCPManager } from '../mcp/MCPManager';
 import { ToolExecutionEngine } from '../mcp/ToolExecutionEngine';
 import { toolRegistry } from './ToolRegistry';
+import { checkpointManager } from './CheckpointManager';
+import {
+    ActionPreview,
+    ApprovalPolicy,
+    ApprovalResponse,
+    buildActionPreview,
+    createApprovalPolicy,
+    evaluateApproval,
+    isReadOnlyAction,
+    readPreviewTarget
+} from './ApprovalPolicy';
+import { blockDependents, resolveDependencies, selectBatch } from './PlanScheduler';
+import { AgentRunRecord, agentRunStore, getResumeIndex } from './AgentRunStore';
 
 export interface AgentAction {
+    id: string;
     type: string; // Dynamic action type based on available tools
     description: string;
     payload: any;
-    status: 'pending' | 'executing' | 'completed' | 'failed';
+    dependsOn: string[]; // Ids of actions that must complete first
+    status: 'pending' | 'executing' | 'completed' | 'failed' | 'skipped' | 'blocked';
     result?: string;
     error?: string;
     timestamp: number;
+    checkpointId?: string; // Checkpoint holding the files as they were before this action changed them
+    changedFiles?: string[];
 }
 
 export interface AgentPlan {
@@ -22,8 +41,82 @@ export interface AgentPlan {
     status: 'planning' | 'executing' | 'completed' | 'failed';
     startTime: number;
     endTime?: number;
+    iteration: number; // Actions executed so far
+    tokensUsed: number; // Planning and replanning calls
+    limits: AgentLoopLimits;
+    history: AgentPlanRevision[];
+    dryRun: boolean; // Record changes instead of applying them
+    proposedChanges: AgentProposedChange[];
 }
 
+/**
+ * One step of the plan's history: the initial plan, then the model's
+ * decision after each observed result
+ */
+export interface AgentPlanRevision {
+    iteration: number;
+    decision: 'plan' | 'continue' | 'revise' | 'complete' | 'stopped' | 'resumed';
+    reason?: string;
+    actionsAdded: number;
+    actionsRemoved: number;
+    timestamp: number;
+}
+
+/**
+ * An action the approval policy wants the user to confirm, with a preview of its effect
+ */
+export interface AgentApprovalRequest {
+    id: string;
+    step: number;
+    action: AgentAction;
+    operation: string;
+    reason: string;
+    preview: ActionPreview;
+}
+
+export type AgentApprovalResponse = ApprovalResponse;
+
+/**
+ * A change a dry run would have made
+ */
+export interface AgentProposedChange {
+    step: number;
+    type: string;
+    description: string;
+    preview: ActionPreview;
+}
+
+export interface AgentRunOptions {
+    dryRun?: boolean;
+    onContextPacked?: (report: ContextPackReport) => void; // What the plan was given as context
+}
+
+/**
+ * How to continue a recorded run. Without options it resumes from the first
+ * step that didn't complete.
+ */
+export interface AgentResumeOptions {
+    fromStep?: number; // 1-based: run this step and every later one again
+    goal?: string;
+    actions?: any[]; // An edited plan; steps marked "completed" keep their result, the rest run
+    dryRun?: boolean;
+}
+
+export interface AgentLoopLimits {
+    maxIterations: number;
+    tokenBudget: number;
+    maxParallelActions: number; // Independent read-only actions run together
+}
+
+const DEFAULT_LOOP_LIMITS: AgentLoopLimits = {
+    maxIterations: 15,
+    tokenBudget: 100000,
+    maxParallelActions: 4
+};
+
+// Longest tool result fed back to the model when replanning
+const OBSERVATION_TOKENS = 1500;
+
 export interface AgentCapabilities {
     fileOperations: boolean;
     terminalCommands: boolean;
@@ -39,6 +132,11 @@ export class AgentMode {
     private capabilities: AgentCapabilities;
     private outputChannel: vscode.OutputChannel;
     private progressCallback?: (plan: AgentPlan) => void;
+    private approvalHandler?: (request: AgentApprovalRequest) => Promise<AgentApprovalResponse>;
+    private actionAbortControllers = new Set<AbortController>(); // Signal running actions when the plan is stopped
+    private approvalCounter = 0;
+    private approvalQueue: Promise<unknown> = Promise.resolve(); // One approval prompt at a time
+    private currentRunId?: string; // Recorded run the current plan is saved to
 
     constructor(
         private aiProvider: AIProviderManager,
@@ -94,57 +192,168 @@ export class AgentMode {
         this.progressCallback = callback;
     }
 
+    /**
+     * Set the handler asked to approve actions the policy marks as 'ask'.
+     * Without one, a modal dialog is shown instead.
+     */
+    public setApprovalHandler(handler: (request: AgentApprovalRequest) => Promise<AgentApprovalResponse>): void {
+        this.approvalHandler = handler;
+    }
+
     /**
      * Execute a user request in agent mode
      */
-    public async executeAgentRequest(userRequest: string, context?: any[]): Promise<string> {
+    public async executeAgentRequest(userRequest: string, context?: ContextCandidate[], options: AgentRunOptions = {}): Promise<string> {
+        if (!this.isEnabled) {
+            throw new Error('Agent mode is not enabled');
+        }
+
+        this.outputChannel.appendLine(`\n🚀 Starting agent ${options.dryRun ? 'dry run' : 'execution'} for: "${userRequest}"`);
+
+        return this.runPlan(userRequest, async () => {
+            const plan = await this.createExecutionPlan(userRequest, context, options.onContextPacked);
+            plan.dryRun = options.dryRun === true;
+            return { plan, runId: agentRunStore.start(userRequest, plan).id };
+        });
+    }
+
+    /**
+     * Continue a recorded run, e.g. one interrupted by a reload: from its
+     * first unfinished step, from a chosen step, or with an edited plan.
+     * Completed steps before that point keep their results.
+     */
+    public async resumeRun(runId: string, options: AgentResumeOptions = {}): Promise<string> {
         if (!this.isEnabled) {
             throw new Error('Agent mode is not enabled');
         }
+        if (this.currentPlan?.status === 'executing') {
+            throw new Error('Another agent run is in progress');
+        }
+        const record = agentRunStore.getRun(runId);
+        if (!record) {
+            throw new Error(`Agent run not found: ${runId}`);
+        }
+
+        this.outputChannel.appendLine(`\n🔁 Resuming agent run for: "${record.request}"`);
+
+        return this.runPlan(record.request, async () => {
+            const plan = this.restorePlan(record, options);
+            agentRunStore.resume(runId, plan);
+            return { plan, runId };
+        });
+    }
 
-        this.outputChannel.appendLine(`\n🚀 Starting agent execution for: "${userRequest}"`);
+    /**
+     * Plan (or restore a plan), then execute it under one checkpoint while
+     * saving its progress to the run record
+     */
+    private async runPlan(userRequest: string, preparePlan: () => Promise<{ plan: AgentPlan; runId: string }>): Promise<string> {
+        // Every file the plan changes is snapshotted under one checkpoint
+        const checkpoint = checkpointManager.begin(`Agent: ${userRequest}`, 'agent');
+        let runId: string | undefined;
 
         try {
             // Planning phase
-            const plan = await this.createExecutionPlan(userRequest, context);
+            const prepared = await preparePlan();
+            const plan = prepared.plan;
+            runId = prepared.runId;
             this.currentPlan = plan;
+            this.currentRunId = runId;
             this.notifyProgress();
 
-            // Execution phase
-            const result = await this.executePlan(plan);
+            // Execute, observe and replan until done or out of budget
+            const result = await this.executePlan(plan, userRequest);
+            if (plan.status === 'failed') {
+                // Stopped by the user while running
+                agentRunStore.finish(runId, 'stopped', plan, { summary: result });
+                return result;
+            }
             
             plan.status = 'completed';
             plan.endTime = Date.now();
+            agentRunStore.finish(runId, 'completed', plan, { summary: result });
             this.notifyProgress();
 
             this.outputChannel.appendLine(`✅ Agent execution completed successfully`);
             return result;
 
         } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
             if (this.currentPlan) {
                 this.currentPlan.status = 'failed';
                 this.currentPlan.endTime = Date.now();
+                if (runId) {
+                    agentRunStore.finish(runId, 'failed', this.currentPlan, { error: errorMsg });
+                }
                 this.notifyProgress();
             }
 
-            const errorMsg = error instanceof Error ? error.message : String(error);
             this.outputChannel.appendLine(`❌ Agent execution failed: ${errorMsg}`);
             throw error;
+        } finally {
+            this.currentRunId = undefined;
+            checkpointManager.end(checkpoint);
         }
     }
 
+    /**
+     * Rebuild a plan from a run record with the steps to run again reset to pending
+     */
+    private restorePlan(record: AgentRunRecord, options: AgentResumeOptions): AgentPlan {
+        let actions: AgentAction[];
+
+        if (options.actions) {
+            const edited = options.actions;
+            actions = this.validateActions(edited).map((action, index) => edited[index]?.status === 'completed'
+                ? { ...action, status: 'completed' as const, result: edited[index].result }
+                : action);
+        } else {
+            const from = options.fromStep !== undefined ? options.fromStep - 1 : getResumeIndex(record.plan);
+            if (from < 0 || from >= record.plan.actions.length) {
+                throw new Error(options.fromStep !== undefined
+                    ? `Step ${options.fromStep} does not exist in this run`
+                    : 'Every step of this run completed; choose a step to run again from');
+            }
+
+            actions = (record.plan.actions as AgentAction[]).map((action, index) => {
+                const rerun = options.fromStep !== undefined
+                    ? index >= from
+                    : action.status !== 'completed' && action.status !== 'skipped';
+                return rerun
+                    ? { ...action, status: 'pending' as const, result: undefined, error: undefined, checkpointId: undefined, changedFiles: undefined }
+                    : { ...action };
+            });
+        }
+
+        const plan = this.createPlan(options.goal || record.plan.goal, actions);
+        const pending = actions.filter(action => action.status === 'pending').length;
+        plan.dryRun = options.dryRun ?? record.plan.dryRun;
+        plan.history = [...(record.plan.history as AgentPlanRevision[]), {
+            iteration: 0,
+            decision: 'resumed',
+            reason: options.actions ? 'Edited plan' : `From step ${actions.findIndex(action => action.status === 'pending') + 1}`,
+            actionsAdded: pending,
+            actionsRemoved: 0,
+            timestamp: Date.now()
+        }];
+        return plan;
+    }
+
     /**
      * Create an execution plan for the request
      */
-    private async createExecutionPlan(userRequest: string, context?: any[]): Promise<AgentPlan> {
+    private async createExecutionPlan(
+        userRequest: string,
+        context?: ContextCandidate[],
+        onContextPacked?: (report: ContextPackReport) => void
+    ): Promise<AgentPlan> {
         this.outputChannel.appendLine('🧠 Creating execution plan...');
 
         const systemPrompt = await this.buildPlanningPrompt();
-        const contextText = context ? this.formatContext(context) : '';
         
         const availableActionTypes = toolRegistry.getToolNames().join('|');
         
-        const planningPrompt = `${systemPrompt}
+        const buildPlanningPrompt = (contextText: string) => `${systemPrompt}
 
 ## USER REQUEST: "${userRequest}"
 
@@ -166,13 +375,15 @@ Return ONLY a JSON object in this exact format:
     "goal": "Brief, specific description of what I will deliver",
     "actions": [
         {
+            "id": "short-unique-id",
             "type": "tool_name",
             "description": "What this action accomplishes",
             "payload": {
                 "operation": "specific_operation",
                 "filePath": "path/to/file",
                 "content": "actual content to write"
-            }
+            },
+            "dependsOn": ["ids of earlier actions this one needs"]
         }
     ]
 }
@@ -185,81 +396,457 @@ Return ONLY a JSON object in this exact format:
 - Focus on CREATING/BUILDING/FIXING, not just analyzing
 - Include verification steps
 - Be specific with file paths and content
+- List in "dependsOn" the earlier actions whose results an action needs; use [] when it needs none. Without "dependsOn" an action waits for the one before it
+- Independent reads and searches run in parallel, so give them "dependsOn": []
 
 ## EXAMPLE FOR "Create a README file":
 {
     "goal": "Create a comprehensive README.md file for the project",
     "actions": [
         {
+            "id": "read-package",
+            "type": "file_operation",
+            "description": "Read package.json for the project name and scripts",
+            "payload": {
+                "operation": "read",
+                "filePath": "package.json"
+            },
+            "dependsOn": []
+        },
+        {
+            "id": "find-entry",
+            "type": "search_analysis",
+            "description": "Find the main entry point",
+            "payload": {
+                "query": "main entry point",
+                "type": "semantic",
+                "scope": "workspace",
+                "maxResults": 5
+            },
+            "dependsOn": []
+        },
+        {
+            "id": "create-readme",
             "type": "file_operation",
             "description": "Create README.md with project documentation",
             "payload": {
                 "operation": "create",
                 "filePath": "README.md",
                 "content": "# Project Name\\n\\nDescription of the project..."
-            }
+            },
+            "dependsOn": ["read-package", "find-entry"]
         }
     ]
 }`;
 
-        const response = await this.aiProvider.sendMessage({
-            messages: [{ role: 'user', content: planningPrompt }]
-        });
+        // Context files get what the rest of the prompt leaves in the model's budget
+        let packedContext = '';
+        if (context && context.length > 0) {
+            const promptTokens = estimateMessageTokens([{ role: 'user', content: buildPlanningPrompt('') }]);
+            const pack = await packContext(context, userRequest, Math.max(0, await this.getPromptBudget() - promptTokens));
+            packedContext = this.formatContext(pack.files);
+            onContextPacked?.(pack.report);
+        }
+
+        const messages: Message[] = [{ role: 'user', content: buildPlanningPrompt(packedContext) }];
+        const response = await this.aiProvider.sendMessage({ messages });
 
         const plan = this.parsePlanFromResponse(response.content, userRequest);
+        plan.tokensUsed += this.countTokens(messages, response);
+        plan.history.push({
+            iteration: 0,
+            decision: 'plan',
+            actionsAdded: plan.actions.length,
+            actionsRemoved: 0,
+            timestamp: Date.now()
+        });
         this.outputChannel.appendLine(`📋 Generated plan with ${plan.actions.length} actions`);
         
         return plan;
     }
 
+    private getLoopLimits(): AgentLoopLimits {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        return {
+            maxIterations: Math.max(1, config.get<number>('agent.maxIterations', DEFAULT_LOOP_LIMITS.maxIterations)),
+            tokenBudget: Math.max(1000, config.get<number>('agent.tokenBudget', DEFAULT_LOOP_LIMITS.tokenBudget)),
+            maxParallelActions: Math.max(1, config.get<number>('agent.maxParallelActions', DEFAULT_LOOP_LIMITS.maxParallelActions))
+        };
+    }
+
+    private createPlan(goal: string, actions: AgentAction[]): AgentPlan {
+        return {
+            goal,
+            actions,
+            currentActionIndex: 0,
+            status: 'planning',
+            startTime: Date.now(),
+            iteration: 0,
+            tokensUsed: 0,
+            limits: this.getLoopLimits(),
+            history: [],
+            dryRun: false,
+            proposedChanges: []
+        };
+    }
+
+    private getApprovalPolicy(): ApprovalPolicy {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const policy = config.get<{ rules?: any[]; defaultDecision?: string }>('agent.approvalPolicy', {});
+        const safety = config.get<{ requireConfirmation?: string[]; blockedCommands?: string[] }>('agent.safetyControls', {});
+        return createApprovalPolicy({
+            rules: policy.rules,
+            defaultDecision: policy.defaultDecision,
+            requireConfirmation: safety.requireConfirmation,
+            blockedCommands: safety.blockedCommands
+        });
+    }
+
     /**
-     * Execute the plan step by step
+     * Tokens spent on a planning call, estimated when the provider doesn't report usage
      */
-    private async executePlan(plan: AgentPlan): Promise<string> {
+    private countTokens(messages: Message[], response: ChatResponse): number {
+        if (response.usage) {
+            return response.usage.inputTokens + response.usage.outputTokens;
+        }
+        return estimateMessageTokens(messages) + estimateTokens(response.content || '');
+    }
+
+    /**
+     * Run pending actions as their dependencies allow, feeding each batch's
+     * results back to the model so it can revise the remaining steps or
+     * declare the goal reached. Independent read-only actions run together;
+     * anything that changes the workspace runs on its own.
+     */
+    private async executePlan(plan: AgentPlan, userRequest: string): Promise<string> {
         this.outputChannel.appendLine(`\n🎬 Executing plan: ${plan.goal}`);
         
         const results: string[] = [];
+        const policy = this.getApprovalPolicy();
         plan.status = 'executing';
 
-        for (let i = 0; i < plan.actions.length; i++) {
-            plan.currentActionIndex = i;
-            const action = plan.actions[i];
-            
-            // Create a user-friendly progress message
-            const progressMsg = this.createProgressMessage(action, i + 1, plan.actions.length);
-            this.outputChannel.appendLine(`\n📍 ${progressMsg}`);
-            
-            try {
-                action.status = 'executing';
-                action.timestamp = Date.now();
-                this.notifyProgress();
+        while (plan === this.currentPlan && plan.status === 'executing') {
+            for (const blocked of blockDependents(plan.actions)) {
+                this.outputChannel.appendLine(`⛔ ${blocked.error}: ${blocked.description}`);
+            }
+            if (!plan.actions.some(action => action.status === 'pending')) {
+                break;
+            }
 
-                const result = await this.executeAction(action);
-                action.result = result;
-                action.status = 'completed';
-                
-                results.push(`Step ${i + 1}: ${action.description}\nResult: ${result}`);
-                this.outputChannel.appendLine(`✅ Completed: ${action.description}`);
+            const limitReason = this.checkLoopLimits(plan);
+            if (limitReason) {
+                this.recordRevision(plan, 'stopped', limitReason);
+                this.outputChannel.appendLine(`⏹️ ${limitReason}`);
+                break;
+            }
 
-            } catch (error) {
-                const errorMsg = error instanceof Error ? error.message : String(error);
-                action.error = errorMsg;
-                action.status = 'failed';
-                
-                this.outputChannel.appendLine(`❌ Failed: ${action.description} - ${errorMsg}`);
-                
-                // Continue with remaining actions or stop based on error severity
-                if (this.isCriticalError(error)) {
-                    throw new Error(`Critical error in step ${i + 1}: ${errorMsg}`);
+            const limit = Math.min(plan.limits.maxParallelActions, plan.limits.maxIterations - plan.iteration);
+            const batch = selectBatch(plan.actions, limit, action => !plan.dryRun && !isReadOnlyAction(action.type, action.payload));
+            if (batch.length === 0) {
+                break;
+            }
+
+            plan.iteration += batch.length;
+            plan.currentActionIndex = plan.actions.indexOf(batch[0]);
+            if (batch.length > 1) {
+                this.outputChannel.appendLine(`\n⏩ Running ${batch.length} independent steps in parallel`);
+            }
+
+            const outcomes = await Promise.allSettled(batch.map(action => this.runPlanAction(plan, action, policy)));
+            for (const outcome of outcomes) {
+                if (outcome.status === 'fulfilled' && outcome.value) {
+                    results.push(outcome.value);
                 }
             }
+            this.notifyProgress();
+
+            // Critical errors stop the run once the rest of the batch has settled
+            const critical = outcomes.find(outcome => outcome.status === 'rejected');
+            if (critical?.status === 'rejected') {
+                throw critical.reason;
+            }
 
+            if (plan !== this.currentPlan || plan.status !== 'executing' || this.checkLoopLimits(plan)) {
+                continue;
+            }
+            await this.observeAndReplan(plan, batch, userRequest);
             this.notifyProgress();
         }
 
         return this.generateExecutionSummary(plan, results);
     }
 
+    /**
+     * Run one action of a batch. Returns the result line for the summary, or
+     * undefined when the action was skipped, recorded or failed; only critical
+     * errors are thrown.
+     */
+    private async runPlanAction(plan: AgentPlan, action: AgentAction, policy: ApprovalPolicy): Promise<string | undefined> {
+        const index = plan.actions.indexOf(action);
+
+        // Create a user-friendly progress message
+        const progressMsg = this.createProgressMessage(action, index + 1, plan.actions.length);
+        this.outputChannel.appendLine(`\n📍 ${progressMsg}`);
+
+        try {
+            action.status = 'executing';
+            action.timestamp = Date.now();
+            this.notifyProgress();
+
+            if (plan.dryRun && !isReadOnlyAction(action.type, action.payload)) {
+                action.result = this.proposeAction(plan, action, index);
+                action.status = 'completed';
+                this.outputChannel.appendLine(`🧪 Recorded without executing: ${action.description}`);
+            } else if (await this.approveAction(plan, action, index, policy)) {
+                const stopTracking = checkpointManager.trackFiles();
+                let result: string;
+                try {
+                    result = await this.executeAction(action);
+                } finally {
+                    // Recorded for failed actions too, since they may have changed files before failing
+                    const changedFiles = stopTracking();
+                    if (changedFiles.length > 0) {
+                        action.changedFiles = changedFiles;
+                        action.checkpointId = checkpointManager.getActiveCheckpointId();
+                    }
+                }
+                action.result = result;
+                action.status = 'completed';
+                this.outputChannel.appendLine(`✅ Completed: ${action.description}`);
+                return `Step ${index + 1}: ${action.description}\nResult: ${result}`;
+            } else {
+                action.result = 'Skipped by the user';
+                action.status = 'skipped';
+                this.outputChannel.appendLine(`⏭️ Skipped: ${action.description}`);
+            }
+
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            action.error = errorMsg;
+            action.status = 'failed';
+            
+            this.outputChannel.appendLine(`❌ Failed: ${action.description} - ${errorMsg}`);
+            
+            // Critical errors stop the run; anything else goes back to the model
+            if (this.isCriticalError(error)) {
+                throw new Error(`Critical error in step ${index + 1}: ${errorMsg}`);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Apply the approval policy to an action. Returns false when the user skips it;
+     * denied actions throw so the failure is fed back to the model.
+     */
+    private async approveAction(plan: AgentPlan, action: AgentAction, index: number, policy: ApprovalPolicy): Promise<boolean> {
+        const evaluation = evaluateApproval(policy, action.type, action.payload);
+        if (evaluation.decision === 'deny') {
+            throw new Error(`Blocked by approval policy: ${evaluation.reason}`);
+        }
+        if (evaluation.decision === 'auto') {
+            return true;
+        }
+
+        const request: AgentApprovalRequest = {
+            id: `approval_${++this.approvalCounter}`,
+            step: index + 1,
+            action,
+            operation: evaluation.operation,
+            reason: evaluation.reason,
+            preview: this.previewAction(action)
+        };
+        this.outputChannel.appendLine(`✋ Waiting for approval: ${request.preview.title} (${evaluation.reason})`);
+
+        // Steps running side by side ask one after another; a stopped run stops asking
+        const ask = (): Promise<AgentApprovalResponse> => {
+            if (plan !== this.currentPlan || plan.status !== 'executing') {
+                return Promise.resolve({ decision: 'skip' });
+            }
+            return this.approvalHandler ? this.approvalHandler(request) : this.askForApproval(request);
+        };
+        const pendingResponse = this.approvalQueue.then(ask, ask);
+        this.approvalQueue = pendingResponse.catch(() => undefined);
+        const response = await pendingResponse;
+
+        // The run may have been stopped while the user was deciding
+        if (plan !== this.currentPlan || plan.status !== 'executing' || response.decision === 'skip') {
+            return false;
+        }
+
+        if (response.decision === 'edit') {
+            action.payload = response.payload;
+            const edited = evaluateApproval(policy, action.type, action.payload);
+            if (edited.decision === 'deny') {
+                throw new Error(`Blocked by approval policy: ${edited.reason}`);
+            }
+            this.outputChannel.appendLine(`✏️ Running with edited payload: ${JSON.stringify(action.payload)}`);
+        }
+        return true;
+    }
+
+    private async askForApproval(request: AgentApprovalRequest): Promise<AgentApprovalResponse> {
+        const choice = await vscode.window.showWarningMessage(
+            `Agent step ${request.step}: ${request.preview.title}`,
+            { modal: true, detail: truncateToTokens(request.preview.text, 500) },
+            'Approve',
+            'Skip'
+        );
+        return { decision: choice === 'Approve' ? 'approve' : 'skip' };
+    }
+
+    /**
+     * Record what an action would change during a dry run, without running it
+     */
+    private proposeAction(plan: AgentPlan, action: AgentAction, index: number): string {
+        const preview = this.previewAction(action);
+        plan.proposedChanges.push({
+            step: index + 1,
+            type: action.type,
+            description: action.description,
+            preview
+        });
+        return `Dry run: not executed. Proposed change: ${preview.title}\n${preview.text}`;
+    }
+
+    private previewAction(action: AgentAction): ActionPreview {
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        return buildActionPreview(action.type, action.payload, readPreviewTarget(action.type, action.payload, workspaceRoot));
+    }
+
+    private checkLoopLimits(plan: AgentPlan): string | undefined {
+        if (plan.iteration >= plan.limits.maxIterations) {
+            return `Stopped after reaching the limit of ${plan.limits.maxIterations} actions`;
+        }
+        if (plan.tokensUsed >= plan.limits.tokenBudget) {
+            return `Stopped after using the planning budget of ${plan.limits.tokenBudget} tokens`;
+        }
+        return undefined;
+    }
+
+    /**
+     * Show the model the latest results and apply its decision to the remaining steps
+     */
+    private async observeAndReplan(plan: AgentPlan, batch: AgentAction[], userRequest: string): Promise<void> {
+        const messages: Message[] = [{ role: 'user', content: this.buildObservationPrompt(plan, batch, userRequest) }];
+
+        let response: ChatResponse;
+        try {
+            response = await this.aiProvider.sendMessage({ messages });
+        } catch (error) {
+            // Keep going with the current plan rather than failing the run
+            this.outputChannel.appendLine(`⚠️ Replanning failed, continuing with current plan: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        plan.tokensUsed += this.countTokens(messages, response);
+
+        const decision = this.parseDecision(response.content, plan.actions.filter(a => a.status !== 'pending'));
+        const pending = plan.actions.filter(a => a.status === 'pending');
+
+        switch (decision.decision) {
+            case 'complete':
+                plan.actions = plan.actions.filter(a => a.status !== 'pending');
+                this.recordRevision(plan, 'complete', decision.reason, 0, pending.length);
+                this.outputChannel.appendLine(`🏁 Goal reached${decision.reason ? `: ${decision.reason}` : ''}`);
+                break;
+            case 'revise':
+                plan.actions = [...plan.actions.filter(a => a.status !== 'pending'), ...decision.actions];
+                this.recordRevision(plan, 'revise', decision.reason, decision.actions.length, pending.length);
+                this.outputChannel.appendLine(`🔁 Plan revised: ${pending.length} remaining step(s) replaced by ${decision.actions.length}${decision.reason ? ` (${decision.reason})` : ''}`);
+                break;
+            default:
+                this.recordRevision(plan, 'continue', decision.reason);
+                break;
+        }
+    }
+
+    private buildObservationPrompt(plan: AgentPlan, batch: AgentAction[], userRequest: string): string {
+        const stepNumber = (id: string) => plan.actions.findIndex(a => a.id === id) + 1;
+        const steps = plan.actions.map((a, i) => {
+            const outcome = a.status === 'failed'
+                ? ` — FAILED: ${a.error}`
+                : a.status === 'skipped'
+                    ? ' — SKIPPED by the user'
+                    : a.status === 'blocked' ? ` — ${a.error}` : '';
+            const after = a.dependsOn.length > 0 ? ` (after ${a.dependsOn.map(stepNumber).join(', ')})` : '';
+            return `${i + 1}. [${a.status}] id "${a.id}" ${a.type}: ${a.description}${after}${outcome}`;
+        }).join('\n');
+
+        const observations = batch.map(action => {
+            const observation = action.status === 'failed'
+                ? `FAILED: ${action.error}`
+                : action.status === 'skipped'
+                    ? 'SKIPPED: the user declined this step. Do not retry it as-is; find another way or finish without it.'
+                    : truncateToTokens(action.result || '', OBSERVATION_TOKENS);
+            return `## RESULT OF STEP ${stepNumber(action.id)} (${action.type}: ${action.description}):\n${observation}`;
+        }).join('\n\n');
+        const mode = plan.dryRun
+            ? '\n## MODE: Dry run. Changes are recorded for review instead of being applied, so later reads will not see them.\n'
+            : '';
+
+        return `You are an autonomous agent working toward a goal. You just executed ${batch.length === 1 ? 'one step' : `${batch.length} steps in parallel`}; decide what happens next.
+
+## USER REQUEST: "${userRequest}"
+
+## GOAL: ${plan.goal}
+${mode}
+## PLAN SO FAR:
+${steps}
+
+${observations}
+
+## BUDGET:
+${plan.iteration}/${plan.limits.maxIterations} actions used, ${plan.tokensUsed}/${plan.limits.tokenBudget} planning tokens used
+
+## YOUR TASK:
+Return ONLY a JSON object:
+
+{
+    "decision": "continue" | "revise" | "complete",
+    "reason": "One sentence explaining the decision",
+    "actions": [ /* only for "revise": the full list of steps that should replace the pending ones */ ]
+}
+
+- "continue": the pending steps are still right
+- "revise": the result changes what should happen next (fix a failure, use what you learned, add steps). Use the same action format as the plan: {"id", "type", "description", "payload", "dependsOn"}, with "dependsOn" naming step ids
+- "complete": the goal has been achieved; pending steps are dropped
+
+Blocked steps will not run because a step they depend on did not complete; include them in a revision to retry them.
+
+## AVAILABLE TOOLS: ${toolRegistry.getToolNames().join('|')}`;
+    }
+
+    private parseDecision(response: string, kept: AgentAction[]): { decision: 'continue' | 'revise' | 'complete'; reason?: string; actions: AgentAction[] } {
+        try {
+            const jsonMatch = response.match(/\{[\s\S]*\}/);
+            const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : undefined;
+            const reason = typeof parsed?.reason === 'string' ? parsed.reason : undefined;
+
+            if (parsed?.decision === 'complete') {
+                return { decision: 'complete', reason, actions: [] };
+            }
+            if (parsed?.decision === 'revise' && Array.isArray(parsed.actions)) {
+                return { decision: 'revise', reason, actions: this.validateActions(parsed.actions, kept) };
+            }
+            return { decision: 'continue', reason, actions: [] };
+        } catch (error) {
+            this.outputChannel.appendLine(`⚠️ Could not parse replanning decision, continuing: ${error instanceof Error ? error.message : String(error)}`);
+            return { decision: 'continue', actions: [] };
+        }
+    }
+
+    private recordRevision(plan: AgentPlan, decision: AgentPlanRevision['decision'], reason?: string, actionsAdded = 0, actionsRemoved = 0): void {
+        plan.history.push({
+            iteration: plan.iteration,
+            decision,
+            reason,
+            actionsAdded,
+            actionsRemoved,
+            timestamp: Date.now()
+        });
+    }
+
     /**
      * Execute a single action
      */
@@ -267,15 +854,26 @@ Return ONLY a JSON object in this exact format:
         // Initialize tool registry if not already done
         await toolRegistry.initialize();
         
+        const abortController = new AbortController();
+        this.actionAbortControllers.add(abortController);
         const context = {
             workspaceRoot: vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '',
             outputChannel: this.outputChannel,
             onProgress: (message: string) => {
                 this.outputChannel.appendLine(`  ⏳ ${message}`);
-            }
+            },
+            onOutput: (chunk: string) => {
+                this.outputChannel.append(chunk);
+            },
+            signal: abortController.signal
         };
         
-        const result = await toolRegistry.executeAction(action.type, action.payload, context);
+        let result;
+        try {
+            result = await toolRegistry.executeAction(action.type, action.payload, context);
+        } finally {
+            this.actionAbortControllers.delete(abortController);
+        }
         
         if (!result.success) {
             throw new Error(result.message || 'Tool execution failed');
@@ -348,8 +946,23 @@ TOOL LIST: ${availableTools.join(', ')}`;
         return descriptions.slice(0, 10).join('\n'); // Limit to top 10 tools for clarity
     }
 
-    private formatContext(context: any[]): string {
-        return context.map(item => `File: ${item.path}\n${item.content}`).join('\n\n');
+    private formatContext(files: BudgetContextFile[]): string {
+        return files.map(file => `File: ${file.path}${file.lines ? ` (lines ${file.lines})` : ''}\n${file.content}`).join('\n\n');
+    }
+
+    /**
+     * Prompt tokens the active model allows once room for the reply is set aside
+     */
+    private async getPromptBudget(): Promise<number> {
+        let limits: ModelLimits;
+        try {
+            const { provider, model } = await this.aiProvider.getActiveModel();
+            limits = await this.aiProvider.getModelLimits(provider, model);
+        } catch {
+            // No provider configured yet: plan against conservative defaults
+            limits = getModelLimits('');
+        }
+        return getPromptBudget(limits);
     }
 
     private parsePlanFromResponse(response: string, userRequest: string): AgentPlan {
@@ -372,41 +985,11 @@ TOOL LIST: ${availableTools.join(', ')}`;
                 throw new Error('Invalid plan: must have at least one action');
             }
             
-            const availableTools = toolRegistry.getToolNames();
-            
-            // Validate and normalize each action
-            const validatedActions = parsed.actions.map((action: any, index: number) => {
-                if (!action.type) {
-                    throw new Error(`Action ${index + 1}: missing type`);
-                }
-                
-                if (!action.payload) {
-                    throw new Error(`Action ${index + 1}: missing payload`);
-                }
-                
-                const normalizedType = this.normalizeActionType(action.type);
-                if (!availableTools.includes(normalizedType)) {
-                    throw new Error(`Action ${index + 1}: unknown tool type '${action.type}'`);
-                }
-                
-                return {
-                    type: normalizedType,
-                    description: action.description || `Execute ${normalizedType}`,
-                    payload: action.payload,
-                    status: 'pending' as const,
-                    timestamp: Date.now() + index
-                };
-            });
+            const validatedActions = this.validateActions(parsed.actions);
             
             this.outputChannel.appendLine(`✅ Plan validation successful: ${validatedActions.length} actions`);
             
-            return {
-                goal: parsed.goal || userRequest,
-                actions: validatedActions,
-                currentActionIndex: 0,
-                status: 'planning',
-                startTime: Date.now()
-            };
+            return this.createPlan(parsed.goal || userRequest, validatedActions);
             
         } catch (error) {
             this.outputChannel.appendLine(`⚠️ Plan parsing failed: ${error instanceof Error ? error.message : String(error)}`);
@@ -416,65 +999,92 @@ TOOL LIST: ${availableTools.join(', ')}`;
         }
     }
 
+    /**
+     * Validate and normalize actions proposed by the model. Dependencies may
+     * name the ids of `existing` actions, which come first in the plan.
+     */
+    private validateActions(actions: any[], existing: AgentAction[] = []): AgentAction[] {
+        const availableTools = toolRegistry.getToolNames();
+        const dependencies = resolveDependencies(actions, existing.map(action => action.id));
+
+        return actions.map((action: any, index: number) => {
+            if (!action.type) {
+                throw new Error(`Action ${index + 1}: missing type`);
+            }
+            
+            if (!action.payload) {
+                throw new Error(`Action ${index + 1}: missing payload`);
+            }
+            
+            const normalizedType = this.normalizeActionType(action.type);
+            if (!availableTools.includes(normalizedType)) {
+                throw new Error(`Action ${index + 1}: unknown tool type '${action.type}'`);
+            }
+            
+            const { id, dependsOn, dropped } = dependencies[index];
+            if (dropped.length > 0) {
+                this.outputChannel.appendLine(`⚠️ Action ${index + 1}: ignoring dependencies on ${dropped.join(', ')} (only earlier steps can be depended on)`);
+            }
+            
+            return {
+                id,
+                type: normalizedType,
+                description: action.description || `Execute ${normalizedType}`,
+                payload: action.payload,
+                dependsOn,
+                status: 'pending' as const,
+                timestamp: Date.now() + index
+            };
+        });
+    }
+
     private createFallbackPlan(userRequest: string): AgentPlan {
         const request = userRequest.toLowerCase();
         
         // Analyze request to create a reasonable fallback
         if (request.includes('create') || request.includes('add') || request.includes('build')) {
-            return {
-                goal: `Create solution for: ${userRequest}`,
-                actions: [{
-                    type: 'file_operation',
-                    description: `Read existing files to understand context`,
-                    payload: { 
-                        operation: 'read',
-                        filePath: 'package.json'
-                    },
-                    status: 'pending',
-                    timestamp: Date.now()
-                }],
-                currentActionIndex: 0,
-                status: 'planning',
-                startTime: Date.now()
-            };
+            return this.createPlan(`Create solution for: ${userRequest}`, [{
+                id: 'step-1',
+                type: 'file_operation',
+                dependsOn: [],
+                description: `Read existing files to understand context`,
+                payload: { 
+                    operation: 'read',
+                    filePath: 'package.json'
+                },
+                status: 'pending',
+                timestamp: Date.now()
+            }]);
         } else if (request.includes('fix') || request.includes('debug') || request.includes('error')) {
-            return {
-                goal: `Fix issue: ${userRequest}`,
-                actions: [{
-                    type: 'search_analysis',
-                    description: 'Search for relevant code to understand the issue',
-                    payload: { 
-                        query: userRequest,
-                        type: 'semantic',
-                        scope: 'workspace',
-                        maxResults: 5
-                    },
-                    status: 'pending',
-                    timestamp: Date.now()
-                }],
-                currentActionIndex: 0,
-                status: 'planning',
-                startTime: Date.now()
-            };
+            return this.createPlan(`Fix issue: ${userRequest}`, [{
+                id: 'step-1',
+                type: 'search_analysis',
+                dependsOn: [],
+                description: 'Search for relevant code to understand the issue',
+                payload: { 
+                    query: userRequest,
+                    type: 'semantic',
+                    scope: 'workspace',
+                    maxResults: 5
+                },
+                status: 'pending',
+                timestamp: Date.now()
+            }]);
         } else {
-            return {
-                goal: `Analyze and respond to: ${userRequest}`,
-                actions: [{
-                    type: 'search_analysis',
-                    description: 'Search codebase to understand the request',
-                    payload: { 
-                        query: userRequest,
-                        type: 'semantic',
-                        scope: 'workspace',
-                        maxResults: 10
-                    },
-                    status: 'pending',
-                    timestamp: Date.now()
-                }],
-                currentActionIndex: 0,
-                status: 'planning',
-                startTime: Date.now()
-            };
+            return this.createPlan(`Analyze and respond to: ${userRequest}`, [{
+                id: 'step-1',
+                type: 'search_analysis',
+                dependsOn: [],
+                description: 'Search codebase to understand the request',
+                payload: { 
+                    query: userRequest,
+                    type: 'semantic',
+                    scope: 'workspace',
+                    maxResults: 10
+                },
+                status: 'pending',
+                timestamp: Date.now()
+            }]);
         }
     }
 
@@ -526,15 +1136,32 @@ TOOL LIST: ${availableTools.join(', ')}`;
     }
 
     private generateExecutionSummary(plan: AgentPlan, results: string[]): string {
-        const duration = plan.endTime ? plan.endTime - plan.startTime : 0;
+        const duration = (plan.endTime || Date.now()) - plan.startTime;
         const completedActions = plan.actions.filter(a => a.status === 'completed').length;
         const failedActions = plan.actions.filter(a => a.status === 'failed').length;
+        const skippedActions = plan.actions.filter(a => a.status === 'skipped').length;
+        const blockedActions = plan.actions.filter(a => a.status === 'blocked').length;
+        const lastRevision = plan.history[plan.history.length - 1];
 
         // Extract key file operations and achievements
         const fileOperations = this.extractFileOperations(plan.actions);
         const achievements = this.extractAchievements(plan.actions, results);
 
-        let summary = `🎉 **Task Completed Successfully!**\n\n`;
+        if (plan.dryRun) {
+            return this.generateDryRunSummary(plan, duration);
+        }
+
+        let summary: string;
+        if (plan.status === 'failed') {
+            summary = `🛑 **Task Stopped**\n\n`;
+        } else if (lastRevision?.decision === 'stopped') {
+            summary = `⚠️ **Task Incomplete**\n\n${lastRevision.reason}\n\n`;
+        } else {
+            summary = `🎉 **Task Completed Successfully!**\n\n`;
+            if (lastRevision?.decision === 'complete' && lastRevision.reason) {
+                summary += `${lastRevision.reason}\n\n`;
+            }
+        }
         
         if (achievements.length > 0) {
             summary += `**What I accomplished:**\n${achievements.map(a => `• ${a}`).join('\n')}\n\n`;
@@ -550,6 +1177,32 @@ TOOL LIST: ${availableTools.join(', ')}`;
             summary += `\n\n⚠️ *${failedActions} action${failedActions !== 1 ? 's' : ''} encountered issues - check the output log for details*`;
         }
 
+        if (skippedActions > 0) {
+            summary += `\n\n⏭️ *${skippedActions} action${skippedActions !== 1 ? 's were' : ' was'} skipped at your request*`;
+        }
+
+        if (blockedActions > 0) {
+            summary += `\n\n⛔ *${blockedActions} action${blockedActions !== 1 ? 's' : ''} didn't run because a step ${blockedActions !== 1 ? 'they' : 'it'} depended on didn't complete*`;
+        }
+
+        return summary;
+    }
+
+    private generateDryRunSummary(plan: AgentPlan, duration: number): string {
+        const fences: Record<ActionPreview['kind'], string> = { diff: 'diff', command: 'bash', summary: 'json' };
+
+        let summary = `🧪 **Dry Run: no changes were made**\n\n**Goal:** ${plan.goal}\n\n`;
+        if (plan.proposedChanges.length === 0) {
+            summary += 'The plan did not propose any changes.\n\n';
+        } else {
+            summary += `**Proposed changes:**\n\n`;
+            summary += plan.proposedChanges.map(change =>
+                `**${change.step}. ${change.preview.title}**: ${change.description}\n\`\`\`${fences[change.preview.kind]}\n${change.preview.text}\n\`\`\``
+            ).join('\n\n');
+            summary += '\n\n';
+        }
+
+        summary += `*Planned in ${Math.round(duration / 1000)}s. Turn off dry run and send the request again to apply these changes.*`;
         return summary;
     }
 
@@ -682,9 +1335,13 @@ TOOL LIST: ${availableTools.join(', ')}`;
             this.outputChannel.appendLine('🛑 Agent execution stopped by user');
             this.notifyProgress();
         }
+        this.actionAbortControllers.forEach(controller => controller.abort());
     }
 
     private notifyProgress(): void {
+        if (this.currentRunId && this.currentPlan) {
+            agentRunStore.update(this.currentRunId, this.currentPlan);
+        }
         if (this.progressCallback && this.currentPlan) {
             this.progressCallback(this.currentPlan);
         }
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Persistent history of agent runs, saved as they progress so they can be
+ * listed, resumed, re-run or exported after a reload.
+ */
+
+export type AgentRunStatus = 'running' | 'completed' | 'failed' | 'stopped' | 'interrupted';
+
+/**
+ * The parts of an agent action a run record keeps
+ */
+export interface AgentRunAction {
+    id: string;
+    type: string;
+    description: string;
+    payload: any;
+    dependsOn: string[];
+    status: string;
+    result?: string;
+    error?: string;
+    timestamp: number;
+    checkpointId?: string;
+    changedFiles?: string[];
+}
+
+/**
+ * The parts of an agent plan a run record keeps
+ */
+export interface AgentRunPlan {
+    goal: string;
+    actions: AgentRunAction[];
+    status: string;
+    startTime: number;
+    endTime?: number;
+    iteration: number;
+    tokensUsed: number;
+    dryRun: boolean;
+    history: { iteration: number; decision: string; reason?: string; timestamp: number }[];
+}
+
+export interface AgentRunRecord {
+    id: string;
+    request: string;
+    status: AgentRunStatus;
+    plan: AgentRunPlan;
+    createdAt: number;
+    updatedAt: number;
+    attempts: number; // The first run plus each resume
+    summary?: string;
+    error?: string;
+}
+
+const DEFAULT_MAX_RUNS = 30;
+// Tool output kept per action; the full output was shown while the run was live
+const MAX_STORED_RESULT = 20000;
+
+export class AgentRunStore {
+    private runs = new Map<string, AgentRunRecord>();
+    private storageDir?: string;
+    private counter = 0;
+
+    public maxRuns = DEFAULT_MAX_RUNS;
+    public onDidChange?: () => void;
+
+    /**
+     * Keep runs under `storageDir` and load the ones saved there. Runs that
+     * were still running when the window closed are marked interrupted and
+     * returned.
+     */
+    public configure(storageDir: string | undefined, maxRuns = DEFAULT_MAX_RUNS): AgentRunRecord[] {
+        this.storageDir = storageDir;
+        this.maxRuns = maxRuns;
+        this.runs.clear();
+
+        const interrupted: AgentRunRecord[] = [];
+        if (!storageDir || !fs.existsSync(storageDir)) {
+            return interrupted;
+        }
+
+        for (const file of fs.readdirSync(storageDir).filter(name => name.endsWith('.json'))) {
+            try {
+                const record: AgentRunRecord = JSON.parse(fs.readFileSync(path.join(storageDir, file), 'utf8'));
+                if (!record?.id || !Array.isArray(record.plan?.actions)) {
+                    continue;
+                }
+                this.runs.set(record.id, record);
+                if (record.status === 'running') {
+                    record.status = 'interrupted';
+                    interrupted.push(record);
+                    this.save(record);
+                }
+            } catch (error) {
+                console.warn(`Failed to load agent run ${file}:`, error);
+            }
+        }
+        return interrupted;
+    }
+
+    /**
+     * Start recording a run for a newly created plan
+     */
+    public start(request: string, plan: AgentRunPlan): AgentRunRecord {
+        const now = Date.now();
+        const record: AgentRunRecord = {
+            id: this.generateId(),
+            request,
+            status: 'running',
+            plan: this.copyPlan(plan),
+            createdAt: now,
+            updatedAt: now,
+            attempts: 1
+        };
+
+        this.runs.set(record.id, record);
+        this.prune();
+        this.save(record);
+        return record;
+    }
+
+    /**
+     * Continue recording an earlier run with its resumed or edited plan
+     */
+    public resume(id: string, plan: AgentRunPlan): AgentRunRecord {
+        const record = this.getRequiredRun(id);
+        record.status = 'running';
+        record.attempts++;
+        record.summary = undefined;
+        record.error = undefined;
+        return this.update(id, plan);
+    }
+
+    public update(id: string, plan: AgentRunPlan): AgentRunRecord {
+        const record = this.getRequiredRun(id);
+        record.plan = this.copyPlan(plan);
+        record.updatedAt = Date.now();
+        this.save(record);
+        return record;
+    }
+
+    public finish(id: string, status: Exclude<AgentRunStatus, 'running' | 'interrupted'>, plan: AgentRunPlan, outcome: { summary?: string; error?: string } = {}): AgentRunRecord {
+        const record = this.getRequiredRun(id);
+        record.status = status;
+        record.summary = outcome.summary;
+        record.error = outcome.error;
+        return this.update(id, plan);
+    }
+
+    /**
+     * Recorded runs, newest first
+     */
+    public getRuns(): AgentRunRecord[] {
+        return [...this.runs.values()].sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    public getRun(id: string): AgentRunRecord | undefined {
+        return this.runs.get(id);
+    }
+
+    public delete(id: string): void {
+        this.runs.delete(id);
+        if (this.storageDir) {
+            fs.rmSync(this.getRunPath(id), { force: true });
+        }
+        this.onDidChange?.();
+    }
+
+    private getRequiredRun(id: string): AgentRunRecord {
+        const record = this.runs.get(id);
+        if (!record) {
+            throw new Error(`Agent run not found: ${id}`);
+        }
+        return record;
+    }
+
+    private copyPlan(plan: AgentRunPlan): AgentRunPlan {
+        const copy: AgentRunPlan = JSON.parse(JSON.stringify(plan));
+        for (const action of copy.actions) {
+            if (action.result && action.result.length > MAX_STORED_RESULT) {
+                action.result = `${action.result.slice(0, MAX_STORED_RESULT)}\n...(truncated)`;
+            }
+        }
+        return copy;
+    }
+
+    /**
+     * Drop the oldest finished runs past the limit
+     */
+    private prune(): void {
+        const finished = this.getRuns().filter(run => run.status !== 'running');
+        for (const run of finished.slice(Math.max(0, this.maxRuns - (this.runs.size - finished.length)))) {
+            this.delete(run.id);
+        }
+    }
+
+    private save(record: AgentRunRecord): void {
+        if (this.storageDir) {
+            try {
+                fs.mkdirSync(this.storageDir, { recursive: true });
+                fs.writeFileSync(this.getRunPath(record.id), JSON.stringify(record));
+            } catch (error) {
+                console.warn('Failed to save agent run:', error);
+            }
+        }
+        this.onDidChange?.();
+    }
+
+    private getRunPath(id: string): string {
+        return path.join(this.storageDir!, `${id.replace(/[^\w-]/g, '_')}.json`);
+    }
+
+    private generateId(): string {
+        return `run_${Date.now().toString(36)}_${(this.counter++).toString(36)}`;
+    }
+}
+
+/**
+ * Where a resume starts: the first step that failed, was blocked, was cut
+ * off while running or never ran. -1 when every step completed or was skipped.
+ */
+export function getResumeIndex(plan: AgentRunPlan): number {
+    return plan.actions.findIndex(action => action.status !== 'completed' && action.status !== 'skipped');
+}
+
+/**
+ * A Markdown report of a run: the request, outcome, and every step with its
+ * dependencies, result or error, and the files it changed
+ */
+export function createRunReport(record: AgentRunRecord, toDisplayPath: (filePath: string) => string = filePath => filePath): string {
+    const plan = record.plan;
+    const stepNumber = (id: string) => plan.actions.findIndex(action => action.id === id) + 1;
+    const duration = plan.endTime ? `${Math.round((plan.endTime - plan.startTime) / 1000)}s` : 'unfinished';
+
+    const lines = [
+        `# Agent Run Report`,
+        '',
+        `- **Request:** ${record.request}`,
+        `- **Goal:** ${plan.goal}`,
+        `- **Status:** ${record.status}${plan.dryRun ? ' (dry run)' : ''}`,
+        `- **Started:** ${new Date(record.createdAt).toISOString()}`,
+        `- **Last updated:** ${new Date(record.updatedAt).toISOString()}`,
+        `- **Duration:** ${duration}, ${record.attempts} ${record.attempts === 1 ? 'attempt' : 'attempts'}`,
+        `- **Actions:** ${plan.actions.filter(action => action.status === 'completed').length}/${plan.actions.length} completed, ${plan.tokensUsed} planning tokens in the last attempt`,
+        '',
+        '## Steps',
+        ''
+    ];
+
+    plan.actions.forEach((action, index) => {
+        lines.push(`### ${index + 1}. ${action.description}`, '');
+        lines.push(`- **Tool:** \`${action.type}\` · **Status:** ${action.status}`);
+        if (action.dependsOn.length > 0) {
+            lines.push(`- **After steps:** ${action.dependsOn.map(stepNumber).join(', ')}`);
+        }
+        if (action.changedFiles?.length) {
+            lines.push(`- **Changed files:** ${action.changedFiles.map(file => `\`${toDisplayPath(file)}\``).join(', ')}`);
+        }
+        lines.push('', ...codeBlock(JSON.stringify(action.payload, null, 2), 'json'));
+        if (action.error) {
+            lines.push('', `**Error:** ${action.error}`);
+        } else if (action.result) {
+            lines.push('', ...codeBlock(action.result));
+        }
+        lines.push('');
+    });
+
+    const revisions = plan.history.filter(revision => revision.decision !== 'plan' && revision.decision !== 'continue');
+    if (revisions.length > 0) {
+        lines.push('## Plan Revisions', '');
+        lines.push(...revisions.map(revision => `- After action ${revision.iteration}: ${revision.decision}${revision.reason ? ` — ${revision.reason}` : ''}`), '');
+    }
+
+    if (record.error) {
+        lines.push('## Error', '', record.error, '');
+    } else if (record.summary) {
+        lines.push('## Summary', '', record.summary, '');
+    }
+
+    return lines.join('\n');
+}
+
+// A fence longer than any backtick run in the text, so tool output can't end the block early
+function codeBlock(text: string, language = ''): string[] {
+    const longest = Math.max(2, ...(text.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(longest + 1);
+    return [`${fence}${language}`, text, fence];
+}
+
+// Shared by the agent and the run history commands
+export const agentRunStore = new AgentRunStore();
@@ -0,0 +1,302 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { applyFileEdit } from './FileEdits';
+import { isPathInside } from './ToolPermissions';
+
+/**
+ * Approval gates for agent actions: a policy maps a tool name and operation
+ * to auto-approve, ask or deny, and previews show what an action will do.
+ */
+
+export type ApprovalDecision = 'auto' | 'ask' | 'deny';
+
+export interface ApprovalRule {
+    tool: string; // Tool name, or '*' for any tool
+    operation?: string; // Operation name, or '*'/omitted for any operation
+    decision: ApprovalDecision;
+}
+
+export interface ApprovalPolicy {
+    rules: ApprovalRule[]; // First match wins
+    defaultDecision: ApprovalDecision;
+    blockedCommands: string[];
+}
+
+export interface ApprovalEvaluation {
+    decision: ApprovalDecision;
+    operation: string;
+    reason: string;
+}
+
+export interface ActionPreview {
+    kind: 'diff' | 'command' | 'summary';
+    title: string;
+    text: string;
+}
+
+export type ApprovalResponse =
+    | { decision: 'approve' }
+    | { decision: 'skip' }
+    | { decision: 'edit'; payload: any }; // Run with the user's edited payload
+
+export const DEFAULT_APPROVAL_RULES: ApprovalRule[] = [
+    { tool: 'file_operation', operation: 'read', decision: 'auto' },
+    { tool: 'file_operation', operation: 'delete', decision: 'ask' },
+    { tool: 'terminal', decision: 'ask' },
+    { tool: 'git_operation', operation: 'push', decision: 'ask' }
+];
+
+/**
+ * Actions that only look at the workspace. A dry run still executes these so
+ * the agent can plan against real file contents.
+ */
+const READ_ONLY_ACTIONS: Array<{ tool: string; operation?: string }> = [
+    { tool: 'file_operation', operation: 'read' },
+    { tool: 'git_operation', operation: 'status' },
+    { tool: 'git_operation', operation: 'log' },
+    { tool: 'git_operation', operation: 'diff' },
+    { tool: 'git_operation', operation: 'show' },
+    { tool: 'git_operation', operation: 'blame' },
+    { tool: 'git_operation', operation: 'merge_base' },
+    { tool: 'git_operation', operation: 'conflicts' },
+    { tool: 'git_operation', operation: 'rebase_status' },
+    { tool: 'git_operation', operation: 'hunks' },
+    { tool: 'git_operation', operation: 'pr_diff' },
+    { tool: 'search_analysis' },
+    { tool: 'WorkspaceSearchTool' },
+    { tool: 'CodeNavigationTool' }
+];
+
+// Largest before × after line product diffed exactly; bigger files show a full replacement
+const MAX_DIFF_CELLS = 1000000;
+const DIFF_CONTEXT_LINES = 3;
+
+const DECISIONS: ApprovalDecision[] = ['auto', 'ask', 'deny'];
+
+/**
+ * Build a policy from settings. User rules come first, then tools listed in
+ * `safetyControls.requireConfirmation`, then the built-in defaults.
+ */
+export function createApprovalPolicy(config?: {
+    rules?: any[];
+    defaultDecision?: string;
+    requireConfirmation?: string[];
+    blockedCommands?: string[];
+}): ApprovalPolicy {
+    const userRules = (config?.rules || []).filter(isValidRule).map(rule => ({
+        tool: rule.tool,
+        operation: typeof rule.operation === 'string' ? rule.operation : undefined,
+        decision: rule.decision as ApprovalDecision
+    }));
+    const confirmationRules = (config?.requireConfirmation || [])
+        .filter(tool => typeof tool === 'string' && tool.trim())
+        .map(tool => ({ tool: tool.trim(), decision: 'ask' as ApprovalDecision }));
+
+    return {
+        rules: [...userRules, ...confirmationRules, ...DEFAULT_APPROVAL_RULES],
+        defaultDecision: DECISIONS.includes(config?.defaultDecision as ApprovalDecision)
+            ? config!.defaultDecision as ApprovalDecision
+            : 'auto',
+        blockedCommands: (config?.blockedCommands || []).filter(command => typeof command === 'string' && command.trim())
+    };
+}
+
+function isValidRule(rule: any): rule is ApprovalRule {
+    return !!rule && typeof rule.tool === 'string' && rule.tool.length > 0 && DECISIONS.includes(rule.decision);
+}
+
+/**
+ * The operation an action performs. Tools name it differently: `operation`
+ * for files and git, `action` for most others, `command` for the terminal.
+ */
+export function getActionOperation(payload: any): string {
+    const operation = payload?.operation ?? payload?.action ?? payload?.command;
+    return typeof operation === 'string' ? operation : '';
+}
+
+function matches(rule: { tool: string; operation?: string }, tool: string, operation: string): boolean {
+    if (rule.tool !== '*' && rule.tool !== tool) {
+        return false;
+    }
+    return !rule.operation || rule.operation === '*' || rule.operation === operation;
+}
+
+export function evaluateApproval(policy: ApprovalPolicy, tool: string, payload: any): ApprovalEvaluation {
+    const operation = getActionOperation(payload);
+
+    const commandLine = getCommandLine(tool, payload);
+    if (commandLine) {
+        const blocked = policy.blockedCommands.find(command => commandLine.includes(command));
+        if (blocked) {
+            return { decision: 'deny', operation, reason: `Command matches blocked pattern "${blocked}"` };
+        }
+    }
+
+    const rule = policy.rules.find(candidate => matches(candidate, tool, operation));
+    if (rule) {
+        const target = rule.operation && rule.operation !== '*' ? `${rule.tool} ${rule.operation}` : rule.tool;
+        return { decision: rule.decision, operation, reason: `Policy rule for ${target}` };
+    }
+    return { decision: policy.defaultDecision, operation, reason: 'Default policy' };
+}
+
+export function isReadOnlyAction(tool: string, payload: any): boolean {
+    const operation = getActionOperation(payload);
+    return READ_ONLY_ACTIONS.some(action => matches(action, tool, operation));
+}
+
+/**
+ * The shell command a terminal or git action will run, if it runs one
+ */
+export function getCommandLine(tool: string, payload: any): string | undefined {
+    if (tool === 'terminal' && typeof payload?.command === 'string') {
+        const args: string[] = Array.isArray(payload.args) ? payload.args : [];
+        return [payload.command, ...args].join(' ');
+    }
+    if (tool === 'git_operation' && typeof payload?.operation === 'string') {
+        switch (payload.operation) {
+            case 'commit':
+                return `git commit -m "${payload.message || 'Auto commit'}"`;
+            case 'add':
+                return `git add ${payload.files?.length ? payload.files.join(' ') : '.'}`;
+            case 'branch':
+            case 'checkout':
+                return `git ${payload.operation}${payload.branchName ? ` ${payload.branchName}` : ''}`;
+            default:
+                return `git ${payload.operation}`;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Content a file operation would leave behind, mirroring FileOperationTool.
+ * Returns undefined for operations that don't change a file's text, and for
+ * edits that wouldn't apply.
+ */
+export function proposeFileContent(payload: any, currentContent: string | undefined): string | undefined {
+    const current = currentContent ?? '';
+
+    switch (payload?.operation) {
+        case 'write':
+        case 'create':
+            return payload.content || '';
+        case 'delete':
+            return '';
+        case 'edit':
+            try {
+                return applyFileEdit(current, payload).content;
+            } catch {
+                return undefined; // The tool will report why the edit doesn't apply
+            }
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Current text of the file a file operation targets, if it exists inside the workspace
+ */
+export function readPreviewTarget(tool: string, payload: any, workspaceRoot: string | undefined): string | undefined {
+    if (tool !== 'file_operation' || !workspaceRoot || typeof payload?.filePath !== 'string') {
+        return undefined;
+    }
+
+    const filePath = path.resolve(workspaceRoot, payload.filePath);
+    if (!isPathInside(workspaceRoot, filePath) || !fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+        return undefined;
+    }
+    return fs.readFileSync(filePath, 'utf8');
+}
+
+/**
+ * What the user is shown before approving an action. `currentContent` is the
+ * target file's text for file operations, when it exists.
+ */
+export function buildActionPreview(tool: string, payload: any, currentContent?: string): ActionPreview {
+    const commandLine = getCommandLine(tool, payload);
+    if (commandLine) {
+        return { kind: 'command', title: `Run \`${commandLine}\``, text: commandLine };
+    }
+
+    if (tool === 'file_operation' && payload?.filePath) {
+        const proposed = proposeFileContent(payload, currentContent);
+        if (proposed !== undefined) {
+            const verb = payload.operation === 'delete' ? 'Delete' : currentContent === undefined ? 'Create' : 'Modify';
+            return {
+                kind: 'diff',
+                title: `${verb} ${payload.filePath}`,
+                text: createLineDiff(currentContent ?? '', proposed, payload.filePath)
+            };
+        }
+        const target = payload.targetPath ? ` → ${payload.targetPath}` : '';
+        return { kind: 'summary', title: `${payload.operation} ${payload.filePath}${target}`, text: JSON.stringify(payload, null, 2) };
+    }
+
+    const operation = getActionOperation(payload);
+    return { kind: 'summary', title: operation ? `${tool} ${operation}` : tool, text: JSON.stringify(payload ?? {}, null, 2) };
+}
+
+/**
+ * Unified line diff with a few lines of context around each change
+ */
+export function createLineDiff(before: string, after: string, fileName = 'file'): string {
+    const a = before ? before.split('\n') : [];
+    const b = after ? after.split('\n') : [];
+    const header = `--- a/${fileName}\n+++ b/${fileName}`;
+
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+        return [header, ...a.map(line => `-${line}`), ...b.map(line => `+${line}`)].join('\n');
+    }
+
+    // Longest common subsequence table, filled from the end
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const lines: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+            lines.push(` ${a[i]}`);
+            i++;
+            j++;
+        } else if (i < a.length && (j >= b.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+            lines.push(`-${a[i]}`);
+            i++;
+        } else {
+            lines.push(`+${b[j]}`);
+            j++;
+        }
+    }
+
+    // Keep only context lines near a change, marking skipped stretches with @@
+    const changed = lines.map(line => line[0] !== ' ');
+    const nearChange = (index: number): boolean => {
+        for (let k = Math.max(0, index - DIFF_CONTEXT_LINES); k <= Math.min(lines.length - 1, index + DIFF_CONTEXT_LINES); k++) {
+            if (changed[k]) {
+                return true;
+            }
+        }
+        return false;
+    };
+
+    const output: string[] = [header];
+    let last = -1;
+    lines.forEach((line, index) => {
+        if (!nearChange(index)) {
+            return;
+        }
+        if (last !== -1 && index > last + 1) {
+            output.push('@@');
+        }
+        output.push(line);
+        last = index;
+    });
+
+    return last === -1 ? `${header}\n(no changes)` : output.join('\n');
+}
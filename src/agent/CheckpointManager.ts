@@ -0,0 +1,425 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createLineDiff } from './ApprovalPolicy';
+
+/**
+ * Workspace checkpoints: files are snapshotted before tools change them, so a
+ * chat turn or agent plan can be undone, restored or compared.
+ */
+
+export type CheckpointSource = 'chat' | 'agent' | 'tool' | 'restore';
+
+export interface FileSnapshot {
+    filePath: string; // Absolute path
+    blob: string | null; // Content hash, or null when the file didn't exist
+}
+
+export interface Checkpoint {
+    id: string;
+    label: string;
+    source: CheckpointSource;
+    groupId?: string; // Chat message or agent plan the checkpoint belongs to
+    createdAt: number;
+    files: FileSnapshot[]; // Each file as it was before this checkpoint first changed it
+}
+
+export interface CheckpointFileDiff {
+    filePath: string;
+    status: 'added' | 'deleted' | 'modified';
+    diff: string;
+}
+
+export interface CheckpointRestoreResult {
+    restored: string[];
+    deleted: string[];
+    laterChanges: string[]; // Files a later checkpoint changed too; their later edits are lost
+    safetyCheckpointId?: string; // Undoes the restore itself
+}
+
+interface PendingCheckpoint {
+    handle: string;
+    label: string;
+    source: CheckpointSource;
+    groupId?: string;
+    checkpointId?: string; // Set once the first file is snapshotted
+}
+
+const DEFAULT_MAX_CHECKPOINTS = 50;
+const INDEX_FILE = 'index.json';
+
+export class CheckpointManager {
+    private checkpoints: Checkpoint[] = [];
+    private blobs = new Map<string, Buffer>(); // In-memory store when no storage directory is set
+    private storageDir?: string;
+    private active?: PendingCheckpoint;
+    private trackers = new Set<Set<string>>();
+    private counter = 0;
+
+    public maxCheckpoints = DEFAULT_MAX_CHECKPOINTS;
+    public onDidChange?: () => void;
+
+    /**
+     * Keep snapshots under `storageDir` and load checkpoints saved there
+     */
+    public configure(storageDir: string | undefined, maxCheckpoints = DEFAULT_MAX_CHECKPOINTS): void {
+        this.storageDir = storageDir;
+        this.maxCheckpoints = maxCheckpoints;
+        this.checkpoints = [];
+
+        if (!storageDir) {
+            return;
+        }
+
+        try {
+            const index = path.join(storageDir, INDEX_FILE);
+            if (fs.existsSync(index)) {
+                const saved = JSON.parse(fs.readFileSync(index, 'utf8'));
+                this.checkpoints = Array.isArray(saved?.checkpoints) ? saved.checkpoints : [];
+            }
+        } catch (error) {
+            console.warn('Failed to load checkpoints:', error);
+        }
+    }
+
+    /**
+     * Group the snapshots that follow under one checkpoint. The checkpoint is
+     * only recorded once a file is actually snapshotted. A begin while another
+     * checkpoint is open (an agent plan inside a chat turn) joins the outer
+     * one; pass the returned handle to `end`.
+     */
+    public begin(label: string, source: CheckpointSource, groupId?: string): string {
+        if (this.active) {
+            return '';
+        }
+
+        const handle = this.generateId();
+        this.active = { handle, label, source, groupId };
+        return handle;
+    }
+
+    public end(handle: string): void {
+        if (handle && this.active?.handle === handle) {
+            this.active = undefined;
+        }
+    }
+
+    /**
+     * Record files before a tool changes them and return their current state,
+     * which a tool can pass to `restoreSnapshots` to roll its own changes back.
+     * Without an active checkpoint each call gets a checkpoint of its own.
+     */
+    public snapshotFiles(filePaths: string[], label = 'Tool changes'): FileSnapshot[] {
+        const snapshots = this.recordSnapshots(filePaths, label);
+        if (snapshots.length > 0) {
+            this.prune();
+            this.save();
+        }
+        return snapshots;
+    }
+
+    public snapshotFile(filePath: string, label?: string): FileSnapshot {
+        return this.snapshotFiles([filePath], label)[0];
+    }
+
+    /**
+     * Collect the files snapshotted from now until the returned function is
+     * called, including ones the open checkpoint already holds, e.g. to see
+     * what one agent step changed
+     */
+    public trackFiles(): () => string[] {
+        const files = new Set<string>();
+        this.trackers.add(files);
+        return () => {
+            this.trackers.delete(files);
+            return [...files];
+        };
+    }
+
+    /**
+     * Checkpoint that snapshots are currently recorded in, once it has any
+     */
+    public getActiveCheckpointId(): string | undefined {
+        return this.active?.checkpointId;
+    }
+
+    /**
+     * Put files back as they were in the given snapshots, deleting ones that didn't exist
+     */
+    public restoreSnapshots(snapshots: FileSnapshot[]): { restored: string[]; deleted: string[] } {
+        const restored: string[] = [];
+        const deleted: string[] = [];
+
+        for (const snapshot of snapshots) {
+            if (snapshot.blob === null) {
+                if (fs.existsSync(snapshot.filePath) && fs.statSync(snapshot.filePath).isFile()) {
+                    fs.unlinkSync(snapshot.filePath);
+                    deleted.push(snapshot.filePath);
+                }
+                continue;
+            }
+
+            const content = this.readBlob(snapshot.blob);
+            if (!content) {
+                throw new Error(`Snapshot of ${snapshot.filePath} is missing from checkpoint storage`);
+            }
+            fs.mkdirSync(path.dirname(snapshot.filePath), { recursive: true });
+            fs.writeFileSync(snapshot.filePath, content);
+            restored.push(snapshot.filePath);
+        }
+
+        return { restored, deleted };
+    }
+
+    public getCheckpoints(): Checkpoint[] {
+        return [...this.checkpoints];
+    }
+
+    public getCheckpoint(id: string): Checkpoint | undefined {
+        return this.checkpoints.find(checkpoint => checkpoint.id === id);
+    }
+
+    /**
+     * Latest checkpoint recorded for a chat message or agent plan
+     */
+    public getCheckpointForGroup(groupId: string): Checkpoint | undefined {
+        return [...this.checkpoints].reverse().find(checkpoint => checkpoint.groupId === groupId);
+    }
+
+    /**
+     * Undo one checkpoint: put the files it changed back as they were before
+     * it. Later checkpoints that touched the same files are reported, since
+     * their edits to those files are lost.
+     */
+    public undoCheckpoint(id: string): CheckpointRestoreResult {
+        const index = this.indexOf(id);
+        const checkpoint = this.checkpoints[index];
+        const later = new Set(this.checkpoints.slice(index + 1).flatMap(c => c.files.map(file => file.filePath)));
+
+        return {
+            ...this.restoreWithSafetyCheckpoint(checkpoint.files, `Before undoing "${checkpoint.label}"`),
+            laterChanges: checkpoint.files.map(file => file.filePath).filter(filePath => later.has(filePath))
+        };
+    }
+
+    /**
+     * Put every file changed since the checkpoint began back to that state
+     */
+    public restoreToCheckpoint(id: string): CheckpointRestoreResult {
+        const checkpoint = this.checkpoints[this.indexOf(id)];
+        const snapshots = Array.from(this.getStateAt(id).entries()).map(([filePath, blob]) => ({ filePath, blob }));
+
+        return {
+            ...this.restoreWithSafetyCheckpoint(snapshots, `Before restoring to "${checkpoint.label}"`),
+            laterChanges: []
+        };
+    }
+
+    /**
+     * Changes between the start of one checkpoint and the start of a later
+     * one, or the current workspace when `toId` is omitted
+     */
+    public diffCheckpoints(fromId: string, toId?: string): CheckpointFileDiff[] {
+        let from = this.getStateAt(fromId);
+        let to: Map<string, string | null>;
+
+        if (toId) {
+            to = this.getStateAt(toId);
+            if (this.indexOf(toId) < this.indexOf(fromId)) {
+                [from, to] = [to, from];
+            }
+        } else {
+            to = new Map();
+        }
+
+        const diffs: CheckpointFileDiff[] = [];
+        for (const filePath of new Set([...from.keys(), ...to.keys()])) {
+            const before = from.has(filePath) ? from.get(filePath)! : this.capture(filePath).blob;
+            const after = to.has(filePath) ? to.get(filePath)! : this.capture(filePath).blob;
+            if (before === after) {
+                continue;
+            }
+
+            const beforeText = before ? this.readBlob(before)?.toString('utf8') ?? '' : '';
+            const afterText = after ? this.readBlob(after)?.toString('utf8') ?? '' : '';
+            diffs.push({
+                filePath,
+                status: before === null ? 'added' : after === null ? 'deleted' : 'modified',
+                diff: createLineDiff(beforeText, afterText, path.basename(filePath))
+            });
+        }
+        return diffs.sort((a, b) => a.filePath.localeCompare(b.filePath));
+    }
+
+    /**
+     * Each file changed from the checkpoint onwards, as it was when the
+     * checkpoint began: the earliest snapshot of it from that point on
+     */
+    private getStateAt(id: string): Map<string, string | null> {
+        const state = new Map<string, string | null>();
+        for (const checkpoint of this.checkpoints.slice(this.indexOf(id))) {
+            for (const file of checkpoint.files) {
+                if (!state.has(file.filePath)) {
+                    state.set(file.filePath, file.blob);
+                }
+            }
+        }
+        return state;
+    }
+
+    /**
+     * Pruning waits until the files are back, since the safety checkpoint can
+     * push the one being restored past the limit
+     */
+    private restoreWithSafetyCheckpoint(snapshots: FileSnapshot[], label: string): Omit<CheckpointRestoreResult, 'laterChanges'> {
+        const previous = this.active;
+        const safety: PendingCheckpoint = { handle: this.generateId(), label, source: 'restore' };
+        this.active = safety;
+
+        try {
+            this.recordSnapshots(snapshots.map(snapshot => snapshot.filePath), label);
+            return { ...this.restoreSnapshots(snapshots), safetyCheckpointId: safety.checkpointId };
+        } finally {
+            this.active = previous;
+            this.prune();
+            this.save();
+            this.onDidChange?.();
+        }
+    }
+
+    /**
+     * Capture the files and add them to the active checkpoint, without pruning
+     */
+    private recordSnapshots(filePaths: string[], label: string): FileSnapshot[] {
+        const snapshots = [...new Set(filePaths.map(filePath => path.resolve(filePath)))].map(filePath => this.capture(filePath));
+        if (snapshots.length === 0) {
+            return snapshots;
+        }
+        this.trackers.forEach(tracker => snapshots.forEach(snapshot => tracker.add(snapshot.filePath)));
+
+        const checkpoint = this.getActiveCheckpoint(label);
+        for (const snapshot of snapshots) {
+            if (!checkpoint.files.some(file => file.filePath === snapshot.filePath)) {
+                checkpoint.files.push(snapshot);
+            }
+        }
+        return snapshots;
+    }
+
+    private getActiveCheckpoint(label: string): Checkpoint {
+        const existing = this.active?.checkpointId ? this.getCheckpoint(this.active.checkpointId) : undefined;
+        if (existing) {
+            return existing;
+        }
+
+        const checkpoint: Checkpoint = {
+            id: this.generateId(),
+            label: this.active?.label ?? label,
+            source: this.active?.source ?? 'tool',
+            groupId: this.active?.groupId,
+            createdAt: Date.now(),
+            files: []
+        };
+        if (this.active) {
+            this.active.checkpointId = checkpoint.id;
+        }
+
+        // Pruned by the caller once the new checkpoint's files are recorded
+        this.checkpoints.push(checkpoint);
+        this.onDidChange?.();
+        return checkpoint;
+    }
+
+    private capture(filePath: string): FileSnapshot {
+        if (!fs.existsSync(filePath) || !fs.statSync(filePath).isFile()) {
+            return { filePath, blob: null };
+        }
+        return { filePath, blob: this.writeBlob(fs.readFileSync(filePath)) };
+    }
+
+    private indexOf(id: string): number {
+        const index = this.checkpoints.findIndex(checkpoint => checkpoint.id === id);
+        if (index === -1) {
+            throw new Error(`Checkpoint not found: ${id}`);
+        }
+        return index;
+    }
+
+    /**
+     * Drop the oldest checkpoints past the limit, and snapshots nothing refers to
+     */
+    private prune(): void {
+        if (this.checkpoints.length <= this.maxCheckpoints) {
+            return;
+        }
+
+        this.checkpoints = this.checkpoints.slice(-this.maxCheckpoints);
+        const referenced = new Set(this.checkpoints.flatMap(checkpoint => checkpoint.files.map(file => file.blob)));
+
+        for (const hash of this.blobs.keys()) {
+            if (!referenced.has(hash)) {
+                this.blobs.delete(hash);
+            }
+        }
+
+        const blobDir = this.getBlobDir();
+        if (blobDir && fs.existsSync(blobDir)) {
+            for (const hash of fs.readdirSync(blobDir)) {
+                if (!referenced.has(hash)) {
+                    fs.unlinkSync(path.join(blobDir, hash));
+                }
+            }
+        }
+    }
+
+    private writeBlob(content: Buffer): string {
+        const hash = crypto.createHash('sha256').update(content).digest('hex');
+        const blobDir = this.getBlobDir();
+
+        if (!blobDir) {
+            this.blobs.set(hash, content);
+            return hash;
+        }
+
+        const blobPath = path.join(blobDir, hash);
+        if (!fs.existsSync(blobPath)) {
+            fs.mkdirSync(blobDir, { recursive: true });
+            fs.writeFileSync(blobPath, content);
+        }
+        return hash;
+    }
+
+    private readBlob(hash: string): Buffer | undefined {
+        const blobDir = this.getBlobDir();
+        if (!blobDir) {
+            return this.blobs.get(hash);
+        }
+
+        const blobPath = path.join(blobDir, hash);
+        return fs.existsSync(blobPath) ? fs.readFileSync(blobPath) : undefined;
+    }
+
+    private getBlobDir(): string | undefined {
+        return this.storageDir ? path.join(this.storageDir, 'blobs') : undefined;
+    }
+
+    private save(): void {
+        if (!this.storageDir) {
+            return;
+        }
+
+        try {
+            fs.mkdirSync(this.storageDir, { recursive: true });
+            fs.writeFileSync(path.join(this.storageDir, INDEX_FILE), JSON.stringify({ checkpoints: this.checkpoints }));
+        } catch (error) {
+            console.warn('Failed to save checkpoints:', error);
+        }
+    }
+
+    private generateId(): string {
+        return `cp_${Date.now().toString(36)}_${(this.counter++).toString(36)}`;
+    }
+}
+
+// Shared by every tool so snapshots from one turn land in the same checkpoint
+export const checkpointManager = new CheckpointManager();
@@ -0,0 +1,382 @@
+/**
+ * The `edit` operation shared by FileOperationTool and MultiFileEditingTool:
+ * anchored search-and-replace and unified-diff patches.
+ */
+
+export interface FileEditSpec {
+    searchText?: string;
+    replaceText?: string;
+    expectedOccurrences?: number; // Exact number of matches required; all of them are replaced
+    replaceAll?: boolean; // Replace every match, however many there are
+    startLine?: number; // 1-based, inclusive: only search these lines
+    endLine?: number;
+    patch?: string; // Unified diff hunks for this file
+    fuzz?: number; // Context lines a hunk may drop from each end to apply (default 2)
+    lineNumber?: number;
+    insertAt?: string;
+    content?: string;
+}
+
+export type EditErrorCode =
+    | 'invalid_edit'
+    | 'invalid_range'
+    | 'not_found'
+    | 'ambiguous'
+    | 'count_mismatch'
+    | 'invalid_patch'
+    | 'patch_failed';
+
+export class EditError extends Error {
+    constructor(message: string, public readonly code: EditErrorCode) {
+        super(message);
+        this.name = 'EditError';
+    }
+}
+
+export interface FileEditResult {
+    content: string;
+    message: string;
+}
+
+export const DEFAULT_PATCH_FUZZ = 2;
+// Match line numbers listed in error and result messages
+const MAX_REPORTED_LINES = 5;
+
+/**
+ * Apply one edit to a file's content. Throws EditError when the edit can't
+ * be applied exactly as asked.
+ */
+export function applyFileEdit(content: string, edit: FileEditSpec): FileEditResult {
+    if (typeof edit.patch === 'string' && edit.patch.trim()) {
+        return applyUnifiedPatch(content, edit.patch, edit.fuzz ?? DEFAULT_PATCH_FUZZ);
+    }
+
+    if (edit.searchText !== undefined || edit.replaceText !== undefined) {
+        return replaceAnchored(content, edit);
+    }
+
+    if (edit.lineNumber && edit.content) {
+        return {
+            content: insertAtLine(content, edit.lineNumber, edit.content),
+            message: `Inserted content at line ${edit.lineNumber}`
+        };
+    }
+
+    if (edit.insertAt && edit.content) {
+        const position = String(edit.insertAt).toLowerCase();
+        if (position === 'start') {
+            return { content: edit.content + '\n' + content, message: 'Inserted content at the beginning of file' };
+        }
+        if (position === 'end') {
+            return { content: content + '\n' + edit.content, message: 'Appended content to the end of file' };
+        }
+        const lineNumber = parseInt(position, 10);
+        if (isNaN(lineNumber)) {
+            throw new EditError('Invalid insertAt value. Use "start", "end", or a line number', 'invalid_edit');
+        }
+        return { content: insertAtLine(content, lineNumber, edit.content), message: `Inserted content at line ${lineNumber}` };
+    }
+
+    if (edit.content) {
+        return { content: edit.content, message: 'Replaced entire file content' };
+    }
+
+    throw new EditError(
+        'Edit operation requires searchText/replaceText, a patch, lineNumber/content, insertAt/content, or just content',
+        'invalid_edit'
+    );
+}
+
+function insertAtLine(content: string, lineNumber: number, text: string): string {
+    const lines = content.split('\n');
+    const index = Math.max(0, Math.min(lineNumber - 1, lines.length));
+    lines.splice(index, 0, text);
+    return lines.join('\n');
+}
+
+/**
+ * Replace `searchText` within the scoped lines, checking the match count first
+ */
+function replaceAnchored(content: string, edit: FileEditSpec): FileEditResult {
+    if (!edit.searchText) {
+        throw new EditError('searchText is required and must not be empty when replacing text', 'invalid_edit');
+    }
+    if (edit.replaceText === undefined) {
+        throw new EditError('replaceText is required with searchText (use "" to delete the text)', 'invalid_edit');
+    }
+
+    const lines = content.split('\n');
+    const { start, end } = resolveLineRange(lines.length, edit.startLine, edit.endLine);
+    const scopeLabel = edit.startLine !== undefined || edit.endLine !== undefined ? `lines ${start + 1}-${end}` : 'the file';
+
+    // Work on the scoped slice as text, keeping the offset so matches map back to file lines
+    const before = lines.slice(0, start).join('\n');
+    const scoped = lines.slice(start, end).join('\n');
+    const after = lines.slice(end).join('\n');
+    const scopeStartLine = start + 1;
+
+    const matchLines = findOccurrences(scoped, edit.searchText).map(index => scopeStartLine + countNewlines(scoped, index));
+    const count = matchLines.length;
+
+    if (count === 0) {
+        throw new EditError(notFoundMessage(scoped, edit.searchText, scopeLabel, scopeStartLine), 'not_found');
+    }
+    if (edit.expectedOccurrences !== undefined && count !== edit.expectedOccurrences) {
+        throw new EditError(
+            `Expected ${edit.expectedOccurrences} occurrence(s) of searchText in ${scopeLabel} but found ${count} (${formatLines(matchLines)}). ` +
+            'Adjust searchText or expectedOccurrences, or narrow the edit with startLine/endLine.',
+            'count_mismatch'
+        );
+    }
+    if (edit.expectedOccurrences === undefined && !edit.replaceAll && count > 1) {
+        throw new EditError(
+            `searchText is ambiguous: found ${count} occurrences in ${scopeLabel} (${formatLines(matchLines)}). ` +
+            'Include more surrounding lines so it matches once, narrow the edit with startLine/endLine, ' +
+            'or set expectedOccurrences (or replaceAll) to replace every match.',
+            'ambiguous'
+        );
+    }
+
+    const replaced = scoped.split(edit.searchText).join(edit.replaceText);
+    const parts = [];
+    if (start > 0) {
+        parts.push(before);
+    }
+    parts.push(replaced);
+    if (end < lines.length) {
+        parts.push(after);
+    }
+
+    return {
+        content: parts.join('\n'),
+        message: `Replaced ${count} occurrence(s) of searchText at ${formatLines(matchLines)}`
+    };
+}
+
+function resolveLineRange(lineCount: number, startLine?: number, endLine?: number): { start: number; end: number } {
+    const start = startLine ?? 1;
+    const end = endLine ?? lineCount;
+
+    if (Number.isInteger(start) && start > lineCount) {
+        throw new EditError(`startLine ${start} is past the end of the file (${lineCount} lines)`, 'invalid_range');
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start) {
+        throw new EditError(`Invalid line range ${start}-${end}: startLine and endLine are 1-based and startLine <= endLine`, 'invalid_range');
+    }
+    return { start: start - 1, end: Math.min(end, lineCount) };
+}
+
+function findOccurrences(text: string, search: string): number[] {
+    const indexes: number[] = [];
+    let index = text.indexOf(search);
+    while (index !== -1) {
+        indexes.push(index);
+        index = text.indexOf(search, index + search.length);
+    }
+    return indexes;
+}
+
+function countNewlines(text: string, end: number): number {
+    let count = 0;
+    for (let i = 0; i < end; i++) {
+        if (text.charCodeAt(i) === 10) {
+            count++;
+        }
+    }
+    return count;
+}
+
+function formatLines(lines: number[]): string {
+    const shown = lines.slice(0, MAX_REPORTED_LINES).join(', ');
+    const more = lines.length > MAX_REPORTED_LINES ? ` and ${lines.length - MAX_REPORTED_LINES} more` : '';
+    return `${lines.length === 1 ? 'line' : 'lines'} ${shown}${more}`;
+}
+
+/**
+ * Explain a missing anchor, pointing at a near match when the text only
+ * differs in whitespace
+ */
+function notFoundMessage(scoped: string, search: string, scopeLabel: string, scopeStartLine: number): string {
+    const message = `searchText was not found in ${scopeLabel}.`;
+    const firstLine = search.split('\n').find(line => line.trim())?.trim();
+    if (!firstLine) {
+        return `${message} Read the file again and copy the text exactly.`;
+    }
+
+    const near = scoped.split('\n')
+        .map((line, index) => ({ line, number: scopeStartLine + index }))
+        .filter(candidate => candidate.line.trim() === firstLine)
+        .map(candidate => candidate.number);
+
+    return near.length > 0
+        ? `${message} Its first line appears at ${formatLines(near)} with different whitespace or surrounding lines; read the file again and copy the text exactly, including indentation.`
+        : `${message} Read the file again and copy the text exactly, including whitespace and line breaks.`;
+}
+
+interface PatchHunk {
+    header: string;
+    oldStart?: number; // 1-based; missing when the header has no line numbers
+    lines: Array<{ kind: ' ' | '-' | '+'; text: string }>;
+}
+
+/**
+ * Parse unified diff hunks. File headers (`---`, `+++`, `diff --git`) are
+ * skipped; a bare `@@` header is accepted and the hunk is located by content.
+ */
+export function parseUnifiedPatch(patch: string): PatchHunk[] {
+    const hunks: PatchHunk[] = [];
+    let current: PatchHunk | undefined;
+
+    for (const raw of patch.replace(/\r\n/g, '\n').split('\n')) {
+        if (raw.startsWith('@@')) {
+            const match = raw.match(/^@@\s*-(\d+)(?:,\d+)?\s+\+\d+(?:,\d+)?\s*@@/);
+            current = { header: raw.trim(), oldStart: match ? parseInt(match[1], 10) : undefined, lines: [] };
+            hunks.push(current);
+        } else if (!current) {
+            continue; // File headers and anything else before the first hunk
+        } else if (raw.startsWith('\\')) {
+            continue; // "\ No newline at end of file"
+        } else if (raw.startsWith('+') || raw.startsWith('-') || raw.startsWith(' ')) {
+            current.lines.push({ kind: raw[0] as ' ' | '-' | '+', text: raw.slice(1) });
+        } else if (raw === '') {
+            current.lines.push({ kind: ' ', text: '' }); // Editors often strip the space from blank context lines
+        } else {
+            throw new EditError(`Invalid patch line in hunk "${current.header}": "${raw}". Lines must start with " ", "-" or "+"`, 'invalid_patch');
+        }
+    }
+
+    // A trailing newline in the patch text isn't a blank context line
+    for (const hunk of hunks) {
+        while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].kind === ' ' && hunk.lines[hunk.lines.length - 1].text === '') {
+            hunk.lines.pop();
+        }
+    }
+
+    if (hunks.length === 0) {
+        throw new EditError('patch contains no hunks. Use unified diff format with "@@ -start,count +start,count @@" headers', 'invalid_patch');
+    }
+    return hunks;
+}
+
+/**
+ * Apply unified diff hunks in order. Each hunk is looked for nearest to the
+ * line its header names; if its full context isn't found, up to `fuzz`
+ * context lines are dropped from each end, like `patch --fuzz`.
+ */
+export function applyUnifiedPatch(content: string, patch: string, fuzz = DEFAULT_PATCH_FUZZ): FileEditResult {
+    const hunks = parseUnifiedPatch(patch);
+    const lines = content.split('\n');
+    const notes: string[] = [];
+    let searchFrom = 0;
+    let lineShift = 0; // Lines added minus removed by earlier hunks
+
+    hunks.forEach((hunk, hunkIndex) => {
+        const label = `Hunk ${hunkIndex + 1} (${hunk.header})`;
+        if (!hunk.lines.some(line => line.kind !== ' ')) {
+            throw new EditError(`${label} has no added or removed lines`, 'invalid_patch');
+        }
+
+        const placement = locateHunk(lines, hunk, searchFrom, lineShift, Math.max(0, fuzz));
+        if (!placement) {
+            const expected = hunk.lines.filter(line => line.kind !== '+').map(line => line.text);
+            throw new EditError(
+                `${label} did not apply: its context and removed lines were not found${hunk.oldStart ? ` near line ${hunk.oldStart}` : ''}` +
+                `${hunkIndex > 0 ? ` after hunk ${hunkIndex}` : ''}. ` +
+                `Expected these lines in the file:\n${expected.join('\n')}\nRead the file again and regenerate the patch against its current content.`,
+                'patch_failed'
+            );
+        }
+
+        const { index, trimStart, trimEnd } = placement;
+        const body = hunk.lines.slice(trimStart, hunk.lines.length - trimEnd);
+        const removed = body.filter(line => line.kind !== '+').length;
+        const added = body.filter(line => line.kind !== '-').map(line => line.text);
+        lines.splice(index, removed, ...added);
+
+        if (hunk.oldStart !== undefined) {
+            const offset = index - trimStart - (hunk.oldStart - 1 + lineShift);
+            if (offset !== 0) {
+                notes.push(`hunk ${hunkIndex + 1} offset ${offset > 0 ? '+' : ''}${offset} lines`);
+            }
+        }
+        if (trimStart > 0 || trimEnd > 0) {
+            notes.push(`hunk ${hunkIndex + 1} fuzz ${Math.max(trimStart, trimEnd)}`);
+        }
+
+        searchFrom = index + added.length;
+        lineShift += added.length - removed;
+    });
+
+    return {
+        content: lines.join('\n'),
+        message: `Applied ${hunks.length} ${hunks.length === 1 ? 'hunk' : 'hunks'}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`
+    };
+}
+
+function locateHunk(
+    lines: string[],
+    hunk: PatchHunk,
+    searchFrom: number,
+    lineShift: number,
+    fuzz: number
+): { index: number; trimStart: number; trimEnd: number } | undefined {
+    const leadingContext = countContext(hunk.lines);
+    const trailingContext = countContext([...hunk.lines].reverse());
+
+    for (let level = 0; level <= fuzz; level++) {
+        const trimStart = Math.min(level, leadingContext);
+        const trimEnd = Math.min(level, trailingContext);
+        if (level > 0 && trimStart === 0 && trimEnd === 0) {
+            break; // No context left to drop
+        }
+
+        const expected = hunk.lines.slice(trimStart, hunk.lines.length - trimEnd)
+            .filter(line => line.kind !== '+')
+            .map(line => line.text);
+        const hint = hunk.oldStart !== undefined ? hunk.oldStart - 1 + lineShift + trimStart : searchFrom;
+        const index = findBlock(lines, expected, searchFrom, hint, hunk.oldStart === undefined);
+        if (index !== undefined) {
+            return { index, trimStart, trimEnd };
+        }
+    }
+    return undefined;
+}
+
+function countContext(hunkLines: PatchHunk['lines']): number {
+    let count = 0;
+    while (count < hunkLines.length && hunkLines[count].kind === ' ') {
+        count++;
+    }
+    return count;
+}
+
+/**
+ * Where `block` occurs at or after `from`, closest to `hint`. Lines are
+ * compared exactly first, then ignoring trailing whitespace. Without a line
+ * hint the block must occur only once.
+ */
+function findBlock(lines: string[], block: string[], from: number, hint: number, requireUnique: boolean): number | undefined {
+    for (const normalize of [(line: string) => line, (line: string) => line.trimEnd()]) {
+        const target = block.map(normalize);
+        const candidates: number[] = [];
+
+        for (let start = from; start + target.length <= lines.length; start++) {
+            if (target.every((line, offset) => normalize(lines[start + offset]) === line)) {
+                candidates.push(start);
+            }
+        }
+
+        if (candidates.length === 0) {
+            continue;
+        }
+        if (requireUnique && candidates.length > 1) {
+            throw new EditError(
+                `A hunk without line numbers matches ${candidates.length} places (lines ${candidates.map(c => c + 1).slice(0, MAX_REPORTED_LINES).join(', ')}). ` +
+                'Add "@@ -start,count +start,count @@" headers or more context lines.',
+                'patch_failed'
+            );
+        }
+        return candidates.reduce((best, candidate) => Math.abs(candidate - hint) < Math.abs(best - hint) ? candidate : best);
+    }
+    return undefined;
+}
@@ -0,0 +1,776 @@
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Structured access to git for the git tool and the chat view, spawning git
+ * with argument arrays and parsing its output into plain objects.
+ */
+
+export class GitError extends Error {
+    constructor(message: string, public readonly exitCode: number | null, public readonly stderr: string) {
+        super(message);
+        this.name = 'GitError';
+    }
+}
+
+export interface GitFileStatus {
+    path: string;
+    originalPath?: string; // Source of a rename or copy
+    index: string; // Porcelain status letter for the index, ' ' when unchanged
+    worktree: string; // Porcelain status letter for the working tree
+    staged: boolean;
+    unstaged: boolean;
+    untracked: boolean;
+    conflicted: boolean;
+}
+
+export interface GitStatus {
+    branch?: string; // Undefined when HEAD is detached
+    upstream?: string;
+    ahead: number;
+    behind: number;
+    clean: boolean;
+    files: GitFileStatus[];
+}
+
+export interface GitCommit {
+    hash: string;
+    shortHash: string;
+    parents: string[];
+    author: string;
+    email: string;
+    date: string; // ISO 8601 author date
+    subject: string;
+    body: string;
+}
+
+export interface GitDiffFile {
+    path: string;
+    originalPath?: string;
+    status: string; // A, M, D, R, C, T or U
+    additions: number | null; // Null for binary files
+    deletions: number | null;
+    binary: boolean;
+}
+
+export interface GitDiff {
+    files: GitDiffFile[];
+    additions: number;
+    deletions: number;
+    patch: string;
+}
+
+export interface GitPullRequestDiff extends GitDiff {
+    base: string;
+    head: string;
+    mergeBase: string;
+    commits: GitCommit[];
+}
+
+export interface GitBlameLine {
+    line: number;
+    hash: string;
+    author: string;
+    email: string;
+    date: string;
+    summary: string;
+    content: string;
+}
+
+export interface GitStashEntry {
+    index: number;
+    ref: string; // stash@{n}
+    hash: string;
+    message: string;
+}
+
+export interface GitTag {
+    name: string;
+    hash: string;
+    annotated: boolean;
+    subject: string;
+}
+
+export interface GitBranch {
+    name: string;
+    hash: string;
+    upstream?: string;
+    current: boolean;
+}
+
+export interface GitHunk {
+    index: number; // 1-based, as accepted by stageHunks/unstageHunks
+    header: string;
+    oldStart: number;
+    oldLines: number;
+    newStart: number;
+    newLines: number;
+    lines: string[];
+}
+
+export interface GitRepositoryState {
+    operation?: 'merge' | 'rebase' | 'cherry-pick' | 'revert';
+    conflicts: string[];
+    rebase?: {
+        headName?: string;
+        onto?: string;
+        step?: number;
+        total?: number;
+        interactive: boolean;
+    };
+}
+
+interface FileDiffHunks {
+    header: string[];
+    hunks: GitHunk[];
+}
+
+const COMMIT_FORMAT = '%H%x1f%h%x1f%P%x1f%an%x1f%ae%x1f%aI%x1f%s%x1f%b%x1e';
+const DEFAULT_TIMEOUT = 60000;
+const CONFLICT_CODES = ['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU'];
+
+export class GitBackend {
+    constructor(private readonly cwd: string, private readonly timeout: number = DEFAULT_TIMEOUT) {}
+
+    public async status(): Promise<GitStatus> {
+        const output = await this.run(['status', '--porcelain=v1', '-z', '--branch', '--untracked-files=all']);
+        const entries = output.split('\0');
+        const status: GitStatus = { ahead: 0, behind: 0, clean: true, files: [] };
+
+        for (let i = 0; i < entries.length; i++) {
+            const entry = entries[i];
+            if (entry.startsWith('## ')) {
+                Object.assign(status, parseBranchHeader(entry.slice(3)));
+                continue;
+            }
+            if (entry.length < 4 || entry.startsWith('!!')) {
+                continue;
+            }
+
+            const code = entry.slice(0, 2);
+            const file: GitFileStatus = {
+                path: entry.slice(3),
+                index: code[0],
+                worktree: code[1],
+                staged: false,
+                unstaged: false,
+                untracked: code === '??',
+                conflicted: CONFLICT_CODES.includes(code)
+            };
+            if (code[0] === 'R' || code[0] === 'C') {
+                file.originalPath = entries[++i];
+            }
+            file.staged = !file.untracked && !file.conflicted && code[0] !== ' ';
+            file.unstaged = !file.untracked && !file.conflicted && code[1] !== ' ';
+            status.files.push(file);
+        }
+
+        status.clean = status.files.length === 0;
+        return status;
+    }
+
+    public async log(options: { ref?: string; maxCount?: number; paths?: string[]; author?: string; grep?: string } = {}): Promise<GitCommit[]> {
+        const args = ['log', `--max-count=${Math.max(1, Math.floor(options.maxCount ?? 10))}`, `--format=${COMMIT_FORMAT}`];
+        if (options.author) {
+            args.push(`--author=${options.author}`);
+        }
+        if (options.grep) {
+            args.push(`--grep=${options.grep}`);
+        }
+        if (options.ref) {
+            args.push(assertRef(options.ref));
+        }
+        args.push('--', ...(options.paths || []));
+        return parseCommits(await this.run(args));
+    }
+
+    /**
+     * A commit with the files it changed and its patch
+     */
+    public async show(ref: string): Promise<{ commit: GitCommit; diff: GitDiff }> {
+        const commits = parseCommits(await this.run(['show', '-s', `--format=${COMMIT_FORMAT}`, assertRef(ref), '--']));
+        if (commits.length === 0) {
+            throw new GitError(`'${ref}' is not a commit`, null, '');
+        }
+        const diff = await this.collectDiff(['show', '--format=', '-M', '--first-parent', ref]);
+        return { commit: commits[0], diff };
+    }
+
+    /**
+     * File content at a revision; the path is relative to the working directory
+     */
+    public async fileAt(ref: string, filePath: string): Promise<string> {
+        return this.run(['show', `${assertRef(ref)}:./${toGitPath(filePath)}`]);
+    }
+
+    /**
+     * Working tree against the index by default; `staged` compares the index
+     * with HEAD, and refs compare commits (or a commit with the working tree)
+     */
+    public async diff(options: { from?: string; to?: string; staged?: boolean; paths?: string[] } = {}): Promise<GitDiff> {
+        const args = ['diff', '-M'];
+        if (options.staged) {
+            args.push('--cached');
+        }
+        if (options.from) {
+            args.push(assertRef(options.from));
+        }
+        if (options.to) {
+            args.push(assertRef(options.to));
+        }
+        return this.collectDiff(args, options.paths);
+    }
+
+    /**
+     * What a pull request from `head` into `base` would contain: the changes
+     * since their merge base and the commits that make them up
+     */
+    public async pullRequestDiff(base: string, head: string = 'HEAD'): Promise<GitPullRequestDiff> {
+        const mergeBase = await this.mergeBase(base, head);
+        const commits = await this.log({ ref: `${mergeBase}..${assertRef(head)}`, maxCount: 200 });
+        const diff = await this.diff({ from: mergeBase, to: head });
+        return { base, head, mergeBase, commits, ...diff };
+    }
+
+    public async mergeBase(a: string, b: string): Promise<string> {
+        return (await this.run(['merge-base', assertRef(a), assertRef(b)])).trim();
+    }
+
+    public async blame(filePath: string, options: { startLine?: number; endLine?: number; ref?: string } = {}): Promise<GitBlameLine[]> {
+        const args = ['blame', '--porcelain'];
+        if (options.startLine) {
+            args.push('-L', `${options.startLine},${options.endLine ?? ''}`);
+        }
+        if (options.ref) {
+            args.push(assertRef(options.ref));
+        }
+        args.push('--', filePath);
+        return parseBlame(await this.run(args));
+    }
+
+    public async branches(): Promise<GitBranch[]> {
+        const output = await this.run(['for-each-ref', 'refs/heads', '--format=%(refname:short)%1f%(objectname:short)%1f%(upstream:short)%1f%(HEAD)']);
+        return output.split('\n').filter(line => line).map(line => {
+            const [name, hash, upstream, head] = line.split('\x1f');
+            return { name, hash, upstream: upstream || undefined, current: head === '*' };
+        });
+    }
+
+    public async createBranch(name: string, startPoint?: string): Promise<void> {
+        await this.run(['branch', assertRef(name), ...(startPoint ? [assertRef(startPoint)] : [])]);
+    }
+
+    public async checkout(ref: string): Promise<void> {
+        // The trailing `--` keeps git from reading the ref as a path
+        await this.run(['checkout', assertRef(ref), '--']);
+    }
+
+    public async add(paths: string[] = []): Promise<void> {
+        await this.run(paths.length > 0 ? ['add', '--', ...paths] : ['add', '-A']);
+    }
+
+    public async unstage(paths: string[] = []): Promise<void> {
+        await this.run(['restore', '--staged', '--', ...(paths.length > 0 ? paths : ['.'])]);
+    }
+
+    /**
+     * Commit what is staged (after staging `paths`, if given) and return the
+     * new commit
+     */
+    public async commit(message: string, paths: string[] = []): Promise<GitCommit> {
+        if (!message.trim()) {
+            throw new GitError('A commit message is required', null, '');
+        }
+        if (paths.length > 0) {
+            await this.add(paths);
+        }
+        await this.run(['commit', '-m', message]);
+        return (await this.log({ ref: 'HEAD', maxCount: 1 }))[0];
+    }
+
+    public async push(options: { remote?: string; branch?: string; setUpstream?: boolean } = {}): Promise<string> {
+        const args = ['push'];
+        if (options.setUpstream) {
+            args.push('--set-upstream');
+        }
+        if (options.remote) {
+            args.push(assertRef(options.remote));
+            if (options.branch) {
+                // A leading + in a refspec forces the push
+                if (options.branch.startsWith('+')) {
+                    throw new GitError(`Refusing to force-push '${options.branch}'`, null, '');
+                }
+                args.push(assertRef(options.branch));
+            }
+        }
+        const { stdout, stderr } = await this.exec(args);
+        return (stdout + stderr).trim();
+    }
+
+    public async pull(options: { remote?: string; branch?: string; rebase?: boolean } = {}): Promise<string> {
+        const args = ['pull', ...(options.rebase ? ['--rebase'] : [])];
+        if (options.remote) {
+            args.push(assertRef(options.remote));
+            if (options.branch) {
+                args.push(assertRef(options.branch));
+            }
+        }
+        const { stdout, stderr } = await this.exec(args);
+        return (stdout + stderr).trim();
+    }
+
+    public async stashList(): Promise<GitStashEntry[]> {
+        const output = await this.run(['stash', 'list', '--format=%gd%x1f%H%x1f%gs']);
+        return output.split('\n').filter(line => line).map(line => {
+            const [ref, hash, message] = line.split('\x1f');
+            return { index: parseInt(ref.match(/\{(\d+)\}/)?.[1] ?? '0', 10), ref, hash, message };
+        });
+    }
+
+    public async stashPush(options: { message?: string; includeUntracked?: boolean; paths?: string[] } = {}): Promise<GitStashEntry | undefined> {
+        const args = ['stash', 'push'];
+        if (options.includeUntracked) {
+            args.push('--include-untracked');
+        }
+        if (options.message) {
+            args.push('-m', options.message);
+        }
+        if (options.paths?.length) {
+            args.push('--', ...options.paths);
+        }
+        const before = await this.stashList();
+        await this.run(args);
+        const after = await this.stashList();
+        // Nothing is stashed when there were no local changes
+        return after.length > before.length ? after[0] : undefined;
+    }
+
+    public async stashApply(stash: string | number = 0, options: { pop?: boolean } = {}): Promise<void> {
+        await this.run(['stash', options.pop ? 'pop' : 'apply', toStashRef(stash)]);
+    }
+
+    public async stashDrop(stash: string | number = 0): Promise<void> {
+        await this.run(['stash', 'drop', toStashRef(stash)]);
+    }
+
+    public async stashShow(stash: string | number = 0): Promise<GitDiff> {
+        return this.collectDiff(['stash', 'show', '-M', toStashRef(stash)]);
+    }
+
+    /**
+     * Absolute paths of the files applying a stash writes, untracked ones included
+     */
+    public async stashPaths(stash: string | number = 0): Promise<string[]> {
+        const ref = toStashRef(stash);
+        const paths = await this.changedPaths(`${ref}^1`, ref);
+        try {
+            // The third parent holds untracked files, when they were stashed
+            await this.run(['rev-parse', '--verify', '--quiet', `${ref}^3`]);
+        } catch {
+            return paths;
+        }
+        return [...paths, ...await this.absolutePaths(['ls-tree', '-r', '-z', '--name-only', `${ref}^3`])];
+    }
+
+    /**
+     * Absolute paths of the files that differ between two refs, e.g. the
+     * files a checkout of `to` writes. Renames count as a delete and an add.
+     */
+    public async changedPaths(from: string, to: string): Promise<string[]> {
+        return this.absolutePaths(['diff', '--name-only', '-z', '--no-renames', assertRef(from), assertRef(to), '--']);
+    }
+
+    /**
+     * Fetch what a pull would and return the absolute paths of the files
+     * merging it writes
+     */
+    public async incomingPaths(options: { remote?: string; branch?: string } = {}): Promise<string[]> {
+        const args = ['fetch'];
+        if (options.remote) {
+            args.push(assertRef(options.remote));
+            if (options.branch) {
+                args.push(assertRef(options.branch));
+            }
+        }
+        await this.run(args);
+        return this.changedPaths('HEAD', 'FETCH_HEAD');
+    }
+
+    public async tags(): Promise<GitTag[]> {
+        const output = await this.run(['for-each-ref', 'refs/tags', '--sort=-creatordate', '--format=%(refname:short)%1f%(objectname:short)%1f%(objecttype)%1f%(subject)']);
+        return output.split('\n').filter(line => line).map(line => {
+            const [name, hash, type, subject] = line.split('\x1f');
+            return { name, hash, annotated: type === 'tag', subject };
+        });
+    }
+
+    public async createTag(name: string, options: { ref?: string; message?: string } = {}): Promise<void> {
+        const args = ['tag'];
+        if (options.message) {
+            args.push('-a', assertRef(name), '-m', options.message);
+        } else {
+            args.push(assertRef(name));
+        }
+        if (options.ref) {
+            args.push(assertRef(options.ref));
+        }
+        await this.run(args);
+    }
+
+    public async deleteTag(name: string): Promise<void> {
+        await this.run(['tag', '-d', assertRef(name)]);
+    }
+
+    /**
+     * Merge, rebase, cherry-pick or revert in progress, with unresolved files
+     */
+    public async repositoryState(): Promise<GitRepositoryState> {
+        const conflicts = (await this.run(['diff', '--name-only', '--diff-filter=U', '-z'])).split('\0').filter(file => file);
+
+        const markers = ['rebase-merge', 'rebase-apply', 'MERGE_HEAD', 'CHERRY_PICK_HEAD', 'REVERT_HEAD'];
+        const gitPaths = (await this.run(['rev-parse', ...markers.flatMap(marker => ['--git-path', marker])]))
+            .split('\n')
+            .map(line => path.resolve(this.cwd, line.trim()));
+        const [rebaseMerge, rebaseApply, mergeHead, cherryPickHead, revertHead] = gitPaths;
+
+        const state: GitRepositoryState = { conflicts };
+        if (fs.existsSync(rebaseMerge) || fs.existsSync(rebaseApply)) {
+            const merge = fs.existsSync(rebaseMerge);
+            const dir = merge ? rebaseMerge : rebaseApply;
+            const read = (name: string) => {
+                const file = path.join(dir, name);
+                return fs.existsSync(file) ? fs.readFileSync(file, 'utf8').trim() : undefined;
+            };
+            const number = (value?: string) => value && /^\d+$/.test(value) ? parseInt(value, 10) : undefined;
+
+            state.operation = 'rebase';
+            state.rebase = {
+                headName: read('head-name')?.replace(/^refs\/heads\//, ''),
+                onto: read('onto'),
+                step: number(merge ? read('msgnum') : read('next')),
+                total: number(merge ? read('end') : read('last')),
+                interactive: merge && fs.existsSync(path.join(dir, 'interactive'))
+            };
+        } else if (fs.existsSync(mergeHead)) {
+            state.operation = 'merge';
+        } else if (fs.existsSync(cherryPickHead)) {
+            state.operation = 'cherry-pick';
+        } else if (fs.existsSync(revertHead)) {
+            state.operation = 'revert';
+        }
+        return state;
+    }
+
+    /**
+     * Hunks of a file's unstaged changes, or its staged ones
+     */
+    public async hunks(filePath: string, staged: boolean = false): Promise<GitHunk[]> {
+        return (await this.fileDiffHunks(filePath, staged)).hunks;
+    }
+
+    /**
+     * Stage some of a file's unstaged hunks, by their 1-based index
+     */
+    public async stageHunks(filePath: string, indexes: number[]): Promise<GitHunk[]> {
+        const diff = await this.fileDiffHunks(filePath, false);
+        const selected = selectHunks(diff, indexes, filePath);
+        await this.run(['apply', '--cached', '--whitespace=nowarn', '-'], buildPatch(diff.header, selected));
+        return selected;
+    }
+
+    /**
+     * Unstage some of a file's staged hunks, by their 1-based index
+     */
+    public async unstageHunks(filePath: string, indexes: number[]): Promise<GitHunk[]> {
+        const diff = await this.fileDiffHunks(filePath, true);
+        const selected = selectHunks(diff, indexes, filePath);
+        await this.run(['apply', '--cached', '--reverse', '--whitespace=nowarn', '-'], buildPatch(diff.header, selected));
+        return selected;
+    }
+
+    private async fileDiffHunks(filePath: string, staged: boolean): Promise<FileDiffHunks> {
+        const output = await this.run(['diff', ...(staged ? ['--cached'] : []), '--', filePath]);
+        return parseFileDiff(output);
+    }
+
+    /**
+     * File list with line counts plus the patch, for any diff-producing
+     * command (diff, show, stash show)
+     */
+    private async collectDiff(args: string[], paths: string[] = []): Promise<GitDiff> {
+        const pathArgs = paths.length > 0 ? ['--', ...paths] : [];
+        const nameStatus = await this.run([...args, '--name-status', '-z', ...pathArgs]);
+        const numstat = await this.run([...args, '--numstat', '-z', ...pathArgs]);
+        const patch = await this.run([...args, '--patch', ...pathArgs]);
+
+        const counts = parseNumstat(numstat);
+        const files = parseNameStatus(nameStatus).map(file => {
+            const count = counts.get(file.path);
+            return {
+                ...file,
+                additions: count ? count.additions : 0,
+                deletions: count ? count.deletions : 0,
+                binary: count ? count.additions === null : false
+            };
+        });
+
+        return {
+            files,
+            additions: files.reduce((sum, file) => sum + (file.additions ?? 0), 0),
+            deletions: files.reduce((sum, file) => sum + (file.deletions ?? 0), 0),
+            patch
+        };
+    }
+
+    private async absolutePaths(args: string[]): Promise<string[]> {
+        const root = (await this.run(['rev-parse', '--show-toplevel'])).trim();
+        return (await this.run(args)).split('\0').filter(file => file).map(file => path.join(root, file));
+    }
+
+    private async run(args: string[], input?: string): Promise<string> {
+        return (await this.exec(args, input)).stdout;
+    }
+
+    private exec(args: string[], input?: string): Promise<{ stdout: string; stderr: string }> {
+        return new Promise((resolve, reject) => {
+            const child = spawn('git', ['-c', 'color.ui=false', '-c', 'core.quotepath=false', ...args], {
+                cwd: this.cwd,
+                shell: false,
+                windowsHide: true,
+                // Fail instead of waiting for credentials nobody can type
+                env: { ...process.env, GIT_TERMINAL_PROMPT: '0' }
+            });
+
+            let stdout = '';
+            let stderr = '';
+            const timer = setTimeout(() => child.kill(), this.timeout);
+
+            // Decoded as a stream so multi-byte characters split across chunks survive
+            child.stdout.setEncoding('utf8');
+            child.stderr.setEncoding('utf8');
+            child.stdout.on('data', (data: string) => {
+                stdout += data;
+            });
+            child.stderr.on('data', (data: string) => {
+                stderr += data;
+            });
+            child.on('error', error => {
+                clearTimeout(timer);
+                const code = (error as NodeJS.ErrnoException).code;
+                reject(new GitError(code === 'ENOENT' ? 'git was not found on PATH' : error.message, null, ''));
+            });
+            child.on('close', code => {
+                clearTimeout(timer);
+                if (code === 0) {
+                    resolve({ stdout, stderr });
+                } else {
+                    reject(new GitError(stderr.trim() || `git ${args[0]} exited with code ${code}`, code, stderr));
+                }
+            });
+
+            if (input !== undefined) {
+                child.stdin.end(input);
+            } else {
+                child.stdin.end();
+            }
+        });
+    }
+}
+
+/**
+ * Refuse values git would parse as an option, e.g. a "branch" of `--upload-pack=...`
+ */
+function assertRef(ref: string): string {
+    if (typeof ref !== 'string' || !ref.trim() || ref.startsWith('-') || ref.includes('\0')) {
+        throw new GitError(`Invalid git ref or name: '${ref}'`, null, '');
+    }
+    return ref;
+}
+
+function toStashRef(stash: string | number): string {
+    const value = String(stash);
+    if (/^\d+$/.test(value)) {
+        return `stash@{${value}}`;
+    }
+    if (/^stash@\{\d+\}$/.test(value)) {
+        return value;
+    }
+    throw new GitError(`Invalid stash reference: '${value}'`, null, '');
+}
+
+function toGitPath(filePath: string): string {
+    return filePath.split(path.sep).join('/').replace(/^\.\//, '');
+}
+
+function parseBranchHeader(header: string): Partial<GitStatus> {
+    // "main...origin/main [ahead 1, behind 2]", "No commits yet on main" or "HEAD (no branch)"
+    const noCommits = header.match(/^No commits yet on (.+)$/);
+    if (noCommits) {
+        return { branch: noCommits[1] };
+    }
+    if (header.startsWith('HEAD (no branch)')) {
+        return { branch: undefined };
+    }
+
+    const match = header.match(/^(.+?)(?:\.\.\.(\S+))?(?: \[(.+)\])?$/);
+    if (!match) {
+        return { branch: header };
+    }
+    const tracking = match[3] || '';
+    return {
+        branch: match[1],
+        upstream: match[2],
+        ahead: parseInt(tracking.match(/ahead (\d+)/)?.[1] ?? '0', 10),
+        behind: parseInt(tracking.match(/behind (\d+)/)?.[1] ?? '0', 10)
+    };
+}
+
+function parseCommits(output: string): GitCommit[] {
+    return output.split('\x1e')
+        .map(record => record.replace(/^\n+/, ''))
+        .filter(record => record)
+        .map(record => {
+            const [hash, shortHash, parents, author, email, date, subject, body] = record.split('\x1f');
+            return {
+                hash,
+                shortHash,
+                parents: parents ? parents.split(' ') : [],
+                author,
+                email,
+                date,
+                subject,
+                body: (body || '').trim()
+            };
+        });
+}
+
+function parseNameStatus(output: string): Array<Pick<GitDiffFile, 'path' | 'originalPath' | 'status'>> {
+    const tokens = output.replace(/^\n+/, '').split('\0');
+    const files: Array<Pick<GitDiffFile, 'path' | 'originalPath' | 'status'>> = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+        const code = tokens[i];
+        if (!code) {
+            continue;
+        }
+        const status = code[0];
+        if (status === 'R' || status === 'C') {
+            files.push({ status, originalPath: tokens[i + 1], path: tokens[i + 2] });
+            i += 2;
+        } else {
+            files.push({ status, path: tokens[i + 1] });
+            i += 1;
+        }
+    }
+    return files;
+}
+
+function parseNumstat(output: string): Map<string, { additions: number | null; deletions: number | null }> {
+    const tokens = output.replace(/^\n+/, '').split('\0');
+    const counts = new Map<string, { additions: number | null; deletions: number | null }>();
+
+    for (let i = 0; i < tokens.length; i++) {
+        const match = tokens[i].match(/^(\d+|-)\t(\d+|-)\t(.*)$/);
+        if (!match) {
+            continue;
+        }
+        // Renames leave the path empty and follow with the old and new paths
+        let filePath = match[3];
+        if (!filePath) {
+            filePath = tokens[i + 2];
+            i += 2;
+        }
+        counts.set(filePath, {
+            additions: match[1] === '-' ? null : parseInt(match[1], 10),
+            deletions: match[2] === '-' ? null : parseInt(match[2], 10)
+        });
+    }
+    return counts;
+}
+
+function parseBlame(output: string): GitBlameLine[] {
+    const commits = new Map<string, { author: string; email: string; date: string; summary: string }>();
+    const lines: GitBlameLine[] = [];
+    let current: { hash: string; line: number } | undefined;
+
+    for (const raw of output.split('\n')) {
+        const header = raw.match(/^([0-9a-f]{40}) \d+ (\d+)(?: \d+)?$/);
+        if (header) {
+            current = { hash: header[1], line: parseInt(header[2], 10) };
+            if (!commits.has(current.hash)) {
+                commits.set(current.hash, { author: '', email: '', date: '', summary: '' });
+            }
+            continue;
+        }
+        if (!current) {
+            continue;
+        }
+
+        const info = commits.get(current.hash)!;
+        if (raw.startsWith('\t')) {
+            lines.push({ line: current.line, hash: current.hash, ...info, content: raw.slice(1) });
+            current = undefined;
+        } else if (raw.startsWith('author ')) {
+            info.author = raw.slice(7);
+        } else if (raw.startsWith('author-mail ')) {
+            info.email = raw.slice(12).replace(/^<|>$/g, '');
+        } else if (raw.startsWith('author-time ')) {
+            info.date = new Date(parseInt(raw.slice(12), 10) * 1000).toISOString();
+        } else if (raw.startsWith('summary ')) {
+            info.summary = raw.slice(8);
+        }
+    }
+    return lines;
+}
+
+/**
+ * Split a single-file diff into its header and hunks
+ */
+function parseFileDiff(output: string): FileDiffHunks {
+    const header: string[] = [];
+    const hunks: GitHunk[] = [];
+    const lines = output.split('\n');
+    if (lines[lines.length - 1] === '') {
+        lines.pop();
+    }
+
+    for (const line of lines) {
+        const match = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+        if (match) {
+            hunks.push({
+                index: hunks.length + 1,
+                header: line,
+                oldStart: parseInt(match[1], 10),
+                oldLines: match[2] !== undefined ? parseInt(match[2], 10) : 1,
+                newStart: parseInt(match[3], 10),
+                newLines: match[4] !== undefined ? parseInt(match[4], 10) : 1,
+                lines: []
+            });
+        } else if (hunks.length > 0) {
+            hunks[hunks.length - 1].lines.push(line);
+        } else {
+            header.push(line);
+        }
+    }
+    return { header, hunks };
+}
+
+function selectHunks(diff: FileDiffHunks, indexes: number[], filePath: string): GitHunk[] {
+    if (diff.hunks.length === 0) {
+        throw new GitError(`No hunks to apply for ${filePath}`, null, '');
+    }
+    const invalid = indexes.filter(index => !diff.hunks.some(hunk => hunk.index === index));
+    if (indexes.length === 0 || invalid.length > 0) {
+        throw new GitError(
+            `Invalid hunk ${invalid.length > 0 ? invalid.join(', ') : 'selection'} for ${filePath}; it has hunks 1-${diff.hunks.length}`,
+            null,
+            ''
+        );
+    }
+    return diff.hunks.filter(hunk => indexes.includes(hunk.index));
+}
+
+function buildPatch(header: string[], hunks: GitHunk[]): string {
+    return [...header, ...hunks.flatMap(hunk => [hunk.header, ...hunk.lines])].join('\n') + '\n';
+}
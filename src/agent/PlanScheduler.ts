@@ -0,0 +1,162 @@
+/**
+ * Dependency-aware scheduling for agent plans: which actions are ready,
+ * blocked, or can run together.
+ */
+
+export type ScheduledStatus = 'pending' | 'executing' | 'completed' | 'failed' | 'skipped' | 'blocked';
+
+// A skipped step was the user's call, so the steps after it still run and the model decides what to do
+const SATISFIED: ScheduledStatus[] = ['completed', 'skipped'];
+const UNSATISFIABLE: ScheduledStatus[] = ['failed', 'blocked'];
+
+export interface ScheduledAction {
+    id: string;
+    dependsOn: string[];
+    status: ScheduledStatus;
+    error?: string;
+}
+
+/**
+ * An action as proposed by the model: `id` and `dependsOn` are optional, and
+ * dependencies may name an id or a 1-based step number
+ */
+export interface ProposedDependencies {
+    id?: unknown;
+    dependsOn?: unknown;
+}
+
+export interface ResolvedDependencies {
+    id: string;
+    dependsOn: string[];
+    dropped: string[]; // References that were ignored: unknown, later or self
+}
+
+/**
+ * Give each proposed action a unique id and resolve its dependencies.
+ * Without `dependsOn` an action waits for the one before it in the same
+ * list, so plans that don't declare dependencies run in order; an empty
+ * array means it can start right away. Only earlier actions (existing or
+ * earlier in the list) can be depended on, which rules out cycles.
+ */
+export function resolveDependencies(proposed: ProposedDependencies[], existingIds: string[] = []): ResolvedDependencies[] {
+    const ids = [...existingIds];
+    const resolved: ResolvedDependencies[] = [];
+
+    proposed.forEach((action, index) => {
+        const requested = typeof action.id === 'string' || typeof action.id === 'number' ? String(action.id).trim() : '';
+        let id = requested && !ids.includes(requested) && !/^\d+$/.test(requested) ? requested : `step-${ids.length + 1}`;
+        while (ids.includes(id)) {
+            id = `${id}-${ids.length + 1}`;
+        }
+
+        const dependsOn: string[] = [];
+        const dropped: string[] = [];
+        if (action.dependsOn === undefined || action.dependsOn === null) {
+            if (index > 0) {
+                dependsOn.push(resolved[index - 1].id);
+            }
+        } else {
+            const references = Array.isArray(action.dependsOn) ? action.dependsOn : [action.dependsOn];
+            for (const reference of references) {
+                const target = resolveReference(reference, ids);
+                if (target && !dependsOn.includes(target)) {
+                    dependsOn.push(target);
+                } else if (!target) {
+                    dropped.push(String(reference));
+                }
+            }
+        }
+
+        ids.push(id);
+        resolved.push({ id, dependsOn, dropped });
+    });
+
+    return resolved;
+}
+
+// A step number counts across every action in the plan, existing ones first
+function resolveReference(reference: unknown, earlierIds: string[]): string | undefined {
+    if (typeof reference === 'number' || (typeof reference === 'string' && /^\d+$/.test(reference.trim()))) {
+        return earlierIds[Number(reference) - 1];
+    }
+    if (typeof reference === 'string') {
+        return earlierIds.find(id => id === reference.trim());
+    }
+    return undefined;
+}
+
+/**
+ * Mark pending actions whose prerequisites can no longer complete as blocked,
+ * following chains of dependents. Returns the newly blocked actions.
+ */
+export function blockDependents<T extends ScheduledAction>(actions: T[]): T[] {
+    const byId = new Map(actions.map(action => [action.id, action]));
+    const blocked: T[] = [];
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const action of actions) {
+            if (action.status !== 'pending') {
+                continue;
+            }
+            const failed = action.dependsOn
+                .map(id => byId.get(id))
+                .find(dependency => dependency && UNSATISFIABLE.includes(dependency.status));
+            if (failed) {
+                action.status = 'blocked';
+                action.error = `Blocked: step ${actions.indexOf(failed as T) + 1} did not complete (${failed.status})`;
+                blocked.push(action);
+                changed = true;
+            }
+        }
+    }
+
+    return blocked;
+}
+
+/**
+ * Pending actions whose dependencies have all completed or been skipped, in
+ * plan order. Dependencies that are no longer in the plan don't hold anything up.
+ */
+export function getReadyActions<T extends ScheduledAction>(actions: T[]): T[] {
+    const byId = new Map(actions.map(action => [action.id, action]));
+    return actions.filter(action =>
+        action.status === 'pending' && action.dependsOn.every(id => SATISFIED.includes(byId.get(id)?.status ?? 'completed'))
+    );
+}
+
+/**
+ * The next group of actions to run together: up to `limit` ready actions that
+ * don't change anything, or a single exclusive one when it comes first
+ */
+export function selectBatch<T extends ScheduledAction>(actions: T[], limit: number, isExclusive: (action: T) => boolean): T[] {
+    const ready = getReadyActions(actions);
+    if (ready.length === 0 || limit < 1) {
+        return [];
+    }
+    if (isExclusive(ready[0])) {
+        return [ready[0]];
+    }
+    return ready.filter(action => !isExclusive(action)).slice(0, limit);
+}
+
+/**
+ * Actions grouped by depth in the dependency graph, as plan indices. Actions
+ * in the same level don't depend on each other.
+ */
+export function getExecutionLevels(actions: ScheduledAction[]): number[][] {
+    const depth = new Map<string, number>();
+    const levels: number[][] = [];
+
+    actions.forEach((action, index) => {
+        const level = action.dependsOn.reduce((deepest, id) => {
+            const dependencyDepth = depth.get(id);
+            return dependencyDepth === undefined ? deepest : Math.max(deepest, dependencyDepth + 1);
+        }, 0);
+        depth.set(action.id, level);
+        (levels[level] ??= []).push(index);
+    });
+
+    return levels;
+}
@@ -0,0 +1,252 @@
+import * as path from 'path';
+import { isPathInside } from './ToolPermissions';
+
+/**
+ * Rules for the terminal tool: which executables, subcommands, arguments,
+ * environment variables and working directories a command may use.
+ */
+
+export type TerminalRuleDecision = 'allow' | 'deny';
+
+export interface TerminalRule {
+    command: string; // Executable name, or '*' for any
+    subcommand?: string; // First non-option argument (see getSubcommand), or '*'/omitted for any
+    argPattern?: string; // Regular expression; the rule applies when any argument matches
+    decision: TerminalRuleDecision;
+}
+
+export interface TerminalPolicy {
+    rules: TerminalRule[];
+    scrubEnvironment: boolean;
+    keepEnvironment: string[]; // Variable names passed through even when they look secret
+    restrictToWorkspace: boolean;
+}
+
+export interface TerminalEvaluation {
+    allowed: boolean;
+    reason: string;
+}
+
+const ALLOWED_COMMANDS = [
+    'npm', 'yarn', 'pnpm', 'node', 'tsc', 'eslint', 'prettier',
+    'git', 'make', 'cargo', 'go', 'python', 'pip',
+    'ls', 'cat', 'echo', 'which', 'where',
+    'jest', 'vitest', 'mocha', 'cypress', 'playwright'
+];
+
+/**
+ * Allowed commands can still run arbitrary code or reach outside the
+ * workspace through some options; those are refused unless a user rule
+ * allows them first.
+ */
+export const DEFAULT_TERMINAL_RULES: TerminalRule[] = [
+    // Short flags can be combined, as in `node -pe` or `python -Ic`
+    { command: 'node', argPattern: '^(-[a-zA-Z]*[ep][a-zA-Z]*|--eval|--print)(=|$)', decision: 'deny' },
+    { command: 'python', argPattern: '^-[bBdEhiIOPqRsSuvVx]*c', decision: 'deny' },
+    { command: 'git', argPattern: '^(-c|--config-env|--exec-path|--upload-pack|--receive-pack)(=|$)', decision: 'deny' },
+    // A `+` refspec forces that ref just like --force
+    { command: 'git', subcommand: 'push', argPattern: '^(-[a-zA-Z]*f[a-zA-Z]*|--force|--force-with-lease|--force-if-includes)(=|$)|^\\+', decision: 'deny' },
+    { command: 'npm', subcommand: 'publish', decision: 'deny' },
+    { command: 'yarn', subcommand: 'publish', decision: 'deny' },
+    { command: 'pnpm', subcommand: 'publish', decision: 'deny' },
+    { command: 'cargo', subcommand: 'publish', decision: 'deny' },
+    ...ALLOWED_COMMANDS.map(command => ({ command, decision: 'allow' as TerminalRuleDecision }))
+];
+
+/**
+ * Options that take their value as the next argument and may come before the
+ * subcommand, e.g. `git -C <dir> push`. Their values are skipped when looking
+ * for the subcommand.
+ */
+const VALUE_OPTIONS: Record<string, string[]> = {
+    git: ['-C', '-c', '--git-dir', '--work-tree', '--namespace', '--config-env', '--exec-path', '--super-prefix'],
+    npm: ['-C', '--prefix', '-w', '--workspace', '--registry', '--userconfig', '--globalconfig', '--cache', '--loglevel'],
+    yarn: ['--cwd', '--registry', '--cache-folder', '--modules-folder', '--global-folder', '--use-yarnrc', '--mutex', '--network-timeout'],
+    pnpm: ['-C', '--dir', '-F', '--filter', '--workspace-dir', '--registry', '--loglevel', '--reporter'],
+    cargo: ['-C', '--config', '-Z', '--color', '--manifest-path'],
+    go: ['-C']
+};
+
+/**
+ * Options naming a directory (or a file within one) that the command works
+ * in instead of its working directory; with `restrictToWorkspace` their
+ * values must stay inside the workspace too.
+ */
+const DIRECTORY_OPTIONS: Record<string, string[]> = {
+    git: ['-C', '--git-dir', '--work-tree'],
+    npm: ['-C', '--prefix'],
+    yarn: ['--cwd'],
+    pnpm: ['-C', '--dir', '--workspace-dir'],
+    cargo: ['-C', '--manifest-path'],
+    go: ['-C'],
+    make: ['-C', '--directory']
+};
+
+// Environment variable names that usually hold credentials
+const SECRET_ENV_PATTERN = /(TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIAL|PRIVATE_?KEY|API_?KEY|ACCESS_?KEY)/i;
+
+const DECISIONS: TerminalRuleDecision[] = ['allow', 'deny'];
+
+/**
+ * Build a policy from the `agent.terminalPolicy` setting. User rules come
+ * before the built-in ones unless `useDefaultRules` is false.
+ */
+export function createTerminalPolicy(config?: {
+    rules?: any[];
+    useDefaultRules?: boolean;
+    scrubEnvironment?: boolean;
+    keepEnvironment?: string[];
+    restrictToWorkspace?: boolean;
+}): TerminalPolicy {
+    const userRules = (config?.rules || []).filter(isValidRule).map(rule => ({
+        command: rule.command,
+        subcommand: typeof rule.subcommand === 'string' ? rule.subcommand : undefined,
+        argPattern: typeof rule.argPattern === 'string' ? rule.argPattern : undefined,
+        decision: rule.decision as TerminalRuleDecision
+    }));
+
+    return {
+        rules: config?.useDefaultRules === false ? userRules : [...userRules, ...DEFAULT_TERMINAL_RULES],
+        scrubEnvironment: config?.scrubEnvironment !== false,
+        keepEnvironment: (config?.keepEnvironment || []).filter(name => typeof name === 'string' && name.trim()),
+        restrictToWorkspace: config?.restrictToWorkspace !== false
+    };
+}
+
+function isValidRule(rule: any): rule is TerminalRule {
+    if (!rule || typeof rule.command !== 'string' || !rule.command || !DECISIONS.includes(rule.decision)) {
+        return false;
+    }
+    if (typeof rule.argPattern === 'string') {
+        try {
+            new RegExp(rule.argPattern);
+        } catch {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * The first argument that isn't an option or an option's value, e.g. `run`
+ * in `npm --silent run build` and `push` in `git -C packages/app push`
+ */
+export function getSubcommand(args: string[], command = ''): string {
+    const valueOptions = VALUE_OPTIONS[command] || [];
+    for (let i = 0; i < args.length; i++) {
+        if (!args[i].startsWith('-')) {
+            return args[i];
+        }
+        if (valueOptions.includes(args[i])) {
+            i++;
+        }
+    }
+    return '';
+}
+
+function matches(rule: TerminalRule, command: string, args: string[]): boolean {
+    if (rule.command !== '*' && rule.command !== command) {
+        return false;
+    }
+    if (rule.subcommand && rule.subcommand !== '*' && rule.subcommand !== getSubcommand(args, command)) {
+        return false;
+    }
+    if (rule.argPattern) {
+        const pattern = new RegExp(rule.argPattern);
+        return args.some(arg => pattern.test(arg));
+    }
+    return true;
+}
+
+function describeRule(rule: TerminalRule): string {
+    const target = [rule.command, rule.subcommand && rule.subcommand !== '*' ? rule.subcommand : '']
+        .filter(Boolean)
+        .join(' ');
+    return rule.argPattern ? `${target} with arguments matching /${rule.argPattern}/` : target;
+}
+
+/**
+ * Whether a command may run. Any matching deny rule refuses it, so a broad
+ * allow can't override a specific deny; otherwise an allow rule must match.
+ */
+export function evaluateTerminalCommand(policy: TerminalPolicy, command: string, args: string[]): TerminalEvaluation {
+    if (!command || /\s/.test(command)) {
+        return { allowed: false, reason: 'Command must be a single executable name; pass its arguments in "args"' };
+    }
+
+    const deny = policy.rules.find(rule => rule.decision === 'deny' && matches(rule, command, args));
+    if (deny) {
+        return { allowed: false, reason: `Denied by terminal policy rule for ${describeRule(deny)}` };
+    }
+
+    const allow = policy.rules.find(rule => rule.decision === 'allow' && matches(rule, command, args));
+    if (allow) {
+        return { allowed: true, reason: `Allowed by terminal policy rule for ${describeRule(allow)}` };
+    }
+    return { allowed: false, reason: `Command '${command}' is not allowed by the terminal policy` };
+}
+
+/**
+ * Copy of the environment without variables that look like credentials
+ */
+export function scrubEnvironment(env: NodeJS.ProcessEnv, policy: TerminalPolicy): NodeJS.ProcessEnv {
+    if (!policy.scrubEnvironment) {
+        return { ...env };
+    }
+
+    const scrubbed: NodeJS.ProcessEnv = {};
+    for (const [name, value] of Object.entries(env)) {
+        if (!SECRET_ENV_PATTERN.test(name) || policy.keepEnvironment.includes(name)) {
+            scrubbed[name] = value;
+        }
+    }
+    return scrubbed;
+}
+
+/**
+ * Absolute working directory for a command. With `restrictToWorkspace`, a
+ * directory outside the workspace root (including through symlinks) is
+ * refused.
+ */
+export function resolveWorkingDirectory(workspaceRoot: string, cwd: string | undefined, policy: TerminalPolicy): string {
+    const resolved = path.resolve(workspaceRoot, cwd || '.');
+    if (!policy.restrictToWorkspace) {
+        return resolved;
+    }
+
+    if (!isPathInside(workspaceRoot, resolved)) {
+        throw new Error(`Working directory '${cwd}' is outside the workspace`);
+    }
+    return resolved;
+}
+
+/**
+ * With `restrictToWorkspace`, refuse directory options such as `git -C` or
+ * `npm --prefix` that point outside the workspace, in any of the `-C dir`,
+ * `--prefix=dir` and `-Cdir` forms. Relative values are resolved against the
+ * command's working directory.
+ */
+export function checkDirectoryArguments(workspaceRoot: string, cwd: string, command: string, args: string[], policy: TerminalPolicy): void {
+    if (!policy.restrictToWorkspace) {
+        return;
+    }
+
+    const options = DIRECTORY_OPTIONS[command] || [];
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        for (const option of options) {
+            let value: string | undefined;
+            if (arg === option) {
+                value = args[i + 1];
+            } else if (arg.startsWith(`${option}=`)) {
+                value = arg.slice(option.length + 1);
+            } else if (!option.startsWith('--') && arg.startsWith(option)) {
+                value = arg.slice(option.length);
+            }
+
+            if (value !== undefined && !isPathInside(workspaceRoot, path.resolve(cwd, value))) {
+                throw new Error(`'${option} ${value}' points outside the workspace`);
+            }
+        }
+    }
+}
@@ -0,0 +1,267 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { secretRedactor } from '../providers/SecretRedaction';
+
+/**
+ * Capability-based tool permissions: per-workspace grants for what each tool
+ * may do, and a sandbox that resolves the paths a tool reads and writes.
+ */
+
+export type ToolCapability = 'read' | 'write' | 'exec' | 'network' | 'outsideWorkspace';
+
+export const TOOL_CAPABILITIES: ToolCapability[] = ['read', 'write', 'exec', 'network', 'outsideWorkspace'];
+
+export const CAPABILITY_DESCRIPTIONS: Record<ToolCapability, string> = {
+    read: 'Read workspace files',
+    write: 'Create, change and delete workspace files',
+    exec: 'Run processes such as git or terminal commands',
+    network: 'Make network requests',
+    outsideWorkspace: 'Access paths outside the workspace folder'
+};
+
+// Granted unless the workspace overrides them
+const DEFAULT_GRANTS: Record<ToolCapability, boolean> = {
+    read: true,
+    write: true,
+    exec: true,
+    network: true,
+    outsideWorkspace: false
+};
+
+// Assumed for tools that don't declare their capabilities
+export const UNDECLARED_CAPABILITIES: ToolCapability[] = ['read', 'write', 'exec', 'network'];
+
+const STORAGE_KEY = 'cuovare.toolPermissions';
+
+/**
+ * Per-workspace overrides, keyed by tool name or '*' for every tool
+ */
+export type ToolPermissionGrants = Record<string, Partial<Record<ToolCapability, boolean>>>;
+
+export interface ToolCapabilityDeclaration {
+    name: string;
+    capabilities?: ToolCapability[];
+    operationCapabilities?: Record<string, ToolCapability[]>;
+}
+
+export interface PermissionStorage {
+    get<T>(key: string): T | undefined;
+    update(key: string, value: any): PromiseLike<void>;
+}
+
+export class ToolPermissionError extends Error {
+    constructor(message: string, public readonly toolName: string, public readonly capability: ToolCapability) {
+        super(message);
+        this.name = 'ToolPermissionError';
+    }
+}
+
+/**
+ * The path with symlinks resolved. For a path that doesn't exist yet, the
+ * deepest existing ancestor is resolved and the rest appended.
+ */
+export function resolveRealPath(target: string): string {
+    const absolute = path.resolve(target);
+    const missing: string[] = [];
+    let current = absolute;
+
+    for (;;) {
+        try {
+            return path.join(fs.realpathSync(current), ...missing.reverse());
+        } catch {
+            const parent = path.dirname(current);
+            if (parent === current) {
+                return absolute;
+            }
+            missing.push(path.basename(current));
+            current = parent;
+        }
+    }
+}
+
+/**
+ * Whether `target` is `root` or inside it once symlinks are resolved. A plain
+ * prefix check would accept sibling folders such as `/ws-evil` for `/ws`.
+ */
+export function isPathInside(root: string, target: string): boolean {
+    const relative = path.relative(resolveRealPath(root), resolveRealPath(target));
+    return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+/**
+ * Mediated file access for one tool call: paths are resolved against the
+ * workspace and checked against the tool's grants before the tool uses them
+ */
+export class ToolSandbox {
+    constructor(
+        public readonly workspaceRoot: string,
+        public readonly toolName: string,
+        private readonly isGranted: (capability: ToolCapability) => boolean,
+        private readonly onWrite?: (filePath: string) => void // Called with each path resolved for writing, before the tool writes it
+    ) {}
+
+    /**
+     * A sandbox with the default grants, for tools run outside the registry
+     */
+    public static forWorkspace(workspaceRoot: string, toolName: string = 'tool'): ToolSandbox {
+        return new ToolSandbox(workspaceRoot, toolName, capability => DEFAULT_GRANTS[capability]);
+    }
+
+    public hasCapability(capability: ToolCapability): boolean {
+        return this.isGranted(capability);
+    }
+
+    public assertCapability(capability: ToolCapability): void {
+        if (!this.isGranted(capability)) {
+            throw new ToolPermissionError(
+                `${this.toolName} does not have the '${capability}' permission (${CAPABILITY_DESCRIPTIONS[capability].toLowerCase()}) in this workspace`,
+                this.toolName,
+                capability
+            );
+        }
+    }
+
+    public isInsideWorkspace(target: string): boolean {
+        return isPathInside(this.workspaceRoot, path.resolve(this.workspaceRoot, target));
+    }
+
+    /**
+     * Absolute path for a workspace-relative (or absolute) path the tool wants
+     * to read or write. Paths outside the workspace, including through
+     * symlinks, need the `outsideWorkspace` permission; paths the redaction
+     * policy blocks are refused outright. Paths resolved for writing are
+     * passed to the sandbox's write hook, which the registry uses to
+     * checkpoint them.
+     */
+    public resolvePath(target: string, access: 'read' | 'write' = 'read'): string {
+        if (typeof target !== 'string' || !target) {
+            throw new Error('A file path is required');
+        }
+
+        this.assertCapability(access);
+        const resolved = path.resolve(this.workspaceRoot, target);
+        if (!isPathInside(this.workspaceRoot, resolved) && !this.isGranted('outsideWorkspace')) {
+            throw new ToolPermissionError(
+                `Path '${target}' is outside the workspace; ${this.toolName} does not have the 'outsideWorkspace' permission`,
+                this.toolName,
+                'outsideWorkspace'
+            );
+        }
+        if (secretRedactor.isBlocked(resolved)) {
+            throw new Error(`Path '${target}' is blocked by the workspace's redaction policy (cuovare.redaction.blockedPaths)`);
+        }
+        if (access === 'write') {
+            this.onWrite?.(resolved);
+        }
+        return resolved;
+    }
+}
+
+/**
+ * The sandbox the registry passed with a call, or one with the default grants
+ * when a tool is run directly
+ */
+export function getToolSandbox(context: { workspaceRoot: string; sandbox?: ToolSandbox }, toolName: string): ToolSandbox {
+    return context.sandbox ?? ToolSandbox.forWorkspace(context.workspaceRoot, toolName);
+}
+
+export class ToolPermissionManager {
+    private grants: ToolPermissionGrants = {};
+    private storage?: PermissionStorage;
+
+    public onDidChange?: () => void;
+
+    /**
+     * Load the workspace's overrides; without storage they last for the session
+     */
+    public configure(storage: PermissionStorage): void {
+        this.storage = storage;
+        this.grants = storage.get<ToolPermissionGrants>(STORAGE_KEY) || {};
+    }
+
+    /**
+     * A tool's own override wins over one for all tools, which wins over the default
+     */
+    public isGranted(toolName: string, capability: ToolCapability): boolean {
+        return this.grants[toolName]?.[capability] ?? this.grants['*']?.[capability] ?? DEFAULT_GRANTS[capability];
+    }
+
+    public getDefaultGrant(capability: ToolCapability): boolean {
+        return DEFAULT_GRANTS[capability];
+    }
+
+    public getGrants(toolName: string): Record<ToolCapability, boolean> {
+        return TOOL_CAPABILITIES.reduce((grants, capability) => {
+            grants[capability] = this.isGranted(toolName, capability);
+            return grants;
+        }, {} as Record<ToolCapability, boolean>);
+    }
+
+    public getOverrides(): ToolPermissionGrants {
+        return JSON.parse(JSON.stringify(this.grants));
+    }
+
+    /**
+     * Grant or revoke capabilities for a tool (or '*'); undefined clears an
+     * override so the broader setting applies again
+     */
+    public async setGrants(toolName: string, changes: Partial<Record<ToolCapability, boolean | undefined>>): Promise<void> {
+        const grants = { ...this.grants[toolName] };
+        for (const capability of TOOL_CAPABILITIES) {
+            if (!(capability in changes)) {
+                continue;
+            }
+            const granted = changes[capability];
+            if (granted === undefined) {
+                delete grants[capability];
+            } else {
+                grants[capability] = granted;
+            }
+        }
+
+        if (Object.keys(grants).length > 0) {
+            this.grants[toolName] = grants;
+        } else {
+            delete this.grants[toolName];
+        }
+        await this.save();
+    }
+
+    /**
+     * Drop a tool's overrides, or every override when no tool is given
+     */
+    public async reset(toolName?: string): Promise<void> {
+        if (toolName) {
+            delete this.grants[toolName];
+        } else {
+            this.grants = {};
+        }
+        await this.save();
+    }
+
+    /**
+     * What a call needs: the operation's declared capabilities when the tool
+     * lists them per operation, otherwise the tool's
+     */
+    public getRequiredCapabilities(tool: ToolCapabilityDeclaration, operation?: string): ToolCapability[] {
+        if (operation && tool.operationCapabilities?.[operation]) {
+            return tool.operationCapabilities[operation];
+        }
+        return tool.capabilities ?? UNDECLARED_CAPABILITIES;
+    }
+
+    public getMissingCapabilities(tool: ToolCapabilityDeclaration, operation?: string): ToolCapability[] {
+        return this.getRequiredCapabilities(tool, operation).filter(capability => !this.isGranted(tool.name, capability));
+    }
+
+    public createSandbox(toolName: string, workspaceRoot: string, onWrite?: (filePath: string) => void): ToolSandbox {
+        return new ToolSandbox(workspaceRoot, toolName, capability => this.isGranted(toolName, capability), onWrite);
+    }
+
+    private async save(): Promise<void> {
+        await this.storage?.update(STORAGE_KEY, this.grants);
+        this.onDidChange?.();
+    }
+}
+
+export const toolPermissions = new ToolPermissionManager();
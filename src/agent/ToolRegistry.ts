@@ -1,6 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { AIProviderToolSchema } from '../mcp/MCPManager';
+import { getActionOperation } from './ApprovalPolicy';
+import { checkpointManager } from './CheckpointManager';
+import { CAPABILITY_DESCRIPTIONS, ToolCapability, ToolSandbox, getToolSandbox, toolPermissions } from './ToolPermissions';
 
 export interface ToolResult {
     success: boolean;
@@ -19,8 +23,11 @@ export interface ToolMetadata {
         description: string;
         required: boolean;
         type: string;
+        items?: Record<string, any>; // JSON Schema for array elements; strings when omitted
     }[];
     examples?: string[];
+    capabilities?: ToolCapability[]; // What the tool needs; tools that don't say are assumed to need read, write, exec and network
+    operationCapabilities?: Record<string, ToolCapability[]>; // Narrower needs for some operations, e.g. read-only ones
 }
 
 export interface ToolExecutor {
@@ -29,9 +36,55 @@ export interface ToolExecutor {
         workspaceRoot: string;
         outputChannel: vscode.OutputChannel;
         onProgress?: (message: string) => void;
+        onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void; // Live output from long-running tools
+        signal?: AbortSignal; // Aborted when the user cancels the call
+        sandbox?: ToolSandbox; // Permission-checked path resolution, supplied by the registry
     }): Promise<ToolResult>;
 }
 
+// Examples appended to a tool's description when offered for native function calling
+const SCHEMA_EXAMPLES = 3;
+
+/**
+ * Convert a tool's metadata to the provider-neutral function-calling schema.
+ * Parameter types outside JSON Schema's basics are sent as strings.
+ */
+export function toToolSchema(metadata: ToolMetadata): AIProviderToolSchema {
+    const properties: Record<string, any> = {};
+    const required: string[] = [];
+
+    for (const param of metadata.parameters || []) {
+        properties[param.name] = { ...toJsonSchemaType(param), description: param.description };
+        if (param.required) {
+            required.push(param.name);
+        }
+    }
+
+    const examples = (metadata.examples || []).slice(0, SCHEMA_EXAMPLES);
+    return {
+        name: metadata.name,
+        description: examples.length > 0
+            ? `${metadata.description}\nExamples:\n${examples.map(example => `- ${example}`).join('\n')}`
+            : metadata.description,
+        parameters: { type: 'object', properties, required }
+    };
+}
+
+function toJsonSchemaType(param: NonNullable<ToolMetadata['parameters']>[number]): Record<string, any> {
+    switch (param.type.toLowerCase()) {
+        case 'string':
+        case 'number':
+        case 'integer':
+        case 'boolean':
+        case 'object':
+            return { type: param.type.toLowerCase() };
+        case 'array':
+            return { type: 'array', items: param.items || { type: 'string' } };
+        default:
+            return { type: 'string' };
+    }
+}
+
 export class ToolRegistry {
     private tools: Map<string, ToolExecutor> = new Map();
     private initialized = false;
@@ -167,7 +220,7 @@ export class ToolRegistry {
             },
             execute: async (payload: any, context: any) => {
                 try {
-                    const filePath = path.resolve(context.workspaceRoot, payload.filePath);
+                    const filePath = getToolSandbox(context, 'file_operation').resolvePath(payload.filePath, payload.operation === 'read' ? 'read' : 'write');
                     
                     if (payload.operation === 'read') {
                         const content = fs.readFileSync(filePath, 'utf8');
@@ -200,6 +253,16 @@ export class ToolRegistry {
         return Array.from(this.tools.keys());
     }
 
+    /**
+     * Function-calling schemas for the named tools ('*' for all), skipping unknown names
+     */
+    getToolsForAIProvider(names: string[]): AIProviderToolSchema[] {
+        const tools = names.includes('*')
+            ? this.getAllTools()
+            : names.map(name => this.tools.get(name)).filter((tool): tool is ToolExecutor => !!tool);
+        return tools.map(tool => toToolSchema(tool.metadata));
+    }
+
     getToolsByCategory(category: string): ToolExecutor[] {
         return Array.from(this.tools.values()).filter(
             tool => tool.metadata.category === category
@@ -253,6 +316,9 @@ export class ToolRegistry {
         workspaceRoot: string;
         outputChannel: vscode.OutputChannel;
         onProgress?: (message: string) => void;
+        onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void; // Live output from long-running tools
+        signal?: AbortSignal; // Aborted when the user cancels the call
+        sandbox?: ToolSandbox; // Permission-checked path resolution, supplied by the registry
     }): Promise<ToolResult> {
         const tool = this.getTool(actionType);
         
@@ -263,16 +329,42 @@ export class ToolRegistry {
             };
         }
 
+        const missing = toolPermissions.getMissingCapabilities(tool.metadata, getActionOperation(action));
+        if (missing.length > 0) {
+            return {
+                success: false,
+                message: `${tool.metadata.name} needs permissions that are not granted in this workspace: ${missing.map(capability => `${capability} (${CAPABILITY_DESCRIPTIONS[capability].toLowerCase()})`).join(', ')}. Use "Cuovare: Manage Tool Permissions" to grant them.`
+            };
+        }
+
+        // Everything the tool resolves for writing is snapshotted into one checkpoint,
+        // or into the chat turn's or agent plan's when one is open
+        const checkpoint = checkpointManager.begin(`${tool.metadata.name} changes`, 'tool');
         try {
-            return await tool.execute(action, context);
+            return await tool.execute(action, {
+                ...context,
+                sandbox: toolPermissions.createSandbox(tool.metadata.name, context.workspaceRoot, snapshotBeforeWrite)
+            });
         } catch (error) {
             return {
                 success: false,
                 message: `Tool execution failed: ${error instanceof Error ? error.message : String(error)}`
             };
+        } finally {
+            checkpointManager.end(checkpoint);
         }
     }
 }
 
+/**
+ * Checkpoint a file a tool is about to write. Directories are skipped; the
+ * files written into them are snapshotted on their own.
+ */
+function snapshotBeforeWrite(filePath: string): void {
+    if (!fs.existsSync(filePath) || !fs.statSync(filePath).isDirectory()) {
+        checkpointManager.snapshotFile(filePath);
+    }
+}
+
 // Global registry instance
 export const toolRegistry = new ToolRegistry();
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolResult, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface APIEndpoint {
     method: 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'OPTIONS' | 'HEAD';
@@ -157,6 +158,7 @@ export class APIDocumentationTool implements ToolExecutor {
         name: 'APIDocumentationTool',
         description: 'Live API documentation generation, endpoint testing, and OpenAPI specification management',
         category: 'Documentation',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'action', description: 'generate-openapi | test-endpoints | extract-from-code | validate-spec | generate-client | generate-tests | serve-docs', required: true, type: 'string' },
             { name: 'sourceDir', description: 'Source directory to scan for API endpoints', required: false, type: 'string' },
@@ -180,9 +182,9 @@ export class APIDocumentationTool implements ToolExecutor {
         this.initializeFrameworkParsers();
     }
 
-    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void }): Promise<ToolResult> {
+    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void; sandbox?: ToolSandbox }): Promise<ToolResult> {
         const { 
-            action, sourceDir, specFile, outputDir, baseUrl, format, 
+            action, sourceDir, outputDir, baseUrl, format, 
             includeExamples, includeTests, framework, language, templateDir 
         } = params;
 
@@ -192,9 +194,12 @@ export class APIDocumentationTool implements ToolExecutor {
                 return { success: false, message: 'No workspace folder found' };
             }
 
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const specFile = params.specFile ? sandbox.resolvePath(params.specFile, 'read') : undefined;
             const options = {
-                sourceDir: sourceDir || workspaceFolder.uri.fsPath,
-                outputDir: outputDir || path.join(workspaceFolder.uri.fsPath, 'docs', 'api'),
+                sandbox,
+                sourceDir: sandbox.resolvePath(sourceDir || '.', 'read'),
+                outputDir: sandbox.resolvePath(outputDir || path.join('docs', 'api'), 'write'),
                 format: format || 'yaml',
                 includeExamples: includeExamples !== false,
                 includeTests: includeTests !== false,
@@ -251,14 +256,14 @@ export class APIDocumentationTool implements ToolExecutor {
         // Write specification files
         if (options.format === 'json' || options.format === 'all') {
             const jsonFile = path.join(options.outputDir, 'openapi.json');
-            await fs.promises.writeFile(jsonFile, JSON.stringify(spec, null, 2));
+            await this.writeOutput(options.sandbox, jsonFile, JSON.stringify(spec, null, 2));
             outputFiles.push(jsonFile);
         }
 
         if (options.format === 'yaml' || options.format === 'all') {
             const yamlFile = path.join(options.outputDir, 'openapi.yaml');
             const yamlContent = await this.convertToYAML(spec);
-            await fs.promises.writeFile(yamlFile, yamlContent);
+            await this.writeOutput(options.sandbox, yamlFile, yamlContent);
             outputFiles.push(yamlFile);
         }
 
@@ -266,21 +271,21 @@ export class APIDocumentationTool implements ToolExecutor {
         if (options.format === 'html' || options.format === 'all') {
             const htmlFile = path.join(options.outputDir, 'index.html');
             const htmlContent = await this.generateHTMLDocumentation(spec, options);
-            await fs.promises.writeFile(htmlFile, htmlContent);
+            await this.writeOutput(options.sandbox, htmlFile, htmlContent);
             outputFiles.push(htmlFile);
         }
 
         // Generate Postman collection
         const postmanFile = path.join(options.outputDir, 'postman_collection.json');
         const postmanCollection = await this.generatePostmanCollection(spec);
-        await fs.promises.writeFile(postmanFile, JSON.stringify(postmanCollection, null, 2));
+        await this.writeOutput(options.sandbox, postmanFile, JSON.stringify(postmanCollection, null, 2));
         outputFiles.push(postmanFile);
 
         // Generate test cases if requested
         if (options.includeTests) {
             const testFile = path.join(options.outputDir, 'api_tests.js');
             const testContent = await this.generateTestSuite(spec);
-            await fs.promises.writeFile(testFile, testContent);
+            await this.writeOutput(options.sandbox, testFile, testContent);
             outputFiles.push(testFile);
         }
 
@@ -308,7 +313,7 @@ export class APIDocumentationTool implements ToolExecutor {
         };
     }
 
-    private async testEndpoints(specFile: string, baseUrl: string, options: any): Promise<ToolResult> {
+    private async testEndpoints(specFile: string | undefined, baseUrl: string, options: any): Promise<ToolResult> {
         if (!specFile) {
             return { success: false, message: 'OpenAPI specification file is required for testing' };
         }
@@ -327,12 +332,12 @@ export class APIDocumentationTool implements ToolExecutor {
         // Save test results
         await fs.promises.mkdir(options.outputDir, { recursive: true });
         const resultsFile = path.join(options.outputDir, 'test_results.json');
-        await fs.promises.writeFile(resultsFile, JSON.stringify(testResults, null, 2));
+        await this.writeOutput(options.sandbox, resultsFile, JSON.stringify(testResults, null, 2));
 
         // Generate test report
         const reportFile = path.join(options.outputDir, 'test_report.html');
         const reportContent = await this.generateTestReport(testResults);
-        await fs.promises.writeFile(reportFile, reportContent);
+        await this.writeOutput(options.sandbox, reportFile, reportContent);
 
         const passedTests = testResults.results.filter((r: any) => r.passed).length;
         const totalTests = testResults.results.length;
@@ -385,7 +390,7 @@ export class APIDocumentationTool implements ToolExecutor {
         };
     }
 
-    private async validateSpec(specFile: string): Promise<ToolResult> {
+    private async validateSpec(specFile: string | undefined): Promise<ToolResult> {
         if (!specFile) {
             return { success: false, message: 'OpenAPI specification file is required for validation' };
         }
@@ -416,7 +421,7 @@ export class APIDocumentationTool implements ToolExecutor {
         };
     }
 
-    private async generateClient(specFile: string, language: string, options: any): Promise<ToolResult> {
+    private async generateClient(specFile: string | undefined, language: string, options: any): Promise<ToolResult> {
         if (!specFile) {
             return { success: false, message: 'OpenAPI specification file is required for client generation' };
         }
@@ -439,7 +444,7 @@ export class APIDocumentationTool implements ToolExecutor {
 
         // Write client code files
         for (const [filename, content] of Object.entries(clientCode.files)) {
-            const filePath = path.join(options.outputDir, filename);
+            const filePath = options.sandbox.resolvePath(path.join(options.outputDir, filename), 'write');
             await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
             await fs.promises.writeFile(filePath, content as string);
             outputFiles.push(filePath);
@@ -448,7 +453,7 @@ export class APIDocumentationTool implements ToolExecutor {
         // Generate README for the client
         const readmeContent = await this.generateClientReadme(spec, language, clientCode);
         const readmePath = path.join(options.outputDir, 'README.md');
-        await fs.promises.writeFile(readmePath, readmeContent);
+        await this.writeOutput(options.sandbox, readmePath, readmeContent);
         outputFiles.push(readmePath);
 
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
@@ -470,7 +475,7 @@ export class APIDocumentationTool implements ToolExecutor {
         };
     }
 
-    private async generateTests(specFile: string, options: any): Promise<ToolResult> {
+    private async generateTests(specFile: string | undefined, options: any): Promise<ToolResult> {
         if (!specFile) {
             return { success: false, message: 'OpenAPI specification file is required for test generation' };
         }
@@ -490,7 +495,7 @@ export class APIDocumentationTool implements ToolExecutor {
         // Write test files
         for (const [filename, content] of Object.entries(testSuite.files)) {
             const filePath = path.join(options.outputDir, filename);
-            await fs.promises.writeFile(filePath, content as string);
+            await this.writeOutput(options.sandbox, filePath, content as string);
             outputFiles.push(filePath);
         }
 
@@ -512,7 +517,7 @@ export class APIDocumentationTool implements ToolExecutor {
         };
     }
 
-    private async serveDocs(specFile: string, options: any): Promise<ToolResult> {
+    private async serveDocs(specFile: string | undefined, options: any): Promise<ToolResult> {
         if (!specFile) {
             return { success: false, message: 'OpenAPI specification file is required for serving docs' };
         }
@@ -528,12 +533,12 @@ export class APIDocumentationTool implements ToolExecutor {
         // Generate interactive HTML documentation with Swagger UI
         const swaggerUIHtml = await this.generateSwaggerUIPage(spec, specFile);
         const htmlFile = path.join(options.outputDir, 'index.html');
-        await fs.promises.writeFile(htmlFile, swaggerUIHtml);
+        await this.writeOutput(options.sandbox, htmlFile, swaggerUIHtml);
 
         // Copy spec file to docs directory
         const specFileName = path.basename(specFile);
         const docsSpecFile = path.join(options.outputDir, specFileName);
-        await fs.promises.copyFile(specFile, docsSpecFile);
+        await fs.promises.copyFile(specFile, options.sandbox.resolvePath(docsSpecFile, 'write'));
 
         const port = 8080; // Default port for documentation server
         const serverUrl = `http://localhost:${port}`;
@@ -1089,6 +1094,14 @@ export class APIDocumentationTool implements ToolExecutor {
 
     // Utility methods
 
+    /**
+     * Write a generated file; existing files (possibly symlinks) are checked
+     * against the sandbox like the output directory itself
+     */
+    private async writeOutput(sandbox: ToolSandbox, filePath: string, content: string): Promise<void> {
+        await fs.promises.writeFile(sandbox.resolvePath(filePath, 'write'), content);
+    }
+
     private async getAPIFiles(sourceDir: string): Promise<string[]> {
         const files: string[] = [];
         const apiExtensions = ['.js', '.ts', '.py', '.java', '.kt', '.scala', '.go', '.rb', '.php'];
@@ -2,12 +2,14 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
 import { ToolExecutor, ToolMetadata, ToolResult } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 export class APITool implements ToolExecutor {
     readonly metadata: ToolMetadata = {
         name: 'api',
         description: 'API testing, documentation generation, and integration tools',
         category: 'API & Integration',
+        capabilities: ['read', 'write', 'network'],
         parameters: [
             {
                 name: 'action',
@@ -95,29 +97,37 @@ export class APITool implements ToolExecutor {
         }
     };
 
-    async execute(method: string, args: Record<string, any>): Promise<ToolResult> {
+    async execute(args: Record<string, any>, context: {
+        workspaceRoot: string;
+        outputChannel: vscode.OutputChannel;
+        sandbox?: ToolSandbox;
+    }): Promise<ToolResult> {
+        const method: string = args.action;
         try {
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const specPath = (): string => sandbox.resolvePath(args.specPath, 'read');
+
             switch (method) {
                 case 'testEndpoint':
                     return await this.testEndpoint(args.url, args.method, args.headers, args.body, args.auth);
                 case 'generateOpenAPI':
-                    return await this.generateOpenAPI(args.routesPath, args.outputPath);
+                    return await this.generateOpenAPI(sandbox, sandbox.resolvePath(args.routesPath, 'read'), args.outputPath);
                 case 'validateOpenAPI':
-                    return await this.validateOpenAPI(args.specPath);
+                    return await this.validateOpenAPI(specPath());
                 case 'generateClient':
-                    return await this.generateClient(args.specPath, args.language, args.outputDir);
+                    return await this.generateClient(sandbox, specPath(), args.language, args.outputDir);
                 case 'mockServer':
-                    return await this.mockServer(args.specPath, args.port);
+                    return await this.mockServer(sandbox, specPath(), args.port);
                 case 'testSuite':
-                    return await this.testSuite(args.specPath, args.framework);
+                    return await this.testSuite(sandbox, specPath(), args.framework);
                 case 'loadTest':
                     return await this.loadTest(args.url, args.concurrency, args.duration);
                 case 'generatePostman':
-                    return await this.generatePostman(args.specPath, args.outputPath);
+                    return await this.generatePostman(sandbox, specPath(), args.outputPath);
                 case 'analyzeAPI':
-                    return await this.analyzeAPI(args.specPath);
+                    return await this.analyzeAPI(specPath());
                 case 'generateDocs':
-                    return await this.generateDocs(args.specPath, args.outputDir, args.theme);
+                    return await this.generateDocs(sandbox, specPath(), args.outputDir, args.theme);
                 default:
                     return {
                         success: false,
@@ -205,12 +215,12 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async generateOpenAPI(routesPath: string, outputPath?: string): Promise<ToolResult> {
+    private async generateOpenAPI(sandbox: ToolSandbox, routesPath: string, outputPath?: string): Promise<ToolResult> {
         try {
             const routes = await this.extractRoutes(routesPath);
             const openAPISpec = this.createOpenAPISpec(routes);
 
-            const outputFile = outputPath || path.join(path.dirname(routesPath), 'openapi.yaml');
+            const outputFile = sandbox.resolvePath(outputPath || path.join(path.dirname(routesPath), 'openapi.yaml'), 'write');
             await fs.writeFile(outputFile, this.convertToYAML(openAPISpec));
 
             return {
@@ -243,15 +253,15 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async generateClient(specPath: string, language: string, outputDir?: string): Promise<ToolResult> {
+    private async generateClient(sandbox: ToolSandbox, specPath: string, language: string, outputDir?: string): Promise<ToolResult> {
         try {
             const spec = await this.loadOpenAPISpec(specPath);
             const clientCode = this.generateClientCode(spec, language);
 
-            const outputDirectory = outputDir || path.join(path.dirname(specPath), 'generated-client');
+            const outputDirectory = sandbox.resolvePath(outputDir || path.join(path.dirname(specPath), 'generated-client'), 'write');
             await fs.mkdir(outputDirectory, { recursive: true });
 
-            const files = await this.writeClientFiles(clientCode, outputDirectory, language);
+            const files = await this.writeClientFiles(sandbox, clientCode, outputDirectory, language);
 
             return {
                 success: true,
@@ -265,12 +275,12 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async mockServer(specPath: string, port: number = 3001): Promise<ToolResult> {
+    private async mockServer(sandbox: ToolSandbox, specPath: string, port: number = 3001): Promise<ToolResult> {
         try {
             const spec = await this.loadOpenAPISpec(specPath);
             const mockServerCode = this.generateMockServerCode(spec, port);
 
-            const serverPath = path.join(path.dirname(specPath), 'mock-server.js');
+            const serverPath = sandbox.resolvePath(path.join(path.dirname(specPath), 'mock-server.js'), 'write');
             await fs.writeFile(serverPath, mockServerCode);
 
             return {
@@ -285,15 +295,15 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async testSuite(specPath: string, framework: string = 'jest'): Promise<ToolResult> {
+    private async testSuite(sandbox: ToolSandbox, specPath: string, framework: string = 'jest'): Promise<ToolResult> {
         try {
             const spec = await this.loadOpenAPISpec(specPath);
             const testCode = this.generateTestSuite(spec, framework);
 
-            const testDir = path.join(path.dirname(specPath), 'api-tests');
+            const testDir = sandbox.resolvePath(path.join(path.dirname(specPath), 'api-tests'), 'write');
             await fs.mkdir(testDir, { recursive: true });
 
-            const testFiles = await this.writeTestFiles(testCode, testDir, framework);
+            const testFiles = await this.writeTestFiles(sandbox, testCode, testDir, framework);
 
             return {
                 success: true,
@@ -323,12 +333,12 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async generatePostman(specPath: string, outputPath?: string): Promise<ToolResult> {
+    private async generatePostman(sandbox: ToolSandbox, specPath: string, outputPath?: string): Promise<ToolResult> {
         try {
             const spec = await this.loadOpenAPISpec(specPath);
             const collection = this.createPostmanCollection(spec);
 
-            const outputFile = outputPath || path.join(path.dirname(specPath), 'postman-collection.json');
+            const outputFile = sandbox.resolvePath(outputPath || path.join(path.dirname(specPath), 'postman-collection.json'), 'write');
             await fs.writeFile(outputFile, JSON.stringify(collection, null, 2));
 
             return {
@@ -360,15 +370,15 @@ export class APITool implements ToolExecutor {
         }
     }
 
-    private async generateDocs(specPath: string, outputDir?: string, theme: string = 'swagger-ui'): Promise<ToolResult> {
+    private async generateDocs(sandbox: ToolSandbox, specPath: string, outputDir?: string, theme: string = 'swagger-ui'): Promise<ToolResult> {
         try {
             const spec = await this.loadOpenAPISpec(specPath);
             const docsHtml = this.generateDocumentationHTML(spec, theme);
 
-            const outputDirectory = outputDir || path.join(path.dirname(specPath), 'api-docs');
+            const outputDirectory = sandbox.resolvePath(outputDir || path.join(path.dirname(specPath), 'api-docs'), 'write');
             await fs.mkdir(outputDirectory, { recursive: true });
 
-            const indexPath = path.join(outputDirectory, 'index.html');
+            const indexPath = sandbox.resolvePath(path.join(outputDirectory, 'index.html'), 'write');
             await fs.writeFile(indexPath, docsHtml);
 
             return {
@@ -793,11 +803,11 @@ export interface APIResponse<T = any> {
 `;
     }
 
-    private async writeClientFiles(clientCode: any, outputDir: string, language: string): Promise<string[]> {
+    private async writeClientFiles(sandbox: ToolSandbox, clientCode: any, outputDir: string, language: string): Promise<string[]> {
         const files = [];
         
         for (const [filename, content] of Object.entries(clientCode)) {
-            const filePath = path.join(outputDir, filename);
+            const filePath = sandbox.resolvePath(path.join(outputDir, filename), 'write');
             await fs.writeFile(filePath, content as string);
             files.push(filename);
         }
@@ -959,11 +969,11 @@ describe('API Tests', () => {
         return testCases.join('\n\n  ');
     }
 
-    private async writeTestFiles(testCode: any, testDir: string, framework: string): Promise<string[]> {
+    private async writeTestFiles(sandbox: ToolSandbox, testCode: any, testDir: string, framework: string): Promise<string[]> {
         const files = [];
         
         for (const [filename, content] of Object.entries(testCode)) {
-            const filePath = path.join(testDir, filename);
+            const filePath = sandbox.resolvePath(path.join(testDir, filename), 'write');
             await fs.writeFile(filePath, content as string);
             files.push(filename);
         }
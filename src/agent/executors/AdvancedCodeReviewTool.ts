@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface CodeIssue {
     file: string;
@@ -33,6 +34,7 @@ export class AdvancedCodeReviewTool implements ToolExecutor {
         name: 'advanced_code_review',
         description: 'AI-powered comprehensive code analysis with suggestions, best practices validation, and quality scoring',
         category: 'Code Quality',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'target', description: 'File path or directory to analyze', required: true, type: 'string' },
             { name: 'language', description: 'Programming language (auto-detect if not specified)', required: false, type: 'string' },
@@ -53,16 +55,13 @@ export class AdvancedCodeReviewTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Starting advanced code review of: ${payload.target}`);
             
-            const targetPath = path.resolve(context.workspaceRoot, payload.target);
-            
-            // Validate target path
-            if (!targetPath.startsWith(context.workspaceRoot)) {
-                throw new Error('Target path outside workspace not allowed');
-            }
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const targetPath = sandbox.resolvePath(payload.target, 'read');
             
             if (!fs.existsSync(targetPath)) {
                 throw new Error(`Target not found: ${payload.target}`);
@@ -123,7 +122,7 @@ export class AdvancedCodeReviewTool implements ToolExecutor {
 
             // Generate HTML report if requested
             if (generateReport) {
-                const reportPath = await this.generateHtmlReport(result, context.workspaceRoot);
+                const reportPath = await this.generateHtmlReport(result, sandbox);
                 context.outputChannel.appendLine(`Generated detailed report: ${reportPath}`);
             }
 
@@ -464,8 +463,8 @@ export class AdvancedCodeReviewTool implements ToolExecutor {
         return Math.round(score);
     }
 
-    private async generateHtmlReport(result: CodeReviewResult, workspaceRoot: string): Promise<string> {
-        const reportPath = path.join(workspaceRoot, 'code-review-report.html');
+    private async generateHtmlReport(result: CodeReviewResult, sandbox: ToolSandbox): Promise<string> {
+        const reportPath = sandbox.resolvePath('code-review-report.html', 'write');
         
         const html = `
 <!DOCTYPE html>
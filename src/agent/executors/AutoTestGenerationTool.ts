@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface TestTemplate {
     framework: string;
@@ -22,6 +23,7 @@ export class AutoTestGenerationTool implements ToolExecutor {
         name: 'auto_test_generation',
         description: 'Generate comprehensive unit tests for selected code with multiple testing frameworks support',
         category: 'Testing',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'target', description: 'File or directory to generate tests for', required: true, type: 'string' },
             { name: 'framework', description: 'Testing framework: jest, mocha, vitest, jasmine, chai (auto-detect if not specified)', required: false, type: 'string' },
@@ -49,15 +51,15 @@ export class AutoTestGenerationTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Generating tests for: ${payload.target}`);
             
-            const targetPath = path.resolve(context.workspaceRoot, payload.target);
-            
-            if (!targetPath.startsWith(context.workspaceRoot)) {
-                throw new Error('Target path outside workspace not allowed');
-            }
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const targetPath = sandbox.resolvePath(payload.target, 'read');
+            // Checked before any tests are generated
+            const outputDir = payload.outputPath ? sandbox.resolvePath(payload.outputPath, 'write') : undefined;
             
             if (!fs.existsSync(targetPath)) {
                 throw new Error(`Target not found: ${payload.target}`);
@@ -98,7 +100,7 @@ export class AutoTestGenerationTool implements ToolExecutor {
                     coverage,
                     mockExternal,
                     includeSetup,
-                    payload.outputPath
+                    outputDir
                 );
                 
                 if (testFile) {
@@ -504,13 +506,12 @@ it('${methodName} should work correctly', () => {
         return content;
     }
 
-    private getTestFilePath(sourceFile: string, workspaceRoot: string, framework: string, customOutputPath?: string): string {
+    private getTestFilePath(sourceFile: string, workspaceRoot: string, framework: string, outputDir?: string): string {
         const sourceDir = path.dirname(sourceFile);
         const baseName = path.basename(sourceFile, path.extname(sourceFile));
         const ext = path.extname(sourceFile);
         
-        if (customOutputPath) {
-            const outputDir = path.resolve(workspaceRoot, customOutputPath);
+        if (outputDir) {
             return path.join(outputDir, `${baseName}.test${ext}`);
         }
         
@@ -534,9 +535,12 @@ it('${methodName} should work correctly', () => {
         return path.join(sourceDir, `${baseName}.test${ext}`);
     }
 
-    private async writeTestFiles(generatedTests: GeneratedTest[], context: { workspaceRoot: string; outputChannel: any }): Promise<void> {
+    private async writeTestFiles(generatedTests: GeneratedTest[], context: { workspaceRoot: string; outputChannel: any; sandbox?: ToolSandbox }): Promise<void> {
+        const sandbox = getToolSandbox(context, this.metadata.name);
+
         for (const test of generatedTests) {
-            const dir = path.dirname(test.fileName);
+            const fileName = sandbox.resolvePath(test.fileName, 'write');
+            const dir = path.dirname(fileName);
             
             // Create directory if it doesn't exist
             if (!fs.existsSync(dir)) {
@@ -544,13 +548,13 @@ it('${methodName} should work correctly', () => {
             }
             
             // Write test file
-            fs.writeFileSync(test.fileName, test.content, 'utf8');
-            context.outputChannel.appendLine(`Generated: ${path.relative(context.workspaceRoot, test.fileName)}`);
+            fs.writeFileSync(fileName, test.content, 'utf8');
+            context.outputChannel.appendLine(`Generated: ${path.relative(context.workspaceRoot, fileName)}`);
             
             // Try to open in VS Code
             try {
                 const vscode = require('vscode');
-                const uri = vscode.Uri.file(test.fileName);
+                const uri = vscode.Uri.file(fileName);
                 await vscode.window.showTextDocument(uri, { preview: false });
             } catch {
                 // VS Code not available
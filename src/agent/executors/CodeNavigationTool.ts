@@ -1,7 +1,7 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolResult, ToolMetadata } from '../ToolRegistry';
+import { fileEnumerator } from '../../context/FileEnumerator';
 
 interface NavigationResult {
     type: 'definition' | 'reference' | 'implementation' | 'declaration';
@@ -50,6 +50,7 @@ export class CodeNavigationTool implements ToolExecutor {
         name: 'CodeNavigationTool',
         description: 'Smart code navigation with go-to-definition, find references, and symbol exploration',
         category: 'Navigation',
+        capabilities: ['read'],
         parameters: [
             { name: 'action', description: 'go-to-definition | find-references | find-implementations | find-declarations | symbol-outline | call-hierarchy | type-hierarchy | workspace-symbols', required: true, type: 'string' },
             { name: 'symbol', description: 'Symbol name to navigate to or analyze', required: true, type: 'string' },
@@ -77,8 +78,7 @@ export class CodeNavigationTool implements ToolExecutor {
         } = params;
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            if (fileEnumerator.getRoots().length === 0) {
                 return { success: false, message: 'No workspace folder found' };
             }
 
@@ -99,7 +99,7 @@ export class CodeNavigationTool implements ToolExecutor {
                 case 'find-declarations':
                     return await this.findDeclarations(symbol, file, line, column, options);
                 case 'symbol-outline':
-                    return await this.getSymbolOutline(file || workspaceFolder.uri.fsPath, options);
+                    return await this.getSymbolOutline(file, options);
                 case 'call-hierarchy':
                     return await this.getCallHierarchy(symbol, file, line, column, options);
                 case 'type-hierarchy':
@@ -118,11 +118,6 @@ export class CodeNavigationTool implements ToolExecutor {
     }
 
     private async goToDefinition(symbol: string, file?: string, line?: number, column?: number, options?: any): Promise<ToolResult> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { success: false, message: 'No workspace folder found' };
-        }
-
         const definitions = await this.findSymbolDefinitions(symbol, file, options);
         
         if (definitions.length === 0) {
@@ -223,10 +218,12 @@ export class CodeNavigationTool implements ToolExecutor {
         };
     }
 
-    private async getSymbolOutline(filePath: string, options: any): Promise<ToolResult> {
-        const stats = await fs.promises.stat(filePath);
+    private async getSymbolOutline(file: string | undefined, options: any): Promise<ToolResult> {
+        // A file or folder, possibly as a display path; every workspace folder without one
+        const filePath = file && (fileEnumerator.resolveDisplayPath(file) ?? file);
+        const stats = filePath ? await fs.promises.stat(filePath) : undefined;
         
-        if (stats.isFile()) {
+        if (filePath && stats?.isFile()) {
             const symbols = await this.extractFileSymbols(filePath, options);
             return {
                 success: true,
@@ -243,7 +240,7 @@ export class CodeNavigationTool implements ToolExecutor {
                 success: true,
                 message: `Found ${symbols.length} symbols in workspace`,
                 data: {
-                    workspace: filePath,
+                    workspace: filePath ?? fileEnumerator.getRoots().map(root => root.path).join(', '),
                     symbols,
                     byFile: this.groupSymbolsByFile(symbols),
                     byKind: this.groupSymbolsByKind(symbols)
@@ -273,12 +270,7 @@ export class CodeNavigationTool implements ToolExecutor {
     }
 
     private async findWorkspaceSymbols(query: string, options: any): Promise<ToolResult> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { success: false, message: 'No workspace folder found' };
-        }
-
-        const symbols = await this.searchWorkspaceSymbols(query, workspaceFolder.uri.fsPath, options);
+        const symbols = await this.searchWorkspaceSymbols(query, undefined, options);
         
         return {
             success: true,
@@ -295,10 +287,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findSymbolDefinitions(symbol: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         // Definition patterns for different languages
         const patterns = this.getDefinitionPatterns(symbol);
@@ -318,10 +307,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findSymbolReferences(symbol: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         // Reference patterns
         const patterns = this.getReferencePatterns(symbol);
@@ -341,10 +327,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findSymbolImplementations(symbol: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         // Implementation patterns
         const patterns = this.getImplementationPatterns(symbol);
@@ -364,10 +347,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findSymbolDeclarations(symbol: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         // Declaration patterns (interfaces, abstract classes, function signatures)
         const patterns = this.getDeclarationPatterns(symbol);
@@ -472,10 +452,7 @@ export class CodeNavigationTool implements ToolExecutor {
     private async searchDefinitionsInFile(filePath: string, content: string, symbol: string, patterns: any[], options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
         const lines = content.split('\n');
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? 
-            path.relative(workspaceFolder.uri.fsPath, filePath) : 
-            filePath;
+        const relativePath = fileEnumerator.toDisplayPath(filePath);
 
         for (const { pattern, type, language } of patterns) {
             const ext = path.extname(filePath);
@@ -515,10 +492,7 @@ export class CodeNavigationTool implements ToolExecutor {
     private async searchReferencesInFile(filePath: string, content: string, symbol: string, patterns: any[], options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
         const lines = content.split('\n');
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? 
-            path.relative(workspaceFolder.uri.fsPath, filePath) : 
-            filePath;
+        const relativePath = fileEnumerator.toDisplayPath(filePath);
 
         for (const { pattern, type, context } of patterns) {
             for (let i = 0; i < lines.length; i++) {
@@ -555,10 +529,7 @@ export class CodeNavigationTool implements ToolExecutor {
     private async searchImplementationsInFile(filePath: string, content: string, symbol: string, patterns: any[], options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
         const lines = content.split('\n');
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? 
-            path.relative(workspaceFolder.uri.fsPath, filePath) : 
-            filePath;
+        const relativePath = fileEnumerator.toDisplayPath(filePath);
 
         for (const { pattern, type, language } of patterns) {
             const ext = path.extname(filePath);
@@ -598,10 +569,7 @@ export class CodeNavigationTool implements ToolExecutor {
     private async searchDeclarationsInFile(filePath: string, content: string, symbol: string, patterns: any[], options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
         const lines = content.split('\n');
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? 
-            path.relative(workspaceFolder.uri.fsPath, filePath) : 
-            filePath;
+        const relativePath = fileEnumerator.toDisplayPath(filePath);
 
         for (const { pattern, type, language } of patterns) {
             const ext = path.extname(filePath);
@@ -785,7 +753,7 @@ export class CodeNavigationTool implements ToolExecutor {
         return symbols;
     }
 
-    private async extractWorkspaceSymbols(workspacePath: string, options: any): Promise<SymbolInfo[]> {
+    private async extractWorkspaceSymbols(workspacePath: string | undefined, options: any): Promise<SymbolInfo[]> {
         const symbols: SymbolInfo[] = [];
         const files = await this.getRelevantFiles(workspacePath);
         
@@ -801,7 +769,7 @@ export class CodeNavigationTool implements ToolExecutor {
         return symbols;
     }
 
-    private async searchWorkspaceSymbols(query: string, workspacePath: string, options: any): Promise<SymbolInfo[]> {
+    private async searchWorkspaceSymbols(query: string, workspacePath: string | undefined, options: any): Promise<SymbolInfo[]> {
         const allSymbols = await this.extractWorkspaceSymbols(workspacePath, options);
         const queryLower = query.toLowerCase();
         
@@ -838,10 +806,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findFunctionCalls(functionName: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         // Find what functions this function calls
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return [];
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         const results: NavigationResult[] = [];
         
         for (const file of files) {
@@ -875,7 +840,7 @@ export class CodeNavigationTool implements ToolExecutor {
                                     column: match.index! + 1,
                                     symbol: match[1],
                                     context: this.getLineContext(lines, i, 1),
-                                    relativePath: path.relative(workspaceFolder.uri.fsPath, file)
+                                    relativePath: fileEnumerator.toDisplayPath(file)
                                 });
                             }
                         }
@@ -895,10 +860,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findBaseTypes(className: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         for (const file of files) {
             try {
@@ -918,7 +880,7 @@ export class CodeNavigationTool implements ToolExecutor {
                             column: extendsMatch.index! + 1,
                             symbol: extendsMatch[1],
                             context: this.getLineContext(lines, i, 1),
-                            relativePath: path.relative(workspaceFolder.uri.fsPath, file)
+                            relativePath: fileEnumerator.toDisplayPath(file)
                         });
                     }
                 }
@@ -932,10 +894,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findDerivedTypes(className: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         for (const file of files) {
             try {
@@ -955,7 +914,7 @@ export class CodeNavigationTool implements ToolExecutor {
                             column: extendsMatch.index! + 1,
                             symbol: extendsMatch[1],
                             context: this.getLineContext(lines, i, 1),
-                            relativePath: path.relative(workspaceFolder.uri.fsPath, file)
+                            relativePath: fileEnumerator.toDisplayPath(file)
                         });
                     }
                 }
@@ -969,10 +928,7 @@ export class CodeNavigationTool implements ToolExecutor {
 
     private async findImplementedInterfaces(className: string, contextFile?: string, options?: any): Promise<NavigationResult[]> {
         const results: NavigationResult[] = [];
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) return results;
-
-        const files = await this.getRelevantFiles(workspaceFolder.uri.fsPath);
+        const files = await this.getRelevantFiles();
         
         for (const file of files) {
             try {
@@ -994,7 +950,7 @@ export class CodeNavigationTool implements ToolExecutor {
                                 column: implementsMatch.index! + 1,
                                 symbol: iface,
                                 context: this.getLineContext(lines, i, 1),
-                                relativePath: path.relative(workspaceFolder.uri.fsPath, file)
+                                relativePath: fileEnumerator.toDisplayPath(file)
                             });
                         }
                     }
@@ -1007,43 +963,14 @@ export class CodeNavigationTool implements ToolExecutor {
         return results;
     }
 
-    private async getRelevantFiles(workspacePath: string): Promise<string[]> {
-        const files: string[] = [];
-        
-        const scanDir = async (dirPath: string): Promise<void> => {
-            try {
-                const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
-                
-                for (const entry of entries) {
-                    const fullPath = path.join(dirPath, entry.name);
-                    
-                    if (entry.isDirectory()) {
-                        if (!this.shouldIgnoreDirectory(entry.name)) {
-                            await scanDir(fullPath);
-                        }
-                    } else if (entry.isFile()) {
-                        const ext = path.extname(entry.name);
-                        if (this.supportedExtensions.includes(ext)) {
-                            files.push(fullPath);
-                        }
-                    }
-                }
-            } catch (error) {
-                // Skip directories that can't be read
-            }
-        };
-
-        await scanDir(workspacePath);
-        return files;
-    }
-
-    private shouldIgnoreDirectory(dirName: string): boolean {
-        const ignoreDirs = [
-            'node_modules', '.git', '.vscode', 'dist', 'build', 'coverage',
-            '.next', '.nuxt', 'out', '__pycache__', '.pytest_cache',
-            '.mypy_cache', 'target', 'bin', 'obj'
-        ];
-        return ignoreDirs.includes(dirName);
+    /**
+     * Source files under a folder, or in every workspace folder, that aren't ignored
+     */
+    private async getRelevantFiles(workspacePath?: string): Promise<string[]> {
+        return fileEnumerator.listFiles({
+            under: workspacePath,
+            filter: filePath => this.supportedExtensions.includes(path.extname(filePath))
+        });
     }
 
     private isLanguageMatch(language: string, fileExt: string): boolean {
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface QualityMetrics {
     file: string;
@@ -66,6 +67,7 @@ export class CodeQualityMetricsTool implements ToolExecutor {
         name: 'code_quality_metrics',
         description: 'Comprehensive code quality analysis with complexity metrics, maintainability scores, and technical debt calculation',
         category: 'Code Quality',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'target', description: 'File or directory to analyze for quality metrics', required: true, type: 'string' },
             { name: 'includeTests', description: 'Include test files in analysis (default: false)', required: false, type: 'boolean' },
@@ -113,15 +115,13 @@ export class CodeQualityMetricsTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Starting code quality analysis: ${payload.target}`);
             
-            const targetPath = path.resolve(context.workspaceRoot, payload.target);
-            
-            if (!targetPath.startsWith(context.workspaceRoot)) {
-                throw new Error('Target path outside workspace not allowed');
-            }
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const targetPath = sandbox.resolvePath(payload.target, 'read');
             
             if (!fs.existsSync(targetPath)) {
                 throw new Error(`Target not found: ${payload.target}`);
@@ -162,18 +162,18 @@ export class CodeQualityMetricsTool implements ToolExecutor {
             // Compare with baseline if provided
             let comparison: any = undefined;
             if (compareBaseline) {
-                comparison = await this.compareWithBaseline(projectMetrics, compareBaseline, context.workspaceRoot);
+                comparison = await this.compareWithBaseline(projectMetrics, compareBaseline, sandbox);
             }
 
             // Generate report if requested
             let reportPath: string | undefined;
             if (generateReport) {
                 context.onProgress?.('Generating quality report...');
-                reportPath = await this.generateQualityReport(projectMetrics, includeCharts, context.workspaceRoot, comparison);
+                reportPath = await this.generateQualityReport(projectMetrics, includeCharts, sandbox, comparison);
             }
 
             // Save current metrics as baseline
-            await this.saveMetricsBaseline(projectMetrics, context.workspaceRoot);
+            await this.saveMetricsBaseline(projectMetrics, sandbox);
 
             const message = this.formatResults(projectMetrics, reportPath, comparison);
 
@@ -659,9 +659,9 @@ export class CodeQualityMetricsTool implements ToolExecutor {
         return recommendations;
     }
 
-    private async compareWithBaseline(projectMetrics: ProjectMetrics, baselinePath: string, workspaceRoot: string): Promise<any> {
+    private async compareWithBaseline(projectMetrics: ProjectMetrics, baselinePath: string, sandbox: ToolSandbox): Promise<any> {
+        const fullBaselinePath = sandbox.resolvePath(baselinePath, 'read');
         try {
-            const fullBaselinePath = path.resolve(workspaceRoot, baselinePath);
             if (!fs.existsSync(fullBaselinePath)) {
                 return { error: 'Baseline file not found' };
             }
@@ -690,8 +690,8 @@ export class CodeQualityMetricsTool implements ToolExecutor {
         }
     }
 
-    private async saveMetricsBaseline(projectMetrics: ProjectMetrics, workspaceRoot: string): Promise<void> {
-        const baselinePath = path.join(workspaceRoot, 'quality-metrics-baseline.json');
+    private async saveMetricsBaseline(projectMetrics: ProjectMetrics, sandbox: ToolSandbox): Promise<void> {
+        const baselinePath = sandbox.resolvePath('quality-metrics-baseline.json', 'write');
         const baseline = {
             timestamp: new Date().toISOString(),
             summary: projectMetrics.summary,
@@ -704,10 +704,10 @@ export class CodeQualityMetricsTool implements ToolExecutor {
     private async generateQualityReport(
         projectMetrics: ProjectMetrics, 
         includeCharts: boolean, 
-        workspaceRoot: string,
+        sandbox: ToolSandbox,
         comparison?: any
     ): Promise<string> {
-        const reportPath = path.join(workspaceRoot, 'quality-metrics-report.html');
+        const reportPath = sandbox.resolvePath('quality-metrics-report.html', 'write');
         
         const html = `
 <!DOCTYPE html>
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface RefactoringRule {
     name: string;
@@ -33,6 +34,7 @@ export class CodeRefactoringTool implements ToolExecutor {
         name: 'code_refactoring',
         description: 'Intelligent code restructuring with automated refactoring suggestions and implementation',
         category: 'Code Quality',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'target', description: 'File or directory to refactor', required: true, type: 'string' },
             { name: 'rules', description: 'Refactoring rules: all, performance, readability, maintainability, modernization', required: false, type: 'array' },
@@ -60,15 +62,13 @@ export class CodeRefactoringTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Starting code refactoring analysis: ${payload.target}`);
             
-            const targetPath = path.resolve(context.workspaceRoot, payload.target);
-            
-            if (!targetPath.startsWith(context.workspaceRoot)) {
-                throw new Error('Target path outside workspace not allowed');
-            }
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const targetPath = sandbox.resolvePath(payload.target, 'read');
             
             if (!fs.existsSync(targetPath)) {
                 throw new Error(`Target not found: ${payload.target}`);
@@ -99,7 +99,7 @@ export class CodeRefactoringTool implements ToolExecutor {
                 const file = filesToRefactor[i];
                 context.onProgress?.(`Analyzing file ${i + 1}/${filesToRefactor.length}: ${path.relative(context.workspaceRoot, file)}`);
                 
-                const result = await this.refactorFile(file, context.workspaceRoot, rules, severity, dryRun, autoApply, createBackup);
+                const result = await this.refactorFile(file, context.workspaceRoot, sandbox, rules, severity, dryRun, autoApply, createBackup);
                 if (result && result.changes.length > 0) {
                     results.push(result);
                 }
@@ -303,6 +303,7 @@ export class CodeRefactoringTool implements ToolExecutor {
     private async refactorFile(
         filePath: string,
         workspaceRoot: string,
+        sandbox: ToolSandbox,
         rules: string[],
         severity: string,
         dryRun: boolean,
@@ -345,12 +346,12 @@ export class CodeRefactoringTool implements ToolExecutor {
             if (!dryRun && autoApply) {
                 // Create backup if requested
                 if (createBackup) {
-                    const backupPath = filePath + '.backup';
+                    const backupPath = sandbox.resolvePath(filePath + '.backup', 'write');
                     fs.writeFileSync(backupPath, originalContent, 'utf8');
                 }
                 
                 // Write refactored content
-                fs.writeFileSync(filePath, refactoredContent, 'utf8');
+                fs.writeFileSync(sandbox.resolvePath(filePath, 'write'), refactoredContent, 'utf8');
             }
 
             return {
@@ -1,7 +1,7 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolResult, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface DatabaseConnection {
     type: 'postgresql' | 'mysql' | 'sqlite' | 'mongodb' | 'redis';
@@ -126,6 +126,7 @@ export class DatabaseSchemaTool implements ToolExecutor {
         name: 'DatabaseSchemaTool',
         description: 'Visual database exploration, schema analysis, and query generation',
         category: 'Database',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'action', description: 'connect | explore-schema | analyze-table | generate-query | export-schema | compare-schemas | optimize-schema', required: true, type: 'string' },
             { name: 'connectionString', description: 'Database connection string', required: false, type: 'string' },
@@ -144,7 +145,7 @@ export class DatabaseSchemaTool implements ToolExecutor {
 
     private connections: Map<string, any> = new Map();
 
-    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void }): Promise<ToolResult> {
+    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void; sandbox?: ToolSandbox }): Promise<ToolResult> {
         const { 
             action, connectionString, dbType, host, port, database, 
             username, password, table, query, outputFormat, 
@@ -163,6 +164,7 @@ export class DatabaseSchemaTool implements ToolExecutor {
             };
 
             const options = {
+                sandbox: getToolSandbox(context, this.metadata.name),
                 includeData: includeData !== false,
                 includeStats: includeStats !== false,
                 outputFormat: outputFormat || 'json'
@@ -361,12 +363,8 @@ export class DatabaseSchemaTool implements ToolExecutor {
             return { success: false, message: 'Failed to extract schema for export' };
         }
 
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { success: false, message: 'No workspace folder found for export' };
-        }
-
-        const exportDir = path.join(workspaceFolder.uri.fsPath, 'database-export');
+        const sandbox: ToolSandbox = options.sandbox;
+        const exportDir = sandbox.resolvePath('database-export', 'write');
         await fs.promises.mkdir(exportDir, { recursive: true });
 
         const exports: string[] = [];
@@ -375,14 +373,14 @@ export class DatabaseSchemaTool implements ToolExecutor {
         if (options.outputFormat === 'sql' || options.outputFormat === 'all') {
             const sqlFile = path.join(exportDir, `${schema.name}_schema.sql`);
             const sqlContent = await this.generateSQLDDL(schema);
-            await fs.promises.writeFile(sqlFile, sqlContent);
+            await this.writeOutput(sandbox, sqlFile, sqlContent);
             exports.push(sqlFile);
         }
 
         // Export as JSON
         if (options.outputFormat === 'json' || options.outputFormat === 'all') {
             const jsonFile = path.join(exportDir, `${schema.name}_schema.json`);
-            await fs.promises.writeFile(jsonFile, JSON.stringify(schema, null, 2));
+            await this.writeOutput(sandbox, jsonFile, JSON.stringify(schema, null, 2));
             exports.push(jsonFile);
         }
 
@@ -390,7 +388,7 @@ export class DatabaseSchemaTool implements ToolExecutor {
         if (options.outputFormat === 'markdown' || options.outputFormat === 'all') {
             const mdFile = path.join(exportDir, `${schema.name}_documentation.md`);
             const mdContent = await this.generateMarkdownDocumentation(schema);
-            await fs.promises.writeFile(mdFile, mdContent);
+            await this.writeOutput(sandbox, mdFile, mdContent);
             exports.push(mdFile);
         }
 
@@ -398,7 +396,7 @@ export class DatabaseSchemaTool implements ToolExecutor {
         if (options.outputFormat === 'diagram' || options.outputFormat === 'all') {
             const diagramFile = path.join(exportDir, `${schema.name}_erd.mermaid`);
             const diagramContent = await this.generateMermaidERD(schema);
-            await fs.promises.writeFile(diagramFile, diagramContent);
+            await this.writeOutput(sandbox, diagramFile, diagramContent);
             exports.push(diagramFile);
         }
 
@@ -406,13 +404,21 @@ export class DatabaseSchemaTool implements ToolExecutor {
             success: true,
             message: `Exported schema to ${exports.length} files`,
             data: {
-                exportedFiles: exports.map(f => path.relative(workspaceFolder.uri.fsPath, f)),
+                exportedFiles: exports.map(f => path.relative(sandbox.workspaceRoot, f)),
                 schema,
-                exportDirectory: path.relative(workspaceFolder.uri.fsPath, exportDir)
+                exportDirectory: path.relative(sandbox.workspaceRoot, exportDir)
             }
         };
     }
 
+    /**
+     * Write an export file; the schema name comes from the database, so each
+     * file is checked against the sandbox rather than only the export folder
+     */
+    private async writeOutput(sandbox: ToolSandbox, filePath: string, content: string): Promise<void> {
+        await fs.promises.writeFile(sandbox.resolvePath(filePath, 'write'), content);
+    }
+
     private async compareSchemas(params: any): Promise<ToolResult> {
         const { sourceConnection, targetConnection, ignoreNames } = params;
         
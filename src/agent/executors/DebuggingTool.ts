@@ -1,16 +1,17 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs/promises';
-import { ToolExecutor, ToolResult } from '../ToolRegistry';
+import { ToolExecutor, ToolMetadata, ToolResult } from '../ToolRegistry';
 
 export class DebuggingTool implements ToolExecutor {
     readonly name = 'debugging';
     readonly description = 'Debug and analyze code issues, breakpoints, and runtime behavior';
     
-    readonly metadata = {
+    readonly metadata: ToolMetadata = {
         name: 'debugging',
         description: 'Debug and analyze code issues, breakpoints, and runtime behavior',
         category: 'Debugging',
+        capabilities: ['read'],
         parameters: [
             {
                 name: 'action',
@@ -2,6 +2,7 @@ import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolResult, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface FileStructure {
     name: string;
@@ -86,6 +87,7 @@ export class DocumentationTool implements ToolExecutor {
         name: 'DocumentationTool',
         description: 'Auto-generate comprehensive documentation from code comments and structure',
         category: 'Documentation',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'action', description: 'generate-docs | analyze-structure | create-readme | extract-api', required: true, type: 'string' },
             { name: 'path', description: 'Target file or directory path', required: false, type: 'string' },
@@ -102,16 +104,14 @@ export class DocumentationTool implements ToolExecutor {
         ]
     };
 
-    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void }): Promise<ToolResult> {
+    async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void; sandbox?: ToolSandbox }): Promise<ToolResult> {
         const { action, path: targetPath, options, format, includePrivate, includeTests, outputDir } = params;
 
         try {
             context.onProgress?.(`Starting documentation generation: ${action}`);
             
-            const workspaceRoot = context.workspaceRoot;
-            const resolvedPath = targetPath ? 
-                path.resolve(workspaceRoot, targetPath) : 
-                workspaceRoot;
+            const sandbox = getToolSandbox(context, this.metadata.name);
+            const resolvedPath = sandbox.resolvePath(targetPath || '.', 'read');
 
             const docOptions: DocGenerationOptions = {
                 includePrivate: includePrivate || false,
@@ -121,21 +121,23 @@ export class DocumentationTool implements ToolExecutor {
                 includeTypeDefinitions: true,
                 generateIndex: true,
                 includeSourceLinks: true,
-                outputDirectory: outputDir || path.join(workspaceRoot, 'docs'),
+                outputDirectory: outputDir || 'docs',
                 ...options
             };
+            // Resolved after merging `options`, which may name its own output directory
+            docOptions.outputDirectory = sandbox.resolvePath(docOptions.outputDirectory, 'write');
 
             switch (action) {
                 case 'generate-docs':
-                    return await this.generateDocumentation(resolvedPath, docOptions);
+                    return await this.generateDocumentation(resolvedPath, docOptions, sandbox);
                 case 'analyze-structure':
-                    return await this.analyzeCodeStructure(resolvedPath, docOptions);
+                    return await this.analyzeCodeStructure(resolvedPath, docOptions, sandbox);
                 case 'create-readme':
-                    return await this.generateReadme(resolvedPath, docOptions);
+                    return await this.generateReadme(resolvedPath, docOptions, sandbox);
                 case 'extract-api':
-                    return await this.extractApiDocumentation(resolvedPath, docOptions);
+                    return await this.extractApiDocumentation(resolvedPath, docOptions, sandbox);
                 default:
-                    return await this.generateDocumentation(resolvedPath, docOptions);
+                    return await this.generateDocumentation(resolvedPath, docOptions, sandbox);
             }
         } catch (error) {
             return { 
@@ -145,9 +147,9 @@ export class DocumentationTool implements ToolExecutor {
         }
     }
 
-    private async generateDocumentation(targetPath: string, options: DocGenerationOptions): Promise<ToolResult> {
+    private async generateDocumentation(targetPath: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<ToolResult> {
         const stats = await fs.promises.stat(targetPath);
-        const structure = await this.analyzeStructure(targetPath, options);
+        const structure = await this.analyzeStructure(targetPath, options, sandbox);
         
         // Ensure output directory exists
         await fs.promises.mkdir(options.outputDirectory, { recursive: true });
@@ -156,11 +158,11 @@ export class DocumentationTool implements ToolExecutor {
 
         if (stats.isDirectory()) {
             // Generate documentation for entire project
-            await this.generateProjectDocs(structure, options);
+            await this.generateProjectDocs(structure, options, sandbox);
             results.push('Generated complete project documentation');
             
             if (options.generateIndex) {
-                await this.generateIndexFile(structure, options);
+                await this.generateIndexFile(structure, options, sandbox);
                 results.push('Generated documentation index');
             }
         } else {
@@ -168,7 +170,7 @@ export class DocumentationTool implements ToolExecutor {
             const fileDoc = await this.generateFileDocumentation(structure, options);
             const outputFile = path.join(options.outputDirectory, 
                 path.basename(targetPath, path.extname(targetPath)) + '.md');
-            await fs.promises.writeFile(outputFile, fileDoc);
+            await this.writeOutput(sandbox, outputFile, fileDoc);
             results.push(`Generated documentation: ${outputFile}`);
         }
 
@@ -178,8 +180,8 @@ export class DocumentationTool implements ToolExecutor {
         };
     }
 
-    private async analyzeCodeStructure(targetPath: string, options: DocGenerationOptions): Promise<ToolResult> {
-        const structure = await this.analyzeStructure(targetPath, options);
+    private async analyzeCodeStructure(targetPath: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<ToolResult> {
+        const structure = await this.analyzeStructure(targetPath, options, sandbox);
         
         const analysis = {
             totalFiles: this.countFiles(structure),
@@ -202,13 +204,13 @@ export class DocumentationTool implements ToolExecutor {
         };
     }
 
-    private async generateReadme(targetPath: string, options: DocGenerationOptions): Promise<ToolResult> {
-        const structure = await this.analyzeStructure(targetPath, options);
+    private async generateReadme(targetPath: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<ToolResult> {
+        const structure = await this.analyzeStructure(targetPath, options, sandbox);
         const packageJsonPath = path.join(targetPath, 'package.json');
         
         let projectInfo: any = {};
         try {
-            const packageJson = await fs.promises.readFile(packageJsonPath, 'utf8');
+            const packageJson = await fs.promises.readFile(sandbox.resolvePath(packageJsonPath, 'read'), 'utf8');
             projectInfo = JSON.parse(packageJson);
         } catch {
             // No package.json found, use defaults
@@ -217,7 +219,7 @@ export class DocumentationTool implements ToolExecutor {
         const readme = await this.generateReadmeContent(structure, projectInfo, options);
         const readmePath = path.join(targetPath, 'README.md');
         
-        await fs.promises.writeFile(readmePath, readme);
+        await this.writeOutput(sandbox, readmePath, readme);
 
         return {
             success: true,
@@ -225,12 +227,12 @@ export class DocumentationTool implements ToolExecutor {
         };
     }
 
-    private async extractApiDocumentation(targetPath: string, options: DocGenerationOptions): Promise<ToolResult> {
-        const structure = await this.analyzeStructure(targetPath, options);
+    private async extractApiDocumentation(targetPath: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<ToolResult> {
+        const structure = await this.analyzeStructure(targetPath, options, sandbox);
         const apiDocs = await this.generateApiDocumentation(structure, options);
         
         const outputFile = path.join(options.outputDirectory, 'API.md');
-        await fs.promises.writeFile(outputFile, apiDocs);
+        await this.writeOutput(sandbox, outputFile, apiDocs);
 
         return {
             success: true,
@@ -239,19 +241,20 @@ export class DocumentationTool implements ToolExecutor {
         };
     }
 
-    private async analyzeStructure(targetPath: string, options: DocGenerationOptions): Promise<FileStructure> {
+    private async analyzeStructure(targetPath: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<FileStructure> {
         const stats = await fs.promises.stat(targetPath);
         const name = path.basename(targetPath);
 
         if (stats.isFile()) {
-            return await this.analyzeFile(targetPath, name);
+            return await this.analyzeFile(targetPath, name, sandbox);
         } else {
-            return await this.analyzeDirectory(targetPath, name, options);
+            return await this.analyzeDirectory(targetPath, name, options, sandbox);
         }
     }
 
-    private async analyzeFile(filePath: string, name: string): Promise<FileStructure> {
-        const content = await fs.promises.readFile(filePath, 'utf8');
+    private async analyzeFile(filePath: string, name: string, sandbox: ToolSandbox): Promise<FileStructure> {
+        // Checked per file so a symlink inside the target can't pull in files from elsewhere
+        const content = await fs.promises.readFile(sandbox.resolvePath(filePath, 'read'), 'utf8');
         const ext = path.extname(filePath);
         
         const structure: FileStructure = {
@@ -277,7 +280,7 @@ export class DocumentationTool implements ToolExecutor {
         return structure;
     }
 
-    private async analyzeDirectory(dirPath: string, name: string, options: DocGenerationOptions): Promise<FileStructure> {
+    private async analyzeDirectory(dirPath: string, name: string, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<FileStructure> {
         const structure: FileStructure = {
             name,
             type: 'directory',
@@ -296,10 +299,10 @@ export class DocumentationTool implements ToolExecutor {
             }
 
             if (entry.isDirectory()) {
-                const childStructure = await this.analyzeDirectory(entryPath, entry.name, options);
+                const childStructure = await this.analyzeDirectory(entryPath, entry.name, options, sandbox);
                 structure.children!.push(childStructure);
             } else {
-                const fileStructure = await this.analyzeFile(entryPath, entry.name);
+                const fileStructure = await this.analyzeFile(entryPath, entry.name, sandbox);
                 structure.children!.push(fileStructure);
             }
         }
@@ -844,16 +847,16 @@ export class DocumentationTool implements ToolExecutor {
         };
     }
 
-    private async generateProjectDocs(structure: FileStructure, options: DocGenerationOptions): Promise<void> {
+    private async generateProjectDocs(structure: FileStructure, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<void> {
         if (structure.type === 'directory' && structure.children) {
             for (const child of structure.children) {
                 if (child.type === 'file') {
                     const fileDoc = await this.generateFileDocumentation(child, options);
                     const fileName = path.basename(child.name, path.extname(child.name));
                     const outputFile = path.join(options.outputDirectory, fileName + '.md');
-                    await fs.promises.writeFile(outputFile, fileDoc);
+                    await this.writeOutput(sandbox, outputFile, fileDoc);
                 } else {
-                    await this.generateProjectDocs(child, options);
+                    await this.generateProjectDocs(child, options, sandbox);
                 }
             }
         }
@@ -982,7 +985,7 @@ export class DocumentationTool implements ToolExecutor {
         return doc;
     }
 
-    private async generateIndexFile(structure: FileStructure, options: DocGenerationOptions): Promise<void> {
+    private async generateIndexFile(structure: FileStructure, options: DocGenerationOptions, sandbox: ToolSandbox): Promise<void> {
         let index = `# Documentation Index\n\n`;
         index += `Generated on ${new Date().toISOString()}\n\n`;
         
@@ -996,7 +999,15 @@ export class DocumentationTool implements ToolExecutor {
         index += `- Total interfaces: ${this.countInterfaces(structure)}\n`;
         
         const indexPath = path.join(options.outputDirectory, 'README.md');
-        await fs.promises.writeFile(indexPath, index);
+        await this.writeOutput(sandbox, indexPath, index);
+    }
+
+    /**
+     * Write a generated file; existing files (possibly symlinks) are checked
+     * against the sandbox like the output directory itself
+     */
+    private async writeOutput(sandbox: ToolSandbox, filePath: string, content: string): Promise<void> {
+        await fs.promises.writeFile(sandbox.resolvePath(filePath, 'write'), content);
     }
 
     private generateStructureTree(structure: FileStructure, depth: number): string {
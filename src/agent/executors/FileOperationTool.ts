@@ -1,19 +1,30 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { checkpointManager } from '../CheckpointManager';
+import { applyFileEdit } from '../FileEdits';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 export class FileOperationTool implements ToolExecutor {
     public metadata: ToolMetadata = {
         name: 'file_operation',
         description: 'Perform file operations like read, write, create, delete, edit, copy, and move files',
         category: 'File Operations',
+        capabilities: ['read', 'write'],
+        operationCapabilities: { read: ['read'] },
         parameters: [
             { name: 'operation', description: 'Type of operation: read, write, create, delete, copy, move, edit', required: true, type: 'string' },
             { name: 'filePath', description: 'Path to the file (relative to workspace)', required: true, type: 'string' },
             { name: 'content', description: 'Content for write/create operations', required: false, type: 'string' },
             { name: 'targetPath', description: 'Target path for copy/move operations', required: false, type: 'string' },
-            { name: 'searchText', description: 'Text to search for in edit operations', required: false, type: 'string' },
+            { name: 'searchText', description: 'Exact text to replace in edit operations; must match once unless expectedOccurrences or replaceAll is set', required: false, type: 'string' },
             { name: 'replaceText', description: 'Text to replace with in edit operations', required: false, type: 'string' },
+            { name: 'expectedOccurrences', description: 'Number of matches searchText must have; all of them are replaced', required: false, type: 'number' },
+            { name: 'replaceAll', description: 'Replace every match of searchText', required: false, type: 'boolean' },
+            { name: 'startLine', description: 'First line (1-based) searchText is looked for in', required: false, type: 'number' },
+            { name: 'endLine', description: 'Last line searchText is looked for in', required: false, type: 'number' },
+            { name: 'patch', description: 'Unified diff hunks to apply in edit operations', required: false, type: 'string' },
+            { name: 'fuzz', description: 'Context lines a patch hunk may drop from each end to apply (default 2)', required: false, type: 'number' },
             { name: 'lineNumber', description: 'Line number for line-specific edit operations', required: false, type: 'number' },
             { name: 'insertAt', description: 'Position to insert content: start, end, or line number', required: false, type: 'string' }
         ],
@@ -22,6 +33,8 @@ export class FileOperationTool implements ToolExecutor {
             'Create a new file: { "operation": "create", "filePath": "src/utils.ts", "content": "export const helper = () => {};" }',
             'Write to file: { "operation": "write", "filePath": "src/app.ts", "content": "console.log(\'Hello World\');" }',
             'Edit file (find/replace): { "operation": "edit", "filePath": "src/app.ts", "searchText": "old code", "replaceText": "new code" }',
+            'Edit file (apply patch): { "operation": "edit", "filePath": "src/app.ts", "patch": "@@ -3,3 +3,3 @@\\n const a = 1;\\n-const b = 2;\\n+const b = 3;\\n const c = 4;" }',
+            'Edit file (every match in lines 10-40): { "operation": "edit", "filePath": "src/app.ts", "searchText": "foo", "replaceText": "bar", "startLine": 10, "endLine": 40, "expectedOccurrences": 3 }',
             'Edit file (insert at line): { "operation": "edit", "filePath": "src/app.ts", "content": "new line", "lineNumber": 5 }',
             'Edit file (append): { "operation": "edit", "filePath": "src/app.ts", "content": "new content", "insertAt": "end" }',
             'Copy a file: { "operation": "copy", "filePath": "src/component.tsx", "targetPath": "src/component.backup.tsx" }',
@@ -33,16 +46,12 @@ export class FileOperationTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Executing ${payload.operation} operation on ${payload.filePath}`);
             
-            const filePath = path.resolve(context.workspaceRoot, payload.filePath);
-            
-            // Ensure file is within workspace
-            if (!filePath.startsWith(context.workspaceRoot)) {
-                throw new Error('File operation outside workspace not allowed');
-            }
+            const filePath = getToolSandbox(context, this.metadata.name).resolvePath(payload.filePath, payload.operation === 'read' ? 'read' : 'write');
 
             switch (payload.operation) {
                 case 'read':
@@ -58,6 +67,7 @@ export class FileOperationTool implements ToolExecutor {
                     if (!fs.existsSync(dir)) {
                         fs.mkdirSync(dir, { recursive: true });
                     }
+                    checkpointManager.snapshotFile(filePath);
                     fs.writeFileSync(filePath, payload.content || '', 'utf8');
                     
                     // Try to open file in VS Code if available
@@ -75,6 +85,7 @@ export class FileOperationTool implements ToolExecutor {
                     if (!fs.existsSync(filePath)) {
                         throw new Error(`File not found: ${payload.filePath}`);
                     }
+                    checkpointManager.snapshotFile(filePath);
                     fs.unlinkSync(filePath);
                     return { success: true, message: `Deleted file: ${path.basename(filePath)}` };
 
@@ -85,14 +96,12 @@ export class FileOperationTool implements ToolExecutor {
                     if (!payload.targetPath) {
                         throw new Error('Target path is required for copy operation');
                     }
-                    const targetPath = path.resolve(context.workspaceRoot, payload.targetPath);
-                    if (!targetPath.startsWith(context.workspaceRoot)) {
-                        throw new Error('Target path outside workspace not allowed');
-                    }
+                    const targetPath = getToolSandbox(context, this.metadata.name).resolvePath(payload.targetPath, 'write');
                     const targetDir = path.dirname(targetPath);
                     if (!fs.existsSync(targetDir)) {
                         fs.mkdirSync(targetDir, { recursive: true });
                     }
+                    checkpointManager.snapshotFile(targetPath);
                     fs.copyFileSync(filePath, targetPath);
                     return { success: true, message: `Copied ${path.basename(filePath)} to ${path.basename(targetPath)}` };
 
@@ -103,14 +112,12 @@ export class FileOperationTool implements ToolExecutor {
                     if (!payload.targetPath) {
                         throw new Error('Target path is required for move operation');
                     }
-                    const moveTargetPath = path.resolve(context.workspaceRoot, payload.targetPath);
-                    if (!moveTargetPath.startsWith(context.workspaceRoot)) {
-                        throw new Error('Target path outside workspace not allowed');
-                    }
+                    const moveTargetPath = getToolSandbox(context, this.metadata.name).resolvePath(payload.targetPath, 'write');
                     const moveTargetDir = path.dirname(moveTargetPath);
                     if (!fs.existsSync(moveTargetDir)) {
                         fs.mkdirSync(moveTargetDir, { recursive: true });
                     }
+                    checkpointManager.snapshotFiles([filePath, moveTargetPath]);
                     fs.renameSync(filePath, moveTargetPath);
                     return { success: true, message: `Moved ${path.basename(filePath)} to ${path.basename(moveTargetPath)}` };
 
@@ -118,54 +125,9 @@ export class FileOperationTool implements ToolExecutor {
                     if (!fs.existsSync(filePath)) {
                         throw new Error(`File not found: ${payload.filePath}`);
                     }
-                    const originalContent = fs.readFileSync(filePath, 'utf8');
-                    let editedContent = originalContent;
-                    let editMessage = '';
-
-                    if (payload.searchText && payload.replaceText !== undefined) {
-                        // Find and replace operation
-                        const beforeLength = editedContent.length;
-                        editedContent = editedContent.replace(new RegExp(payload.searchText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g'), payload.replaceText);
-                        const replacements = (beforeLength - editedContent.length + payload.replaceText.length * (editedContent.split(payload.replaceText).length - 1)) / payload.searchText.length;
-                        editMessage = `Replaced ${Math.floor(replacements)} occurrence(s) of "${payload.searchText}" with "${payload.replaceText}"`;
-                    } else if (payload.lineNumber && payload.content) {
-                        // Insert at specific line
-                        const lines = editedContent.split('\n');
-                        const insertIndex = Math.max(0, Math.min(payload.lineNumber - 1, lines.length));
-                        lines.splice(insertIndex, 0, payload.content);
-                        editedContent = lines.join('\n');
-                        editMessage = `Inserted content at line ${payload.lineNumber}`;
-                    } else if (payload.insertAt && payload.content) {
-                        // Insert at position
-                        switch (payload.insertAt.toLowerCase()) {
-                            case 'start':
-                                editedContent = payload.content + '\n' + editedContent;
-                                editMessage = 'Inserted content at the beginning of file';
-                                break;
-                            case 'end':
-                                editedContent = editedContent + '\n' + payload.content;
-                                editMessage = 'Appended content to the end of file';
-                                break;
-                            default:
-                                const lineNum = parseInt(payload.insertAt);
-                                if (!isNaN(lineNum)) {
-                                    const lines = editedContent.split('\n');
-                                    const insertIndex = Math.max(0, Math.min(lineNum - 1, lines.length));
-                                    lines.splice(insertIndex, 0, payload.content);
-                                    editedContent = lines.join('\n');
-                                    editMessage = `Inserted content at line ${lineNum}`;
-                                } else {
-                                    throw new Error('Invalid insertAt value. Use "start", "end", or a line number');
-                                }
-                        }
-                    } else if (payload.content) {
-                        // Replace entire content
-                        editedContent = payload.content;
-                        editMessage = 'Replaced entire file content';
-                    } else {
-                        throw new Error('Edit operation requires either searchText/replaceText, lineNumber/content, insertAt/content, or just content');
-                    }
+                    const { content: editedContent, message: editMessage } = applyFileEdit(fs.readFileSync(filePath, 'utf8'), payload);
 
+                    checkpointManager.snapshotFile(filePath);
                     fs.writeFileSync(filePath, editedContent, 'utf8');
                     
                     // Try to open file in VS Code if available
@@ -1,25 +1,58 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { GitBackend } from '../GitBackend';
+import { checkpointManager } from '../CheckpointManager';
 
-const execAsync = promisify(exec);
+// Patch text included in the tool message; the full patch stays in `data`
+const MAX_PATCH_OUTPUT = 50000;
+
+const READ_ONLY_OPERATIONS = ['status', 'log', 'diff', 'show', 'blame', 'merge_base', 'conflicts', 'rebase_status', 'hunks', 'pr_diff'];
+const LOCAL_OPERATIONS = ['add', 'unstage', 'commit', 'branch', 'checkout', 'stash', 'tag', 'stage_hunks', 'unstage_hunks'];
+// push and pull also need the network
+const OPERATIONS = [...READ_ONLY_OPERATIONS, ...LOCAL_OPERATIONS, 'push', 'pull'];
 
 export class GitTool implements ToolExecutor {
     public metadata: ToolMetadata = {
         name: 'git_operation',
-        description: 'Perform Git operations like commit, push, pull, branch management, and repository analysis',
+        description: 'Perform Git operations (status, history, diffs, blame, stash, tags, hunk staging, commits, branches) and get structured JSON results',
         category: 'Version Control',
+        capabilities: ['read', 'write', 'exec', 'network'],
+        operationCapabilities: {
+            ...Object.fromEntries(READ_ONLY_OPERATIONS.map(operation => [operation, ['read', 'exec']])),
+            ...Object.fromEntries(LOCAL_OPERATIONS.map(operation => [operation, ['read', 'write', 'exec']]))
+        },
         parameters: [
-            { name: 'operation', description: 'Git operation: status, add, commit, push, pull, branch, checkout, log, diff', required: true, type: 'string' },
-            { name: 'files', description: 'Files to operate on', required: false, type: 'array' },
-            { name: 'message', description: 'Commit message', required: false, type: 'string' },
-            { name: 'branchName', description: 'Branch name for operations', required: false, type: 'string' }
+            { name: 'operation', description: `Git operation: ${OPERATIONS.join(', ')}`, required: true, type: 'string' },
+            { name: 'files', description: 'Files to operate on (add, unstage, commit, log, diff, stash push)', required: false, type: 'array' },
+            { name: 'message', description: 'Commit, stash or annotated tag message', required: false, type: 'string' },
+            { name: 'branchName', description: 'Branch name for branch, checkout, push and pull', required: false, type: 'string' },
+            { name: 'ref', description: 'Commit, branch or tag (show, log, blame, tag); for show with "path", the revision to read the file at', required: false, type: 'string' },
+            { name: 'from', description: 'Diff base ref (diff, merge_base)', required: false, type: 'string' },
+            { name: 'to', description: 'Diff target ref (diff, merge_base); omit to compare with the working tree', required: false, type: 'string' },
+            { name: 'base', description: 'Target branch of a pull request (pr_diff), e.g. main', required: false, type: 'string' },
+            { name: 'head', description: 'Source branch of a pull request (pr_diff), default HEAD', required: false, type: 'string' },
+            { name: 'path', description: 'Single file for blame, hunks, stage_hunks, unstage_hunks, or show at a ref', required: false, type: 'string' },
+            { name: 'startLine', description: 'First line for blame', required: false, type: 'number' },
+            { name: 'endLine', description: 'Last line for blame', required: false, type: 'number' },
+            { name: 'hunks', description: 'Hunk numbers (from the hunks operation) to stage or unstage', required: false, type: 'array', items: { type: 'number' } },
+            { name: 'staged', description: 'Use staged changes (diff, hunks)', required: false, type: 'boolean' },
+            { name: 'action', description: 'For stash: list, push, pop, apply, drop, show. For tag: list, create, delete', required: false, type: 'string' },
+            { name: 'name', description: 'Tag name, or stash reference such as stash@{1}', required: false, type: 'string' },
+            { name: 'remote', description: 'Remote for push and pull, e.g. origin', required: false, type: 'string' },
+            { name: 'setUpstream', description: 'Set the pushed branch as upstream (push)', required: false, type: 'boolean' },
+            { name: 'rebase', description: 'Rebase instead of merge (pull)', required: false, type: 'boolean' },
+            { name: 'author', description: 'Only commits by this author (log)', required: false, type: 'string' },
+            { name: 'maxCount', description: 'Number of commits for log (default 10)', required: false, type: 'number' },
+            { name: 'includeUntracked', description: 'Include untracked files in stash push', required: false, type: 'boolean' }
         ],
         examples: [
             'Check status: { "operation": "status" }',
             'Commit changes: { "operation": "commit", "message": "feat: add new feature", "files": ["src/app.ts"] }',
-            'Create branch: { "operation": "branch", "branchName": "feature/new-ui" }'
+            'Create branch: { "operation": "branch", "branchName": "feature/new-ui" }',
+            'Changes a pull request into main would contain: { "operation": "pr_diff", "base": "main" }',
+            'Who last changed lines 10-20: { "operation": "blame", "path": "src/app.ts", "startLine": 10, "endLine": 20 }',
+            'Stage only the second change in a file: { "operation": "hunks", "path": "src/app.ts" } then { "operation": "stage_hunks", "path": "src/app.ts", "hunks": [2] }',
+            'Stash work in progress: { "operation": "stash", "action": "push", "message": "wip", "includeUntracked": true }'
         ]
     };
 
@@ -30,79 +63,197 @@ export class GitTool implements ToolExecutor {
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Executing git ${payload.operation}`);
-            
-            let command = 'git';
-            
-            switch (payload.operation) {
-                case 'status':
-                    command += ' status --porcelain';
-                    break;
-                    
-                case 'add':
-                    if (payload.files && payload.files.length > 0) {
-                        command += ` add ${payload.files.join(' ')}`;
-                    } else {
-                        command += ' add .';
-                    }
-                    break;
-                    
-                case 'commit':
-                    if (payload.files && payload.files.length > 0) {
-                        command += ` add ${payload.files.join(' ')} && git commit -m "${payload.message || 'Auto commit'}"`;
-                    } else {
-                        command += ` commit -m "${payload.message || 'Auto commit'}"`;
-                    }
-                    break;
-                    
-                case 'push':
-                    command += ' push';
-                    break;
-                    
-                case 'pull':
-                    command += ' pull';
-                    break;
-                    
-                case 'branch':
-                    if (payload.branchName) {
-                        command += ` branch ${payload.branchName}`;
-                    } else {
-                        command += ' branch';
-                    }
-                    break;
-                    
-                case 'checkout':
-                    if (payload.branchName) {
-                        command += ` checkout ${payload.branchName}`;
-                    } else {
-                        throw new Error('Branch name required for checkout');
-                    }
-                    break;
-                    
-                case 'log':
-                    command += ' log --oneline -10';
-                    break;
-                    
-                case 'diff':
-                    command += ' diff';
-                    break;
-                    
-                default:
-                    throw new Error(`Unknown git operation: ${payload.operation}`);
-            }
 
-            const { stdout, stderr } = await execAsync(command, { cwd: context.workspaceRoot });
-            
-            let result = `Git ${payload.operation} completed successfully\n`;
-            if (stdout) result += `\nOutput:\n${stdout}`;
-            if (stderr) result += `\nMessages:\n${stderr}`;
+            const git = new GitBackend(context.workspaceRoot);
+            const data = await this.runOperation(git, payload);
 
-            return { success: true, message: result };
+            return { success: true, message: this.formatResult(payload.operation, data), data };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             context.outputChannel.appendLine(`Git operation failed: ${errorMessage}`);
             return { success: false, message: errorMessage };
         }
     }
+
+    private async runOperation(git: GitBackend, payload: any): Promise<any> {
+        const files: string[] = this.stringList(payload.files);
+
+        switch (payload.operation) {
+            case 'status':
+                return git.status();
+
+            case 'add':
+                await git.add(files);
+                return { staged: files.length > 0 ? files : 'all changes', status: await git.status() };
+
+            case 'unstage':
+                await git.unstage(files);
+                return { unstaged: files.length > 0 ? files : 'all changes', status: await git.status() };
+
+            case 'commit':
+                return { commit: await git.commit(payload.message || 'Auto commit', files) };
+
+            case 'push':
+                return { output: await git.push({ remote: payload.remote, branch: payload.branchName, setUpstream: !!payload.setUpstream }) };
+
+            case 'pull': {
+                // When the incoming files can't be listed, the pull itself reports why
+                const incoming = await git.incomingPaths({ remote: payload.remote, branch: payload.branchName }).catch(() => []);
+                checkpointManager.snapshotFiles(incoming, 'Before git pull');
+                return { output: await git.pull({ remote: payload.remote, branch: payload.branchName, rebase: !!payload.rebase }) };
+            }
+
+            case 'branch':
+                if (payload.branchName) {
+                    await git.createBranch(payload.branchName, payload.ref);
+                }
+                return { branches: await git.branches() };
+
+            case 'checkout':
+                if (!payload.branchName && !payload.ref) {
+                    throw new Error('Branch name required for checkout');
+                }
+                // A branch git creates from a remote one on checkout has no ref to diff against yet
+                checkpointManager.snapshotFiles(await git.changedPaths('HEAD', payload.branchName || payload.ref).catch(() => []), 'Before git checkout');
+                await git.checkout(payload.branchName || payload.ref);
+                return { status: await git.status() };
+
+            case 'log':
+                return { commits: await git.log({ ref: payload.ref, maxCount: payload.maxCount, paths: files, author: payload.author }) };
+
+            case 'diff':
+                return git.diff({ from: payload.from, to: payload.to, staged: !!payload.staged, paths: files });
+
+            case 'show':
+                if (payload.path) {
+                    return { ref: payload.ref || 'HEAD', path: payload.path, content: await git.fileAt(payload.ref || 'HEAD', payload.path) };
+                }
+                return git.show(payload.ref || 'HEAD');
+
+            case 'blame':
+                this.requirePath(payload);
+                return { path: payload.path, lines: await git.blame(payload.path, { startLine: payload.startLine, endLine: payload.endLine, ref: payload.ref }) };
+
+            case 'stash':
+                return this.runStash(git, payload, files);
+
+            case 'tag':
+                return this.runTag(git, payload);
+
+            case 'merge_base':
+                return { mergeBase: await git.mergeBase(payload.from || payload.base, payload.to || payload.head || 'HEAD') };
+
+            case 'conflicts':
+            case 'rebase_status':
+                return git.repositoryState();
+
+            case 'hunks':
+                this.requirePath(payload);
+                return { path: payload.path, staged: !!payload.staged, hunks: await git.hunks(payload.path, !!payload.staged) };
+
+            case 'stage_hunks':
+                this.requirePath(payload);
+                return { path: payload.path, staged: await git.stageHunks(payload.path, this.hunkList(payload.hunks)) };
+
+            case 'unstage_hunks':
+                this.requirePath(payload);
+                return { path: payload.path, unstaged: await git.unstageHunks(payload.path, this.hunkList(payload.hunks)) };
+
+            case 'pr_diff':
+                if (!payload.base) {
+                    throw new Error('pr_diff needs the "base" branch the pull request targets');
+                }
+                return git.pullRequestDiff(payload.base, payload.head || 'HEAD');
+
+            default:
+                throw new Error(`Unknown git operation: ${payload.operation}. Supported: ${OPERATIONS.join(', ')}`);
+        }
+    }
+
+    private async runStash(git: GitBackend, payload: any, files: string[]): Promise<any> {
+        const stash = payload.name ?? 0;
+
+        switch (payload.action || 'list') {
+            case 'list':
+                return { stashes: await git.stashList() };
+            case 'push': {
+                const entry = await git.stashPush({ message: payload.message, includeUntracked: !!payload.includeUntracked, paths: files });
+                return entry ? { stashed: entry } : { stashed: null, note: 'No local changes to stash' };
+            }
+            case 'pop':
+            case 'apply':
+                checkpointManager.snapshotFiles(await git.stashPaths(stash), `Before git stash ${payload.action}`);
+                await git.stashApply(stash, { pop: payload.action === 'pop' });
+                return { [payload.action === 'pop' ? 'popped' : 'applied']: stash, status: await git.status() };
+            case 'drop':
+                await git.stashDrop(stash);
+                return { dropped: stash, stashes: await git.stashList() };
+            case 'show':
+                return git.stashShow(stash);
+            default:
+                throw new Error(`Unknown stash action: ${payload.action}. Supported: list, push, pop, apply, drop, show`);
+        }
+    }
+
+    private async runTag(git: GitBackend, payload: any): Promise<any> {
+        switch (payload.action || 'list') {
+            case 'list':
+                return { tags: await git.tags() };
+            case 'create':
+                if (!payload.name) {
+                    throw new Error('Tag name required');
+                }
+                await git.createTag(payload.name, { ref: payload.ref, message: payload.message });
+                return { created: payload.name, tags: await git.tags() };
+            case 'delete':
+                if (!payload.name) {
+                    throw new Error('Tag name required');
+                }
+                await git.deleteTag(payload.name);
+                return { deleted: payload.name };
+            default:
+                throw new Error(`Unknown tag action: ${payload.action}. Supported: list, create, delete`);
+        }
+    }
+
+    private requirePath(payload: any): void {
+        if (typeof payload.path !== 'string' || !payload.path) {
+            throw new Error(`${payload.operation} needs a file "path"`);
+        }
+    }
+
+    private stringList(value: unknown): string[] {
+        if (value === undefined || value === null) {
+            return [];
+        }
+        if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+            throw new Error('"files" must be an array of paths');
+        }
+        return value;
+    }
+
+    private hunkList(value: unknown): number[] {
+        const hunks = Array.isArray(value) ? value.map(Number) : [];
+        if (hunks.length === 0 || hunks.some(hunk => !Number.isInteger(hunk))) {
+            throw new Error('"hunks" must list hunk numbers from the hunks operation, e.g. [1, 3]');
+        }
+        return hunks;
+    }
+
+    /**
+     * JSON for the model to read, with any patch appended as plain diff text
+     * rather than an escaped string
+     */
+    private formatResult(operation: string, data: any): string {
+        const patch: string | undefined = typeof data?.patch === 'string' ? data.patch : data?.diff?.patch;
+        const summary = JSON.parse(JSON.stringify(data, (key, value) => key === 'patch' ? undefined : value));
+
+        let result = `Git ${operation} completed successfully\n\n${JSON.stringify(summary, null, 2)}`;
+        if (patch) {
+            result += `\n\nPatch:\n${patch.length > MAX_PATCH_OUTPUT ? `${patch.slice(0, MAX_PATCH_OUTPUT)}\n...(truncated)` : patch}`;
+        }
+        return result;
+    }
 }
 
 export default new GitTool();
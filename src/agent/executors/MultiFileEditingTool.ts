@@ -1,15 +1,13 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { FileSnapshot, checkpointManager } from '../CheckpointManager';
+import { FileEditSpec, applyFileEdit } from '../FileEdits';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
-interface FileEdit {
+interface FileEdit extends FileEditSpec {
     filePath: string;
     operation: 'read' | 'write' | 'create' | 'edit' | 'delete';
-    content?: string;
-    searchText?: string;
-    replaceText?: string;
-    lineNumber?: number;
-    insertAt?: string;
     backup?: boolean;
 }
 
@@ -25,9 +23,34 @@ export class MultiFileEditingTool implements ToolExecutor {
         name: 'multi_file_editing',
         description: 'Edit multiple files simultaneously with AI coordination, atomic operations, and rollback support',
         category: 'File Operations',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'description', description: 'Description of the multi-file operation', required: true, type: 'string' },
-            { name: 'files', description: 'Array of file operations to perform', required: true, type: 'array' },
+            {
+                name: 'files',
+                description: 'Array of file operations to perform',
+                required: true,
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        filePath: { type: 'string' },
+                        operation: { type: 'string', enum: ['read', 'write', 'create', 'edit', 'delete'] },
+                        content: { type: 'string' },
+                        searchText: { type: 'string', description: 'Exact text to replace; must match once unless expectedOccurrences or replaceAll is set' },
+                        replaceText: { type: 'string' },
+                        expectedOccurrences: { type: 'number', description: 'Number of matches searchText must have; all are replaced' },
+                        replaceAll: { type: 'boolean', description: 'Replace every match of searchText' },
+                        startLine: { type: 'number', description: 'First line (1-based) searchText is looked for in' },
+                        endLine: { type: 'number', description: 'Last line searchText is looked for in' },
+                        patch: { type: 'string', description: 'Unified diff hunks to apply to this file' },
+                        fuzz: { type: 'number', description: 'Context lines a patch hunk may drop to apply (default 2)' },
+                        lineNumber: { type: 'number' },
+                        insertAt: { type: 'string' }
+                    },
+                    required: ['filePath', 'operation']
+                }
+            },
             { name: 'atomic', description: 'Whether all operations must succeed or all fail (default: true)', required: false, type: 'boolean' },
             { name: 'dryRun', description: 'Validate operations without executing (default: false)', required: false, type: 'boolean' }
         ],
@@ -38,12 +61,13 @@ export class MultiFileEditingTool implements ToolExecutor {
         ]
     };
 
-    private backupFiles: Map<string, string> = new Map();
+    private backupFiles: FileSnapshot[] = [];
 
     async execute(payload: MultiFileOperation, context: {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Starting multi-file operation: ${payload.description}`);
@@ -69,10 +93,8 @@ export class MultiFileEditingTool implements ToolExecutor {
                 };
             }
 
-            // Create backups if atomic mode is enabled
-            if (atomic) {
-                await this.createBackups(payload.files, context);
-            }
+            // Checkpoint every file about to change; atomic mode also rolls back from these
+            await this.createBackups(payload.files, context);
 
             const results: Array<{ filePath: string; success: boolean; message: string }> = [];
             let failedOperation = false;
@@ -166,15 +188,16 @@ export class MultiFileEditingTool implements ToolExecutor {
         }
     }
 
-    private async validateOperations(files: FileEdit[], context: { workspaceRoot: string }): Promise<{ valid: boolean; errors: string[] }> {
+    private async validateOperations(files: FileEdit[], context: { workspaceRoot: string; sandbox?: ToolSandbox }): Promise<{ valid: boolean; errors: string[] }> {
         const errors: string[] = [];
+        const sandbox = getToolSandbox(context, this.metadata.name);
 
         for (const fileOp of files) {
-            const filePath = path.resolve(context.workspaceRoot, fileOp.filePath);
-            
-            // Check if file is within workspace
-            if (!filePath.startsWith(context.workspaceRoot)) {
-                errors.push(`File outside workspace: ${fileOp.filePath}`);
+            let filePath: string;
+            try {
+                filePath = sandbox.resolvePath(fileOp.filePath, fileOp.operation === 'read' ? 'read' : 'write');
+            } catch (error) {
+                errors.push(error instanceof Error ? error.message : String(error));
                 continue;
             }
 
@@ -202,11 +225,12 @@ export class MultiFileEditingTool implements ToolExecutor {
             // Validate edit operation parameters
             if (fileOp.operation === 'edit') {
                 const hasSearchReplace = fileOp.searchText !== undefined || fileOp.replaceText !== undefined;
+                const hasPatch = typeof fileOp.patch === 'string' && fileOp.patch.trim().length > 0;
                 const hasLineContent = fileOp.lineNumber !== undefined && fileOp.content !== undefined;
                 const hasInsertAt = fileOp.insertAt !== undefined && fileOp.content !== undefined;
                 const hasContent = fileOp.content !== undefined;
 
-                if (!hasSearchReplace && !hasLineContent && !hasInsertAt && !hasContent) {
+                if (!hasSearchReplace && !hasPatch && !hasLineContent && !hasInsertAt && !hasContent) {
                     errors.push(`Edit operation requires parameters for ${fileOp.filePath}`);
                 }
             }
@@ -216,29 +240,24 @@ export class MultiFileEditingTool implements ToolExecutor {
     }
 
     private async createBackups(files: FileEdit[], context: { workspaceRoot: string }): Promise<void> {
-        for (const fileOp of files) {
-            if (fileOp.operation === 'create') continue; // No backup needed for new files
-            
-            const filePath = path.resolve(context.workspaceRoot, fileOp.filePath);
-            if (fs.existsSync(filePath)) {
-                const content = fs.readFileSync(filePath, 'utf8');
-                this.backupFiles.set(filePath, content);
-            }
-        }
+        const changedFiles = files
+            .filter(fileOp => fileOp.operation !== 'read')
+            .map(fileOp => path.resolve(context.workspaceRoot, fileOp.filePath));
+        this.backupFiles = checkpointManager.snapshotFiles(changedFiles);
     }
 
     private async rollback(context: { workspaceRoot: string; outputChannel: any }): Promise<void> {
-        for (const [filePath, content] of this.backupFiles) {
+        for (const snapshot of this.backupFiles) {
             try {
-                fs.writeFileSync(filePath, content, 'utf8');
+                checkpointManager.restoreSnapshots([snapshot]);
             } catch (error) {
-                context.outputChannel.appendLine(`Failed to rollback ${filePath}: ${error}`);
+                context.outputChannel.appendLine(`Failed to rollback ${snapshot.filePath}: ${error}`);
             }
         }
     }
 
     private clearBackups(): void {
-        this.backupFiles.clear();
+        this.backupFiles = [];
     }
 
     private async executeFileOperation(fileOp: FileEdit, context: { workspaceRoot: string }): Promise<{ success: boolean; message: string }> {
@@ -263,53 +282,7 @@ export class MultiFileEditingTool implements ToolExecutor {
                 return { success: true, message: `Deleted ${path.basename(filePath)}` };
 
             case 'edit':
-                const originalContent = fs.readFileSync(filePath, 'utf8');
-                let editedContent = originalContent;
-                let editMessage = '';
-
-                if (fileOp.searchText && fileOp.replaceText !== undefined) {
-                    // Find and replace operation
-                    const regex = new RegExp(fileOp.searchText.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g');
-                    const matches = originalContent.match(regex);
-                    editedContent = editedContent.replace(regex, fileOp.replaceText);
-                    editMessage = `Replaced ${matches ? matches.length : 0} occurrence(s)`;
-                } else if (fileOp.lineNumber && fileOp.content) {
-                    // Insert at specific line
-                    const lines = editedContent.split('\n');
-                    const insertIndex = Math.max(0, Math.min(fileOp.lineNumber - 1, lines.length));
-                    lines.splice(insertIndex, 0, fileOp.content);
-                    editedContent = lines.join('\n');
-                    editMessage = `Inserted at line ${fileOp.lineNumber}`;
-                } else if (fileOp.insertAt && fileOp.content) {
-                    // Insert at position
-                    switch (fileOp.insertAt.toLowerCase()) {
-                        case 'start':
-                            editedContent = fileOp.content + '\n' + editedContent;
-                            editMessage = 'Inserted at start';
-                            break;
-                        case 'end':
-                            editedContent = editedContent + '\n' + fileOp.content;
-                            editMessage = 'Appended to end';
-                            break;
-                        default:
-                            const lineNum = parseInt(fileOp.insertAt);
-                            if (!isNaN(lineNum)) {
-                                const lines = editedContent.split('\n');
-                                const insertIndex = Math.max(0, Math.min(lineNum - 1, lines.length));
-                                lines.splice(insertIndex, 0, fileOp.content);
-                                editedContent = lines.join('\n');
-                                editMessage = `Inserted at line ${lineNum}`;
-                            } else {
-                                throw new Error('Invalid insertAt value');
-                            }
-                    }
-                } else if (fileOp.content) {
-                    // Replace entire content
-                    editedContent = fileOp.content;
-                    editMessage = 'Replaced entire content';
-                } else {
-                    throw new Error('Edit operation requires valid parameters');
-                }
+                const { content: editedContent, message: editMessage } = applyFileEdit(fs.readFileSync(filePath, 'utf8'), fileOp);
 
                 fs.writeFileSync(filePath, editedContent, 'utf8');
                 return { success: true, message: `Edited ${path.basename(filePath)}: ${editMessage}` };
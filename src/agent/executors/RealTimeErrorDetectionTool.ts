@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface ErrorDetection {
     file: string;
@@ -29,6 +30,7 @@ export class RealTimeErrorDetectionTool implements ToolExecutor {
         name: 'real_time_error_detection',
         description: 'Live code analysis with instant error detection and fix suggestions',
         category: 'Code Quality',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'action', description: 'Action: start, stop, analyze, status', required: true, type: 'string' },
             { name: 'target', description: 'File or directory to monitor/analyze', required: false, type: 'string' },
@@ -60,6 +62,7 @@ export class RealTimeErrorDetectionTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             const action = payload.action?.toLowerCase();
@@ -93,11 +96,7 @@ export class RealTimeErrorDetectionTool implements ToolExecutor {
         }
 
         const target = payload.target || 'src';
-        const targetPath = path.resolve(context.workspaceRoot, target);
-        
-        if (!targetPath.startsWith(context.workspaceRoot)) {
-            throw new Error('Target path outside workspace not allowed');
-        }
+        const targetPath = getToolSandbox(context, this.metadata.name).resolvePath(target, 'read');
         
         if (!fs.existsSync(targetPath)) {
             throw new Error(`Target not found: ${target}`);
@@ -166,11 +165,7 @@ export class RealTimeErrorDetectionTool implements ToolExecutor {
             throw new Error('Target parameter is required for analyze action');
         }
 
-        const targetPath = path.resolve(context.workspaceRoot, target);
-        
-        if (!targetPath.startsWith(context.workspaceRoot)) {
-            throw new Error('Target path outside workspace not allowed');
-        }
+        const targetPath = getToolSandbox(context, this.metadata.name).resolvePath(target, 'read');
         
         if (!fs.existsSync(targetPath)) {
             throw new Error(`Target not found: ${target}`);
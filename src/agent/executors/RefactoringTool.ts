@@ -1,12 +1,15 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { checkpointManager } from '../CheckpointManager';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 export class RefactoringTool implements ToolExecutor {
     public metadata: ToolMetadata = {
         name: 'refactoring',
         description: 'Perform code refactoring operations like extract function, rename, move files, and optimize imports',
         category: 'Code Refactoring',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'operation', description: 'Refactoring operation: extract_function, rename, move_file, optimize_imports, extract_interface, split_file', required: true, type: 'string' },
             { name: 'filePath', description: 'Target file path', required: true, type: 'string' },
@@ -25,15 +28,12 @@ export class RefactoringTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Performing ${payload.operation} refactoring on ${payload.filePath}`);
             
-            const filePath = path.resolve(context.workspaceRoot, payload.filePath);
-            
-            if (!filePath.startsWith(context.workspaceRoot)) {
-                throw new Error('File operation outside workspace not allowed');
-            }
+            const filePath = getToolSandbox(context, this.metadata.name).resolvePath(payload.filePath, 'write');
             
             if (!fs.existsSync(filePath)) {
                 throw new Error(`File not found: ${payload.filePath}`);
@@ -120,6 +120,7 @@ export class RefactoringTool implements ToolExecutor {
             newLines.splice(insertionPoint, 0, ...functionCode);
             
             const newContent = newLines.join('\n');
+            checkpointManager.snapshotFile(filePath);
             fs.writeFileSync(filePath, newContent, 'utf8');
             
             return {
@@ -145,6 +146,7 @@ export class RefactoringTool implements ToolExecutor {
         const matches = (content.match(regex) || []).length;
         
         if (matches > 0) {
+            checkpointManager.snapshotFile(filePath);
             fs.writeFileSync(filePath, newContent, 'utf8');
             return {
                 success: true,
@@ -163,17 +165,14 @@ export class RefactoringTool implements ToolExecutor {
             throw new Error('Target path is required for move_file operation');
         }
         
-        const fullTargetPath = path.resolve(context.workspaceRoot, targetPath);
-        
-        if (!fullTargetPath.startsWith(context.workspaceRoot)) {
-            throw new Error('Target path outside workspace not allowed');
-        }
+        const fullTargetPath = getToolSandbox(context, this.metadata.name).resolvePath(targetPath, 'write');
         
         const targetDir = path.dirname(fullTargetPath);
         if (!fs.existsSync(targetDir)) {
             fs.mkdirSync(targetDir, { recursive: true });
         }
         
+        checkpointManager.snapshotFiles([filePath, fullTargetPath]);
         fs.renameSync(filePath, fullTargetPath);
         
         // Update import statements in other files
@@ -228,6 +227,7 @@ export class RefactoringTool implements ToolExecutor {
             ...otherLines
         ].join('\n');
         
+        checkpointManager.snapshotFile(filePath);
         fs.writeFileSync(filePath, newContent, 'utf8');
         
         return {
@@ -275,6 +275,7 @@ export class RefactoringTool implements ToolExecutor {
         const classIndex = content.indexOf(match[0]);
         const newContent = content.substring(0, classIndex) + interfaceCode + '\n' + content.substring(classIndex);
         
+        checkpointManager.snapshotFile(filePath);
         fs.writeFileSync(filePath, newContent, 'utf8');
         
         return {
@@ -314,6 +315,7 @@ export class RefactoringTool implements ToolExecutor {
                 ''
             ].join('\n');
             
+            checkpointManager.snapshotFile(newFilePath);
             fs.writeFileSync(newFilePath, newContent, 'utf8');
             filesCreated++;
         }
@@ -331,6 +333,7 @@ export class RefactoringTool implements ToolExecutor {
                     ''
                 ].join('\n');
                 
+                checkpointManager.snapshotFile(newFilePath);
                 fs.writeFileSync(newFilePath, newContent, 'utf8');
                 filesCreated++;
             }
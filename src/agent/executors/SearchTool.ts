@@ -1,14 +1,16 @@
 import * as vscode from 'vscode';
-import { glob } from 'glob';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { fileEnumerator } from '../../context/FileEnumerator';
+import { matchesGlob } from '../../context/WorkspaceIndex';
 
 export class SearchTool implements ToolExecutor {
     public metadata: ToolMetadata = {
         name: 'search_analysis',
         description: 'Perform semantic and keyword searches across the codebase with advanced analysis',
         category: 'Code Analysis',
+        capabilities: ['read'],
         parameters: [
             { name: 'query', description: 'Search query or pattern', required: true, type: 'string' },
             { name: 'type', description: 'Search type: keyword, pattern, file', required: true, type: 'string' },
@@ -35,13 +37,13 @@ export class SearchTool implements ToolExecutor {
 
             switch (payload.type) {
                 case 'file':
-                    return await this.performFileSearch(query, context.workspaceRoot, maxResults);
+                    return await this.performFileSearch(query, maxResults);
                 
                 case 'keyword':
-                    return await this.performKeywordSearch(query, context.workspaceRoot, maxResults, payload.filePattern);
+                    return await this.performKeywordSearch(query, maxResults, payload.filePattern);
                 
                 case 'pattern':
-                    return await this.performPatternSearch(query, context.workspaceRoot, maxResults, payload.filePattern);
+                    return await this.performPatternSearch(query, maxResults, payload.filePattern);
                 
                 default:
                     throw new Error(`Unknown search type: ${payload.type}`);
@@ -53,28 +55,27 @@ export class SearchTool implements ToolExecutor {
         }
     }
 
-    private async performFileSearch(query: string, workspaceRoot: string, maxResults: number): Promise<{ success: boolean; message: string }> {
+    private async performFileSearch(query: string, maxResults: number): Promise<{ success: boolean; message: string }> {
         const pattern = `**/*${query}*`;
-        const files = await glob(pattern, { cwd: workspaceRoot, ignore: ['**/node_modules/**', '**/dist/**'] });
+        const results = await this.findFiles(pattern, maxResults);
         
-        const results = files.slice(0, maxResults);
         let message = `Found ${results.length} files matching "${query}":\n`;
         results.forEach(file => {
-            message += `- ${file}\n`;
+            message += `- ${fileEnumerator.toDisplayPath(file)}\n`;
         });
 
         return { success: true, message };
     }
 
-    private async performKeywordSearch(query: string, workspaceRoot: string, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
+    private async performKeywordSearch(query: string, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
         const searchPattern = filePattern || '**/*.{ts,js,json,md}';
-        const files = await glob(searchPattern, { cwd: workspaceRoot, ignore: ['**/node_modules/**', '**/dist/**'] });
+        const files = await this.findFiles(searchPattern, 50); // Limit files to search
         
         const results: { file: string; line: number; content: string }[] = [];
         
-        for (const file of files.slice(0, 50)) { // Limit files to search
+        for (const filePath of files) {
+            const file = fileEnumerator.toDisplayPath(filePath);
             try {
-                const filePath = path.join(workspaceRoot, file);
                 const content = fs.readFileSync(filePath, 'utf8');
                 const lines = content.split('\n');
                 
@@ -100,24 +101,24 @@ export class SearchTool implements ToolExecutor {
         return { success: true, message };
     }
 
-    private async performPatternSearch(pattern: string, workspaceRoot: string, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
+    private async performPatternSearch(pattern: string, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
         try {
             const regex = new RegExp(pattern, 'gi');
-            return await this.searchWithRegex(regex, workspaceRoot, maxResults, filePattern);
+            return await this.searchWithRegex(regex, maxResults, filePattern);
         } catch (error) {
             throw new Error(`Invalid regex pattern: ${pattern}`);
         }
     }
 
-    private async searchWithRegex(regex: RegExp, workspaceRoot: string, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
+    private async searchWithRegex(regex: RegExp, maxResults: number, filePattern?: string): Promise<{ success: boolean; message: string }> {
         const searchPattern = filePattern || '**/*.{ts,js,json,md}';
-        const files = await glob(searchPattern, { cwd: workspaceRoot, ignore: ['**/node_modules/**', '**/dist/**'] });
+        const files = await this.findFiles(searchPattern, 50);
         
         const results: { file: string; line: number; content: string }[] = [];
         
-        for (const file of files.slice(0, 50)) {
+        for (const filePath of files) {
+            const file = fileEnumerator.toDisplayPath(filePath);
             try {
-                const filePath = path.join(workspaceRoot, file);
                 const content = fs.readFileSync(filePath, 'utf8');
                 const lines = content.split('\n');
                 
@@ -142,6 +143,20 @@ export class SearchTool implements ToolExecutor {
 
         return { success: true, message };
     }
+
+    /**
+     * Files in any workspace folder matching a glob relative to their folder,
+     * skipping ignored files
+     */
+    private async findFiles(pattern: string, maxResults: number): Promise<string[]> {
+        return fileEnumerator.listFiles({
+            filter: filePath => {
+                const root = fileEnumerator.getRoot(filePath);
+                return !!root && matchesGlob(path.relative(root.path, filePath), [pattern]);
+            },
+            maxResults
+        });
+    }
 }
 
 export default new SearchTool();
@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import { ToolSandbox, getToolSandbox } from '../ToolPermissions';
 
 interface ImportStatement {
     type: 'named' | 'default' | 'namespace' | 'side-effect';
@@ -50,6 +51,7 @@ export class SmartImportManagementTool implements ToolExecutor {
         name: 'smart_import_management',
         description: 'Auto-organize and optimize imports with dead code elimination, circular dependency detection, and bundle optimization',
         category: 'Code Organization',
+        capabilities: ['read', 'write'],
         parameters: [
             { name: 'target', description: 'File or directory to analyze and optimize imports', required: true, type: 'string' },
             { name: 'action', description: 'Action: analyze, organize, optimize, fix-unused, detect-circular (default: analyze)', required: false, type: 'string' },
@@ -71,15 +73,12 @@ export class SmartImportManagementTool implements ToolExecutor {
         workspaceRoot: string;
         outputChannel: any;
         onProgress?: (message: string) => void;
+        sandbox?: ToolSandbox;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
             context.onProgress?.(`Starting import management: ${payload.target}`);
             
-            const targetPath = path.resolve(context.workspaceRoot, payload.target);
-            
-            if (!targetPath.startsWith(context.workspaceRoot)) {
-                throw new Error('Target path outside workspace not allowed');
-            }
+            const targetPath = getToolSandbox(context, this.metadata.name).resolvePath(payload.target, 'read');
             
             if (!fs.existsSync(targetPath)) {
                 throw new Error(`Target not found: ${payload.target}`);
@@ -417,7 +416,7 @@ export class SmartImportManagementTool implements ToolExecutor {
         return suggestions;
     }
 
-    private async organizeImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any }, sortStyle: string, combineImports: boolean): Promise<OptimizationResult> {
+    private async organizeImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any; sandbox?: ToolSandbox }, sortStyle: string, combineImports: boolean): Promise<OptimizationResult> {
         const result: OptimizationResult = {
             filesProcessed: 0,
             importsOptimized: 0,
@@ -428,7 +427,7 @@ export class SmartImportManagementTool implements ToolExecutor {
 
         for (const analysis of analyses) {
             if (analysis.suggestions.organize || analysis.suggestions.sortImports) {
-                const filePath = path.resolve(context.workspaceRoot, analysis.file);
+                const filePath = getToolSandbox(context, this.metadata.name).resolvePath(analysis.file, 'read');
                 const originalContent = fs.readFileSync(filePath, 'utf8');
                 
                 const optimizedContent = this.optimizeFileImports(originalContent, analysis, {
@@ -439,7 +438,7 @@ export class SmartImportManagementTool implements ToolExecutor {
                 });
                 
                 if (optimizedContent !== originalContent) {
-                    fs.writeFileSync(filePath, optimizedContent, 'utf8');
+                    fs.writeFileSync(getToolSandbox(context, this.metadata.name).resolvePath(filePath, 'write'), optimizedContent, 'utf8');
                     result.filesProcessed++;
                     result.importsOptimized += analysis.imports.length;
                     result.changes.push({
@@ -456,7 +455,7 @@ export class SmartImportManagementTool implements ToolExecutor {
         return result;
     }
 
-    private async optimizeImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any }, options: any): Promise<OptimizationResult> {
+    private async optimizeImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any; sandbox?: ToolSandbox }, options: any): Promise<OptimizationResult> {
         const result: OptimizationResult = {
             filesProcessed: 0,
             importsOptimized: 0,
@@ -466,13 +465,13 @@ export class SmartImportManagementTool implements ToolExecutor {
         };
 
         for (const analysis of analyses) {
-            const filePath = path.resolve(context.workspaceRoot, analysis.file);
+            const filePath = getToolSandbox(context, this.metadata.name).resolvePath(analysis.file, 'read');
             const originalContent = fs.readFileSync(filePath, 'utf8');
             
             const optimizedContent = this.optimizeFileImports(originalContent, analysis, options);
             
             if (optimizedContent !== originalContent) {
-                fs.writeFileSync(filePath, optimizedContent, 'utf8');
+                fs.writeFileSync(getToolSandbox(context, this.metadata.name).resolvePath(filePath, 'write'), optimizedContent, 'utf8');
                 result.filesProcessed++;
                 result.importsOptimized += analysis.imports.length;
                 result.issuesFixed += analysis.issues.filter(i => i.autoFixable).length;
@@ -495,7 +494,7 @@ export class SmartImportManagementTool implements ToolExecutor {
         return result;
     }
 
-    private async removeUnusedImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any }): Promise<OptimizationResult> {
+    private async removeUnusedImports(analyses: ImportAnalysis[], context: { workspaceRoot: string; outputChannel: any; sandbox?: ToolSandbox }): Promise<OptimizationResult> {
         const result: OptimizationResult = {
             filesProcessed: 0,
             importsOptimized: 0,
@@ -508,13 +507,13 @@ export class SmartImportManagementTool implements ToolExecutor {
             const unusedIssues = analysis.issues.filter(issue => issue.type === 'unused');
             
             if (unusedIssues.length > 0) {
-                const filePath = path.resolve(context.workspaceRoot, analysis.file);
+                const filePath = getToolSandbox(context, this.metadata.name).resolvePath(analysis.file, 'read');
                 const originalContent = fs.readFileSync(filePath, 'utf8');
                 
                 const optimizedContent = this.removeUnusedFromContent(originalContent, unusedIssues);
                 
                 if (optimizedContent !== originalContent) {
-                    fs.writeFileSync(filePath, optimizedContent, 'utf8');
+                    fs.writeFileSync(getToolSandbox(context, this.metadata.name).resolvePath(filePath, 'write'), optimizedContent, 'utf8');
                     result.filesProcessed++;
                     result.issuesFixed += unusedIssues.length;
                     result.changes.push({
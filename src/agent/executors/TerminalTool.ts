@@ -1,70 +1,239 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import spawn = require('cross-spawn');
 import { ToolExecutor, ToolMetadata } from '../ToolRegistry';
+import {
+    checkDirectoryArguments,
+    createTerminalPolicy,
+    evaluateTerminalCommand,
+    resolveWorkingDirectory,
+    scrubEnvironment
+} from '../TerminalPolicy';
 
-const execAsync = promisify(exec);
+// Output kept for the tool result; live output is streamed in full
+const MAX_CAPTURED_OUTPUT = 100000;
+// Time between asking a cancelled process to stop and killing it
+const KILL_GRACE_PERIOD = 2000;
+
+interface CommandOutcome {
+    exitCode: number | null;
+    signal: NodeJS.Signals | null;
+    stdout: string;
+    stderr: string;
+    truncated: boolean;
+    timedOut: boolean;
+    cancelled: boolean;
+}
 
 export class TerminalTool implements ToolExecutor {
     public metadata: ToolMetadata = {
         name: 'terminal',
-        description: 'Execute terminal commands safely with configurable environment and timeout',
+        description: 'Run a command without a shell: an executable plus an argument array, checked against the terminal policy, with output streamed while it runs',
         category: 'Development Tools',
+        capabilities: ['read', 'write', 'exec'],
         parameters: [
-            { name: 'command', description: 'Command to execute', required: true, type: 'string' },
-            { name: 'args', description: 'Command arguments', required: false, type: 'array' },
+            { name: 'command', description: 'Executable to run, e.g. npm or git (no arguments, pipes or shell syntax)', required: true, type: 'string' },
+            { name: 'args', description: 'Arguments, one per array element; they are passed as-is and never interpreted by a shell', required: false, type: 'array' },
             { name: 'cwd', description: 'Working directory (relative to workspace)', required: false, type: 'string' },
             { name: 'timeout', description: 'Timeout in milliseconds', required: false, type: 'number' }
         ],
         examples: [
             'Build project: { "command": "npm", "args": ["run", "build"] }',
             'Run tests: { "command": "npm", "args": ["test"], "timeout": 30000 }',
-            'Check git status: { "command": "git", "args": ["status"] }'
+            'Check git status: { "command": "git", "args": ["status"] }',
+            'Search for a file name: { "command": "git", "args": ["ls-files", "*config*"] }'
         ]
     };
 
-    private static readonly SAFE_COMMANDS = [
-        'npm', 'yarn', 'pnpm', 'node', 'tsc', 'eslint', 'prettier',
-        'git', 'make', 'cargo', 'go', 'python', 'pip',
-        'ls', 'dir', 'cat', 'type', 'echo', 'which', 'where',
-        'jest', 'vitest', 'mocha', 'cypress', 'playwright'
-    ];
-
     async execute(payload: any, context: {
         workspaceRoot: string;
         outputChannel: vscode.OutputChannel;
         onProgress?: (message: string) => void;
+        onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+        signal?: AbortSignal;
     }): Promise<{ success: boolean; message: string; data?: any }> {
         try {
-            const command = payload.command;
-            const args = payload.args || [];
+            const command = typeof payload.command === 'string' ? payload.command.trim() : '';
+            const args = this.normalizeArgs(payload.args);
             const timeout = payload.timeout || 30000;
-            
-            context.onProgress?.(`Executing command: ${command}${args.length ? ' ' + args.join(' ') : ''}`);
-            
-            // Safety check
-            if (!TerminalTool.SAFE_COMMANDS.includes(command)) {
-                throw new Error(`Command '${command}' is not in the safe commands list`);
+
+            const policy = createTerminalPolicy(
+                vscode.workspace.getConfiguration('cuovare').get<any>('agent.terminalPolicy', {})
+            );
+            const evaluation = evaluateTerminalCommand(policy, command, args);
+            if (!evaluation.allowed) {
+                throw new Error(evaluation.reason);
             }
 
-            const fullCommand = `${command}${args.length ? ' ' + args.join(' ') : ''}`;
-            const cwd = payload.cwd ? `${context.workspaceRoot}/${payload.cwd}` : context.workspaceRoot;
+            const cwd = resolveWorkingDirectory(context.workspaceRoot, payload.cwd, policy);
+            checkDirectoryArguments(context.workspaceRoot, cwd, command, args, policy);
+            const env = scrubEnvironment(process.env, policy);
+
+            context.onProgress?.(`Executing command: ${this.formatCommandLine(command, args)}`);
 
             const startTime = Date.now();
-            const { stdout, stderr } = await execAsync(fullCommand, { cwd, timeout });
+            const outcome = await this.runCommand(command, args, { cwd, env, timeout }, context);
             const duration = Date.now() - startTime;
 
-            let result = `Command executed successfully in ${duration}ms\n`;
-            if (stdout) result += `\nOutput:\n${stdout}`;
-            if (stderr) result += `\nWarnings:\n${stderr}`;
+            const result = this.formatOutcome(outcome, duration, timeout);
+            const success = outcome.exitCode === 0 && !outcome.timedOut && !outcome.cancelled;
+            if (!success) {
+                context.outputChannel.appendLine(`Terminal command failed: ${result.split('\n')[0]}`);
+            }
 
-            return { success: true, message: result };
+            return {
+                success,
+                message: result,
+                data: { exitCode: outcome.exitCode, signal: outcome.signal, duration, truncated: outcome.truncated }
+            };
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             context.outputChannel.appendLine(`Terminal command failed: ${errorMessage}`);
             return { success: false, message: errorMessage };
         }
     }
+
+    private normalizeArgs(args: unknown): string[] {
+        if (args === undefined || args === null) {
+            return [];
+        }
+        if (!Array.isArray(args)) {
+            throw new Error('"args" must be an array of strings');
+        }
+        return args.map((arg, index) => {
+            if (typeof arg === 'string') {
+                return arg;
+            }
+            if (typeof arg === 'number' || typeof arg === 'boolean') {
+                return String(arg);
+            }
+            throw new Error(`Argument ${index + 1} must be a string`);
+        });
+    }
+
+    /**
+     * Spawn the process directly (no shell), forwarding output as it arrives.
+     * Cancellation and timeouts ask the process to stop, then kill it.
+     *
+     * cross-spawn looks the command up through PATH and PATHEXT, so on Windows
+     * `npm` finds `npm.cmd`. Batch-file shims like that can only run through
+     * cmd.exe, which Node refuses to do implicitly since CVE-2024-27980;
+     * cross-spawn runs them with `cmd.exe /d /s /c` and escapes every argument
+     * for cmd, so arguments still can't inject commands. Elsewhere it is a
+     * plain child_process.spawn.
+     */
+    private runCommand(
+        command: string,
+        args: string[],
+        options: { cwd: string; env: NodeJS.ProcessEnv; timeout: number },
+        context: {
+            onOutput?: (chunk: string, stream: 'stdout' | 'stderr') => void;
+            signal?: AbortSignal;
+        }
+    ): Promise<CommandOutcome> {
+        return new Promise((resolve, reject) => {
+            if (context.signal?.aborted) {
+                reject(new Error('Command cancelled before it started'));
+                return;
+            }
+
+            const child = spawn(command, args, {
+                cwd: options.cwd,
+                env: options.env,
+                shell: false,
+                windowsHide: true,
+                stdio: ['ignore', 'pipe', 'pipe']
+            });
+
+            const outcome: CommandOutcome = {
+                exitCode: null,
+                signal: null,
+                stdout: '',
+                stderr: '',
+                truncated: false,
+                timedOut: false,
+                cancelled: false
+            };
+            let killTimer: NodeJS.Timeout | undefined;
+
+            const stop = () => {
+                child.kill('SIGTERM');
+                killTimer = setTimeout(() => child.kill('SIGKILL'), KILL_GRACE_PERIOD);
+            };
+            const onAbort = () => {
+                outcome.cancelled = true;
+                stop();
+            };
+            const timeoutTimer = setTimeout(() => {
+                outcome.timedOut = true;
+                stop();
+            }, options.timeout);
+            context.signal?.addEventListener('abort', onAbort, { once: true });
+
+            // Decoding on the stream keeps multi-byte characters split across chunks intact
+            child.stdout?.setEncoding('utf8');
+            child.stderr?.setEncoding('utf8');
+            const capture = (stream: 'stdout' | 'stderr') => (text: string) => {
+                context.onOutput?.(text, stream);
+
+                const room = MAX_CAPTURED_OUTPUT - outcome.stdout.length - outcome.stderr.length;
+                if (text.length > room) {
+                    outcome.truncated = true;
+                }
+                outcome[stream] += text.slice(0, Math.max(0, room));
+            };
+            child.stdout?.on('data', capture('stdout'));
+            child.stderr?.on('data', capture('stderr'));
+
+            const cleanup = () => {
+                clearTimeout(timeoutTimer);
+                if (killTimer) {
+                    clearTimeout(killTimer);
+                }
+                context.signal?.removeEventListener('abort', onAbort);
+            };
+
+            child.on('error', error => {
+                cleanup();
+                const code = (error as NodeJS.ErrnoException).code;
+                reject(code === 'ENOENT' ? new Error(`Command '${command}' was not found`) : error);
+            });
+            child.on('close', (exitCode, signal) => {
+                cleanup();
+                outcome.exitCode = exitCode;
+                outcome.signal = signal;
+                resolve(outcome);
+            });
+        });
+    }
+
+    private formatOutcome(outcome: CommandOutcome, duration: number, timeout: number): string {
+        let result: string;
+        if (outcome.cancelled) {
+            result = `Command cancelled after ${duration}ms\n`;
+        } else if (outcome.timedOut) {
+            result = `Command timed out after ${timeout}ms\n`;
+        } else if (outcome.exitCode === 0) {
+            result = `Command executed successfully in ${duration}ms\n`;
+        } else {
+            const status = outcome.exitCode !== null ? `code ${outcome.exitCode}` : `signal ${outcome.signal}`;
+            result = `Command exited with ${status} after ${duration}ms\n`;
+        }
+
+        if (outcome.stdout) {
+            result += `\nOutput:\n${outcome.stdout}`;
+        }
+        if (outcome.stderr) {
+            result += `\n${outcome.exitCode === 0 ? 'Warnings' : 'Errors'}:\n${outcome.stderr}`;
+        }
+        if (outcome.truncated) {
+            result += `\n[Output truncated to ${MAX_CAPTURED_OUTPUT} characters]`;
+        }
+        return result;
+    }
+
+    private formatCommandLine(command: string, args: string[]): string {
+        return [command, ...args.map(arg => /^[\w@%+=:,./-]+$/.test(arg) ? arg : JSON.stringify(arg))].join(' ');
+    }
 }
 
 export default new TerminalTool();
@@ -1,4 +1,4 @@
-import { ToolExecutor, ToolResult } from '../ToolRegistry';
+import { ToolExecutor, ToolMetadata, ToolResult } from '../ToolRegistry';
 import * as https from 'https';
 import * as http from 'http';
 import { URL } from 'url';
@@ -7,10 +7,11 @@ export class WebScrapingTool implements ToolExecutor {
     readonly name = 'webscraping';
     readonly description = 'Scrape web content from URLs mentioned in user prompts for context enhancement';
     
-    readonly metadata = {
+    readonly metadata: ToolMetadata = {
         name: 'webscraping',
         description: 'Scrape web content from URLs mentioned in user prompts for context enhancement',
         category: 'Web Scraping',
+        capabilities: ['network'],
         parameters: [
             {
                 name: 'action',
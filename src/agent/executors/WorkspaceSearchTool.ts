@@ -1,7 +1,8 @@
-import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
 import { ToolExecutor, ToolResult, ToolMetadata } from '../ToolRegistry';
+import { checkpointManager } from '../CheckpointManager';
+import { fileEnumerator } from '../../context/FileEnumerator';
 
 interface SearchResult {
     file: string;
@@ -43,6 +44,13 @@ export class WorkspaceSearchTool implements ToolExecutor {
         name: 'WorkspaceSearchTool',
         description: 'AI-powered workspace-wide search and replace with intelligent pattern matching',
         category: 'Search & Navigation',
+        capabilities: ['read', 'write'],
+        operationCapabilities: {
+            search: ['read'],
+            'find-references': ['read'],
+            'find-definitions': ['read'],
+            'search-symbols': ['read']
+        },
         parameters: [
             { name: 'action', description: 'search | replace | find-references | find-definitions | search-symbols', required: true, type: 'string' },
             { name: 'pattern', description: 'Search pattern (string or regex)', required: true, type: 'string' },
@@ -60,18 +68,6 @@ export class WorkspaceSearchTool implements ToolExecutor {
         ]
     };
 
-    private defaultExcludeDirs = [
-        'node_modules', '.git', '.vscode', 'dist', 'build', 'coverage',
-        '.next', '.nuxt', 'out', 'public', 'static', '__pycache__',
-        '.pytest_cache', '.mypy_cache', 'target', 'bin', 'obj'
-    ];
-
-    private defaultExcludeFiles = [
-        '*.log', '*.tmp', '*.temp', '*.cache', '*.lock', '*.pid',
-        '*.min.js', '*.min.css', '*.map', '*.d.ts', 'package-lock.json',
-        'yarn.lock', 'pnpm-lock.yaml', '.DS_Store', 'Thumbs.db'
-    ];
-
     async execute(params: any, context: { workspaceRoot: string; outputChannel: any; onProgress?: (message: string) => void }): Promise<ToolResult> {
         const { 
             action, pattern, replacement, files, excludeFiles, dirs, excludeDirs,
@@ -80,23 +76,19 @@ export class WorkspaceSearchTool implements ToolExecutor {
         } = params;
 
         try {
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
+            if (fileEnumerator.getRoots().length === 0) {
                 return { success: false, message: 'No workspace folder found' };
             }
 
+            // Dependency and build folders and ignored files are left out by the file enumerator
             const searchOptions: SearchOptions = {
                 caseSensitive: caseSensitive || false,
                 wholeWord: wholeWord || false,
                 regex: regex || false,
                 includeFiles: files ? files.split(',').map((f: string) => f.trim()) : ['*'],
-                excludeFiles: excludeFiles ? 
-                    excludeFiles.split(',').map((f: string) => f.trim()) : 
-                    this.defaultExcludeFiles,
+                excludeFiles: excludeFiles ? excludeFiles.split(',').map((f: string) => f.trim()) : [],
                 includeDirs: dirs ? dirs.split(',').map((d: string) => d.trim()) : ['**'],
-                excludeDirs: excludeDirs ? 
-                    excludeDirs.split(',').map((d: string) => d.trim()) : 
-                    this.defaultExcludeDirs,
+                excludeDirs: excludeDirs ? excludeDirs.split(',').map((d: string) => d.trim()) : [],
                 maxResults: maxResults || 1000,
                 contextLines: contextLines || 2
             };
@@ -134,13 +126,8 @@ export class WorkspaceSearchTool implements ToolExecutor {
     }
 
     private async performSearch(pattern: string, options: SearchOptions): Promise<ToolResult> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { success: false, message: 'No workspace folder found' };
-        }
-
         const results: SearchResult[] = [];
-        const files = await this.getFilesToSearch(workspaceFolder.uri.fsPath, options);
+        const files = await this.getFilesToSearch(options);
         
         for (const file of files) {
             if (results.length >= options.maxResults) break;
@@ -171,11 +158,6 @@ export class WorkspaceSearchTool implements ToolExecutor {
     }
 
     private async performReplace(pattern: string, replacement: string, options: ReplaceOptions): Promise<ToolResult> {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            return { success: false, message: 'No workspace folder found' };
-        }
-
         // First, perform a search to find all matches
         const searchResults = await this.performSearch(pattern, options);
         if (!searchResults.success || !searchResults.data?.results) {
@@ -193,7 +175,7 @@ export class WorkspaceSearchTool implements ToolExecutor {
                 const matchCount = searchResults.data.results[file].length;
                 
                 replaceResults.push({
-                    file: path.relative(workspaceFolder.uri.fsPath, file),
+                    file: fileEnumerator.toDisplayPath(file),
                     replacements: matchCount,
                     preview
                 });
@@ -228,12 +210,13 @@ export class WorkspaceSearchTool implements ToolExecutor {
                 const { newContent, replacementCount } = await this.replaceInContent(content, pattern, replacement, options);
                 
                 if (replacementCount > 0) {
+                    checkpointManager.snapshotFile(file);
                     await fs.promises.writeFile(file, newContent);
                     
                     replaceResults.push({
-                        file: path.relative(workspaceFolder.uri.fsPath, file),
+                        file: fileEnumerator.toDisplayPath(file),
                         replacements: replacementCount,
-                        backup: backupFile ? path.relative(workspaceFolder.uri.fsPath, backupFile) : undefined
+                        backup: backupFile ? fileEnumerator.toDisplayPath(backupFile) : undefined
                     });
                 }
             } catch (error) {
@@ -396,37 +379,18 @@ export class WorkspaceSearchTool implements ToolExecutor {
         };
     }
 
-    private async getFilesToSearch(workspacePath: string, options: SearchOptions): Promise<string[]> {
-        const allFiles: string[] = [];
-        
-        const scanDirectory = async (dirPath: string): Promise<void> => {
-            try {
-                const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
-                
-                for (const entry of entries) {
-                    const fullPath = path.join(dirPath, entry.name);
-                    const relativePath = path.relative(workspacePath, fullPath);
-                    
-                    if (entry.isDirectory()) {
-                        // Check if directory should be excluded
-                        if (this.shouldExcludeDirectory(entry.name, relativePath, options)) {
-                            continue;
-                        }
-                        await scanDirectory(fullPath);
-                    } else if (entry.isFile()) {
-                        // Check if file should be included
-                        if (this.shouldIncludeFile(entry.name, relativePath, options)) {
-                            allFiles.push(fullPath);
-                        }
-                    }
-                }
-            } catch (error) {
-                // Skip directories that can't be read
-            }
-        };
+    private async getFilesToSearch(options: SearchOptions): Promise<string[]> {
+        return fileEnumerator.listFiles({
+            filter: filePath => {
+                const relativePath = fileEnumerator.toDisplayPath(filePath);
+                const folders = path.dirname(relativePath).split(path.sep).filter(folder => folder !== '.');
 
-        await scanDirectory(workspacePath);
-        return allFiles;
+                // Check if any folder on the way should be excluded
+                const excluded = folders.some((folder, i) =>
+                    this.shouldExcludeDirectory(folder, folders.slice(0, i + 1).join(path.sep), options));
+                return !excluded && this.shouldIncludeFile(path.basename(filePath), relativePath, options);
+            }
+        });
     }
 
     private shouldExcludeDirectory(dirName: string, relativePath: string, options: SearchOptions): boolean {
@@ -465,10 +429,7 @@ export class WorkspaceSearchTool implements ToolExecutor {
     private async searchInFile(filePath: string, content: string, pattern: string, options: SearchOptions): Promise<SearchResult[]> {
         const results: SearchResult[] = [];
         const lines = content.split('\n');
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        const relativePath = workspaceFolder ? 
-            path.relative(workspaceFolder.uri.fsPath, filePath) : 
-            filePath;
+        const relativePath = fileEnumerator.toDisplayPath(filePath);
 
         let searchRegex: RegExp;
         try {
@@ -1,10 +1,8 @@
-import * as vscode from 'vscode';
-import * as path from 'path';
-import * as fs from 'fs/promises';
+import { estimateTokens } from '../providers/TokenBudget';
 
 /**
  * Advanced Context Filtering System
- * Provides intelligent context selection and prioritization for optimal AI performance
+ * Provides intelligent context selection and prioritization for optimal AI performance.
  */
 
 export interface ContextFile {
@@ -85,9 +83,10 @@ export class AdvancedContextFilter {
 
         reasoning.push(`Token usage: ${totalTokens}/${fullCriteria.maxTokens} (${Math.round(efficiency * 100)}% efficiency)`);
 
+        const selectedPaths = new Set(selectedFiles.map(f => f.path));
         return {
             selectedFiles,
-            filteredFiles: filteredFiles.filter(f => !selectedFiles.includes(f)),
+            filteredFiles: filteredFiles.filter(f => !selectedPaths.has(f.path)),
             totalFiles: files.length,
             totalTokens,
             efficiency,
@@ -185,7 +184,7 @@ export class AdvancedContextFilter {
         let totalOccurrences = 0;
 
         for (const term of queryTerms) {
-            const occurrences = (contentLower.match(new RegExp(term, 'g')) || []).length;
+            const occurrences = contentLower.split(term).length - 1;
             if (occurrences > 0) {
                 matches++;
                 totalOccurrences += occurrences;
@@ -267,8 +266,9 @@ export class AdvancedContextFilter {
         for (const file of scoredFiles) {
             if (selectedFiles.length >= criteria.maxFiles) break;
 
+            // A smaller file further down may still fit
             const fileTokens = this.estimateTokens(file.content);
-            if (totalTokens + fileTokens > criteria.maxTokens) break;
+            if (totalTokens + fileTokens > criteria.maxTokens) continue;
 
             selectedFiles.push(file);
             totalTokens += fileTokens;
@@ -309,8 +309,8 @@ export class AdvancedContextFilter {
      * Estimate token count for content
      */
     private static estimateTokens(content: string): number {
-        // Rough estimation: 1 token ≈ 4 characters
-        return Math.ceil(content.length / 4);
+        // Same estimator the prompt budget uses
+        return estimateTokens(content);
     }
 
     /**
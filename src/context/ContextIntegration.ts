@@ -124,6 +124,9 @@ export class ContextIntegration {
             const relativePath = this.getRelativePath(file.path);
             formatted += `### ${index + 1}. ${relativePath} (${file.language})\n`;
             formatted += `Relevance: ${file.relevanceScore.toFixed(1)}/100\n`;
+            if (file.isExcerpt) {
+                formatted += `Lines: ${file.matchRanges.map(range => `${range.startLine}-${range.endLine}`).join(', ')}\n`;
+            }
             
             // Add file summary
             if (file.functions.length > 0) {
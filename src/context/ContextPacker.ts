@@ -0,0 +1,333 @@
+import { AdvancedContextFilter, ContextFile } from './AdvancedContextFilter';
+import { tokenize } from './EmbeddingBackends';
+import { chunkFile } from './SemanticIndex';
+import { BudgetContextFile, estimateContextFileTokens, estimateTokens, truncateToTokens } from '../providers/TokenBudget';
+
+/**
+ * Token-aware packing of the files sent with a chat message or agent plan,
+ * reporting why each candidate was included or dropped.
+ */
+
+// Retrieved files up to this size are sent whole; larger ones as symbol excerpts
+const WHOLE_FILE_TOKENS = 800;
+// Most a retrieved file's excerpt takes, so a few files share the budget
+const MAX_EXCERPT_TOKENS = 1500;
+// Smaller leftovers aren't worth a file
+const MIN_FILE_TOKENS = 100;
+const DEFAULT_MAX_FILES = 25;
+
+export interface LineRange {
+    startLine: number; // 1-based, inclusive
+    endLine: number;
+}
+
+export interface ContextCandidate {
+    path: string;
+    content: string; // The whole file
+    language?: string;
+    explicit?: boolean; // Referenced or attached by the user
+    relevanceScore?: number;
+    ranges?: LineRange[]; // Only these lines are wanted, e.g. semantic matches
+    symbols?: { name: string; line: number }[]; // Where the file's symbols start
+    lastModified?: number;
+}
+
+export interface ContextPackEntry {
+    path: string;
+    tokens: number;
+    lines?: string; // e.g. "10-42, 80-95" when only part of the file is sent
+    reason: string;
+}
+
+export interface ContextPackReport {
+    budgetTokens: number;
+    usedTokens: number;
+    included: ContextPackEntry[];
+    dropped: ContextPackEntry[];
+}
+
+export interface ContextPack {
+    files: BudgetContextFile[]; // Referenced files first, then retrieved ones by rank
+    report: ContextPackReport;
+}
+
+export interface PackOptions {
+    maxFiles?: number;
+}
+
+interface PackItem {
+    path: string;
+    content: string;
+    language?: string;
+    explicit: boolean;
+    relevanceScore?: number;
+    ranges?: LineRange[]; // Undefined when the whole file is wanted
+    symbols: { name: string; line: number }[];
+    lastModified?: number;
+    merged: number; // Other candidates folded into this one
+}
+
+interface Rendered {
+    content: string;
+    lines?: string;
+    symbols?: string[];
+    truncated?: boolean;
+}
+
+/**
+ * Fit `candidates` into `budgetTokens`, path headers included
+ */
+export async function packContext(candidates: ContextCandidate[], query: string, budgetTokens: number, options: PackOptions = {}): Promise<ContextPack> {
+    const maxFiles = options.maxFiles ?? DEFAULT_MAX_FILES;
+    const queryTerms = new Set(tokenize(query));
+    const included: { file: BudgetContextFile; entry: ContextPackEntry }[] = [];
+    const dropped: ContextPackEntry[] = [];
+    let remaining = budgetTokens;
+
+    const include = (item: PackItem, rendered: Rendered, reason: string) => {
+        const file: BudgetContextFile = {
+            path: item.path,
+            content: rendered.content,
+            language: item.language,
+            isIntelligentContext: !item.explicit,
+            relevanceScore: item.relevanceScore,
+            truncated: rendered.truncated,
+            lines: rendered.lines
+        };
+        const tokens = estimateContextFileTokens(file);
+        remaining -= tokens;
+        included.push({ file, entry: { path: item.path, tokens, lines: rendered.lines, reason: describe(item, rendered, reason) } });
+    };
+
+    const items = mergeCandidates(candidates);
+
+    // Referenced files first and whole if they fit, otherwise cut to the symbols the question is about
+    for (const item of items.filter(item => item.explicit)) {
+        const limit = remaining - overhead(item.path);
+        if (included.length >= maxFiles || limit < MIN_FILE_TOKENS) {
+            dropped.push({ path: item.path, tokens: 0, reason: `No room left in the ${budgetTokens}-token budget` });
+            continue;
+        }
+        const rendered = render(item, limit, queryTerms, false);
+        include(item, rendered, rendered.lines ? 'Referenced, cut to fit' : 'Referenced');
+    }
+
+    // Retrieved files as excerpts where they are large, ranked and selected against what is left
+    const retrieved = items.filter(item => !item.explicit);
+    const renderedByPath = new Map<string, { item: PackItem; rendered: Rendered }>();
+    const excerptLimit = Math.min(MAX_EXCERPT_TOKENS, Math.floor(remaining / 2));
+    for (const item of retrieved) {
+        if (excerptLimit - overhead(item.path) < MIN_FILE_TOKENS) {
+            dropped.push({ path: item.path, tokens: 0, reason: `No room left after referenced files` });
+            continue;
+        }
+        renderedByPath.set(item.path, { item, rendered: render(item, excerptLimit - overhead(item.path), queryTerms, true) });
+    }
+
+    const filterFiles: ContextFile[] = [...renderedByPath.values()].map(({ item, rendered }) => ({
+        path: item.path,
+        content: rendered.content,
+        score: normalizeScore(item.relevanceScore),
+        size: rendered.content.length,
+        lastModified: new Date(item.lastModified ?? 0),
+        language: item.language ?? '',
+        priority: 'medium',
+        reasons: []
+    }));
+    const filtered = await AdvancedContextFilter.filterContext(filterFiles, query, {
+        maxFiles: Math.max(0, maxFiles - included.length),
+        maxTokens: Math.max(0, remaining),
+        priorityThreshold: 0,
+        excludePatterns: [],
+        includePatterns: []
+    });
+
+    // The filter counts content only, so path headers can still push a file out
+    for (const selected of filtered.selectedFiles) {
+        const { item, rendered } = renderedByPath.get(selected.path)!;
+        renderedByPath.delete(selected.path);
+        if (estimateContextFileTokens({ path: item.path, content: rendered.content }) > remaining) {
+            dropped.push({ path: item.path, tokens: 0, reason: `Over the ${budgetTokens}-token budget` });
+            continue;
+        }
+        include(item, rendered, 'Relevant');
+    }
+    for (const { item } of renderedByPath.values()) {
+        const reason = included.length >= maxFiles ? `Over the ${maxFiles}-file limit` : `Ranked below files that filled the ${budgetTokens}-token budget`;
+        dropped.push({ path: item.path, tokens: 0, reason });
+    }
+
+    return {
+        files: included.map(({ file }) => file),
+        report: {
+            budgetTokens,
+            usedTokens: budgetTokens - remaining,
+            included: included.map(({ entry }) => entry),
+            dropped
+        }
+    };
+}
+
+/**
+ * One item per file: a whole-file candidate covers any excerpts of the same
+ * file, and excerpts' line ranges are unioned
+ */
+function mergeCandidates(candidates: ContextCandidate[]): PackItem[] {
+    const items = new Map<string, PackItem>();
+    for (const candidate of candidates) {
+        const existing = items.get(candidate.path);
+        if (!existing) {
+            items.set(candidate.path, {
+                path: candidate.path,
+                content: candidate.content,
+                language: candidate.language,
+                explicit: !!candidate.explicit,
+                relevanceScore: candidate.relevanceScore,
+                ranges: wantedRanges(candidate),
+                symbols: candidate.symbols ?? [],
+                lastModified: candidate.lastModified,
+                merged: 0
+            });
+            continue;
+        }
+
+        existing.merged++;
+        existing.explicit = existing.explicit || !!candidate.explicit;
+        existing.relevanceScore = Math.max(existing.relevanceScore ?? 0, candidate.relevanceScore ?? 0) || undefined;
+        const ranges = wantedRanges(candidate);
+        existing.ranges = existing.ranges && ranges ? mergeRanges([...existing.ranges, ...ranges]) : undefined;
+        if (existing.symbols.length === 0 && candidate.symbols) {
+            existing.symbols = candidate.symbols;
+        }
+    }
+    return [...items.values()];
+}
+
+// No ranges means the whole file
+function wantedRanges(candidate: ContextCandidate): LineRange[] | undefined {
+    return candidate.ranges && candidate.ranges.length > 0 ? mergeRanges(candidate.ranges) : undefined;
+}
+
+/**
+ * Sorted ranges with overlapping and adjacent ones joined
+ */
+export function mergeRanges(ranges: LineRange[]): LineRange[] {
+    const merged: LineRange[] = [];
+    for (const range of [...ranges].sort((a, b) => a.startLine - b.startLine)) {
+        const previous = merged[merged.length - 1];
+        if (previous && range.startLine <= previous.endLine + 1) {
+            previous.endLine = Math.max(previous.endLine, range.endLine);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
+
+/**
+ * The item's text within `limit` tokens: the wanted ranges, the whole file,
+ * or its chunks that best match the question, in file order. `preferExcerpt`
+ * cuts files above the whole-file size down even when they would fit.
+ */
+function render(item: PackItem, limit: number, queryTerms: Set<string>, preferExcerpt: boolean): Rendered {
+    const lines = item.content.split('\n');
+
+    if (item.ranges) {
+        return renderRanges(lines, fitRanges(lines, item.ranges, limit), limit);
+    }
+
+    const tokens = estimateTokens(item.content);
+    if (tokens <= limit && (!preferExcerpt || tokens <= WHOLE_FILE_TOKENS)) {
+        return { content: item.content };
+    }
+
+    // Best matching chunks first; with no match, the top of the file
+    const chunks = chunkFile(item.content, item.symbols)
+        .map((chunk, index) => ({ chunk, index, score: scoreChunk(chunk.text, chunk.symbol, queryTerms) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const chosen: { range: LineRange; symbol?: string }[] = [];
+    let used = 0;
+    for (const { chunk } of chunks) {
+        const cost = estimateTokens(chunk.text) + 2;
+        if (used + cost > limit) {
+            continue;
+        }
+        chosen.push({ range: { startLine: chunk.startLine, endLine: chunk.endLine }, symbol: chunk.symbol });
+        used += cost;
+    }
+
+    if (chosen.length === 0) {
+        return { content: truncateToTokens(item.content, limit), lines: `1-${lines.length}`, truncated: true };
+    }
+    const symbols = chosen.map(choice => choice.symbol).filter((symbol): symbol is string => !!symbol);
+    return { ...renderRanges(lines, mergeRanges(chosen.map(choice => choice.range)), limit), symbols };
+}
+
+/**
+ * The leading ranges that fit in `limit` tokens; at least the first one
+ */
+function fitRanges(lines: string[], ranges: LineRange[], limit: number): LineRange[] {
+    const fitted: LineRange[] = [];
+    let used = 0;
+    for (const range of ranges) {
+        const cost = estimateTokens(lines.slice(range.startLine - 1, range.endLine).join('\n')) + 2;
+        if (fitted.length > 0 && used + cost > limit) {
+            break;
+        }
+        fitted.push(range);
+        used += cost;
+    }
+    return fitted;
+}
+
+function renderRanges(lines: string[], ranges: LineRange[], limit: number): Rendered {
+    const content = ranges.map(range => lines.slice(range.startLine - 1, range.endLine).join('\n')).join('\n...\n');
+    const fitted = truncateToTokens(content, limit);
+    return {
+        content: fitted,
+        lines: ranges.map(range => `${range.startLine}-${Math.min(range.endLine, lines.length)}`).join(', '),
+        truncated: fitted !== content || undefined
+    };
+}
+
+function scoreChunk(text: string, symbol: string | undefined, queryTerms: Set<string>): number {
+    if (queryTerms.size === 0) {
+        return 0;
+    }
+    const symbolTerms = new Set(tokenize(symbol ?? ''));
+    const textTerms = new Set(tokenize(text));
+    let score = 0;
+    for (const term of queryTerms) {
+        score += (symbolTerms.has(term) ? 2 : 0) + (textTerms.has(term) ? 1 : 0);
+    }
+    return score;
+}
+
+function describe(item: PackItem, rendered: Rendered, reason: string): string {
+    const details = [reason];
+    if (rendered.symbols && rendered.symbols.length > 0) {
+        details.push(`symbols ${rendered.symbols.join(', ')}`);
+    } else if (rendered.lines && item.ranges) {
+        details.push('matched lines');
+    }
+    if (rendered.truncated) {
+        details.push('truncated');
+    }
+    if (item.merged > 0) {
+        details.push(`${item.merged + 1} overlapping candidates merged`);
+    }
+    return details.join('; ');
+}
+
+function overhead(filePath: string): number {
+    return estimateContextFileTokens({ path: filePath, content: '' });
+}
+
+// Retrieval scores are 0-1 for chunk matches and 0-100 for whole files
+function normalizeScore(score: number | undefined): number {
+    if (score === undefined || Number.isNaN(score)) {
+        return 0;
+    }
+    return score > 1 ? Math.min(score / 100, 1) : score;
+}
@@ -1,6 +1,21 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { IndexBuildOptions, IndexBuildResult, matchesGlob, workspaceIndex } from './WorkspaceIndex';
+import { IGNORE_FILE_NAMES, fileEnumerator } from './FileEnumerator';
+import { ChunkMatch, SemanticSyncResult, semanticIndex } from './SemanticIndex';
+import { CONFIG_FILE_NAMES, EntryPoint, ProjectGraph, isTestFile } from './ProjectGraph';
+
+// Added to a file's relevance by how many imports it is from the active file
+const GRAPH_PROXIMITY_BOOST = [0.3, 0.2, 0.1, 0.05];
+// Files each topology and graph source adds at most
+const MAX_ENTRY_POINTS = 5;
+const MAX_CONFIG_FILES = 5;
+const MAX_DEPENDENCY_FILES = 8;
+const MAX_SYMBOL_FILES = 5;
+const MAX_RECENT_FILES = 5;
+const MAX_TEST_FILES = 5;
+const RECENT_FILE_AGE = 7 * 24 * 60 * 60 * 1000;
 
 export interface RetrievalContext {
     files: ContextualFile[];
@@ -22,6 +37,8 @@ export interface ContextualFile {
     classes: ClassInfo[];
     interfaces: InterfaceInfo[];
     types: TypeInfo[];
+    isExcerpt?: boolean; // content holds only the matched line ranges
+    graphDistance?: number; // Imports between this file and the active file
 }
 
 export interface MatchRange {
@@ -29,6 +46,8 @@ export interface MatchRange {
     end: number;
     type: 'exact' | 'semantic' | 'fuzzy';
     confidence: number;
+    startLine?: number; // 1-based lines in the file, for semantic matches
+    endLine?: number;
 }
 
 export interface SearchMetadata {
@@ -109,47 +128,33 @@ export interface SearchOptions {
 export class ContextRetrievalEngine {
     private static instance: ContextRetrievalEngine;
     
-    private defaultExcludePatterns = [
-        '**/node_modules/**',
-        '**/dist/**',
-        '**/build/**',
-        '**/out/**',
-        '**/.git/**',
-        '**/coverage/**',
-        '**/*.min.js',
-        '**/*.map',
-        '**/logs/**',
-        '**/temp/**',
-        '**/tmp/**',
-        '**/.vscode/**',
-        '**/.idea/**'
-    ];
-
     private codePatterns = {
         typescript: {
             function: /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\([^)]*\)(?:\s*:\s*[^{]+)?/g,
             class: /(?:export\s+)?(?:abstract\s+)?class\s+(\w+)(?:\s+extends\s+\w+)?(?:\s+implements\s+[\w,\s]+)?/g,
             interface: /(?:export\s+)?interface\s+(\w+)(?:\s+extends\s+[\w,\s]+)?/g,
             type: /(?:export\s+)?type\s+(\w+)\s*=/g,
-            import: /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g,
+            // Static imports and re-exports, then require() and dynamic import()
+            import: /(?:^|[^\w$.])(?:import|export)\s+(?:type\s+)?(?:[\w*${},\s]+?\s+from\s+)?['"]([^'"\n]+)['"]|(?:^|[^\w$.])(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
             export: /export\s+(?:default\s+)?(?:class|function|interface|type|const|let|var)\s+(\w+)/g
         },
         javascript: {
             function: /(?:export\s+)?(?:async\s+)?function\s+(\w+)\s*\([^)]*\)/g,
             class: /(?:export\s+)?class\s+(\w+)(?:\s+extends\s+\w+)?/g,
-            import: /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g,
+            import: /(?:^|[^\w$.])(?:import|export)\s+(?:[\w*${},\s]+?\s+from\s+)?['"]([^'"\n]+)['"]|(?:^|[^\w$.])(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g,
             export: /export\s+(?:default\s+)?(?:class|function|const|let|var)\s+(\w+)/g
         },
         python: {
             function: /def\s+(\w+)\s*\([^)]*\):/g,
             class: /class\s+(\w+)(?:\([^)]*\))?:/g,
-            import: /(?:from\s+[\w.]+\s+)?import\s+([\w,\s]+)/g
+            // `from module import names`, then `import modules`
+            import: /^[ \t]*(?:from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+\(?([\w*, \t]+)|import[ \t]+([\w., \t]+))/gm
         },
         java: {
             function: /(?:public|private|protected)?\s*(?:static)?\s*\w+\s+(\w+)\s*\([^)]*\)/g,
             class: /(?:public|private|protected)?\s*class\s+(\w+)(?:\s+extends\s+\w+)?/g,
             interface: /(?:public|private|protected)?\s*interface\s+(\w+)/g,
-            import: /import\s+([\w.]+);/g
+            import: /import\s+(?:static\s+)?([\w.]+(?:\.\*)?)\s*;/g
         }
     };
 
@@ -162,6 +167,67 @@ export class ContextRetrievalEngine {
         return ContextRetrievalEngine.instance;
     }
 
+    /**
+     * Keep the persistent workspace index under `storageDir`, analyzed with
+     * this engine's code patterns and updated by a file watcher. Editing an
+     * ignore file rebuilds the index, dropping newly ignored files. Disposing
+     * the result stops the watchers and saves the index.
+     */
+    public configureIndex(storageDir: string | undefined): vscode.Disposable {
+        workspaceIndex.configure(storageDir, (content, language) => this.performCodeAnalysis(content, language));
+
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+        const update = (uri: vscode.Uri) => {
+            if (this.isIndexableUri(uri)) {
+                workspaceIndex.updateFile(uri.fsPath);
+            }
+        };
+
+        const ignoreWatcher = vscode.workspace.createFileSystemWatcher(`**/{${IGNORE_FILE_NAMES.join(',')}}`);
+        const reloadIgnoreFiles = () => {
+            fileEnumerator.clearCache();
+            this.rebuildIndex().catch(error => console.error('Failed to update the workspace index:', error));
+        };
+
+        return vscode.Disposable.from(
+            watcher,
+            watcher.onDidCreate(update),
+            watcher.onDidChange(update),
+            watcher.onDidDelete(uri => workspaceIndex.removeFile(uri.fsPath)),
+            ignoreWatcher,
+            ignoreWatcher.onDidCreate(reloadIgnoreFiles),
+            ignoreWatcher.onDidChange(reloadIgnoreFiles),
+            ignoreWatcher.onDidDelete(reloadIgnoreFiles),
+            { dispose: () => workspaceIndex.flush() }
+        );
+    }
+
+    /**
+     * Bring the workspace index up to date with the files in every workspace
+     * folder that aren't ignored. Only new and changed files are analyzed
+     * unless `force` is set.
+     */
+    public async rebuildIndex(options: IndexBuildOptions = {}): Promise<IndexBuildResult> {
+        const result = await workspaceIndex.build(await fileEnumerator.listFiles(), options);
+
+        this.updateSemanticIndex().catch(error => console.warn('Failed to update the semantic index:', error));
+        return result;
+    }
+
+    /**
+     * Chunk and embed the indexed files that changed since they were last embedded
+     */
+    public async updateSemanticIndex(): Promise<SemanticSyncResult | undefined> {
+        if (!semanticIndex.isConfigured()) {
+            return undefined;
+        }
+        return semanticIndex.sync(workspaceIndex.getFiles());
+    }
+
+    private isIndexableUri(uri: vscode.Uri): boolean {
+        return uri.scheme === 'file' && !!fileEnumerator.getRoot(uri.fsPath) && !fileEnumerator.isIgnored(uri.fsPath);
+    }
+
     /**
      * Main retrieval method - intelligently finds relevant context based on query
      */
@@ -374,23 +440,21 @@ export class ContextRetrievalEngine {
      * 🏗️ Advanced Project Topology Analysis
      */
     private async analyzeProjectTopology(query: string, intent: QueryIntent): Promise<ContextualFile[]> {
-        const workspace = vscode.workspace.workspaceFolders?.[0];
+        const workspace = this.getActiveWorkspaceFolder();
         if (!workspace) return [];
 
         const topologyFiles: ContextualFile[] = [];
         
-        // Analyze project structure patterns
-        const structurePatterns = await this.identifyProjectStructure(workspace.uri.fsPath);
-        
         // Find architectural entry points
         if (intent.scope === 'comprehensive' || intent.type === 'architecture') {
-            const entryPoints = await this.findArchitecturalEntryPoints(workspace.uri.fsPath, structurePatterns);
+            const structure = this.identifyProjectStructure(workspace.uri.fsPath);
+            const entryPoints = await this.findArchitecturalEntryPoints(structure);
             topologyFiles.push(...entryPoints);
         }
 
         // Identify core configuration files
         if (intent.contextSources?.includes('config')) {
-            const configFiles = await this.findConfigurationFiles(workspace.uri.fsPath);
+            const configFiles = await this.findConfigurationFiles(workspace.uri.fsPath, query);
             topologyFiles.push(...configFiles);
         }
 
@@ -406,14 +470,28 @@ export class ContextRetrievalEngine {
         const dependencyFiles: ContextualFile[] = [];
         
         // Analyze import/export relationships
-        const importGraph = await this.buildImportGraph();
+        const importGraph = this.buildImportGraph();
+        if (!importGraph) {
+            return [];
+        }
         
         // Find dependency clusters relevant to query
         const relevantClusters = this.findRelevantDependencyClusters(query, importGraph);
         
-        // Include critical dependency files
+        // Include critical dependency files: each cluster's seed, then what it imports and what imports it
+        const seen = new Set<string>();
         for (const cluster of relevantClusters) {
-            dependencyFiles.push(...cluster.files);
+            for (const filePath of [cluster.seed, ...cluster.neighbours]) {
+                if (seen.has(filePath) || seen.size >= MAX_DEPENDENCY_FILES) {
+                    continue;
+                }
+                seen.add(filePath);
+                const file = await this.analyzeFile(filePath);
+                if (file) {
+                    file.relevanceScore = filePath === cluster.seed ? 0.6 : 0.4;
+                    dependencyFiles.push(file);
+                }
+            }
         }
 
         return dependencyFiles;
@@ -426,12 +504,18 @@ export class ContextRetrievalEngine {
         const contextFiles: ContextualFile[] = [];
         let totalScanned = 0;
 
-        // 1. SEMANTIC FILE SEARCH
-        const semanticFiles = await this.findRelevantFiles(query, options);
-        totalScanned += semanticFiles.length;
-        
-        const analyzedFiles = await this.analyzeFiles(semanticFiles, query, options);
-        contextFiles.push(...analyzedFiles);
+        // 1. SEMANTIC FILE SEARCH - matching chunks when they're indexed, whole files otherwise
+        if (semanticIndex.hasChunks()) {
+            const matches = await this.searchChunks(query, query, options.maxFiles * 4, this.createIndexFilter(options));
+            totalScanned += semanticIndex.getStatus().files;
+            contextFiles.push(...await this.createExcerptFiles(matches, options.maxFiles));
+        } else {
+            const semanticFiles = await this.findRelevantFiles(query, options);
+            totalScanned += semanticFiles.length;
+
+            const analyzedFiles = await this.analyzeFiles(semanticFiles, query, options);
+            contextFiles.push(...analyzedFiles);
+        }
 
         // 2. SYMBOL-BASED SEARCH
         if (intent.contextSources?.includes('symbols')) {
@@ -474,6 +558,15 @@ export class ContextRetrievalEngine {
     public async semanticSearch(concept: string, options: SearchOptions = {}): Promise<RetrievalContext> {
         const semanticKeywords = this.expandSemanticQuery(concept);
         const combinedQuery = [concept, ...semanticKeywords].join(' ');
+
+        if (semanticIndex.isConfigured() && workspaceIndex.hasFiles()) {
+            const startTime = Date.now();
+            const maxFiles = options.maxFiles ?? 10;
+            // Expansions help keyword matching; the embedding compares against the concept itself
+            const matches = await this.searchChunks(combinedQuery, concept, maxFiles * 4);
+            const files = await this.createExcerptFiles(matches, maxFiles);
+            return this.createResult(concept, 'semantic', files, matches.length, startTime);
+        }
         
         return this.retrieveContext(combinedQuery, {
             ...options,
@@ -486,6 +579,11 @@ export class ContextRetrievalEngine {
      * Find files that use/import a specific function/class/module
      */
     public async findUsages(identifier: string, options: SearchOptions = {}): Promise<RetrievalContext> {
+        if (workspaceIndex.hasFiles()) {
+            const usages = workspaceIndex.findUsages(identifier).map(entry => entry.path);
+            return this.createIndexedContext(identifier, 'usage', usages, options, Date.now());
+        }
+
         return this.retrieveContext(identifier, {
             ...options,
             searchType: 'usage'
@@ -496,6 +594,11 @@ export class ContextRetrievalEngine {
      * Find related files through dependency analysis
      */
     public async findRelatedFiles(filePath: string, options: SearchOptions = {}): Promise<RetrievalContext> {
+        if (workspaceIndex.getFile(filePath)) {
+            const related = workspaceIndex.getRelatedFiles(filePath, options.maxFiles ?? 20);
+            return this.createIndexedContext(filePath, 'dependency', related, options, Date.now());
+        }
+
         const baseFile = await this.analyzeFile(filePath);
         if (!baseFile) {
             return {
@@ -527,6 +630,111 @@ export class ContextRetrievalEngine {
         });
     }
 
+    /**
+     * A result built from files the index matched, best first, without
+     * searching the workspace
+     */
+    private async createIndexedContext(query: string, searchType: SearchType, filePaths: string[], options: SearchOptions, startTime: number): Promise<RetrievalContext> {
+        const maxFiles = options.maxFiles ?? 20;
+        const files: ContextualFile[] = [];
+
+        for (const [rank, filePath] of filePaths.entries()) {
+            if (files.length >= maxFiles) {
+                break;
+            }
+            const file = await this.analyzeFile(filePath);
+            if (file) {
+                file.relevanceScore = 1 - rank / filePaths.length;
+                file.matchRanges = this.findExactMatches(file.content.toLowerCase(), query.toLowerCase());
+                files.push(file);
+            }
+        }
+
+        return this.createResult(query, searchType, files, filePaths.length, startTime);
+    }
+
+    /**
+     * Chunks matching a query from the semantic index, updated first unless an
+     * update is already running
+     */
+    private async searchChunks(query: string, vectorQuery: string, limit: number, filter?: (filePath: string) => boolean): Promise<ChunkMatch[]> {
+        if (!semanticIndex.isSyncing()) {
+            await this.updateSemanticIndex().catch(error => console.warn('Failed to update the semantic index:', error));
+        }
+        return semanticIndex.search(query, { vectorQuery, limit, filter });
+    }
+
+    /**
+     * One file per matched path, best first, whose content is just the
+     * matched chunks (overlapping ones merged) with a match range for each
+     */
+    private async createExcerptFiles(matches: ChunkMatch[], maxFiles: number): Promise<ContextualFile[]> {
+        const byFile = new Map<string, ChunkMatch[]>();
+        for (const match of matches) {
+            byFile.set(match.path, [...(byFile.get(match.path) ?? []), match]);
+        }
+
+        const files: ContextualFile[] = [];
+        for (const [filePath, fileMatches] of byFile) {
+            if (files.length >= maxFiles) {
+                break;
+            }
+            const file = await this.analyzeFile(filePath);
+            if (!file) {
+                continue;
+            }
+
+            const lines = file.content.split('\n');
+            const ranges: { startLine: number; endLine: number; score: number }[] = [];
+            for (const match of [...fileMatches].sort((a, b) => a.startLine - b.startLine)) {
+                const previous = ranges[ranges.length - 1];
+                if (previous && match.startLine <= previous.endLine + 1) {
+                    previous.endLine = Math.max(previous.endLine, match.endLine);
+                    previous.score = Math.max(previous.score, match.score);
+                } else {
+                    ranges.push({ startLine: match.startLine, endLine: match.endLine, score: match.score });
+                }
+            }
+
+            let content = '';
+            const matchRanges: MatchRange[] = [];
+            for (const range of ranges) {
+                if (content) {
+                    content += '\n...\n';
+                }
+                const text = lines.slice(range.startLine - 1, range.endLine).join('\n');
+                matchRanges.push({
+                    start: content.length,
+                    end: content.length + text.length,
+                    type: 'semantic',
+                    confidence: range.score,
+                    startLine: range.startLine,
+                    endLine: Math.min(range.endLine, lines.length)
+                });
+                content += text;
+            }
+
+            files.push({ ...file, content, isExcerpt: true, relevanceScore: fileMatches[0].score, matchRanges });
+        }
+        return files;
+    }
+
+    private createResult(query: string, searchType: SearchType, files: ContextualFile[], totalMatches: number, startTime: number): RetrievalContext {
+        return {
+            files,
+            relevanceScore: files.length > 0 ? files.reduce((sum, file) => sum + file.relevanceScore, 0) / files.length : 0,
+            totalMatches,
+            searchMetadata: {
+                query,
+                searchType,
+                timeMs: Date.now() - startTime,
+                totalFilesScanned: 0,
+                includedLanguages: [...new Set(files.map(file => file.language))],
+                excludedPatterns: []
+            }
+        };
+    }
+
     private determineSearchType(query: string): SearchType {
         // Function patterns
         if (/\b(function|def|method)\b/.test(query.toLowerCase()) || /\(\)$/.test(query)) {
@@ -585,56 +793,61 @@ export class ContextRetrievalEngine {
         return Array.from(expanded);
     }
 
+    /**
+     * Candidate files for a query in every workspace folder: ranked by the
+     * index once it's built, the files nearest each folder's top before that
+     */
     private async findRelevantFiles(query: string, options: Required<SearchOptions>): Promise<vscode.Uri[]> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            return [];
+        if (workspaceIndex.hasFiles()) {
+            return this.findIndexedFiles(query, options);
         }
 
-        // Get the active workspace folder (the one containing the active file)
-        let targetWorkspaceFolder = workspaceFolders[0]; // Default to first
-        const activeEditor = vscode.window.activeTextEditor;
-        
-        if (activeEditor) {
-            const activeFile = activeEditor.document.uri;
-            const matchingFolder = vscode.workspace.getWorkspaceFolder(activeFile);
-            if (matchingFolder) {
-                targetWorkspaceFolder = matchingFolder;
-            }
-        }
+        const files = await fileEnumerator.listFiles({
+            filter: this.createIndexFilter(options),
+            maxResults: options.maxFiles * 3 // Get more files to filter later
+        });
+        return files.map(filePath => vscode.Uri.file(filePath));
+    }
 
-        // Build include pattern - constrain to workspace folders only
-        let includePattern = '**/*';
-        if (options.includeLanguages.length > 0) {
-            const extensions = this.getExtensionsForLanguages(options.includeLanguages);
-            includePattern = `**/*.{${extensions.join(',')}}`;
-        }
+    /**
+     * The workspace folder containing the active file, or the first one
+     */
+    private getActiveWorkspaceFolder(): vscode.WorkspaceFolder | undefined {
+        const activeFile = vscode.window.activeTextEditor?.document.uri;
+        return (activeFile && vscode.workspace.getWorkspaceFolder(activeFile)) || vscode.workspace.workspaceFolders?.[0];
+    }
 
-        // Build exclude pattern with additional safety constraints
-        let excludePattern = `{${options.excludePatterns.join(',')}}`;
-        
-        if (!options.includeTests) {
-            excludePattern = excludePattern.slice(0, -1) + ',**/*test*,**/*spec*,**/tests/**,**/test/**}';
-        }
+    /**
+     * Candidates for a query ranked by the workspace index, with the same
+     * language, test, docs and exclude filters as the file search
+     */
+    private findIndexedFiles(query: string, options: Required<SearchOptions>): vscode.Uri[] {
+        return workspaceIndex.search(query.split(/[^\w$]+/), Number.MAX_SAFE_INTEGER)
+            .map(result => result.path)
+            .filter(this.createIndexFilter(options))
+            .slice(0, options.maxFiles * 3)
+            .map(filePath => vscode.Uri.file(filePath));
+    }
 
-        if (!options.includeDocs) {
-            excludePattern = excludePattern.slice(0, -1) + ',**/*.md,**/docs/**,**/documentation/**}';
-        }
+    /**
+     * The language, test, docs and exclude filters for a file in any
+     * workspace folder; exclude patterns are relative to the file's folder
+     */
+    private createIndexFilter(options: Required<SearchOptions>): (filePath: string) => boolean {
+        const extensions = options.includeLanguages.length > 0 ? this.getExtensionsForLanguages(options.includeLanguages) : [];
+        const excludePatterns = [
+            ...options.excludePatterns,
+            ...(options.includeTests ? [] : ['**/*test*', '**/*spec*', '**/tests/**', '**/test/**']),
+            ...(options.includeDocs ? [] : ['**/*.md', '**/docs/**', '**/documentation/**'])
+        ];
 
-        // Search only within the target workspace folder
-        const relativePattern = new vscode.RelativePattern(targetWorkspaceFolder, includePattern);
-        const files = await vscode.workspace.findFiles(
-            relativePattern,
-            excludePattern,
-            options.maxFiles * 3 // Get more files to filter later
-        );
-        
-        // Double-check that files are within workspace folder
-        const validFiles = files.filter(file => 
-            file.fsPath.startsWith(targetWorkspaceFolder.uri.fsPath)
-        );
-        
-        return validFiles;
+        return filePath => {
+            const root = fileEnumerator.getRoot(filePath);
+            const relativePath = root ? path.relative(root.path, filePath) : '';
+            return !!root
+                && (extensions.length === 0 || extensions.includes(path.extname(filePath).slice(1)))
+                && !matchesGlob(relativePath, excludePatterns);
+        };
     }
 
     private getExtensionsForLanguages(languages: string[]): string[] {
@@ -695,7 +908,10 @@ export class ContextRetrievalEngine {
             const content = document.getText();
             const language = document.languageId;
 
-            const analysis = this.performCodeAnalysis(content, language);
+            // Saved files go through the index, which reuses its analysis while the content hash matches
+            const analysis = workspaceIndex.isConfigured() && !document.isDirty && this.isIndexableUri(uri)
+                ? workspaceIndex.store(filePath, content, { mtime: stat.mtime, size: stat.size })
+                : this.performCodeAnalysis(content, language);
 
             return {
                 path: filePath,
@@ -734,8 +950,10 @@ export class ContextRetrievalEngine {
         if (patterns.import) {
             const importMatches = content.matchAll(patterns.import);
             for (const match of importMatches) {
-                analysis.imports.push(match[1]);
-                analysis.dependencies.push(match[1]);
+                for (const specifier of this.getImportSpecifiers(match, language)) {
+                    analysis.imports.push(specifier);
+                    analysis.dependencies.push(specifier);
+                }
             }
         }
 
@@ -811,6 +1029,23 @@ export class ContextRetrievalEngine {
         return analysis;
     }
 
+    /**
+     * The modules an import statement names. Python's `from . import a, b`
+     * imports the sibling modules `.a` and `.b`.
+     */
+    private getImportSpecifiers(match: RegExpMatchArray, language: string): string[] {
+        if (language === 'python') {
+            const [, from, names, modules] = match;
+            const identifiers = (list: string) => list.split(',').map(item => item.trim().split(/\s+/)[0]).filter(item => /^[\w.]+$/.test(item));
+            if (from === undefined) {
+                return identifiers(modules);
+            }
+            return /^\.+$/.test(from) ? identifiers(names).map(name => from + name) : [from];
+        }
+        const specifier = match.slice(1).find(group => group !== undefined);
+        return specifier ? [specifier] : [];
+    }
+
     private calculateFileRelevance(file: ContextualFile, query: string, options: Required<SearchOptions>) {
         let relevanceScore = 0;
         const matchRanges: MatchRange[] = [];
@@ -989,38 +1224,21 @@ export class ContextRetrievalEngine {
     }
 
     private async getRecentlyModifiedFiles(): Promise<ContextualFile[]> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            return [];
-        }
-
-        // Get the active workspace folder (the one containing the active file)
-        let targetWorkspaceFolder = workspaceFolders[0]; // Default to first
-        const activeEditor = vscode.window.activeTextEditor;
-        
-        if (activeEditor) {
-            const activeFile = activeEditor.document.uri;
-            const matchingFolder = vscode.workspace.getWorkspaceFolder(activeFile);
-            if (matchingFolder) {
-                targetWorkspaceFolder = matchingFolder;
+        if (workspaceIndex.hasFiles()) {
+            const files: ContextualFile[] = [];
+            for (const entry of workspaceIndex.getRecentFiles(20)) {
+                const file = await this.analyzeFile(entry.path);
+                if (file) {
+                    files.push(file);
+                }
             }
+            return files;
         }
 
-        const relativePattern = new vscode.RelativePattern(targetWorkspaceFolder, '**/*');
-        const uris = await vscode.workspace.findFiles(
-            relativePattern,
-            `{${this.defaultExcludePatterns.join(',')}}`,
-            20
-        );
-        
-        // Ensure files are within workspace folder
-        const validFiles = uris.filter(file => 
-            file.fsPath.startsWith(targetWorkspaceFolder.uri.fsPath)
-        );
-        
+        // Before the index is built there are no modification times, so take the files nearest the top
         const files: ContextualFile[] = [];
-        for (const uri of validFiles) {
-            const file = await this.analyzeFile(uri.fsPath);
+        for (const filePath of await fileEnumerator.listFiles({ maxResults: 20 })) {
+            const file = await this.analyzeFile(filePath);
             if (file) {
                 files.push(file);
             }
@@ -1441,7 +1659,7 @@ export class ContextRetrievalEngine {
             includeLanguages: options.includeLanguages || [],
             excludeLanguages: options.excludeLanguages || [],
             includePatterns: options.includePatterns || [],
-            excludePatterns: options.excludePatterns || this.defaultExcludePatterns,
+            excludePatterns: options.excludePatterns || [],
             searchType: options.searchType || this.determineSearchType(query),
             fuzzyThreshold: options.fuzzyThreshold || 0.6,
             includeTests: intent.contextSources?.includes('tests') || false,
@@ -1451,27 +1669,48 @@ export class ContextRetrievalEngine {
     }
 
     private applyAdvancedRelevanceScoring(files: ContextualFile[], query: string, intent: QueryIntent, options: Required<SearchOptions>): ContextualFile[] {
-        return files.map(file => ({
-            ...file,
-            relevanceScore: this.calculateAdvancedFileRelevance(file, query, intent)
-        }));
+        const distances = this.getActiveFileDistances();
+        return files.map(file => {
+            const graphDistance = distances.get(file.path);
+            return {
+                ...file,
+                graphDistance,
+                relevanceScore: this.calculateAdvancedFileRelevance(file, query, intent, graphDistance)
+            };
+        });
     }
 
-    private calculateAdvancedFileRelevance(file: ContextualFile, query: string, intent: QueryIntent): number {
+    private calculateAdvancedFileRelevance(file: ContextualFile, query: string, intent: QueryIntent, graphDistance?: number): number {
         let score = file.relevanceScore || 0;
         
         // Boost score based on intent type
         if (intent.type === 'debugging' && file.path.includes('error')) score += 0.2;
         if (intent.type === 'testing' && file.path.includes('test')) score += 0.3;
         if (intent.type === 'security' && file.path.includes('auth')) score += 0.2;
+
+        // Boost files close to the active file in the import graph
+        if (graphDistance !== undefined) {
+            score += GRAPH_PROXIMITY_BOOST[graphDistance] ?? 0;
+        }
         
         return Math.min(score, 1.0);
     }
 
     private applyIntelligentFiltering(files: ContextualFile[], intent: QueryIntent, options: Required<SearchOptions>): ContextualFile[] {
-        return files
+        // Several sources can find the same file; keep its best-scored copy
+        const best = new Map<string, ContextualFile>();
+        for (const file of files) {
+            const current = best.get(file.path);
+            if (!current || file.relevanceScore > current.relevanceScore) {
+                best.set(file.path, file);
+            }
+        }
+
+        // Equally relevant files closer to the active file come first
+        const distance = (file: ContextualFile) => file.graphDistance ?? GRAPH_PROXIMITY_BOOST.length;
+        return [...best.values()]
             .filter(file => file.relevanceScore >= intent.contextConfig.minRelevanceScore)
-            .sort((a, b) => b.relevanceScore - a.relevanceScore);
+            .sort((a, b) => b.relevanceScore - a.relevanceScore || distance(a) - distance(b));
     }
 
     private calculateAdvancedRelevance(files: ContextualFile[], intent: QueryIntent): number {
@@ -1479,13 +1718,180 @@ export class ContextRetrievalEngine {
         return files.reduce((sum, file) => sum + file.relevanceScore, 0) / files.length;
     }
 
-    // Stub implementations for advanced features
-    private async identifyProjectStructure(rootPath: string): Promise<any> { return {}; }
-    private async findArchitecturalEntryPoints(rootPath: string, patterns: any): Promise<ContextualFile[]> { return []; }
-    private async findConfigurationFiles(rootPath: string): Promise<ContextualFile[]> { return []; }
-    private async buildImportGraph(): Promise<any> { return {}; }
-    private findRelevantDependencyClusters(query: string, graph: any): any[] { return []; }
-    private async findFilesBySymbols(query: string, options: Required<SearchOptions>): Promise<ContextualFile[]> { return []; }
-    private async findRecentlyModifiedFiles(query: string): Promise<ContextualFile[]> { return []; }
-    private async findRelatedTestFiles(query: string, contextFiles: ContextualFile[]): Promise<ContextualFile[]> { return []; }
+    /**
+     * Entry points of the projects in a workspace folder: package entries,
+     * main functions and top-level files with conventional names
+     */
+    private identifyProjectStructure(rootPath: string): EntryPoint[] {
+        return this.buildImportGraph()?.getEntryPoints().filter(entry => this.isInFolder(entry.path, rootPath)) ?? [];
+    }
+
+    private async findArchitecturalEntryPoints(entryPoints: EntryPoint[]): Promise<ContextualFile[]> {
+        const files: ContextualFile[] = [];
+        for (const [rank, entry] of entryPoints.slice(0, MAX_ENTRY_POINTS).entries()) {
+            const file = await this.analyzeFile(entry.path);
+            if (file) {
+                file.relevanceScore = 0.6 - rank * 0.05;
+                files.push(file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Build, dependency, lint and test configuration, those the query names
+     * (`eslint`, `docker`, `tsconfig`) first, then the shallowest
+     */
+    private async findConfigurationFiles(rootPath: string, query: string): Promise<ContextualFile[]> {
+        const configPattern = `**/{${CONFIG_FILE_NAMES.join(',')}}`;
+        const uris = (await fileEnumerator.listFiles({
+            under: rootPath,
+            filter: filePath => matchesGlob(path.relative(rootPath, filePath), [configPattern]),
+            maxResults: 200
+        })).map(filePath => vscode.Uri.file(filePath));
+
+        const terms = query.toLowerCase().split(/[^\w]+/).filter(term => term.length >= 4);
+        const named = (uri: vscode.Uri) => {
+            const stem = path.basename(uri.fsPath).toLowerCase().replace(/^\./, '').split(/[.\-_]/)[0];
+            return terms.some(term => stem.startsWith(term));
+        };
+        const depth = (uri: vscode.Uri) => path.relative(rootPath, uri.fsPath).split(/[\\/]/).length;
+        const ranked = uris.sort((a, b) => Number(named(b)) - Number(named(a)) || depth(a) - depth(b) || a.fsPath.localeCompare(b.fsPath));
+
+        const files: ContextualFile[] = [];
+        for (const uri of ranked.slice(0, MAX_CONFIG_FILES)) {
+            const file = await this.analyzeFile(uri.fsPath);
+            if (file) {
+                file.relevanceScore = named(uri) ? 0.7 : 0.35;
+                files.push(file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * The resolved import graph of the indexed files, or undefined before the
+     * workspace is indexed
+     */
+    private buildImportGraph(): ProjectGraph | undefined {
+        return workspaceIndex.hasFiles() ? workspaceIndex.getGraph() : undefined;
+    }
+
+    /**
+     * Files around the ones a query is about: the active file and the best
+     * index matches, each with what it imports and what imports it
+     */
+    private findRelevantDependencyClusters(query: string, graph: ProjectGraph): { seed: string; neighbours: string[] }[] {
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const seeds = [
+            ...(activeFile && workspaceIndex.getFile(activeFile) ? [activeFile] : []),
+            ...workspaceIndex.search(query.split(/[^\w$]+/), 3).map(result => result.path)
+        ];
+
+        return [...new Set(seeds)].map(seed => ({
+            seed,
+            neighbours: [...graph.getImports(seed), ...graph.getImporters(seed)].filter(filePath => !isTestFile(filePath))
+        }));
+    }
+
+    /**
+     * Files defining the identifiers a query names in code form: camelCase,
+     * PascalCase, snake_case, `quoted` or called()
+     */
+    private async findFilesBySymbols(query: string, options: Required<SearchOptions>): Promise<ContextualFile[]> {
+        if (!workspaceIndex.hasFiles()) {
+            return [];
+        }
+
+        const filter = this.createIndexFilter(options);
+        const files: ContextualFile[] = [];
+        for (const name of this.extractSymbolNames(query)) {
+            for (const entry of workspaceIndex.findDefinitions(name).filter(entry => filter(entry.path))) {
+                if (files.length >= MAX_SYMBOL_FILES || files.some(file => file.path === entry.path)) {
+                    continue;
+                }
+                const file = await this.analyzeFile(entry.path);
+                if (file) {
+                    file.relevanceScore = 0.9;
+                    file.matchRanges = this.findExactMatches(file.content, name);
+                    files.push(file);
+                }
+            }
+        }
+        return files;
+    }
+
+    private extractSymbolNames(query: string): string[] {
+        const names = new Set<string>();
+        for (const match of query.matchAll(/`([^`]+)`|([A-Za-z_$][\w$]*)(\s*\()?/g)) {
+            const name = (match[1] ?? match[2]).replace(/\(\)$/, '').trim();
+            const looksLikeCode = match[1] !== undefined || match[3] !== undefined || /[a-z\d][A-Z]|[A-Za-z\d]_[A-Za-z\d]/.test(name);
+            if (looksLikeCode && /^[A-Za-z_$][\w$]*$/.test(name)) {
+                names.add(name);
+            }
+        }
+        return [...names];
+    }
+
+    /**
+     * Files saved in the last week, those mentioning the query's words first
+     */
+    private async findRecentlyModifiedFiles(query: string): Promise<ContextualFile[]> {
+        const terms = query.toLowerCase().split(/[^\w$]+/).filter(term => term.length >= 3);
+        const mentions = (identifiers: string[]) => identifiers.some(identifier => terms.includes(identifier.toLowerCase()));
+        const recent = workspaceIndex.getRecentFiles(50)
+            .filter(entry => Date.now() - entry.mtime < RECENT_FILE_AGE)
+            .sort((a, b) => Number(mentions(b.identifiers)) - Number(mentions(a.identifiers)));
+
+        const files: ContextualFile[] = [];
+        for (const entry of recent.slice(0, MAX_RECENT_FILES)) {
+            const file = await this.analyzeFile(entry.path);
+            if (file) {
+                file.relevanceScore = mentions(entry.identifiers) ? 0.6 : 0.3;
+                files.push(file);
+            }
+        }
+        return files;
+    }
+
+    /**
+     * Tests for the files found so far, by imports and naming conventions,
+     * scored a little below the file they test
+     */
+    private async findRelatedTestFiles(query: string, contextFiles: ContextualFile[]): Promise<ContextualFile[]> {
+        const graph = this.buildImportGraph();
+        if (!graph) {
+            return [];
+        }
+
+        const files: ContextualFile[] = [];
+        const sources = [...contextFiles].sort((a, b) => b.relevanceScore - a.relevanceScore);
+        for (const source of sources) {
+            for (const testPath of graph.getTestsFor(source.path)) {
+                if (files.length >= MAX_TEST_FILES || files.some(file => file.path === testPath)) {
+                    continue;
+                }
+                const file = await this.analyzeFile(testPath);
+                if (file) {
+                    file.relevanceScore = Math.min(source.relevanceScore, 1) * 0.8;
+                    files.push(file);
+                }
+            }
+        }
+        return files;
+    }
+
+    /**
+     * How many imports each nearby file is from the file open in the editor
+     */
+    private getActiveFileDistances(): Map<string, number> {
+        const activeFile = vscode.window.activeTextEditor?.document.uri.fsPath;
+        const graph = activeFile && workspaceIndex.getFile(activeFile) ? this.buildImportGraph() : undefined;
+        return graph ? graph.getDistances(activeFile!, GRAPH_PROXIMITY_BOOST.length - 1) : new Map();
+    }
+
+    private isInFolder(filePath: string, folderPath: string): boolean {
+        const relativePath = path.relative(folderPath, filePath);
+        return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    }
 }
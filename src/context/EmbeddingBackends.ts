@@ -0,0 +1,223 @@
+import axios from 'axios';
+import { RedactionFinding, secretRedactor } from '../providers/SecretRedaction';
+
+/**
+ * Embedding backends for semantic code search: a local hashing backend and
+ * provider embedding APIs (OpenAI, OpenAI-compatible servers, Ollama).
+ */
+
+export interface EmbeddingBackend {
+    // Vectors from different backends can't be compared, so a new id discards stored vectors
+    readonly id: string;
+    readonly batchSize: number;
+    embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export type EmbeddingProvider = 'local' | 'openai' | 'openai-compatible' | 'ollama';
+
+export interface EmbeddingSettings {
+    provider?: EmbeddingProvider;
+    model?: string;
+    endpoint?: string;
+}
+
+// Question words that say nothing about the code being asked about
+const STOP_WORDS = new Set(['the', 'and', 'for', 'how', 'does', 'what', 'where', 'which', 'why', 'with', 'this', 'that', 'are', 'is', 'do', 'to', 'of', 'in', 'on', 'an', 'it', 'be']);
+
+const LOCAL_DIMENSIONS = 512;
+const REQUEST_TIMEOUT = 60000;
+// Chunks are around 40 lines, so this only cuts unusually long lines
+const MAX_EMBEDDED_CHARS = 8000;
+
+export class LocalEmbeddingBackend implements EmbeddingBackend {
+    public readonly id = `local-hash-${LOCAL_DIMENSIONS}`;
+    public readonly batchSize = 256;
+
+    public async embed(texts: string[]): Promise<Float32Array[]> {
+        return texts.map(text => this.embedText(text));
+    }
+
+    private embedText(text: string): Float32Array {
+        const features = new Map<string, number>();
+        const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) ?? 0) + weight);
+
+        for (const word of tokenize(text)) {
+            add(word, 1);
+            // Trigrams let related word forms (token, tokens, tokenize) share features
+            const padded = `<${word}>`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                add(`#${padded.slice(i, i + 3)}`, 0.25);
+            }
+        }
+
+        const vector = new Float32Array(LOCAL_DIMENSIONS);
+        for (const [feature, weight] of features) {
+            const hash = hashFeature(feature);
+            // The sign bit spreads collisions so they cancel out rather than add up
+            vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000 ? -1 : 1) * Math.log(1 + weight);
+        }
+        return normalize(vector);
+    }
+}
+
+/**
+ * OpenAI's embeddings endpoint, or any server implementing it
+ */
+export class OpenAIEmbeddingBackend implements EmbeddingBackend {
+    public readonly id: string;
+    public readonly batchSize = 64;
+
+    constructor(
+        private readonly baseUrl: string,
+        private readonly model: string,
+        private readonly getApiKey: () => Promise<string | undefined> = async () => undefined,
+        private readonly requiresApiKey = false
+    ) {
+        this.id = `openai:${baseUrl}:${model}`;
+    }
+
+    public async embed(texts: string[]): Promise<Float32Array[]> {
+        const apiKey = await this.getApiKey();
+        if (this.requiresApiKey && !apiKey) {
+            throw new Error('Semantic search needs an OpenAI API key; add one in Cuovare settings or set cuovare.context.embeddingProvider to "local"');
+        }
+
+        const response = await axios.post(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+            model: this.model,
+            input: prepareTexts(texts, this.baseUrl, this.model)
+        }, {
+            headers: { 'Content-Type': 'application/json', ...(apiKey && { 'Authorization': `Bearer ${apiKey}` }) },
+            timeout: REQUEST_TIMEOUT
+        });
+
+        const data: { index: number; embedding: number[] }[] = response.data?.data;
+        if (!Array.isArray(data) || data.length !== texts.length) {
+            throw new Error(`The embeddings API returned ${Array.isArray(data) ? data.length : 'no'} embeddings for ${texts.length} texts`);
+        }
+        return [...data].sort((a, b) => a.index - b.index).map(item => normalize(Float32Array.from(item.embedding)));
+    }
+}
+
+export class OllamaEmbeddingBackend implements EmbeddingBackend {
+    public readonly id: string;
+    public readonly batchSize = 32;
+
+    constructor(private readonly baseUrl: string, private readonly model: string) {
+        this.id = `ollama:${baseUrl}:${model}`;
+    }
+
+    public async embed(texts: string[]): Promise<Float32Array[]> {
+        const response = await axios.post(`${this.baseUrl.replace(/\/+$/, '')}/api/embed`, {
+            model: this.model,
+            input: prepareTexts(texts, this.baseUrl, this.model)
+        }, { timeout: REQUEST_TIMEOUT });
+
+        const embeddings: number[][] = response.data?.embeddings;
+        if (!Array.isArray(embeddings) || embeddings.length !== texts.length) {
+            throw new Error(`Ollama returned no embeddings; is the model "${this.model}" pulled?`);
+        }
+        return embeddings.map(embedding => normalize(Float32Array.from(embedding)));
+    }
+}
+
+/**
+ * The backend for the user's settings; `getApiKey` looks up a provider's stored key
+ */
+export function createEmbeddingBackend(
+    settings: EmbeddingSettings,
+    getApiKey: (provider: string) => Promise<string | undefined>
+): EmbeddingBackend {
+    switch (settings.provider) {
+        case 'openai':
+            return new OpenAIEmbeddingBackend(
+                settings.endpoint || 'https://api.openai.com/v1',
+                settings.model || 'text-embedding-3-small',
+                () => getApiKey('openai'),
+                true
+            );
+        case 'openai-compatible':
+            return new OpenAIEmbeddingBackend(settings.endpoint || 'http://localhost:8080/v1', settings.model || 'nomic-embed-text');
+        case 'ollama':
+            return new OllamaEmbeddingBackend(settings.endpoint || 'http://localhost:11434', settings.model || 'nomic-embed-text');
+        default:
+            return new LocalEmbeddingBackend();
+    }
+}
+
+/**
+ * Cosine similarity of two vectors from `embed`, which are normalized
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+    let dot = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i] * b[i];
+    }
+    return dot;
+}
+
+/**
+ * Lowercase words for matching code and questions: identifiers are split at
+ * camelCase and snake_case boundaries, and kept whole when they have parts
+ */
+export function tokenize(text: string): string[] {
+    const words: string[] = [];
+    for (const [identifier] of text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+        const parts = identifier
+            .split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/)
+            .map(part => part.toLowerCase())
+            .filter(part => part.length >= 2 && !STOP_WORDS.has(part));
+        words.push(...parts);
+        if (parts.length > 1) {
+            words.push(parts.join(''));
+        }
+    }
+    return words;
+}
+
+function normalize(vector: Float32Array): Float32Array {
+    let sum = 0;
+    for (const value of vector) {
+        sum += value * value;
+    }
+    const length = Math.sqrt(sum);
+    if (length > 0) {
+        for (let i = 0; i < vector.length; i++) {
+            vector[i] /= length;
+        }
+    }
+    return vector;
+}
+
+function clip(text: string): string {
+    return text.length > MAX_EMBEDDED_CHARS ? text.slice(0, MAX_EMBEDDED_CHARS) : text;
+}
+
+/**
+ * Texts as they may be sent to the embeddings API at `baseUrl`
+ */
+function prepareTexts(texts: string[], baseUrl: string, model: string): string[] {
+    if (!secretRedactor.appliesTo(baseUrl)) {
+        return texts.map(clip);
+    }
+
+    const findings: RedactionFinding[] = [];
+    const prepared = texts.map(text => {
+        const result = secretRedactor.redact(text);
+        findings.push(...result.findings);
+        return clip(result.text);
+    });
+    if (findings.length > 0) {
+        secretRedactor.record('embeddings', model, findings);
+    }
+    return prepared;
+}
+
+// FNV-1a
+function hashFeature(feature: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+        hash ^= feature.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
@@ -1,6 +1,7 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import { fileEnumerator } from './FileEnumerator';
 
 export interface FileContext {
     path: string;
@@ -18,20 +19,6 @@ export interface ProjectContext {
 }
 
 export class FileContextManager {
-    private excludePatterns = [
-        '**/node_modules/**',
-        '**/dist/**',
-        '**/build/**',
-        '**/out/**',
-        '**/.git/**',
-        '**/coverage/**',
-        '**/*.min.js',
-        '**/*.map',
-        '**/logs/**',
-        '**/temp/**',
-        '**/tmp/**'
-    ];
-
     private maxFileSize = 1024 * 1024; // 1MB
     private maxTotalFiles = 50;
 
@@ -63,7 +50,7 @@ export class FileContextManager {
         // Add project files up to the limit
         const remainingSlots = Math.max(0, maxContextFiles - files.length);
         if (remainingSlots > 0) {
-            const projectFiles = await this.getProjectFiles(workspaceFolders[0], remainingSlots);
+            const projectFiles = await this.getProjectFiles(remainingSlots);
             
             // Filter out already included files
             const existingPaths = new Set(files.map(f => f.path));
@@ -87,7 +74,8 @@ export class FileContextManager {
         const openFiles: FileContext[] = [];
         
         for (const editor of vscode.window.visibleTextEditors) {
-            if (editor.document.uri.scheme === 'file') {
+            // An ignored file stays out of context even while it's open
+            if (editor.document.uri.scheme === 'file' && !fileEnumerator.isIgnored(editor.document.uri.fsPath)) {
                 const fileContext = await this.createFileContext(editor.document.uri);
                 if (fileContext) {
                     openFiles.push(fileContext);
@@ -118,16 +106,14 @@ export class FileContextManager {
         }
     }
 
-    private async getProjectFiles(workspaceFolder: vscode.WorkspaceFolder, maxFiles: number): Promise<FileContext[]> {
+    private async getProjectFiles(maxFiles: number): Promise<FileContext[]> {
         const files: FileContext[] = [];
         
         try {
-            // Find relevant files using VS Code's file search
-            const fileUris = await vscode.workspace.findFiles(
-                '**/*',
-                `{${this.excludePatterns.join(',')}}`,
-                maxFiles * 2 // Get more files to filter later
-            );
+            // Files in every workspace folder that aren't ignored
+            const fileUris = (await fileEnumerator.listFiles({
+                maxResults: maxFiles * 2 // Get more files to filter later
+            })).map(filePath => vscode.Uri.file(filePath));
 
             // Prioritize important files
             const sortedUris = this.prioritizeFiles(fileUris);
@@ -253,11 +239,7 @@ export class FileContextManager {
         const results: FileContext[] = [];
         
         try {
-            const uris = await vscode.workspace.findFiles(
-                '**/*',
-                `{${this.excludePatterns.join(',')}}`,
-                100
-            );
+            const uris = (await fileEnumerator.listFiles({ maxResults: 100 })).map(filePath => vscode.Uri.file(filePath));
 
             for (const uri of uris) {
                 const content = await this.getFileContent(uri.fsPath);
@@ -276,12 +258,9 @@ export class FileContextManager {
     }
 
     public getRelativePath(filePath: string): string {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
+        if (!fileEnumerator.getRoot(filePath)) {
             return path.basename(filePath);
         }
-
-        const workspacePath = workspaceFolders[0].uri.fsPath;
-        return path.relative(workspacePath, filePath);
+        return fileEnumerator.toDisplayPath(filePath);
     }
 }
@@ -0,0 +1,325 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * The workspace files context gathering, search and navigation may look at,
+ * honoring `.gitignore` and `.cuovareignore` in every workspace folder.
+ */
+
+export const IGNORE_FILE_NAMES = ['.gitignore', '.cuovareignore'];
+
+// Applied before any ignore file, in the same syntax, so an ignore file can re-include them
+export const DEFAULT_IGNORE_PATTERNS = [
+    'node_modules/', '.git/', 'dist/', 'build/', 'out/', 'coverage/', 'logs/', 'temp/', 'tmp/',
+    '.vscode/', '.idea/', '.next/', '.nuxt/', '__pycache__/', '.pytest_cache/', '.mypy_cache/',
+    '.venv/', 'venv/', 'target/', 'bin/', 'obj/',
+    '*.min.js', '*.min.css', '*.map', '*.log', '*.pid',
+    'package-lock.json', 'yarn.lock', 'pnpm-lock.yaml', '.DS_Store', 'Thumbs.db'
+];
+
+export interface WorkspaceRoot {
+    name: string;
+    path: string;
+}
+
+export interface ListFilesOptions {
+    under?: string; // Only files in this folder; every workspace folder by default
+    maxResults?: number;
+    filter?: (filePath: string) => boolean;
+}
+
+interface IgnoreRule {
+    regex: RegExp;
+    negate: boolean;
+    directoryOnly: boolean;
+}
+
+const DEFAULT_RULES = parseIgnoreFile(DEFAULT_IGNORE_PATTERNS.join('\n'));
+
+export class FileEnumerator {
+    private roots: WorkspaceRoot[] = [];
+    // Folders above each root up to its repository's top, whose .gitignore files also apply
+    private outerFolders = new Map<string, string[]>();
+    private rules = new Map<string, IgnoreRule[]>();
+
+    // Files left out on top of the ignore rules, such as paths the redaction policy blocks
+    public excludeFile?: (filePath: string) => boolean;
+
+    public configure(roots: WorkspaceRoot[]): void {
+        this.roots = roots.map(root => ({ name: root.name, path: path.resolve(root.path) }));
+        this.outerFolders = new Map(this.roots.map(root => [root.path, findOuterFolders(root.path)]));
+        this.clearCache();
+    }
+
+    public getRoots(): WorkspaceRoot[] {
+        return [...this.roots];
+    }
+
+    /**
+     * The workspace folder containing a path; the innermost one when folders nest
+     */
+    public getRoot(filePath: string): WorkspaceRoot | undefined {
+        const absolute = path.resolve(filePath);
+        return this.roots
+            .filter(root => isInside(root.path, absolute))
+            .reduce<WorkspaceRoot | undefined>((best, root) => !best || root.path.length > best.path.length ? root : best, undefined);
+    }
+
+    /**
+     * Forget the ignore files read so far, after one is created, changed or deleted
+     */
+    public clearCache(): void {
+        this.rules.clear();
+    }
+
+    /**
+     * Files in the workspace folders, shallowest first, that aren't ignored
+     * and pass `filter`
+     */
+    public async listFiles(options: ListFilesOptions = {}): Promise<string[]> {
+        const maxResults = options.maxResults ?? Number.MAX_SAFE_INTEGER;
+        const start = options.under && path.resolve(options.under);
+        const queue = start
+            ? [{ root: this.getRoot(start) ?? { name: path.basename(start), path: start }, folder: start }]
+            : this.roots.map(root => ({ root, folder: root.path }));
+        const files: string[] = [];
+
+        // Breadth first, so a capped listing keeps the files nearest the top
+        while (queue.length > 0 && files.length < maxResults) {
+            const { root, folder } = queue.shift()!;
+            let entries: fs.Dirent[];
+            try {
+                entries = await fs.promises.readdir(folder, { withFileTypes: true });
+            } catch {
+                continue;
+            }
+
+            for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+                const fullPath = path.join(folder, entry.name);
+                if (entry.isDirectory()) {
+                    if (!this.isEntryIgnored(root, fullPath, true)) {
+                        queue.push({ root, folder: fullPath });
+                    }
+                } else if (entry.isFile() && !this.isEntryIgnored(root, fullPath, false) && !this.excludeFile?.(fullPath) && (!options.filter || options.filter(fullPath))) {
+                    files.push(fullPath);
+                    if (files.length >= maxResults) {
+                        break;
+                    }
+                }
+            }
+        }
+
+        return files;
+    }
+
+    /**
+     * Whether a file (or folder) in a workspace folder is excluded by default
+     * or by an ignore file, itself or through a folder above it, or a file is
+     * excluded through `excludeFile`. Other paths outside the workspace
+     * folders aren't ignored.
+     */
+    public isIgnored(filePath: string, isDirectory = false): boolean {
+        const absolute = path.resolve(filePath);
+        if (!isDirectory && this.excludeFile?.(absolute)) {
+            return true;
+        }
+        const root = this.getRoot(absolute);
+        if (!root) {
+            return false;
+        }
+
+        const segments = path.relative(root.path, absolute).split(path.sep).filter(Boolean);
+        let current = root.path;
+        return segments.some((segment, i) => {
+            current = path.join(current, segment);
+            return this.isEntryIgnored(root, current, i < segments.length - 1 || isDirectory);
+        });
+    }
+
+    /**
+     * A path as shown to the user and the model: relative to its workspace
+     * folder, and prefixed with the folder's name when there are several
+     */
+    public toDisplayPath(filePath: string): string {
+        const root = this.getRoot(filePath);
+        if (!root) {
+            return filePath;
+        }
+        const relative = path.relative(root.path, path.resolve(filePath));
+        return this.roots.length > 1 ? path.join(root.name, relative) : relative;
+    }
+
+    /**
+     * The existing file a display path (or a path relative to any workspace
+     * folder) refers to
+     */
+    public resolveDisplayPath(displayPath: string): string | undefined {
+        if (path.isAbsolute(displayPath)) {
+            return fs.existsSync(displayPath) ? displayPath : undefined;
+        }
+
+        const [first, ...rest] = displayPath.split(/[\\/]/);
+        const named = this.roots.length > 1 ? this.roots.find(root => root.name === first) : undefined;
+        const candidates = [
+            ...(named ? [path.join(named.path, ...rest)] : []),
+            ...this.roots.map(root => path.join(root.path, displayPath))
+        ];
+        return candidates.find(candidate => fs.existsSync(candidate));
+    }
+
+    /**
+     * Whether an entry is ignored, given that the folders above it aren't:
+     * the default patterns, then the ignore files from the repository's top
+     * down to the entry's folder, with the last matching rule deciding
+     */
+    private isEntryIgnored(root: WorkspaceRoot, entryPath: string, isDirectory: boolean): boolean {
+        let ignored = applyRules(DEFAULT_RULES, toSlashes(path.relative(root.path, entryPath)), isDirectory, false);
+
+        for (const folder of this.getRuleFolders(root, path.dirname(entryPath))) {
+            ignored = applyRules(this.getRules(folder), toSlashes(path.relative(folder, entryPath)), isDirectory, ignored);
+        }
+        return ignored;
+    }
+
+    private getRuleFolders(root: WorkspaceRoot, folder: string): string[] {
+        const folders: string[] = [];
+        for (let current = folder; isInside(root.path, current); current = path.dirname(current)) {
+            folders.unshift(current);
+            if (current === root.path) {
+                break;
+            }
+        }
+        return [...(this.outerFolders.get(root.path) ?? []), ...folders];
+    }
+
+    private getRules(folder: string): IgnoreRule[] {
+        let rules = this.rules.get(folder);
+        if (!rules) {
+            // A repository's own exclude file has the lowest priority of its ignore files
+            const sources = [path.join(folder, '.git', 'info', 'exclude'), ...IGNORE_FILE_NAMES.map(name => path.join(folder, name))];
+            rules = sources.flatMap(source => parseIgnoreFile(readTextFile(source)));
+            this.rules.set(folder, rules);
+        }
+        return rules;
+    }
+}
+
+/**
+ * Rules from an ignore file in `.gitignore` syntax: `#` comments, `!`
+ * negation, a trailing `/` for folders only, a `/` anywhere else anchoring the
+ * pattern to the file's folder, and `*`, `?`, `[...]` and `**` wildcards
+ */
+function parseIgnoreFile(content: string): IgnoreRule[] {
+    const rules: IgnoreRule[] = [];
+    for (const line of content.split(/\r?\n/)) {
+        let pattern = line.replace(/(?<!\\)\s+$/, '');
+        if (!pattern || pattern.startsWith('#')) {
+            continue;
+        }
+
+        const negate = pattern.startsWith('!');
+        if (negate || pattern.startsWith('\\!') || pattern.startsWith('\\#')) {
+            pattern = pattern.slice(1);
+        }
+        const directoryOnly = pattern.endsWith('/');
+        pattern = pattern.replace(/\/+$/, '');
+        const anchored = pattern.includes('/');
+        pattern = pattern.replace(/^\//, '');
+        if (!pattern) {
+            continue;
+        }
+
+        rules.push({ regex: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${translatePattern(pattern)}$`), negate, directoryOnly });
+    }
+    return rules;
+}
+
+function translatePattern(pattern: string): string {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '\\' && i + 1 < pattern.length) {
+            source += escapeRegExp(pattern[++i]);
+        } else if (char === '*' && pattern[i + 1] === '*' && (i === 0 || pattern[i - 1] === '/')) {
+            if (pattern[i + 2] === '/') {
+                // `**/` also matches no folders at all
+                source += '(?:.*/)?';
+                i += 2;
+            } else if (i + 2 === pattern.length) {
+                source += '.+';
+                i += 1;
+            } else {
+                source += '[^/]*';
+                i += 1;
+            }
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 2);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                const set = pattern.slice(i + 1, end).replace(/^!/, '^');
+                source += `[${set}]`;
+                i = end;
+            }
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return source;
+}
+
+function applyRules(rules: IgnoreRule[], relativePath: string, isDirectory: boolean, ignored: boolean): boolean {
+    for (const rule of rules) {
+        if ((!rule.directoryOnly || isDirectory) && rule.regex.test(relativePath)) {
+            ignored = !rule.negate;
+        }
+    }
+    return ignored;
+}
+
+/**
+ * The folders from the top of the repository containing `root` down to
+ * `root`'s parent; none when `root` is the top or isn't in a repository
+ */
+function findOuterFolders(root: string): string[] {
+    if (fs.existsSync(path.join(root, '.git'))) {
+        return [];
+    }
+    const folders: string[] = [];
+    for (let current = root; current !== path.dirname(current);) {
+        current = path.dirname(current);
+        folders.unshift(current);
+        if (fs.existsSync(path.join(current, '.git'))) {
+            return folders;
+        }
+    }
+    return [];
+}
+
+function isInside(root: string, target: string): boolean {
+    const relative = path.relative(root, target);
+    return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+}
+
+function toSlashes(filePath: string): string {
+    return filePath.split(path.sep).join('/');
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+function readTextFile(filePath: string): string {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return '';
+    }
+}
+
+// Shared instance, configured with the workspace folders by the extension
+export const fileEnumerator = new FileEnumerator();
@@ -0,0 +1,603 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { IndexedFile } from './WorkspaceIndex';
+
+/**
+ * The workspace's import graph, resolved from the workspace index, with entry
+ * points, source/test pairs and the import distance between files.
+ */
+
+// Tried in order when an import names a file without its extension
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+// Package.json fields naming a package's entry, the source first when a package declares it
+const PACKAGE_ENTRY_FIELDS = ['source', 'types', 'typings', 'module', 'main'];
+const EXPORT_CONDITIONS = ['source', 'types', 'import', 'module', 'require', 'node', 'default'];
+// Build output folders; a package entry pointing into one is looked up under src instead
+const OUTPUT_DIRECTORIES = ['dist', 'out', 'lib', 'build', 'esm', 'cjs'];
+const ENTRY_POINT_NAMES = ['index', 'main', 'app', 'server', 'cli', 'extension', '__main__', 'manage', 'program'];
+
+/**
+ * Files that configure a project's build, dependencies, linting and tests,
+ * as globs relative to any folder
+ */
+export const CONFIG_FILE_NAMES = [
+    'package.json', 'tsconfig*.json', 'jsconfig.json',
+    '.eslintrc*', 'eslint.config.*', '.prettierrc*', 'prettier.config.*', 'babel.config.*', '.babelrc',
+    'webpack.config.*', 'vite.config.*', 'rollup.config.*', 'esbuild.config.*', 'next.config.*',
+    'jest.config.*', 'vitest.config.*', '.mocharc*', 'karma.conf.*',
+    'pyproject.toml', 'setup.py', 'setup.cfg', 'requirements*.txt', 'Pipfile', 'tox.ini',
+    'pom.xml', 'build.gradle*', 'settings.gradle*', 'Cargo.toml', 'go.mod',
+    'Dockerfile', 'docker-compose*.yml', 'Makefile'
+];
+
+export interface EntryPoint {
+    path: string;
+    reason: 'package entry' | 'main function' | 'conventional name';
+}
+
+interface PathAliases {
+    dir: string; // Folder the config is in; it applies to files below
+    baseUrl?: string;
+    paths: [pattern: string, targets: string[]][];
+}
+
+interface WorkspacePackage {
+    dir: string;
+    manifest: any;
+}
+
+export class ProjectGraph {
+    private paths: Set<string>;
+    private files = new Map<string, IndexedFile>();
+    private imports = new Map<string, Set<string>>();
+    private importers = new Map<string, Set<string>>();
+    private aliases: PathAliases[] = [];
+    private packages = new Map<string, WorkspacePackage>();
+    private modulesByName = new Map<string, string[]>(); // Python module or Java class name to files
+    private javaFilesByDirectory = new Map<string, string[]>();
+
+    constructor(files: IndexedFile[], private readonly readText: (filePath: string) => string | undefined = readTextFile) {
+        this.paths = new Set(files.map(file => file.path));
+        for (const file of files) {
+            this.files.set(file.path, file);
+            this.indexModule(file.path);
+        }
+        this.loadProjectConfigs();
+
+        for (const file of files) {
+            for (const specifier of file.imports) {
+                for (const target of this.resolve(file, specifier)) {
+                    if (target !== file.path) {
+                        this.addEdge(file.path, target);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Indexed files `filePath` imports
+     */
+    public getImports(filePath: string): string[] {
+        return [...this.imports.get(filePath) ?? []];
+    }
+
+    /**
+     * Indexed files importing `filePath`
+     */
+    public getImporters(filePath: string): string[] {
+        return [...this.importers.get(filePath) ?? []];
+    }
+
+    /**
+     * How many imports away each file within `maxDepth` is from `filePath`,
+     * following imports in either direction. `filePath` itself is at 0.
+     */
+    public getDistances(filePath: string, maxDepth = 3): Map<string, number> {
+        const distances = new Map<string, number>();
+        if (!this.paths.has(filePath)) {
+            return distances;
+        }
+
+        distances.set(filePath, 0);
+        let frontier = [filePath];
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+            const next: string[] = [];
+            for (const current of frontier) {
+                for (const neighbour of [...this.imports.get(current) ?? [], ...this.importers.get(current) ?? []]) {
+                    if (!distances.has(neighbour)) {
+                        distances.set(neighbour, depth);
+                        next.push(neighbour);
+                    }
+                }
+            }
+            frontier = next;
+        }
+        return distances;
+    }
+
+    /**
+     * Files a project starts from: package entries, files with a main
+     * function or `__main__` guard, and top-level files with conventional
+     * names such as index, main or app. Most certain first, then by how much
+     * of the project they import.
+     */
+    public getEntryPoints(): EntryPoint[] {
+        const declared = this.getPackageEntries();
+        const projectDirs = [...new Set([...[...this.packages.values()].map(pkg => pkg.dir), ...this.aliases.map(config => config.dir)])];
+        const shallowest = [...this.paths].reduce((min, filePath) => Math.min(min, filePath.split(/[\\/]/).length), Infinity);
+        const ranks: Record<EntryPoint['reason'], number> = { 'package entry': 0, 'main function': 1, 'conventional name': 2 };
+        const entryPoints: EntryPoint[] = [];
+
+        for (const file of this.files.values()) {
+            if (isTestFile(file.path) || file.language === 'json' || file.language === 'markdown') {
+                continue;
+            }
+            const name = path.basename(file.path).replace(/\.[^.]+$/, '');
+            if (declared.has(file.path)) {
+                entryPoints.push({ path: file.path, reason: 'package entry' });
+            } else if (hasMainFunction(file)) {
+                entryPoints.push({ path: file.path, reason: 'main function' });
+            } else if (ENTRY_POINT_NAMES.includes(name) && isTopLevel(file.path, projectDirs, shallowest)) {
+                entryPoints.push({ path: file.path, reason: 'conventional name' });
+            }
+        }
+
+        const fanOut = (filePath: string) => this.imports.get(filePath)?.size ?? 0;
+        return entryPoints.sort((a, b) => ranks[a.reason] - ranks[b.reason] || fanOut(b.path) - fanOut(a.path) || a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Tests covering `filePath`: tests importing it, then tests named after it
+     * (`auth.test.ts`, `test_auth.py`, `AuthTest.java`)
+     */
+    public getTestsFor(filePath: string): string[] {
+        if (isTestFile(filePath)) {
+            return [];
+        }
+        const name = getBaseName(filePath);
+        const importing = this.getImporters(filePath).filter(isTestFile);
+        const named = [...this.paths].filter(candidate => isTestFile(candidate) && getTestSubject(candidate) === name);
+        return rankPairs(importing, named);
+    }
+
+    /**
+     * Source files a test covers: the files it imports that it's named after,
+     * then other imported non-test files, then same-named files it doesn't import
+     */
+    public getSourcesFor(testPath: string): string[] {
+        if (!isTestFile(testPath)) {
+            return [];
+        }
+        const subject = getTestSubject(testPath);
+        const imported = this.getImports(testPath).filter(candidate => !isTestFile(candidate));
+        const named = [...this.paths].filter(candidate => !isTestFile(candidate) && getBaseName(candidate) === subject
+            && path.extname(candidate) !== '.json' && path.extname(candidate) !== '.md');
+        return rankPairs(imported, named);
+    }
+
+    private addEdge(from: string, to: string): void {
+        if (!this.imports.has(from)) {
+            this.imports.set(from, new Set());
+        }
+        if (!this.importers.has(to)) {
+            this.importers.set(to, new Set());
+        }
+        this.imports.get(from)!.add(to);
+        this.importers.get(to)!.add(from);
+    }
+
+    private resolve(file: IndexedFile, specifier: string): string[] {
+        switch (file.language) {
+            case 'python':
+                return this.resolvePython(file.path, specifier);
+            case 'java':
+                return this.resolveJava(specifier);
+            default: {
+                const target = this.resolveScript(file.path, specifier);
+                return target ? [target] : [];
+            }
+        }
+    }
+
+    private resolveScript(fromFile: string, specifier: string): string | undefined {
+        if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+            return this.resolveFile(path.resolve(path.dirname(fromFile), specifier));
+        }
+
+        const config = this.aliases.find(candidate => isInside(fromFile, candidate.dir));
+        if (config) {
+            const root = config.baseUrl ?? config.dir;
+            for (const [pattern, targets] of config.paths) {
+                const wildcard = matchPattern(pattern, specifier);
+                if (wildcard === undefined) {
+                    continue;
+                }
+                for (const target of targets) {
+                    const resolved = this.resolveFile(path.resolve(root, target.replace('*', wildcard)));
+                    if (resolved) {
+                        return resolved;
+                    }
+                }
+            }
+        }
+
+        const packageTarget = this.resolvePackage(specifier);
+        if (packageTarget) {
+            return packageTarget;
+        }
+
+        // With a baseUrl, bare specifiers can also name folders under it
+        return config?.baseUrl ? this.resolveFile(path.resolve(config.baseUrl, specifier)) : undefined;
+    }
+
+    /**
+     * An import of a package in the workspace, by its package.json exports,
+     * or its entry fields and folders when it has no exports
+     */
+    private resolvePackage(specifier: string): string | undefined {
+        const segments = specifier.split('/');
+        const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+        const pkg = this.packages.get(name);
+        if (!pkg) {
+            return undefined;
+        }
+
+        const subpath = specifier.slice(name.length) ? `.${specifier.slice(name.length)}` : '.';
+        const targets = pkg.manifest.exports !== undefined
+            ? [resolveExports(pkg.manifest.exports, subpath)]
+            : subpath === '.'
+                ? [...PACKAGE_ENTRY_FIELDS.map(field => pkg.manifest[field]), './index', './src/index']
+                : [subpath, subpath.replace(/^\./, './src')];
+
+        for (const target of targets.filter((value): value is string => typeof value === 'string')) {
+            const resolved = this.resolvePackageFile(pkg.dir, target);
+            if (resolved) {
+                return resolved;
+            }
+        }
+        return undefined;
+    }
+
+    // A target in build output maps back to its source when the output isn't indexed
+    private resolvePackageFile(packageDir: string, target: string): string | undefined {
+        const resolved = this.resolveFile(path.resolve(packageDir, target));
+        if (resolved) {
+            return resolved;
+        }
+        const [first, ...rest] = path.relative(packageDir, path.resolve(packageDir, target)).split(/[\\/]/);
+        if (OUTPUT_DIRECTORIES.includes(first) && rest.length > 0) {
+            return this.resolveFile(path.join(packageDir, 'src', ...rest));
+        }
+        return undefined;
+    }
+
+    private resolveFile(base: string): string | undefined {
+        // Node16-style imports name the compiled .js file of a .ts source
+        const stem = base.replace(/\.d\.[cm]?ts$|\.[cm]?jsx?$/, '');
+        const candidates = [
+            base,
+            ...SCRIPT_EXTENSIONS.map(extension => stem + extension),
+            ...SCRIPT_EXTENSIONS.map(extension => path.join(base, `index${extension}`))
+        ];
+        return candidates.find(candidate => this.paths.has(candidate));
+    }
+
+    private resolvePython(fromFile: string, specifier: string): string[] {
+        const dots = specifier.match(/^\.*/)![0].length;
+        const parts = specifier.slice(dots).split('.').filter(Boolean);
+
+        if (dots > 0) {
+            // One dot is the importing file's own package, each extra dot a parent
+            const base = path.resolve(path.dirname(fromFile), ...Array(dots - 1).fill('..'), ...parts);
+            const target = [`${base}.py`, path.join(base, '__init__.py')].find(candidate => this.paths.has(candidate));
+            return target ? [target] : [];
+        }
+        if (parts.length === 0) {
+            return [];
+        }
+
+        const suffix = `/${parts.join('/')}`;
+        const candidates = (this.modulesByName.get(parts[parts.length - 1]) ?? []).filter(candidate => {
+            const normalized = toSlashes(candidate).replace(/(\/__init__)?\.pyw?$/, '');
+            return /\.pyw?$/.test(candidate) && normalized.endsWith(suffix);
+        });
+        return closestTo(fromFile, candidates);
+    }
+
+    private resolveJava(specifier: string): string[] {
+        if (specifier.endsWith('.*')) {
+            const suffix = `/${specifier.slice(0, -2).replace(/\./g, '/')}`;
+            return [...this.javaFilesByDirectory.entries()]
+                .filter(([dir]) => toSlashes(dir).endsWith(suffix))
+                .flatMap(([, files]) => files);
+        }
+
+        // Static imports name a member, so shorter prefixes are tried until one names a class
+        const parts = specifier.split('.');
+        for (let length = parts.length; length > 1; length--) {
+            const suffix = `/${parts.slice(0, length).join('/')}`;
+            const candidates = (this.modulesByName.get(parts[length - 1]) ?? [])
+                .filter(candidate => /\.(java|kt)$/.test(candidate) && toSlashes(candidate).replace(/\.\w+$/, '').endsWith(suffix));
+            if (candidates.length > 0) {
+                return candidates;
+            }
+        }
+        return [];
+    }
+
+    private indexModule(filePath: string): void {
+        const extension = path.extname(filePath);
+        if (!['.py', '.pyw', '.java', '.kt'].includes(extension)) {
+            return;
+        }
+        const stem = path.basename(filePath, extension);
+        // A package's __init__.py is the module named after its folder
+        const name = stem === '__init__' ? path.basename(path.dirname(filePath)) : stem;
+        this.modulesByName.set(name, [...this.modulesByName.get(name) ?? [], filePath]);
+
+        if (extension === '.java' || extension === '.kt') {
+            const dir = path.dirname(filePath);
+            this.javaFilesByDirectory.set(dir, [...this.javaFilesByDirectory.get(dir) ?? [], filePath]);
+        }
+    }
+
+    private loadProjectConfigs(): void {
+        for (const filePath of this.paths) {
+            const name = path.basename(filePath);
+            if (name === 'package.json') {
+                const manifest = parseJson(this.readText(filePath));
+                if (manifest && typeof manifest === 'object') {
+                    const pkg = { dir: path.dirname(filePath), manifest };
+                    if (typeof manifest.name === 'string') {
+                        this.packages.set(manifest.name, pkg);
+                    } else {
+                        this.packages.set(filePath, pkg);
+                    }
+                }
+            } else if (/^[tj]sconfig(\..+)?\.json$/.test(name)) {
+                const options = this.readCompilerOptions(filePath, 0);
+                const dir = path.dirname(filePath);
+                this.aliases.push({
+                    dir,
+                    baseUrl: options.baseUrl,
+                    paths: Object.entries(options.paths ?? {})
+                        .filter((entry): entry is [string, string[]] => Array.isArray(entry[1]))
+                });
+            }
+        }
+        // The deepest config applies; of several in one folder, one declaring paths
+        const depth = (dir: string) => dir.split(/[\\/]/).length;
+        this.aliases.sort((a, b) => depth(b.dir) - depth(a.dir) || Number(b.paths.length > 0) - Number(a.paths.length > 0));
+    }
+
+    /**
+     * baseUrl (made absolute) and paths from a tsconfig, following relative `extends`
+     */
+    private readCompilerOptions(configPath: string, depth: number): { baseUrl?: string; paths?: Record<string, unknown> } {
+        const config = parseJson(this.readText(configPath));
+        if (!config || typeof config !== 'object' || depth > 5) {
+            return {};
+        }
+
+        const extended = typeof config.extends === 'string' && config.extends.startsWith('.')
+            ? this.readCompilerOptions(path.resolve(path.dirname(configPath), config.extends.endsWith('.json') ? config.extends : `${config.extends}.json`), depth + 1)
+            : {};
+        const options = config.compilerOptions ?? {};
+        // baseUrl is relative to the config declaring it, and paths to the baseUrl
+        const baseUrl = typeof options.baseUrl === 'string' ? path.resolve(path.dirname(configPath), options.baseUrl) : extended.baseUrl;
+        return {
+            baseUrl: baseUrl ?? (options.paths ? path.dirname(configPath) : undefined),
+            paths: options.paths ?? extended.paths
+        };
+    }
+
+    private getPackageEntries(): Set<string> {
+        const entries = new Set<string>();
+        for (const pkg of this.packages.values()) {
+            const { manifest } = pkg;
+            const bins = typeof manifest.bin === 'string' ? [manifest.bin] : Object.values(manifest.bin ?? {});
+            const targets = [
+                ...PACKAGE_ENTRY_FIELDS.filter(field => field !== 'types' && field !== 'typings').map(field => manifest[field]),
+                ...bins,
+                manifest.exports !== undefined ? resolveExports(manifest.exports, '.') : undefined
+            ];
+            for (const target of targets.filter((value): value is string => typeof value === 'string')) {
+                const resolved = this.resolvePackageFile(pkg.dir, target);
+                if (resolved) {
+                    entries.add(resolved);
+                }
+            }
+        }
+        return entries;
+    }
+}
+
+/**
+ * Whether a file is a test, by the naming conventions of its language
+ */
+export function isTestFile(filePath: string): boolean {
+    const name = path.basename(filePath);
+    return /\.(test|spec)\.[cm]?[jt]sx?$/i.test(name)
+        || /^test_.+\.py$|_test\.(py|go)$/.test(name)
+        || /(Test|Tests|IT)\.(java|kt)$/.test(name)
+        || toSlashes(filePath).includes('/__tests__/');
+}
+
+/**
+ * The name of the file a test covers: `auth` for `auth.unit.test.ts`,
+ * `test_auth.py` and `AuthTest.java` alike, compared lowercase
+ */
+function getTestSubject(testPath: string): string {
+    const name = getBaseName(testPath);
+    if (/\.(java|kt)$/.test(testPath)) {
+        return name.replace(/(tests?|it)$/, '');
+    }
+    return name.replace(/(\.(unit|integration|e2e|int))?\.(test|spec)$/, '').replace(/^test_|_test$/, '');
+}
+
+function getBaseName(filePath: string): string {
+    return path.basename(filePath).replace(/\.[^.]+$/, '').toLowerCase();
+}
+
+// Files in both lists first, then the first list, then the second
+function rankPairs(first: string[], second: string[]): string[] {
+    const both = first.filter(candidate => second.includes(candidate));
+    return [...new Set([...both, ...first, ...second])];
+}
+
+// A Python `if __name__ == '__main__'` guard or a Java main method
+function hasMainFunction(file: IndexedFile): boolean {
+    if (file.language === 'python') {
+        return file.identifiers.includes('__main__') && file.identifiers.includes('__name__');
+    }
+    return file.language === 'java' && file.functions.some(fn => fn.name === 'main');
+}
+
+// In a project folder or its src folder, or near the top of the workspace when no project folder holds it
+function isTopLevel(filePath: string, projectDirs: string[], shallowest: number): boolean {
+    const dir = path.dirname(filePath);
+    const owner = projectDirs.filter(projectDir => isInside(filePath, projectDir))
+        .sort((a, b) => b.length - a.length)[0];
+    if (owner) {
+        return dir === owner || dir === path.join(owner, 'src');
+    }
+    return filePath.split(/[\\/]/).length <= shallowest + 1;
+}
+
+/**
+ * The target of a package.json `exports` field for a subpath such as `.` or
+ * `./utils`, following subpath patterns and condition objects
+ */
+function resolveExports(exports: unknown, subpath: string): string | undefined {
+    if (typeof exports === 'string' || Array.isArray(exports)) {
+        return subpath === '.' ? pickCondition(exports) : undefined;
+    }
+    if (!exports || typeof exports !== 'object') {
+        return undefined;
+    }
+
+    const entries = Object.entries(exports as Record<string, unknown>);
+    if (!entries.some(([key]) => key.startsWith('.'))) {
+        // A bare condition object describes the package root
+        return subpath === '.' ? pickCondition(exports) : undefined;
+    }
+    for (const [key, value] of entries) {
+        if (key === subpath) {
+            return pickCondition(value);
+        }
+        const wildcard = matchPattern(key, subpath);
+        if (wildcard !== undefined) {
+            return pickCondition(value)?.replace('*', wildcard);
+        }
+    }
+    return undefined;
+}
+
+function pickCondition(target: unknown): string | undefined {
+    if (typeof target === 'string') {
+        return target;
+    }
+    if (Array.isArray(target)) {
+        return target.map(pickCondition).find(value => value !== undefined);
+    }
+    if (target && typeof target === 'object') {
+        const conditions = target as Record<string, unknown>;
+        const key = EXPORT_CONDITIONS.find(condition => Object.hasOwn(conditions, condition));
+        return key ? pickCondition(conditions[key]) : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * What a pattern's single `*` matched in `value`, '' for an exact match, or
+ * undefined when it doesn't match
+ */
+function matchPattern(pattern: string, value: string): string | undefined {
+    const star = pattern.indexOf('*');
+    if (star < 0) {
+        return pattern === value ? '' : undefined;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    return value.length >= prefix.length + suffix.length && value.startsWith(prefix) && value.endsWith(suffix)
+        ? value.slice(prefix.length, value.length - suffix.length)
+        : undefined;
+}
+
+// The candidates sharing the longest folder prefix with `fromFile`
+function closestTo(fromFile: string, candidates: string[]): string[] {
+    if (candidates.length <= 1) {
+        return candidates;
+    }
+    const shared = (candidate: string) => {
+        const a = path.dirname(fromFile).split(/[\\/]/);
+        const b = candidate.split(/[\\/]/);
+        let i = 0;
+        while (i < a.length && a[i] === b[i]) {
+            i++;
+        }
+        return i;
+    };
+    const best = Math.max(...candidates.map(shared));
+    return candidates.filter(candidate => shared(candidate) === best);
+}
+
+function isInside(filePath: string, dir: string): boolean {
+    const relative = path.relative(dir, filePath);
+    return relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+function toSlashes(filePath: string): string {
+    return filePath.replace(/\\/g, '/');
+}
+
+/**
+ * JSON as tsconfig and package.json files allow it: with comments and trailing commas
+ */
+function parseJson(text: string | undefined): any {
+    if (text === undefined) {
+        return undefined;
+    }
+    let stripped = '';
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (char === '"') {
+            const end = findStringEnd(text, i);
+            stripped += text.slice(i, end + 1);
+            i = end;
+        } else if (char === '/' && text[i + 1] === '/') {
+            const end = text.indexOf('\n', i);
+            i = end < 0 ? text.length : end - 1;
+        } else if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 1;
+        } else {
+            stripped += char;
+        }
+    }
+    try {
+        return JSON.parse(stripped.replace(/,(\s*[}\]])/g, '$1'));
+    } catch {
+        return undefined;
+    }
+}
+
+function findStringEnd(text: string, start: number): number {
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === '\\') {
+            i++;
+        } else if (text[i] === '"') {
+            return i;
+        }
+    }
+    return text.length - 1;
+}
+
+function readTextFile(filePath: string): string | undefined {
+    try {
+        return fs.readFileSync(filePath, 'utf8');
+    } catch {
+        return undefined;
+    }
+}
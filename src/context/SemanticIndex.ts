@@ -0,0 +1,481 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EmbeddingBackend, cosineSimilarity, tokenize } from './EmbeddingBackends';
+import { FileAnalysis, IndexedFile } from './WorkspaceIndex';
+
+/**
+ * Chunk-level semantic search over the workspace index, ranking chunks by
+ * BM25 keyword score and embedding similarity together.
+ */
+
+// Bump whenever chunking or the stored layout changes so older indexes are rebuilt
+export const SEMANTIC_INDEX_VERSION = 1;
+
+const INDEX_FILE = 'semantic-index.json';
+const TARGET_CHUNK_LINES = 40;
+const MAX_CHUNK_LINES = 60;
+// Chunks with fewer lines than this join the next one
+const MIN_CHUNK_LINES = 3;
+// Config files are matched by name and keyword, not embedded
+const SKIPPED_LANGUAGES = ['json'];
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const DEFAULT_VECTOR_WEIGHT = 0.5;
+
+export interface CodeChunk {
+    startLine: number; // 1-based, inclusive
+    endLine: number;
+    symbol?: string;
+    text: string;
+}
+
+export interface ChunkMatch {
+    path: string;
+    startLine: number;
+    endLine: number;
+    symbol?: string;
+    score: number; // Weighted keyword and vector score, 0-1
+    keywordScore: number;
+    similarity: number;
+}
+
+export interface SemanticSearchOptions {
+    limit?: number;
+    vectorQuery?: string; // Text to embed when it differs from the keyword query
+    filter?: (filePath: string) => boolean;
+}
+
+export interface SemanticSyncResult {
+    embedded: number; // Files chunked and embedded again
+    removed: number;
+    chunks: number;
+}
+
+export interface SemanticIndexStatus {
+    backend?: string;
+    files: number;
+    chunks: number;
+    syncing: boolean;
+    error?: string;
+}
+
+interface IndexedChunk {
+    path: string;
+    startLine: number;
+    endLine: number;
+    symbol?: string;
+    terms: Record<string, number>;
+    length: number;
+    vector: Float32Array;
+}
+
+interface StoredChunk extends Omit<IndexedChunk, 'vector'> {
+    vector: string; // Base64 of the Float32Array
+}
+
+interface SemanticSnapshot {
+    version: number;
+    backend: string;
+    files: Record<string, string>; // Path to the hash its chunks were built from
+    chunks: StoredChunk[];
+}
+
+export class SemanticIndex {
+    private chunks = new Map<string, IndexedChunk[]>();
+    private fileHashes = new Map<string, string>();
+    private documentFrequency = new Map<string, number>();
+    private chunkCount = 0;
+    private totalLength = 0;
+    private storageDir?: string;
+    private backend?: EmbeddingBackend;
+    private syncs: Promise<unknown> = Promise.resolve();
+    private syncing = false;
+    private error?: string;
+
+    public vectorWeight = DEFAULT_VECTOR_WEIGHT;
+    public onDidChange?: () => void;
+
+    /**
+     * Keep chunks under `storageDir`, embedded with `backend`, and load the
+     * ones saved there if they came from this version and backend
+     */
+    public configure(storageDir: string | undefined, backend: EmbeddingBackend): void {
+        this.storageDir = storageDir;
+        this.backend = backend;
+        this.clearChunks();
+
+        const indexPath = this.getIndexPath();
+        if (!indexPath || !fs.existsSync(indexPath)) {
+            return;
+        }
+
+        try {
+            const snapshot: SemanticSnapshot = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+            if (snapshot?.version !== SEMANTIC_INDEX_VERSION || snapshot.backend !== backend.id || !Array.isArray(snapshot.chunks)) {
+                fs.rmSync(indexPath, { force: true });
+                return;
+            }
+
+            const byFile = new Map<string, IndexedChunk[]>();
+            for (const stored of snapshot.chunks) {
+                const chunks = byFile.get(stored.path) ?? [];
+                chunks.push({ ...stored, vector: decodeVector(stored.vector) });
+                byFile.set(stored.path, chunks);
+            }
+            for (const [filePath, hash] of Object.entries(snapshot.files)) {
+                this.setFileChunks(filePath, hash, byFile.get(filePath) ?? []);
+            }
+        } catch (error) {
+            console.warn('Failed to load the semantic index:', error);
+        }
+    }
+
+    /**
+     * Switch embedding backends. Stored vectors are dropped when the backend
+     * differs, and the next sync embeds every file again.
+     */
+    public setBackend(backend: EmbeddingBackend): boolean {
+        if (this.backend?.id === backend.id) {
+            return false;
+        }
+        this.backend = backend;
+        this.clearChunks();
+        const indexPath = this.getIndexPath();
+        if (indexPath) {
+            fs.rmSync(indexPath, { force: true });
+        }
+        this.onDidChange?.();
+        return true;
+    }
+
+    public isConfigured(): boolean {
+        return this.backend !== undefined;
+    }
+
+    public hasChunks(): boolean {
+        return this.chunkCount > 0;
+    }
+
+    public isSyncing(): boolean {
+        return this.syncing;
+    }
+
+    public getStatus(): SemanticIndexStatus {
+        return { backend: this.backend?.id, files: this.chunks.size, chunks: this.chunkCount, syncing: this.syncing, error: this.error };
+    }
+
+    /**
+     * Chunk and embed the indexed files whose hash changed since they were
+     * last embedded, and drop files that are no longer indexed. Syncs run one
+     * at a time.
+     */
+    public sync(
+        files: IndexedFile[],
+        readFile: (filePath: string) => Promise<string> = filePath => fs.promises.readFile(filePath, 'utf8')
+    ): Promise<SemanticSyncResult> {
+        const sync = this.syncs.then(() => this.runSync(files, readFile));
+        this.syncs = sync.catch(() => undefined);
+        return sync;
+    }
+
+    /**
+     * The chunks best matching `query`, combining BM25 keyword scores with
+     * embedding similarity by `vectorWeight`. Without a usable backend the
+     * ranking falls back to keywords alone.
+     */
+    public async search(query: string, options: SemanticSearchOptions = {}): Promise<ChunkMatch[]> {
+        const candidates = [...this.chunks.entries()]
+            .filter(([filePath]) => !options.filter || options.filter(filePath))
+            .flatMap(([, chunks]) => chunks);
+        if (candidates.length === 0) {
+            return [];
+        }
+
+        let queryVector: Float32Array | undefined;
+        try {
+            [queryVector] = await this.backend!.embed([options.vectorQuery ?? query]);
+        } catch (error) {
+            console.warn('Semantic search is using keywords only:', error);
+        }
+
+        const terms = [...new Set(tokenize(query))];
+        const keywordScores = candidates.map(chunk => this.scoreKeywords(chunk, terms));
+        const similarities = candidates.map(chunk => queryVector ? cosineSimilarity(queryVector, chunk.vector) : 0);
+
+        // reduce rather than spreading, which overflows the stack in large workspaces
+        const maxKeyword = keywordScores.reduce((max, score) => Math.max(max, score), 0);
+        const minSimilarity = similarities.reduce((min, similarity) => Math.min(min, similarity), Infinity);
+        const similarityRange = similarities.reduce((max, similarity) => Math.max(max, similarity), -Infinity) - minSimilarity;
+        const vectorWeight = queryVector ? Math.min(Math.max(this.vectorWeight, 0), 1) : 0;
+
+        return candidates
+            .map((chunk, index) => {
+                const keyword = maxKeyword > 0 ? keywordScores[index] / maxKeyword : 0;
+                const similarity = similarityRange > 0 ? (similarities[index] - minSimilarity) / similarityRange : 0;
+                return {
+                    path: chunk.path,
+                    startLine: chunk.startLine,
+                    endLine: chunk.endLine,
+                    symbol: chunk.symbol,
+                    score: (1 - vectorWeight) * keyword + vectorWeight * similarity,
+                    keywordScore: keywordScores[index],
+                    similarity: similarities[index]
+                };
+            })
+            .filter(match => match.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, options.limit ?? 20);
+    }
+
+    /**
+     * Drop every chunk and the saved index
+     */
+    public clear(): void {
+        this.clearChunks();
+        const indexPath = this.getIndexPath();
+        if (indexPath) {
+            fs.rmSync(indexPath, { force: true });
+        }
+        this.onDidChange?.();
+    }
+
+    public flush(): void {
+        const indexPath = this.getIndexPath();
+        if (!indexPath || !this.backend) {
+            return;
+        }
+        try {
+            const snapshot: SemanticSnapshot = {
+                version: SEMANTIC_INDEX_VERSION,
+                backend: this.backend.id,
+                files: Object.fromEntries(this.fileHashes),
+                chunks: [...this.chunks.values()].flat().map(chunk => ({ ...chunk, vector: encodeVector(chunk.vector) }))
+            };
+            fs.mkdirSync(this.storageDir!, { recursive: true });
+            fs.writeFileSync(indexPath, JSON.stringify(snapshot));
+        } catch (error) {
+            console.warn('Failed to save the semantic index:', error);
+        }
+    }
+
+    private async runSync(files: IndexedFile[], readFile: (filePath: string) => Promise<string>): Promise<SemanticSyncResult> {
+        const backend = this.backend;
+        if (!backend) {
+            throw new Error('The semantic index is not configured');
+        }
+
+        const wanted = new Map(files.filter(file => !SKIPPED_LANGUAGES.includes(file.language)).map(file => [file.path, file]));
+        const result: SemanticSyncResult = { embedded: 0, removed: 0, chunks: 0 };
+        for (const filePath of [...this.fileHashes.keys()].filter(filePath => !wanted.has(filePath))) {
+            this.removeFileChunks(filePath);
+            result.removed++;
+        }
+
+        const changed = [...wanted.values()].filter(file => this.fileHashes.get(file.path) !== file.hash);
+        this.syncing = changed.length > 0;
+        this.error = undefined;
+        this.onDidChange?.();
+
+        try {
+            let batch: { file: IndexedFile; chunks: CodeChunk[] }[] = [];
+            const embedBatch = async () => {
+                const texts = batch.flatMap(({ file, chunks }) => chunks.map(chunk => describeChunk(file.path, chunk)));
+                const vectors: Float32Array[] = [];
+                for (let i = 0; i < texts.length; i += backend.batchSize) {
+                    vectors.push(...await backend.embed(texts.slice(i, i + backend.batchSize)));
+                }
+                if (backend !== this.backend) {
+                    throw new Error('The embedding backend changed during indexing');
+                }
+
+                let next = 0;
+                for (const { file, chunks } of batch) {
+                    this.setFileChunks(file.path, file.hash, chunks.map(chunk => ({
+                        path: file.path,
+                        startLine: chunk.startLine,
+                        endLine: chunk.endLine,
+                        symbol: chunk.symbol,
+                        ...countTerms(chunk.text),
+                        vector: vectors[next++]
+                    })));
+                    result.embedded++;
+                }
+                batch = [];
+                this.onDidChange?.();
+                await new Promise(resolve => setImmediate(resolve));
+            };
+
+            for (const file of changed) {
+                let content: string;
+                try {
+                    content = await readFile(file.path);
+                } catch {
+                    continue; // Gone since it was indexed; the next index update drops it
+                }
+                batch.push({ file, chunks: chunkFile(content, getSymbols(file)) });
+                if (batch.reduce((count, item) => count + item.chunks.length, 0) >= backend.batchSize) {
+                    await embedBatch();
+                }
+            }
+            if (batch.length > 0) {
+                await embedBatch();
+            }
+        } catch (error) {
+            this.error = error instanceof Error ? error.message : String(error);
+            throw error;
+        } finally {
+            this.syncing = false;
+            if (changed.length > 0 || result.removed > 0) {
+                this.flush();
+            }
+            this.onDidChange?.();
+        }
+
+        result.chunks = this.chunkCount;
+        return result;
+    }
+
+    private scoreKeywords(chunk: IndexedChunk, terms: string[]): number {
+        const averageLength = this.totalLength / Math.max(this.chunkCount, 1);
+        let score = 0;
+        for (const term of terms) {
+            // Own keys only: terms such as "constructor" would otherwise find Object.prototype
+            const frequency = Object.hasOwn(chunk.terms, term) ? chunk.terms[term] : 0;
+            if (!frequency) {
+                continue;
+            }
+            const documents = this.documentFrequency.get(term) ?? 0;
+            const idf = Math.log(1 + (this.chunkCount - documents + 0.5) / (documents + 0.5));
+            score += idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+        }
+        return score;
+    }
+
+    private setFileChunks(filePath: string, hash: string, chunks: IndexedChunk[]): void {
+        this.removeFileChunks(filePath);
+        this.fileHashes.set(filePath, hash);
+        this.chunks.set(filePath, chunks);
+        for (const chunk of chunks) {
+            this.chunkCount++;
+            this.totalLength += chunk.length;
+            for (const term of Object.keys(chunk.terms)) {
+                this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+            }
+        }
+    }
+
+    private removeFileChunks(filePath: string): void {
+        for (const chunk of this.chunks.get(filePath) ?? []) {
+            this.chunkCount--;
+            this.totalLength -= chunk.length;
+            for (const term of Object.keys(chunk.terms)) {
+                const documents = (this.documentFrequency.get(term) ?? 1) - 1;
+                if (documents > 0) {
+                    this.documentFrequency.set(term, documents);
+                } else {
+                    this.documentFrequency.delete(term);
+                }
+            }
+        }
+        this.chunks.delete(filePath);
+        this.fileHashes.delete(filePath);
+    }
+
+    private clearChunks(): void {
+        this.chunks.clear();
+        this.fileHashes.clear();
+        this.documentFrequency.clear();
+        this.chunkCount = 0;
+        this.totalLength = 0;
+        this.error = undefined;
+    }
+
+    private getIndexPath(): string | undefined {
+        return this.storageDir ? path.join(this.storageDir, INDEX_FILE) : undefined;
+    }
+}
+
+/**
+ * Split a file at the lines where its symbols start, taking comments and
+ * decorators directly above a symbol with it. Sections longer than the
+ * maximum are cut into windows of about 40 lines; very short sections join
+ * the next one.
+ */
+export function chunkFile(content: string, symbols: { name: string; line: number }[] = []): CodeChunk[] {
+    const lines = content.split('\n');
+    const starts = new Map<number, string>(); // 0-based line to symbol name
+
+    for (const symbol of [...symbols].sort((a, b) => a.line - b.line)) {
+        let start = symbol.line - 1;
+        if (start < 0 || start >= lines.length) {
+            continue;
+        }
+        while (start > 0 && /^\s*(\/\/|\/\*|\*|#|@)/.test(lines[start - 1])) {
+            start--;
+        }
+        if (!starts.has(start)) {
+            starts.set(start, symbol.name);
+        }
+    }
+
+    const boundaries = [...new Set([0, ...starts.keys()])].sort((a, b) => a - b);
+    const sections: CodeChunk[] = [];
+    boundaries.forEach((start, index) => {
+        const end = (boundaries[index + 1] ?? lines.length) - 1;
+        for (let from = start; from <= end;) {
+            const to = end - from + 1 > MAX_CHUNK_LINES ? from + TARGET_CHUNK_LINES - 1 : end;
+            sections.push({ startLine: from + 1, endLine: to + 1, symbol: starts.get(start), text: '' });
+            from = to + 1;
+        }
+    });
+
+    const chunks: CodeChunk[] = [];
+    for (let i = 0; i < sections.length; i++) {
+        const section = sections[i];
+        const next = sections[i + 1];
+        if (next && section.endLine - section.startLine + 1 < MIN_CHUNK_LINES && next.endLine - section.startLine + 1 <= MAX_CHUNK_LINES) {
+            next.startLine = section.startLine;
+            next.symbol = next.symbol ?? section.symbol;
+            continue;
+        }
+        section.text = lines.slice(section.startLine - 1, section.endLine).join('\n');
+        if (section.text.trim()) {
+            chunks.push(section);
+        }
+    }
+    return chunks;
+}
+
+/**
+ * Where each of a file's functions, classes, interfaces and types starts
+ */
+export function getSymbols(file: Pick<FileAnalysis, 'functions' | 'classes' | 'interfaces' | 'types'>): { name: string; line: number }[] {
+    return [...file.functions, ...file.classes, ...file.interfaces, ...file.types];
+}
+
+// The file name and symbol give the embedding context the lines alone don't have
+function describeChunk(filePath: string, chunk: CodeChunk): string {
+    return `${path.basename(filePath)}${chunk.symbol ? ` ${chunk.symbol}` : ''}\n${chunk.text}`;
+}
+
+function countTerms(text: string): { terms: Record<string, number>; length: number } {
+    const terms: Record<string, number> = {};
+    const words = tokenize(text);
+    for (const word of words) {
+        terms[word] = (Object.hasOwn(terms, word) ? terms[word] : 0) + 1;
+    }
+    return { terms, length: words.length };
+}
+
+function encodeVector(vector: Float32Array): string {
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+    const bytes = Buffer.from(encoded, 'base64');
+    return new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength));
+}
+
+// Shared by the context engine and the index status UI
+export const semanticIndex = new SemanticIndex();
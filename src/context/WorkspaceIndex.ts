@@ -0,0 +1,590 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ClassInfo, FunctionInfo, InterfaceInfo, TypeInfo } from './ContextRetrievalEngine';
+import { ProjectGraph } from './ProjectGraph';
+
+/**
+ * Persistent index of the workspace's symbols, imports and identifiers,
+ * re-analyzing a file only when its content changes.
+ */
+
+// Bump whenever the entry layout or the analysis changes so older indexes are rebuilt
+export const INDEX_VERSION = 2;
+
+const INDEX_FILE = 'index.json';
+// Same limit analyzeFile applies to context files
+const MAX_INDEXED_SIZE = 1024 * 1024;
+const MAX_IDENTIFIERS = 5000;
+// Writes are batched so a burst of watcher events saves once
+const SAVE_DELAY = 2000;
+// Files between progress reports, and chances for the extension host to do other work
+const PROGRESS_INTERVAL = 50;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+    ts: 'typescript', tsx: 'typescriptreact', mts: 'typescript', cts: 'typescript',
+    js: 'javascript', jsx: 'javascriptreact', mjs: 'javascript', cjs: 'javascript',
+    py: 'python', pyw: 'python',
+    java: 'java', cs: 'csharp',
+    cpp: 'cpp', cc: 'cpp', cxx: 'cpp', h: 'cpp', hpp: 'cpp', c: 'c',
+    go: 'go', rs: 'rust', php: 'php', rb: 'ruby', swift: 'swift', kt: 'kotlin', kts: 'kotlin',
+    vue: 'vue', svelte: 'svelte',
+    json: 'json', md: 'markdown', yaml: 'yaml', yml: 'yaml'
+};
+
+const EXCLUDED_DIRECTORIES = ['node_modules', 'dist', 'build', 'out', '.git', 'coverage', 'logs', 'temp', 'tmp', '.vscode', '.idea'];
+
+export interface FileAnalysis {
+    dependencies: string[];
+    exports: string[];
+    imports: string[];
+    functions: FunctionInfo[];
+    classes: ClassInfo[];
+    interfaces: InterfaceInfo[];
+    types: TypeInfo[];
+}
+
+export interface IndexedFile extends FileAnalysis {
+    path: string;
+    hash: string;
+    size: number;
+    mtime: number;
+    language: string;
+    identifiers: string[]; // Distinct words in the file that could name a symbol
+}
+
+export type FileAnalyzer = (content: string, language: string) => FileAnalysis;
+
+export interface IndexStatus {
+    state: 'idle' | 'building' | 'ready' | 'error';
+    files: number;
+    processed: number; // Files checked so far in the current build
+    total: number;
+    builtAt?: number;
+    error?: string;
+}
+
+export interface IndexBuildResult {
+    added: number;
+    updated: number;
+    removed: number;
+    unchanged: number;
+    timeMs: number;
+}
+
+export interface IndexBuildOptions {
+    force?: boolean; // Re-analyze every file, even when its hash is unchanged
+    onProgress?: (processed: number, total: number) => void;
+}
+
+export interface IndexSearchResult {
+    path: string;
+    score: number;
+}
+
+interface IndexSnapshot {
+    version: number;
+    builtAt?: number;
+    files: IndexedFile[];
+}
+
+export class WorkspaceIndex {
+    private files = new Map<string, IndexedFile>();
+    private identifiers = new Map<string, Set<string>>();
+    private lowercaseIdentifiers = new Map<string, Set<string>>();
+    private storageDir?: string;
+    private analyzer?: FileAnalyzer;
+    private saveTimer?: NodeJS.Timeout;
+    private builds: Promise<unknown> = Promise.resolve();
+    private graph?: ProjectGraph; // Built on first use after the entries change
+    private status: IndexStatus = { state: 'idle', files: 0, processed: 0, total: 0 };
+
+    public onDidChange?: () => void;
+
+    /**
+     * Keep the index under `storageDir`, analyzing files with `analyzer`, and
+     * load the index saved there if it was written by this version
+     */
+    public configure(storageDir: string | undefined, analyzer: FileAnalyzer): void {
+        this.storageDir = storageDir;
+        this.analyzer = analyzer;
+        this.clearEntries();
+        this.status = { state: 'idle', files: 0, processed: 0, total: 0 };
+
+        const indexPath = this.getIndexPath();
+        if (!indexPath || !fs.existsSync(indexPath)) {
+            return;
+        }
+
+        try {
+            const snapshot: IndexSnapshot = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+            if (snapshot?.version !== INDEX_VERSION || !Array.isArray(snapshot.files)) {
+                fs.rmSync(indexPath, { force: true });
+                return;
+            }
+            for (const entry of snapshot.files) {
+                this.setEntry(entry);
+            }
+            this.status = { state: 'ready', files: this.files.size, processed: 0, total: 0, builtAt: snapshot.builtAt };
+        } catch (error) {
+            console.warn('Failed to load the workspace index:', error);
+        }
+    }
+
+    public isConfigured(): boolean {
+        return this.analyzer !== undefined;
+    }
+
+    /**
+     * Whether queries can be answered from the index
+     */
+    public hasFiles(): boolean {
+        return this.files.size > 0;
+    }
+
+    public getStatus(): IndexStatus {
+        return { ...this.status };
+    }
+
+    /**
+     * Bring the index in line with `filePaths`, the files the caller wants
+     * indexed (see isIndexable): new and changed files are analyzed, files
+     * whose size and modification time match their entry are kept, and entries
+     * for files that are gone are dropped. Builds run one at a time; a build
+     * requested during another starts when it finishes.
+     */
+    public build(filePaths: string[], options: IndexBuildOptions = {}): Promise<IndexBuildResult> {
+        const build = this.builds.then(() => this.runBuild(filePaths, options));
+        this.builds = build.catch(() => undefined);
+        return build;
+    }
+
+    /**
+     * Re-read one file after it was created or changed. Returns its entry, or
+     * undefined when the file can't be indexed.
+     */
+    public async updateFile(filePath: string): Promise<IndexedFile | undefined> {
+        if (!getIndexedLanguage(filePath)) {
+            return undefined;
+        }
+        try {
+            const stat = await fs.promises.stat(filePath);
+            if (!stat.isFile() || stat.size > MAX_INDEXED_SIZE) {
+                this.removeFile(filePath);
+                return undefined;
+            }
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            const entry = this.store(filePath, content, { mtime: Math.trunc(stat.mtimeMs), size: stat.size });
+            this.onDidChange?.();
+            return entry;
+        } catch {
+            this.removeFile(filePath);
+            return undefined;
+        }
+    }
+
+    /**
+     * Index `content` as the current content of `filePath`. The stored
+     * analysis is reused when the content hash is unchanged.
+     */
+    public store(filePath: string, content: string, stat: { mtime: number; size: number }, force = false): IndexedFile {
+        if (!this.analyzer) {
+            throw new Error('The workspace index is not configured');
+        }
+
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        const existing = this.files.get(filePath);
+        if (existing && existing.hash === hash && !force) {
+            if (existing.mtime !== stat.mtime || existing.size !== stat.size) {
+                existing.mtime = stat.mtime;
+                existing.size = stat.size;
+                this.scheduleSave();
+            }
+            return existing;
+        }
+
+        const language = getIndexedLanguage(filePath) ?? 'plaintext';
+        const entry: IndexedFile = {
+            path: filePath,
+            hash,
+            size: stat.size,
+            mtime: stat.mtime,
+            language,
+            ...this.analyze(content, language),
+            identifiers: extractIdentifiers(content)
+        };
+        this.setEntry(entry);
+        this.status.files = this.files.size;
+        this.scheduleSave();
+        return entry;
+    }
+
+    public removeFile(filePath: string): boolean {
+        if (!this.files.has(filePath)) {
+            return false;
+        }
+        this.deleteEntry(filePath);
+        this.status.files = this.files.size;
+        this.scheduleSave();
+        this.onDidChange?.();
+        return true;
+    }
+
+    public getFile(filePath: string): IndexedFile | undefined {
+        return this.files.get(filePath);
+    }
+
+    public getFiles(): IndexedFile[] {
+        return [...this.files.values()];
+    }
+
+    /**
+     * Files matching any of `terms` by symbol name, file name, import or
+     * identifier, best first. Terms shorter than three characters are ignored.
+     */
+    public search(terms: string[], limit = 50): IndexSearchResult[] {
+        const needles = [...new Set(terms.map(term => term.toLowerCase()).filter(term => term.length >= 3))];
+        if (needles.length === 0) {
+            return [];
+        }
+
+        const results: IndexSearchResult[] = [];
+        for (const entry of this.files.values()) {
+            const symbols = getSymbolNames(entry).map(name => name.toLowerCase());
+            const fileName = path.basename(entry.path).toLowerCase();
+            const identifiers = this.lowercaseIdentifiers.get(entry.path);
+
+            let score = 0;
+            for (const needle of needles) {
+                if (symbols.includes(needle)) {
+                    score += 8;
+                } else if (symbols.some(symbol => symbol.includes(needle))) {
+                    score += 4;
+                }
+                if (fileName.includes(needle)) {
+                    score += 5;
+                }
+                if (entry.imports.some(specifier => specifier.toLowerCase().includes(needle))) {
+                    score += 3;
+                }
+                if (identifiers?.has(needle)) {
+                    score += 2;
+                }
+            }
+            if (score > 0) {
+                results.push({ path: entry.path, score });
+            }
+        }
+
+        return results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, limit);
+    }
+
+    /**
+     * Files that mention `identifier`, those importing a module of that name first
+     */
+    public findUsages(identifier: string): IndexedFile[] {
+        const importsIt = (entry: IndexedFile) =>
+            entry.imports.some(specifier => path.basename(specifier).replace(/\.\w+$/, '') === identifier);
+
+        return this.getFiles()
+            .filter(entry => importsIt(entry) || this.identifiers.get(entry.path)?.has(identifier))
+            .sort((a, b) => Number(importsIt(b)) - Number(importsIt(a)) || a.path.localeCompare(b.path));
+    }
+
+    /**
+     * Files defining a function, class, interface or type named `name`
+     */
+    public findDefinitions(name: string): IndexedFile[] {
+        const defines = (entry: IndexedFile) =>
+            [entry.functions, entry.classes, entry.interfaces, entry.types].some(symbols => symbols.some(symbol => symbol.name === name));
+        return this.getFiles().filter(defines).sort((a, b) => a.path.localeCompare(b.path));
+    }
+
+    /**
+     * The import graph of the indexed files
+     */
+    public getGraph(): ProjectGraph {
+        this.graph ??= new ProjectGraph(this.getFiles());
+        return this.graph;
+    }
+
+    /**
+     * Indexed files the file imports, resolved through the import graph
+     */
+    public getImportedFiles(filePath: string): string[] {
+        return this.getGraph().getImports(filePath);
+    }
+
+    public getImportingFiles(filePath: string): string[] {
+        return this.getGraph().getImporters(filePath);
+    }
+
+    /**
+     * Files related to `filePath`: what it imports, what imports it, its tests
+     * (or the files a test covers), then files that mention the symbols it exports
+     */
+    public getRelatedFiles(filePath: string, limit = 20): string[] {
+        const entry = this.files.get(filePath);
+        if (!entry) {
+            return [];
+        }
+
+        const graph = this.getGraph();
+        const related = new Set([
+            ...graph.getImports(filePath),
+            ...graph.getImporters(filePath),
+            ...graph.getTestsFor(filePath),
+            ...graph.getSourcesFor(filePath)
+        ]);
+        for (const name of entry.exports) {
+            for (const usage of this.findUsages(name)) {
+                related.add(usage.path);
+            }
+        }
+        related.delete(filePath);
+        return [...related].slice(0, limit);
+    }
+
+    /**
+     * Most recently modified files, newest first
+     */
+    public getRecentFiles(limit = 20): IndexedFile[] {
+        return this.getFiles().sort((a, b) => b.mtime - a.mtime).slice(0, limit);
+    }
+
+    /**
+     * Drop every entry and the saved index
+     */
+    public clear(): void {
+        this.clearEntries();
+        this.status = { state: 'idle', files: 0, processed: 0, total: 0 };
+        const indexPath = this.getIndexPath();
+        if (indexPath) {
+            fs.rmSync(indexPath, { force: true });
+        }
+        this.onDidChange?.();
+    }
+
+    /**
+     * Write pending changes now instead of after the save delay
+     */
+    public flush(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+
+        const indexPath = this.getIndexPath();
+        if (!indexPath) {
+            return;
+        }
+        try {
+            const snapshot: IndexSnapshot = { version: INDEX_VERSION, builtAt: this.status.builtAt, files: this.getFiles() };
+            fs.mkdirSync(this.storageDir!, { recursive: true });
+            fs.writeFileSync(indexPath, JSON.stringify(snapshot));
+        } catch (error) {
+            console.warn('Failed to save the workspace index:', error);
+        }
+    }
+
+    private async runBuild(filePaths: string[], options: IndexBuildOptions): Promise<IndexBuildResult> {
+        const startTime = Date.now();
+        const wanted = [...new Set(filePaths.filter(filePath => getIndexedLanguage(filePath) !== undefined))];
+        const result: IndexBuildResult = { added: 0, updated: 0, removed: 0, unchanged: 0, timeMs: 0 };
+
+        const keep = new Set(wanted);
+        for (const filePath of [...this.files.keys()].filter(filePath => !keep.has(filePath))) {
+            this.deleteEntry(filePath);
+            result.removed++;
+        }
+
+        this.status = { ...this.status, state: 'building', files: this.files.size, processed: 0, total: wanted.length, error: undefined };
+        this.onDidChange?.();
+
+        try {
+            for (const [index, filePath] of wanted.entries()) {
+                await this.buildEntry(filePath, options.force ?? false, result);
+
+                const processed = index + 1;
+                if (processed % PROGRESS_INTERVAL === 0 || processed === wanted.length) {
+                    this.status = { ...this.status, files: this.files.size, processed };
+                    options.onProgress?.(processed, wanted.length);
+                    this.onDidChange?.();
+                    await new Promise(resolve => setImmediate(resolve));
+                }
+            }
+            this.status = { state: 'ready', files: this.files.size, processed: wanted.length, total: wanted.length, builtAt: Date.now() };
+        } catch (error) {
+            this.status = { ...this.status, state: 'error', files: this.files.size, error: error instanceof Error ? error.message : String(error) };
+            throw error;
+        } finally {
+            this.flush();
+            this.onDidChange?.();
+        }
+
+        result.timeMs = Date.now() - startTime;
+        return result;
+    }
+
+    private async buildEntry(filePath: string, force: boolean, result: IndexBuildResult): Promise<void> {
+        const existing = this.files.get(filePath);
+        try {
+            const stat = await fs.promises.stat(filePath);
+            const mtime = Math.trunc(stat.mtimeMs);
+            if (!stat.isFile() || stat.size > MAX_INDEXED_SIZE) {
+                if (existing) {
+                    this.deleteEntry(filePath);
+                    result.removed++;
+                }
+                return;
+            }
+            if (existing && !force && existing.mtime === mtime && existing.size === stat.size) {
+                result.unchanged++;
+                return;
+            }
+
+            const content = await fs.promises.readFile(filePath, 'utf8');
+            const entry = this.store(filePath, content, { mtime, size: stat.size }, force);
+            if (!existing) {
+                result.added++;
+            } else if (entry.hash === existing.hash && !force) {
+                result.unchanged++;
+            } else {
+                result.updated++;
+            }
+        } catch {
+            // Deleted or unreadable since it was listed
+            if (existing) {
+                this.deleteEntry(filePath);
+                result.removed++;
+            }
+        }
+    }
+
+    private analyze(content: string, language: string): FileAnalysis {
+        try {
+            return this.analyzer!(content, language);
+        } catch (error) {
+            console.warn('Failed to analyze file for the workspace index:', error);
+            return { dependencies: [], exports: [], imports: [], functions: [], classes: [], interfaces: [], types: [] };
+        }
+    }
+
+    private setEntry(entry: IndexedFile): void {
+        this.graph = undefined;
+        this.files.set(entry.path, entry);
+        this.identifiers.set(entry.path, new Set(entry.identifiers));
+        this.lowercaseIdentifiers.set(entry.path, new Set(entry.identifiers.map(identifier => identifier.toLowerCase())));
+    }
+
+    private deleteEntry(filePath: string): void {
+        this.graph = undefined;
+        this.files.delete(filePath);
+        this.identifiers.delete(filePath);
+        this.lowercaseIdentifiers.delete(filePath);
+    }
+
+    private clearEntries(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = undefined;
+        }
+        this.graph = undefined;
+        this.files.clear();
+        this.identifiers.clear();
+        this.lowercaseIdentifiers.clear();
+    }
+
+    private scheduleSave(): void {
+        if (!this.storageDir || this.saveTimer) {
+            return;
+        }
+        this.saveTimer = setTimeout(() => this.flush(), SAVE_DELAY);
+        this.saveTimer.unref?.();
+    }
+
+    private getIndexPath(): string | undefined {
+        return this.storageDir ? path.join(this.storageDir, INDEX_FILE) : undefined;
+    }
+}
+
+/**
+ * The language the index analyzes a file as, or undefined for files it skips
+ */
+export function getIndexedLanguage(filePath: string): string | undefined {
+    return LANGUAGE_BY_EXTENSION[path.extname(filePath).slice(1).toLowerCase()];
+}
+
+/**
+ * Whether the index covers a file, given its path relative to its workspace
+ * folder: source, config and docs files outside dependency, build and editor folders
+ */
+export function isIndexable(relativePath: string): boolean {
+    if (!getIndexedLanguage(relativePath) || /\.min\.js$/i.test(relativePath)) {
+        return false;
+    }
+    const folders = path.dirname(relativePath).split(/[\\/]/);
+    return !folders.some(folder => EXCLUDED_DIRECTORIES.includes(folder));
+}
+
+/**
+ * Whether a workspace-relative path matches any of the glob patterns, which
+ * support `**`, `*`, `?` and `{a,b}`
+ */
+export function matchesGlob(relativePath: string, patterns: string[]): boolean {
+    const normalized = relativePath.replace(/\\/g, '/');
+    return patterns.some(pattern => globToRegExp(pattern).test(normalized));
+}
+
+function globToRegExp(glob: string): RegExp {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // `**/` also matches no folders at all
+            const folders = glob[i + 2] === '/';
+            source += folders ? '(?:.*/)?' : '.*';
+            i += folders ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '{') {
+            braces++;
+            source += '(?:';
+        } else if (char === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function extractIdentifiers(content: string): string[] {
+    const identifiers = new Set<string>();
+    for (const match of content.matchAll(/[A-Za-z_$][\w$]{2,}/g)) {
+        identifiers.add(match[0]);
+        if (identifiers.size >= MAX_IDENTIFIERS) {
+            break;
+        }
+    }
+    return [...identifiers];
+}
+
+function getSymbolNames(entry: IndexedFile): string[] {
+    return [
+        ...entry.functions.map(symbol => symbol.name),
+        ...entry.classes.map(symbol => symbol.name),
+        ...entry.interfaces.map(symbol => symbol.name),
+        ...entry.types.map(symbol => symbol.name),
+        ...entry.exports
+    ];
+}
+
+// Shared by the context engine, its file watcher and the index status UI
+export const workspaceIndex = new WorkspaceIndex();
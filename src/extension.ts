@@ -1,11 +1,20 @@
 import * as vscode from 'vscode';
 import { ChatViewProvider } from './providers/ChatViewProvider';
 import { AIProviderManager } from './providers/AIProviderManager';
+import { DEFAULT_REDACTION_POLICY, secretRedactor } from './providers/SecretRedaction';
 import { FileContextManager } from './context/FileContextManager';
 import { ContextRetrievalEngine } from './context/ContextRetrievalEngine';
+import { workspaceIndex } from './context/WorkspaceIndex';
+import { fileEnumerator } from './context/FileEnumerator';
+import { semanticIndex } from './context/SemanticIndex';
+import { EmbeddingBackend, EmbeddingSettings, createEmbeddingBackend } from './context/EmbeddingBackends';
 import { MCPManager } from './mcp/MCPManager';
 import { ToolExecutionEngine } from './mcp/ToolExecutionEngine';
 import { AgentMode } from './agent/AgentMode';
+import { checkpointManager } from './agent/CheckpointManager';
+import { agentRunStore } from './agent/AgentRunStore';
+import { toolRegistry } from './agent/ToolRegistry';
+import { CAPABILITY_DESCRIPTIONS, TOOL_CAPABILITIES, ToolCapability, toolPermissions } from './agent/ToolPermissions';
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('Cuovare AI Assistant is activating...');
@@ -14,8 +23,42 @@ export function activate(context: vscode.ExtensionContext) {
     const aiProviderManager = new AIProviderManager(context);
     const fileContextManager = new FileContextManager();
     const contextRetrievalEngine = ContextRetrievalEngine.getInstance();
-    const mcpManager = new MCPManager();
+    const mcpManager = new MCPManager(aiProviderManager);
     const toolExecutionEngine = new ToolExecutionEngine(mcpManager);
+
+    // Snapshots of files changed by tools, kept per workspace
+    checkpointManager.configure(vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'checkpoints').fsPath);
+
+    // Tool permission grants and revocations, kept per workspace
+    toolPermissions.configure(context.workspaceState);
+
+    // Agent plans and their progress, kept per workspace so interrupted runs can be resumed
+    const interruptedRuns = agentRunStore.configure(vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'agent-runs').fsPath);
+
+    // Secrets redacted from outgoing requests and paths never sent, with the redaction log kept per workspace
+    const redactionDir = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'redaction').fsPath;
+    configureSecretRedaction(redactionDir);
+
+    // Files context gathering and search may look at, in every workspace folder
+    fileEnumerator.excludeFile = filePath => secretRedactor.isBlocked(filePath);
+    configureFileEnumerator();
+
+    // Symbols, imports and file hashes for context retrieval, kept per workspace and updated as files change
+    const indexDir = vscode.Uri.joinPath(context.storageUri ?? context.globalStorageUri, 'workspace-index').fsPath;
+    context.subscriptions.push(contextRetrievalEngine.configureIndex(indexDir));
+
+    // Embedded code chunks for semantic search, kept next to the workspace index
+    semanticIndex.configure(indexDir, getEmbeddingBackend(aiProviderManager));
+    semanticIndex.vectorWeight = vscode.workspace.getConfiguration('cuovare.context').get<number>('semanticSearchWeight', 0.5);
+
+    const indexStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
+    indexStatusItem.command = 'cuovare.rebuildWorkspaceIndex';
+    workspaceIndex.onDidChange = () => updateIndexStatusItem(indexStatusItem);
+    semanticIndex.onDidChange = () => updateIndexStatusItem(indexStatusItem);
+    updateIndexStatusItem(indexStatusItem);
+    indexStatusItem.show();
+    context.subscriptions.push(indexStatusItem);
+    contextRetrievalEngine.rebuildIndex().catch(error => console.error('Failed to build the workspace index:', error));
     
     // Initialize the chat view provider
     const chatViewProvider = new ChatViewProvider(
@@ -91,6 +134,14 @@ export function activate(context: vscode.ExtensionContext) {
             vscode.commands.executeCommand('workbench.view.extension.cuovare');
         }),
 
+        vscode.commands.registerCommand('cuovare.refreshLocalModels', async () => {
+            await aiProviderManager.refreshLocalModels();
+            const summary = aiProviderManager.getLocalEndpointNames()
+                .map(name => `${aiProviderManager.getProvider(name)?.name}: ${aiProviderManager.getProvider(name)?.models.length || 0} models`)
+                .join(', ');
+            vscode.window.showInformationMessage(`Local models refreshed. ${summary}`);
+        }),
+
         vscode.commands.registerCommand('cuovare.debugMCP', async () => {
             const status = mcpManager.getServerStatus();
             const tools = mcpManager.getAvailableTools();
@@ -137,9 +188,34 @@ export function activate(context: vscode.ExtensionContext) {
                 language: 'plaintext'
             });
             await vscode.window.showTextDocument(doc);
-        })
+        }),
+
+        vscode.commands.registerCommand('cuovare.undoLastChanges', () => chatViewProvider.undoCheckpoint()),
+
+        vscode.commands.registerCommand('cuovare.restoreCheckpoint', () => chatViewProvider.restoreCheckpoint()),
+
+        vscode.commands.registerCommand('cuovare.compareCheckpoints', () => chatViewProvider.showCheckpointDiff()),
+
+        vscode.commands.registerCommand('cuovare.manageToolPermissions', () => manageToolPermissions()),
+
+        vscode.commands.registerCommand('cuovare.showAgentRuns', () => chatViewProvider.showAgentRuns()),
+
+        vscode.commands.registerCommand('cuovare.rebuildWorkspaceIndex', () => rebuildWorkspaceIndex(contextRetrievalEngine)),
+
+        vscode.commands.registerCommand('cuovare.showRedactionLog', () => showRedactionLog())
     );
 
+    if (interruptedRuns.length > 0) {
+        const message = interruptedRuns.length === 1
+            ? `The agent run "${interruptedRuns[0].request}" was interrupted before it finished.`
+            : `${interruptedRuns.length} agent runs were interrupted before they finished.`;
+        vscode.window.showInformationMessage(message, 'Show Agent Runs').then(choice => {
+            if (choice) {
+                chatViewProvider.showAgentRuns();
+            }
+        });
+    }
+
     // Listen for configuration changes
     context.subscriptions.push(
         vscode.workspace.onDidChangeConfiguration(e => {
@@ -147,6 +223,25 @@ export function activate(context: vscode.ExtensionContext) {
                 aiProviderManager.refreshConfiguration();
                 mcpManager.refreshConfiguration();
             }
+            if (e.affectsConfiguration('cuovare.ai.localEndpoints')) {
+                aiProviderManager.reloadLocalEndpoints();
+            }
+            if (e.affectsConfiguration('cuovare.context')) {
+                semanticIndex.vectorWeight = vscode.workspace.getConfiguration('cuovare.context').get<number>('semanticSearchWeight', 0.5);
+                if (semanticIndex.setBackend(getEmbeddingBackend(aiProviderManager))) {
+                    contextRetrievalEngine.updateSemanticIndex().catch(error => console.error('Failed to update the semantic index:', error));
+                }
+            }
+            if (e.affectsConfiguration('cuovare.redaction')) {
+                configureSecretRedaction(redactionDir);
+                // Newly blocked files leave the index, unblocked ones come back
+                contextRetrievalEngine.rebuildIndex().catch(error => console.error('Failed to update the workspace index:', error));
+            }
+        }),
+
+        vscode.workspace.onDidChangeWorkspaceFolders(() => {
+            configureFileEnumerator();
+            contextRetrievalEngine.rebuildIndex().catch(error => console.error('Failed to update the workspace index:', error));
         })
     );
 
@@ -156,6 +251,194 @@ export function activate(context: vscode.ExtensionContext) {
     console.log('Cuovare AI Assistant activated successfully!');
 }
 
+function configureFileEnumerator(): void {
+    fileEnumerator.configure((vscode.workspace.workspaceFolders ?? []).map(folder => ({ name: folder.name, path: folder.uri.fsPath })));
+}
+
+function configureSecretRedaction(storageDir: string): void {
+    const config = vscode.workspace.getConfiguration('cuovare.redaction');
+    const invalid = secretRedactor.configure({
+        enabled: config.get<boolean>('enabled', DEFAULT_REDACTION_POLICY.enabled),
+        customPatterns: config.get<string[]>('customPatterns', DEFAULT_REDACTION_POLICY.customPatterns),
+        entropyThreshold: config.get<number>('entropyThreshold', DEFAULT_REDACTION_POLICY.entropyThreshold),
+        blockedPaths: config.get<string[]>('blockedPaths', DEFAULT_REDACTION_POLICY.blockedPaths),
+        redactLocalProviders: config.get<boolean>('redactLocalProviders', DEFAULT_REDACTION_POLICY.redactLocalProviders)
+    }, storageDir);
+
+    if (invalid.length > 0) {
+        vscode.window.showWarningMessage(`Ignoring invalid patterns in cuovare.redaction.customPatterns: ${invalid.join(', ')}`);
+    }
+}
+
+function getEmbeddingBackend(aiProviderManager: AIProviderManager): EmbeddingBackend {
+    const config = vscode.workspace.getConfiguration('cuovare.context');
+    const settings: EmbeddingSettings = {
+        provider: config.get<EmbeddingSettings['provider']>('embeddingProvider', 'local'),
+        model: config.get<string>('embeddingModel', ''),
+        endpoint: config.get<string>('embeddingEndpoint', '')
+    };
+    return createEmbeddingBackend(settings, provider => aiProviderManager.getStoredApiKey(provider));
+}
+
+/**
+ * Index progress while building, otherwise the number of indexed files
+ */
+function updateIndexStatusItem(item: vscode.StatusBarItem): void {
+    const status = workspaceIndex.getStatus();
+    const semantic = semanticIndex.getStatus();
+    const builtAt = status.builtAt ? `Last built ${new Date(status.builtAt).toLocaleString()}` : 'Not built yet';
+    const semanticSummary = semantic.error
+        ? `Semantic search unavailable: ${semantic.error}`
+        : `Semantic search: ${semantic.chunks} chunks from ${semantic.files} files${semantic.syncing ? ' (updating)' : ''}, embedded with ${semantic.backend}`;
+
+    switch (status.state) {
+        case 'building':
+            item.text = `$(sync~spin) Indexing ${status.processed}/${status.total}`;
+            item.tooltip = `Cuovare is indexing the workspace for context retrieval (${status.files} files indexed so far)`;
+            break;
+        case 'error':
+            item.text = '$(warning) Index';
+            item.tooltip = `Workspace indexing failed: ${status.error}\nClick to rebuild the index`;
+            break;
+        default:
+            item.text = `$(database) ${status.files} files`;
+            item.tooltip = `Cuovare workspace index: ${status.files} files. ${builtAt}.\n${semanticSummary}\nClick to rebuild the index`;
+    }
+}
+
+/**
+ * Re-analyze every file in the workspace, with progress in a notification
+ */
+async function rebuildWorkspaceIndex(engine: ContextRetrievalEngine): Promise<void> {
+    try {
+        const result = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Rebuilding workspace index',
+            cancellable: false
+        }, progress => {
+            let reported = 0;
+            return engine.rebuildIndex({
+                force: true,
+                onProgress: (processed, total) => {
+                    progress.report({ message: `${processed}/${total} files`, increment: (processed - reported) / total * 100 });
+                    reported = processed;
+                }
+            });
+        });
+        vscode.window.showInformationMessage(`Workspace index rebuilt: ${workspaceIndex.getStatus().files} files in ${(result.timeMs / 1000).toFixed(1)}s.`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Failed to rebuild the workspace index: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * The redaction policy and the requests that had secrets redacted, newest first
+ */
+async function showRedactionLog(): Promise<void> {
+    const policy = secretRedactor.getPolicy();
+    const entries = secretRedactor.getAuditLog().reverse();
+
+    let text = '=== Secret Redaction ===\n\n';
+    text += `Redaction: ${policy.enabled ? `on, for ${policy.redactLocalProviders ? 'all providers' : 'providers off this machine'}` : 'off'}\n`;
+    text += `Blocked paths: ${policy.blockedPaths.join(', ') || 'none'}\n`;
+    text += `Custom patterns: ${policy.customPatterns.length}\n`;
+
+    text += `\n=== Redacted Requests (${entries.length}) ===\n\n`;
+    if (entries.length === 0) {
+        text += 'No request has had secrets redacted yet.\n';
+    }
+    for (const entry of entries) {
+        const counts = Object.entries(entry.redactions).map(([kind, count]) => `${count} ${kind}`).join(', ');
+        text += `${new Date(entry.timestamp).toLocaleString()}  ${entry.provider} (${entry.model}): ${counts}\n`;
+    }
+
+    const doc = await vscode.workspace.openTextDocument({ content: text, language: 'plaintext' });
+    await vscode.window.showTextDocument(doc);
+}
+
+/**
+ * Pick a tool (or all tools), then the capabilities it may use in this workspace
+ */
+async function manageToolPermissions(): Promise<void> {
+    await toolRegistry.initialize();
+
+    const describe = (name: string) => {
+        const grants = toolPermissions.getGrants(name);
+        return TOOL_CAPABILITIES.filter(capability => grants[capability]).join(', ') || 'nothing';
+    };
+    const overrides = toolPermissions.getOverrides();
+
+    type ToolItem = vscode.QuickPickItem & { toolName?: string; reset?: boolean };
+    const items: ToolItem[] = [
+        { label: '$(shield) All tools', description: `allowed: ${describe('*')}`, toolName: '*' },
+        ...toolRegistry.getAllTools().map(tool => {
+            const missing = toolPermissions.getMissingCapabilities(tool.metadata);
+            return {
+                label: tool.metadata.name,
+                description: `needs: ${toolPermissions.getRequiredCapabilities(tool.metadata).join(', ')}`,
+                detail: missing.length > 0
+                    ? `$(warning) Not granted: ${missing.join(', ')}`
+                    : overrides[tool.metadata.name] ? `Customized: allowed ${describe(tool.metadata.name)}` : undefined,
+                toolName: tool.metadata.name
+            };
+        }),
+        { label: '$(discard) Reset all tool permissions to defaults', reset: true }
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        title: 'Tool Permissions (this workspace)',
+        placeHolder: 'Choose a tool to grant or revoke capabilities',
+        matchOnDescription: true
+    });
+    if (!picked) {
+        return;
+    }
+    if (picked.reset) {
+        await toolPermissions.reset();
+        vscode.window.showInformationMessage('Tool permissions reset to defaults for this workspace.');
+        return;
+    }
+
+    const toolName = picked.toolName!;
+    const tool = toolRegistry.getTool(toolName);
+    const required = tool ? toolPermissions.getRequiredCapabilities(tool.metadata) : [];
+    const grants = toolPermissions.getGrants(toolName);
+
+    type CapabilityItem = vscode.QuickPickItem & { capability: ToolCapability };
+    const capabilityItems: CapabilityItem[] = TOOL_CAPABILITIES.map(capability => ({
+        label: capability,
+        description: CAPABILITY_DESCRIPTIONS[capability],
+        detail: required.includes(capability) ? 'Needed by this tool' : undefined,
+        picked: grants[capability],
+        capability
+    }));
+
+    const selected = await vscode.window.showQuickPick(capabilityItems, {
+        title: `Permissions for ${toolName === '*' ? 'all tools' : toolName}`,
+        placeHolder: 'Checked capabilities are granted in this workspace',
+        canPickMany: true
+    });
+    if (!selected) {
+        return;
+    }
+
+    // Only keep overrides that differ from what the tool would inherit
+    const changes: Partial<Record<ToolCapability, boolean | undefined>> = {};
+    for (const capability of TOOL_CAPABILITIES) {
+        const granted = selected.some(item => item.capability === capability);
+        const inherited = toolName === '*'
+            ? toolPermissions.getDefaultGrant(capability)
+            : toolPermissions.isGranted('*', capability);
+        changes[capability] = granted === inherited ? undefined : granted;
+    }
+    await toolPermissions.setGrants(toolName, changes);
+
+    const missing = tool ? toolPermissions.getMissingCapabilities(tool.metadata) : [];
+    vscode.window.showInformationMessage(missing.length > 0
+        ? `${toolName} can't run until ${missing.join(', ')} ${missing.length === 1 ? 'is' : 'are'} granted.`
+        : `Updated permissions for ${toolName === '*' ? 'all tools' : toolName}.`);
+}
+
 export function deactivate() {
     console.log('Cuovare AI Assistant deactivated');
 }
@@ -0,0 +1,298 @@
+import { JSONRPCMessage } from './MCPTransport';
+
+/**
+ * JSON-RPC plumbing for one MCP connection: request/reply pairing, timeouts,
+ * cancellation and paging of list methods.
+ */
+
+export type MCPInventoryKind = 'tools' | 'resources' | 'prompts';
+
+export interface MCPProgressParams {
+    progressToken: string | number;
+    progress: number;
+    total?: number;
+    message?: string;
+}
+
+export interface MCPClientHandlers {
+    /** Answer a request from the server; `ping` is answered by the client itself */
+    onRequest?: (method: string, params: any) => Promise<any>;
+    /** The server's tools, resources or prompts changed and should be listed again */
+    onListChanged?: (kind: MCPInventoryKind) => void;
+    onProgress?: (progress: MCPProgressParams) => void;
+    onResourceUpdated?: (uri: string) => void;
+    /** `notifications/message` log entries */
+    onLogMessage?: (params: { level?: string; logger?: string; data?: any }) => void;
+    /** Notifications not routed above, including cancellations once they have been applied */
+    onNotification?: (message: JSONRPCMessage) => void;
+    /** Failures that have no caller to report to */
+    onLog?: (line: string) => void;
+}
+
+/**
+ * Error answered to a server request; `code` goes into the JSON-RPC error
+ */
+export class MCPRequestError extends Error {
+    constructor(message: string, public readonly code: number) {
+        super(message);
+        this.name = 'MCPRequestError';
+    }
+}
+
+export interface MCPRequestOptions {
+    timeoutMs?: number;
+    /** Aborting fails the request with the abort reason and tells the server to stop */
+    signal?: AbortSignal;
+}
+
+export const DEFAULT_REQUEST_TIMEOUT = 30000;
+
+export const METHOD_NOT_FOUND_CODE = -32601;
+export const INTERNAL_ERROR_CODE = -32603;
+
+const LIST_CHANGED_NOTIFICATIONS: Record<string, MCPInventoryKind> = {
+    'notifications/tools/list_changed': 'tools',
+    'notifications/resources/list_changed': 'resources',
+    'notifications/prompts/list_changed': 'prompts'
+};
+
+// Upper bound on the pages fetched for one list, for servers that never stop paginating
+export const MAX_LIST_PAGES = 100;
+
+interface PendingRequest {
+    resolve: (value: any) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+}
+
+export class MCPClient {
+    private pendingRequests: Map<number, PendingRequest> = new Map();
+    private serverRequestsInFlight: Map<number | string, { cancelled: boolean }> = new Map();
+    private nextId = 1;
+
+    constructor(
+        private readonly serverName: string,
+        private readonly send: (message: JSONRPCMessage) => Promise<void>,
+        private readonly handlers: MCPClientHandlers = {},
+        private readonly requestTimeout: number = DEFAULT_REQUEST_TIMEOUT
+    ) {}
+
+    /**
+     * Send a request and wait for the matching response
+     */
+    public async request(method: string, params?: any, options: MCPRequestOptions = {}): Promise<any> {
+        const { signal } = options;
+        if (signal?.aborted) {
+            throw toError(signal.reason);
+        }
+
+        const id = this.nextId++;
+        const result = new Promise<any>((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pendingRequests.delete(id);
+                reject(new Error(`Request "${method}" to ${this.serverName} timed out`));
+            }, options.timeoutMs ?? this.requestTimeout);
+
+            this.pendingRequests.set(id, { resolve, reject, timeout });
+        });
+
+        const onAbort = () => this.cancel(id, toError(signal!.reason));
+        signal?.addEventListener('abort', onAbort);
+
+        try {
+            await this.send({
+                jsonrpc: '2.0',
+                id,
+                method,
+                ...(params !== undefined && { params })
+            });
+        } catch (error) {
+            this.takePending(id);
+            signal?.removeEventListener('abort', onAbort);
+            throw error;
+        }
+
+        return result.finally(() => signal?.removeEventListener('abort', onAbort));
+    }
+
+    public async notify(method: string, params?: any): Promise<void> {
+        await this.send({
+            jsonrpc: '2.0',
+            method,
+            ...(params !== undefined && { params })
+        });
+    }
+
+    /**
+     * Follow `nextCursor` pagination and merge every page of a list request.
+     * A cursor the server already handed out ends the list, as does reaching
+     * `maxPages`; either way the items fetched so far are kept.
+     */
+    public async listAll(method: string, key: string, maxPages: number = MAX_LIST_PAGES): Promise<any[]> {
+        const items: any[] = [];
+        const seenCursors = new Set<string>();
+        let cursor: string | undefined;
+
+        for (let page = 0; page < maxPages; page++) {
+            const result = await this.request(method, cursor !== undefined ? { cursor } : undefined);
+            if (Array.isArray(result?.[key])) {
+                items.push(...result[key]);
+            }
+
+            cursor = typeof result?.nextCursor === 'string' && result.nextCursor ? result.nextCursor : undefined;
+            if (cursor === undefined) {
+                return items;
+            }
+            if (seenCursors.has(cursor)) {
+                this.handlers.onLog?.(`${this.serverName} repeated cursor "${cursor}" for ${method}; stopping at ${items.length} items`);
+                return items;
+            }
+            seenCursors.add(cursor);
+        }
+
+        this.handlers.onLog?.(`${this.serverName} was still paginating ${method} after ${maxPages} pages; stopping at ${items.length} items`);
+        return items;
+    }
+
+    /**
+     * Route a message from the server: replies settle their request, the rest
+     * goes to the handlers
+     */
+    public handleMessage(message: JSONRPCMessage): void {
+        if (message.method === undefined) {
+            const pending = typeof message.id === 'number' ? this.takePending(message.id) : undefined;
+            if (!pending) {
+                return;
+            }
+
+            if (message.error) {
+                pending.reject(new Error(message.error.message || 'Unknown MCP error'));
+            } else {
+                pending.resolve(message.result);
+            }
+            return;
+        }
+
+        // Requests from the server expect a reply
+        if (message.id !== undefined) {
+            this.answerServerRequest(message);
+            return;
+        }
+
+        this.handleNotification(message);
+    }
+
+    /**
+     * Fail every request still waiting for a reply, e.g. when the connection is gone
+     */
+    public rejectAll(error: Error): void {
+        for (const id of Array.from(this.pendingRequests.keys())) {
+            this.takePending(id)?.reject(error);
+        }
+    }
+
+    private handleNotification(message: JSONRPCMessage): void {
+        const params = message.params || {};
+        const listKind = LIST_CHANGED_NOTIFICATIONS[message.method!];
+        if (listKind) {
+            this.handlers.onListChanged?.(listKind);
+            return;
+        }
+
+        switch (message.method) {
+            case 'notifications/progress':
+                // Progress is only reported for requests that asked for it with a token
+                if (params.progressToken !== undefined) {
+                    this.handlers.onProgress?.({
+                        progressToken: params.progressToken,
+                        progress: params.progress,
+                        total: params.total,
+                        message: params.message
+                    });
+                }
+                break;
+            case 'notifications/resources/updated':
+                if (params.uri) {
+                    this.handlers.onResourceUpdated?.(params.uri);
+                }
+                break;
+            case 'notifications/message':
+                this.handlers.onLogMessage?.(params);
+                break;
+            case 'notifications/cancelled': {
+                // The server gave up on one of its requests; its reply is dropped
+                const inFlight = params.requestId !== undefined ? this.serverRequestsInFlight.get(params.requestId) : undefined;
+                if (inFlight) {
+                    inFlight.cancelled = true;
+                }
+                this.handlers.onNotification?.(message);
+                break;
+            }
+            default:
+                this.handlers.onNotification?.(message);
+                break;
+        }
+    }
+
+    /**
+     * Reply to a request initiated by the server, unless it was cancelled meanwhile
+     */
+    private async answerServerRequest(message: JSONRPCMessage): Promise<void> {
+        const id = message.id!;
+        const reply: JSONRPCMessage = { jsonrpc: '2.0', id };
+        const inFlight = { cancelled: false };
+        this.serverRequestsInFlight.set(id, inFlight);
+
+        try {
+            if (message.method === 'ping') {
+                reply.result = {};
+            } else if (this.handlers.onRequest) {
+                reply.result = await this.handlers.onRequest(message.method!, message.params);
+            } else {
+                throw new MCPRequestError(`Method not found: ${message.method}`, METHOD_NOT_FOUND_CODE);
+            }
+        } catch (error) {
+            reply.error = {
+                // Errors that carry a JSON-RPC code (MCPRequestError, MCPSamplingError) keep it
+                code: typeof (error as { code?: unknown })?.code === 'number' ? (error as { code: number }).code : INTERNAL_ERROR_CODE,
+                message: error instanceof Error ? error.message : String(error)
+            };
+        }
+
+        this.serverRequestsInFlight.delete(id);
+        if (inFlight.cancelled) {
+            return;
+        }
+
+        try {
+            await this.send(reply);
+        } catch (error) {
+            this.handlers.onLog?.(`Failed to answer ${message.method} from ${this.serverName}: ${error}`);
+        }
+    }
+
+    private cancel(id: number, reason: Error): void {
+        const pending = this.takePending(id);
+        if (!pending) {
+            return;
+        }
+        pending.reject(reason);
+
+        this.notify('notifications/cancelled', { requestId: id, reason: reason.message }).catch(error => {
+            this.handlers.onLog?.(`Failed to send cancellation to ${this.serverName}: ${error}`);
+        });
+    }
+
+    private takePending(id: number): PendingRequest | undefined {
+        const pending = this.pendingRequests.get(id);
+        if (pending) {
+            clearTimeout(pending.timeout);
+            this.pendingRequests.delete(id);
+        }
+        return pending;
+    }
+}
+
+function toError(reason: unknown): Error {
+    return reason instanceof Error ? reason : new Error(reason === undefined ? 'Cancelled' : String(reason));
+}
@@ -1,15 +1,43 @@
 import * as vscode from 'vscode';
-import { spawn, ChildProcess } from 'child_process';
-import { WebSocket } from 'ws';
+import { MCPTransport, MCPTransportType, MCPTransportError, JSONRPCMessage, createMCPTransport } from './MCPTransport';
+import {
+    DEFAULT_REQUEST_TIMEOUT,
+    METHOD_NOT_FOUND_CODE,
+    MCPClient,
+    MCPInventoryKind,
+    MCPProgressParams,
+    MCPRequestError,
+    MCPRequestOptions
+} from './MCPClient';
+import {
+    MCPSamplingError,
+    MCPSamplingLimits,
+    MCPSamplingRequest,
+    MCPSamplingResult,
+    SAMPLING_LIMIT_CODE,
+    SAMPLING_REJECTED_CODE,
+    SamplingRateLimiter,
+    applyStopSequences,
+    normalizeSamplingLimits,
+    pickHintedModel,
+    toChatMessages,
+    validateSamplingRequest
+} from './MCPSampling';
+import { AIProviderManager } from '../providers/AIProviderManager';
 
 export interface MCPServer {
     name: string;
-    command: string;
+    command?: string; // stdio servers
     args: string[];
     env?: Record<string, string>;
     cwd?: string;
-    process?: ChildProcess;
-    socket?: WebSocket;
+    url?: string; // Remote servers
+    transport?: MCPTransportType; // Defaults to stdio for commands, Streamable HTTP for urls
+    headers?: Record<string, string>; // Sent with every HTTP request; `${env:NAME}` is expanded
+    connection?: MCPTransport;
+    client?: MCPClient; // Requests over the current connection
+    subscriptions?: Set<string>; // Resource URIs to re-subscribe after a reconnect
+    sampling: MCPSamplingLimits;
     tools?: MCPTool[];
     resources?: MCPResource[];
     prompts?: MCPPrompt[];
@@ -39,15 +67,62 @@ export interface MCPResource {
     name: string;
     description?: string;
     mimeType?: string;
+    size?: number;
+    serverName?: string;
+}
+
+export interface MCPResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string; // Base64
+}
+
+export interface MCPResourceUpdate {
+    serverName: string;
+    uri: string;
+}
+
+export interface MCPPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
 }
 
 export interface MCPPrompt {
     name: string;
     description?: string;
-    arguments?: any[];
+    arguments?: MCPPromptArgument[];
+    serverName?: string;
+}
+
+export interface MCPPromptMessage {
+    role: 'user' | 'assistant';
+    content: {
+        type: 'text' | 'image' | 'audio' | 'resource';
+        text?: string;
+        data?: string;
+        mimeType?: string;
+        resource?: MCPResourceContents;
+    };
+}
+
+export interface MCPPromptResult {
+    description?: string;
+    messages: MCPPromptMessage[];
+}
+
+export interface MCPInventoryChange {
+    serverName: string;
+    kind: MCPInventoryKind;
+}
+
+export interface MCPProgress extends MCPProgressParams {
+    serverName: string;
 }
 
 export interface MCPCapabilities {
+    logging?: Record<string, any>;
     tools?: {
         listChanged?: boolean;
     };
@@ -64,6 +139,7 @@ export interface MCPCapabilities {
 export interface MCPToolCall {
     name: string;
     arguments: Record<string, any>;
+    requestId?: string; // Sent as the progress token; also used to cancel the call
 }
 
 export interface MCPToolResult {
@@ -99,14 +175,34 @@ export class MCPManager {
     private servers: Map<string, MCPServer> = new Map();
     private toolRegistry: Map<string, ToolRegistryEntry> = new Map();
     private outputChannel: vscode.OutputChannel;
-    private messageIdCounter = 1;
-    private pendingRequests: Map<number, { resolve: (value: any) => void; reject: (error: any) => void; timeout: NodeJS.Timeout }> = new Map();
     private heartbeatInterval?: NodeJS.Timeout;
     private maxReconnectAttempts = 3;
     private reconnectDelay = 5000;
-    private requestTimeout = 30000;
+    private requestTimeout = DEFAULT_REQUEST_TIMEOUT;
+    private activeToolCalls: Map<string, AbortController> = new Map();
+    private serverLogs: Map<string, vscode.OutputChannel> = new Map();
+    private resourceUpdateEmitter = new vscode.EventEmitter<MCPResourceUpdate>();
+    private inventoryEmitter = new vscode.EventEmitter<MCPInventoryChange>();
+    private progressEmitter = new vscode.EventEmitter<MCPProgress>();
+    private samplingLimiter = new SamplingRateLimiter();
+    private samplingAllowed: Set<string> = new Set(); // Servers approved for the rest of the session
 
-    constructor() {
+    /**
+     * Fires when a server reports that a subscribed resource changed
+     */
+    public readonly onDidUpdateResource = this.resourceUpdateEmitter.event;
+
+    /**
+     * Fires after a server's tools, resources or prompts were re-fetched
+     */
+    public readonly onDidChangeInventory = this.inventoryEmitter.event;
+
+    /**
+     * Fires for `notifications/progress` on requests that carried a progress token
+     */
+    public readonly onDidReportProgress = this.progressEmitter.event;
+
+    constructor(private readonly aiManager?: AIProviderManager) {
         this.outputChannel = vscode.window.createOutputChannel('Cuovare MCP Enhanced');
         this.startHeartbeat();
         this.setupEventHandlers();
@@ -137,6 +233,10 @@ export class MCPManager {
                 args: serverConfig.args || [],
                 env: serverConfig.env,
                 cwd: serverConfig.cwd || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath,
+                url: serverConfig.url,
+                transport: serverConfig.transport,
+                headers: serverConfig.headers,
+                sampling: normalizeSamplingLimits(serverConfig.sampling),
                 status: 'disconnected',
                 connectionAttempts: 0,
                 tools: [],
@@ -186,153 +286,148 @@ export class MCPManager {
     private async connectServer(server: MCPServer): Promise<void> {
         server.status = 'connecting';
         this.outputChannel.appendLine(`🔌 Connecting to MCP server: ${server.name}`);
-        this.outputChannel.appendLine(`   Command: ${server.command} ${server.args.join(' ')}`);
-
-        // Start the MCP server process
-        server.process = spawn(server.command, server.args, {
-            stdio: ['pipe', 'pipe', 'pipe'],
-            env: { ...process.env, ...server.env },
-            cwd: server.cwd
-        });
 
-        if (!server.process) {
-            throw new Error('Failed to start process');
+        if (server.url) {
+            this.outputChannel.appendLine(`   URL: ${server.url} (${server.transport || 'streamable-http'})`);
+        } else {
+            this.outputChannel.appendLine(`   Command: ${server.command} ${server.args.join(' ')}`);
         }
 
-        // Set up process event handlers
-        this.setupProcessHandlers(server);
+        try {
+            await this.openConnection(server, server.transport);
+        } catch (error) {
+            // Servers on the 2024-11-05 protocol reject Streamable HTTP POSTs with a 4xx
+            const legacyServer = error instanceof MCPTransportError && error.status !== undefined
+                && error.status >= 400 && error.status < 500 && error.status !== 401 && error.status !== 403;
+
+            if (!server.url || server.transport || !legacyServer) {
+                throw error;
+            }
 
-        // Set up communication protocol
-        await this.setupProtocol(server);
+            this.outputChannel.appendLine(`↩️  ${server.name} does not speak Streamable HTTP, falling back to SSE`);
+            await this.openConnection(server, 'sse');
+        }
     }
 
     /**
-     * Set up process event handlers
+     * Open a transport and run the MCP initialization handshake over it
      */
-    private setupProcessHandlers(server: MCPServer): void {
-        if (!server.process) {return;}
-
-        server.process.on('error', (error) => {
-            this.outputChannel.appendLine(`💥 Process error for ${server.name}: ${error.message}`);
-            server.status = 'error';
-            server.lastError = error.message;
-        });
-
-        server.process.on('exit', (code, signal) => {
-            this.outputChannel.appendLine(`👋 Process exited for ${server.name}: code=${code}, signal=${signal}`);
-            server.status = 'disconnected';
-            
-            // Auto-reconnect if enabled and not manually disconnected
-            if (server.autoReconnect && code !== 0) {
-                setTimeout(() => {
-                    if (server.status === 'disconnected') {
-                        this.outputChannel.appendLine(`🔄 Auto-reconnecting ${server.name}...`);
-                        this.connectServerWithRetry(server);
-                    }
-                }, this.reconnectDelay);
+    private async openConnection(server: MCPServer, transportType?: MCPTransportType): Promise<void> {
+        await server.connection?.close();
+
+        const connection = createMCPTransport({ ...server, transport: transportType });
+        const client = new MCPClient(server.name, message => this.sendMCPMessage(server, message), {
+            onRequest: (method, params) => this.handleServerRequest(server, method, params),
+            onListChanged: kind => this.refreshInventory(server, kind),
+            onProgress: progress => this.progressEmitter.fire({ serverName: server.name, ...progress }),
+            onResourceUpdated: uri => {
+                this.outputChannel.appendLine(`🔔 ${server.name} resource updated: ${uri}`);
+                this.resourceUpdateEmitter.fire({ serverName: server.name, uri });
+            },
+            onLogMessage: params => this.logServerMessage(server, params),
+            onNotification: message => this.logNotification(server, message),
+            onLog: line => this.outputChannel.appendLine(`⚠️ ${line}`)
+        }, this.requestTimeout);
+        server.connection = connection;
+        server.client = client;
+
+        connection.onMessage = message => this.handleMCPMessage(server, client, message);
+        connection.onLog = line => this.outputChannel.appendLine(`🔍 ${server.name} ${line}`);
+        connection.onClose = error => {
+            if (server.connection === connection) {
+                this.handleConnectionClosed(server, error);
             }
-        });
+        };
 
-        server.process.on('spawn', () => {
-            this.outputChannel.appendLine(`🚀 Process spawned for ${server.name} (PID: ${server.process?.pid})`);
-        });
+        try {
+            await connection.start();
+            server.status = 'initializing';
+            await this.initializeSession(server, connection.type);
+        } catch (error) {
+            this.rejectPendingRequests(server, error instanceof Error ? error : new Error(String(error)));
+            server.connection = undefined;
+            await connection.close();
+            throw error;
+        }
     }
 
     /**
-     * Set up JSON-RPC communication protocol
+     * Handle a transport that closed without being asked to
      */
-    private async setupProtocol(server: MCPServer): Promise<void> {
-        if (!server.process) {
-            throw new Error('No process available');
+    private handleConnectionClosed(server: MCPServer, error?: Error): void {
+        const wasConnected = server.status === 'connected';
+        this.outputChannel.appendLine(`👋 Connection closed for ${server.name}${error ? `: ${error.message}` : ''}`);
+
+        this.rejectPendingRequests(server, error || new Error(`Connection to ${server.name} closed`));
+        server.connection = undefined;
+        server.status = 'disconnected';
+        if (error) {
+            server.lastError = error.message;
         }
 
-        server.status = 'initializing';
-        let buffer = '';
-
-        // Handle stdout messages
-        server.process.stdout?.on('data', (data) => {
-            buffer += data.toString();
-            this.processBuffer(server, buffer);
-            buffer = this.extractCompleteMessages(buffer);
-        });
-
-        // Handle stderr for debugging
-        server.process.stderr?.on('data', (data) => {
-            const errorOutput = data.toString().trim();
-            if (errorOutput) {
-                this.outputChannel.appendLine(`🔍 ${server.name} stderr: ${errorOutput}`);
-            }
-        });
-
-        // Send initialization request
-        await this.sendInitializationMessage(server);
+        // Auto-reconnect if enabled and the server is still configured
+        if (wasConnected && server.autoReconnect && error) {
+            setTimeout(() => {
+                if (server.status === 'disconnected' && this.servers.get(server.name) === server) {
+                    this.outputChannel.appendLine(`🔄 Auto-reconnecting ${server.name}...`);
+                    this.connectServerWithRetry(server);
+                }
+            }, this.reconnectDelay);
+        }
     }
 
     /**
-     * Process JSON-RPC buffer and extract complete messages
+     * Run the initialize handshake and load the server's inventory
      */
-    private processBuffer(server: MCPServer, buffer: string): void {
-        const lines = buffer.split('\n');
-        
-        for (let i = 0; i < lines.length - 1; i++) {
-            const line = lines[i].trim();
-            if (line) {
-                try {
-                    const message = JSON.parse(line);
-                    this.handleMCPMessage(server, message);
-                } catch (error) {
-                    this.outputChannel.appendLine(`❌ Failed to parse message from ${server.name}: ${line}`);
-                    this.outputChannel.appendLine(`   Parse error: ${error}`);
-                }
+    private async initializeSession(server: MCPServer, transportType: MCPTransportType): Promise<void> {
+        const result = await this.sendRequest(server, 'initialize', {
+            // Streamable HTTP was introduced in 2025-03-26; older servers negotiate down
+            protocolVersion: transportType === 'streamable-http' ? '2025-03-26' : '2024-11-05',
+            capabilities: {
+                tools: {},
+                resources: { subscribe: true },
+                prompts: {},
+                roots: { listChanged: true },
+                ...(this.aiManager && server.sampling.enabled && { sampling: {} })
+            },
+            clientInfo: {
+                name: 'Cuovare Enhanced',
+                version: '1.0.0'
             }
-        }
+        });
+
+        await this.sendNotification(server, 'notifications/initialized');
+        await this.handleInitializationComplete(server, result);
     }
 
     /**
-     * Extract complete messages from buffer
+     * Send a JSON-RPC request and wait for the matching response
      */
-    private extractCompleteMessages(buffer: string): string {
-        const lines = buffer.split('\n');
-        return lines[lines.length - 1] || '';
+    private async sendRequest(server: MCPServer, method: string, params?: any, options?: MCPRequestOptions): Promise<any> {
+        return this.getClient(server).request(method, params, options);
     }
 
-    /**
-     * Send initialization message
-     */
-    private async sendInitializationMessage(server: MCPServer): Promise<void> {
-        const initMessage = {
-            jsonrpc: '2.0',
-            id: this.getNextMessageId(),
-            method: 'initialize',
-            params: {
-                protocolVersion: '2024-11-05',
-                capabilities: {
-                    tools: {},
-                    resources: { subscribe: true },
-                    prompts: {}
-                },
-                clientInfo: {
-                    name: 'Cuovare Enhanced',
-                    version: '1.0.0'
-                }
-            }
-        };
+    private async sendNotification(server: MCPServer, method: string, params?: any): Promise<void> {
+        await this.getClient(server).notify(method, params);
+    }
 
-        await this.sendMCPMessage(server, initMessage);
+    private getClient(server: MCPServer): MCPClient {
+        if (!server.client) {
+            throw new Error(`Server connection not available for ${server.name}`);
+        }
+        return server.client;
     }
 
     /**
      * Send JSON-RPC message to server
      */
-    private async sendMCPMessage(server: MCPServer, message: any): Promise<void> {
-        if (!server.process?.stdin) {
-            throw new Error(`Server process not available for ${server.name}`);
+    private async sendMCPMessage(server: MCPServer, message: JSONRPCMessage): Promise<void> {
+        if (!server.connection) {
+            throw new Error(`Server connection not available for ${server.name}`);
         }
 
-        const jsonMessage = JSON.stringify(message) + '\n';
-        
         try {
-            server.process.stdin.write(jsonMessage);
+            await server.connection.send(message);
             this.outputChannel.appendLine(`📤 Sent to ${server.name}: ${message.method || 'response'} (id: ${message.id})`);
         } catch (error) {
             this.outputChannel.appendLine(`❌ Failed to send message to ${server.name}: ${error}`);
@@ -340,60 +435,173 @@ export class MCPManager {
         }
     }
 
+    private rejectPendingRequests(server: MCPServer, error: Error): void {
+        server.client?.rejectAll(error);
+        server.client = undefined;
+    }
+
     /**
      * Handle incoming MCP messages
      */
-    private handleMCPMessage(server: MCPServer, message: any): void {
+    private handleMCPMessage(server: MCPServer, client: MCPClient, message: JSONRPCMessage): void {
         this.outputChannel.appendLine(`📥 Received from ${server.name}: ${message.method || 'response'} (id: ${message.id})`);
+        server.lastHeartbeat = Date.now();
+        client.handleMessage(message);
+    }
 
-        // Handle responses to our requests
-        if (message.id && this.pendingRequests.has(message.id)) {
-            const pending = this.pendingRequests.get(message.id)!;
-            clearTimeout(pending.timeout);
-            this.pendingRequests.delete(message.id);
-
-            if (message.error) {
-                pending.reject(new Error(message.error.message || 'Unknown MCP error'));
-            } else {
-                pending.resolve(message.result);
-            }
-            return;
+    /**
+     * Log notifications that need nothing beyond what MCPClient already did
+     */
+    private logNotification(server: MCPServer, message: JSONRPCMessage): void {
+        if (message.method === 'notifications/cancelled') {
+            this.outputChannel.appendLine(`🔔 ${server.name} cancelled request ${message.params?.requestId}${message.params?.reason ? `: ${message.params.reason}` : ''}`);
+        } else {
+            this.outputChannel.appendLine(`🔔 ${server.name} notification: ${message.method}`);
         }
+    }
 
-        // Handle specific methods
-        switch (message.method) {
-            case 'tools/list':
-                this.handleToolsList(server, message);
-                break;
-            case 'resources/list':
-                this.handleResourcesList(server, message);
-                break;
-            case 'prompts/list':
-                this.handlePromptsList(server, message);
-                break;
+    /**
+     * Answer a request initiated by the server
+     */
+    private async handleServerRequest(server: MCPServer, method: string, params: any): Promise<any> {
+        switch (method) {
+            case 'roots/list':
+                return { roots: this.getWorkspaceRoots() };
+            case 'sampling/createMessage':
+                return this.handleSamplingRequest(server, params);
             default:
-                if (message.id === 1 && message.result) {
-                    this.handleInitializationComplete(server, message);
-                }
-                break;
+                throw new MCPRequestError(`Method not found: ${method}`, METHOD_NOT_FOUND_CODE);
+        }
+    }
+
+    /**
+     * Workspace folders exposed to servers as roots
+     */
+    private getWorkspaceRoots(): Array<{ uri: string; name: string }> {
+        return (vscode.workspace.workspaceFolders || []).map(folder => ({
+            uri: folder.uri.toString(),
+            name: folder.name
+        }));
+    }
+
+    /**
+     * Run a completion for a server through the user's AI providers, after the
+     * per-server limits and the user's approval
+     */
+    private async handleSamplingRequest(server: MCPServer, params: any): Promise<MCPSamplingResult> {
+        if (!this.aiManager || !server.sampling.enabled) {
+            throw new MCPSamplingError(`Sampling is disabled for ${server.name}`, SAMPLING_REJECTED_CODE);
+        }
+        validateSamplingRequest(params);
+
+        if (!this.samplingLimiter.tryAcquire(server.name, server.sampling.maxRequestsPerMinute)) {
+            throw new MCPSamplingError(`Sampling rate limit reached for ${server.name}`, SAMPLING_LIMIT_CODE);
+        }
+
+        const maxTokens = Math.min(params.maxTokens, server.sampling.maxTokens);
+        if (!(await this.approveSampling(server, params, maxTokens))) {
+            this.outputChannel.appendLine(`🚫 Sampling request from ${server.name} declined`);
+            throw new MCPSamplingError('User rejected sampling request', SAMPLING_REJECTED_CODE);
+        }
+
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const selectedModels = config.get<Record<string, string>>('selectedModels', {});
+        const hinted = pickHintedModel(
+            params.modelPreferences,
+            Object.entries(selectedModels).map(([provider, model]) => ({ provider, model }))
+        );
+
+        this.outputChannel.appendLine(`🧠 Sampling for ${server.name} (${hinted ? `${hinted.provider}/${hinted.model}` : 'active model'}, max ${maxTokens} tokens)`);
+        const response = await this.aiManager.sendMessage({
+            messages: toChatMessages(params),
+            provider: hinted?.provider,
+            model: hinted?.model,
+            maxTokens,
+            temperature: params.temperature,
+            enableTools: false
+        });
+
+        const { text, stopped } = applyStopSequences(response.content, params.stopSequences);
+        const hitLimit = response.usage !== undefined && !response.usage.estimated && response.usage.outputTokens >= maxTokens;
+        return {
+            role: 'assistant',
+            content: { type: 'text', text },
+            model: response.model,
+            stopReason: stopped ? 'stopSequence' : hitLimit ? 'maxTokens' : 'endTurn'
+        };
+    }
+
+    /**
+     * Ask the user before sending a server's prompt to the model
+     */
+    private async approveSampling(server: MCPServer, request: MCPSamplingRequest, maxTokens: number): Promise<boolean> {
+        if (server.sampling.autoApprove || this.samplingAllowed.has(server.name)) {
+            return true;
+        }
+
+        const lastMessage = request.messages[request.messages.length - 1];
+        const preview = lastMessage.content.type === 'text' ? lastMessage.content.text || '' : `[${lastMessage.content.type}]`;
+        const detail = [
+            request.systemPrompt ? `System: ${request.systemPrompt.slice(0, 200)}` : undefined,
+            `${lastMessage.role === 'user' ? 'User' : 'Assistant'}: ${preview.slice(0, 500)}${preview.length > 500 ? '…' : ''}`,
+            `Messages: ${request.messages.length}, reply limit: ${maxTokens} tokens`
+        ].filter(Boolean).join('\n\n');
+
+        const choice = await vscode.window.showInformationMessage(
+            `MCP server "${server.name}" wants to use your AI model.`,
+            { modal: true, detail },
+            'Allow',
+            'Allow for Session'
+        );
+
+        if (choice === 'Allow for Session') {
+            this.samplingAllowed.add(server.name);
+        }
+        return choice === 'Allow' || choice === 'Allow for Session';
+    }
+
+    /**
+     * Tell connected servers that the workspace folders changed
+     */
+    private async notifyRootsChanged(): Promise<void> {
+        for (const server of this.servers.values()) {
+            if (server.status === 'connected') {
+                await this.sendNotification(server, 'notifications/roots/list_changed').catch(error => {
+                    this.outputChannel.appendLine(`❌ Failed to notify ${server.name} of root changes: ${error}`);
+                });
+            }
         }
     }
 
     /**
      * Handle initialization completion
      */
-    private async handleInitializationComplete(server: MCPServer, message: any): Promise<void> {
+    private async handleInitializationComplete(server: MCPServer, result: any): Promise<void> {
         server.status = 'connected';
-        server.capabilities = message.result.capabilities;
-        server.version = message.result.serverInfo?.version;
+        server.capabilities = result?.capabilities;
+        server.version = result?.serverInfo?.version;
         server.lastHeartbeat = Date.now();
 
         this.outputChannel.appendLine(`🎉 ${server.name} initialized successfully`);
         this.outputChannel.appendLine(`   Version: ${server.version || 'unknown'}`);
         this.outputChannel.appendLine(`   Capabilities: ${JSON.stringify(server.capabilities)}`);
 
+        if (server.capabilities?.logging) {
+            const level = vscode.workspace.getConfiguration('cuovare').get<string>('mcp.logLevel', 'info');
+            await this.sendRequest(server, 'logging/setLevel', { level }).catch(error => {
+                this.outputChannel.appendLine(`⚠️ ${server.name} rejected log level "${level}": ${error}`);
+            });
+        }
+
         // Request available tools, resources, and prompts
         await this.requestServerInventory(server);
+
+        // Restore resource subscriptions lost with the previous session
+        for (const uri of server.subscriptions || []) {
+            await this.sendRequest(server, 'resources/subscribe', { uri }).catch(error => {
+                this.outputChannel.appendLine(`❌ Failed to re-subscribe to ${uri} on ${server.name}: ${error}`);
+            });
+        }
     }
 
     /**
@@ -401,43 +609,84 @@ export class MCPManager {
      */
     private async requestServerInventory(server: MCPServer): Promise<void> {
         try {
-            // Request tools
-            if (server.capabilities?.tools) {
-                await this.sendMCPMessage(server, {
-                    jsonrpc: '2.0',
-                    id: this.getNextMessageId(),
-                    method: 'tools/list'
-                });
+            for (const kind of ['tools', 'resources', 'prompts'] as MCPInventoryKind[]) {
+                if (server.capabilities?.[kind]) {
+                    await this.fetchInventory(server, kind);
+                }
             }
+        } catch (error) {
+            this.outputChannel.appendLine(`❌ Failed to request inventory from ${server.name}: ${error}`);
+        }
+    }
 
-            // Request resources
-            if (server.capabilities?.resources) {
-                await this.sendMCPMessage(server, {
-                    jsonrpc: '2.0',
-                    id: this.getNextMessageId(),
-                    method: 'resources/list'
-                });
-            }
+    /**
+     * Re-fetch one list after the server reports that it changed
+     */
+    private async refreshInventory(server: MCPServer, kind: MCPInventoryKind): Promise<void> {
+        if (server.status !== 'connected') {
+            return;
+        }
 
-            // Request prompts
-            if (server.capabilities?.prompts) {
-                await this.sendMCPMessage(server, {
-                    jsonrpc: '2.0',
-                    id: this.getNextMessageId(),
-                    method: 'prompts/list'
-                });
-            }
+        this.outputChannel.appendLine(`🔄 ${server.name} ${kind} changed, refreshing...`);
+        try {
+            await this.fetchInventory(server, kind);
+            this.inventoryEmitter.fire({ serverName: server.name, kind });
         } catch (error) {
-            this.outputChannel.appendLine(`❌ Failed to request inventory from ${server.name}: ${error}`);
+            this.outputChannel.appendLine(`❌ Failed to refresh ${kind} from ${server.name}: ${error}`);
+        }
+    }
+
+    private async fetchInventory(server: MCPServer, kind: MCPInventoryKind): Promise<void> {
+        const result = { [kind]: await this.getClient(server).listAll(`${kind}/list`, kind) };
+        switch (kind) {
+            case 'tools':
+                this.handleToolsList(server, result);
+                break;
+            case 'resources':
+                this.handleResourcesList(server, result);
+                break;
+            case 'prompts':
+                this.handlePromptsList(server, result);
+                break;
         }
     }
 
+    /**
+     * Write a `notifications/message` entry to the server's own output channel
+     */
+    private logServerMessage(server: MCPServer, params: { level?: string; logger?: string; data?: any }): void {
+        const level = params.level || 'info';
+        const data = typeof params.data === 'string' ? params.data : JSON.stringify(params.data);
+        const line = `[${new Date().toISOString()}] [${level}]${params.logger ? ` ${params.logger}:` : ''} ${data}`;
+
+        this.getServerLog(server.name).appendLine(line);
+        if (['error', 'critical', 'alert', 'emergency'].includes(level)) {
+            this.outputChannel.appendLine(`❌ ${server.name}: ${data}`);
+        }
+    }
+
+    private getServerLog(serverName: string): vscode.OutputChannel {
+        let log = this.serverLogs.get(serverName);
+        if (!log) {
+            log = vscode.window.createOutputChannel(`Cuovare MCP: ${serverName}`);
+            this.serverLogs.set(serverName, log);
+        }
+        return log;
+    }
+
+    /**
+     * Reveal the log messages a server has sent
+     */
+    public showServerLog(serverName: string): void {
+        this.getServerLog(serverName).show(true);
+    }
+
     /**
      * Handle tools list response
      */
-    private handleToolsList(server: MCPServer, message: any): void {
-        if (message.result?.tools) {
-            server.tools = message.result.tools.map((tool: any) => ({
+    private handleToolsList(server: MCPServer, result: any): void {
+        if (result?.tools) {
+            server.tools = result.tools.map((tool: any) => ({
                 ...tool,
                 serverName: server.name
             }));
@@ -454,9 +703,12 @@ export class MCPManager {
     /**
      * Handle resources list response
      */
-    private handleResourcesList(server: MCPServer, message: any): void {
-        if (message.result?.resources) {
-            server.resources = message.result.resources;
+    private handleResourcesList(server: MCPServer, result: any): void {
+        if (result?.resources) {
+            server.resources = result.resources.map((resource: any) => ({
+                ...resource,
+                serverName: server.name
+            }));
             this.outputChannel.appendLine(`📁 Loaded ${server.resources?.length || 0} resources from ${server.name}`);
         }
     }
@@ -464,9 +716,12 @@ export class MCPManager {
     /**
      * Handle prompts list response
      */
-    private handlePromptsList(server: MCPServer, message: any): void {
-        if (message.result?.prompts) {
-            server.prompts = message.result.prompts;
+    private handlePromptsList(server: MCPServer, result: any): void {
+        if (result?.prompts) {
+            server.prompts = result.prompts.map((prompt: any) => ({
+                ...prompt,
+                serverName: server.name
+            }));
             this.outputChannel.appendLine(`💬 Loaded ${server.prompts?.length || 0} prompts from ${server.name}`);
         }
     }
@@ -477,6 +732,13 @@ export class MCPManager {
     private updateToolRegistry(server: MCPServer): void {
         if (!server.tools) {return;}
 
+        // Drop tools the server no longer offers
+        for (const [name, entry] of this.toolRegistry) {
+            if (entry.serverName === server.name && !server.tools.some(tool => tool.name === name)) {
+                this.toolRegistry.delete(name);
+            }
+        }
+
         for (const tool of server.tools) {
             const existingEntry = this.toolRegistry.get(tool.name);
             
@@ -558,32 +820,17 @@ export class MCPManager {
             };
         }
 
-        try {
-            const requestId = this.getNextMessageId();
-            
-            // Create promise for response
-            const resultPromise = new Promise<any>((resolve, reject) => {
-                const timeout = setTimeout(() => {
-                    this.pendingRequests.delete(requestId);
-                    reject(new Error(`Tool call timeout for "${toolCall.name}"`));
-                }, this.requestTimeout);
-
-                this.pendingRequests.set(requestId, { resolve, reject, timeout });
-            });
-
-            // Send tool call request
-            await this.sendMCPMessage(server, {
-                jsonrpc: '2.0',
-                id: requestId,
-                method: 'tools/call',
-                params: {
-                    name: toolCall.name,
-                    arguments: toolCall.arguments
-                }
-            });
+        const controller = new AbortController();
+        if (toolCall.requestId) {
+            this.activeToolCalls.set(toolCall.requestId, controller);
+        }
 
-            // Wait for response
-            const result = await resultPromise;
+        try {
+            const result = await this.sendRequest(server, 'tools/call', {
+                name: toolCall.name,
+                arguments: toolCall.arguments,
+                ...(toolCall.requestId && { _meta: { progressToken: toolCall.requestId } })
+            }, { signal: controller.signal });
             const executionTime = Date.now() - startTime;
 
             // Update registry stats
@@ -617,7 +864,99 @@ export class MCPManager {
                     executionTime
                 }
             };
+        } finally {
+            if (toolCall.requestId) {
+                this.activeToolCalls.delete(toolCall.requestId);
+            }
+        }
+    }
+
+    /**
+     * Cancel a tool call that was started with a `requestId`.
+     * The pending call fails immediately; the server is told to stop via `notifications/cancelled`.
+     */
+    public async cancelToolCall(requestId: string, reason: string = 'Cancelled by user'): Promise<boolean> {
+        const controller = this.activeToolCalls.get(requestId);
+        if (!controller) {
+            return false;
+        }
+        this.activeToolCalls.delete(requestId);
+        controller.abort(new Error(reason));
+        return true;
+    }
+
+    /**
+     * Get resources from all connected servers
+     */
+    public getAvailableResources(): MCPResource[] {
+        return Array.from(this.servers.values())
+            .filter(server => server.status === 'connected')
+            .flatMap(server => server.resources || []);
+    }
+
+    /**
+     * Get prompt templates from all connected servers
+     */
+    public getAvailablePrompts(): MCPPrompt[] {
+        return Array.from(this.servers.values())
+            .filter(server => server.status === 'connected')
+            .flatMap(server => server.prompts || []);
+    }
+
+    /**
+     * Read the contents of a resource
+     */
+    public async readResource(serverName: string, uri: string): Promise<MCPResourceContents[]> {
+        const server = this.getConnectedServer(serverName);
+        const result = await this.sendRequest(server, 'resources/read', { uri });
+        return result?.contents || [];
+    }
+
+    /**
+     * Ask the server to notify us when a resource changes.
+     * Returns false if the server doesn't support subscriptions.
+     */
+    public async subscribeToResource(serverName: string, uri: string): Promise<boolean> {
+        const server = this.getConnectedServer(serverName);
+        if (!server.capabilities?.resources?.subscribe) {
+            return false;
         }
+
+        await this.sendRequest(server, 'resources/subscribe', { uri });
+        server.subscriptions = server.subscriptions || new Set();
+        server.subscriptions.add(uri);
+        return true;
+    }
+
+    public async unsubscribeFromResource(serverName: string, uri: string): Promise<void> {
+        const server = this.servers.get(serverName);
+        if (!server?.subscriptions?.delete(uri) || server.status !== 'connected') {
+            return;
+        }
+
+        await this.sendRequest(server, 'resources/unsubscribe', { uri }).catch(error => {
+            this.outputChannel.appendLine(`❌ Failed to unsubscribe from ${uri} on ${serverName}: ${error}`);
+        });
+    }
+
+    /**
+     * Render a prompt template with the given arguments
+     */
+    public async getPrompt(serverName: string, name: string, args: Record<string, string> = {}): Promise<MCPPromptResult> {
+        const server = this.getConnectedServer(serverName);
+        const result = await this.sendRequest(server, 'prompts/get', { name, arguments: args });
+        return {
+            description: result?.description,
+            messages: result?.messages || []
+        };
+    }
+
+    private getConnectedServer(serverName: string): MCPServer {
+        const server = this.servers.get(serverName);
+        if (!server || server.status !== 'connected') {
+            throw new Error(`Server "${serverName}" not connected`);
+        }
+        return server;
     }
 
     /**
@@ -670,10 +1009,17 @@ export class MCPManager {
                 if (server.status === 'connected' && server.lastHeartbeat) {
                     const timeSinceHeartbeat = now - server.lastHeartbeat;
                     
+                    // Quiet servers get a ping; any message counts as a heartbeat
                     if (timeSinceHeartbeat > 60000) { // 1 minute
-                        this.outputChannel.appendLine(`💔 Heartbeat timeout for ${server.name}`);
-                        server.status = 'error';
-                        server.lastError = 'Heartbeat timeout';
+                        this.sendRequest(server, 'ping', undefined, { timeoutMs: 10000 }).catch(error => {
+                            if (server.status !== 'connected') {
+                                return;
+                            }
+                            this.outputChannel.appendLine(`💔 Heartbeat timeout for ${server.name}`);
+                            const connection = server.connection;
+                            this.handleConnectionClosed(server, error instanceof Error ? error : new Error('Heartbeat timeout'));
+                            connection?.close();
+                        });
                     }
                 }
             }
@@ -690,35 +1036,33 @@ export class MCPManager {
                 await this.refreshConfiguration();
             }
         });
+
+        vscode.workspace.onDidChangeWorkspaceFolders(() => this.notifyRootsChanged());
     }
 
     /**
      * Validate server configuration
      */
     private validateServerConfig(config: any): boolean {
-        return !!(config && config.name && config.command);
-    }
-
-    /**
-     * Get next message ID
-     */
-    private getNextMessageId(): number {
-        return this.messageIdCounter++;
+        return !!(config && config.name && (config.command || config.url));
     }
 
     /**
      * Disconnect all servers
      */
     private async disconnectAllServers(): Promise<void> {
-        for (const server of this.servers.values()) {
-            if (server.process) {
-                server.process.kill('SIGTERM');
-            }
+        const servers = Array.from(this.servers.values());
+        this.servers.clear();
+
+        for (const server of servers) {
+            const connection = server.connection;
+            server.connection = undefined;
+            server.status = 'disconnected';
+            this.rejectPendingRequests(server, new Error(`Disconnected from ${server.name}`));
+            await connection?.close().catch(() => undefined);
         }
         
-        this.servers.clear();
         this.toolRegistry.clear();
-        this.pendingRequests.clear();
     }
 
     /**
@@ -740,6 +1084,11 @@ export class MCPManager {
         }
         
         this.disconnectAllServers();
+        this.resourceUpdateEmitter.dispose();
+        this.inventoryEmitter.dispose();
+        this.progressEmitter.dispose();
+        this.serverLogs.forEach(log => log.dispose());
+        this.serverLogs.clear();
         this.outputChannel.dispose();
     }
 }
@@ -0,0 +1,184 @@
+import { Message } from '../providers/AIProviderManager';
+
+/**
+ * Client-side support for MCP `sampling/createMessage`: servers ask the
+ * client to run a completion on their behalf.
+ */
+
+export interface MCPSamplingContent {
+    type: 'text' | 'image' | 'audio';
+    text?: string;
+    data?: string; // Base64
+    mimeType?: string;
+}
+
+export interface MCPSamplingMessage {
+    role: 'user' | 'assistant';
+    content: MCPSamplingContent;
+}
+
+export interface MCPModelPreferences {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+}
+
+export interface MCPSamplingRequest {
+    messages: MCPSamplingMessage[];
+    modelPreferences?: MCPModelPreferences;
+    systemPrompt?: string;
+    includeContext?: 'none' | 'thisServer' | 'allServers';
+    temperature?: number;
+    maxTokens: number;
+    stopSequences?: string[];
+    metadata?: Record<string, any>;
+}
+
+export interface MCPSamplingResult {
+    role: 'assistant';
+    content: MCPSamplingContent;
+    model: string;
+    stopReason?: 'endTurn' | 'stopSequence' | 'maxTokens' | string;
+}
+
+/**
+ * Per-server limits, configured under `sampling` in `cuovare.mcpServers`
+ */
+export interface MCPSamplingLimits {
+    enabled: boolean;
+    autoApprove: boolean; // Skip the approval prompt
+    maxTokens: number; // Upper bound on the reply; larger requests are capped
+    maxRequestsPerMinute: number;
+}
+
+export const DEFAULT_SAMPLING_LIMITS: MCPSamplingLimits = {
+    enabled: true,
+    autoApprove: false,
+    maxTokens: 1024,
+    maxRequestsPerMinute: 10
+};
+
+// JSON-RPC error codes returned to the server
+export const SAMPLING_REJECTED_CODE = -1;
+export const SAMPLING_LIMIT_CODE = -32000;
+export const INVALID_PARAMS_CODE = -32602;
+
+export class MCPSamplingError extends Error {
+    constructor(message: string, public readonly code: number) {
+        super(message);
+        this.name = 'MCPSamplingError';
+    }
+}
+
+export function normalizeSamplingLimits(config?: Partial<MCPSamplingLimits>): MCPSamplingLimits {
+    const limits = { ...DEFAULT_SAMPLING_LIMITS, ...(config || {}) };
+    return {
+        enabled: limits.enabled !== false,
+        autoApprove: limits.autoApprove === true,
+        maxTokens: Math.max(1, Math.floor(Number(limits.maxTokens) || DEFAULT_SAMPLING_LIMITS.maxTokens)),
+        maxRequestsPerMinute: Math.max(1, Math.floor(Number(limits.maxRequestsPerMinute) || DEFAULT_SAMPLING_LIMITS.maxRequestsPerMinute))
+    };
+}
+
+/**
+ * Check the shape of a sampling request before anything is shown to the user
+ */
+export function validateSamplingRequest(params: any): asserts params is MCPSamplingRequest {
+    if (!params || !Array.isArray(params.messages) || params.messages.length === 0) {
+        throw new MCPSamplingError('Sampling request needs at least one message', INVALID_PARAMS_CODE);
+    }
+    if (typeof params.maxTokens !== 'number' || params.maxTokens <= 0) {
+        throw new MCPSamplingError('Sampling request needs a positive maxTokens', INVALID_PARAMS_CODE);
+    }
+
+    for (const message of params.messages) {
+        if ((message?.role !== 'user' && message?.role !== 'assistant') || !message.content?.type) {
+            throw new MCPSamplingError('Sampling messages need a user/assistant role and typed content', INVALID_PARAMS_CODE);
+        }
+    }
+}
+
+/**
+ * Convert sampling messages to the provider-neutral chat transcript.
+ * Providers here take text only, so images and audio become placeholders.
+ */
+export function toChatMessages(request: MCPSamplingRequest): Message[] {
+    const messages: Message[] = [];
+
+    if (request.systemPrompt) {
+        messages.push({ role: 'system', content: request.systemPrompt });
+    }
+
+    for (const message of request.messages) {
+        const content = message.content.type === 'text'
+            ? message.content.text || ''
+            : `[${message.content.type} content (${message.content.mimeType || 'unknown type'}) omitted]`;
+        messages.push({ role: message.role, content });
+    }
+
+    return messages;
+}
+
+/**
+ * Pick the first configured model matching a server hint. Hints are
+ * substrings ("sonnet", "gpt-4o") and are checked in the server's order.
+ */
+export function pickHintedModel(
+    preferences: MCPModelPreferences | undefined,
+    candidates: Array<{ provider: string; model: string }>
+): { provider: string; model: string } | undefined {
+    for (const hint of preferences?.hints || []) {
+        const name = hint.name?.toLowerCase();
+        if (!name) {
+            continue;
+        }
+
+        const match = candidates.find(candidate => candidate.model.toLowerCase().includes(name));
+        if (match) {
+            return match;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Trim the reply at the first requested stop sequence
+ */
+export function applyStopSequences(text: string, stopSequences?: string[]): { text: string; stopped: boolean } {
+    let cut = -1;
+    for (const sequence of stopSequences || []) {
+        const index = sequence ? text.indexOf(sequence) : -1;
+        if (index !== -1 && (cut === -1 || index < cut)) {
+            cut = index;
+        }
+    }
+    return cut === -1 ? { text, stopped: false } : { text: text.slice(0, cut), stopped: true };
+}
+
+/**
+ * Sliding one-minute window of sampling requests per server
+ */
+export class SamplingRateLimiter {
+    private requests: Map<string, number[]> = new Map();
+
+    public tryAcquire(serverName: string, limit: number, now: number = Date.now()): boolean {
+        const recent = (this.requests.get(serverName) || []).filter(time => now - time < 60000);
+        if (recent.length >= limit) {
+            this.requests.set(serverName, recent);
+            return false;
+        }
+
+        recent.push(now);
+        this.requests.set(serverName, recent);
+        return true;
+    }
+
+    public reset(serverName?: string): void {
+        if (serverName) {
+            this.requests.delete(serverName);
+        } else {
+            this.requests.clear();
+        }
+    }
+}
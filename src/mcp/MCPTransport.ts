@@ -0,0 +1,494 @@
+import { spawn, ChildProcess } from 'child_process';
+import axios, { AxiosResponse } from 'axios';
+import { SSEParser, NDJSONParser, readStreamText } from '../providers/StreamParser';
+
+/**
+ * Transports that carry JSON-RPC messages between MCPClient and a server:
+ * stdio, HTTP+SSE (2024-11-05) and streamable HTTP (2025-03-26).
+ */
+
+export type MCPTransportType = 'stdio' | 'sse' | 'streamable-http';
+
+export interface JSONRPCMessage {
+    jsonrpc: '2.0';
+    id?: number | string;
+    method?: string;
+    params?: any;
+    result?: any;
+    error?: { code: number; message: string; data?: any };
+}
+
+export interface MCPTransportConfig {
+    transport?: MCPTransportType;
+    command?: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+    url?: string;
+    headers?: Record<string, string>;
+}
+
+export interface MCPTransport {
+    readonly type: MCPTransportType;
+    /** Called for every message the server sends */
+    onMessage?: (message: JSONRPCMessage) => void;
+    /** Called once if the connection ends without close() being called */
+    onClose?: (error?: Error) => void;
+    /** Diagnostic output (stderr, reconnects) */
+    onLog?: (line: string) => void;
+    start(): Promise<void>;
+    send(message: JSONRPCMessage): Promise<void>;
+    close(): Promise<void>;
+}
+
+/**
+ * Transport-level failure, with the HTTP status when there was one
+ */
+export class MCPTransportError extends Error {
+    public readonly status?: number;
+
+    constructor(message: string, status?: number) {
+        super(message);
+        this.name = 'MCPTransportError';
+        this.status = status;
+    }
+}
+
+const CONNECT_TIMEOUT = 30000;
+const MAX_STREAM_RECONNECTS = 5;
+const STREAM_RECONNECT_DELAY = 1000;
+
+/**
+ * Expand `${env:NAME}` references so tokens can stay out of settings.json
+ */
+export function expandEnvironment(value: string, env: NodeJS.ProcessEnv = process.env): string {
+    return value.replace(/\$\{env:([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name) => env[name] ?? '');
+}
+
+export function resolveHeaders(headers?: Record<string, string>): Record<string, string> {
+    const resolved: Record<string, string> = {};
+    for (const [name, value] of Object.entries(headers || {})) {
+        resolved[name] = expandEnvironment(value);
+    }
+    return resolved;
+}
+
+/**
+ * Pick the transport for a server config. URLs default to Streamable HTTP;
+ * MCPManager falls back to SSE for servers that only speak the older protocol.
+ */
+export function createMCPTransport(config: MCPTransportConfig): MCPTransport {
+    const type = config.transport || (config.url ? 'streamable-http' : 'stdio');
+
+    switch (type) {
+        case 'stdio':
+            if (!config.command) {
+                throw new Error('stdio transport requires a command');
+            }
+            return new StdioTransport(config.command, config.args || [], config.env, config.cwd);
+        case 'sse':
+            if (!config.url) {
+                throw new Error('SSE transport requires a url');
+            }
+            return new SSETransport(config.url, resolveHeaders(config.headers));
+        case 'streamable-http':
+            if (!config.url) {
+                throw new Error('Streamable HTTP transport requires a url');
+            }
+            return new StreamableHTTPTransport(config.url, resolveHeaders(config.headers));
+        default:
+            throw new Error(`Unknown MCP transport: ${type}`);
+    }
+}
+
+/**
+ * Read a streamed axios body to a string, for error messages and JSON replies
+ */
+async function readBody(response: AxiosResponse): Promise<string> {
+    if (typeof response.data === 'string') {
+        return response.data;
+    }
+    if (!response.data || typeof response.data[Symbol.asyncIterator] !== 'function') {
+        return response.data ? JSON.stringify(response.data) : '';
+    }
+
+    return readStreamText(response.data);
+}
+
+function parseMessages(payload: string): JSONRPCMessage[] {
+    const parsed = JSON.parse(payload);
+    return Array.isArray(parsed) ? parsed : [parsed];
+}
+
+export class StdioTransport implements MCPTransport {
+    public readonly type = 'stdio';
+    public onMessage?: (message: JSONRPCMessage) => void;
+    public onClose?: (error?: Error) => void;
+    public onLog?: (line: string) => void;
+
+    private process?: ChildProcess;
+    private closing = false;
+
+    constructor(
+        private readonly command: string,
+        private readonly args: string[],
+        private readonly env?: Record<string, string>,
+        private readonly cwd?: string
+    ) {}
+
+    public start(): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const child = spawn(this.command, this.args, {
+                stdio: ['pipe', 'pipe', 'pipe'],
+                env: { ...process.env, ...this.env },
+                cwd: this.cwd
+            });
+            this.process = child;
+
+            const parser = new NDJSONParser();
+            child.stdout?.on('data', data => {
+                for (const line of parser.feed(data)) {
+                    this.dispatch(line);
+                }
+            });
+
+            child.stderr?.on('data', data => {
+                const output = data.toString().trim();
+                if (output) {
+                    this.onLog?.(`stderr: ${output}`);
+                }
+            });
+
+            child.once('spawn', () => {
+                this.onLog?.(`Process spawned (PID: ${child.pid})`);
+                resolve();
+            });
+
+            child.once('error', error => {
+                reject(error);
+                this.handleClose(error);
+            });
+
+            child.once('exit', (code, signal) => {
+                this.handleClose(code === 0 ? undefined : new Error(`Process exited: code=${code}, signal=${signal}`));
+            });
+        });
+    }
+
+    public async send(message: JSONRPCMessage): Promise<void> {
+        if (!this.process?.stdin || this.process.stdin.destroyed) {
+            throw new MCPTransportError('Server process not available');
+        }
+        this.process.stdin.write(JSON.stringify(message) + '\n');
+    }
+
+    public async close(): Promise<void> {
+        this.closing = true;
+        this.process?.kill('SIGTERM');
+    }
+
+    private dispatch(line: string): void {
+        try {
+            parseMessages(line).forEach(message => this.onMessage?.(message));
+        } catch {
+            // Servers sometimes log to stdout; that isn't protocol traffic
+            this.onLog?.(`Ignoring non-JSON output: ${line}`);
+        }
+    }
+
+    private handleClose(error?: Error): void {
+        if (this.closing) {
+            return;
+        }
+        this.closing = true;
+        this.onClose?.(error);
+    }
+}
+
+export class SSETransport implements MCPTransport {
+    public readonly type = 'sse';
+    public onMessage?: (message: JSONRPCMessage) => void;
+    public onClose?: (error?: Error) => void;
+    public onLog?: (line: string) => void;
+
+    private endpoint?: string;
+    private abortController?: AbortController;
+    private closing = false;
+
+    constructor(private readonly url: string, private readonly headers: Record<string, string>) {}
+
+    public async start(): Promise<void> {
+        this.abortController = new AbortController();
+
+        let response: AxiosResponse;
+        try {
+            response = await axios.get(this.url, {
+                headers: { ...this.headers, Accept: 'text/event-stream' },
+                responseType: 'stream',
+                signal: this.abortController.signal,
+                validateStatus: () => true
+            });
+        } catch (error) {
+            throw new MCPTransportError(`Failed to open SSE stream: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            const body = await readBody(response).catch(() => '');
+            throw new MCPTransportError(`SSE stream rejected (HTTP ${response.status}) ${body}`.trim(), response.status);
+        }
+
+        // The server announces where to POST as the first event
+        await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => reject(new MCPTransportError('Timed out waiting for SSE endpoint event')), CONNECT_TIMEOUT);
+
+            this.readStream(response, endpoint => {
+                clearTimeout(timer);
+                this.endpoint = new URL(endpoint, this.url).toString();
+                resolve();
+            }).catch(error => {
+                clearTimeout(timer);
+                reject(error);
+            });
+        });
+    }
+
+    public async send(message: JSONRPCMessage): Promise<void> {
+        if (!this.endpoint) {
+            throw new MCPTransportError('SSE transport is not connected');
+        }
+
+        const response = await axios.post(this.endpoint, message, {
+            headers: { ...this.headers, 'Content-Type': 'application/json' },
+            validateStatus: () => true
+        });
+
+        if (response.status < 200 || response.status >= 300) {
+            throw new MCPTransportError(`POST rejected (HTTP ${response.status}) ${typeof response.data === 'string' ? response.data : ''}`.trim(), response.status);
+        }
+    }
+
+    public async close(): Promise<void> {
+        this.closing = true;
+        this.abortController?.abort();
+    }
+
+    private async readStream(response: AxiosResponse, onEndpoint: (endpoint: string) => void): Promise<void> {
+        const parser = new SSEParser();
+        let error: Error | undefined;
+
+        try {
+            for await (const chunk of response.data) {
+                for (const event of parser.feed(chunk)) {
+                    if (event.event === 'endpoint') {
+                        onEndpoint(event.data);
+                    } else if (!event.event || event.event === 'message') {
+                        this.dispatch(event.data);
+                    }
+                }
+            }
+        } catch (streamError) {
+            error = streamError instanceof Error ? streamError : new Error(String(streamError));
+        }
+
+        if (!this.closing) {
+            this.closing = true;
+            const closeError = error || new MCPTransportError('SSE stream ended');
+            if (!this.endpoint) {
+                throw closeError;
+            }
+            this.onClose?.(closeError);
+        }
+    }
+
+    private dispatch(data: string): void {
+        try {
+            parseMessages(data).forEach(message => this.onMessage?.(message));
+        } catch {
+            this.onLog?.(`Ignoring malformed SSE message: ${data}`);
+        }
+    }
+}
+
+export class StreamableHTTPTransport implements MCPTransport {
+    public readonly type = 'streamable-http';
+    public onMessage?: (message: JSONRPCMessage) => void;
+    public onClose?: (error?: Error) => void;
+    public onLog?: (line: string) => void;
+
+    private sessionId?: string;
+    private lastEventId?: string;
+    private listenController?: AbortController;
+    private closing = false;
+
+    constructor(private readonly url: string, private readonly headers: Record<string, string>) {}
+
+    public getSessionId(): string | undefined {
+        return this.sessionId;
+    }
+
+    public async start(): Promise<void> {
+        // Connectionless: the session starts with the initialize request
+    }
+
+    public async send(message: JSONRPCMessage): Promise<void> {
+        let response: AxiosResponse;
+        try {
+            response = await axios.post(this.url, message, {
+                headers: {
+                    ...this.headers,
+                    ...this.sessionHeaders(),
+                    'Content-Type': 'application/json',
+                    Accept: 'application/json, text/event-stream'
+                },
+                responseType: 'stream',
+                validateStatus: () => true
+            });
+        } catch (error) {
+            throw new MCPTransportError(`Request failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        const sessionId = response.headers['mcp-session-id'];
+        if (typeof sessionId === 'string' && sessionId) {
+            this.sessionId = sessionId;
+        }
+
+        if (response.status === 404 && this.sessionId) {
+            // The server dropped our session; the manager must initialize again
+            this.sessionId = undefined;
+            const error = new MCPTransportError('MCP session expired', 404);
+            this.handleClose(error);
+            throw error;
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            const body = await readBody(response).catch(() => '');
+            throw new MCPTransportError(`POST rejected (HTTP ${response.status}) ${body}`.trim(), response.status);
+        }
+
+        if (response.status === 202) {
+            response.data?.destroy?.();
+        } else if (String(response.headers['content-type'] || '').includes('text/event-stream')) {
+            // Replies may trail server requests and notifications; don't block the caller on them
+            this.readEventStream(response).catch(error => this.onLog?.(`Response stream failed: ${error}`));
+        } else {
+            const body = await readBody(response);
+            if (body.trim()) {
+                this.dispatch(body);
+            }
+        }
+
+        // Once the session is established, open the standalone stream for server-initiated messages
+        if (message.method === 'notifications/initialized') {
+            this.listen(0);
+        }
+    }
+
+    public async close(): Promise<void> {
+        this.closing = true;
+        this.listenController?.abort();
+
+        if (this.sessionId) {
+            // Explicitly end the session; servers that don't support it answer 405
+            await axios.delete(this.url, {
+                headers: { ...this.headers, ...this.sessionHeaders() },
+                validateStatus: () => true,
+                timeout: 5000
+            }).catch(() => undefined);
+            this.sessionId = undefined;
+        }
+    }
+
+    private sessionHeaders(): Record<string, string> {
+        return this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {};
+    }
+
+    /**
+     * Keep a GET event stream open, resuming from the last event id after drops
+     */
+    private async listen(attempt: number): Promise<void> {
+        if (this.closing) {
+            return;
+        }
+
+        this.listenController = new AbortController();
+        try {
+            const response = await axios.get(this.url, {
+                headers: {
+                    ...this.headers,
+                    ...this.sessionHeaders(),
+                    ...(this.lastEventId && { 'Last-Event-ID': this.lastEventId }),
+                    Accept: 'text/event-stream'
+                },
+                responseType: 'stream',
+                signal: this.listenController.signal,
+                validateStatus: () => true
+            });
+
+            if (response.status === 405) {
+                // Server doesn't offer a standalone stream; replies still arrive on POSTs
+                response.data?.destroy?.();
+                return;
+            }
+            if (response.status < 200 || response.status >= 300) {
+                response.data?.destroy?.();
+                throw new MCPTransportError(`Event stream rejected (HTTP ${response.status})`, response.status);
+            }
+
+            await this.readEventStream(response);
+            attempt = 0;
+        } catch (error) {
+            if (this.closing) {
+                return;
+            }
+            this.onLog?.(`Event stream error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (this.closing) {
+            return;
+        }
+        if (attempt >= MAX_STREAM_RECONNECTS) {
+            this.onLog?.('Event stream unavailable, giving up on server-initiated messages');
+            return;
+        }
+
+        const delay = STREAM_RECONNECT_DELAY * Math.pow(2, attempt);
+        this.onLog?.(`Reconnecting event stream in ${delay}ms`);
+        setTimeout(() => this.listen(attempt + 1), delay);
+    }
+
+    private async readEventStream(response: AxiosResponse): Promise<void> {
+        const parser = new SSEParser();
+        const handle = (events: ReturnType<SSEParser['feed']>) => {
+            for (const event of events) {
+                if (event.id) {
+                    this.lastEventId = event.id;
+                }
+                if (!event.event || event.event === 'message') {
+                    this.dispatch(event.data);
+                }
+            }
+        };
+
+        for await (const chunk of response.data) {
+            handle(parser.feed(chunk));
+        }
+        handle(parser.flush());
+    }
+
+    private dispatch(data: string): void {
+        try {
+            parseMessages(data).forEach(message => this.onMessage?.(message));
+        } catch {
+            this.onLog?.(`Ignoring malformed message: ${data}`);
+        }
+    }
+
+    private handleClose(error?: Error): void {
+        if (this.closing) {
+            return;
+        }
+        this.closing = true;
+        this.listenController?.abort();
+        this.onClose?.(error);
+    }
+}
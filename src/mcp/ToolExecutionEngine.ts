@@ -1,5 +1,16 @@
 import * as vscode from 'vscode';
-import { MCPManager, MCPTool, MCPToolCall, MCPToolResult } from './MCPManager';
+import { AIProviderToolSchema, MCPManager, MCPProgress, MCPTool, MCPToolCall, MCPToolResult } from './MCPManager';
+import { ToolExecutor, toToolSchema, toolRegistry } from '../agent/ToolRegistry';
+import {
+    ActionPreview,
+    ApprovalResponse,
+    buildActionPreview,
+    createApprovalPolicy,
+    evaluateApproval,
+    readPreviewTarget
+} from '../agent/ApprovalPolicy';
+
+export type ToolBackend = 'mcp' | 'builtin';
 
 export interface ToolExecutionRequest {
     toolName: string;
@@ -17,12 +28,37 @@ export interface ToolExecutionResult {
     error?: string;
     executionTime: number;
     metadata?: {
+        backend?: ToolBackend;
         serverName?: string;
         retryCount?: number;
         warnings?: string[];
     };
 }
 
+export interface ToolExecutionProgress {
+    requestId: string;
+    toolName: string;
+    progress: number;
+    total?: number;
+    message?: string;
+    output?: { text: string; stream: 'stdout' | 'stderr' }; // Chunk of live output from a built-in tool
+}
+
+/**
+ * A built-in tool call the approval policy wants the user to confirm
+ */
+export interface ToolApprovalRequest {
+    id: string;
+    toolName: string;
+    arguments: Record<string, any>;
+    operation: string;
+    reason: string;
+    preview: ActionPreview;
+}
+
+// Built-in tools offered in regular chat when `cuovare.ai.builtinTools` is unset
+const DEFAULT_BUILTIN_TOOLS = ['file_operation', 'terminal', 'git_operation', 'multi_file_editing', 'search_analysis'];
+
 export interface ToolExecutionContext {
     workspaceFolder?: vscode.Uri;
     activeDocument?: vscode.TextDocument;
@@ -34,13 +70,80 @@ export class ToolExecutionEngine {
     private mcpManager: MCPManager;
     private outputChannel: vscode.OutputChannel;
     private executionQueue: Map<string, ToolExecutionRequest> = new Map();
-    private activeExecutions: Set<string> = new Set();
+    private activeExecutions: Map<string, ToolExecutionRequest> = new Map();
+    private builtinAbortControllers: Map<string, AbortController> = new Map();
     private maxConcurrentExecutions = 5;
     private executionTimeout = 30000; // 30 seconds
+    private progressEmitter = new vscode.EventEmitter<ToolExecutionProgress>();
+    private progressSubscription: vscode.Disposable;
+    private approvalHandler?: (request: ToolApprovalRequest) => Promise<ApprovalResponse>;
+
+    /**
+     * Fires when a server reports progress for a running tool
+     */
+    public readonly onDidReportProgress = this.progressEmitter.event;
 
     constructor(mcpManager: MCPManager) {
         this.mcpManager = mcpManager;
         this.outputChannel = vscode.window.createOutputChannel('Cuovare Tool Execution');
+        this.progressSubscription = this.mcpManager.onDidReportProgress(progress => this.handleProgress(progress));
+    }
+
+    private handleProgress(progress: MCPProgress): void {
+        const request = this.activeExecutions.get(String(progress.progressToken));
+        if (!request) {
+            return;
+        }
+
+        this.progressEmitter.fire({
+            requestId: request.requestId,
+            toolName: request.toolName,
+            progress: progress.progress,
+            total: progress.total,
+            message: progress.message
+        });
+    }
+
+    /**
+     * Set the handler asked to confirm built-in tool calls the approval policy marks as 'ask'
+     */
+    public setApprovalHandler(handler: (request: ToolApprovalRequest) => Promise<ApprovalResponse>): void {
+        this.approvalHandler = handler;
+    }
+
+    /**
+     * Every tool the model may call: connected MCP tools plus the built-in
+     * tools enabled in `cuovare.ai.builtinTools`. An MCP tool shadows a
+     * built-in tool of the same name.
+     */
+    public async getToolsForAIProvider(): Promise<AIProviderToolSchema[]> {
+        await toolRegistry.initialize();
+
+        const mcpTools = this.mcpManager.getToolsForAIProvider();
+        const mcpNames = new Set(mcpTools.map(tool => tool.name));
+        const builtinTools = toolRegistry.getToolsForAIProvider(this.getEnabledBuiltinTools())
+            .filter(tool => !mcpNames.has(tool.name));
+
+        return [...mcpTools, ...builtinTools];
+    }
+
+    /**
+     * Which backend a tool call is routed to, if the tool is available
+     */
+    public getToolBackend(toolName: string): ToolBackend | undefined {
+        if (this.mcpManager.getAvailableTools().some(tool => tool.name === toolName)) {
+            return 'mcp';
+        }
+        return this.getBuiltinTool(toolName) ? 'builtin' : undefined;
+    }
+
+    private getEnabledBuiltinTools(): string[] {
+        return vscode.workspace.getConfiguration('cuovare').get<string[]>('ai.builtinTools', DEFAULT_BUILTIN_TOOLS);
+    }
+
+    private getBuiltinTool(toolName: string): ToolExecutor | undefined {
+        const enabled = this.getEnabledBuiltinTools();
+        return enabled.includes('*') || enabled.includes(toolName) ? toolRegistry.getTool(toolName) : undefined;
     }
 
     /**
@@ -50,11 +153,14 @@ export class ToolExecutionEngine {
         const startTime = Date.now();
         
         try {
-            // Validate tool existence
+            await toolRegistry.initialize();
+
+            // Validate tool existence; MCP tools take precedence over built-ins
             const availableTools = this.mcpManager.getAvailableTools();
             const tool = availableTools.find(t => t.name === request.toolName);
+            const builtin = tool ? undefined : this.getBuiltinTool(request.toolName);
             
-            if (!tool) {
+            if (!tool && !builtin) {
                 return {
                     requestId: request.requestId,
                     toolName: request.toolName,
@@ -65,7 +171,8 @@ export class ToolExecutionEngine {
             }
 
             // Validate arguments against schema
-            const validationResult = this.validateToolArguments(tool, request.arguments);
+            const schema = tool ? tool.inputSchema : toToolSchema(builtin!.metadata).parameters;
+            const validationResult = this.validateToolArguments(schema, request.arguments);
             if (!validationResult.valid) {
                 return {
                     requestId: request.requestId,
@@ -88,13 +195,18 @@ export class ToolExecutionEngine {
             }
 
             // Add to active executions
-            this.activeExecutions.add(request.requestId);
+            this.activeExecutions.set(request.requestId, request);
             this.outputChannel.appendLine(`[${new Date().toISOString()}] Executing tool: ${request.toolName}`);
 
+            if (!tool) {
+                return await this.executeBuiltinTool(builtin!, request, startTime);
+            }
+
             // Execute with timeout
             const toolCall: MCPToolCall = {
                 name: request.toolName,
-                arguments: request.arguments
+                arguments: request.arguments,
+                requestId: request.requestId
             };
 
             const mcpResult = await Promise.race([
@@ -126,6 +238,7 @@ export class ToolExecutionEngine {
                 result: processedResult,
                 executionTime,
                 metadata: {
+                    backend: 'mcp',
                     serverName: this.mcpManager.getServerForTool(request.toolName)?.name
                 }
             };
@@ -146,6 +259,135 @@ export class ToolExecutionEngine {
         }
     }
 
+    /**
+     * Run a ToolRegistry executor in the first workspace folder, after the
+     * approval policy has allowed it
+     */
+    private async executeBuiltinTool(tool: ToolExecutor, request: ToolExecutionRequest, startTime: number): Promise<ToolExecutionResult> {
+        const failure = (error: string): ToolExecutionResult => ({
+            requestId: request.requestId,
+            toolName: request.toolName,
+            success: false,
+            error,
+            executionTime: Date.now() - startTime,
+            metadata: { backend: 'builtin' }
+        });
+
+        const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspaceRoot) {
+            return failure('Built-in tools need an open workspace folder');
+        }
+
+        const approval = await this.approveBuiltinTool(request);
+        if (approval) {
+            return failure(approval);
+        }
+
+        // Tools with their own timeout (the terminal) get to enforce it first
+        const toolTimeout = Number(request.arguments?.timeout) || 0;
+        const abortController = new AbortController();
+        this.builtinAbortControllers.set(request.requestId, abortController);
+
+        let result;
+        try {
+            result = await Promise.race([
+                toolRegistry.executeAction(tool.metadata.name, request.arguments, {
+                    workspaceRoot,
+                    outputChannel: this.outputChannel,
+                    onProgress: message => this.progressEmitter.fire({
+                        requestId: request.requestId,
+                        toolName: request.toolName,
+                        progress: 0,
+                        message
+                    }),
+                    onOutput: (text, stream) => this.progressEmitter.fire({
+                        requestId: request.requestId,
+                        toolName: request.toolName,
+                        progress: 0,
+                        output: { text, stream }
+                    }),
+                    signal: abortController.signal
+                }),
+                this.createTimeoutPromise(request.requestId, Math.max(this.executionTimeout, toolTimeout + 5000))
+            ]);
+        } finally {
+            // Stops anything still running after a timeout
+            abortController.abort();
+            this.builtinAbortControllers.delete(request.requestId);
+        }
+
+        const message = result.message || result.error || '';
+        if (!result.success) {
+            return failure(message || 'Tool execution failed');
+        }
+
+        const executionTime = Date.now() - startTime;
+        this.outputChannel.appendLine(`[${new Date().toISOString()}] Built-in tool executed successfully: ${request.toolName} (${executionTime}ms)`);
+
+        return {
+            requestId: request.requestId,
+            toolName: request.toolName,
+            success: true,
+            result: {
+                type: 'text',
+                content: message,
+                formatted: this.formatTextResult(message),
+                data: result.data
+            },
+            executionTime,
+            metadata: { backend: 'builtin' }
+        };
+    }
+
+    /**
+     * Apply the agent approval policy to a built-in tool call. Returns the
+     * reason the call must not run, or undefined to go ahead; edits replace
+     * the request's arguments.
+     */
+    private async approveBuiltinTool(request: ToolExecutionRequest): Promise<string | undefined> {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const policy = createApprovalPolicy({
+            ...config.get<{ rules?: any[]; defaultDecision?: string }>('agent.approvalPolicy', {}),
+            ...config.get<{ requireConfirmation?: string[]; blockedCommands?: string[] }>('agent.safetyControls', {})
+        });
+
+        const evaluation = evaluateApproval(policy, request.toolName, request.arguments);
+        if (evaluation.decision === 'deny') {
+            return `Blocked by approval policy: ${evaluation.reason}`;
+        }
+        if (evaluation.decision === 'auto') {
+            return undefined;
+        }
+        if (!this.approvalHandler) {
+            return `Needs approval (${evaluation.reason}) but no approval handler is available`;
+        }
+
+        const response = await this.approvalHandler({
+            id: `tool_${request.requestId}`,
+            toolName: request.toolName,
+            arguments: request.arguments,
+            operation: evaluation.operation,
+            reason: evaluation.reason,
+            preview: buildActionPreview(
+                request.toolName,
+                request.arguments,
+                readPreviewTarget(request.toolName, request.arguments, vscode.workspace.workspaceFolders?.[0]?.uri.fsPath)
+            )
+        });
+
+        if (response.decision === 'skip') {
+            return 'Skipped by the user';
+        }
+        if (response.decision === 'edit') {
+            request.arguments = response.payload;
+            const edited = evaluateApproval(policy, request.toolName, request.arguments);
+            if (edited.decision === 'deny') {
+                return `Blocked by approval policy: ${edited.reason}`;
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Execute multiple tools in parallel with coordination
      */
@@ -181,14 +423,12 @@ export class ToolExecutionEngine {
     /**
      * Validate tool arguments against schema
      */
-    private validateToolArguments(tool: MCPTool, args: Record<string, any>): { valid: boolean; errors: string[] } {
+    private validateToolArguments(schema: any, args: Record<string, any>): { valid: boolean; errors: string[] } {
         const errors: string[] = [];
         
-        if (!tool.inputSchema) {
+        if (!schema) {
             return { valid: true, errors: [] };
         }
-
-        const schema = tool.inputSchema;
         
         // Check required properties
         if (schema.required && Array.isArray(schema.required)) {
@@ -369,11 +609,11 @@ export class ToolExecutionEngine {
     /**
      * Create timeout promise for tool execution
      */
-    private createTimeoutPromise(requestId: string): Promise<MCPToolResult> {
+    private createTimeoutPromise(requestId: string, timeout: number = this.executionTimeout): Promise<never> {
         return new Promise((_, reject) => {
             setTimeout(() => {
                 reject(new Error(`Tool execution timeout for request ${requestId}`));
-            }, this.executionTimeout);
+            }, timeout);
         });
     }
 
@@ -400,12 +640,23 @@ export class ToolExecutionEngine {
     public cancelExecution(requestId: string): boolean {
         if (this.activeExecutions.has(requestId)) {
             this.activeExecutions.delete(requestId);
+            this.builtinAbortControllers.get(requestId)?.abort();
+            this.mcpManager.cancelToolCall(requestId);
             this.outputChannel.appendLine(`[${new Date().toISOString()}] Cancelled tool execution: ${requestId}`);
             return true;
         }
         return false;
     }
 
+    /**
+     * Cancel every running tool execution
+     */
+    public cancelAllExecutions(): number {
+        const requestIds = Array.from(this.activeExecutions.keys());
+        requestIds.forEach(requestId => this.cancelExecution(requestId));
+        return requestIds.length;
+    }
+
     /**
      * Update execution limits
      */
@@ -416,6 +667,8 @@ export class ToolExecutionEngine {
     }
 
     public dispose(): void {
+        this.progressSubscription.dispose();
+        this.progressEmitter.dispose();
         this.outputChannel.dispose();
         this.executionQueue.clear();
         this.activeExecutions.clear();
@@ -1,5 +1,28 @@
 import * as vscode from 'vscode';
 import axios from 'axios';
+import { SSEParser, NDJSONParser, readStreamText } from './StreamParser';
+import {
+    RetryPolicy,
+    FallbackChainEntry,
+    DEFAULT_RETRY_POLICY,
+    computeBackoffDelay,
+    getRetryAfterMs,
+    getStreamErrorStatus,
+    isRetryableStatus,
+    isRetryableNetworkCode,
+    isFallbackNetworkCode,
+    normalizeFallbackChain,
+    translateTranscript,
+    waitForRetry
+} from './ProviderFallback';
+import { TokenUsage, ModelLimits, estimateMessageTokens, estimateTokens, fitMessagesToBudget, getModelLimits, getPromptBudget } from './TokenBudget';
+import { secretRedactor } from './SecretRedaction';
+import {
+    discoverOllamaModels,
+    discoverOpenAICompatibleModels,
+    probeOllamaToolSupport,
+    probeOpenAICompatibleToolSupport
+} from './LocalModels';
 
 export interface AIProvider {
     name: string;
@@ -13,8 +36,26 @@ export interface AIProvider {
     parseToolCalls?: (response: any) => ToolCall[];
     formatToolResult?: (toolCall: ToolCall, result: any) => Message;
     requiresSystemPrompt?: boolean;
+    streamProtocol?: 'sse' | 'ndjson';
+    parseStreamEvent?: (event: any) => StreamDelta | null;
+    parseUsage?: (response: any) => TokenUsage | undefined;
+    discoverModels?: (apiKey?: string) => Promise<string[]>;
+    probeToolSupport?: (model: string, apiKey?: string) => Promise<boolean>;
 }
 
+export interface LocalEndpointConfig {
+    name: string;
+    type: 'ollama' | 'openai-compatible';
+    baseUrl: string;
+    displayName?: string;
+    models?: string[]; // Used until (or if) runtime discovery succeeds
+}
+
+const DEFAULT_LOCAL_ENDPOINTS: LocalEndpointConfig[] = [
+    { name: 'ollama', type: 'ollama', baseUrl: 'http://localhost:11434' },
+    { name: 'local', type: 'openai-compatible', baseUrl: 'http://localhost:8080/v1' } // LM Studio default
+];
+
 export interface Message {
     role: 'user' | 'assistant' | 'system' | 'tool';
     content: string;
@@ -44,8 +85,58 @@ export interface ChatResponse {
     provider: string;
     toolCalls?: ToolCall[];
     requiresToolExecution?: boolean;
+    cancelled?: boolean;
+    providerId?: string; // Key of the provider that actually answered
+    fallbackUsed?: boolean;
+    attempts?: ProviderAttempt[]; // Failed attempts that preceded the answer
+    usage?: TokenUsage;
+}
+
+export interface ProviderAttempt {
+    provider: string;
+    model?: string;
+    status?: number;
+    error: string;
+}
+
+/**
+ * HTTP failure from a provider, classified for the retry/fallback policy
+ */
+export class ProviderRequestError extends Error {
+    public readonly status?: number;
+    public readonly retryable: boolean;
+    public readonly fallbackEligible: boolean;
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, details: { status?: number; retryable: boolean; fallbackEligible: boolean; retryAfterMs?: number }) {
+        super(message);
+        this.name = 'ProviderRequestError';
+        this.status = details.status;
+        this.retryable = details.retryable;
+        this.fallbackEligible = details.fallbackEligible;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * A partial tool call as it arrives over a stream. `index` identifies the
+ * call being built; providers that only ever send complete calls omit it.
+ */
+export interface ToolCallDelta {
+    index?: number;
+    id?: string;
+    name?: string;
+    argumentsDelta?: string;
 }
 
+export interface StreamDelta {
+    content?: string;
+    toolCalls?: ToolCallDelta[];
+    usage?: Partial<TokenUsage>; // Providers report input and output counts in different events
+}
+
+export type StreamDeltaCallback = (delta: StreamDelta, snapshot: ChatResponse) => void;
+
 export interface ChatRequest {
     messages: Message[];
     provider?: string;
@@ -53,15 +144,45 @@ export interface ChatRequest {
     tools?: any[];
     toolChoice?: any;
     enableTools?: boolean;
+    allowFallback?: boolean; // Defaults to true; false pins the request to one provider
+    maxTokens?: number; // Overrides the provider's default reply limit
+    temperature?: number;
+}
+
+export interface UsageReport {
+    provider: string; // Provider key, e.g. 'openrouter'
+    model: string;
+    usage: TokenUsage;
+}
+
+interface RequestTarget {
+    provider: AIProvider;
+    providerName: string;
+    model: string;
+    apiKey?: string;
+    tools?: any[];
+    toolChoice?: any;
 }
 
 export class AIProviderManager {
     private providers: Map<string, AIProvider> = new Map();
+    private localEndpointNames: Set<string> = new Set();
+    private toolSupportCache: Map<string, boolean> = new Map();
+    private openRouterCatalog?: Promise<any[]>;
+    private usageEmitter = new vscode.EventEmitter<UsageReport>();
     private context: vscode.ExtensionContext;
 
+    /**
+     * Fires once per completed request with the tokens it consumed
+     */
+    public readonly onDidReportUsage = this.usageEmitter.event;
+
     constructor(context: vscode.ExtensionContext) {
         this.context = context;
         this.initializeProviders();
+        this.refreshLocalModels().catch(error => {
+            console.warn('[AIProviderManager] Local model discovery failed:', error instanceof Error ? error.message : error);
+        });
     }
 
     private initializeProviders() {
@@ -71,6 +192,9 @@ export class AIProviderManager {
             baseUrl: 'https://api.openai.com/v1/chat/completions',
             models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
             supportsTools: true,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseOpenAIStreamEvent(event),
+            parseUsage: (response: any) => this.parseOpenAIUsage(response.data),
             headers: (apiKey?: string) => ({
                 'Authorization': `Bearer ${apiKey || ''}`,
                 'Content-Type': 'application/json'
@@ -127,6 +251,9 @@ export class AIProviderManager {
             baseUrl: 'https://api.anthropic.com/v1/messages',
             models: ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229'],
             supportsTools: true,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseAnthropicStreamEvent(event),
+            parseUsage: (response: any) => this.parseAnthropicUsage(response.data),
             requiresSystemPrompt: true,
             headers: (apiKey?: string) => ({
                 'x-api-key': apiKey || '',
@@ -196,6 +323,9 @@ export class AIProviderManager {
             baseUrl: 'https://api.groq.com/openai/v1/chat/completions',
             models: ['llama-3.3-70b-versatile', 'llama-3.1-70b-versatile', 'mixtral-8x7b-32768'],
             supportsTools: true,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseOpenAIStreamEvent(event),
+            parseUsage: (response: any) => this.parseOpenAIUsage(response.data),
             headers: (apiKey?: string) => ({
                 'Authorization': `Bearer ${apiKey || ''}`,
                 'Content-Type': 'application/json'
@@ -252,6 +382,9 @@ export class AIProviderManager {
             baseUrl: 'https://api.x.ai/v1/chat/completions',
             models: ['grok-2-1212', 'grok-2-vision-1212', 'grok-beta', 'grok-vision-beta'],
             supportsTools: false, // Limited tool support for now
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseOpenAIStreamEvent(event),
+            parseUsage: (response: any) => this.parseOpenAIUsage(response.data),
             headers: (apiKey?: string) => ({
                 'Authorization': `Bearer ${apiKey || ''}`,
                 'Content-Type': 'application/json'
@@ -302,6 +435,9 @@ export class AIProviderManager {
                 'gemini-1.5-flash-8b'
             ],
             supportsTools: true,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseGoogleStreamEvent(event),
+            parseUsage: (response: any) => this.parseGoogleUsage(response.data),
             headers: (apiKey?: string) => ({
                 'Content-Type': 'application/json',
                 'x-goog-api-key': apiKey || ''
@@ -315,11 +451,25 @@ export class AIProviderManager {
                             parts: [{
                                 functionResponse: {
                                     name: msg.name,
-                                    response: JSON.parse(msg.content || '{}')
+                                    response: this.parseFunctionResponse(msg.content)
                                 }
                             }]
                         };
                     }
+                    if (msg.role === 'assistant' && msg.tool_calls && msg.tool_calls.length > 0) {
+                        return {
+                            role: 'model',
+                            parts: [
+                                ...(msg.content ? [{ text: msg.content }] : []),
+                                ...msg.tool_calls.map(call => ({
+                                    functionCall: {
+                                        name: call.function.name,
+                                        args: this.parseToolArguments(call.function.arguments)
+                                    }
+                                }))
+                            ]
+                        };
+                    }
                     return {
                         role: msg.role === 'assistant' ? 'model' : 'user',
                         parts: [{ text: msg.content }]
@@ -382,79 +532,144 @@ export class AIProviderManager {
             })
         });
 
-        // Ollama Provider - Local model hosting
-        this.providers.set('ollama', {
-            name: 'Ollama',
-            baseUrl: 'http://localhost:11434/api/chat',
+        // Ollama and OpenAI-compatible local endpoints
+        this.registerLocalEndpoints();
+
+        // OpenRouter Provider - Tool support varies by model
+        this.providers.set('openrouter', {
+            name: 'OpenRouter',
+            baseUrl: 'https://openrouter.ai/api/v1/chat/completions',
             models: [
-                'llama3.2:latest',
-                'llama3.2:3b',
-                'llama3.1:latest',
-                'llama3.1:8b',
-                'llama3.1:70b',
-                'codellama:latest',
-                'codellama:7b',
-                'codellama:13b',
-                'mistral:latest',
-                'mistral:7b',
-                'gemma2:latest',
-                'gemma2:9b',
-                'gemma2:27b',
-                'qwen2.5:latest',
-                'qwen2.5:7b',
-                'qwen2.5:14b',
-                'qwen2.5:32b'
+                'anthropic/claude-3.5-sonnet',
+                'openai/gpt-4o',
+                'google/gemini-pro-1.5',
+                'meta-llama/llama-3.2-90b-vision-instruct'
             ],
-            supportsTools: false, // Basic implementation first
-            requiresApiKey: false,
+            supportsTools: true,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseOpenAIStreamEvent(event),
+            parseUsage: (response: any) => this.parseOpenAIUsage(response.data),
             headers: (apiKey?: string) => ({
-                'Content-Type': 'application/json'
+                'Authorization': `Bearer ${apiKey || ''}`,
+                'Content-Type': 'application/json',
+                'HTTP-Referer': 'https://github.com/cuovare/vscode-extension',
+                'X-Title': 'Cuovare VSCode Extension'
             }),
-            formatRequest: (messages: Message[], model: string, tools?: any[]) => {
+            formatRequest: (messages: Message[], model: string, tools?: any[], toolChoice?: any) => {
                 const request: any = {
                     model,
-                    messages: messages.filter(m => m.role !== 'tool').map(msg => ({
+                    messages: messages.map(msg => ({
                         role: msg.role,
-                        content: msg.content
+                        content: msg.content,
+                        ...(msg.tool_calls && { tool_calls: msg.tool_calls }),
+                        ...(msg.tool_call_id && { tool_call_id: msg.tool_call_id }),
+                        ...(msg.name && { name: msg.name })
                     })),
                     stream: false,
-                    options: {
-                        temperature: 0.7
-                    }
+                    temperature: 0.7
                 };
 
-                // Add tool descriptions to system prompt if tools provided
+                // Tools only reach this point for models that passed probeToolSupport
                 if (tools && tools.length > 0) {
-                    const toolDescriptions = tools.map(tool => 
-                        `${tool.name}: ${tool.description}`
-                    ).join('\n');
-                    
-                    const systemMessage = {
-                        role: 'system',
-                        content: `You have access to the following tools:\n${toolDescriptions}\n\nTo use a tool, respond with: USE_TOOL:tool_name:{"arg1":"value1","arg2":"value2"}`
-                    };
-                    
-                    request.messages.unshift(systemMessage);
+                    request.tools = tools.map(tool => ({
+                        type: 'function',
+                        function: {
+                            name: tool.name,
+                            description: tool.description,
+                            parameters: tool.parameters
+                        }
+                    }));
+
+                    if (toolChoice) {
+                        request.tool_choice = toolChoice;
+                    }
                 }
 
                 return request;
             },
             parseResponse: (response: any) => {
-                return response.data.message?.content || '';
+                return response.data.choices[0].message.content || '';
+            },
+            parseToolCalls: (response: any) => {
+                const message = response.data.choices[0].message;
+                return message.tool_calls || [];
+            },
+            formatToolResult: (toolCall: ToolCall, result: any) => ({
+                role: 'tool',
+                tool_call_id: toolCall.id,
+                name: toolCall.function.name,
+                content: typeof result === 'string' ? result : JSON.stringify(result)
+            }),
+            probeToolSupport: async (model: string) => {
+                const catalog = await this.getOpenRouterCatalog();
+                const entry = catalog.find((m: any) => m.id === model);
+                return !!entry && Array.isArray(entry.supported_parameters) && entry.supported_parameters.includes('tools');
             }
         });
+    }
 
-        // Local Provider - Custom endpoints
-        this.providers.set('local', {
-            name: 'Local/Custom',
-            baseUrl: 'http://localhost:8080/v1/chat/completions', // Default LM Studio endpoint
-            models: [
-                'local-model',
-                'custom-model-1',
-                'custom-model-2'
-            ],
-            supportsTools: false,
+    /**
+     * OpenRouter publishes per-model supported parameters; fetch the catalog once
+     */
+    private getOpenRouterCatalog(): Promise<any[]> {
+        if (!this.openRouterCatalog) {
+            this.openRouterCatalog = axios.get('https://openrouter.ai/api/v1/models', { timeout: 15000 })
+                .then(response => response.data?.data || [])
+                .catch(error => {
+                    this.openRouterCatalog = undefined;
+                    throw error;
+                });
+        }
+        return this.openRouterCatalog;
+    }
+
+    /**
+     * Register one provider per configured local endpoint (Ollama or any
+     * OpenAI-compatible server such as LM Studio, llama.cpp or vLLM)
+     */
+    private registerLocalEndpoints(): void {
+        for (const name of this.localEndpointNames) {
+            this.providers.delete(name);
+        }
+        this.localEndpointNames.clear();
+
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const endpoints = config.get<LocalEndpointConfig[]>('ai.localEndpoints', DEFAULT_LOCAL_ENDPOINTS);
+
+        for (const endpoint of endpoints) {
+            if (!endpoint?.name || !endpoint.baseUrl) {
+                console.warn('[AIProviderManager] Ignoring local endpoint without name or baseUrl:', endpoint);
+                continue;
+            }
+            if (this.providers.has(endpoint.name)) {
+                console.warn(`[AIProviderManager] Local endpoint "${endpoint.name}" clashes with an existing provider, skipping`);
+                continue;
+            }
+
+            const provider = endpoint.type === 'ollama'
+                ? this.createOllamaProvider(endpoint)
+                : this.createOpenAICompatibleProvider(endpoint);
+
+            this.providers.set(endpoint.name, provider);
+            this.localEndpointNames.add(endpoint.name);
+        }
+    }
+
+    /**
+     * Ollama endpoint - native /api/chat with tool calling for capable models
+     */
+    private createOllamaProvider(endpoint: LocalEndpointConfig): AIProvider {
+        const rootUrl = endpoint.baseUrl.replace(/\/+$/, '');
+
+        return {
+            name: endpoint.displayName || (endpoint.name === 'ollama' ? 'Ollama' : `Ollama (${endpoint.name})`),
+            baseUrl: `${rootUrl}/api/chat`,
+            models: endpoint.models || [],
+            supportsTools: true, // Decided per model by probeToolSupport
             requiresApiKey: false,
+            streamProtocol: 'ndjson',
+            parseStreamEvent: (event: any) => this.parseOllamaStreamEvent(event),
+            parseUsage: (response: any) => this.parseOllamaUsage(response.data),
             headers: (apiKey?: string) => ({
                 'Content-Type': 'application/json',
                 ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
@@ -462,53 +677,84 @@ export class AIProviderManager {
             formatRequest: (messages: Message[], model: string, tools?: any[]) => {
                 const request: any = {
                     model,
-                    messages: messages.filter(m => m.role !== 'tool').map(msg => ({
+                    messages: messages.map(msg => ({
                         role: msg.role,
-                        content: msg.content
+                        content: msg.content,
+                        // Ollama expects tool call arguments as objects, not JSON strings
+                        ...(msg.tool_calls && {
+                            tool_calls: msg.tool_calls.map(call => ({
+                                function: {
+                                    name: call.function.name,
+                                    arguments: this.parseToolArguments(call.function.arguments)
+                                }
+                            }))
+                        })
                     })),
                     stream: false,
-                    temperature: 0.7,
-                    max_tokens: 4096
+                    options: {
+                        temperature: 0.7
+                    }
                 };
 
-                // Add tool descriptions to system prompt if tools provided
                 if (tools && tools.length > 0) {
-                    const toolDescriptions = tools.map(tool => 
-                        `${tool.name}: ${tool.description}`
-                    ).join('\n');
-                    
-                    const systemMessage = {
-                        role: 'system',
-                        content: `You have access to the following tools:\n${toolDescriptions}\n\nTo use a tool, respond with: USE_TOOL:tool_name:{"arg1":"value1","arg2":"value2"}`
-                    };
-                    
-                    request.messages.unshift(systemMessage);
+                    request.tools = tools.map(tool => ({
+                        type: 'function',
+                        function: {
+                            name: tool.name,
+                            description: tool.description,
+                            parameters: tool.parameters
+                        }
+                    }));
                 }
 
                 return request;
             },
             parseResponse: (response: any) => {
-                return response.data.choices?.[0]?.message?.content || '';
-            }
+                return response.data.message?.content || '';
+            },
+            parseToolCalls: (response: any) => {
+                const toolCalls = response.data.message?.tool_calls || [];
+                return toolCalls.map((call: any, index: number) => ({
+                    id: `call_${index}`,
+                    type: 'function',
+                    function: {
+                        name: call.function?.name,
+                        arguments: typeof call.function?.arguments === 'string'
+                            ? call.function.arguments
+                            : JSON.stringify(call.function?.arguments || {})
+                    }
+                }));
+            },
+            formatToolResult: (toolCall: ToolCall, result: any) => ({
+                role: 'tool',
+                name: toolCall.function.name,
+                content: typeof result === 'string' ? result : JSON.stringify(result)
+            }),
+            discoverModels: () => discoverOllamaModels(rootUrl),
+            probeToolSupport: (model: string) => probeOllamaToolSupport(rootUrl, model)
+        };
+    }
+
+    /**
+     * OpenAI-compatible endpoint - /v1/chat/completions and /v1/models
+     */
+    private createOpenAICompatibleProvider(endpoint: LocalEndpointConfig): AIProvider {
+        const rootUrl = endpoint.baseUrl.replace(/\/+$/, '');
+        const headers = (apiKey?: string) => ({
+            'Content-Type': 'application/json',
+            ...(apiKey && { 'Authorization': `Bearer ${apiKey}` })
         });
 
-        // OpenRouter Provider - Tool support varies by model
-        this.providers.set('openrouter', {
-            name: 'OpenRouter',
-            baseUrl: 'https://openrouter.ai/api/v1/chat/completions',
-            models: [
-                'anthropic/claude-3.5-sonnet',
-                'openai/gpt-4o',
-                'google/gemini-pro-1.5',
-                'meta-llama/llama-3.2-90b-vision-instruct'
-            ],
-            supportsTools: true,
-            headers: (apiKey?: string) => ({
-                'Authorization': `Bearer ${apiKey || ''}`,
-                'Content-Type': 'application/json',
-                'HTTP-Referer': 'https://github.com/cuovare/vscode-extension',
-                'X-Title': 'Cuovare VSCode Extension'
-            }),
+        return {
+            name: endpoint.displayName || (endpoint.name === 'local' ? 'Local/Custom' : endpoint.name),
+            baseUrl: `${rootUrl}/chat/completions`,
+            models: endpoint.models || [],
+            supportsTools: true, // Decided per model by probeToolSupport
+            requiresApiKey: false,
+            streamProtocol: 'sse',
+            parseStreamEvent: (event: any) => this.parseOpenAIStreamEvent(event),
+            parseUsage: (response: any) => this.parseOpenAIUsage(response.data),
+            headers,
             formatRequest: (messages: Message[], model: string, tools?: any[], toolChoice?: any) => {
                 const request: any = {
                     model,
@@ -520,11 +766,11 @@ export class AIProviderManager {
                         ...(msg.name && { name: msg.name })
                     })),
                     stream: false,
-                    temperature: 0.7
+                    temperature: 0.7,
+                    max_tokens: 4096
                 };
 
-                // Only add tools for models that support them
-                if (tools && tools.length > 0 && this.modelSupportsTools(model)) {
+                if (tools && tools.length > 0) {
                     request.tools = tools.map(tool => ({
                         type: 'function',
                         function: {
@@ -542,31 +788,100 @@ export class AIProviderManager {
                 return request;
             },
             parseResponse: (response: any) => {
-                return response.data.choices[0].message.content || '';
+                return response.data.choices?.[0]?.message?.content || '';
             },
             parseToolCalls: (response: any) => {
-                const message = response.data.choices[0].message;
-                return message.tool_calls || [];
+                return response.data.choices?.[0]?.message?.tool_calls || [];
             },
             formatToolResult: (toolCall: ToolCall, result: any) => ({
                 role: 'tool',
                 tool_call_id: toolCall.id,
                 name: toolCall.function.name,
                 content: typeof result === 'string' ? result : JSON.stringify(result)
-            })
-        });
+            }),
+            discoverModels: (apiKey?: string) => discoverOpenAICompatibleModels(rootUrl, headers(apiKey)),
+            probeToolSupport: (model: string, apiKey?: string) => probeOpenAICompatibleToolSupport(rootUrl, model, headers(apiKey))
+        };
+    }
+
+    /**
+     * Ask every local endpoint which models it currently serves.
+     * Unreachable endpoints keep their previous (or configured) model list.
+     */
+    public async refreshLocalModels(): Promise<void> {
+        await Promise.all(Array.from(this.localEndpointNames).map(async name => {
+            const provider = this.providers.get(name);
+            if (!provider?.discoverModels) {
+                return;
+            }
+
+            try {
+                const models = await provider.discoverModels(await this.getStoredApiKey(name));
+                if (models.length > 0) {
+                    provider.models = models;
+                }
+                console.log(`[${provider.name}] Discovered ${models.length} models`);
+            } catch (error) {
+                console.warn(`[${provider.name}] Model discovery failed:`, error instanceof Error ? error.message : error);
+            }
+        }));
+    }
+
+    /**
+     * Check whether a model accepts native tool definitions. Providers that
+     * can be probed are asked once per model and the answer is cached.
+     */
+    public async modelSupportsTools(providerName: string, model: string): Promise<boolean> {
+        const provider = this.providers.get(providerName);
+        if (!provider || !provider.supportsTools) {
+            return false;
+        }
+        if (!provider.probeToolSupport) {
+            return true;
+        }
+
+        const cacheKey = `${providerName}:${model}`;
+        const cached = this.toolSupportCache.get(cacheKey);
+        if (cached !== undefined) {
+            return cached;
+        }
+
+        let supported = false;
+        try {
+            supported = await provider.probeToolSupport(model, await this.getStoredApiKey(providerName));
+        } catch (error) {
+            // Transient failures are not cached so the next request probes again
+            console.warn(`[${provider.name}] Tool capability probe failed for ${model}:`, error instanceof Error ? error.message : error);
+            return false;
+        }
+
+        this.toolSupportCache.set(cacheKey, supported);
+        console.log(`[${provider.name}] Model ${model} ${supported ? 'supports' : 'does not support'} native tools`);
+        return supported;
+    }
+
+    private parseToolArguments(args: string): any {
+        try {
+            return JSON.parse(args || '{}');
+        } catch {
+            return {};
+        }
     }
 
     /**
-     * Check if a specific model supports tools
+     * Gemini requires functionResponse payloads to be objects; tool output
+     * carried over from another provider is often plain text
      */
-    private modelSupportsTools(model: string): boolean {
-        const toolSupportedModels = [
-            'anthropic/claude-3.5-sonnet',
-            'openai/gpt-4o',
-            'openai/gpt-4-turbo'
-        ];
-        return toolSupportedModels.some(supportedModel => model.includes(supportedModel));
+    private parseFunctionResponse(content: string): any {
+        try {
+            const parsed = JSON.parse(content || '{}');
+            if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+                return parsed;
+            }
+            return { result: parsed };
+        } catch {
+            return { result: content };
+        }
     }
 
     public getProvider(name: string): AIProvider | undefined {
@@ -577,6 +892,13 @@ export class AIProviderManager {
         return this.providers;
     }
 
+    /**
+     * Names of providers backed by configured local endpoints
+     */
+    public getLocalEndpointNames(): string[] {
+        return Array.from(this.localEndpointNames);
+    }
+
     public async getAvailableProviders(): Promise<string[]> {
         const availableProviders: string[] = [];
         
@@ -599,7 +921,7 @@ export class AIProviderManager {
             .map(([name, _]) => name);
     }
 
-    private async getStoredApiKey(provider: string): Promise<string | undefined> {
+    public async getStoredApiKey(provider: string): Promise<string | undefined> {
         return await this.context.secrets.get(`cuovare.apiKey.${provider}`);
     }
 
@@ -624,71 +946,262 @@ export class AIProviderManager {
     }
 
     /**
-     * Enhanced sendMessage with tool support
+     * Enhanced sendMessage with tool support.
+     * Transient failures are retried and, when configured, the request moves
+     * down `cuovare.ai.fallbackChain` until a provider answers. Aborting
+     * `signal` cancels the HTTP request and resolves with an empty response
+     * flagged as `cancelled`.
      */
-    public async sendMessage(request: ChatRequest): Promise<ChatResponse> {
-        const config = vscode.workspace.getConfiguration('cuovare');
-        const defaultProvider = config.get<string>('defaultProvider', 'openai');
-        const selectedModels = config.get<Record<string, string>>('selectedModels', {});
+    public async sendMessage(request: ChatRequest, signal?: AbortSignal): Promise<ChatResponse> {
+        return this.runWithFallback(
+            request,
+            (outgoing, target) => this.sendToTarget(outgoing, target, signal),
+            () => !signal?.aborted,
+            signal
+        );
+    }
 
-        let targetProvider = request.provider;
-        
-        // Provider selection logic
-        if (!targetProvider) {
-            if (await this.hasApiKey(defaultProvider)) {
-                targetProvider = defaultProvider;
-            } else {
-                const availableProviders = await this.getAvailableProviders();
-                if (availableProviders.length === 0) {
-                    throw new Error('No AI providers configured. Please add an API key in settings.');
+    /**
+     * Streaming variant of sendMessage. Deltas are reported through `onDelta`
+     * as they arrive and the fully assembled response is returned at the end.
+     * Aborting `signal` cancels the HTTP request and resolves with whatever
+     * was received so far, flagged as `cancelled`.
+     *
+     * Retries and fallbacks only happen before the first delta; once output
+     * has been shown a failure is reported rather than silently restarted.
+     */
+    public async sendMessageStream(
+        request: ChatRequest,
+        onDelta: StreamDeltaCallback,
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        let streamed = false;
+        const trackedDelta: StreamDeltaCallback = (delta, snapshot) => {
+            streamed = true;
+            onDelta(delta, snapshot);
+        };
+
+        return this.runWithFallback(
+            request,
+            (outgoing, target) => this.streamFromTarget(outgoing, target, trackedDelta, signal),
+            () => !streamed && !signal?.aborted,
+            signal
+        );
+    }
+
+    /**
+     * Try each provider in the chain, retrying transient failures with backoff.
+     * Each provider gets the request with secrets redacted as the workspace's
+     * redaction policy asks for that provider, trimmed to that model's context
+     * window. Aborting `signal` during a backoff resolves with an empty
+     * response flagged as `cancelled`.
+     */
+    private async runWithFallback(
+        request: ChatRequest,
+        attempt: (outgoing: ChatRequest, target: RequestTarget) => Promise<ChatResponse>,
+        canRecover: () => boolean = () => true,
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const chain = await this.buildProviderChain(request);
+        const policy = this.getRetryPolicy();
+        const attempts: ProviderAttempt[] = [];
+
+        for (let linkIndex = 0; linkIndex < chain.length; linkIndex++) {
+            const link = chain[linkIndex];
+            const isLastLink = linkIndex === chain.length - 1;
+
+            let target: RequestTarget;
+            try {
+                target = await this.resolveTarget(request, link.provider, link.model);
+            } catch (error) {
+                if (chain.length === 1) {
+                    throw error;
+                }
+                attempts.push({ provider: link.provider, model: link.model, error: error instanceof Error ? error.message : String(error) });
+                continue;
+            }
+
+            const outgoing = await this.fitRequestToTarget(this.redactRequest(request, target), target);
+            for (let retry = 0; ; retry++) {
+                try {
+                    const response = await attempt(outgoing, target);
+                    response.providerId = target.providerName;
+                    response.attempts = attempts;
+                    response.fallbackUsed = linkIndex > 0;
+                    if (response.usage) {
+                        this.usageEmitter.fire({ provider: target.providerName, model: target.model, usage: response.usage });
+                    }
+                    if (linkIndex > 0) {
+                        console.log(`[AIProviderManager] Fallback to ${target.provider.name} (${target.model}) succeeded after ${attempts.length} failed attempt(s)`);
+                    }
+                    return response;
+                } catch (error) {
+                    const failure = error instanceof ProviderRequestError ? error : undefined;
+                    attempts.push({
+                        provider: target.providerName,
+                        model: target.model,
+                        status: failure?.status,
+                        error: error instanceof Error ? error.message : String(error)
+                    });
+
+                    if (!failure || !canRecover()) {
+                        throw error;
+                    }
+
+                    if (failure.retryable && retry < policy.maxRetries) {
+                        const delay = computeBackoffDelay(retry, policy, failure.retryAfterMs);
+                        console.warn(`[${target.provider.name}] ${failure.message} - retrying in ${delay}ms (${retry + 1}/${policy.maxRetries})`);
+                        if (!await waitForRetry(delay, signal)) {
+                            console.log(`[${target.provider.name}] Request cancelled during retry backoff`);
+                            return {
+                                content: '',
+                                model: target.model,
+                                provider: target.provider.name,
+                                providerId: target.providerName,
+                                cancelled: true,
+                                attempts,
+                                fallbackUsed: linkIndex > 0
+                            };
+                        }
+                        continue;
+                    }
+
+                    if (failure.fallbackEligible && !isLastLink) {
+                        console.warn(`[${target.provider.name}] Giving up, falling back to next provider in chain`);
+                        break;
+                    }
+
+                    throw error;
                 }
-                targetProvider = availableProviders[0];
             }
         }
 
-        const provider = this.providers.get(targetProvider);
-        if (!provider) {
-            throw new Error(`Provider ${targetProvider} not found`);
+        const summary = attempts.map(a => `${a.provider}${a.model ? ` (${a.model})` : ''}: ${a.error}`).join('; ');
+        throw new Error(`All providers in the fallback chain failed. ${summary}`);
+    }
+
+    /**
+     * The request as it may leave the machine for `target`, with the
+     * redaction recorded in the audit log
+     */
+    private redactRequest(request: ChatRequest, target: RequestTarget): ChatRequest {
+        if (!secretRedactor.appliesTo(target.provider.baseUrl)) {
+            return request;
         }
+        const { messages, findings } = secretRedactor.redactMessages(request.messages);
+        if (findings.length === 0) {
+            return request;
+        }
+        secretRedactor.record(target.providerName, target.model, findings);
+        return { ...request, messages };
+    }
 
-        const apiKey = await this.getStoredApiKey(targetProvider);
-        if (!apiKey && provider.requiresApiKey !== false) {
-            throw new Error(`No API key configured for ${provider.name}`);
+    /**
+     * The request cut down to the prompt budget of `target`. Callers pack for
+     * the active model, so this only bites when a fallback has a smaller
+     * context window.
+     */
+    private async fitRequestToTarget(request: ChatRequest, target: RequestTarget): Promise<ChatRequest> {
+        const budget = getPromptBudget(await this.getModelLimits(target.providerName, target.model));
+        const messages = fitMessagesToBudget(request.messages, budget, target.model);
+        if (messages === request.messages) {
+            return request;
         }
+        console.warn(`[AIProviderManager] Request trimmed to the ${budget}-token prompt budget of ${target.model}`);
+        return { ...request, messages };
+    }
 
-        const targetModel = request.model || selectedModels[targetProvider] || provider.models[0];
-        
-        // Handle tools
-        let tools = request.tools;
-        let toolChoice = request.toolChoice;
-        
-        if (request.enableTools && provider.supportsTools && tools && tools.length > 0) {
-            // Tools are enabled and provider supports them
+    /**
+     * The primary provider followed by configured fallbacks that have keys
+     */
+    private async buildProviderChain(request: ChatRequest): Promise<FallbackChainEntry[]> {
+        const primary = await this.resolvePrimaryProvider(request);
+        const chain: FallbackChainEntry[] = [{ provider: primary, model: request.model }];
+
+        if (request.allowFallback === false) {
+            return chain;
+        }
+
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const configured = normalizeFallbackChain(config.get('ai.fallbackChain', []));
+
+        for (const entry of configured) {
+            const duplicate = chain.some(link => link.provider === entry.provider && (link.model || '') === (entry.model || ''));
+            if (duplicate || !this.providers.has(entry.provider)) {
+                continue;
+            }
+            if (!(await this.hasApiKey(entry.provider))) {
+                continue;
+            }
+            chain.push(entry);
+        }
+
+        return chain;
+    }
+
+    public getRetryPolicy(): RetryPolicy {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const configured = config.get<Partial<RetryPolicy>>('ai.retryPolicy', {});
+        return { ...DEFAULT_RETRY_POLICY, ...configured };
+    }
+
+    /**
+     * Apply per-request reply limits to an already formatted provider request
+     */
+    private applyGenerationOptions(requestData: any, request: ChatRequest): void {
+        const options: Record<string, number> = {};
+        if (request.temperature !== undefined) {
+            options.temperature = request.temperature;
+        }
+
+        if (requestData.generationConfig) {
+            // Google
+            Object.assign(requestData.generationConfig, options);
+            if (request.maxTokens !== undefined) {
+                requestData.generationConfig.maxOutputTokens = request.maxTokens;
+            }
+        } else if (requestData.options) {
+            // Ollama
+            Object.assign(requestData.options, options);
+            if (request.maxTokens !== undefined) {
+                requestData.options.num_predict = request.maxTokens;
+            }
         } else {
-            // Disable tools for this request
-            tools = undefined;
-            toolChoice = undefined;
+            // OpenAI-compatible and Anthropic
+            Object.assign(requestData, options);
+            if (request.maxTokens !== undefined) {
+                requestData.max_tokens = request.maxTokens;
+            }
         }
+    }
 
-        const requestData = provider.formatRequest(request.messages, targetModel, tools, toolChoice);
+    /**
+     * A single non-streaming request against one provider/model
+     */
+    private async sendToTarget(request: ChatRequest, target: RequestTarget, signal?: AbortSignal): Promise<ChatResponse> {
+        const { provider, providerName, model, tools, apiKey } = target;
+
+        const messages = translateTranscript(request.messages, { nativeTools: !!tools });
+        const requestData = provider.formatRequest(messages, model, tools, target.toolChoice);
+        this.applyGenerationOptions(requestData, request);
         const headers = provider.headers(apiKey);
         
         // Enhanced logging
         console.log(`[${provider.name}] Sending request:`, {
-            model: targetModel,
+            model,
             toolsEnabled: !!(tools && tools.length > 0),
             toolCount: tools?.length || 0,
-            messageCount: request.messages.length
+            messageCount: messages.length
         });
         
         try {
-            // Construct URL - special handling for Google AI
-            let requestUrl = provider.baseUrl;
-            if (targetProvider === 'google') {
-                requestUrl = `${provider.baseUrl}/${targetModel}:generateContent`;
-            }
+            const requestUrl = this.buildRequestUrl(providerName, provider, model, false);
             
-            const response = await axios.post(requestUrl, requestData, { headers });
+            const response = await axios.post(requestUrl, requestData, {
+                headers,
+                timeout: this.getRetryPolicy().requestTimeoutMs,
+                signal
+            });
             const content = provider.parseResponse(response);
             
             // Parse tool calls if provider supports them
@@ -697,45 +1210,524 @@ export class AIProviderManager {
                 toolCalls = provider.parseToolCalls(response);
             }
 
+            const usage = provider.parseUsage?.(response) || this.estimateUsage(model, messages, content, toolCalls);
+
             console.log(`[${provider.name}] Response received:`, {
                 contentLength: content.length,
                 toolCallsCount: toolCalls.length,
-                requiresToolExecution: toolCalls.length > 0
+                requiresToolExecution: toolCalls.length > 0,
+                usage
             });
 
             return {
                 content,
-                model: targetModel,
+                model,
                 provider: provider.name,
                 toolCalls,
-                requiresToolExecution: toolCalls.length > 0
+                requiresToolExecution: toolCalls.length > 0,
+                usage
             };
         } catch (error) {
-            if (axios.isAxiosError(error)) {
-                console.error(`[${provider.name}] API Error:`, {
-                    status: error.response?.status,
-                    statusText: error.response?.statusText,
-                    data: error.response?.data,
-                    url: provider.baseUrl
-                });
-                
-                const errorData = error.response?.data;
-                let message = error.message;
-                
-                if (errorData) {
-                    if (errorData.error?.message) {
-                        message = errorData.error.message;
-                    } else if (errorData.message) {
-                        message = errorData.message;
-                    } else if (typeof errorData === 'string') {
-                        message = errorData;
+            if (signal?.aborted) {
+                console.log(`[${provider.name}] Request cancelled`);
+                return { content: '', model, provider: provider.name, cancelled: true };
+            }
+            throw await this.toProviderError(provider, error);
+        }
+    }
+
+    /**
+     * A single streaming request against one provider/model
+     */
+    private async streamFromTarget(
+        request: ChatRequest,
+        target: RequestTarget,
+        onDelta: StreamDeltaCallback,
+        signal?: AbortSignal
+    ): Promise<ChatResponse> {
+        const { provider, providerName, model, tools, apiKey } = target;
+
+        // Providers without a stream parser still work, they just arrive in one piece
+        if (!provider.streamProtocol || !provider.parseStreamEvent) {
+            const response = await this.sendToTarget(request, target, signal);
+            onDelta({ content: response.content }, response);
+            return response;
+        }
+
+        const messages = translateTranscript(request.messages, { nativeTools: !!tools });
+        const requestData = provider.formatRequest(messages, model, tools, target.toolChoice);
+        this.applyGenerationOptions(requestData, request);
+        if (providerName !== 'google') {
+            requestData.stream = true;
+        }
+        if (providerName === 'openai') {
+            // Otherwise OpenAI omits token counts from streamed responses
+            requestData.stream_options = { include_usage: true };
+        }
+
+        console.log(`[${provider.name}] Sending streaming request:`, {
+            model,
+            toolsEnabled: !!(tools && tools.length > 0),
+            toolCount: tools?.length || 0,
+            messageCount: messages.length
+        });
+
+        const snapshot: ChatResponse = {
+            content: '',
+            model,
+            provider: provider.name,
+            toolCalls: [],
+            requiresToolExecution: false
+        };
+        const indexedCalls = new Map<number, ToolCall>();
+        const unindexedCalls: ToolCall[] = [];
+        const reportedUsage: Partial<TokenUsage> = {};
+
+        const applyDelta = (delta: StreamDelta) => {
+            if (delta.content) {
+                snapshot.content += delta.content;
+            }
+
+            for (const callDelta of delta.toolCalls || []) {
+                let call = callDelta.index !== undefined ? indexedCalls.get(callDelta.index) : undefined;
+                if (!call) {
+                    call = {
+                        id: callDelta.id || `call_${indexedCalls.size + unindexedCalls.length}`,
+                        type: 'function',
+                        function: { name: '', arguments: '' }
+                    };
+                    if (callDelta.index !== undefined) {
+                        indexedCalls.set(callDelta.index, call);
+                    } else {
+                        unindexedCalls.push(call);
                     }
                 }
-                
-                throw new Error(`${provider.name} API Error: ${message} (Status: ${error.response?.status})`);
+                if (callDelta.id) {
+                    call.id = callDelta.id;
+                }
+                if (callDelta.name) {
+                    call.function.name = callDelta.name;
+                }
+                if (callDelta.argumentsDelta) {
+                    call.function.arguments += callDelta.argumentsDelta;
+                }
+            }
+
+            if (delta.toolCalls && delta.toolCalls.length > 0) {
+                snapshot.toolCalls = [
+                    ...Array.from(indexedCalls.entries()).sort((a, b) => a[0] - b[0]).map(([, call]) => call),
+                    ...unindexedCalls
+                ];
+            }
+
+            onDelta(delta, snapshot);
+        };
+
+        const handlePayload = (payload: string) => {
+            if (!payload || payload === '[DONE]') {
+                return;
+            }
+            let event: any;
+            try {
+                event = JSON.parse(payload);
+            } catch {
+                console.warn(`[${provider.name}] Skipping malformed stream event:`, payload);
+                return;
+            }
+            // Error events throw, failing the stream like an HTTP error would
+            const delta = provider.parseStreamEvent!(event);
+            if (delta?.usage) {
+                Object.assign(reportedUsage, delta.usage);
+            }
+            if (delta && (delta.content || (delta.toolCalls && delta.toolCalls.length > 0))) {
+                applyDelta(delta);
+            }
+        };
+
+        try {
+            const requestUrl = this.buildRequestUrl(providerName, provider, model, true);
+            const response = await axios.post(requestUrl, requestData, {
+                headers: provider.headers(apiKey),
+                responseType: 'stream',
+                timeout: this.getRetryPolicy().requestTimeoutMs,
+                signal
+            });
+
+            if (provider.streamProtocol === 'ndjson') {
+                const parser = new NDJSONParser();
+                for await (const chunk of response.data) {
+                    parser.feed(chunk).forEach(handlePayload);
+                }
+                parser.flush().forEach(handlePayload);
+            } else {
+                const parser = new SSEParser();
+                for await (const chunk of response.data) {
+                    parser.feed(chunk).forEach(event => handlePayload(event.data));
+                }
+                parser.flush().forEach(event => handlePayload(event.data));
+            }
+        } catch (error) {
+            if (!signal?.aborted) {
+                throw await this.toProviderError(provider, error);
+            }
+            snapshot.cancelled = true;
+            console.log(`[${provider.name}] Streaming request cancelled`);
+        }
+
+        // Tool calls are only honoured when tools were actually offered
+        if (!tools || tools.length === 0 || snapshot.cancelled) {
+            snapshot.toolCalls = [];
+        }
+        snapshot.requiresToolExecution = (snapshot.toolCalls?.length || 0) > 0;
+        snapshot.usage = reportedUsage.inputTokens !== undefined && reportedUsage.outputTokens !== undefined
+            ? { inputTokens: reportedUsage.inputTokens, outputTokens: reportedUsage.outputTokens }
+            : this.estimateUsage(model, messages, snapshot.content, snapshot.toolCalls || [], reportedUsage);
+
+        console.log(`[${provider.name}] Stream completed:`, {
+            contentLength: snapshot.content.length,
+            toolCallsCount: snapshot.toolCalls?.length || 0,
+            cancelled: !!snapshot.cancelled,
+            usage: snapshot.usage
+        });
+
+        return snapshot;
+    }
+
+    /**
+     * Whether chat responses should be streamed, per the user's response settings
+     */
+    public isStreamingEnabled(): boolean {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const responseSettings = config.get<{ streamResponses?: boolean }>('ai.responseSettings', {});
+        return responseSettings.streamResponses !== false;
+    }
+
+    /**
+     * Pick the provider a request starts with: explicit, default, or first configured
+     */
+    private async resolvePrimaryProvider(request: ChatRequest): Promise<string> {
+        if (request.provider) {
+            return request.provider;
+        }
+
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const defaultProvider = config.get<string>('defaultProvider', 'openai');
+
+        if (await this.hasApiKey(defaultProvider)) {
+            return defaultProvider;
+        }
+
+        const availableProviders = await this.getAvailableProviders();
+        if (availableProviders.length === 0) {
+            throw new Error('No AI providers configured. Please add an API key in settings.');
+        }
+        return availableProviders[0];
+    }
+
+    /**
+     * Resolve the model, key and tools a request will use on a given provider
+     */
+    private async resolveTarget(request: ChatRequest, targetProvider: string, modelOverride?: string): Promise<RequestTarget> {
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const selectedModels = config.get<Record<string, string>>('selectedModels', {});
+
+        const provider = this.providers.get(targetProvider);
+        if (!provider) {
+            throw new Error(`Provider ${targetProvider} not found`);
+        }
+
+        const apiKey = await this.getStoredApiKey(targetProvider);
+        if (!apiKey && provider.requiresApiKey !== false) {
+            throw new Error(`No API key configured for ${provider.name}`);
+        }
+
+        const model = modelOverride || selectedModels[targetProvider] || provider.models[0];
+        if (!model) {
+            throw new Error(`No model available for ${provider.name}. Make sure the endpoint is running or select a model in settings.`);
+        }
+        
+        // Tools are only sent when enabled and the model supports them
+        const toolsEnabled = !!(request.enableTools && request.tools && request.tools.length > 0)
+            && await this.modelSupportsTools(targetProvider, model);
+
+        return {
+            provider,
+            providerName: targetProvider,
+            model,
+            apiKey,
+            tools: toolsEnabled ? request.tools : undefined,
+            toolChoice: toolsEnabled ? request.toolChoice : undefined
+        };
+    }
+
+    /**
+     * Construct the request URL - Google AI puts the model and method in the path
+     */
+    private buildRequestUrl(providerName: string, provider: AIProvider, model: string, stream: boolean): string {
+        if (providerName === 'google') {
+            return stream
+                ? `${provider.baseUrl}/${model}:streamGenerateContent?alt=sse`
+                : `${provider.baseUrl}/${model}:generateContent`;
+        }
+        return provider.baseUrl;
+    }
+
+    /**
+     * Convert an HTTP failure into a readable provider error
+     */
+    private async toProviderError(provider: AIProvider, error: unknown): Promise<Error> {
+        if (!axios.isAxiosError(error)) {
+            return error instanceof Error ? error : new Error(String(error));
+        }
+
+        const status = error.response?.status;
+        const retryable = isRetryableStatus(status) || (!error.response && isRetryableNetworkCode(error.code));
+        const fallbackEligible = retryable || (!error.response && isFallbackNetworkCode(error.code));
+        const retryAfterMs = getRetryAfterMs(error.response?.headers || {});
+
+        let errorData = error.response?.data;
+
+        // Streaming requests hand back the error body as a stream as well
+        if (errorData && typeof errorData.on === 'function') {
+            try {
+                const body = await readStreamText(errorData);
+                try {
+                    errorData = JSON.parse(body);
+                } catch {
+                    errorData = body;
+                }
+            } catch {
+                errorData = undefined;
+            }
+        }
+
+        console.error(`[${provider.name}] API Error:`, {
+            status: error.response?.status,
+            statusText: error.response?.statusText,
+            data: errorData,
+            url: provider.baseUrl
+        });
+        
+        let message = error.message;
+        
+        if (errorData) {
+            if (errorData.error?.message) {
+                message = errorData.error.message;
+            } else if (errorData.message) {
+                message = errorData.message;
+            } else if (typeof errorData === 'string') {
+                message = errorData;
+            }
+        }
+        
+        return new ProviderRequestError(
+            `${provider.name} API Error: ${message} (Status: ${status ?? error.code ?? 'none'})`,
+            { status, retryable, fallbackEligible, retryAfterMs }
+        );
+    }
+
+    /**
+     * An error event received mid-stream, classified for the retry/fallback
+     * policy like the HTTP error it stands for
+     */
+    private toStreamError(providerName: string, error: any): ProviderRequestError {
+        const status = getStreamErrorStatus(error);
+        const retryable = isRetryableStatus(status);
+        return new ProviderRequestError(
+            `${providerName} API Error: ${error?.message || 'stream error'} (Status: ${status ?? error?.type ?? 'none'})`,
+            { status, retryable, fallbackEligible: retryable }
+        );
+    }
+
+    /**
+     * Parse a streamed chat.completions chunk (OpenAI and compatible APIs)
+     */
+    private parseOpenAIStreamEvent(event: any): StreamDelta | null {
+        const delta = event?.choices?.[0]?.delta;
+        const usage = this.parseOpenAIUsage(event);
+        if (!delta) {
+            // The final chunk carries usage with an empty choices array
+            return usage ? { usage } : null;
+        }
+
+        return {
+            usage,
+            content: delta.content || undefined,
+            toolCalls: (delta.tool_calls || []).map((call: any) => ({
+                index: call.index,
+                id: call.id,
+                name: call.function?.name,
+                argumentsDelta: call.function?.arguments
+            }))
+        };
+    }
+
+    /**
+     * Parse a streamed Anthropic Messages API event
+     */
+    private parseAnthropicStreamEvent(event: any): StreamDelta | null {
+        switch (event?.type) {
+            case 'message_start':
+                return event.message?.usage ? { usage: { inputTokens: event.message.usage.input_tokens } } : null;
+            case 'message_delta':
+                return event.usage ? { usage: { outputTokens: event.usage.output_tokens } } : null;
+            case 'content_block_start':
+                if (event.content_block?.type === 'tool_use') {
+                    return {
+                        toolCalls: [{
+                            index: event.index,
+                            id: event.content_block.id,
+                            name: event.content_block.name
+                        }]
+                    };
+                }
+                return event.content_block?.text ? { content: event.content_block.text } : null;
+            case 'content_block_delta':
+                if (event.delta?.type === 'text_delta') {
+                    return { content: event.delta.text };
+                }
+                if (event.delta?.type === 'input_json_delta') {
+                    return {
+                        toolCalls: [{
+                            index: event.index,
+                            argumentsDelta: event.delta.partial_json
+                        }]
+                    };
+                }
+                return null;
+            case 'error':
+                throw this.toStreamError('Anthropic', event.error);
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Parse a streamed Gemini GenerateContentResponse chunk.
+     * Gemini sends function calls whole, so they carry no index.
+     */
+    private parseGoogleStreamEvent(event: any): StreamDelta | null {
+        const parts = event?.candidates?.[0]?.content?.parts;
+        const usage = this.parseGoogleUsage(event);
+        if (!parts) {
+            return usage ? { usage } : null;
+        }
+
+        return {
+            usage,
+            content: parts.map((part: any) => part.text || '').join('') || undefined,
+            toolCalls: parts
+                .filter((part: any) => part.functionCall)
+                .map((part: any) => ({
+                    name: part.functionCall.name,
+                    argumentsDelta: JSON.stringify(part.functionCall.args || {})
+                }))
+        };
+    }
+
+    /**
+     * Parse a streamed Ollama /api/chat line
+     */
+    private parseOllamaStreamEvent(event: any): StreamDelta | null {
+        const message = event?.message;
+        // Counts arrive on the final `done` line
+        const usage = event?.done ? this.parseOllamaUsage(event) : undefined;
+        if (!message) {
+            return usage ? { usage } : null;
+        }
+
+        return {
+            usage,
+            content: message.content || undefined,
+            toolCalls: (message.tool_calls || []).map((call: any) => ({
+                name: call.function?.name,
+                argumentsDelta: typeof call.function?.arguments === 'string'
+                    ? call.function.arguments
+                    : JSON.stringify(call.function?.arguments || {})
+            }))
+        };
+    }
+
+    private parseOpenAIUsage(data: any): TokenUsage | undefined {
+        const usage = data?.usage;
+        if (typeof usage?.prompt_tokens !== 'number') {
+            return undefined;
+        }
+        return { inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens || 0 };
+    }
+
+    private parseAnthropicUsage(data: any): TokenUsage | undefined {
+        const usage = data?.usage;
+        if (typeof usage?.input_tokens !== 'number') {
+            return undefined;
+        }
+        return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens || 0 };
+    }
+
+    private parseGoogleUsage(data: any): TokenUsage | undefined {
+        const usage = data?.usageMetadata;
+        if (typeof usage?.promptTokenCount !== 'number') {
+            return undefined;
+        }
+        return { inputTokens: usage.promptTokenCount, outputTokens: usage.candidatesTokenCount || 0 };
+    }
+
+    private parseOllamaUsage(data: any): TokenUsage | undefined {
+        if (typeof data?.prompt_eval_count !== 'number') {
+            return undefined;
+        }
+        return { inputTokens: data.prompt_eval_count, outputTokens: data.eval_count || 0 };
+    }
+
+    /**
+     * Estimate usage for providers that don't report it, keeping any partial counts they did send
+     */
+    private estimateUsage(model: string, messages: Message[], content: string, toolCalls: ToolCall[], reported: Partial<TokenUsage> = {}): TokenUsage {
+        return {
+            inputTokens: reported.inputTokens ?? estimateMessageTokens(messages, model),
+            outputTokens: reported.outputTokens ?? estimateTokens(content, model) + toolCalls.reduce(
+                (sum, call) => sum + estimateTokens(call.function.name, model) + estimateTokens(call.function.arguments, model), 0
+            ),
+            estimated: true
+        };
+    }
+
+    /**
+     * Context window and pricing for a model. OpenRouter publishes both in its
+     * catalog; everything else comes from the built-in table.
+     */
+    public async getModelLimits(providerName: string, model: string): Promise<ModelLimits> {
+        const limits = getModelLimits(model);
+
+        if (providerName === 'openrouter') {
+            try {
+                const entry = (await this.getOpenRouterCatalog()).find((m: any) => m.id === model);
+                if (entry) {
+                    limits.contextWindow = entry.context_length || limits.contextWindow;
+                    limits.maxOutputTokens = entry.top_provider?.max_completion_tokens || limits.maxOutputTokens;
+                    if (entry.pricing) {
+                        // Catalog prices are USD per token
+                        limits.inputCostPerMillion = parseFloat(entry.pricing.prompt) * 1_000_000;
+                        limits.outputCostPerMillion = parseFloat(entry.pricing.completion) * 1_000_000;
+                    }
+                }
+            } catch (error) {
+                console.warn('[AIProviderManager] OpenRouter catalog unavailable for model limits:', error);
             }
-            throw error;
         }
+
+        return limits;
+    }
+
+    /**
+     * The provider and model the next request will start with
+     */
+    public async getActiveModel(): Promise<{ provider: string; model: string }> {
+        const providerName = await this.resolvePrimaryProvider({ messages: [] });
+        const config = vscode.workspace.getConfiguration('cuovare');
+        const selectedModels = config.get<Record<string, string>>('selectedModels', {});
+        const model = selectedModels[providerName] || this.providers.get(providerName)?.models[0] || '';
+        return { provider: providerName, model };
     }
 
     /**
@@ -768,6 +1760,15 @@ export class AIProviderManager {
         };
     }
 
+    /**
+     * Re-read `cuovare.ai.localEndpoints` and rediscover their models
+     */
+    public async reloadLocalEndpoints(): Promise<void> {
+        this.registerLocalEndpoints();
+        this.toolSupportCache.clear();
+        await this.refreshLocalModels();
+    }
+
     public refreshConfiguration() {
         console.log('Enhanced AI Provider configuration refreshed');
     }
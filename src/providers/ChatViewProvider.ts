@@ -1,14 +1,35 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import * as os from 'os';
-import { AIProviderManager, Message, ToolCall, ChatResponse, ChatRequest } from './AIProviderManager';
+import { AIProviderManager, Message, ToolCall, ChatResponse, ChatRequest, ProviderAttempt, UsageReport } from './AIProviderManager';
+import { buildExtractiveSummary, estimateCost, fitToBudget, getContextFileBudget, getPromptBudget, truncateToTokens } from './TokenBudget';
+import { secretRedactor } from './SecretRedaction';
+import {
+    RepeatedToolCall,
+    ToolLoopState,
+    ToolTimelineEntry,
+    createToolLoopState,
+    describeToolLoopStop,
+    getRepeatedCallNotice,
+    getToolLoopStopReason,
+    partitionRepeatedCalls,
+    summarizeToolOutput
+} from './ToolLoop';
 import { FileContextManager } from '../context/FileContextManager';
 import { ContextRetrievalEngine, RetrievalContext, QueryIntent } from '../context/ContextRetrievalEngine';
-import { MCPManager } from '../mcp/MCPManager';
+import { fileEnumerator } from '../context/FileEnumerator';
+import { ContextCandidate, ContextPack, ContextPackReport, packContext } from '../context/ContextPacker';
+import { getSymbols } from '../context/SemanticIndex';
+import { workspaceIndex } from '../context/WorkspaceIndex';
+import { MCPManager, MCPResourceContents, MCPResourceUpdate, MCPPromptMessage } from '../mcp/MCPManager';
 import { ToolExecutionEngine, ToolExecutionRequest, ToolExecutionResult } from '../mcp/ToolExecutionEngine';
-import { AgentMode } from '../agent/AgentMode';
+import { AgentMode, AgentPlan, AgentResumeOptions } from '../agent/AgentMode';
+import { AgentRunRecord, AgentRunStatus, agentRunStore, createRunReport, getResumeIndex } from '../agent/AgentRunStore';
+import { ActionPreview, ApprovalResponse } from '../agent/ApprovalPolicy';
 import { toolRegistry } from '../agent/ToolRegistry';
+import { Checkpoint, CheckpointRestoreResult, checkpointManager } from '../agent/CheckpointManager';
+import { GitBackend } from '../agent/GitBackend';
+import { getExecutionLevels } from '../agent/PlanScheduler';
 import { marked } from 'marked';
 
 export interface ChatMessage {
@@ -22,6 +43,7 @@ export interface ChatMessage {
         files?: string[];
         intelligentContextFiles?: string[];
         contextCount?: number;
+        contextReport?: ContextPackReport; // What the packer sent as context and what it left out
         tokens?: number;
         toolCalls?: ToolCall[];
         toolResults?: ToolExecutionResult[];
@@ -29,6 +51,13 @@ export interface ChatMessage {
         isAgentMode?: boolean;
         agentStatus?: string;
         isSystemMessage?: boolean;
+        isStreaming?: boolean;
+        cancelled?: boolean;
+        fallbackUsed?: boolean;
+        failedAttempts?: ProviderAttempt[];
+        toolHop?: number; // Tool round within the turn that produced this message
+        toolTimeline?: ToolTimelineEntry[]; // Every tool call of the turn, on its final answer
+        toolLoopStop?: string; // Why tools stopped being offered before the model was done
     };
 }
 
@@ -39,8 +68,40 @@ export interface ChatSession {
     createdAt: number;
     lastUpdated: number;
     toolsEnabled: boolean;
+    usage?: SessionUsage;
+    historySummary?: {
+        content: string;
+        messageCount: number; // Leading history messages the summary stands in for
+    };
+}
+
+export interface SessionUsage {
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    requests: number;
+    unpricedRequests: number; // Requests to models without known pricing
+    estimated: boolean; // True if any request's counts were estimated locally
+}
+
+// An MCP resource attached to the conversation as context
+interface AttachedResource {
+    serverName: string;
+    uri: string;
+    name: string;
+    mimeType?: string;
+    content: string;
+    updatedAt: number;
+    subscribed: boolean;
 }
 
+// Room kept for the summary of trimmed turns when history has to be cut
+const HISTORY_SUMMARY_TOKENS = 500;
+
+const HISTORY_SUMMARY_PROMPT = 'Summarize the conversation below for an AI coding assistant that will continue it. '
+    + 'Keep decisions, file names, code identifiers, open questions and user preferences. '
+    + 'Be concise and use bullet points. If an existing summary is given, merge the new turns into it.';
+
 export class ChatViewProvider implements vscode.WebviewViewProvider {
     private _view?: vscode.WebviewView;
     private _chatHistory: ChatMessage[] = [];
@@ -50,6 +111,12 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     private _toolsEnabled = true;
     private _autoExecuteTools = true;
     private _agentMode: AgentMode;
+    private _agentDryRun = false;
+    private _pendingApprovals: Map<string, (response: ApprovalResponse) => void> = new Map();
+    private _activeRequest?: AbortController;
+    private _streamUpdateTimer?: NodeJS.Timeout;
+    private _attachedResources: Map<string, AttachedResource> = new Map();
+    private _lastPromptBudget?: { usedTokens: number; budgetTokens: number; droppedFiles: string[]; summarizedMessages: number };
 
     constructor(
         private readonly _extensionUri: vscode.Uri,
@@ -62,6 +129,13 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this.loadSessions();
         this.createNewSession();
         this.setupToolEventHandlers();
+        this._aiManager.onDidReportUsage(report => this.recordUsage(report));
+        this._mcpManager.onDidUpdateResource(update => this.refreshAttachedResource(update));
+        this._mcpManager.onDidChangeInventory(() => this.sendSettings());
+        checkpointManager.onDidChange = () => this.sendCheckpoints();
+        this._toolEngine.onDidReportProgress(progress => {
+            this._view?.webview.postMessage({ type: 'toolProgress', data: progress });
+        });
         
         // Initialize Agent Mode
         this._agentMode = new AgentMode(
@@ -70,6 +144,25 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             this._mcpManager,
             this._toolEngine
         );
+        this._agentMode.setApprovalHandler(request => this.requestApproval({
+            id: request.id,
+            step: request.step,
+            tool: request.action.type,
+            operation: request.operation,
+            description: request.action.description,
+            reason: request.reason,
+            preview: request.preview,
+            payload: request.action.payload
+        }));
+        this._toolEngine.setApprovalHandler(request => this.requestApproval({
+            id: request.id,
+            tool: request.toolName,
+            operation: request.operation,
+            description: this.getToolDescription(request.toolName),
+            reason: request.reason,
+            preview: request.preview,
+            payload: request.arguments
+        }));
     }
 
     public resolveWebviewView(
@@ -96,6 +189,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'sendMessage':
                     await this.handleUserMessage(data.message, data.fileReferences);
                     break;
+                case 'cancelRequest':
+                    this.cancelActiveRequest();
+                    break;
                 case 'clearChat':
                     this.clearChat();
                     break;
@@ -117,12 +213,34 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'callMCPTool':
                     await this.callMCPTool(data.tool, data.args);
                     break;
+                case 'getMCPCatalog':
+                    this.sendMCPCatalog();
+                    break;
+                case 'attachMCPResource':
+                    await this.attachMCPResource(data.serverName, data.uri);
+                    break;
+                case 'detachMCPResource':
+                    await this.detachMCPResource(data.serverName, data.uri);
+                    break;
+                case 'showMCPServerLog':
+                    this._mcpManager.showServerLog(data.serverName);
+                    break;
+                case 'useMCPPrompt':
+                    await this.useMCPPrompt(data.serverName, data.name, data.arguments);
+                    break;
                 case 'toggleAgentMode':
                     this.toggleAgentMode(data.enabled);
                     break;
                 case 'stopAgentExecution':
                     this.stopAgentExecution();
                     break;
+                case 'toggleAgentDryRun':
+                    this._agentDryRun = data.enabled === true;
+                    await this.sendSettings();
+                    break;
+                case 'agentApprovalResponse':
+                    this.resolveAgentApproval(data.id, data.decision, data.payload);
+                    break;
                 case 'toggleTools':
                     this.toggleToolsEnabled(data.enabled);
                     break;
@@ -171,6 +289,15 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 case 'generateCommitMessage':
                     await this.generateCommitMessage();
                     break;
+                case 'undoCheckpoint':
+                    await this.undoCheckpoint(data.checkpointId);
+                    break;
+                case 'restoreCheckpoint':
+                    await this.restoreCheckpoint(data.checkpointId);
+                    break;
+                case 'showCheckpointDiff':
+                    await this.showCheckpointDiff(data.fromId, data.toId);
+                    break;
             }
         });
 
@@ -179,6 +306,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         this.sendSettings();
         this.sendMCPStatus();
         this.sendWorkspaceFiles();
+        this.sendCheckpoints();
     }
 
     /**
@@ -199,6 +327,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
         this._isLoading = true;
         this.updateLoadingState(true);
+        let checkpoint = '';
 
         try {
             // Add user message to history
@@ -215,11 +344,18 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
             this.addMessage(userMessage);
 
-            // Get available tools
-            const availableTools = this._toolsEnabled ? this._mcpManager.getToolsForAIProvider() : [];
+            // Files the tools change during this turn can be undone together
+            checkpoint = checkpointManager.begin(message.split('\n')[0].slice(0, 60), 'chat', userMessage.id);
+
+            // Get available tools: MCP tools plus enabled built-in tools
+            const availableTools = this._toolsEnabled ? await this._toolEngine.getToolsForAIProvider() : [];
             
-            // Prepare conversation context
-            const contextFiles = await this.getContextFiles(fileReferences);
+            // Context candidates: explicit file references and attached resources, then retrieved files
+            const contextFiles = [
+                ...(await this.getContextFiles(fileReferences)),
+                ...this.getAttachedResourceContext(),
+                ...(await this.getIntelligentContext(message, fileReferences))
+            ];
             
             // Check if agent mode is enabled
             if (this._agentMode.getEnabled()) {
@@ -227,21 +363,17 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 return;
             }
             
-            // Get intelligent context based on the user's message
-            const intelligentContext = await this.getIntelligentContext(message, fileReferences);
+            const { messages: conversationMessages, contextPack } = await this.prepareConversationMessages(message, contextFiles);
+            const packedFiles = contextPack.files;
             
-            // Update user message metadata with intelligent context info
-            if (userMessage.metadata && intelligentContext.length > 0) {
-                userMessage.metadata.intelligentContextFiles = intelligentContext.map(f => f.path);
-                userMessage.metadata.contextCount = intelligentContext.length;
+            // Update user message metadata with the context that was sent
+            if (userMessage.metadata && contextFiles.length > 0) {
+                userMessage.metadata.intelligentContextFiles = packedFiles.filter(f => f.isIntelligentContext).map(f => f.path);
+                userMessage.metadata.contextCount = packedFiles.length;
+                userMessage.metadata.contextReport = contextPack.report;
                 // Update the existing message in the UI
                 this.updateMessage(userMessage);
             }
-            
-            // Combine explicit file references with intelligent context
-            const allContextFiles = [...contextFiles, ...intelligentContext];
-            
-            const conversationMessages = await this.prepareConversationMessages(allContextFiles);
 
             // Create AI request
             const request: ChatRequest = {
@@ -251,6 +383,17 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 toolChoice: this._toolsEnabled && availableTools.length > 0 ? 'auto' : undefined
             };
 
+            const contextMetadata = {
+                files: packedFiles.filter(f => !f.isIntelligentContext).map(f => f.path),
+                intelligentContextFiles: packedFiles.filter(f => f.isIntelligentContext).map(f => f.path),
+                contextCount: packedFiles.length
+            };
+
+            if (this._aiManager.isStreamingEnabled()) {
+                await this.handleStreamingResponse(request, conversationMessages, contextMetadata);
+                return;
+            }
+
             // Get AI response
             const response = await this._aiManager.sendMessage(request);
 
@@ -267,9 +410,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                     metadata: {
                         provider: response.provider,
                         model: response.model,
-                        files: allContextFiles.filter(f => !f.isIntelligentContext).map(f => f.path),
-                        intelligentContextFiles: allContextFiles.filter(f => f.isIntelligentContext).map(f => f.path),
-                        contextCount: allContextFiles.length
+                        ...this.getFallbackMetadata(response),
+                        tokens: response.usage?.outputTokens,
+                        ...contextMetadata
                     }
                 };
 
@@ -291,140 +434,380 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
             this.addMessage(errorMessage);
         } finally {
+            checkpointManager.end(checkpoint);
             this._isLoading = false;
             this.updateLoadingState(false);
         }
     }
 
     /**
-     * Handle tool calls from AI response
+     * Stream the assistant reply into a placeholder message, rendering deltas live
      */
-    private async handleToolCalls(response: ChatResponse, conversationMessages: Message[]): Promise<void> {
-        if (!response.toolCalls || response.toolCalls.length === 0) {
-            return;
-        }
-
-        // Add assistant message with tool calls
+    private async handleStreamingResponse(
+        request: ChatRequest,
+        conversationMessages: Message[],
+        contextMetadata: NonNullable<ChatMessage['metadata']>
+    ): Promise<void> {
         const assistantMessage: ChatMessage = {
             id: this.generateId(),
             role: 'assistant',
-            content: response.content || 'I need to use some tools to help you.',
+            content: '',
             timestamp: Date.now(),
             metadata: {
-                provider: response.provider,
-                model: response.model,
-                toolCalls: response.toolCalls
+                ...contextMetadata,
+                isStreaming: true
             }
         };
 
         this.addMessage(assistantMessage);
+        this._activeRequest = new AbortController();
 
-        if (this._autoExecuteTools) {
-            // Auto-execute tools
-            await this.executeToolCalls(response.toolCalls, conversationMessages);
-        } else {
-            // Show tool execution UI
-            this.showToolExecutionPrompt(response.toolCalls);
+        try {
+            const response = await this._aiManager.sendMessageStream(request, (_delta, snapshot) => {
+                assistantMessage.content = snapshot.content;
+                assistantMessage.metadata = {
+                    ...assistantMessage.metadata,
+                    provider: snapshot.provider,
+                    model: snapshot.model,
+                    toolCalls: snapshot.toolCalls && snapshot.toolCalls.length > 0 ? snapshot.toolCalls : undefined
+                };
+                this.scheduleStreamUpdate(assistantMessage);
+            }, this._activeRequest.signal);
+
+            this.flushStreamUpdate();
+            assistantMessage.content = response.content;
+            assistantMessage.metadata = {
+                ...assistantMessage.metadata,
+                provider: response.provider,
+                model: response.model,
+                isStreaming: false,
+                cancelled: response.cancelled,
+                tokens: response.usage?.outputTokens,
+                ...this.getFallbackMetadata(response),
+                toolCalls: response.requiresToolExecution ? response.toolCalls : undefined
+            };
+
+            if (response.requiresToolExecution && response.toolCalls && response.toolCalls.length > 0) {
+                await this.handleToolCalls(response, conversationMessages, assistantMessage);
+            } else {
+                this.updateMessage(assistantMessage);
+                this.updateCurrentSession();
+            }
+        } catch (error) {
+            // Drop the empty placeholder so the error message stands on its own
+            this.flushStreamUpdate();
+            if (!assistantMessage.content) {
+                this._chatHistory = this._chatHistory.filter(m => m.id !== assistantMessage.id);
+                this.sendChatHistory();
+            } else {
+                assistantMessage.metadata = { ...assistantMessage.metadata, isStreaming: false };
+                this.updateMessage(assistantMessage);
+            }
+            this.updateCurrentSession();
+            throw error;
+        } finally {
+            this._activeRequest = undefined;
         }
     }
 
     /**
-     * Execute multiple tool calls
+     * Record which providers failed before the one that answered
      */
-    private async executeToolCalls(toolCalls: ToolCall[], conversationMessages: Message[]): Promise<void> {
-        const executionRequests: ToolExecutionRequest[] = toolCalls.map(toolCall => ({
-            toolName: toolCall.function.name,
-            arguments: JSON.parse(toolCall.function.arguments),
-            requestId: toolCall.id,
-            providerName: 'mcp',
-            conversationId: this._currentSessionId || 'default'
-        }));
+    private getFallbackMetadata(response: ChatResponse): Pick<NonNullable<ChatMessage['metadata']>, 'fallbackUsed' | 'failedAttempts'> {
+        if (!response.attempts || response.attempts.length === 0) {
+            return {};
+        }
+        return {
+            fallbackUsed: response.fallbackUsed,
+            failedAttempts: response.attempts
+        };
+    }
 
-        // Execute tools in parallel
-        const results = await this._toolEngine.executeMultipleTools(executionRequests);
+    /**
+     * Throttle webview updates while a response is streaming
+     */
+    private scheduleStreamUpdate(message: ChatMessage): void {
+        if (this._streamUpdateTimer) {
+            return;
+        }
 
-        // Add tool results to conversation
-        const toolMessages: Message[] = [];
-        const toolResultsMetadata: ToolExecutionResult[] = [];
+        this._streamUpdateTimer = setTimeout(() => {
+            this._streamUpdateTimer = undefined;
+            this.updateMessage(message);
+        }, 50);
+    }
 
-        for (let i = 0; i < results.length; i++) {
-            const result = results[i];
-            const toolCall = toolCalls[i];
+    private flushStreamUpdate(): void {
+        if (this._streamUpdateTimer) {
+            clearTimeout(this._streamUpdateTimer);
+            this._streamUpdateTimer = undefined;
+        }
+    }
 
-            // Format tool result for AI provider
-            const toolMessage = this._aiManager.formatToolResult(
-                conversationMessages[0]?.role === 'system' ? 'openai' : 'anthropic', // Default to OpenAI format
-                toolCall,
-                result.success ? result.result : { error: result.error }
-            );
+    /**
+     * Abort the in-flight AI request, if any
+     */
+    private cancelActiveRequest(): void {
+        if (this._activeRequest) {
+            this._activeRequest.abort();
+            this._activeRequest = undefined;
+        }
+        this._toolEngine.cancelAllExecutions();
 
-            if (toolMessage) {
-                toolMessages.push(toolMessage);
-            }
+        if (this._agentMode.getCurrentPlan()?.status === 'executing') {
+            this._agentMode.stopExecution();
+        }
+        this.skipPendingApprovals();
+    }
 
-            toolResultsMetadata.push(result);
+    /**
+     * Handle tool calls from AI response
+     */
+    private async handleToolCalls(response: ChatResponse, conversationMessages: Message[], streamedMessage?: ChatMessage): Promise<void> {
+        if (!response.toolCalls || response.toolCalls.length === 0) {
+            return;
+        }
 
-            // Add tool result message to chat
-            const toolResultMessage: ChatMessage = {
-                id: this.generateId(),
-                role: 'tool',
-                content: result.success 
-                    ? `Tool "${result.toolName}" executed successfully:\n\`\`\`\n${typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2)}\n\`\`\``
-                    : `Tool "${result.toolName}" failed: ${result.error}`,
-                timestamp: Date.now(),
-                metadata: {
-                    toolResults: [result]
-                }
-            };
+        // Add assistant message with tool calls (or finalize the one that was streamed)
+        const assistantMessage: ChatMessage = streamedMessage || {
+            id: this.generateId(),
+            role: 'assistant',
+            content: '',
+            timestamp: Date.now()
+        };
+        assistantMessage.content = response.content || 'I need to use some tools to help you.';
+        assistantMessage.metadata = {
+            ...assistantMessage.metadata,
+            provider: response.provider,
+            model: response.model,
+            ...this.getFallbackMetadata(response),
+            toolCalls: response.toolCalls
+        };
 
-            this.addMessage(toolResultMessage);
+        if (streamedMessage) {
+            this.updateMessage(assistantMessage);
+            this.updateCurrentSession();
+        } else {
+            this.addMessage(assistantMessage);
         }
 
-        // Get follow-up response from AI with tool results
-        if (toolMessages.length > 0) {
-            await this.getFollowUpResponse([...conversationMessages, ...toolMessages], toolResultsMetadata);
+        if (this._autoExecuteTools) {
+            // Auto-execute tools, feeding results back until the model stops calling them
+            await this.runToolLoop(response, conversationMessages, assistantMessage);
+        } else {
+            // Show tool execution UI
+            this.showToolExecutionPrompt(response.toolCalls);
         }
     }
 
     /**
-     * Get follow-up response after tool execution
+     * Run the model's tool calls and send the results back with tools still
+     * offered, hop after hop, until it answers without calling any. Stops
+     * offering tools at the hop limit or when the model only repeats calls
+     * it already made this turn.
      */
-    private async getFollowUpResponse(messages: Message[], toolResults: ToolExecutionResult[]): Promise<void> {
-        try {
-            const request: ChatRequest = {
-                messages,
-                enableTools: false // Don't enable tools for follow-up
-            };
+    private async runToolLoop(response: ChatResponse, conversationMessages: Message[], assistantMessage: ChatMessage): Promise<void> {
+        const loop = createToolLoopState(vscode.workspace.getConfiguration('cuovare').get<number>('ai.maxToolHops'));
+        const messages = [...conversationMessages];
+        const allResults: ToolExecutionResult[] = [];
+        const controller = new AbortController();
+        this._activeRequest = controller;
 
-            const response = await this._aiManager.sendMessage(request);
+        let current = response;
+        let currentMessage = assistantMessage;
 
-            const followUpMessage: ChatMessage = {
-                id: this.generateId(),
-                role: 'assistant',
-                content: response.content,
-                timestamp: Date.now(),
-                metadata: {
-                    provider: response.provider,
-                    model: response.model,
-                    toolResults
+        try {
+            while (current.toolCalls && current.toolCalls.length > 0) {
+                loop.hop++;
+                currentMessage.metadata = { ...currentMessage.metadata, toolHop: loop.hop };
+                this.updateMessage(currentMessage);
+
+                const hopCalls = current.toolCalls;
+                const { fresh, repeated } = partitionRepeatedCalls(loop, hopCalls);
+                const results = await this.executeToolCalls(fresh);
+                allResults.push(...results);
+
+                // The assistant turn that asked for the tools must precede their results
+                messages.push({ role: 'assistant', content: current.content || '', tool_calls: hopCalls });
+                messages.push(...this.recordToolHop(loop, current, hopCalls, fresh, results, repeated));
+
+                if (controller.signal.aborted) {
+                    return;
                 }
-            };
 
-            this.addMessage(followUpMessage);
+                const stopReason = getToolLoopStopReason(loop, hopCalls.length, repeated.length);
+                const tools = stopReason ? [] : await this._toolEngine.getToolsForAIProvider();
+                const next = await this._aiManager.sendMessage({
+                    messages,
+                    tools,
+                    enableTools: tools.length > 0,
+                    toolChoice: tools.length > 0 ? 'auto' : undefined
+                }, controller.signal);
+
+                if (controller.signal.aborted) {
+                    return;
+                }
+
+                const nextMessage: ChatMessage = {
+                    id: this.generateId(),
+                    role: 'assistant',
+                    content: next.content,
+                    timestamp: Date.now(),
+                    metadata: {
+                        provider: next.provider,
+                        model: next.model,
+                        ...this.getFallbackMetadata(next),
+                        tokens: next.usage?.outputTokens
+                    }
+                };
+
+                if (!stopReason && next.requiresToolExecution && next.toolCalls && next.toolCalls.length > 0) {
+                    nextMessage.metadata!.toolCalls = next.toolCalls;
+                    this.addMessage(nextMessage);
+                    current = next;
+                    currentMessage = nextMessage;
+                    continue;
+                }
 
+                nextMessage.metadata = {
+                    ...nextMessage.metadata,
+                    toolResults: allResults,
+                    toolTimeline: loop.timeline,
+                    toolLoopStop: stopReason ? describeToolLoopStop(stopReason, loop) : undefined
+                };
+                this.addMessage(nextMessage);
+                return;
+            }
         } catch (error) {
             console.error('Error getting follow-up response:', error);
+            if (!controller.signal.aborted) {
+                this.addMessage({
+                    id: this.generateId(),
+                    role: 'assistant',
+                    content: `Error after tool round ${loop.hop}: ${error instanceof Error ? error.message : 'Unknown error occurred'}`,
+                    timestamp: Date.now(),
+                    metadata: {
+                        provider: 'error',
+                        toolResults: allResults,
+                        toolTimeline: loop.timeline
+                    }
+                });
+            }
+        } finally {
+            if (this._activeRequest === controller) {
+                this._activeRequest = undefined;
+            }
+        }
+    }
+
+    /**
+     * Execute tool calls in parallel, in the order the model made them
+     */
+    private async executeToolCalls(toolCalls: ToolCall[]): Promise<ToolExecutionResult[]> {
+        if (toolCalls.length === 0) {
+            return [];
+        }
+
+        const executionRequests: ToolExecutionRequest[] = toolCalls.map(toolCall => ({
+            toolName: toolCall.function.name,
+            arguments: this.parseToolArguments(toolCall),
+            requestId: toolCall.id,
+            providerName: 'mcp',
+            conversationId: this._currentSessionId || 'default'
+        }));
+
+        return this._toolEngine.executeMultipleTools(executionRequests);
+    }
+
+    private parseToolArguments(toolCall: ToolCall): any {
+        try {
+            return JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+            return {};
+        }
+    }
+
+    /**
+     * Add one hop's tool results to the chat and the turn's timeline, and
+     * return them formatted for the provider in the order the calls were made
+     */
+    private recordToolHop(
+        loop: ToolLoopState,
+        response: ChatResponse,
+        hopCalls: ToolCall[],
+        executed: ToolCall[],
+        results: ToolExecutionResult[],
+        repeated: RepeatedToolCall[]
+    ): Message[] {
+        const toolMessages: Message[] = [];
+
+        for (const toolCall of hopCalls) {
+            const index = executed.indexOf(toolCall);
+            const repeat = repeated.find(r => r.call === toolCall);
+            let output: any;
+
+            if (index !== -1) {
+                const result = results[index];
+                output = result.success ? result.result : { error: result.error };
+                loop.timeline.push({
+                    hop: loop.hop,
+                    toolName: result.toolName,
+                    success: result.success,
+                    executionTime: result.executionTime,
+                    summary: summarizeToolOutput(result.success ? result.result : result.error)
+                });
+                this.addMessage({
+                    id: this.generateId(),
+                    role: 'tool',
+                    content: result.success
+                        ? `Tool "${result.toolName}" executed successfully:\n\`\`\`\n${typeof result.result === 'string' ? result.result : JSON.stringify(result.result, null, 2)}\n\`\`\``
+                        : `Tool "${result.toolName}" failed: ${result.error}`,
+                    timestamp: Date.now(),
+                    metadata: {
+                        toolResults: [result],
+                        toolHop: loop.hop
+                    }
+                });
+            } else if (repeat) {
+                output = { error: getRepeatedCallNotice(repeat) };
+                loop.timeline.push({
+                    hop: loop.hop,
+                    toolName: toolCall.function.name,
+                    success: false,
+                    executionTime: 0,
+                    summary: `Repeat of round ${repeat.firstHop}, not run again`,
+                    repeatOfHop: repeat.firstHop
+                });
+            }
+
+            const toolMessage = this._aiManager.formatToolResult(response.providerId || 'openai', toolCall, output);
+            if (toolMessage) {
+                toolMessages.push(toolMessage);
+            }
         }
+
+        return toolMessages;
     }
 
     /**
      * Execute a single tool call manually
      */
     private async executeToolCall(toolCall: ToolCall): Promise<void> {
+        const args = this.parseToolArgumentsForDisplay(toolCall);
+        if (typeof args === 'string') {
+            this.addMessage({
+                id: this.generateId(),
+                role: 'tool',
+                content: `Tool failed: the arguments for "${toolCall.function.name}" are not valid JSON`,
+                timestamp: Date.now()
+            });
+            return;
+        }
+
         try {
             const executionRequest: ToolExecutionRequest = {
                 toolName: toolCall.function.name,
-                arguments: JSON.parse(toolCall.function.arguments),
+                arguments: args,
                 requestId: toolCall.id,
                 providerName: 'mcp',
                 conversationId: this._currentSessionId || 'default'
@@ -461,19 +844,30 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             toolCalls: toolCalls.map(tc => ({
                 id: tc.id,
                 name: tc.function.name,
-                arguments: JSON.parse(tc.function.arguments),
+                arguments: this.parseToolArgumentsForDisplay(tc),
                 description: this.getToolDescription(tc.function.name)
             }))
         });
     }
 
     /**
-     * Get tool description from MCP registry
+     * Arguments as an object, or the raw string when the model sent invalid JSON
+     */
+    private parseToolArgumentsForDisplay(toolCall: ToolCall): any {
+        try {
+            return JSON.parse(toolCall.function.arguments || '{}');
+        } catch {
+            return toolCall.function.arguments;
+        }
+    }
+
+    /**
+     * Get tool description from the MCP registry or the built-in tools
      */
     private getToolDescription(toolName: string): string {
         const tools = this._mcpManager.getAvailableTools();
         const tool = tools.find(t => t.name === toolName);
-        return tool?.description || 'No description available';
+        return tool?.description || toolRegistry.getTool(toolName)?.metadata.description || 'No description available';
     }
 
     /**
@@ -560,40 +954,88 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     /**
-     * Prepare conversation messages with tool context
+     * Prepare conversation messages with tool context, fitted to the model's context window.
+     * Context candidates are packed into what the prompts and recent turns leave.
      */
-    private async prepareConversationMessages(contextFiles: any[]): Promise<Message[]> {
-        const messages: Message[] = [];
+    private async prepareConversationMessages(query: string, candidates: ContextCandidate[]): Promise<{ messages: Message[]; contextPack: ContextPack }> {
+        const systemMessages: Message[] = [];
 
         // Add system message with tool information if tools are enabled
         if (this._toolsEnabled) {
-            const availableTools = this._mcpManager.getAvailableTools();
-            if (availableTools.length > 0) {
-                const toolSystemMessage = this._aiManager.createToolSystemMessage(
-                    this._mcpManager.getToolsForAIProvider()
-                );
-                if (toolSystemMessage) {
-                    messages.push(toolSystemMessage);
-                }
+            const toolSystemMessage = this._aiManager.createToolSystemMessage(
+                await this._toolEngine.getToolsForAIProvider()
+            );
+            if (toolSystemMessage) {
+                systemMessages.push(toolSystemMessage);
             }
         }
 
+        // Conversation history (tool messages stay out of the AI context)
+        const history: Message[] = this._chatHistory
+            .filter(chatMessage => chatMessage.role !== 'tool')
+            .map(chatMessage => ({
+                role: chatMessage.role as 'user' | 'assistant' | 'system',
+                content: chatMessage.content
+            }));
+
+        const { provider, model } = await this._aiManager.getActiveModel().catch(() => ({ provider: '', model: '' }));
+        const promptBudget = getPromptBudget(await this._aiManager.getModelLimits(provider, model));
+        // Leave room for a summary in case older history has to go
+        const contextPack = await packContext(
+            candidates,
+            query,
+            getContextFileBudget({ systemMessages, history }, promptBudget, HISTORY_SUMMARY_TOKENS, model)
+        );
+        const budgetInput = { systemMessages, contextFiles: contextPack.files, history };
+
+        let budget = fitToBudget(budgetInput, promptBudget, 0, model);
+        let summary: string | undefined;
+        if (budget.droppedHistory.length > 0) {
+            budget = fitToBudget(budgetInput, promptBudget, HISTORY_SUMMARY_TOKENS, model);
+            summary = await this.summarizeHistory(budget.droppedHistory, promptBudget);
+        }
+
+        const droppedFiles = [...contextPack.report.dropped.map(entry => entry.path), ...budget.droppedFiles];
+        if (budget.droppedHistory.length > 0 || droppedFiles.length > 0) {
+            console.log(`[ChatViewProvider] Context trimmed to ${budget.usedTokens}/${budget.budgetTokens} tokens for ${model || 'default model'}:`, {
+                summarizedMessages: budget.droppedHistory.length,
+                droppedFiles
+            });
+        }
+
+        this._lastPromptBudget = {
+            usedTokens: budget.usedTokens,
+            budgetTokens: budget.budgetTokens,
+            droppedFiles,
+            summarizedMessages: budget.droppedHistory.length
+        };
+        this.sendSessionUsage();
+
+        const messages: Message[] = [...systemMessages];
+
+        if (summary) {
+            messages.push({
+                role: 'system',
+                content: `## Summary of earlier conversation:\n\n${summary}`
+            });
+        }
+
         // Add context files
-        if (contextFiles.length > 0) {
-            const explicitFiles = contextFiles.filter(f => !f.isIntelligentContext);
-            const intelligentFiles = contextFiles.filter(f => f.isIntelligentContext);
+        if (budget.contextFiles.length > 0) {
+            const explicitFiles = budget.contextFiles.filter(f => !f.isIntelligentContext);
+            const intelligentFiles = budget.contextFiles.filter(f => f.isIntelligentContext);
             
             let contextContent = '';
             
             if (explicitFiles.length > 0) {
                 contextContent += `## Explicitly Referenced Files:\n\n${explicitFiles.map(f => 
-                    `### ${f.path}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
+                    `### ${f.path}${f.lines ? ` (lines ${f.lines})` : ''}${f.truncated ? ' (truncated)' : ''}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
                 ).join('\n\n')}\n\n`;
             }
             
             if (intelligentFiles.length > 0) {
                 contextContent += `## Relevant Project Files (automatically selected):\n\n${intelligentFiles.map(f => 
-                    `### ${f.path} ${f.relevanceScore ? `(relevance: ${f.relevanceScore.toFixed(2)})` : ''}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
+                    `### ${f.path} ${f.lines ? `(lines ${f.lines}) ` : ''}${f.relevanceScore ? `(relevance: ${f.relevanceScore.toFixed(2)})` : ''}${f.truncated ? ' (truncated)' : ''}\n\`\`\`${f.language}\n${f.content}\n\`\`\``
                 ).join('\n\n')}`;
             }
             
@@ -604,17 +1046,100 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             messages.push(contextMessage);
         }
 
-        // Add conversation history
-        for (const chatMessage of this._chatHistory) {
-            if (chatMessage.role !== 'tool') { // Don't include tool messages in AI context
-                messages.push({
-                    role: chatMessage.role as 'user' | 'assistant' | 'system',
-                    content: chatMessage.content
-                });
-            }
+        messages.push(...budget.history);
+
+        return { messages, contextPack };
+    }
+
+    /**
+     * Summarize history trimmed from the prompt, reusing and extending the
+     * session's cached summary so each old turn is only summarized once
+     */
+    private async summarizeHistory(dropped: Message[], promptBudget: number): Promise<string> {
+        const session = this._currentSessionId ? this._sessions.get(this._currentSessionId) : undefined;
+        const cached = session?.historySummary;
+
+        if (cached && cached.messageCount === dropped.length) {
+            return cached.content;
+        }
+
+        const config = vscode.workspace.getConfiguration('cuovare');
+        if (!config.get<boolean>('ai.summarizeHistory', true)) {
+            return buildExtractiveSummary(dropped, HISTORY_SUMMARY_TOKENS);
+        }
+
+        const extending = !!cached && cached.messageCount < dropped.length;
+        const newTurns = extending ? dropped.slice(cached!.messageCount) : dropped;
+        const transcript = newTurns.map(m => `${m.role.toUpperCase()}: ${m.content}`).join('\n\n');
+
+        let content: string;
+        try {
+            const response = await this._aiManager.sendMessage({
+                messages: [
+                    { role: 'system', content: HISTORY_SUMMARY_PROMPT },
+                    {
+                        role: 'user',
+                        content: `${extending ? `Existing summary:\n${cached!.content}\n\n` : ''}Conversation:\n${truncateToTokens(transcript, Math.floor(promptBudget / 2))}`
+                    }
+                ]
+            });
+            content = truncateToTokens(response.content.trim(), HISTORY_SUMMARY_TOKENS);
+        } catch (error) {
+            console.warn('[ChatViewProvider] History summarization failed, using extractive summary:', error);
+            content = buildExtractiveSummary(dropped, HISTORY_SUMMARY_TOKENS);
         }
 
-        return messages;
+        if (session) {
+            session.historySummary = { content, messageCount: dropped.length };
+            this.saveSessions();
+        }
+        return content;
+    }
+
+    /**
+     * Add a request's token usage and cost to the current session
+     */
+    private async recordUsage(report: UsageReport): Promise<void> {
+        const session = this._currentSessionId ? this._sessions.get(this._currentSessionId) : undefined;
+        if (!session) {
+            return;
+        }
+
+        const limits = await this._aiManager.getModelLimits(report.provider, report.model);
+        const cost = estimateCost(report.usage, limits);
+        const usage: SessionUsage = session.usage || {
+            inputTokens: 0,
+            outputTokens: 0,
+            costUsd: 0,
+            requests: 0,
+            unpricedRequests: 0,
+            estimated: false
+        };
+
+        usage.inputTokens += report.usage.inputTokens;
+        usage.outputTokens += report.usage.outputTokens;
+        usage.requests++;
+        if (cost !== undefined) {
+            usage.costUsd += cost;
+        } else {
+            usage.unpricedRequests++;
+        }
+        usage.estimated = usage.estimated || !!report.usage.estimated;
+
+        session.usage = usage;
+        this.saveSessions();
+        this.sendSessionUsage();
+    }
+
+    private sendSessionUsage(): void {
+        const session = this._currentSessionId ? this._sessions.get(this._currentSessionId) : undefined;
+        this._view?.webview.postMessage({
+            type: 'sessionUsage',
+            data: {
+                usage: session?.usage,
+                lastPrompt: this._lastPromptBudget
+            }
+        });
     }
 
     // ... Include all other methods from the original ChatViewProvider ...
@@ -653,33 +1178,9 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     private async sendWorkspaceFiles(): Promise<void> {
         try {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                this._view?.webview.postMessage({
-                    type: 'workspaceFiles',
-                    data: []
-                });
-                return;
-            }
-
-            const allFiles: string[] = [];
-            
-            for (const workspaceFolder of workspaceFolders) {
-                const relativePattern = new vscode.RelativePattern(workspaceFolder, '**/*');
-                const uris = await vscode.workspace.findFiles(
-                    relativePattern,
-                    '{**/node_modules/**,**/dist/**,**/build/**,**/out/**,**/.git/**,**/coverage/**,**/*.min.js,**/*.map,**/logs/**,**/temp/**,**/tmp/**,**/.vscode/**,**/.idea/**}',
-                    1000
-                );
-                
-                // Convert to relative paths from workspace folder
-                const relativePaths = uris
-                    .filter(uri => uri.fsPath.startsWith(workspaceFolder.uri.fsPath))
-                    .map(uri => path.relative(workspaceFolder.uri.fsPath, uri.fsPath))
-                    .filter(relativePath => relativePath && !relativePath.startsWith('..'));
-                
-                allFiles.push(...relativePaths);
-            }
+            // Folder-qualified when there are several workspace folders
+            const filePaths = await fileEnumerator.listFiles({ maxResults: 1000 * fileEnumerator.getRoots().length });
+            const allFiles = filePaths.map(filePath => fileEnumerator.toDisplayPath(filePath));
 
             this._view?.webview.postMessage({
                 type: 'workspaceFiles',
@@ -701,99 +1202,258 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         });
     }
 
-    private generateId(): string {
-        return Math.random().toString(36).substr(2, 9);
+    private generateId(): string {
+        return Math.random().toString(36).substr(2, 9);
+    }
+
+    private createNewSession(): void {
+        const sessionId = this.generateId();
+        const session: ChatSession = {
+            id: sessionId,
+            title: 'New Chat',
+            messages: [],
+            createdAt: Date.now(),
+            lastUpdated: Date.now(),
+            toolsEnabled: this._toolsEnabled
+        };
+
+        this._sessions.set(sessionId, session);
+        this._currentSessionId = sessionId;
+        this._chatHistory = [];
+        this._lastPromptBudget = undefined;
+        this.detachAllResources();
+        
+        this.saveSessions();
+        this.sendChatHistory();
+        this.sendSessionList();
+    }
+
+    // ... Continue with all other necessary methods from original ChatViewProvider ...
+    // (For brevity, I'm showing the structure - the actual implementation would include all methods)
+
+    private async getContextFiles(fileReferences?: string[]): Promise<ContextCandidate[]> {
+        const contextFiles: ContextCandidate[] = [];
+        
+        if (fileReferences && fileReferences.length > 0) {
+            const workspaceFolders = vscode.workspace.workspaceFolders;
+            if (!workspaceFolders || workspaceFolders.length === 0) {
+                return contextFiles;
+            }
+
+            for (const ref of fileReferences) {
+                try {
+                    // Resolve display paths and paths relative to any workspace folder
+                    const filePath = fileEnumerator.resolveDisplayPath(ref) ?? ref;
+                    if (secretRedactor.isBlocked(filePath)) {
+                        vscode.window.showWarningMessage(`${ref} was not sent: it is blocked by cuovare.redaction.blockedPaths.`);
+                        continue;
+                    }
+
+                    const fileContent = await this._fileManager.getFileContent(filePath);
+                    if (fileContent) {
+                        const language = this.detectLanguageFromPath(filePath);
+                        // Indexed symbols let the packer cut a file too large for the budget down to what's asked about
+                        const indexed = workspaceIndex.getFile(filePath);
+                        contextFiles.push({
+                            path: filePath,
+                            content: fileContent,
+                            language: language,
+                            explicit: true,
+                            symbols: indexed && getSymbols(indexed),
+                            lastModified: indexed?.mtime
+                        });
+                    }
+                } catch (error) {
+                    console.error(`Failed to get context for file: ${ref}`, error);
+                }
+            }
+        }
+        
+        return contextFiles;
+    }
+
+    /**
+     * Attached MCP resources in the same shape as explicitly referenced files
+     */
+    private getAttachedResourceContext(): ContextCandidate[] {
+        return Array.from(this._attachedResources.values()).map(resource => ({
+            path: resource.uri,
+            content: resource.content,
+            language: this.languageFromMimeType(resource.mimeType),
+            explicit: true
+        }));
+    }
+
+    private sendMCPCatalog(): void {
+        this._view?.webview.postMessage({
+            type: 'mcpCatalog',
+            data: {
+                resources: this._mcpManager.getAvailableResources(),
+                prompts: this._mcpManager.getAvailablePrompts()
+            }
+        });
+    }
+
+    private sendAttachedResources(): void {
+        this._view?.webview.postMessage({
+            type: 'attachedResources',
+            data: Array.from(this._attachedResources.values()).map(resource => ({
+                serverName: resource.serverName,
+                uri: resource.uri,
+                name: resource.name,
+                updatedAt: resource.updatedAt,
+                subscribed: resource.subscribed
+            }))
+        });
+    }
+
+    /**
+     * Read an MCP resource and keep it attached as context for following messages
+     */
+    private async attachMCPResource(serverName: string, uri: string): Promise<void> {
+        try {
+            const contents = await this._mcpManager.readResource(serverName, uri);
+            const listed = this._mcpManager.getAvailableResources().find(r => r.serverName === serverName && r.uri === uri);
+            const subscribed = await this._mcpManager.subscribeToResource(serverName, uri).catch(() => false);
+
+            this._attachedResources.set(`${serverName}|${uri}`, {
+                serverName,
+                uri,
+                name: listed?.name || uri,
+                mimeType: contents[0]?.mimeType || listed?.mimeType,
+                content: this.formatResourceContents(contents),
+                updatedAt: Date.now(),
+                subscribed
+            });
+            this.sendAttachedResources();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to attach resource ${uri}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }
+
+    private async detachMCPResource(serverName: string, uri: string): Promise<void> {
+        const resource = this._attachedResources.get(`${serverName}|${uri}`);
+        if (!resource) {
+            return;
+        }
+
+        this._attachedResources.delete(`${serverName}|${uri}`);
+        this.sendAttachedResources();
+        if (resource.subscribed) {
+            await this._mcpManager.unsubscribeFromResource(serverName, uri);
+        }
+    }
+
+    private detachAllResources(): void {
+        for (const resource of this._attachedResources.values()) {
+            this.detachMCPResource(resource.serverName, resource.uri);
+        }
+    }
+
+    /**
+     * Re-read an attached resource after the server reports a change
+     */
+    private async refreshAttachedResource(update: MCPResourceUpdate): Promise<void> {
+        const resource = this._attachedResources.get(`${update.serverName}|${update.uri}`);
+        if (!resource) {
+            return;
+        }
+
+        try {
+            const contents = await this._mcpManager.readResource(update.serverName, update.uri);
+            resource.content = this.formatResourceContents(contents);
+            resource.updatedAt = Date.now();
+            this.sendAttachedResources();
+            this._view?.webview.postMessage({ type: 'notification', message: `Resource updated: ${resource.name}` });
+        } catch (error) {
+            console.error(`Failed to refresh resource ${update.uri}:`, error);
+        }
+    }
+
+    /**
+     * Render a prompt template and place it in the input box for review
+     */
+    private async useMCPPrompt(serverName: string, name: string, args?: Record<string, string>): Promise<void> {
+        try {
+            const prompt = await this._mcpManager.getPrompt(serverName, name, args || {});
+            const singleRole = prompt.messages.every(message => message.role === 'user');
+            const text = prompt.messages
+                .map(message => {
+                    const content = this.formatPromptContent(message);
+                    return singleRole ? content : `**${message.role === 'user' ? 'User' : 'Assistant'}:** ${content}`;
+                })
+                .join('\n\n');
+
+            this._view?.webview.postMessage({ type: 'insertPrompt', text });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to get prompt ${name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
     }
 
-    private createNewSession(): void {
-        const sessionId = this.generateId();
-        const session: ChatSession = {
-            id: sessionId,
-            title: 'New Chat',
-            messages: [],
-            createdAt: Date.now(),
-            lastUpdated: Date.now(),
-            toolsEnabled: this._toolsEnabled
-        };
-
-        this._sessions.set(sessionId, session);
-        this._currentSessionId = sessionId;
-        this._chatHistory = [];
-        
-        this.saveSessions();
-        this.sendChatHistory();
-        this.sendSessionList();
+    private formatPromptContent(message: MCPPromptMessage): string {
+        switch (message.content.type) {
+            case 'text':
+                return message.content.text || '';
+            case 'resource':
+                return message.content.resource
+                    ? `\`\`\`${this.languageFromMimeType(message.content.resource.mimeType)}\n${this.formatResourceContents([message.content.resource])}\n\`\`\``
+                    : '';
+            default:
+                return `[${message.content.type} content omitted]`;
+        }
     }
 
-    // ... Continue with all other necessary methods from original ChatViewProvider ...
-    // (For brevity, I'm showing the structure - the actual implementation would include all methods)
-
-    private async getContextFiles(fileReferences?: string[]): Promise<any[]> {
-        const contextFiles: any[] = [];
-        
-        if (fileReferences && fileReferences.length > 0) {
-            const workspaceFolders = vscode.workspace.workspaceFolders;
-            if (!workspaceFolders || workspaceFolders.length === 0) {
-                return contextFiles;
-            }
-
-            for (const ref of fileReferences) {
-                try {
-                    // Try to resolve relative paths
-                    let filePath = ref;
-                    if (!path.isAbsolute(ref)) {
-                        // Try to find the file in workspace folders
-                        for (const workspaceFolder of workspaceFolders) {
-                            const absolutePath = path.join(workspaceFolder.uri.fsPath, ref);
-                            if (fs.existsSync(absolutePath)) {
-                                filePath = absolutePath;
-                                break;
-                            }
-                        }
-                    }
+    private formatResourceContents(contents: MCPResourceContents[]): string {
+        return contents
+            .map(item => item.text !== undefined
+                ? item.text
+                : `[binary resource ${item.uri} (${item.mimeType || 'unknown type'}, ${Math.floor((item.blob?.length || 0) * 3 / 4)} bytes)]`)
+            .join('\n\n');
+    }
 
-                    const fileContent = await this._fileManager.getFileContent(filePath);
-                    if (fileContent) {
-                        const language = this.detectLanguageFromPath(filePath);
-                        contextFiles.push({
-                            path: filePath,
-                            content: fileContent,
-                            language: language,
-                            isIntelligentContext: false
-                        });
-                    }
-                } catch (error) {
-                    console.error(`Failed to get context for file: ${ref}`, error);
-                }
-            }
+    private languageFromMimeType(mimeType?: string): string {
+        if (!mimeType) {
+            return '';
         }
-        
-        return contextFiles;
+        const subtype = mimeType.split('/')[1]?.split(';')[0] || '';
+        return subtype.replace(/^x-/, '').replace(/\+.*$/, '').replace(/^plain$/, '');
     }
 
-    private async getIntelligentContext(userMessage: string, explicitFiles?: string[]): Promise<any[]> {
+    private async getIntelligentContext(userMessage: string, explicitFiles?: string[]): Promise<ContextCandidate[]> {
         try {
             // Use the advanced context retrieval engine with built-in intelligence
             const retrievalContext = await this._contextEngine.retrieveContext(userMessage, {
                 maxFileSize: 100000, // 100KB max per file
-                includeLanguages: ['typescript', 'javascript', 'json', 'markdown', 'python', 'java', 'cpp'],
-                excludePatterns: ['**/node_modules/**', '**/dist/**', '**/build/**']
+                includeLanguages: ['typescript', 'javascript', 'json', 'markdown', 'python', 'java', 'cpp']
             });
             
-            const intelligentFiles: any[] = [];
+            const intelligentFiles: ContextCandidate[] = [];
             
             for (const contextFile of retrievalContext.files) {
-                // Skip files that were explicitly referenced
-                if (explicitFiles && explicitFiles.includes(contextFile.path)) {
+                // Skip files that were explicitly referenced, and files the workspace never sends
+                if ((explicitFiles && explicitFiles.includes(contextFile.path)) || secretRedactor.isBlocked(contextFile.path)) {
                     continue;
                 }
                 
+                // Semantic matches send only the matched chunks, cut from the whole file so overlaps merge
+                const ranges = contextFile.isExcerpt
+                    ? contextFile.matchRanges
+                        .filter(range => range.startLine !== undefined && range.endLine !== undefined)
+                        .map(range => ({ startLine: range.startLine!, endLine: range.endLine! }))
+                    : undefined;
+                const content = ranges ? await this._fileManager.getFileContent(contextFile.path) : contextFile.content;
+                if (!content) {
+                    continue;
+                }
+
                 intelligentFiles.push({
                     path: contextFile.path,
-                    content: contextFile.content,
+                    content,
                     language: contextFile.language,
                     relevanceScore: contextFile.relevanceScore,
-                    isIntelligentContext: true
+                    ranges,
+                    symbols: getSymbols(contextFile),
+                    lastModified: workspaceIndex.getFile(contextFile.path)?.mtime
                 });
             }
             
@@ -1275,6 +1935,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             data: this._chatHistory,
             isLoading: this._isLoading
         });
+        this.sendSessionUsage();
     }
 
     private async sendSettings(): Promise<void> {
@@ -1320,6 +1981,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 toolsEnabled: this._toolsEnabled,
                 autoExecuteTools: this._autoExecuteTools,
                 agentModeEnabled: this._agentMode.getEnabled(),
+                agentDryRun: this._agentDryRun,
                 agentCapabilities: this._agentMode.getCapabilities(),
                 currentAgentPlan: this._agentMode.getCurrentPlan()
             }
@@ -1363,6 +2025,11 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
 
     private clearChat(): void {
         this._chatHistory = [];
+        this._lastPromptBudget = undefined;
+        if (this._currentSessionId) {
+            // Usage is kept: the tokens were spent even if the turns are gone
+            delete this._sessions.get(this._currentSessionId)?.historySummary;
+        }
         this.updateCurrentSession();
         this.sendChatHistory();
     }
@@ -1370,13 +2037,30 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     /**
      * Handle message in agent mode
      */
-    private async handleAgentModeMessage(message: string, contextFiles: any[], userMessage: ChatMessage): Promise<void> {
+    private async handleAgentModeMessage(message: string, contextFiles: ContextCandidate[], userMessage: ChatMessage): Promise<void> {
+        await this.runAgentInChat(
+            `🤖 **Agent Mode Activated**${this._agentDryRun ? ' · 🧪 Dry run' : ''}\n\nAnalyzing your request and creating execution plan...`,
+            () => this._agentMode.executeAgentRequest(message, contextFiles, {
+                dryRun: this._agentDryRun,
+                // Show what the plan was given on the user's message
+                onContextPacked: report => {
+                    userMessage.metadata = { ...userMessage.metadata, contextCount: report.included.length, contextReport: report };
+                    this.updateMessage(userMessage);
+                }
+            })
+        );
+    }
+
+    /**
+     * Show an agent run's plan and progress in a chat message, then its result
+     */
+    private async runAgentInChat(intro: string, run: () => Promise<string>): Promise<void> {
         try {
             // Show agent mode indicator
             const agentMessage: ChatMessage = {
                 id: this.generateId(),
                 role: 'assistant',
-                content: '🤖 **Agent Mode Activated**\n\nAnalyzing your request and creating execution plan...',
+                content: intro,
                 timestamp: Date.now(),
                 metadata: {
                     isAgentMode: true,
@@ -1386,9 +2070,19 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
             
             this._chatHistory.push(agentMessage);
             this.sendChatHistory();
+
+            // Show the plan, its progress and revisions while the agent works
+            this._agentMode.setProgressCallback(plan => {
+                agentMessage.content = this.formatAgentProgress(plan);
+                agentMessage.metadata = {
+                    isAgentMode: true,
+                    agentStatus: plan.status
+                };
+                this.updateMessage(agentMessage);
+            });
             
             // Execute in agent mode
-            const result = await this._agentMode.executeAgentRequest(message, contextFiles);
+            const result = await run();
             
             // Update with final result
             agentMessage.content = result;
@@ -1420,6 +2114,88 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         }
     }
 
+    private formatAgentProgress(plan: AgentPlan): string {
+        const statusIcons: Record<string, string> = {
+            pending: '⬜',
+            executing: '⏳',
+            completed: '✅',
+            failed: '❌',
+            skipped: '⏭️',
+            blocked: '⛔'
+        };
+
+        const stepNumber = (id: string) => plan.actions.findIndex(action => action.id === id) + 1;
+        const steps = plan.actions.map((action, i) => {
+            const after = action.dependsOn.length > 0 ? ` *(after ${action.dependsOn.map(stepNumber).join(', ')})*` : '';
+            return `${i + 1}. ${statusIcons[action.status]} ${action.description}${after}${action.error ? ` — ${action.error}` : ''}`;
+        }).join('\n');
+
+        // Steps in the same stage don't depend on each other and can run side by side
+        const levels = getExecutionLevels(plan.actions);
+        const graph = levels.some(level => level.length > 1)
+            ? levels.map(level => level.map(i => `${statusIcons[plan.actions[i].status]} ${i + 1}`).join(' ∥ ')).join(' → ')
+            : '';
+
+        const revisions = plan.history
+            .filter(revision => revision.decision !== 'plan' && revision.decision !== 'continue')
+            .map(revision => {
+                const changes = revision.actionsAdded || revision.actionsRemoved
+                    ? ` (+${revision.actionsAdded}/−${revision.actionsRemoved})`
+                    : '';
+                const when = revision.decision === 'resumed' ? 'Resumed' : `After step ${revision.iteration}: ${revision.decision}`;
+                return `- ${when}${changes}${revision.reason ? ` — ${revision.reason}` : ''}`;
+            }).join('\n');
+
+        return `🤖 **Agent Mode**${plan.dryRun ? ' · 🧪 Dry run' : ''} · ${plan.iteration}/${plan.limits.maxIterations} actions · ${plan.tokensUsed.toLocaleString()} planning tokens\n\n`
+            + `**Goal:** ${plan.goal}\n\n${steps}`
+            + (graph ? `\n\n**Execution graph:** ${graph}` : '')
+            + (revisions ? `\n\n**Plan revisions:**\n${revisions}` : '');
+    }
+
+    /**
+     * Show an approval card for an agent action or built-in tool call and wait for the user's answer
+     */
+    private requestApproval(card: {
+        id: string;
+        step?: number;
+        tool: string;
+        operation: string;
+        description: string;
+        reason: string;
+        preview: ActionPreview;
+        payload: any;
+    }): Promise<ApprovalResponse> {
+        if (!this._view) {
+            return Promise.resolve({ decision: 'skip' });
+        }
+
+        return new Promise(resolve => {
+            this._pendingApprovals.set(card.id, resolve);
+            this._view!.webview.postMessage({ type: 'agentApprovalRequest', data: card });
+        });
+    }
+
+    private resolveAgentApproval(id: string, decision: string, payload?: any): void {
+        const resolve = this._pendingApprovals.get(id);
+        if (!resolve) {
+            return;
+        }
+        this._pendingApprovals.delete(id);
+
+        if (decision === 'edit' && payload && typeof payload === 'object') {
+            resolve({ decision: 'edit', payload });
+        } else {
+            resolve({ decision: decision === 'approve' ? 'approve' : 'skip' });
+        }
+        this._view?.webview.postMessage({ type: 'agentApprovalResolved', id });
+    }
+
+    private skipPendingApprovals(): void {
+        for (const id of Array.from(this._pendingApprovals.keys())) {
+            this.resolveAgentApproval(id, 'skip');
+        }
+    }
+
     /**
      * Toggle agent mode
      */
@@ -1452,6 +2228,7 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
      */
     private stopAgentExecution(): void {
         this._agentMode.stopExecution();
+        this.skipPendingApprovals();
         
         const systemMessage: ChatMessage = {
             id: this.generateId(),
@@ -1558,12 +2335,10 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
                 .filter((arg: string) => arg);
         }
         
-        const newServer: any = {
-            name: server.name,
-            command: server.command,
-            args: processedArgs,
-            autoReconnect: true
-        };
+        // A URL in the command field means a remote server
+        const newServer: any = /^https?:\/\//i.test(server.command || '')
+            ? { name: server.name, url: server.command.trim(), autoReconnect: true }
+            : { name: server.name, command: server.command, args: processedArgs, autoReconnect: true };
         
         if (server.description) {
             newServer.description = server.description;
@@ -1666,6 +2441,289 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
         // Implementation
     }
 
+    /**
+     * Undo the file changes of one checkpoint, the latest one by default
+     */
+    public async undoCheckpoint(checkpointId?: string): Promise<void> {
+        const checkpoint = checkpointId
+            ? checkpointManager.getCheckpoint(checkpointId)
+            : checkpointManager.getCheckpoints().filter(c => c.source !== 'restore').pop();
+        if (!checkpoint) {
+            vscode.window.showInformationMessage('No AI file changes to undo.');
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Undo ${checkpoint.files.length} file ${checkpoint.files.length === 1 ? 'change' : 'changes'} from "${checkpoint.label}"?`,
+            { modal: true, detail: checkpoint.files.map(file => this.toWorkspaceRelative(file.filePath)).join('\n') },
+            'Undo'
+        );
+        if (confirm !== 'Undo') {
+            return;
+        }
+
+        this.reportCheckpointRestore(() => checkpointManager.undoCheckpoint(checkpoint.id), 'Undid');
+    }
+
+    /**
+     * Put the workspace back to how it was when a checkpoint began
+     */
+    public async restoreCheckpoint(checkpointId?: string): Promise<void> {
+        const checkpoint = checkpointId
+            ? checkpointManager.getCheckpoint(checkpointId)
+            : await this.pickCheckpoint('Restore the workspace to the start of...');
+        if (!checkpoint) {
+            return;
+        }
+
+        const confirm = await vscode.window.showWarningMessage(
+            `Restore every file changed since "${checkpoint.label}"?`,
+            { modal: true, detail: 'Later AI changes to those files are undone. The restore itself can be undone.' },
+            'Restore'
+        );
+        if (confirm !== 'Restore') {
+            return;
+        }
+
+        this.reportCheckpointRestore(() => checkpointManager.restoreToCheckpoint(checkpoint.id), 'Restored');
+    }
+
+    /**
+     * Open the changes between two checkpoints, or since one, as a diff document
+     */
+    public async showCheckpointDiff(fromId?: string, toId?: string): Promise<void> {
+        const from = fromId ? checkpointManager.getCheckpoint(fromId) : await this.pickCheckpoint('Compare from the start of...');
+        if (!from) {
+            return;
+        }
+
+        let to = toId ? checkpointManager.getCheckpoint(toId) : undefined;
+        if (!fromId) {
+            const later = checkpointManager.getCheckpoints().filter(c => c.createdAt > from.createdAt);
+            const choice = await vscode.window.showQuickPick(
+                [{ label: 'Current workspace', id: undefined as string | undefined }, ...later.reverse().map(c => this.toCheckpointItem(c))],
+                { placeHolder: '...to' }
+            );
+            if (!choice) {
+                return;
+            }
+            to = choice.id ? checkpointManager.getCheckpoint(choice.id) : undefined;
+        }
+
+        const diffs = checkpointManager.diffCheckpoints(from.id, to?.id);
+        if (diffs.length === 0) {
+            vscode.window.showInformationMessage('No file differences between these checkpoints.');
+            return;
+        }
+
+        const header = `# ${from.label} → ${to ? to.label : 'current workspace'}\n# ${diffs.length} ${diffs.length === 1 ? 'file' : 'files'} changed\n`;
+        const content = [header, ...diffs.map(d => `# ${d.status}: ${this.toWorkspaceRelative(d.filePath)}\n${d.diff}\n`)].join('\n');
+        const document = await vscode.workspace.openTextDocument({ content, language: 'diff' });
+        await vscode.window.showTextDocument(document, { preview: true });
+    }
+
+    private reportCheckpointRestore(restore: () => CheckpointRestoreResult, verb: string): void {
+        try {
+            const result = restore();
+            const count = result.restored.length + result.deleted.length;
+            const laterNote = result.laterChanges.length > 0
+                ? ` Later changes to ${result.laterChanges.map(f => this.toWorkspaceRelative(f)).join(', ')} were overwritten.`
+                : '';
+            vscode.window.showInformationMessage(`${verb} ${count} ${count === 1 ? 'file' : 'files'}.${laterNote}`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Checkpoint restore failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async pickCheckpoint(placeHolder: string): Promise<Checkpoint | undefined> {
+        const checkpoints = checkpointManager.getCheckpoints().reverse();
+        if (checkpoints.length === 0) {
+            vscode.window.showInformationMessage('No checkpoints yet. They are recorded when AI tools change files.');
+            return undefined;
+        }
+
+        const choice = await vscode.window.showQuickPick(checkpoints.map(c => this.toCheckpointItem(c)), { placeHolder });
+        return choice ? checkpointManager.getCheckpoint(choice.id) : undefined;
+    }
+
+    private toCheckpointItem(checkpoint: Checkpoint): vscode.QuickPickItem & { id: string } {
+        return {
+            id: checkpoint.id,
+            label: checkpoint.label,
+            description: new Date(checkpoint.createdAt).toLocaleString(),
+            detail: checkpoint.files.map(file => this.toWorkspaceRelative(file.filePath)).join(', ')
+        };
+    }
+
+    private toWorkspaceRelative(filePath: string): string {
+        return vscode.workspace.asRelativePath(filePath, false);
+    }
+
+    /**
+     * List recorded agent runs; resume, re-run, edit, export or delete one
+     */
+    public async showAgentRuns(): Promise<void> {
+        const runs = agentRunStore.getRuns();
+        if (runs.length === 0) {
+            vscode.window.showInformationMessage('No agent runs recorded in this workspace yet.');
+            return;
+        }
+
+        const icons: Record<AgentRunStatus, string> = {
+            running: '$(sync~spin)',
+            completed: '$(pass)',
+            failed: '$(error)',
+            stopped: '$(debug-stop)',
+            interrupted: '$(warning)'
+        };
+        const picked = await vscode.window.showQuickPick(runs.map(run => ({
+            label: `${icons[run.status]} ${run.request}`,
+            description: `${run.status} · ${run.plan.actions.filter(action => action.status === 'completed').length}/${run.plan.actions.length} steps`,
+            detail: `${new Date(run.createdAt).toLocaleString()} · ${run.plan.goal}`,
+            run
+        })), { placeHolder: 'Select an agent run', matchOnDescription: true });
+        if (!picked) {
+            return;
+        }
+
+        const run = picked.run;
+        const resumeIndex = getResumeIndex(run.plan);
+        const finished = run.status !== 'running';
+        const choices: (vscode.QuickPickItem & { choice: 'resume' | 'rerun' | 'edit' | 'export' | 'delete' })[] = [
+            ...(finished && resumeIndex !== -1
+                ? [{ label: '$(debug-continue) Resume', description: `from step ${resumeIndex + 1}: ${run.plan.actions[resumeIndex].description}`, choice: 'resume' as const }]
+                : []),
+            ...(finished
+                ? [
+                    { label: '$(debug-restart) Run Again from Step...', choice: 'rerun' as const },
+                    { label: '$(edit) Edit Plan and Run...', choice: 'edit' as const }
+                ]
+                : []),
+            { label: '$(export) Export Run Report...', choice: 'export' },
+            ...(finished ? [{ label: '$(trash) Delete Run', choice: 'delete' as const }] : [])
+        ];
+
+        const action = await vscode.window.showQuickPick(choices, { placeHolder: run.request });
+        switch (action?.choice) {
+            case 'resume':
+                await this.resumeAgentRun(run, {});
+                break;
+            case 'rerun': {
+                const step = await vscode.window.showQuickPick(run.plan.actions.map((a, i) => ({
+                    label: `${i + 1}. ${a.description}`,
+                    description: a.status,
+                    step: i + 1
+                })), { placeHolder: 'Run this step and every later one again' });
+                if (step) {
+                    await this.resumeAgentRun(run, { fromStep: step.step });
+                }
+                break;
+            }
+            case 'edit':
+                await this.editAgentRun(run);
+                break;
+            case 'export':
+                await this.exportAgentRunReport(run);
+                break;
+            case 'delete':
+                agentRunStore.delete(run.id);
+                break;
+        }
+    }
+
+    private async resumeAgentRun(run: AgentRunRecord, options: AgentResumeOptions): Promise<void> {
+        if (this._agentMode.getCurrentPlan()?.status === 'executing') {
+            vscode.window.showWarningMessage('An agent run is already in progress. Stop it before resuming another.');
+            return;
+        }
+        if (!this._agentMode.getEnabled()) {
+            this.toggleAgentMode(true);
+        }
+
+        await vscode.commands.executeCommand('workbench.view.extension.cuovare');
+        await this.runAgentInChat(
+            `🤖 **Resuming Agent Run**\n\n${run.request}`,
+            () => this._agentMode.resumeRun(run.id, options)
+        );
+    }
+
+    /**
+     * Open the run's plan as JSON; once edited, run it with completed steps kept
+     */
+    private async editAgentRun(run: AgentRunRecord): Promise<void> {
+        const editable = {
+            goal: run.plan.goal,
+            actions: run.plan.actions.map(action => ({
+                id: action.id,
+                type: action.type,
+                description: action.description,
+                payload: action.payload,
+                dependsOn: action.dependsOn,
+                status: action.status === 'completed' ? 'completed' : 'pending',
+                ...(action.status === 'completed' ? { result: action.result } : {})
+            }))
+        };
+        const document = await vscode.workspace.openTextDocument({ content: JSON.stringify(editable, null, 2), language: 'json' });
+        await vscode.window.showTextDocument(document);
+
+        const choice = await vscode.window.showInformationMessage(
+            'Edit the plan, then run it. Steps with "status": "completed" keep their result; every other step runs.',
+            'Run Edited Plan'
+        );
+        if (choice !== 'Run Edited Plan') {
+            return;
+        }
+
+        let edited: { goal?: string; actions?: any[] };
+        try {
+            edited = JSON.parse(document.getText());
+        } catch (error) {
+            vscode.window.showErrorMessage(`The edited plan is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            return;
+        }
+        if (!Array.isArray(edited.actions) || edited.actions.length === 0) {
+            vscode.window.showErrorMessage('The edited plan needs a non-empty "actions" array.');
+            return;
+        }
+
+        await this.resumeAgentRun(run, { goal: edited.goal, actions: edited.actions });
+    }
+
+    private async exportAgentRunReport(run: AgentRunRecord): Promise<void> {
+        const folder = vscode.workspace.workspaceFolders?.[0]?.uri;
+        const date = new Date(run.createdAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder, `agent-run-${date}.md`) : undefined,
+            filters: { Markdown: ['md'] }
+        });
+        if (!target) {
+            return;
+        }
+
+        const report = createRunReport(run, filePath => this.toWorkspaceRelative(filePath));
+        await vscode.workspace.fs.writeFile(target, Buffer.from(report, 'utf8'));
+        await vscode.window.showTextDocument(target, { preview: true });
+    }
+
+    /**
+     * Tell the webview which chat turns changed files, for their undo buttons
+     */
+    private sendCheckpoints(): void {
+        const checkpoints = checkpointManager.getCheckpoints();
+        this._view?.webview.postMessage({
+            type: 'checkpoints',
+            data: checkpoints
+                .map((checkpoint, index) => ({
+                    id: checkpoint.id,
+                    nextId: checkpoints[index + 1]?.id, // A turn's own changes end where the next checkpoint begins
+                    groupId: checkpoint.groupId,
+                    label: checkpoint.label,
+                    files: checkpoint.files.map(file => this.toWorkspaceRelative(file.filePath))
+                }))
+                .filter(checkpoint => checkpoint.groupId)
+        });
+    }
+
     private async generateCommitMessage(): Promise<void> {
         try {
             this._isLoading = true;
@@ -1718,59 +2776,31 @@ export class ChatViewProvider implements vscode.WebviewViewProvider {
     }
 
     private async getGitChanges(): Promise<{ hasChanges: boolean; status: string; diff: string; files: string[] }> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            throw new Error('No workspace folder found');
-        }
+        const git = new GitBackend(this.getGitWorkspaceRoot());
 
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
-        const { spawn } = require('child_process');
-
-        // Get git status
-        const status = await this.runGitCommand(workspaceRoot, ['status', '--porcelain']);
-        const hasChanges = status.trim().length > 0;
-        
-        if (!hasChanges) {
+        const status = await git.status();
+        if (status.clean) {
             return { hasChanges: false, status: '', diff: '', files: [] };
         }
 
         // Get git diff for staged and unstaged changes
-        const diffStaged = await this.runGitCommand(workspaceRoot, ['diff', '--staged']);
-        const diffUnstaged = await this.runGitCommand(workspaceRoot, ['diff']);
-        const diff = diffStaged + '\n' + diffUnstaged;
+        const diffStaged = await git.diff({ staged: true });
+        const diffUnstaged = await git.diff();
+        const diff = diffStaged.patch + '\n' + diffUnstaged.patch;
 
-        // Parse changed files
-        const files = status.split('\n')
-            .filter(line => line.trim())
-            .map(line => line.substring(3)); // Remove status indicators
+        const statusText = status.files
+            .map(file => `${file.index}${file.worktree} ${file.originalPath ? `${file.originalPath} -> ` : ''}${file.path}`)
+            .join('\n');
 
-        return { hasChanges: true, status, diff, files };
+        return { hasChanges: true, status: statusText, diff, files: status.files.map(file => file.path) };
     }
 
-    private async runGitCommand(cwd: string, args: string[]): Promise<string> {
-        const { spawn } = require('child_process');
-        
-        return new Promise((resolve, reject) => {
-            const git = spawn('git', args, { cwd });
-            let stdout = '';
-            let stderr = '';
-
-            git.stdout.on('data', (data: Buffer) => {
-                stdout += data.toString();
-            });
-
-            git.stderr.on('data', (data: Buffer) => {
-                stderr += data.toString();
-            });
-
-            git.on('close', (code: number) => {
-                if (code === 0) {
-                    resolve(stdout);
-                } else {
-                    reject(new Error(stderr || `Git command failed with code ${code}`));
-                }
-            });
-        });
+    private getGitWorkspaceRoot(): string {
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (!workspaceFolders || workspaceFolders.length === 0) {
+            throw new Error('No workspace folder found');
+        }
+        return workspaceFolders[0].uri.fsPath;
     }
 
     private async generateAICommitMessage(gitInfo: { status: string; diff: string; files: string[] }): Promise<string> {
@@ -1814,21 +2844,16 @@ Return only the commit message, nothing else.`;
     }
 
     private async commitWithMessage(message: string): Promise<void> {
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders || workspaceFolders.length === 0) {
-            throw new Error('No workspace folder found');
-        }
-
-        const workspaceRoot = workspaceFolders[0].uri.fsPath;
+        const git = new GitBackend(this.getGitWorkspaceRoot());
         
         try {
             // Add all changes
-            await this.runGitCommand(workspaceRoot, ['add', '.']);
+            await git.add(['.']);
             
             // Commit with the generated message
-            await this.runGitCommand(workspaceRoot, ['commit', '-m', message]);
+            const commit = await git.commit(message);
             
-            vscode.window.showInformationMessage(`Successfully committed: "${message}"`);
+            vscode.window.showInformationMessage(`Successfully committed ${commit.shortHash}: "${commit.subject}"`);
         } catch (error) {
             throw new Error(`Failed to commit: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
@@ -1991,6 +3016,13 @@ Return only the commit message, nothing else.`;
                         <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z"/>
                     </svg>
                 </button>
+                <button id="agentDryRunToggle"
+                    class="hidden items-center justify-center w-7 h-7 rounded-md text-slate-400 hover:text-amber-400 hover:bg-amber-500/10 transition-all duration-200"
+                    title="Dry Run: OFF - Click to preview changes without applying them">
+                    <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M19.428 15.428a2 2 0 00-1.022-.547l-2.387-.477a6 6 0 00-3.86.517l-.318.158a6 6 0 01-3.86.517L6.05 15.21a2 2 0 00-1.806.547M8 4h8l-1 1v5.172a2 2 0 00.586 1.414l5 5c1.26 1.26.367 3.414-1.415 3.414H4.828c-1.782 0-2.674-2.154-1.414-3.414l5-5A2 2 0 009 10.172V5L8 4z"/>
+                    </svg>
+                </button>
                 <button id="generateCommitBtn"
                     class="flex items-center justify-center w-7 h-7 rounded-md text-slate-400 hover:text-slate-200 hover:bg-slate-800/80 transition-all duration-200"
                     title="Generate Commit Message">
@@ -2022,8 +3054,17 @@ Return only the commit message, nothing else.`;
                         <div class="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse" style="animation-delay: 300ms"></div>
                     </div>
                     <span class="text-xs">Thinking...</span>
+                    <button id="stopBtn" class="ml-2 px-2 py-0.5 text-xs rounded border border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors" title="Stop generating">
+                        Stop
+                    </button>
                 </div>
             </div>
+
+            <!-- Tool Progress -->
+            <div id="toolProgress" class="hidden px-3 pb-2 space-y-1"></div>
+
+            <!-- Agent actions waiting for approval -->
+            <div id="agentApprovals" class="hidden px-3 pb-2 space-y-2"></div>
         </main>
 
         <!-- Input Container -->
@@ -2038,6 +3079,12 @@ Return only the commit message, nothing else.`;
                 </div>
             </div>
 
+            <!-- Session Usage -->
+            <div id="sessionUsage" class="hidden mb-1 flex items-center justify-between gap-2 text-xs text-slate-500">
+                <span id="sessionUsageTokens"></span>
+                <span id="sessionUsageContext"></span>
+            </div>
+
             <!-- File References -->
             <div id="fileReferences" class="hidden mb-2">
                 <div class="flex items-center gap-1 mb-1">
@@ -2049,6 +3096,17 @@ Return only the commit message, nothing else.`;
                 <div class="flex flex-wrap gap-1" id="fileReferencesList"></div>
             </div>
 
+            <!-- Attached MCP Resources -->
+            <div id="attachedResources" class="hidden mb-2">
+                <div class="flex items-center gap-1 mb-1">
+                    <svg class="w-3 h-3 text-slate-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"/>
+                    </svg>
+                    <span class="text-xs font-medium text-slate-400">Resources:</span>
+                </div>
+                <div class="flex flex-wrap gap-1" id="attachedResourcesList"></div>
+            </div>
+
             <!-- Input Area -->
             <div class="relative">
                 <div class="relative flex gap-2">
@@ -2069,6 +3127,14 @@ Return only the commit message, nothing else.`;
                         </div>
                     </div>
 
+                    <button id="mcpCatalogBtn"
+                        class="flex-shrink-0 flex items-center justify-center w-9 h-9 bg-slate-800/80 hover:bg-slate-700 border border-slate-700/50 rounded-lg transition-all duration-200"
+                        title="MCP resources and prompts">
+                        <svg class="w-4 h-4 text-slate-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"/>
+                        </svg>
+                    </button>
+
                     <button id="sendBtn"
                         class="flex-shrink-0 flex items-center justify-center w-9 h-9 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 disabled:from-slate-700 disabled:to-slate-700 disabled:cursor-not-allowed rounded-lg transition-all duration-200 group"
                         disabled>
@@ -2563,10 +3629,11 @@ Return only the commit message, nothing else.`;
                     </div>
 
                     <div class="space-y-1">
-                        <label for="serverCommand" class="block text-xs font-medium text-slate-300">Command</label>
+                        <label for="serverCommand" class="block text-xs font-medium text-slate-300">Command or URL</label>
                         <input id="serverCommand"
                             class="w-full bg-slate-800/80 border border-slate-700/50 text-slate-100 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-green-500/50 focus:border-green-500/50 transition-all font-mono"
-                            placeholder="e.g., npx" />
+                            placeholder="e.g., npx or https://example.com/mcp" />
+                        <p class="text-xs text-slate-500">Remote servers connect over Streamable HTTP, falling back to SSE</p>
                     </div>
 
                     <div class="space-y-1">
@@ -2598,6 +3665,42 @@ Return only the commit message, nothing else.`;
                 </div>
             </div>
         </div>
+
+        <!-- MCP Catalog Modal -->
+        <div id="mcpCatalogModal" class="hidden fixed inset-0 bg-slate-950/90 backdrop-blur-sm flex items-center justify-center z-[60] p-4">
+            <div class="bg-slate-900/95 backdrop-blur-sm border border-slate-700/50 rounded-lg shadow-2xl w-full max-w-sm max-h-full flex flex-col">
+                <!-- Header -->
+                <div class="flex items-center justify-between p-4 border-b border-slate-800/50">
+                    <div>
+                        <h3 class="text-base font-semibold text-slate-100">MCP Resources &amp; Prompts</h3>
+                        <p class="text-xs text-slate-400">Attach server data or start from a prompt template</p>
+                    </div>
+                    <button id="closeMCPCatalog" class="p-1 text-slate-400 hover:text-slate-100 rounded transition-colors" title="Close">×</button>
+                </div>
+
+                <!-- Content -->
+                <div class="p-4 space-y-4 overflow-y-auto">
+                    <div>
+                        <h4 class="text-xs font-semibold text-slate-300 mb-2">Resources</h4>
+                        <div id="mcpResourcesList" class="space-y-1"></div>
+                    </div>
+                    <div>
+                        <h4 class="text-xs font-semibold text-slate-300 mb-2">Prompts</h4>
+                        <div id="mcpPromptsList" class="space-y-1"></div>
+                    </div>
+                    <div id="mcpPromptForm" class="hidden space-y-2 border-t border-slate-800/50 pt-3">
+                        <h4 id="mcpPromptFormTitle" class="text-xs font-semibold text-slate-300"></h4>
+                        <div id="mcpPromptArguments" class="space-y-2"></div>
+                        <div class="flex justify-end">
+                            <button id="useMCPPromptBtn"
+                                class="px-4 py-1.5 bg-gradient-to-r from-green-600 to-emerald-700 hover:from-green-700 hover:to-emerald-800 text-white rounded-md transition-all duration-200 text-sm">
+                                Use Prompt
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
     </div>
 
     <script>
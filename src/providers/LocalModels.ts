@@ -0,0 +1,67 @@
+import axios from 'axios';
+
+/**
+ * Model discovery and tool-capability probes for local endpoints: Ollama's
+ * native API and OpenAI-compatible servers (LM Studio, llama.cpp, vLLM).
+ * `rootUrl` is the endpoint's base URL without a trailing slash.
+ */
+
+const LOCAL_REQUEST_TIMEOUT = 10000;
+
+const TOOL_PROBE_DEFINITION = {
+    type: 'function',
+    function: {
+        name: 'noop',
+        description: 'Capability probe; call it with no arguments',
+        parameters: { type: 'object', properties: {} }
+    }
+};
+
+// Enough for a short tool call; a reply cut off before one counts as no support
+const TOOL_PROBE_MAX_TOKENS = 64;
+
+export async function discoverOllamaModels(rootUrl: string): Promise<string[]> {
+    const response = await axios.get(`${rootUrl}/api/tags`, { timeout: LOCAL_REQUEST_TIMEOUT });
+    return (response.data?.models || []).map((model: any) => model.name || model.model).filter(Boolean);
+}
+
+export async function probeOllamaToolSupport(rootUrl: string, model: string): Promise<boolean> {
+    const response = await axios.post(`${rootUrl}/api/show`, { model, name: model }, { timeout: LOCAL_REQUEST_TIMEOUT });
+    const capabilities: string[] | undefined = response.data?.capabilities;
+    if (Array.isArray(capabilities)) {
+        return capabilities.includes('tools');
+    }
+    // Older Ollama builds do not report capabilities; tool-aware templates reference .Tools
+    return typeof response.data?.template === 'string' && response.data.template.includes('.Tools');
+}
+
+export async function discoverOpenAICompatibleModels(rootUrl: string, headers: Record<string, string>): Promise<string[]> {
+    const response = await axios.get(`${rootUrl}/models`, { headers, timeout: LOCAL_REQUEST_TIMEOUT });
+    return (response.data?.data || []).map((model: any) => model.id).filter(Boolean);
+}
+
+/**
+ * Ask the model for a forced call to a no-op tool. Servers without tool
+ * support either reject the request (usually 400) or ignore `tools` and
+ * answer in text, so only a reply that actually carries the call counts.
+ */
+export async function probeOpenAICompatibleToolSupport(rootUrl: string, model: string, headers: Record<string, string>): Promise<boolean> {
+    try {
+        const response = await axios.post(`${rootUrl}/chat/completions`, {
+            model,
+            messages: [{ role: 'user', content: 'Call the noop tool.' }],
+            tools: [TOOL_PROBE_DEFINITION],
+            tool_choice: { type: 'function', function: { name: TOOL_PROBE_DEFINITION.function.name } },
+            max_tokens: TOOL_PROBE_MAX_TOKENS,
+            stream: false
+        }, { headers, timeout: LOCAL_REQUEST_TIMEOUT });
+
+        const toolCalls = response.data?.choices?.[0]?.message?.tool_calls;
+        return Array.isArray(toolCalls) && toolCalls.length > 0;
+    } catch (error) {
+        if (axios.isAxiosError(error) && error.response && error.response.status < 500) {
+            return false;
+        }
+        throw error;
+    }
+}
@@ -0,0 +1,233 @@
+import { Message, ToolCall } from './AIProviderManager';
+
+/**
+ * Retry and fallback helpers for AIProviderManager: what to retry, how long
+ * to wait, and how to carry a transcript across providers.
+ */
+
+export interface RetryPolicy {
+    maxRetries: number;
+    initialDelayMs: number;
+    maxDelayMs: number;
+    requestTimeoutMs: number;
+}
+
+export interface FallbackChainEntry {
+    provider: string;
+    model?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxRetries: 2,
+    initialDelayMs: 1000,
+    maxDelayMs: 30000,
+    requestTimeoutMs: 120000
+};
+
+// 408 Request Timeout, 409 (transient lock on some gateways), 429 rate limit,
+// 5xx server errors and Anthropic's 529 "overloaded"
+const RETRYABLE_STATUSES = new Set([408, 409, 429, 500, 502, 503, 504, 529]);
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'EPIPE', 'EAI_AGAIN']);
+
+// Errors that won't improve by waiting but may well succeed on another provider
+const FALLBACK_NETWORK_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH']);
+
+// Anthropic's error types, which arrive mid-stream without an HTTP status, by the status they stand for
+const STREAM_ERROR_STATUSES: Record<string, number> = {
+    invalid_request_error: 400,
+    authentication_error: 401,
+    permission_error: 403,
+    not_found_error: 404,
+    request_too_large: 413,
+    rate_limit_error: 429,
+    api_error: 500,
+    overloaded_error: 529
+};
+
+export function isRetryableStatus(status?: number): boolean {
+    return status !== undefined && RETRYABLE_STATUSES.has(status);
+}
+
+export function isRetryableNetworkCode(code?: string): boolean {
+    return code !== undefined && RETRYABLE_NETWORK_CODES.has(code);
+}
+
+export function isFallbackNetworkCode(code?: string): boolean {
+    return code !== undefined && FALLBACK_NETWORK_CODES.has(code);
+}
+
+/**
+ * The HTTP status an error event sent in the middle of a stream stands for
+ */
+export function getStreamErrorStatus(error: { type?: string; code?: unknown } | undefined): number | undefined {
+    if (typeof error?.code === 'number') {
+        return error.code;
+    }
+    return error?.type ? STREAM_ERROR_STATUSES[error.type] : undefined;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+
+    const date = Date.parse(trimmed);
+    if (!isNaN(date)) {
+        return Math.max(0, date - now);
+    }
+
+    return undefined;
+}
+
+/**
+ * The server's retry hint from response headers: OpenAI's millisecond
+ * `retry-after-ms` when it holds a number, else the standard `retry-after`
+ */
+export function getRetryAfterMs(headers: Record<string, unknown>, now: number = Date.now()): number | undefined {
+    const milliseconds = typeof headers['retry-after-ms'] === 'string' && headers['retry-after-ms'].trim()
+        ? Number(headers['retry-after-ms'])
+        : NaN;
+    if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+        return milliseconds;
+    }
+    return parseRetryAfter(typeof headers['retry-after'] === 'string' ? headers['retry-after'] : undefined, now);
+}
+
+/**
+ * Wait out a retry delay. Resolves `false` straight away if `signal` is or
+ * becomes aborted, so a cancelled request is not sent again.
+ */
+export function waitForRetry(delayMs: number, signal?: AbortSignal): Promise<boolean> {
+    if (signal?.aborted) {
+        return Promise.resolve(false);
+    }
+    return new Promise(resolve => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            resolve(false);
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve(true);
+        }, delayMs);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Exponential backoff with full jitter. A server-provided Retry-After wins
+ * over the computed delay but is still capped by the policy maximum.
+ */
+export function computeBackoffDelay(
+    attempt: number,
+    policy: RetryPolicy,
+    retryAfterMs?: number,
+    random: () => number = Math.random
+): number {
+    if (retryAfterMs !== undefined) {
+        return Math.min(retryAfterMs, policy.maxDelayMs);
+    }
+
+    const ceiling = Math.min(policy.maxDelayMs, policy.initialDelayMs * Math.pow(2, attempt));
+    return Math.round(ceiling / 2 + random() * ceiling / 2);
+}
+
+/**
+ * Normalize user configuration into chain entries. Accepts either plain
+ * provider ids or `{ provider, model }` objects.
+ */
+export function normalizeFallbackChain(raw: unknown): FallbackChainEntry[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+
+    return raw
+        .map(entry => typeof entry === 'string' ? { provider: entry } : entry)
+        .filter(isFallbackChainEntry)
+        .map(entry => ({ provider: entry.provider, ...(entry.model && { model: entry.model }) }));
+}
+
+function isFallbackChainEntry(entry: unknown): entry is FallbackChainEntry {
+    return typeof entry === 'object' && entry !== null
+        && 'provider' in entry && typeof entry.provider === 'string' && entry.provider.length > 0;
+}
+
+/**
+ * Carry a transcript from one provider's conventions to another's.
+ *
+ * The internal Message shape is provider-neutral, but providers leave
+ * different fingerprints in it: Gemini tool calls have synthetic ids and its
+ * tool results have no tool_call_id, Ollama passes arguments as objects, and
+ * a fallback model may not accept native tools at all. With `nativeTools`
+ * the tool call/result pairing is repaired; without it tool traffic is
+ * flattened into plain text the model can still read.
+ */
+export function translateTranscript(messages: Message[], options: { nativeTools: boolean }): Message[] {
+    const translated: Message[] = [];
+    let openCalls: ToolCall[] = [];
+    let callCounter = 0;
+
+    for (const message of messages) {
+        if (message.role === 'assistant' && message.tool_calls && message.tool_calls.length > 0) {
+            const calls = message.tool_calls.map(call => ({
+                id: call.id || `call_${callCounter++}`,
+                type: 'function' as const,
+                function: {
+                    name: call.function.name,
+                    arguments: typeof call.function.arguments === 'string'
+                        ? call.function.arguments
+                        : JSON.stringify(call.function.arguments ?? {})
+                }
+            }));
+
+            if (options.nativeTools) {
+                translated.push({ ...message, tool_calls: calls });
+                openCalls = [...calls];
+            } else {
+                const callText = calls.map(call => `[Called tool "${call.function.name}" with arguments ${call.function.arguments}]`).join('\n');
+                translated.push({
+                    role: 'assistant',
+                    content: message.content ? `${message.content}\n${callText}` : callText
+                });
+                openCalls = [];
+            }
+            continue;
+        }
+
+        if (message.role === 'tool') {
+            const matchIndex = openCalls.findIndex(call =>
+                message.tool_call_id ? call.id === message.tool_call_id : call.function.name === message.name
+            );
+
+            if (options.nativeTools && matchIndex !== -1) {
+                const [call] = openCalls.splice(matchIndex, 1);
+                translated.push({
+                    ...message,
+                    tool_call_id: call.id,
+                    name: message.name || call.function.name
+                });
+            } else {
+                // Orphaned results (or no native tools) become readable context
+                translated.push({
+                    role: 'user',
+                    content: `Tool "${message.name || 'unknown'}" returned: ${message.content}`
+                });
+            }
+            continue;
+        }
+
+        openCalls = [];
+        translated.push(message);
+    }
+
+    return translated;
+}
@@ -0,0 +1,324 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Message } from './AIProviderManager';
+import { fileEnumerator } from '../context/FileEnumerator';
+import { matchesGlob } from '../context/WorkspaceIndex';
+
+/**
+ * Secret redaction for everything sent to a model provider, with an audit log
+ * of redaction counts and a blocklist of paths tools may not touch.
+ */
+
+export interface RedactionPolicy {
+    enabled: boolean;
+    customPatterns: string[]; // Regular expressions; the first capture group is redacted when there is one
+    entropyThreshold: number; // Bits per character a token needs to count as a secret; 0 turns the scan off
+    blockedPaths: string[]; // Globs relative to a workspace folder
+    redactLocalProviders: boolean; // Also redact requests to providers on this machine
+}
+
+export const DEFAULT_REDACTION_POLICY: RedactionPolicy = {
+    enabled: true,
+    customPatterns: [],
+    entropyThreshold: 4,
+    blockedPaths: ['**/.env', '**/.env.local', '**/*.pem', '**/*.key', '**/id_rsa', '**/id_ed25519'],
+    redactLocalProviders: false
+};
+
+export interface RedactionFinding {
+    kind: string; // e.g. 'AWS_ACCESS_KEY', 'HIGH_ENTROPY', 'CUSTOM'
+    placeholder: string;
+}
+
+export interface RedactionResult {
+    text: string;
+    findings: RedactionFinding[];
+}
+
+export interface RedactionAuditEntry {
+    timestamp: string;
+    provider: string;
+    model: string;
+    redactions: Record<string, number>; // Occurrences by kind
+}
+
+interface Detector {
+    kind: string;
+    pattern: RegExp; // Global; the `secret` group, or else the whole match, is redacted
+}
+
+const AUDIT_FILE = 'redaction-log.jsonl';
+// Entries kept in memory for the log view
+const MAX_RECENT_ENTRIES = 200;
+const MIN_ENTROPY_TOKEN = 24;
+const MAX_ENTROPY_TOKEN = 512;
+// Random strings change between upper case, lower case and digits far more often than identifiers do
+const MIN_CLASS_CHANGES = 0.3;
+
+const SECRET_NAME = '(?:password|passwd|pwd|secret|token|api[_-]?key|apikey|access[_-]?key|private[_-]?key|client[_-]?secret|credentials?)';
+
+const DETECTORS: Detector[] = [
+    { kind: 'PRIVATE_KEY', pattern: /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g },
+    { kind: 'AWS_ACCESS_KEY', pattern: /\b(?:AKIA|ASIA)[A-Z0-9]{16}\b/g },
+    { kind: 'AWS_SECRET_KEY', pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?(?<secret>[A-Za-z0-9/+=]{40})\b/gi },
+    { kind: 'GITHUB_TOKEN', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{60,})\b/g },
+    { kind: 'SLACK_TOKEN', pattern: /\bxox[baprs]-[A-Za-z0-9-]{10,}\b/g },
+    { kind: 'STRIPE_KEY', pattern: /\b[sr]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+    { kind: 'GOOGLE_API_KEY', pattern: /\bAIza[A-Za-z0-9_-]{35}\b/g },
+    { kind: 'API_KEY', pattern: /\bsk-(?:ant-|proj-)?[A-Za-z0-9_-]{20,}\b/g },
+    { kind: 'JWT', pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/g },
+    { kind: 'PASSWORD', pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]{3,})@/gi },
+    // `DB_PASSWORD=...` lines in .env files and shell scripts
+    {
+        kind: 'SECRET',
+        pattern: /^[ \t]*(?:export[ \t]+)?[A-Z0-9_]*(?:PASSWORD|SECRET|TOKEN|API_?KEY|ACCESS_KEY|PRIVATE_KEY|CREDENTIAL)[A-Z0-9_]*[ \t]*=[ \t]*(["']?)(?<secret>[^\s"'#]{6,})\1/gm
+    },
+    // `password: "..."`, `"apiKey": "..."`, `client_secret = '...'`
+    { kind: 'SECRET', pattern: new RegExp(`\\w*${SECRET_NAME}["']?\\s*[:=]\\s*["'](?<secret>[^"'\\s]{8,})["']`, 'gi') }
+];
+
+// Values that only stand in for a secret
+const PLACEHOLDER_VALUE = /^(?:\$\{.*\}|\$\(.*\)|\$[A-Z_]+|<.*>|\{\{.*\}\}|%.*%|x+|\*+|\.+|(?:your|my|example|sample|dummy|fake|test)[_-].*|changeme|placeholder|redacted|none|null|undefined|process\.env\..*)$/i;
+const REDACTED = /\[REDACTED_[A-Z_]+_\d+\]/g;
+const ENTROPY_TOKEN = /[A-Za-z0-9+/=_-]+/g;
+
+export class SecretRedactor {
+    private policy: RedactionPolicy = { ...DEFAULT_REDACTION_POLICY };
+    private customDetectors: Detector[] = [];
+    private placeholders = new Map<string, string>();
+    private counters = new Map<string, number>();
+    private storageDir?: string;
+    private recent: RedactionAuditEntry[] = [];
+
+    public onDidRedact?: (entry: RedactionAuditEntry) => void;
+
+    /**
+     * Apply the workspace's policy; the audit log is kept under `storageDir`,
+     * or only in memory without one. Invalid custom patterns are skipped.
+     */
+    public configure(policy: Partial<RedactionPolicy>, storageDir?: string): string[] {
+        this.policy = { ...DEFAULT_REDACTION_POLICY, ...policy };
+        this.storageDir = storageDir;
+
+        const invalid: string[] = [];
+        this.customDetectors = [];
+        for (const source of this.policy.customPatterns) {
+            try {
+                this.customDetectors.push({ kind: 'CUSTOM', pattern: new RegExp(source, 'g') });
+            } catch {
+                invalid.push(source);
+            }
+        }
+        return invalid;
+    }
+
+    public getPolicy(): RedactionPolicy {
+        return { ...this.policy };
+    }
+
+    /**
+     * Whether requests to a provider at `baseUrl` are redacted. Providers on
+     * this machine get the original text unless the policy says otherwise.
+     */
+    public appliesTo(baseUrl: string): boolean {
+        return this.policy.enabled && (this.policy.redactLocalProviders || !isLoopbackUrl(baseUrl));
+    }
+
+    /**
+     * Whether the policy blocks a file from ever being sent, which holds
+     * even with redaction turned off. Files outside the workspace folders are
+     * matched by their absolute path.
+     */
+    public isBlocked(filePath: string): boolean {
+        if (this.policy.blockedPaths.length === 0) {
+            return false;
+        }
+        const absolute = path.resolve(filePath);
+        const root = fileEnumerator.getRoot(absolute);
+        return matchesGlob(root ? path.relative(root.path, absolute) : absolute, this.policy.blockedPaths);
+    }
+
+    public redact(text: string): RedactionResult {
+        if (!text) {
+            return { text, findings: [] };
+        }
+
+        const ranges = this.findSecrets(text);
+        const findings: RedactionFinding[] = [];
+        let result = '';
+        let last = 0;
+        for (const range of ranges) {
+            const placeholder = this.getPlaceholder(range.kind, text.slice(range.start, range.end));
+            findings.push({ kind: range.kind, placeholder });
+            result += text.slice(last, range.start) + placeholder;
+            last = range.end;
+        }
+        return { text: result + text.slice(last), findings };
+    }
+
+    /**
+     * Copies of `messages` with secrets redacted from their content and from
+     * the arguments of the tool calls they carry
+     */
+    public redactMessages(messages: Message[]): { messages: Message[]; findings: RedactionFinding[] } {
+        const findings: RedactionFinding[] = [];
+        const redactText = (text: string) => {
+            const result = this.redact(text);
+            findings.push(...result.findings);
+            return result.text;
+        };
+
+        const redacted = messages.map(message => ({
+            ...message,
+            content: redactText(message.content),
+            ...(message.tool_calls && {
+                tool_calls: message.tool_calls.map(call => ({
+                    ...call,
+                    function: { ...call.function, arguments: redactText(call.function.arguments) }
+                }))
+            })
+        }));
+        return { messages: redacted, findings };
+    }
+
+    /**
+     * Record that a request to `provider` had secrets redacted
+     */
+    public record(provider: string, model: string, findings: RedactionFinding[]): RedactionAuditEntry {
+        const redactions: Record<string, number> = {};
+        for (const finding of findings) {
+            redactions[finding.kind] = (redactions[finding.kind] ?? 0) + 1;
+        }
+        const entry: RedactionAuditEntry = { timestamp: new Date().toISOString(), provider, model, redactions };
+
+        this.recent = [...this.recent, entry].slice(-MAX_RECENT_ENTRIES);
+        if (this.storageDir) {
+            try {
+                fs.mkdirSync(this.storageDir, { recursive: true });
+                fs.appendFileSync(path.join(this.storageDir, AUDIT_FILE), `${JSON.stringify(entry)}\n`);
+            } catch (error) {
+                console.warn('[SecretRedactor] Failed to write the redaction log:', error);
+            }
+        }
+        this.onDidRedact?.(entry);
+        return entry;
+    }
+
+    /**
+     * The most recent audit entries, oldest first
+     */
+    public getAuditLog(limit = MAX_RECENT_ENTRIES): RedactionAuditEntry[] {
+        let entries = this.recent;
+        if (this.storageDir) {
+            try {
+                entries = fs.readFileSync(path.join(this.storageDir, AUDIT_FILE), 'utf8')
+                    .split('\n')
+                    .filter(Boolean)
+                    .map(line => JSON.parse(line) as RedactionAuditEntry);
+            } catch {
+                // No log written yet, or an unreadable one
+            }
+        }
+        return entries.slice(-limit);
+    }
+
+    /**
+     * Non-overlapping secret ranges, in order. Earlier detectors win over
+     * later ones and the entropy scan; existing placeholders are left alone.
+     */
+    private findSecrets(text: string): { start: number; end: number; kind: string }[] {
+        const ranges: { start: number; end: number; kind?: string }[] = [];
+        const overlaps = (start: number, end: number) => ranges.some(range => start < range.end && end > range.start);
+        const add = (start: number, end: number, kind?: string) => {
+            if (end > start && !overlaps(start, end)) {
+                ranges.push({ start, end, kind });
+            }
+        };
+
+        for (const match of text.matchAll(REDACTED)) {
+            add(match.index!, match.index! + match[0].length);
+        }
+
+        for (const detector of [...DETECTORS, ...this.customDetectors]) {
+            for (const match of text.matchAll(detector.pattern)) {
+                const secret = match.groups?.secret ?? (detector.kind === 'CUSTOM' ? match[1] : undefined) ?? match[0];
+                if (!secret || PLACEHOLDER_VALUE.test(secret)) {
+                    continue;
+                }
+                const start = match.index! + match[0].lastIndexOf(secret);
+                add(start, start + secret.length, detector.kind);
+            }
+        }
+
+        if (this.policy.entropyThreshold > 0) {
+            for (const match of text.matchAll(ENTROPY_TOKEN)) {
+                if (looksRandom(match[0], this.policy.entropyThreshold)) {
+                    add(match.index!, match.index! + match[0].length, 'HIGH_ENTROPY');
+                }
+            }
+        }
+
+        return ranges
+            .filter((range): range is { start: number; end: number; kind: string } => !!range.kind)
+            .sort((a, b) => a.start - b.start);
+    }
+
+    private getPlaceholder(kind: string, secret: string): string {
+        let placeholder = this.placeholders.get(secret);
+        if (!placeholder) {
+            const count = (this.counters.get(kind) ?? 0) + 1;
+            this.counters.set(kind, count);
+            placeholder = `[REDACTED_${kind}_${count}]`;
+            this.placeholders.set(secret, placeholder);
+        }
+        return placeholder;
+    }
+}
+
+/**
+ * Whether a token is long, mixes upper case, lower case and digits the way
+ * generated keys do, and carries at least `threshold` bits per character.
+ * Hex strings such as commit hashes and checksums don't count.
+ */
+function looksRandom(token: string, threshold: number): boolean {
+    if (token.length < MIN_ENTROPY_TOKEN || token.length > MAX_ENTROPY_TOKEN) {
+        return false;
+    }
+    if (!/[A-Z]/.test(token) || !/[a-z]/.test(token) || !/[0-9]/.test(token) || /^[0-9a-fA-F]+$/.test(token)) {
+        return false;
+    }
+
+    const characterClass = (char: string) => /[A-Z]/.test(char) ? 0 : /[a-z]/.test(char) ? 1 : /[0-9]/.test(char) ? 2 : 3;
+    let changes = 0;
+    for (let i = 1; i < token.length; i++) {
+        if (characterClass(token[i]) !== characterClass(token[i - 1])) {
+            changes++;
+        }
+    }
+    return changes / (token.length - 1) >= MIN_CLASS_CHANGES && shannonEntropy(token) >= threshold;
+}
+
+export function shannonEntropy(text: string): number {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        counts.set(char, (counts.get(char) ?? 0) + 1);
+    }
+    let entropy = 0;
+    for (const count of counts.values()) {
+        const p = count / text.length;
+        entropy -= p * Math.log2(p);
+    }
+    return entropy;
+}
+
+export function isLoopbackUrl(url: string): boolean {
+    try {
+        const host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+        return host === 'localhost' || host === '::1' || host === '0.0.0.0' || /^127\./.test(host);
+    } catch {
+        return false;
+    }
+}
+
+// Shared instance, configured with the workspace's policy by the extension
+export const secretRedactor = new SecretRedactor();
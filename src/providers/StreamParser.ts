@@ -0,0 +1,141 @@
+/**
+ * Incremental parsers for streamed provider responses (Server-Sent Events and
+ * newline-delimited JSON) that accept any chunk boundaries.
+ */
+
+export type StreamChunk = string | Uint8Array;
+
+/**
+ * Decodes chunks of one stream, holding back an incomplete UTF-8 sequence
+ * at the end of a chunk until the rest of it arrives
+ */
+class ChunkDecoder {
+    private readonly decoder = new TextDecoder('utf-8');
+
+    public decode(chunk: StreamChunk): string {
+        return typeof chunk === 'string' ? chunk : this.decoder.decode(chunk, { stream: true });
+    }
+
+    public end(): string {
+        return this.decoder.decode();
+    }
+}
+
+/**
+ * The whole body of a byte or string stream as text
+ */
+export async function readStreamText(stream: AsyncIterable<StreamChunk>): Promise<string> {
+    const decoder = new ChunkDecoder();
+    let text = '';
+    for await (const chunk of stream) {
+        text += decoder.decode(chunk);
+    }
+    return text + decoder.end();
+}
+
+export interface SSEEvent {
+    event?: string;
+    data: string;
+    id?: string;
+}
+
+export class SSEParser {
+    private buffer = '';
+    private readonly decoder = new ChunkDecoder();
+
+    /**
+     * Feed a raw chunk and return every event completed by it
+     */
+    public feed(chunk: StreamChunk): SSEEvent[] {
+        this.buffer += this.decoder.decode(chunk).replace(/\r\n?/g, '\n');
+
+        const events: SSEEvent[] = [];
+        let boundary = this.buffer.indexOf('\n\n');
+
+        while (boundary !== -1) {
+            const block = this.buffer.slice(0, boundary);
+            this.buffer = this.buffer.slice(boundary + 2);
+
+            const event = this.parseBlock(block);
+            if (event) {
+                events.push(event);
+            }
+
+            boundary = this.buffer.indexOf('\n\n');
+        }
+
+        return events;
+    }
+
+    /**
+     * Emit whatever is left in the buffer once the stream has ended
+     */
+    public flush(): SSEEvent[] {
+        const remaining = this.buffer + this.decoder.end();
+        this.buffer = '';
+
+        const event = remaining.trim() ? this.parseBlock(remaining) : null;
+        return event ? [event] : [];
+    }
+
+    private parseBlock(block: string): SSEEvent | null {
+        const dataLines: string[] = [];
+        let eventName: string | undefined;
+        let id: string | undefined;
+
+        for (const line of block.split('\n')) {
+            // Lines starting with a colon are comments (often used as keep-alives)
+            if (!line || line.startsWith(':')) {
+                continue;
+            }
+
+            const separator = line.indexOf(':');
+            const field = separator === -1 ? line : line.slice(0, separator);
+            let value = separator === -1 ? '' : line.slice(separator + 1);
+            if (value.startsWith(' ')) {
+                value = value.slice(1);
+            }
+
+            switch (field) {
+                case 'data':
+                    dataLines.push(value);
+                    break;
+                case 'event':
+                    eventName = value;
+                    break;
+                case 'id':
+                    id = value;
+                    break;
+            }
+        }
+
+        if (dataLines.length === 0) {
+            return null;
+        }
+
+        return { event: eventName, data: dataLines.join('\n'), id };
+    }
+}
+
+export class NDJSONParser {
+    private buffer = '';
+    private readonly decoder = new ChunkDecoder();
+
+    /**
+     * Feed a raw chunk and return every complete JSON line completed by it
+     */
+    public feed(chunk: StreamChunk): string[] {
+        this.buffer += this.decoder.decode(chunk);
+
+        const lines = this.buffer.split('\n');
+        this.buffer = lines.pop() || '';
+
+        return lines.map(line => line.trim()).filter(line => line.length > 0);
+    }
+
+    public flush(): string[] {
+        const remaining = (this.buffer + this.decoder.end()).trim();
+        this.buffer = '';
+        return remaining ? [remaining] : [];
+    }
+}
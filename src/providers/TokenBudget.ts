@@ -0,0 +1,412 @@
+import type { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite' with { 'resolution-mode': 'import' };
+import { Message } from './AIProviderManager';
+
+/**
+ * Token estimation and context-window budgeting: exact counts for OpenAI
+ * models, a heuristic for other vendors.
+ */
+
+export type TokenizerEncoding = 'o200k_base' | 'cl100k_base';
+
+export interface TokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+    estimated?: boolean; // True when the provider did not report usage
+}
+
+export interface ModelLimits {
+    contextWindow: number;
+    maxOutputTokens: number;
+    inputCostPerMillion?: number; // USD
+    outputCostPerMillion?: number; // USD
+}
+
+export interface BudgetContextFile {
+    path: string;
+    content: string;
+    language?: string;
+    isIntelligentContext?: boolean;
+    relevanceScore?: number;
+    truncated?: boolean;
+    lines?: string; // Line ranges when the content is an excerpt, e.g. "10-42, 80-95"
+}
+
+export interface BudgetInput {
+    systemMessages: Message[];
+    contextFiles: BudgetContextFile[];
+    history: Message[]; // Oldest first, ending with the message being answered
+}
+
+export interface BudgetResult {
+    contextFiles: BudgetContextFile[];
+    history: Message[];
+    droppedHistory: Message[]; // Oldest turns that did not fit, candidates for summarization
+    droppedFiles: string[];
+    usedTokens: number;
+    budgetTokens: number;
+}
+
+export const DEFAULT_MODEL_LIMITS: ModelLimits = {
+    contextWindow: 8192,
+    maxOutputTokens: 4096
+};
+
+// Matched in order against the model id, so more specific patterns come first
+const MODEL_LIMITS: Array<{ pattern: RegExp; limits: ModelLimits }> = [
+    { pattern: /gpt-4o-mini/, limits: { contextWindow: 128000, maxOutputTokens: 16384, inputCostPerMillion: 0.15, outputCostPerMillion: 0.6 } },
+    { pattern: /gpt-4o/, limits: { contextWindow: 128000, maxOutputTokens: 16384, inputCostPerMillion: 2.5, outputCostPerMillion: 10 } },
+    { pattern: /gpt-4\.1-mini/, limits: { contextWindow: 1047576, maxOutputTokens: 32768, inputCostPerMillion: 0.4, outputCostPerMillion: 1.6 } },
+    { pattern: /gpt-4\.1/, limits: { contextWindow: 1047576, maxOutputTokens: 32768, inputCostPerMillion: 2, outputCostPerMillion: 8 } },
+    { pattern: /gpt-4-turbo/, limits: { contextWindow: 128000, maxOutputTokens: 4096, inputCostPerMillion: 10, outputCostPerMillion: 30 } },
+    { pattern: /gpt-4/, limits: { contextWindow: 8192, maxOutputTokens: 4096, inputCostPerMillion: 30, outputCostPerMillion: 60 } },
+    { pattern: /gpt-3\.5/, limits: { contextWindow: 16385, maxOutputTokens: 4096, inputCostPerMillion: 0.5, outputCostPerMillion: 1.5 } },
+    { pattern: /^o[134](-mini)?\b/, limits: { contextWindow: 200000, maxOutputTokens: 100000, inputCostPerMillion: 1.1, outputCostPerMillion: 4.4 } },
+    { pattern: /claude-.*opus/, limits: { contextWindow: 200000, maxOutputTokens: 4096, inputCostPerMillion: 15, outputCostPerMillion: 75 } },
+    { pattern: /claude-.*haiku/, limits: { contextWindow: 200000, maxOutputTokens: 8192, inputCostPerMillion: 0.8, outputCostPerMillion: 4 } },
+    { pattern: /claude/, limits: { contextWindow: 200000, maxOutputTokens: 8192, inputCostPerMillion: 3, outputCostPerMillion: 15 } },
+    { pattern: /gemini-1\.5-pro/, limits: { contextWindow: 2097152, maxOutputTokens: 8192, inputCostPerMillion: 1.25, outputCostPerMillion: 5 } },
+    { pattern: /gemini-.*flash/, limits: { contextWindow: 1048576, maxOutputTokens: 8192, inputCostPerMillion: 0.1, outputCostPerMillion: 0.4 } },
+    { pattern: /gemini/, limits: { contextWindow: 1048576, maxOutputTokens: 8192, inputCostPerMillion: 1.25, outputCostPerMillion: 5 } },
+    { pattern: /grok/, limits: { contextWindow: 131072, maxOutputTokens: 8192, inputCostPerMillion: 2, outputCostPerMillion: 10 } },
+    { pattern: /llama-?3\.[1-3]|qwen2\.5|mistral-(large|nemo)/, limits: { contextWindow: 128000, maxOutputTokens: 4096 } },
+    { pattern: /llama|mistral|qwen|phi|gemma|deepseek/, limits: { contextWindow: 8192, maxOutputTokens: 4096 } }
+];
+
+// Rank tables run to megabytes, so each is only loaded when a model first needs it
+const ENCODING_RANKS: Record<TokenizerEncoding, () => TiktokenBPE> = {
+    o200k_base: () => require('js-tiktoken/ranks/o200k_base'),
+    cl100k_base: () => require('js-tiktoken/ranks/cl100k_base')
+};
+
+const encoders = new Map<TokenizerEncoding, Tiktoken>();
+
+// Approximation of the cl100k pre-tokenizer split
+const PRE_TOKENIZER = /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}{1,3}| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// Per-message framing cost of chat formats (role markers and separators)
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const REPLY_PRIMING_TOKENS = 3;
+
+// Most recent messages kept ahead of context files so follow-ups stay coherent
+const PROTECTED_RECENT_MESSAGES = 4;
+
+// Smallest slice worth keeping when a file has to be truncated
+const MIN_TRUNCATED_FILE_TOKENS = 200;
+
+/**
+ * The tiktoken encoding of an OpenAI model id, with or without an OpenRouter
+ * vendor prefix, or undefined for models without a published tokenizer
+ */
+export function getTokenizerEncoding(model: string | undefined): TokenizerEncoding | undefined {
+    const id = (model || '').toLowerCase().replace(/^openai\//, '');
+    if (/^(gpt-4o|chatgpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o[1-9])\b/.test(id)) {
+        return 'o200k_base';
+    }
+    if (/^(gpt-4|gpt-3\.5|text-embedding-3|text-embedding-ada-002)\b/.test(id)) {
+        return 'cl100k_base';
+    }
+    return undefined;
+}
+
+/**
+ * Number of tokens `model` will see for the given text: exact for models with
+ * a known encoding, estimated otherwise
+ */
+export function estimateTokens(text: string, model?: string): number {
+    if (!text) {
+        return 0;
+    }
+
+    const encoding = getTokenizerEncoding(model);
+    if (encoding) {
+        // Special-token markers in user text are plain text, not control tokens
+        return getEncoder(encoding).encode(text, [], []).length;
+    }
+
+    return estimateHeuristicTokens(text);
+}
+
+function getEncoder(encoding: TokenizerEncoding): Tiktoken {
+    let encoder = encoders.get(encoding);
+    if (!encoder) {
+        // js-tiktoken only ships ESM typings, so its CommonJS build is required directly
+        const { Tiktoken: TiktokenEncoder } = require('js-tiktoken/lite');
+        encoder = new TiktokenEncoder(ENCODING_RANKS[encoding]()) as Tiktoken;
+        encoders.set(encoding, encoder);
+    }
+    return encoder;
+}
+
+function estimateHeuristicTokens(text: string): number {
+    let tokens = 0;
+    for (const match of text.matchAll(PRE_TOKENIZER)) {
+        const piece = match[0];
+        const trimmed = piece.trimStart();
+
+        if (!trimmed) {
+            // Whitespace runs merge into very few tokens
+            tokens += Math.ceil(piece.length / 8);
+        } else if (/^\p{L}/u.test(trimmed)) {
+            // Common words are single tokens; longer ones split into ~4-char pieces,
+            // and non-Latin scripts cost roughly a token per character
+            tokens += /^[\p{Script=Latin}]+$/u.test(trimmed)
+                ? Math.max(1, Math.ceil((trimmed.length - 2) / 4))
+                : trimmed.length;
+        } else if (/^\p{N}/u.test(trimmed)) {
+            tokens += 1;
+        } else {
+            // Punctuation and operators merge in pairs at best
+            tokens += Math.ceil(trimmed.length / 2);
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Estimate the prompt size of a chat request
+ */
+export function estimateMessageTokens(messages: Message[], model?: string): number {
+    let tokens = REPLY_PRIMING_TOKENS;
+
+    for (const message of messages) {
+        tokens += MESSAGE_OVERHEAD_TOKENS + estimateTokens(message.content, model);
+        if (message.name) {
+            tokens += estimateTokens(message.name, model);
+        }
+        for (const call of message.tool_calls || []) {
+            tokens += MESSAGE_OVERHEAD_TOKENS + estimateTokens(call.function.name, model) + estimateTokens(
+                typeof call.function.arguments === 'string' ? call.function.arguments : JSON.stringify(call.function.arguments),
+                model
+            );
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Known limits and pricing for a model id, falling back to conservative defaults
+ */
+export function getModelLimits(model: string): ModelLimits {
+    const id = model.toLowerCase();
+    const match = MODEL_LIMITS.find(entry => entry.pattern.test(id));
+    return match ? { ...match.limits } : { ...DEFAULT_MODEL_LIMITS };
+}
+
+/**
+ * Cost in USD of the given usage, or undefined when the model has no known pricing
+ */
+export function estimateCost(usage: TokenUsage, limits: ModelLimits): number | undefined {
+    if (limits.inputCostPerMillion === undefined || limits.outputCostPerMillion === undefined) {
+        return undefined;
+    }
+
+    return (usage.inputTokens * limits.inputCostPerMillion + usage.outputTokens * limits.outputCostPerMillion) / 1_000_000;
+}
+
+/**
+ * Tokens available for the prompt once room for the reply is set aside
+ */
+export function getPromptBudget(limits: ModelLimits): number {
+    const outputReserve = Math.min(limits.maxOutputTokens, Math.floor(limits.contextWindow / 4));
+    return limits.contextWindow - outputReserve;
+}
+
+/**
+ * Cut text down to roughly the given number of tokens, marking the cut
+ */
+export function truncateToTokens(text: string, maxTokens: number, model?: string): string {
+    const total = estimateTokens(text, model);
+    if (total <= maxTokens) {
+        return text;
+    }
+
+    const keepChars = Math.max(0, Math.floor(text.length * (maxTokens / total)) - 40);
+    const cut = text.lastIndexOf('\n', keepChars);
+    return `${text.slice(0, cut > keepChars / 2 ? cut : keepChars)}\n... [truncated to fit the context window]`;
+}
+
+/**
+ * Tokens left for context files once the prompts and turns that outrank them
+ * in `fitToBudget` are in: system messages, the message being answered and
+ * the last few turns
+ */
+export function getContextFileBudget(
+    input: Omit<BudgetInput, 'contextFiles'>,
+    budgetTokens: number,
+    reservedTokens: number = 0,
+    model?: string
+): number {
+    return Math.max(0, reserveRecentHistory(input, budgetTokens, reservedTokens, model).remaining);
+}
+
+/**
+ * What a context file costs in the prompt, with its path header and code fence
+ */
+export function estimateContextFileTokens(file: { path: string; content: string }, model?: string): number {
+    return estimateTokens(file.content, model) + estimateTokens(file.path, model) + 8;
+}
+
+/**
+ * Fit system prompts, context files and conversation history into a prompt budget.
+ *
+ * Priority, highest first: system messages and the message being answered,
+ * the last few turns, explicitly referenced files, automatically selected
+ * files by relevance, then older history newest-first. Files that don't fit
+ * are truncated if a useful slice remains; older history that doesn't fit is
+ * returned in `droppedHistory` so the caller can summarize it.
+ */
+export function fitToBudget(input: BudgetInput, budgetTokens: number, reservedTokens: number = 0, model?: string): BudgetResult {
+    const reserved = reserveRecentHistory(input, budgetTokens, reservedTokens, model);
+    const { history, keptHistory, latest } = reserved;
+    let remaining = reserved.remaining;
+
+    // Context files: explicit references first, then by relevance
+    const orderedFiles = [
+        ...input.contextFiles.filter(f => !f.isIntelligentContext),
+        ...input.contextFiles
+            .filter(f => f.isIntelligentContext)
+            .sort((a, b) => (b.relevanceScore ?? 0) - (a.relevanceScore ?? 0))
+    ];
+    const keptFiles: BudgetContextFile[] = [];
+    const droppedFiles: string[] = [];
+
+    for (const file of orderedFiles) {
+        // Path header and code fence
+        const overhead = estimateTokens(file.path, model) + 8;
+        const cost = estimateTokens(file.content, model) + overhead;
+
+        if (cost <= remaining) {
+            keptFiles.push(file);
+            remaining -= cost;
+        } else if (remaining - overhead >= MIN_TRUNCATED_FILE_TOKENS) {
+            const content = truncateToTokens(file.content, remaining - overhead, model);
+            keptFiles.push({ ...file, content, truncated: true });
+            remaining -= estimateTokens(content, model) + overhead;
+        } else {
+            droppedFiles.push(file.path);
+        }
+    }
+
+    // Older history, newest first; once a turn doesn't fit everything before it goes too
+    while (history.length > 0) {
+        const cost = estimateMessageTokens([history[history.length - 1]], model) - REPLY_PRIMING_TOKENS;
+        if (cost > remaining) {
+            break;
+        }
+        remaining -= cost;
+        keptHistory.unshift(history.pop()!);
+    }
+
+    // Keep the original relative order of context files in the prompt
+    const fileOrder = new Map(input.contextFiles.map((file, index) => [file.path, index]));
+    keptFiles.sort((a, b) => (fileOrder.get(a.path) ?? 0) - (fileOrder.get(b.path) ?? 0));
+
+    return {
+        contextFiles: keptFiles,
+        history: latest ? [...keptHistory, latest] : keptHistory,
+        droppedHistory: history,
+        droppedFiles,
+        usedTokens: budgetTokens - remaining,
+        budgetTokens
+    };
+}
+
+/**
+ * Trim an assembled request to the budget of the model it is sent to, which
+ * may be smaller than the one it was packed for when a fallback answers.
+ *
+ * System messages and the current turn (from the last user message on) are
+ * kept; earlier turns go oldest first, each with the tool results that answer
+ * it. If that is still not enough, the longest remaining messages are cut.
+ */
+export function fitMessagesToBudget(messages: Message[], budgetTokens: number, model?: string): Message[] {
+    const costs = messages.map(message => estimateMessageTokens([message], model) - REPLY_PRIMING_TOKENS);
+    let excess = REPLY_PRIMING_TOKENS + costs.reduce((sum, cost) => sum + cost, 0) - budgetTokens;
+    if (excess <= 0) {
+        return messages;
+    }
+
+    const lastUser = messages.map(message => message.role).lastIndexOf('user');
+    const currentTurn = lastUser === -1 ? messages.length - 1 : lastUser;
+    const dropped = new Set<number>();
+
+    for (let i = 0; i < currentTurn && excess > 0; i++) {
+        if (messages[i].role === 'system') {
+            continue;
+        }
+        dropped.add(i);
+        excess -= costs[i];
+        while (i + 1 < currentTurn && messages[i + 1].role === 'tool') {
+            dropped.add(++i);
+            excess -= costs[i];
+        }
+    }
+
+    const fitted = messages.filter((_, i) => !dropped.has(i));
+    const fittedCosts = costs.filter((_, i) => !dropped.has(i));
+
+    while (excess > 0) {
+        const longest = fittedCosts.indexOf(Math.max(...fittedCosts));
+        const contentTokens = estimateTokens(fitted[longest].content, model);
+        if (contentTokens === 0) {
+            break;
+        }
+        const content = truncateToTokens(fitted[longest].content, Math.max(0, contentTokens - excess), model);
+        const saved = contentTokens - estimateTokens(content, model);
+        if (saved <= 0) {
+            break;
+        }
+        fitted[longest] = { ...fitted[longest], content };
+        fittedCosts[longest] -= saved;
+        excess -= saved;
+    }
+
+    return fitted;
+}
+
+/**
+ * Take system messages, the message being answered and up to the protected
+ * number of recent turns out of the budget, returning what is left and the
+ * older turns still to place
+ */
+function reserveRecentHistory(
+    input: Omit<BudgetInput, 'contextFiles'>,
+    budgetTokens: number,
+    reservedTokens: number,
+    model?: string
+): { remaining: number; history: Message[]; keptHistory: Message[]; latest?: Message } {
+    let remaining = budgetTokens - reservedTokens - estimateMessageTokens(input.systemMessages, model);
+
+    const history = [...input.history];
+    const latest = history.pop();
+    if (latest) {
+        remaining -= estimateMessageTokens([latest], model) - REPLY_PRIMING_TOKENS;
+    }
+
+    // Recent turns, newest first, up to the protected window
+    const keptHistory: Message[] = [];
+    while (history.length > 0 && keptHistory.length < PROTECTED_RECENT_MESSAGES) {
+        const cost = estimateMessageTokens([history[history.length - 1]], model) - REPLY_PRIMING_TOKENS;
+        if (cost > remaining) {
+            break;
+        }
+        remaining -= cost;
+        keptHistory.unshift(history.pop()!);
+    }
+
+    return { remaining, history, keptHistory, latest };
+}
+
+/**
+ * Cheap stand-in for a model-written summary: the opening of each dropped turn
+ */
+export function buildExtractiveSummary(messages: Message[], maxTokens: number = 400): string {
+    const perMessage = Math.max(20, Math.floor(maxTokens / Math.max(1, messages.length)));
+    const lines = messages
+        .filter(m => m.role === 'user' || m.role === 'assistant')
+        .map(m => `- ${m.role}: ${truncateToTokens(m.content.replace(/\s+/g, ' ').trim(), perMessage).replace(/\n\.\.\. \[truncated[^\]]*\]$/, '...')}`);
+
+    return truncateToTokens(lines.join('\n'), maxTokens);
+}
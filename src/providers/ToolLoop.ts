@@ -0,0 +1,141 @@
+import { ToolCall } from './AIProviderManager';
+
+/**
+ * Bookkeeping for multi-hop tool use in chat: when to stop offering tools
+ * (hop limit, the model repeating itself) and the per-turn tool timeline.
+ */
+
+export const DEFAULT_MAX_TOOL_HOPS = 8;
+const MAX_TOOL_HOPS_LIMIT = 50;
+const TIMELINE_SUMMARY_LENGTH = 120;
+
+export type ToolLoopStopReason = 'hopLimit' | 'repeatedCalls';
+
+export interface ToolTimelineEntry {
+    hop: number;
+    toolName: string;
+    success: boolean;
+    executionTime: number;
+    summary: string; // First line of the result or error, shortened
+    repeatOfHop?: number; // Set when an identical call was already made this turn and wasn't run again
+}
+
+export interface ToolLoopState {
+    hop: number;
+    maxHops: number;
+    signatures: Map<string, number>; // Call signature → hop that first made it
+    timeline: ToolTimelineEntry[];
+}
+
+export interface RepeatedToolCall {
+    call: ToolCall;
+    firstHop: number;
+}
+
+export function createToolLoopState(maxHops: unknown): ToolLoopState {
+    return {
+        hop: 0,
+        maxHops: normalizeMaxToolHops(maxHops),
+        signatures: new Map(),
+        timeline: []
+    };
+}
+
+/**
+ * Clamp the `ai.maxToolHops` setting to a sane whole number
+ */
+export function normalizeMaxToolHops(value: unknown): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 1) {
+        return DEFAULT_MAX_TOOL_HOPS;
+    }
+    return Math.min(Math.floor(value), MAX_TOOL_HOPS_LIMIT);
+}
+
+/**
+ * Tool name plus arguments with object keys sorted, so calls that differ
+ * only in key order or whitespace compare equal
+ */
+export function getToolCallSignature(call: ToolCall): string {
+    let args: string;
+    try {
+        args = JSON.stringify(canonicalize(JSON.parse(call.function.arguments || '{}')));
+    } catch {
+        args = (call.function.arguments || '').trim();
+    }
+    return `${call.function.name}:${args}`;
+}
+
+function canonicalize(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(canonicalize);
+    }
+    if (value && typeof value === 'object') {
+        return Object.keys(value).sort().reduce((sorted: Record<string, any>, key) => {
+            sorted[key] = canonicalize(value[key]);
+            return sorted;
+        }, {});
+    }
+    return value;
+}
+
+/**
+ * Split a hop's calls into ones to run and ones the model already made this
+ * turn (including duplicates within the same hop). Fresh calls are recorded
+ * against the current hop.
+ */
+export function partitionRepeatedCalls(
+    state: ToolLoopState,
+    calls: ToolCall[]
+): { fresh: ToolCall[]; repeated: RepeatedToolCall[] } {
+    const fresh: ToolCall[] = [];
+    const repeated: RepeatedToolCall[] = [];
+
+    for (const call of calls) {
+        const signature = getToolCallSignature(call);
+        const firstHop = state.signatures.get(signature);
+        if (firstHop !== undefined) {
+            repeated.push({ call, firstHop });
+        } else {
+            state.signatures.set(signature, state.hop);
+            fresh.push(call);
+        }
+    }
+
+    return { fresh, repeated };
+}
+
+/**
+ * Whether the next request should go out without tools. A hop where every
+ * call was a repeat means the model is looping; past the hop limit it has to
+ * answer with what it has.
+ */
+export function getToolLoopStopReason(state: ToolLoopState, hopCalls: number, repeatedCalls: number): ToolLoopStopReason | undefined {
+    if (hopCalls > 0 && repeatedCalls === hopCalls) {
+        return 'repeatedCalls';
+    }
+    if (state.hop >= state.maxHops) {
+        return 'hopLimit';
+    }
+    return undefined;
+}
+
+export function describeToolLoopStop(reason: ToolLoopStopReason, state: ToolLoopState): string {
+    return reason === 'hopLimit'
+        ? `Stopped offering tools after ${state.maxHops} tool ${state.maxHops === 1 ? 'round' : 'rounds'}`
+        : 'Stopped offering tools because the model repeated calls it had already made';
+}
+
+/**
+ * What the model is told instead of running a call it already made
+ */
+export function getRepeatedCallNotice(repeat: RepeatedToolCall): string {
+    return `Identical ${repeat.call.function.name} call already made in tool round ${repeat.firstHop}; use that result instead of calling it again.`;
+}
+
+export function summarizeToolOutput(output: unknown): string {
+    const text = typeof output === 'string' ? output : JSON.stringify(output) ?? '';
+    const firstLine = text.trim().split('\n')[0] || '';
+    return firstLine.length > TIMELINE_SUMMARY_LENGTH
+        ? `${firstLine.slice(0, TIMELINE_SUMMARY_LENGTH - 1)}…`
+        : firstLine;
+}
@@ -20,6 +20,29 @@ mocha.addFile(path.resolve(__dirname, '../out/test/unit/AdvancedFormattingEngine
 mocha.addFile(path.resolve(__dirname, '../out/test/unit/CodeStyleEnforcement.unit.test.js'));
 mocha.addFile(path.resolve(__dirname, '../out/test/unit/PerformanceProfiling.unit.test.js'));
 mocha.addFile(path.resolve(__dirname, '../out/test/unit/DependencyManagement.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/StreamParser.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ProviderFallback.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/LocalModels.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/TokenBudget.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/MCPTransport.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/MCPSampling.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/MCPClient.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ApprovalPolicy.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ToolRegistry.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ToolLoop.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/CheckpointManager.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/FileEdits.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/TerminalPolicy.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/GitBackend.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ToolPermissions.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/PlanScheduler.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/AgentRunStore.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/WorkspaceIndex.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/SemanticIndex.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ProjectGraph.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/FileEnumerator.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/SecretRedaction.unit.test.js'));
+mocha.addFile(path.resolve(__dirname, '../out/test/unit/ContextPacker.unit.test.js'));
 
 // Agent Mode Core Tests (Flagship Feature)
 mocha.addFile(path.resolve(__dirname, '../out/test/unit/AgentMode.unit.test.js'));
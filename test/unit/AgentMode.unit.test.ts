@@ -14,6 +14,7 @@ import { ContextRetrievalEngine } from '../../src/context/ContextRetrievalEngine
 import { MCPManager } from '../../src/mcp/MCPManager';
 import { ToolExecutionEngine } from '../../src/mcp/ToolExecutionEngine';
 import { toolRegistry } from '../../src/agent/ToolRegistry';
+import { agentRunStore } from '../../src/agent/AgentRunStore';
 
 // Mock implementations for testing
 class MockAIProvider {
@@ -379,6 +380,258 @@ describe('AgentMode Core Functionality', () => {
         });
     });
 
+    describe('Observe and Replan Loop', () => {
+        const step = (description: string) => ({
+            type: 'file_operation',
+            description,
+            payload: { operation: 'read', filePath: `${description}.ts` }
+        });
+
+        let originalExecute: typeof toolRegistry.executeAction;
+        let executed: string[];
+
+        // Planning prompts get the initial plan; observation prompts get the next decision
+        const scriptModel = (plan: any, decisions: any[]) => {
+            (mockAIProvider as any).sendMessage = async (options: any) => {
+                const prompt: string = options.messages[0].content;
+                const content = prompt.includes('RESULT OF STEP')
+                    ? JSON.stringify(decisions.shift() || { decision: 'continue' })
+                    : JSON.stringify(plan);
+                return { content, model: 'mock-model', provider: 'mock' };
+            };
+        };
+
+        beforeEach(() => {
+            agentMode.setEnabled(true);
+            executed = [];
+            originalExecute = toolRegistry.executeAction;
+            toolRegistry.executeAction = async (_type: string, payload: any) => {
+                executed.push(payload.filePath);
+                return { success: true, message: `Read ${payload.filePath}` };
+            };
+        });
+
+        afterEach(() => {
+            toolRegistry.executeAction = originalExecute;
+        });
+
+        it('should replace pending steps when the model revises the plan', async () => {
+            scriptModel({ goal: 'Revise', actions: [step('a'), step('b')] }, [
+                { decision: 'revise', reason: 'b is not needed', actions: [step('c')] }
+            ]);
+
+            await agentMode.executeAgentRequest('Revise the plan');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(executed, ['a.ts', 'c.ts']);
+            assert.deepStrictEqual(plan.actions.map(a => a.description), ['a', 'c']);
+            assert.ok(plan.history.some(r => r.decision === 'revise' && r.actionsAdded === 1 && r.actionsRemoved === 1));
+        });
+
+        it('should drop pending steps when the model declares completion', async () => {
+            scriptModel({ goal: 'Finish early', actions: [step('a'), step('b'), step('c')] }, [
+                { decision: 'complete', reason: 'Found what was needed' }
+            ]);
+
+            const result = await agentMode.executeAgentRequest('Finish early');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(executed, ['a.ts']);
+            assert.strictEqual(plan.actions.length, 1);
+            assert.strictEqual(plan.status, 'completed');
+            assert.ok(result.includes('Found what was needed'));
+        });
+
+        it('should stop at the iteration limit', async () => {
+            (agentMode as any).getLoopLimits = () => ({ maxIterations: 2, tokenBudget: 100000, maxParallelActions: 4 });
+            scriptModel({ goal: 'Long plan', actions: [step('a'), step('b'), step('c'), step('d')] }, []);
+
+            const result = await agentMode.executeAgentRequest('Long plan');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.strictEqual(plan.iteration, 2);
+            assert.strictEqual(plan.history[plan.history.length - 1].decision, 'stopped');
+            assert.ok(result.includes('Task Incomplete'));
+        });
+
+        it('should stop when the token budget is spent', async () => {
+            (agentMode as any).getLoopLimits = () => ({ maxIterations: 10, tokenBudget: 1, maxParallelActions: 4 });
+            scriptModel({ goal: 'Expensive', actions: [step('a'), step('b')] }, []);
+
+            await agentMode.executeAgentRequest('Expensive');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(executed, []);
+            assert.ok(plan.tokensUsed > 0);
+            assert.strictEqual(plan.history[plan.history.length - 1].decision, 'stopped');
+        });
+
+        it('should report plan history through the progress callback', async () => {
+            scriptModel({ goal: 'Observe', actions: [step('a')] }, [
+                { decision: 'revise', reason: 'Need one more file', actions: [step('b')] }
+            ]);
+
+            const decisions: string[][] = [];
+            agentMode.setProgressCallback(plan => decisions.push(plan.history.map(r => r.decision)));
+            await agentMode.executeAgentRequest('Observe');
+
+            assert.deepStrictEqual(decisions[0], ['plan']);
+            assert.ok(decisions.some(history => history.includes('revise')));
+        });
+
+        it('should run independent reads in parallel before their dependent', async () => {
+            (agentMode as any).getLoopLimits = () => ({ maxIterations: 10, tokenBudget: 100000, maxParallelActions: 2 });
+            scriptModel({ goal: 'Parallel', actions: [
+                { ...step('a'), id: 'a', dependsOn: [] },
+                { ...step('b'), id: 'b', dependsOn: [] },
+                { ...step('c'), id: 'c', dependsOn: ['a', 'b'] }
+            ] }, []);
+
+            let running = 0;
+            let maxRunning = 0;
+            toolRegistry.executeAction = async (_type: string, payload: any) => {
+                maxRunning = Math.max(maxRunning, ++running);
+                await new Promise(resolve => setTimeout(resolve, 10));
+                running--;
+                executed.push(payload.filePath);
+                return { success: true, message: `Read ${payload.filePath}` };
+            };
+
+            await agentMode.executeAgentRequest('Parallel');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.strictEqual(maxRunning, 2);
+            assert.strictEqual(executed[2], 'c.ts');
+            assert.deepStrictEqual(plan.actions[2].dependsOn, ['a', 'b']);
+            assert.strictEqual(plan.iteration, 3);
+        });
+
+        it('should block steps that depend on a failed step', async () => {
+            scriptModel({ goal: 'Blocked', actions: [
+                { ...step('missing'), id: 'read', dependsOn: [] },
+                { ...step('other'), id: 'other', dependsOn: [] },
+                { ...step('use'), id: 'use', dependsOn: ['read'] }
+            ] }, []);
+            toolRegistry.executeAction = async (_type: string, payload: any) => {
+                executed.push(payload.filePath);
+                return payload.filePath === 'missing.ts'
+                    ? { success: false, message: 'File not found' }
+                    : { success: true, message: `Read ${payload.filePath}` };
+            };
+
+            const result = await agentMode.executeAgentRequest('Blocked');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(executed.sort(), ['missing.ts', 'other.ts']);
+            assert.deepStrictEqual(plan.actions.map(a => a.status), ['failed', 'completed', 'blocked']);
+            assert.ok(result.includes('depended on'));
+        });
+
+        it('should resume a recorded run from its first unfinished step', async () => {
+            scriptModel({ goal: 'Resume', actions: [step('a'), step('flaky'), step('c')] }, []);
+            let failFlaky = true;
+            toolRegistry.executeAction = async (_type: string, payload: any) => {
+                executed.push(payload.filePath);
+                return payload.filePath === 'flaky.ts' && failFlaky
+                    ? { success: false, message: 'Temporary failure' }
+                    : { success: true, message: `Read ${payload.filePath}` };
+            };
+
+            await agentMode.executeAgentRequest('Resume');
+            const run = agentRunStore.getRuns()[0];
+            assert.strictEqual(run.request, 'Resume');
+            assert.deepStrictEqual(run.plan.actions.map(a => a.status), ['completed', 'failed', 'blocked']);
+
+            failFlaky = false;
+            executed = [];
+            await agentMode.resumeRun(run.id);
+
+            assert.deepStrictEqual(executed, ['flaky.ts', 'c.ts']);
+            assert.strictEqual(agentRunStore.getRun(run.id)?.status, 'completed');
+            assert.strictEqual(agentRunStore.getRun(run.id)?.attempts, 2);
+            assert.strictEqual(agentMode.getCurrentPlan()?.actions[0].result, 'Read a.ts');
+        });
+    });
+
+    describe('Approval Gates and Dry Run', () => {
+        let originalExecute: typeof toolRegistry.executeAction;
+        let executed: any[];
+        let prompts: string[];
+
+        const scriptPlan = (actions: any[]) => {
+            prompts = [];
+            (mockAIProvider as any).sendMessage = async (options: any) => {
+                const prompt: string = options.messages[0].content;
+                prompts.push(prompt);
+                const content = prompt.includes('RESULT OF STEP')
+                    ? JSON.stringify({ decision: 'continue' })
+                    : JSON.stringify({ goal: 'Gated', actions });
+                return { content, model: 'mock-model', provider: 'mock' };
+            };
+        };
+
+        beforeEach(() => {
+            agentMode.setEnabled(true);
+            executed = [];
+            originalExecute = toolRegistry.executeAction;
+            toolRegistry.executeAction = async (type: string, payload: any) => {
+                executed.push({ type, payload });
+                return { success: true, message: `Ran ${type}` };
+            };
+        });
+
+        afterEach(() => {
+            toolRegistry.executeAction = originalExecute;
+        });
+
+        it('should skip actions the user declines and tell the model', async () => {
+            scriptPlan([
+                { type: 'terminal', description: 'Run tests', payload: { command: 'npm', args: ['test'] } },
+                { type: 'file_operation', description: 'Read log', payload: { operation: 'read', filePath: 'log.txt' } }
+            ]);
+
+            const requests: string[] = [];
+            agentMode.setApprovalHandler(async request => {
+                requests.push(request.preview.text);
+                return { decision: 'skip' };
+            });
+            await agentMode.executeAgentRequest('Gated run');
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(requests, ['npm test']);
+            assert.deepStrictEqual(executed.map(e => e.type), ['file_operation']);
+            assert.strictEqual(plan.actions[0].status, 'skipped');
+            assert.ok(prompts.some(prompt => prompt.includes('SKIPPED')));
+        });
+
+        it('should run approved actions with the edited payload', async () => {
+            scriptPlan([
+                { type: 'git_operation', description: 'Push', payload: { operation: 'push' } }
+            ]);
+
+            agentMode.setApprovalHandler(async () => ({ decision: 'edit', payload: { operation: 'status' } }));
+            await agentMode.executeAgentRequest('Gated push');
+
+            assert.deepStrictEqual(executed, [{ type: 'git_operation', payload: { operation: 'status' } }]);
+        });
+
+        it('should record changes without applying them in a dry run', async () => {
+            scriptPlan([
+                { type: 'file_operation', description: 'Read config', payload: { operation: 'read', filePath: 'config.json' } },
+                { type: 'file_operation', description: 'Write notes', payload: { operation: 'create', filePath: 'notes.md', content: '# Notes' } }
+            ]);
+
+            const result = await agentMode.executeAgentRequest('Dry run', undefined, { dryRun: true });
+            const plan = agentMode.getCurrentPlan()!;
+
+            assert.deepStrictEqual(executed.map(e => e.payload.operation), ['read']);
+            assert.strictEqual(plan.proposedChanges.length, 1);
+            assert.strictEqual(plan.proposedChanges[0].preview.kind, 'diff');
+            assert.ok(result.includes('Dry Run'));
+            assert.ok(result.includes('+# Notes'));
+        });
+    });
+
     describe('Error Handling and Edge Cases', () => {
         it('should reject requests when agent mode is disabled', async () => {
             agentMode.setEnabled(false);
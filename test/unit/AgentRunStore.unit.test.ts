@@ -0,0 +1,95 @@
+/**
+ * Agent Run Store Unit Tests
+ *
+ * Covers saving run progress, marking runs interrupted on reload, where a
+ * resume starts, pruning old runs and the exported report.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AgentRunAction, AgentRunPlan, AgentRunStore, createRunReport, getResumeIndex } from '../../src/agent/AgentRunStore';
+
+function action(id: string, status: string, extra: Partial<AgentRunAction> = {}): AgentRunAction {
+    return { id, type: 'file_operation', description: `Step ${id}`, payload: { operation: 'read', filePath: `${id}.ts` }, dependsOn: [], status, timestamp: 0, ...extra };
+}
+
+function plan(actions: AgentRunAction[]): AgentRunPlan {
+    return { goal: 'Test goal', actions, status: 'executing', startTime: 0, iteration: 0, tokensUsed: 0, dryRun: false, history: [] };
+}
+
+suite('AgentRunStore Unit Tests', () => {
+    let root: string;
+    let store: AgentRunStore;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-runs-'));
+        store = new AgentRunStore();
+        store.configure(root);
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should save progress and mark unfinished runs interrupted on reload', () => {
+        const finished = store.start('Finished request', plan([action('a', 'pending')]));
+        store.finish(finished.id, 'completed', plan([action('a', 'completed', { result: 'done' })]), { summary: 'All done' });
+
+        const running = store.start('Running request', plan([action('a', 'pending'), action('b', 'pending')]));
+        store.update(running.id, plan([action('a', 'completed'), action('b', 'executing')]));
+
+        const reloaded = new AgentRunStore();
+        const interrupted = reloaded.configure(root);
+
+        assert.deepStrictEqual(interrupted.map(run => run.request), ['Running request']);
+        assert.strictEqual(reloaded.getRun(running.id)?.status, 'interrupted');
+        assert.deepStrictEqual(reloaded.getRun(running.id)?.plan.actions.map(a => a.status), ['completed', 'executing']);
+        assert.strictEqual(reloaded.getRun(finished.id)?.summary, 'All done');
+
+        // The interrupted state is saved, so the next reload doesn't report it again
+        assert.deepStrictEqual(new AgentRunStore().configure(root), []);
+    });
+
+    test('should count attempts when a run is resumed', () => {
+        const run = store.start('Request', plan([action('a', 'failed')]));
+        store.finish(run.id, 'failed', plan([action('a', 'failed')]), { error: 'Boom' });
+        store.resume(run.id, plan([action('a', 'pending')]));
+
+        assert.strictEqual(store.getRun(run.id)?.status, 'running');
+        assert.strictEqual(store.getRun(run.id)?.attempts, 2);
+        assert.strictEqual(store.getRun(run.id)?.error, undefined);
+    });
+
+    test('should resume from the first step that did not complete', () => {
+        assert.strictEqual(getResumeIndex(plan([action('a', 'completed'), action('b', 'skipped'), action('c', 'blocked'), action('d', 'failed')])), 2);
+        assert.strictEqual(getResumeIndex(plan([action('a', 'completed'), action('b', 'skipped')])), -1);
+    });
+
+    test('should keep only the newest runs and leave running ones alone', () => {
+        store.maxRuns = 2;
+        const first = store.start('First', plan([]));
+        const second = store.start('Second', plan([]));
+        store.finish(second.id, 'completed', plan([]));
+        const third = store.start('Third', plan([]));
+
+        assert.deepStrictEqual(store.getRuns().map(run => run.id).sort(), [first.id, third.id].sort());
+        assert.strictEqual(fs.readdirSync(root).length, 2);
+    });
+
+    test('should write a report with each step, its changed files and fenced output', () => {
+        const run = store.start('Fix the build', plan([
+            action('read', 'completed', { result: 'has ``` fences' }),
+            action('write', 'failed', { dependsOn: ['read'], error: 'Disk full', changedFiles: ['/ws/src/app.ts'] })
+        ]));
+
+        const report = createRunReport(run, filePath => filePath.replace('/ws/', ''));
+        assert.ok(report.includes('- **Request:** Fix the build'));
+        assert.ok(report.includes('### 2. Step write'));
+        assert.ok(report.includes('- **After steps:** 1'));
+        assert.ok(report.includes('- **Changed files:** `src/app.ts`'));
+        assert.ok(report.includes('**Error:** Disk full'));
+        assert.ok(report.includes('````\nhas ``` fences\n````'));
+    });
+});
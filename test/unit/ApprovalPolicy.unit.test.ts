@@ -0,0 +1,113 @@
+/**
+ * Approval Policy Unit Tests
+ *
+ * Covers rule matching, blocked commands, read-only detection for dry runs
+ * and the previews shown on approval cards.
+ */
+
+import * as assert from 'assert';
+import {
+    buildActionPreview,
+    createApprovalPolicy,
+    createLineDiff,
+    evaluateApproval,
+    isReadOnlyAction,
+    proposeFileContent
+} from '../../src/agent/ApprovalPolicy';
+
+suite('ApprovalPolicy Unit Tests', () => {
+    suite('evaluateApproval', () => {
+        test('should apply the built-in defaults', () => {
+            const policy = createApprovalPolicy();
+
+            assert.strictEqual(evaluateApproval(policy, 'file_operation', { operation: 'read', filePath: 'a.ts' }).decision, 'auto');
+            assert.strictEqual(evaluateApproval(policy, 'file_operation', { operation: 'delete', filePath: 'a.ts' }).decision, 'ask');
+            assert.strictEqual(evaluateApproval(policy, 'terminal', { command: 'npm', args: ['test'] }).decision, 'ask');
+            assert.strictEqual(evaluateApproval(policy, 'git_operation', { operation: 'push' }).decision, 'ask');
+            assert.strictEqual(evaluateApproval(policy, 'git_operation', { operation: 'status' }).decision, 'auto');
+        });
+
+        test('should check user rules first and honour the default decision', () => {
+            const policy = createApprovalPolicy({
+                rules: [
+                    { tool: 'terminal', decision: 'auto' },
+                    { tool: 'file_operation', operation: '*', decision: 'ask' },
+                    { tool: 'bogus' }
+                ],
+                defaultDecision: 'deny'
+            });
+
+            assert.strictEqual(evaluateApproval(policy, 'terminal', { command: 'npm' }).decision, 'auto');
+            assert.strictEqual(evaluateApproval(policy, 'file_operation', { operation: 'read' }).decision, 'ask');
+            assert.strictEqual(evaluateApproval(policy, 'webscraping', { action: 'fetch' }).decision, 'deny');
+        });
+
+        test('should ask for tools listed in requireConfirmation', () => {
+            const policy = createApprovalPolicy({ requireConfirmation: ['database'] });
+            const evaluation = evaluateApproval(policy, 'database', { action: 'migrate' });
+
+            assert.strictEqual(evaluation.decision, 'ask');
+            assert.strictEqual(evaluation.operation, 'migrate');
+        });
+
+        test('should deny blocked commands even when a rule allows them', () => {
+            const policy = createApprovalPolicy({
+                rules: [{ tool: '*', decision: 'auto' }],
+                blockedCommands: ['rm -rf', 'push --force']
+            });
+
+            assert.strictEqual(evaluateApproval(policy, 'terminal', { command: 'rm', args: ['-rf', 'dist'] }).decision, 'deny');
+            assert.strictEqual(evaluateApproval(policy, 'terminal', { command: 'ls' }).decision, 'auto');
+        });
+    });
+
+    suite('isReadOnlyAction', () => {
+        test('should only treat inspection actions as read-only', () => {
+            assert.ok(isReadOnlyAction('file_operation', { operation: 'read' }));
+            assert.ok(isReadOnlyAction('git_operation', { operation: 'diff' }));
+            assert.ok(isReadOnlyAction('git_operation', { operation: 'pr_diff' }));
+            assert.ok(!isReadOnlyAction('file_operation', { operation: 'write' }));
+            assert.ok(!isReadOnlyAction('terminal', { command: 'ls' }));
+        });
+    });
+
+    suite('proposeFileContent', () => {
+        test('should mirror file operation edits', () => {
+            assert.strictEqual(proposeFileContent({ operation: 'edit', searchText: 'a', replaceText: 'b', replaceAll: true }, 'a-a'), 'b-b');
+            assert.strictEqual(proposeFileContent({ operation: 'edit', searchText: 'a', replaceText: 'b' }, 'a-a'), undefined);
+            assert.strictEqual(proposeFileContent({ operation: 'edit', content: 'x', lineNumber: 2 }, 'one\ntwo'), 'one\nx\ntwo');
+            assert.strictEqual(proposeFileContent({ operation: 'edit', content: 'end', insertAt: 'end' }, 'start'), 'start\nend');
+            assert.strictEqual(proposeFileContent({ operation: 'delete' }, 'gone'), '');
+            assert.strictEqual(proposeFileContent({ operation: 'copy' }, 'same'), undefined);
+        });
+    });
+
+    suite('Previews', () => {
+        test('should show a unified diff for file changes', () => {
+            const preview = buildActionPreview('file_operation', { operation: 'write', filePath: 'a.txt', content: 'one\nTWO\nthree' }, 'one\ntwo\nthree');
+
+            assert.strictEqual(preview.kind, 'diff');
+            assert.strictEqual(preview.title, 'Modify a.txt');
+            assert.strictEqual(preview.text, '--- a/a.txt\n+++ b/a.txt\n one\n-two\n+TWO\n three');
+        });
+
+        test('should show the command line for terminal and git actions', () => {
+            assert.deepStrictEqual(buildActionPreview('terminal', { command: 'npm', args: ['run', 'build'] }), {
+                kind: 'command',
+                title: 'Run `npm run build`',
+                text: 'npm run build'
+            });
+            assert.strictEqual(buildActionPreview('git_operation', { operation: 'push' }).text, 'git push');
+        });
+
+        test('should collapse unchanged stretches of long files', () => {
+            const before = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+            const after = before.replace('line 1\n', 'LINE 1\n').replace('line 18', 'LINE 18');
+            const diff = createLineDiff(before, after).split('\n');
+
+            assert.ok(diff.includes('@@'));
+            assert.ok(diff.includes('+LINE 18'));
+            assert.ok(!diff.includes(' line 10'));
+        });
+    });
+});
@@ -0,0 +1,154 @@
+/**
+ * Checkpoint Manager Unit Tests
+ *
+ * Covers snapshot grouping, tracking which files a step changed, undoing a
+ * checkpoint, restoring to an earlier one, diffing between checkpoints and
+ * pruning at the checkpoint limit, against a temporary directory.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckpointManager } from '../../src/agent/CheckpointManager';
+
+suite('CheckpointManager Unit Tests', () => {
+    let root: string;
+    let manager: CheckpointManager;
+
+    const file = (name: string) => path.join(root, 'workspace', name);
+    const read = (name: string) => fs.existsSync(file(name)) ? fs.readFileSync(file(name), 'utf8') : undefined;
+    const write = (name: string, content: string) => {
+        manager.snapshotFile(file(name));
+        fs.mkdirSync(path.dirname(file(name)), { recursive: true });
+        fs.writeFileSync(file(name), content);
+    };
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-checkpoints-'));
+        fs.mkdirSync(path.join(root, 'workspace'));
+        fs.writeFileSync(file('a.txt'), 'one');
+        manager = new CheckpointManager();
+        manager.configure(path.join(root, 'storage'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should group snapshots by turn and keep the first state of each file', () => {
+        const handle = manager.begin('Turn 1', 'chat', 'msg-1');
+        write('a.txt', 'two');
+        write('a.txt', 'three');
+        write('new.txt', 'created');
+        manager.end(handle);
+
+        const checkpoints = manager.getCheckpoints();
+        assert.strictEqual(checkpoints.length, 1);
+        assert.strictEqual(manager.getCheckpointForGroup('msg-1')?.id, checkpoints[0].id);
+        assert.deepStrictEqual(checkpoints[0].files.map(f => [path.basename(f.filePath), f.blob === null]), [['a.txt', false], ['new.txt', true]]);
+    });
+
+    test('should join an outer checkpoint when one is already open', () => {
+        const outer = manager.begin('Turn', 'chat', 'msg-1');
+        const inner = manager.begin('Agent plan', 'agent');
+        write('a.txt', 'two');
+        manager.end(inner);
+        write('b.txt', 'bee');
+        manager.end(outer);
+
+        assert.strictEqual(manager.getCheckpoints().length, 1);
+        assert.strictEqual(manager.getCheckpoints()[0].files.length, 2);
+    });
+
+    test('should report the files snapshotted while tracking, even ones already in the checkpoint', () => {
+        const handle = manager.begin('Agent plan', 'agent');
+        write('a.txt', 'two');
+
+        const stop = manager.trackFiles();
+        write('a.txt', 'three');
+        write('b.txt', 'bee');
+        const tracked = stop();
+        write('c.txt', 'sea');
+        manager.end(handle);
+
+        assert.deepStrictEqual(tracked.map(f => path.basename(f)), ['a.txt', 'b.txt']);
+        assert.strictEqual(manager.getCheckpoints()[0].files.length, 3);
+    });
+
+    test('should undo a turn, deleting files it created, and let the undo be undone', () => {
+        const handle = manager.begin('Turn 1', 'chat', 'msg-1');
+        write('a.txt', 'two');
+        write('new.txt', 'created');
+        manager.end(handle);
+
+        const result = manager.undoCheckpoint(manager.getCheckpoints()[0].id);
+        assert.strictEqual(read('a.txt'), 'one');
+        assert.strictEqual(read('new.txt'), undefined);
+        assert.strictEqual(result.deleted.length, 1);
+
+        manager.undoCheckpoint(result.safetyCheckpointId!);
+        assert.strictEqual(read('a.txt'), 'two');
+        assert.strictEqual(read('new.txt'), 'created');
+    });
+
+    test('should restore to the start of an earlier checkpoint and diff between checkpoints', () => {
+        let handle = manager.begin('Turn 1', 'chat', 'msg-1');
+        write('a.txt', 'two');
+        manager.end(handle);
+        handle = manager.begin('Turn 2', 'chat', 'msg-2');
+        write('a.txt', 'three');
+        write('b.txt', 'bee');
+        manager.end(handle);
+
+        const [first, second] = manager.getCheckpoints();
+        const turnOne = manager.diffCheckpoints(first.id, second.id);
+        assert.deepStrictEqual(turnOne.map(d => d.status), ['modified']);
+        assert.ok(turnOne[0].diff.includes('-one\n+two'));
+
+        const sinceFirst = manager.diffCheckpoints(first.id);
+        assert.deepStrictEqual(sinceFirst.map(d => [path.basename(d.filePath), d.status]), [['a.txt', 'modified'], ['b.txt', 'added']]);
+
+        manager.restoreToCheckpoint(first.id);
+        assert.strictEqual(read('a.txt'), 'one');
+        assert.strictEqual(read('b.txt'), undefined);
+    });
+
+    test('should keep the snapshot just taken when pruning at the limit', () => {
+        manager.configure(path.join(root, 'storage'), 1);
+        write('a.txt', 'two');
+        write('a.txt', 'three');
+
+        const checkpoints = manager.getCheckpoints();
+        assert.strictEqual(checkpoints.length, 1);
+        assert.strictEqual(fs.readdirSync(path.join(root, 'storage', 'blobs')).length, 1);
+
+        manager.undoCheckpoint(checkpoints[0].id);
+        assert.strictEqual(read('a.txt'), 'two');
+    });
+
+    test('should undo the oldest checkpoint when the safety checkpoint reaches the limit', () => {
+        manager.configure(path.join(root, 'storage'), 2);
+        write('a.txt', 'two');
+        write('a.txt', 'three');
+
+        const [oldest] = manager.getCheckpoints();
+        const result = manager.undoCheckpoint(oldest.id);
+
+        assert.strictEqual(read('a.txt'), 'one');
+        assert.deepStrictEqual(result.laterChanges.map(f => path.basename(f)), ['a.txt']);
+        assert.strictEqual(manager.getCheckpoints().length, 2);
+        assert.ok(manager.getCheckpoint(result.safetyCheckpointId!));
+    });
+
+    test('should reload checkpoints from storage', () => {
+        const handle = manager.begin('Turn 1', 'chat', 'msg-1');
+        write('a.txt', 'two');
+        manager.end(handle);
+
+        const reloaded = new CheckpointManager();
+        reloaded.configure(path.join(root, 'storage'));
+        reloaded.undoCheckpoint(reloaded.getCheckpoints()[0].id);
+        assert.strictEqual(read('a.txt'), 'one');
+    });
+});
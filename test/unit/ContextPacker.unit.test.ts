@@ -0,0 +1,152 @@
+/**
+ * Context Packer Unit Tests
+ *
+ * Covers packing within the token budget, referenced files ahead of retrieved
+ * ones, symbol-level excerpts of large files, merging of overlapping ranges,
+ * and the reasons reported for included and dropped files.
+ */
+
+import * as assert from 'assert';
+import { ContextCandidate, mergeRanges, packContext } from '../../src/context/ContextPacker';
+import { estimateContextFileTokens } from '../../src/providers/TokenBudget';
+
+// A file of the named functions, each `length` lines long, and where each starts
+function sourceFile(names: string[], length = 30): { content: string; symbols: { name: string; line: number }[] } {
+    const lines: string[] = [];
+    const symbols: { name: string; line: number }[] = [];
+    for (const name of names) {
+        symbols.push({ name, line: lines.length + 1 });
+        lines.push(`export function ${name}(input: Record<string, number>): number {`);
+        for (let i = 1; i < length - 1; i++) {
+            lines.push(`    const step${i} = input.value${i} * ${i} + input.offset${i};`);
+        }
+        lines.push('}');
+    }
+    return { content: lines.join('\n'), symbols };
+}
+
+function numberedLines(count: number): string {
+    return Array.from({ length: count }, (_, i) => `line ${i + 1} of the matched file`).join('\n');
+}
+
+suite('ContextPacker Unit Tests', () => {
+    test('should send small files whole with referenced files first', async () => {
+        const pack = await packContext([
+            { path: '/ws/src/retrieved.ts', content: 'export const retrieved = 1;', relevanceScore: 80 },
+            { path: '/ws/src/referenced.ts', content: 'export const referenced = 2;', explicit: true }
+        ], 'referenced value', 4000);
+
+        assert.deepStrictEqual(pack.files.map(file => file.path), ['/ws/src/referenced.ts', '/ws/src/retrieved.ts']);
+        assert.deepStrictEqual(pack.files.map(file => file.isIntelligentContext), [false, true]);
+        assert.deepStrictEqual(pack.report.included.map(entry => entry.reason), ['Referenced', 'Relevant']);
+        assert.strictEqual(pack.report.dropped.length, 0);
+        assert.strictEqual(pack.report.usedTokens, pack.files.reduce((sum, file) => sum + estimateContextFileTokens(file), 0));
+    });
+
+    test('should cut large retrieved files down to the symbols asked about', async () => {
+        const names = ['parseHeader', 'validateSignature', 'renderInvoice', 'computeTotals', 'formatCurrency', 'sendReceipt', 'archiveOrder'];
+        const { content, symbols } = sourceFile(names);
+
+        const pack = await packContext([
+            { path: '/ws/src/billing.ts', content, symbols, relevanceScore: 0.9 }
+        ], 'Why does computeTotals round the wrong way?', 100000);
+
+        const [entry] = pack.report.included;
+        assert.ok(entry.lines, 'a large retrieved file is sent as an excerpt');
+        assert.ok(entry.reason.includes('computeTotals'), entry.reason);
+        assert.ok(pack.files[0].content.includes('export function computeTotals'));
+        assert.ok(!pack.files[0].content.includes('export function archiveOrder'));
+        assert.ok(entry.tokens <= 1500 + estimateContextFileTokens({ path: entry.path, content: '' }));
+    });
+
+    test('should merge overlapping excerpts of the same file', async () => {
+        const content = numberedLines(100);
+
+        const pack = await packContext([
+            { path: '/ws/src/matched.ts', content, ranges: [{ startLine: 10, endLine: 20 }, { startLine: 60, endLine: 65 }], relevanceScore: 0.6 },
+            { path: '/ws/src/matched.ts', content, ranges: [{ startLine: 15, endLine: 30 }], relevanceScore: 0.8 }
+        ], 'matched file', 4000);
+
+        assert.strictEqual(pack.files.length, 1);
+        assert.strictEqual(pack.files[0].lines, '10-30, 60-65');
+        assert.strictEqual(pack.files[0].relevanceScore, 0.8);
+        assert.strictEqual(pack.files[0].content.split('\n').filter(line => line === 'line 15 of the matched file').length, 1);
+        assert.ok(pack.report.included[0].reason.includes('2 overlapping candidates merged'));
+    });
+
+    test('should let a whole file cover excerpts of it and a reference win over retrieval', async () => {
+        const content = numberedLines(40);
+
+        const pack = await packContext([
+            { path: '/ws/src/shared.ts', content, ranges: [{ startLine: 5, endLine: 8 }], relevanceScore: 0.7 },
+            { path: '/ws/src/shared.ts', content, explicit: true }
+        ], 'shared', 4000);
+
+        assert.strictEqual(pack.files.length, 1);
+        assert.strictEqual(pack.files[0].content, content);
+        assert.strictEqual(pack.files[0].lines, undefined);
+        assert.strictEqual(pack.files[0].isIntelligentContext, false);
+    });
+
+    test('should cut a referenced file to fit rather than drop it', async () => {
+        const { content, symbols } = sourceFile(['loadConfig', 'mergeDefaults', 'watchConfig', 'saveConfig', 'resetConfig', 'exportConfig']);
+
+        const pack = await packContext([
+            { path: '/ws/src/config.ts', content, symbols, explicit: true }
+        ], 'how is watchConfig debounced', 900);
+
+        const [entry] = pack.report.included;
+        assert.ok(entry.reason.startsWith('Referenced, cut to fit'), entry.reason);
+        assert.ok(entry.reason.includes('watchConfig'));
+        assert.ok(pack.report.usedTokens <= 900, `${pack.report.usedTokens} tokens`);
+    });
+
+    test('should drop referenced files once the budget is spent', async () => {
+        const first = { path: '/ws/src/first.ts', content: numberedLines(80), explicit: true };
+        const budget = estimateContextFileTokens(first) + 50;
+
+        const pack = await packContext([first, { path: '/ws/src/second.ts', content: numberedLines(80), explicit: true }], 'first', budget);
+
+        assert.deepStrictEqual(pack.files.map(file => file.path), ['/ws/src/first.ts']);
+        assert.deepStrictEqual(pack.report.dropped.map(entry => entry.path), ['/ws/src/second.ts']);
+        assert.ok(pack.report.dropped[0].reason.startsWith('No room left'), pack.report.dropped[0].reason);
+    });
+
+    test('should stay within the budget and say why retrieved files were left out', async () => {
+        const candidates: ContextCandidate[] = Array.from({ length: 12 }, (_, i) => ({
+            path: `/ws/src/module${i}.ts`,
+            content: numberedLines(60),
+            relevanceScore: 90 - i
+        }));
+
+        const pack = await packContext(candidates, 'matched file', 2500);
+
+        assert.ok(pack.report.included.length > 0);
+        assert.ok(pack.report.dropped.length > 0);
+        assert.strictEqual(pack.report.included.length + pack.report.dropped.length, candidates.length);
+        assert.ok(pack.report.usedTokens <= 2500, `${pack.report.usedTokens} tokens`);
+        assert.ok(pack.report.dropped.every(entry => entry.reason.length > 0));
+        assert.ok(pack.report.included.every(entry => entry.tokens > 0));
+    });
+
+    test('should respect the file limit', async () => {
+        const candidates: ContextCandidate[] = Array.from({ length: 5 }, (_, i) => ({
+            path: `/ws/src/small${i}.ts`,
+            content: `export const value${i} = ${i};`
+        }));
+
+        const pack = await packContext(candidates, 'value', 10000, { maxFiles: 2 });
+
+        assert.strictEqual(pack.files.length, 2);
+        assert.deepStrictEqual(pack.report.dropped.map(entry => entry.reason), Array(3).fill('Over the 2-file limit'));
+    });
+
+    test('should merge overlapping and adjacent ranges', () => {
+        assert.deepStrictEqual(mergeRanges([
+            { startLine: 30, endLine: 40 },
+            { startLine: 1, endLine: 5 },
+            { startLine: 6, endLine: 9 },
+            { startLine: 35, endLine: 50 }
+        ]), [{ startLine: 1, endLine: 9 }, { startLine: 30, endLine: 50 }]);
+    });
+});
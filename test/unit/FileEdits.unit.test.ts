@@ -0,0 +1,104 @@
+/**
+ * File Edits Unit Tests
+ *
+ * Covers anchored search/replace (unique matches, expected counts, line
+ * ranges) and unified-diff patch application with offsets and fuzz.
+ */
+
+import * as assert from 'assert';
+import { EditError, applyFileEdit, applyUnifiedPatch } from '../../src/agent/FileEdits';
+
+const SOURCE = [
+    'function a() {',
+    '    return 1;',
+    '}',
+    '',
+    'function b() {',
+    '    return 1;',
+    '}'
+].join('\n');
+
+function assertEditError(fn: () => unknown, code: string, messagePart: string): void {
+    assert.throws(fn, (error: unknown) => {
+        assert.ok(error instanceof EditError);
+        assert.strictEqual(error.code, code);
+        assert.ok(error.message.includes(messagePart), error.message);
+        return true;
+    });
+}
+
+suite('FileEdits Unit Tests', () => {
+    suite('Search and replace', () => {
+        test('should replace a unique anchor and report its line', () => {
+            const result = applyFileEdit(SOURCE, { searchText: 'function b', replaceText: 'function c' });
+
+            assert.ok(result.content.includes('function c() {'));
+            assert.strictEqual(result.message, 'Replaced 1 occurrence(s) of searchText at line 5');
+        });
+
+        test('should refuse ambiguous and missing anchors', () => {
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'return 1;', replaceText: 'return 2;' }), 'ambiguous', 'lines 2, 6');
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'function  a', replaceText: 'x' }), 'not_found', 'not found in the file');
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'return 1;\n}', replaceText: 'x', startLine: 4, endLine: 5 }), 'not_found', 'lines 4-5');
+        });
+
+        test('should point at near matches that differ in whitespace', () => {
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'function a() {\n  return 1;', replaceText: 'x' }), 'not_found', 'appears at line 1');
+        });
+
+        test('should honour expected occurrences, replaceAll and line ranges', () => {
+            const all = applyFileEdit(SOURCE, { searchText: 'return 1;', replaceText: 'return 2;', expectedOccurrences: 2 });
+            assert.strictEqual(all.content.split('return 2;').length, 3);
+            assert.strictEqual(applyFileEdit(SOURCE, { searchText: 'return 1;', replaceText: 'return 2;', replaceAll: true }).content, all.content);
+
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'return 1;', replaceText: 'x', expectedOccurrences: 3 }), 'count_mismatch', 'found 2');
+
+            const scoped = applyFileEdit(SOURCE, { searchText: 'return 1;', replaceText: 'return 2;', startLine: 5, endLine: 7 });
+            assert.deepStrictEqual(scoped.content.split('\n').filter(line => line.includes('return')), ['    return 1;', '    return 2;']);
+
+            assertEditError(() => applyFileEdit(SOURCE, { searchText: 'x', replaceText: 'y', startLine: 9 }), 'invalid_range', 'past the end');
+        });
+
+        test('should insert replacement text literally', () => {
+            const result = applyFileEdit('price', { searchText: 'price', replaceText: '$& $1' });
+            assert.strictEqual(result.content, '$& $1');
+        });
+    });
+
+    suite('Unified patches', () => {
+        test('should apply hunks and report offsets', () => {
+            const patch = [
+                '--- a/src/file.ts',
+                '+++ b/src/file.ts',
+                '@@ -1,3 +1,3 @@',
+                ' function a() {',
+                '-    return 1;',
+                '+    return 10;',
+                ' }',
+                '@@ -3,3 +3,3 @@',
+                ' function b() {',
+                '-    return 1;',
+                '+    return 20;',
+                ' }'
+            ].join('\n');
+            const result = applyUnifiedPatch(SOURCE, patch);
+
+            assert.ok(result.content.includes('return 10;') && result.content.includes('return 20;'));
+            assert.strictEqual(result.message, 'Applied 2 hunks (hunk 2 offset +2 lines)');
+        });
+
+        test('should apply with fuzz when outer context has changed', () => {
+            const patch = ['@@ -5,3 +5,3 @@', ' function b() { // renamed', '-    return 1;', '+    return 2;', ' }'].join('\n');
+            const result = applyFileEdit(SOURCE, { patch });
+
+            assert.ok(result.content.endsWith('function b() {\n    return 2;\n}'));
+            assert.ok(result.message.includes('fuzz 1'));
+            assertEditError(() => applyFileEdit(SOURCE, { patch, fuzz: 0 }), 'patch_failed', 'Hunk 1');
+        });
+
+        test('should reject malformed patches and ambiguous bare hunks', () => {
+            assertEditError(() => applyFileEdit(SOURCE, { patch: 'not a diff' }), 'invalid_patch', 'no hunks');
+            assertEditError(() => applyFileEdit(SOURCE, { patch: '@@\n-    return 1;\n+    return 2;' }), 'patch_failed', 'matches 2 places');
+        });
+    });
+});
@@ -0,0 +1,140 @@
+/**
+ * File Enumerator Unit Tests
+ *
+ * Covers default exclusions, nested .gitignore files with negation and
+ * anchoring, .cuovareignore, and listing and display paths across several
+ * workspace folders.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileEnumerator } from '../../src/context/FileEnumerator';
+
+suite('FileEnumerator Unit Tests', () => {
+    let root: string;
+    let enumerator: FileEnumerator;
+
+    const p = (name: string) => path.join(root, name);
+
+    const write = (files: Record<string, string>) => {
+        for (const [name, content] of Object.entries(files)) {
+            fs.mkdirSync(path.dirname(p(name)), { recursive: true });
+            fs.writeFileSync(p(name), content);
+        }
+    };
+
+    const list = async () => (await enumerator.listFiles()).map(filePath => path.relative(root, filePath).split(path.sep).join('/')).sort();
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-files-'));
+        fs.mkdirSync(path.join(root, 'app', '.git'), { recursive: true });
+        enumerator = new FileEnumerator();
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should skip dependency and build folders unless an ignore file brings them back', async () => {
+        write({
+            'app/src/index.ts': '',
+            'app/node_modules/lib/index.js': '',
+            'app/dist/index.js': '',
+            'app/out/keep.js': '',
+            'app/bundle.min.js': '',
+            'app/.cuovareignore': '!out/\n'
+        });
+        enumerator.configure([{ name: 'app', path: p('app') }]);
+
+        assert.deepStrictEqual(await list(), ['app/.cuovareignore', 'app/out/keep.js', 'app/src/index.ts']);
+    });
+
+    test('should apply nested .gitignore files, anchoring and negation', async () => {
+        write({
+            'app/.gitignore': '# Local files\n*.env\n/generated\nreports/\n!important.env\n',
+            'app/generated/api.ts': '',
+            'app/src/generated/model.ts': '',
+            'app/src/reports/daily.ts': '',
+            'app/src/local.env': '',
+            'app/important.env': '',
+            'app/packages/web/.gitignore': 'cache/**\n*.snap\n!keep.snap\n',
+            'app/packages/web/cache/a/b.json': '',
+            'app/packages/web/view.snap': '',
+            'app/packages/web/keep.snap': '',
+            'app/packages/web/src/[id].tsx': ''
+        });
+        enumerator.configure([{ name: 'app', path: p('app') }]);
+
+        assert.deepStrictEqual(await list(), [
+            'app/.gitignore',
+            'app/important.env',
+            'app/packages/web/.gitignore',
+            'app/packages/web/keep.snap',
+            'app/packages/web/src/[id].tsx',
+            'app/src/generated/model.ts'
+        ]);
+        assert.strictEqual(enumerator.isIgnored(p('app/src/reports/daily.ts')), true);
+        assert.strictEqual(enumerator.isIgnored(p('app/packages/web/cache/a/b.json')), true);
+        assert.strictEqual(enumerator.isIgnored(p('app/src/index.ts')), false);
+        assert.strictEqual(enumerator.isIgnored(p('elsewhere/local.env')), false);
+    });
+
+    test('should hide .cuovareignore matches, including files git tracks', async () => {
+        write({
+            'app/.gitignore': 'secrets/\n',
+            'app/.cuovareignore': 'config/credentials.json\nsrc/**/*.generated.ts\n',
+            'app/config/credentials.json': '',
+            'app/config/settings.json': '',
+            'app/src/api/client.generated.ts': '',
+            'app/src/api/client.ts': '',
+            'app/secrets/key.pem': ''
+        });
+        enumerator.configure([{ name: 'app', path: p('app') }]);
+
+        assert.deepStrictEqual(await list(), ['app/.cuovareignore', 'app/.gitignore', 'app/config/settings.json', 'app/src/api/client.ts']);
+
+        fs.writeFileSync(p('app/.cuovareignore'), '');
+        assert.strictEqual(enumerator.isIgnored(p('app/config/credentials.json')), true);
+        enumerator.clearCache();
+        assert.strictEqual(enumerator.isIgnored(p('app/config/credentials.json')), false);
+    });
+
+    test('should apply the repository .gitignore above a workspace folder', async () => {
+        write({
+            'app/.gitignore': '*.local.ts\n',
+            'app/packages/api/index.ts': '',
+            'app/packages/api/dev.local.ts': ''
+        });
+        enumerator.configure([{ name: 'api', path: p('app/packages/api') }]);
+
+        assert.deepStrictEqual(await list(), ['app/packages/api/index.ts']);
+    });
+
+    test('should list every workspace folder with folder-qualified display paths', async () => {
+        write({
+            'app/src/index.ts': '',
+            'app/src/deep/nested/util.ts': '',
+            'server/.gitignore': 'tmp-data/\n',
+            'server/main.py': '',
+            'server/tmp-data/dump.sql': ''
+        });
+        enumerator.configure([{ name: 'app', path: p('app') }, { name: 'server', path: p('server') }]);
+
+        assert.deepStrictEqual(await list(), ['app/src/deep/nested/util.ts', 'app/src/index.ts', 'server/.gitignore', 'server/main.py']);
+        assert.deepStrictEqual(
+            (await enumerator.listFiles({ maxResults: 2, filter: filePath => filePath.endsWith('.ts') || filePath.endsWith('.py') }))
+                .map(filePath => enumerator.toDisplayPath(filePath)),
+            [path.join('server', 'main.py'), path.join('app', 'src', 'index.ts')]
+        );
+        assert.deepStrictEqual((await enumerator.listFiles({ under: p('app/src/deep') })), [p('app/src/deep/nested/util.ts')]);
+
+        assert.strictEqual(enumerator.resolveDisplayPath(path.join('server', 'main.py')), p('server/main.py'));
+        assert.strictEqual(enumerator.resolveDisplayPath('src/index.ts'), p('app/src/index.ts'));
+        assert.strictEqual(enumerator.resolveDisplayPath('missing.ts'), undefined);
+
+        enumerator.configure([{ name: 'app', path: p('app') }]);
+        assert.strictEqual(enumerator.toDisplayPath(p('app/src/index.ts')), path.join('src', 'index.ts'));
+    });
+});
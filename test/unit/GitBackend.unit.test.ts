@@ -0,0 +1,163 @@
+/**
+ * Git Backend Unit Tests
+ *
+ * Covers parsed status, history, diffs, blame, stash, hunk staging and
+ * repository state against a temporary git repository.
+ */
+
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitBackend, GitError } from '../../src/agent/GitBackend';
+
+suite('GitBackend Unit Tests', () => {
+    let root: string;
+    let git: GitBackend;
+
+    const run = (...args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf8' });
+    const write = (name: string, content: string) => fs.writeFileSync(path.join(root, name), content);
+    const lines = (count: number, change: (line: number) => string | undefined = () => undefined) =>
+        Array.from({ length: count }, (_, i) => change(i + 1) ?? `line ${i + 1}`).join('\n') + '\n';
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-git-'));
+        run('init', '-q', '-b', 'main');
+        run('config', 'user.name', 'Test User');
+        run('config', 'user.email', 'test@example.com');
+        run('config', 'commit.gpgsign', 'false');
+        write('app.ts', lines(30));
+        run('add', '.');
+        run('commit', '-q', '-m', 'Initial commit');
+        git = new GitBackend(root);
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should parse status entries, including renames and untracked files', async () => {
+        run('mv', 'app.ts', 'main.ts');
+        write('notes; rm -rf.md', 'untracked');
+
+        const status = await git.status();
+        assert.strictEqual(status.branch, 'main');
+        assert.strictEqual(status.clean, false);
+        assert.deepStrictEqual(
+            status.files.map(file => [file.path, file.originalPath, file.staged, file.untracked]),
+            [['main.ts', 'app.ts', true, false], ['notes; rm -rf.md', undefined, false, true]]
+        );
+    });
+
+    test('should commit with a message taken literally and return parsed history', async () => {
+        write('app.ts', lines(30, line => line === 3 ? 'changed' : undefined));
+        const commit = await git.commit('fix: "quoted" $(echo nope) `and` more', ['app.ts']);
+
+        assert.strictEqual(commit.subject, 'fix: "quoted" $(echo nope) `and` more');
+        const log = await git.log({ maxCount: 5 });
+        assert.deepStrictEqual(log.map(entry => entry.subject), [commit.subject, 'Initial commit']);
+        assert.strictEqual(log[0].parents[0], log[1].hash);
+
+        const shown = await git.show('HEAD');
+        assert.strictEqual(shown.commit.hash, commit.hash);
+        assert.deepStrictEqual(shown.diff.files, [{ path: 'app.ts', status: 'M', additions: 1, deletions: 1, binary: false }]);
+        assert.ok(shown.diff.patch.includes('+changed'));
+    });
+
+    test('should stage and unstage individual hunks', async () => {
+        write('app.ts', lines(30, line => line === 2 ? 'first change' : line === 28 ? 'second change' : undefined));
+
+        const hunks = await git.hunks('app.ts');
+        assert.strictEqual(hunks.length, 2);
+
+        await git.stageHunks('app.ts', [2]);
+        const staged = await git.diff({ staged: true });
+        assert.ok(staged.patch.includes('+second change'));
+        assert.ok(!staged.patch.includes('+first change'));
+        assert.strictEqual((await git.hunks('app.ts')).length, 1);
+
+        await git.unstageHunks('app.ts', [1]);
+        assert.strictEqual((await git.diff({ staged: true })).files.length, 0);
+        await assert.rejects(git.stageHunks('app.ts', [5]), /Invalid hunk 5/);
+    });
+
+    test('should build a pull request diff from the merge base', async () => {
+        run('checkout', '-q', '-b', 'feature');
+        write('feature.ts', 'export const feature = true;\n');
+        await git.commit('feat: add feature', ['feature.ts']);
+        run('checkout', '-q', 'main');
+        write('app.ts', lines(31));
+        await git.commit('chore: unrelated change on main', ['app.ts']);
+
+        const pr = await git.pullRequestDiff('main', 'feature');
+        assert.deepStrictEqual(pr.commits.map(commit => commit.subject), ['feat: add feature']);
+        assert.deepStrictEqual(pr.files.map(file => [file.path, file.status]), [['feature.ts', 'A']]);
+        assert.strictEqual(pr.additions, 1);
+    });
+
+    test('should push, list and pop stashes', async () => {
+        write('app.ts', lines(30, line => line === 1 ? 'stashed' : undefined));
+
+        const entry = await git.stashPush({ message: 'wip' });
+        assert.strictEqual(entry?.ref, 'stash@{0}');
+        assert.ok(entry?.message.endsWith('wip'));
+        assert.strictEqual((await git.status()).clean, true);
+        assert.strictEqual((await git.stashShow(0)).files[0].path, 'app.ts');
+
+        await git.stashApply(0, { pop: true });
+        assert.strictEqual((await git.stashList()).length, 0);
+        assert.strictEqual((await git.status()).files[0].path, 'app.ts');
+
+        run('checkout', '--', 'app.ts');
+        assert.strictEqual(await git.stashPush(), undefined);
+    });
+
+    test('should list the files a checkout or stash apply writes', async () => {
+        const repo = fs.realpathSync(root);
+        run('checkout', '-q', '-b', 'other');
+        write('added.ts', 'new');
+        run('mv', 'app.ts', 'moved.ts');
+        run('add', '.');
+        run('commit', '-q', '-m', 'other');
+        run('checkout', '-q', 'main');
+
+        assert.deepStrictEqual((await git.changedPaths('HEAD', 'other')).sort(),
+            ['added.ts', 'app.ts', 'moved.ts'].map(file => path.join(repo, file)));
+
+        write('app.ts', 'stashed');
+        write('untracked.ts', 'untracked');
+        await git.stashPush({ includeUntracked: true });
+        assert.deepStrictEqual(await git.stashPaths(0), ['app.ts', 'untracked.ts'].map(file => path.join(repo, file)));
+    });
+
+    test('should blame a line range', async () => {
+        const blame = await git.blame('app.ts', { startLine: 2, endLine: 3 });
+        assert.deepStrictEqual(blame.map(line => [line.line, line.content, line.author, line.summary]), [
+            [2, 'line 2', 'Test User', 'Initial commit'],
+            [3, 'line 3', 'Test User', 'Initial commit']
+        ]);
+    });
+
+    test('should report a merge in progress with its conflicts', async () => {
+        run('checkout', '-q', '-b', 'other');
+        write('app.ts', lines(30, line => line === 1 ? 'other' : undefined));
+        run('commit', '-q', '-am', 'other');
+        run('checkout', '-q', 'main');
+        write('app.ts', lines(30, line => line === 1 ? 'main' : undefined));
+        run('commit', '-q', '-am', 'main');
+        assert.throws(() => run('merge', '-q', 'other'));
+
+        const state = await git.repositoryState();
+        assert.strictEqual(state.operation, 'merge');
+        assert.deepStrictEqual(state.conflicts, ['app.ts']);
+        assert.strictEqual((await git.status()).files[0].conflicted, true);
+    });
+
+    test('should refuse refs that git would read as options', async () => {
+        await assert.rejects(git.checkout('--upload-pack=touch pwned'), GitError);
+        await assert.rejects(git.log({ ref: '-p' }), /Invalid git ref/);
+        await assert.rejects(git.stashDrop('stash@{0}; rm -rf'), /Invalid stash reference/);
+        await assert.rejects(git.push({ remote: 'origin', branch: '+main' }), /Refusing to force-push/);
+    });
+});
@@ -0,0 +1,128 @@
+/**
+ * Local Models Unit Tests
+ *
+ * Runs model discovery and tool-capability probes against a minimal
+ * in-process server standing in for Ollama or an OpenAI-compatible endpoint.
+ */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    discoverOllamaModels,
+    discoverOpenAICompatibleModels,
+    probeOllamaToolSupport,
+    probeOpenAICompatibleToolSupport
+} from '../../src/providers/LocalModels';
+
+interface StubRequest {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+}
+
+type StubHandler = (request: StubRequest) => { status?: number; body: unknown };
+
+async function listen(handler: StubHandler): Promise<{ server: http.Server; url: string; requests: StubRequest[] }> {
+    const requests: StubRequest[] = [];
+    const server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+            const request = { method: req.method, url: req.url, headers: req.headers, body: body ? JSON.parse(body) : undefined };
+            requests.push(request);
+            const reply = handler(request);
+            res.writeHead(reply.status ?? 200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(reply.body));
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, requests };
+}
+
+function close(server: http.Server): Promise<void> {
+    return new Promise(resolve => server.close(() => resolve()));
+}
+
+suite('LocalModels Unit Tests', () => {
+    suite('Ollama', () => {
+        test('should list pulled models', async () => {
+            const { server, url, requests } = await listen(() => ({
+                body: { models: [{ name: 'llama3.1:8b' }, { model: 'qwen2.5-coder' }, {}] }
+            }));
+            try {
+                assert.deepStrictEqual(await discoverOllamaModels(url), ['llama3.1:8b', 'qwen2.5-coder']);
+                assert.strictEqual(requests[0].url, '/api/tags');
+            } finally {
+                await close(server);
+            }
+        });
+
+        test('should read tool support from capabilities, or the template on older builds', async () => {
+            const { server, url } = await listen(({ body }) => {
+                switch (body.model) {
+                    case 'capable': return { body: { capabilities: ['completion', 'tools'] } };
+                    case 'plain': return { body: { capabilities: ['completion'] } };
+                    case 'legacy': return { body: { template: '{{ if .Tools }}{{ .Tools }}{{ end }}' } };
+                    default: return { body: { template: '{{ .Prompt }}' } };
+                }
+            });
+            try {
+                assert.strictEqual(await probeOllamaToolSupport(url, 'capable'), true);
+                assert.strictEqual(await probeOllamaToolSupport(url, 'plain'), false);
+                assert.strictEqual(await probeOllamaToolSupport(url, 'legacy'), true);
+                assert.strictEqual(await probeOllamaToolSupport(url, 'old'), false);
+            } finally {
+                await close(server);
+            }
+        });
+    });
+
+    suite('OpenAI-compatible', () => {
+        test('should list served models with the endpoint key', async () => {
+            const { server, url, requests } = await listen(() => ({ body: { data: [{ id: 'qwen2.5-7b-instruct' }, { id: 'phi-3' }] } }));
+            try {
+                const models = await discoverOpenAICompatibleModels(`${url}/v1`, { Authorization: 'Bearer local-key' });
+
+                assert.deepStrictEqual(models, ['qwen2.5-7b-instruct', 'phi-3']);
+                assert.strictEqual(requests[0].url, '/v1/models');
+                assert.strictEqual(requests[0].headers.authorization, 'Bearer local-key');
+            } finally {
+                await close(server);
+            }
+        });
+
+        test('should only report tool support when the forced call comes back', async () => {
+            const { server, url, requests } = await listen(({ body }) => {
+                switch (body.model) {
+                    case 'capable':
+                        return { body: { choices: [{ message: { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'noop', arguments: '{}' } }] } }] } };
+                    case 'ignores-tools':
+                        return { body: { choices: [{ message: { role: 'assistant', content: 'pong' } }] } };
+                    default:
+                        return { status: 400, body: { error: { message: 'tools are not supported' } } };
+                }
+            });
+            try {
+                assert.strictEqual(await probeOpenAICompatibleToolSupport(`${url}/v1`, 'capable', {}), true);
+                assert.strictEqual(await probeOpenAICompatibleToolSupport(`${url}/v1`, 'ignores-tools', {}), false);
+                assert.strictEqual(await probeOpenAICompatibleToolSupport(`${url}/v1`, 'rejects-tools', {}), false);
+
+                assert.strictEqual(requests[0].url, '/v1/chat/completions');
+                assert.deepStrictEqual(requests[0].body.tool_choice, { type: 'function', function: { name: 'noop' } });
+            } finally {
+                await close(server);
+            }
+        });
+
+        test('should let server errors through so they are not cached as unsupported', async () => {
+            const { server, url } = await listen(() => ({ status: 503, body: { error: { message: 'loading model' } } }));
+            try {
+                await assert.rejects(probeOpenAICompatibleToolSupport(`${url}/v1`, 'capable', {}));
+            } finally {
+                await close(server);
+            }
+        });
+    });
+});
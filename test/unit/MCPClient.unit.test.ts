@@ -0,0 +1,241 @@
+/**
+ * MCP Client Unit Tests
+ *
+ * Runs the client against a minimal in-process server to check request and
+ * reply pairing, timeouts, paginated listing of resources and prompts
+ * (including servers whose cursors never end), cancellation in both
+ * directions, progress tokens and list_changed dispatch.
+ */
+
+import * as assert from 'assert';
+import { MCPClient, MCPClientHandlers, MCPProgressParams, MCPRequestError, METHOD_NOT_FOUND_CODE } from '../../src/mcp/MCPClient';
+import { JSONRPCMessage } from '../../src/mcp/MCPTransport';
+
+// Replies with what `handler` returns for each request; undefined leaves it unanswered
+function connect(handler: (request: JSONRPCMessage) => any, handlers: MCPClientHandlers = {}, timeoutMs = 1000) {
+    const sent: JSONRPCMessage[] = [];
+    const client: MCPClient = new MCPClient('test-server', async message => {
+        sent.push(message);
+        if (message.id === undefined || message.method === undefined) {
+            return;
+        }
+        let reply: JSONRPCMessage | undefined;
+        try {
+            const result = handler(message);
+            reply = result === undefined ? undefined : { jsonrpc: '2.0', id: message.id, result };
+        } catch (error) {
+            reply = { jsonrpc: '2.0', id: message.id, error: { code: -32602, message: (error as Error).message } };
+        }
+        if (reply) {
+            setImmediate(() => client.handleMessage(reply!));
+        }
+    }, handlers, timeoutMs);
+    return { client, sent };
+}
+
+function tick(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
+
+// A list split into pages of `size`, with cursors naming the next offset
+function paged(items: any[], key: string, size: number) {
+    return (request: JSONRPCMessage) => {
+        const offset = Number(request.params?.cursor ?? 0);
+        const next = offset + size;
+        return { [key]: items.slice(offset, next), ...(next < items.length && { nextCursor: String(next) }) };
+    };
+}
+
+suite('MCPClient Unit Tests', () => {
+    suite('Requests', () => {
+        test('should pair replies with requests by id', async () => {
+            const { client, sent } = connect(request => ({ echo: request.params.value }));
+
+            const [first, second] = await Promise.all([
+                client.request('tools/call', { value: 1 }),
+                client.request('tools/call', { value: 2 })
+            ]);
+
+            assert.deepStrictEqual([first, second], [{ echo: 1 }, { echo: 2 }]);
+            assert.notStrictEqual(sent[0].id, sent[1].id);
+        });
+
+        test('should reject error replies with the server message', async () => {
+            const { client } = connect(() => {
+                throw new Error('Unknown resource: file:///missing');
+            });
+
+            await assert.rejects(client.request('resources/read', { uri: 'file:///missing' }), /Unknown resource/);
+        });
+
+        test('should time out unanswered requests and fail pending ones on rejectAll', async () => {
+            const { client } = connect(() => undefined, {}, 20);
+            await assert.rejects(client.request('ping'), /Request "ping" to test-server timed out/);
+
+            const pending = client.request('ping', undefined, { timeoutMs: 1000 });
+            client.rejectAll(new Error('Connection closed'));
+            await assert.rejects(pending, /Connection closed/);
+        });
+    });
+
+    suite('Resources and prompts', () => {
+        test('should read a resource and render a prompt', async () => {
+            const { client } = connect(request => request.method === 'resources/read'
+                ? { contents: [{ uri: request.params.uri, mimeType: 'text/plain', text: 'hello' }] }
+                : { description: 'Review', messages: [{ role: 'user', content: { type: 'text', text: `Review ${request.params.arguments.file}` } }] });
+
+            const read = await client.request('resources/read', { uri: 'file:///notes.txt' });
+            const prompt = await client.request('prompts/get', { name: 'review', arguments: { file: 'a.ts' } });
+
+            assert.strictEqual(read.contents[0].text, 'hello');
+            assert.strictEqual(prompt.messages[0].content.text, 'Review a.ts');
+        });
+
+        test('should merge every page of resources and prompts', async () => {
+            const resources = Array.from({ length: 7 }, (_, i) => ({ uri: `file:///r${i}`, name: `r${i}` }));
+            const prompts = [{ name: 'explain' }, { name: 'review' }, { name: 'test' }];
+            const { client, sent } = connect(request => request.method === 'resources/list'
+                ? paged(resources, 'resources', 3)(request)
+                : paged(prompts, 'prompts', 2)(request));
+
+            assert.deepStrictEqual(await client.listAll('resources/list', 'resources'), resources);
+            assert.deepStrictEqual(await client.listAll('prompts/list', 'prompts'), prompts);
+            assert.deepStrictEqual(sent.filter(m => m.method === 'resources/list').map(m => m.params?.cursor), [undefined, '3', '6']);
+        });
+    });
+
+    suite('Pagination', () => {
+        test('should stop when the server repeats a cursor', async () => {
+            const logs: string[] = [];
+            const { client, sent } = connect(() => ({ prompts: [{ name: 'same' }], nextCursor: 'again' }), { onLog: line => logs.push(line) });
+
+            const prompts = await client.listAll('prompts/list', 'prompts');
+
+            assert.strictEqual(sent.length, 2);
+            assert.strictEqual(prompts.length, 2);
+            assert.ok(logs.some(line => line.includes('repeated cursor')), logs.join('\n'));
+        });
+
+        test('should stop after the page limit when cursors never end', async () => {
+            let page = 0;
+            const logs: string[] = [];
+            const { client, sent } = connect(() => ({ resources: [{ uri: `file:///${page}` }], nextCursor: `page-${++page}` }), { onLog: line => logs.push(line) });
+
+            const resources = await client.listAll('resources/list', 'resources', 5);
+
+            assert.strictEqual(sent.length, 5);
+            assert.strictEqual(resources.length, 5);
+            assert.ok(logs.some(line => line.includes('after 5 pages')), logs.join('\n'));
+        });
+
+        test('should treat a missing list or empty cursor as the end', async () => {
+            const { client, sent } = connect(() => ({ nextCursor: '' }));
+
+            assert.deepStrictEqual(await client.listAll('tools/list', 'tools'), []);
+            assert.strictEqual(sent.length, 1);
+        });
+    });
+
+    suite('Cancellation', () => {
+        test('should fail a cancelled request and tell the server to stop', async () => {
+            const { client, sent } = connect(() => undefined);
+            const controller = new AbortController();
+
+            const call = client.request('tools/call', { name: 'slow' }, { signal: controller.signal });
+            controller.abort(new Error('Cancelled by user'));
+
+            await assert.rejects(call, /Cancelled by user/);
+            await tick();
+            assert.deepStrictEqual(sent[1], {
+                jsonrpc: '2.0',
+                method: 'notifications/cancelled',
+                params: { requestId: sent[0].id, reason: 'Cancelled by user' }
+            });
+
+            // A reply that was already on its way is ignored
+            assert.doesNotThrow(() => client.handleMessage({ jsonrpc: '2.0', id: sent[0].id, result: { late: true } }));
+        });
+
+        test('should not send a request whose signal is already aborted', async () => {
+            const { client, sent } = connect(() => ({}));
+            const controller = new AbortController();
+            controller.abort(new Error('Stopped'));
+
+            await assert.rejects(client.request('tools/call', {}, { signal: controller.signal }), /Stopped/);
+            assert.strictEqual(sent.length, 0);
+        });
+
+        test('should drop the reply to a server request the server cancelled', async () => {
+            let release!: () => void;
+            const { client, sent } = connect(() => undefined, {
+                onRequest: method => method === 'sampling/createMessage'
+                    ? new Promise(resolve => release = () => resolve({ role: 'assistant', content: { type: 'text', text: 'late' } }))
+                    : Promise.resolve({ roots: [] })
+            });
+
+            client.handleMessage({ jsonrpc: '2.0', id: 'sample-1', method: 'sampling/createMessage', params: {} });
+            client.handleMessage({ jsonrpc: '2.0', id: 'roots-1', method: 'roots/list' });
+            client.handleMessage({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId: 'sample-1', reason: 'timeout' } });
+            release();
+            await tick();
+
+            assert.deepStrictEqual(sent.map(message => message.id), ['roots-1']);
+        });
+    });
+
+    suite('Server messages', () => {
+        test('should answer ping itself and report errors with their code', async () => {
+            const { client, sent } = connect(() => undefined, {
+                onRequest: method => Promise.reject(new MCPRequestError(`Method not found: ${method}`, METHOD_NOT_FOUND_CODE))
+            });
+
+            client.handleMessage({ jsonrpc: '2.0', id: 1, method: 'ping' });
+            client.handleMessage({ jsonrpc: '2.0', id: 2, method: 'elicitation/create' });
+            await tick();
+
+            assert.deepStrictEqual(sent[0], { jsonrpc: '2.0', id: 1, result: {} });
+            assert.strictEqual(sent[1].error?.code, METHOD_NOT_FOUND_CODE);
+        });
+
+        test('should dispatch list_changed notifications by kind', () => {
+            const changed: string[] = [];
+            const other: string[] = [];
+            const { client } = connect(() => undefined, {
+                onListChanged: kind => changed.push(kind),
+                onNotification: message => other.push(message.method!)
+            });
+
+            for (const method of ['tools', 'resources', 'prompts', 'roots'].map(kind => `notifications/${kind}/list_changed`)) {
+                client.handleMessage({ jsonrpc: '2.0', method });
+            }
+
+            assert.deepStrictEqual(changed, ['tools', 'resources', 'prompts']);
+            assert.deepStrictEqual(other, ['notifications/roots/list_changed']);
+        });
+
+        test('should report progress only for notifications with a progress token', () => {
+            const progress: MCPProgressParams[] = [];
+            const { client } = connect(() => undefined, { onProgress: update => progress.push(update) });
+
+            client.handleMessage({ jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 'call-7', progress: 3, total: 10, message: 'Indexing' } });
+            client.handleMessage({ jsonrpc: '2.0', method: 'notifications/progress', params: { progress: 5 } });
+
+            assert.deepStrictEqual(progress, [{ progressToken: 'call-7', progress: 3, total: 10, message: 'Indexing' }]);
+        });
+
+        test('should route resource updates and log messages', () => {
+            const updated: string[] = [];
+            const logged: any[] = [];
+            const { client } = connect(() => undefined, {
+                onResourceUpdated: uri => updated.push(uri),
+                onLogMessage: params => logged.push(params)
+            });
+
+            client.handleMessage({ jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'file:///notes.txt' } });
+            client.handleMessage({ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'error', data: 'disk full' } });
+
+            assert.deepStrictEqual(updated, ['file:///notes.txt']);
+            assert.deepStrictEqual(logged, [{ level: 'error', data: 'disk full' }]);
+        });
+    });
+});
@@ -0,0 +1,106 @@
+/**
+ * MCP Sampling Unit Tests
+ *
+ * Covers request validation, per-server limits, model hints and the
+ * conversion of sampling messages into chat transcripts.
+ */
+
+import * as assert from 'assert';
+import {
+    DEFAULT_SAMPLING_LIMITS,
+    INVALID_PARAMS_CODE,
+    MCPSamplingError,
+    SamplingRateLimiter,
+    applyStopSequences,
+    normalizeSamplingLimits,
+    pickHintedModel,
+    toChatMessages,
+    validateSamplingRequest
+} from '../../src/mcp/MCPSampling';
+
+suite('MCPSampling Unit Tests', () => {
+    suite('validateSamplingRequest', () => {
+        test('should accept a well-formed request', () => {
+            assert.doesNotThrow(() => validateSamplingRequest({
+                messages: [{ role: 'user', content: { type: 'text', text: 'Summarize' } }],
+                maxTokens: 100
+            }));
+        });
+
+        test('should reject missing messages or maxTokens with invalid params', () => {
+            const isInvalidParams = (error: any) => error instanceof MCPSamplingError && error.code === INVALID_PARAMS_CODE;
+
+            assert.throws(() => validateSamplingRequest({ messages: [], maxTokens: 100 }), isInvalidParams);
+            assert.throws(() => validateSamplingRequest({ messages: [{ role: 'user', content: { type: 'text' } }] }), isInvalidParams);
+            assert.throws(() => validateSamplingRequest({ messages: [{ role: 'system', content: { type: 'text' } }], maxTokens: 1 }), isInvalidParams);
+        });
+    });
+
+    suite('normalizeSamplingLimits', () => {
+        test('should fill in defaults', () => {
+            assert.deepStrictEqual(normalizeSamplingLimits(undefined), DEFAULT_SAMPLING_LIMITS);
+            assert.strictEqual(normalizeSamplingLimits({ maxTokens: 256 }).maxTokens, 256);
+        });
+
+        test('should ignore nonsensical values', () => {
+            const limits = normalizeSamplingLimits({ maxTokens: -5, maxRequestsPerMinute: 'lots' as any });
+            assert.strictEqual(limits.maxTokens, 1);
+            assert.strictEqual(limits.maxRequestsPerMinute, DEFAULT_SAMPLING_LIMITS.maxRequestsPerMinute);
+        });
+    });
+
+    suite('SamplingRateLimiter', () => {
+        test('should limit requests per server within a minute', () => {
+            const limiter = new SamplingRateLimiter();
+
+            assert.ok(limiter.tryAcquire('a', 2, 0));
+            assert.ok(limiter.tryAcquire('a', 2, 1000));
+            assert.ok(!limiter.tryAcquire('a', 2, 2000));
+            assert.ok(limiter.tryAcquire('b', 2, 2000));
+            assert.ok(limiter.tryAcquire('a', 2, 61000));
+        });
+    });
+
+    suite('pickHintedModel', () => {
+        const candidates = [
+            { provider: 'openai', model: 'gpt-4o-mini' },
+            { provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' }
+        ];
+
+        test('should honour hints in order', () => {
+            assert.deepStrictEqual(
+                pickHintedModel({ hints: [{ name: 'opus' }, { name: 'Sonnet' }, { name: 'gpt' }] }, candidates),
+                candidates[1]
+            );
+        });
+
+        test('should return nothing without a match', () => {
+            assert.strictEqual(pickHintedModel({ hints: [{ name: 'gemini' }] }, candidates), undefined);
+            assert.strictEqual(pickHintedModel(undefined, candidates), undefined);
+        });
+    });
+
+    suite('toChatMessages', () => {
+        test('should prepend the system prompt and replace non-text content', () => {
+            const messages = toChatMessages({
+                systemPrompt: 'Be brief',
+                maxTokens: 10,
+                messages: [
+                    { role: 'user', content: { type: 'text', text: 'Describe this' } },
+                    { role: 'user', content: { type: 'image', data: 'AAAA', mimeType: 'image/png' } }
+                ]
+            });
+
+            assert.deepStrictEqual(messages.map(m => m.role), ['system', 'user', 'user']);
+            assert.strictEqual(messages[1].content, 'Describe this');
+            assert.ok(messages[2].content.includes('image/png'));
+        });
+    });
+
+    suite('applyStopSequences', () => {
+        test('should cut at the earliest stop sequence', () => {
+            assert.deepStrictEqual(applyStopSequences('one END two STOP', ['STOP', 'END']), { text: 'one ', stopped: true });
+            assert.deepStrictEqual(applyStopSequences('no stops', ['END']), { text: 'no stops', stopped: false });
+        });
+    });
+});
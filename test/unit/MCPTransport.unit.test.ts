@@ -0,0 +1,200 @@
+/**
+ * MCP Transport Unit Tests
+ *
+ * Runs each transport against a minimal in-process server to check framing,
+ * endpoint discovery and session handling.
+ */
+
+import * as assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+    JSONRPCMessage,
+    MCPTransportError,
+    SSETransport,
+    StdioTransport,
+    StreamableHTTPTransport,
+    createMCPTransport,
+    expandEnvironment
+} from '../../src/mcp/MCPTransport';
+
+function collect(transport: { onMessage?: (message: JSONRPCMessage) => void }, count: number): Promise<JSONRPCMessage[]> {
+    const messages: JSONRPCMessage[] = [];
+    return new Promise(resolve => {
+        transport.onMessage = message => {
+            messages.push(message);
+            if (messages.length === count) {
+                resolve(messages);
+            }
+        };
+    });
+}
+
+async function listen(handler: http.RequestListener): Promise<{ server: http.Server; url: string }> {
+    const server = http.createServer(handler);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp` };
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+    return new Promise(resolve => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => resolve(body ? JSON.parse(body) : undefined));
+    });
+}
+
+suite('MCPTransport Unit Tests', () => {
+    suite('Configuration', () => {
+        test('should expand environment references', () => {
+            assert.strictEqual(expandEnvironment('Bearer ${env:TOKEN}', { TOKEN: 'abc' }), 'Bearer abc');
+            assert.strictEqual(expandEnvironment('${env:MISSING}', {}), '');
+        });
+
+        test('should pick transports from the config', () => {
+            assert.strictEqual(createMCPTransport({ command: 'node' }).type, 'stdio');
+            assert.strictEqual(createMCPTransport({ url: 'http://localhost/mcp' }).type, 'streamable-http');
+            assert.strictEqual(createMCPTransport({ url: 'http://localhost/sse', transport: 'sse' }).type, 'sse');
+            assert.throws(() => createMCPTransport({ transport: 'sse' }));
+        });
+    });
+
+    suite('StdioTransport', () => {
+        test('should exchange newline-delimited JSON with a child process', async () => {
+            const echo = 'process.stdin.on("data", d => d.toString().split("\\n").filter(Boolean).forEach(l => '
+                + 'process.stdout.write(JSON.stringify({ jsonrpc: "2.0", id: JSON.parse(l).id, result: { ok: true } }) + "\\n")))';
+            const transport = new StdioTransport(process.execPath, ['-e', echo]);
+            const received = collect(transport, 1);
+
+            await transport.start();
+            await transport.send({ jsonrpc: '2.0', id: 7, method: 'ping' });
+
+            const [reply] = await received;
+            assert.strictEqual(reply.id, 7);
+            assert.deepStrictEqual(reply.result, { ok: true });
+            await transport.close();
+        });
+
+        test('should report unexpected exits', async () => {
+            const transport = new StdioTransport(process.execPath, ['-e', 'process.exit(3)']);
+            const closed = new Promise<Error | undefined>(resolve => transport.onClose = resolve);
+
+            await transport.start();
+            const error = await closed;
+            assert.ok(error && /code=3/.test(error.message));
+        });
+    });
+
+    suite('StreamableHTTPTransport', () => {
+        test('should track the session id and accept JSON and SSE replies', async () => {
+            const seenSessions: Array<string | undefined> = [];
+            const { server, url } = await listen(async (req, res) => {
+                if (req.method === 'GET') {
+                    res.writeHead(405).end();
+                    return;
+                }
+                if (req.method === 'DELETE') {
+                    seenSessions.push(`deleted:${req.headers['mcp-session-id']}`);
+                    res.writeHead(200).end();
+                    return;
+                }
+
+                const message = await readJson(req);
+                seenSessions.push(req.headers['mcp-session-id'] as string | undefined);
+
+                if (message.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' });
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { capabilities: {} } }));
+                } else if (message.id === undefined) {
+                    res.writeHead(202).end();
+                } else {
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    res.write(`id: 1\ndata: ${JSON.stringify({ jsonrpc: '2.0', method: 'notifications/progress' })}\n\n`);
+                    res.end(`data: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result: { tools: [] } })}\n\n`);
+                }
+            });
+
+            try {
+                const transport = new StreamableHTTPTransport(url, {});
+                const received = collect(transport, 3);
+
+                await transport.start();
+                await transport.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+                await transport.send({ jsonrpc: '2.0', method: 'notifications/initialized' });
+                await transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' });
+
+                const messages = await received;
+                assert.strictEqual(transport.getSessionId(), 'session-1');
+                assert.deepStrictEqual(messages.map(m => m.id ?? m.method), [1, 'notifications/progress', 2]);
+                assert.deepStrictEqual(seenSessions, [undefined, 'session-1', 'session-1']);
+
+                await transport.close();
+                assert.strictEqual(seenSessions[seenSessions.length - 1], 'deleted:session-1');
+            } finally {
+                server.close();
+            }
+        });
+
+        test('should surface expired sessions', async () => {
+            const { server, url } = await listen(async (req, res) => {
+                const message = await readJson(req);
+                if (message.method === 'initialize') {
+                    res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'gone' });
+                    res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: {} }));
+                } else {
+                    res.writeHead(404).end();
+                }
+            });
+
+            try {
+                const transport = new StreamableHTTPTransport(url, {});
+                const closed = new Promise<Error | undefined>(resolve => transport.onClose = resolve);
+                transport.onMessage = () => undefined;
+
+                await transport.send({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+                await assert.rejects(
+                    transport.send({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+                    (error: any) => error instanceof MCPTransportError && error.status === 404
+                );
+                assert.ok(await closed);
+                assert.strictEqual(transport.getSessionId(), undefined);
+            } finally {
+                server.close();
+            }
+        });
+    });
+
+    suite('SSETransport', () => {
+        test('should POST to the announced endpoint and read replies from the stream', async () => {
+            let stream: http.ServerResponse | undefined;
+            const { server, url } = await listen(async (req, res) => {
+                if (req.method === 'GET') {
+                    stream = res;
+                    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                    res.write('event: endpoint\ndata: /messages?session=abc\n\n');
+                    return;
+                }
+
+                assert.strictEqual(req.url, '/messages?session=abc');
+                const message = await readJson(req);
+                res.writeHead(202).end();
+                stream!.write(`event: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result: {} })}\n\n`);
+            });
+
+            try {
+                const transport = new SSETransport(url, {});
+                const received = collect(transport, 1);
+
+                await transport.start();
+                await transport.send({ jsonrpc: '2.0', id: 5, method: 'ping' });
+
+                const [reply] = await received;
+                assert.strictEqual(reply.id, 5);
+                await transport.close();
+            } finally {
+                stream?.end();
+                server.close();
+            }
+        });
+    });
+});
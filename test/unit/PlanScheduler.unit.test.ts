@@ -0,0 +1,112 @@
+/**
+ * Plan Scheduler Unit Tests
+ *
+ * Covers dependency resolution for proposed actions, blocking dependents of
+ * failed steps, batch selection and the execution graph.
+ */
+
+import * as assert from 'assert';
+import {
+    ScheduledAction,
+    blockDependents,
+    getExecutionLevels,
+    resolveDependencies,
+    selectBatch
+} from '../../src/agent/PlanScheduler';
+
+interface TestAction extends ScheduledAction {
+    writes?: boolean;
+}
+
+function action(id: string, dependsOn: string[] = [], status: ScheduledAction['status'] = 'pending', writes = false): TestAction {
+    return { id, dependsOn, status, writes };
+}
+
+suite('PlanScheduler Unit Tests', () => {
+    suite('resolveDependencies', () => {
+        test('should chain actions that do not declare dependencies', () => {
+            const resolved = resolveDependencies([{}, {}, { dependsOn: [] }]);
+            assert.deepStrictEqual(resolved.map(r => [r.id, r.dependsOn]), [
+                ['step-1', []],
+                ['step-2', ['step-1']],
+                ['step-3', []]
+            ]);
+        });
+
+        test('should resolve ids and step numbers, and drop later or unknown references', () => {
+            const resolved = resolveDependencies([
+                { id: 'read', dependsOn: [] },
+                { id: 'search', dependsOn: ['later', 3] },
+                { id: 'write', dependsOn: ['read', 2, 'read'] }
+            ]);
+
+            assert.deepStrictEqual(resolved[1].dependsOn, []);
+            assert.deepStrictEqual(resolved[1].dropped, ['later', '3']);
+            assert.deepStrictEqual(resolved[2].dependsOn, ['read', 'search']);
+        });
+
+        test('should keep ids unique across existing actions', () => {
+            const resolved = resolveDependencies([{ id: 'read', dependsOn: ['read'] }, { id: '2' }], ['read']);
+            assert.notStrictEqual(resolved[0].id, 'read');
+            assert.deepStrictEqual(resolved[0].dependsOn, ['read']);
+            assert.strictEqual(resolved[1].id, 'step-3');
+        });
+    });
+
+    suite('blockDependents', () => {
+        test('should block every action downstream of a failed one', () => {
+            const actions = [
+                action('a', [], 'failed'),
+                action('b', ['a']),
+                action('c', ['b']),
+                action('d', [], 'completed'),
+                action('e', ['d'])
+            ];
+
+            const blocked = blockDependents(actions);
+            assert.deepStrictEqual(blocked.map(a => a.id), ['b', 'c']);
+            assert.strictEqual(actions[4].status, 'pending');
+            assert.match(actions[2].error || '', /step 2 did not complete \(blocked\)/);
+        });
+
+        test('should let dependents of skipped actions run', () => {
+            const actions = [action('a', [], 'skipped'), action('b', ['a'])];
+
+            assert.deepStrictEqual(blockDependents(actions), []);
+            assert.deepStrictEqual(selectBatch(actions, 4, () => false).map(a => a.id), ['b']);
+        });
+    });
+
+    suite('selectBatch', () => {
+        const isExclusive = (a: TestAction) => !!a.writes;
+
+        test('should run ready read-only actions together up to the limit', () => {
+            const actions = [action('a'), action('b'), action('c'), action('d', ['a'])];
+            assert.deepStrictEqual(selectBatch(actions, 2, isExclusive).map(a => a.id), ['a', 'b']);
+            assert.deepStrictEqual(selectBatch(actions, 5, isExclusive).map(a => a.id), ['a', 'b', 'c']);
+        });
+
+        test('should run an action that changes things on its own', () => {
+            const writeFirst = [action('write', [], 'pending', true), action('read')];
+            assert.deepStrictEqual(selectBatch(writeFirst, 4, isExclusive).map(a => a.id), ['write']);
+
+            const readFirst = [action('read'), action('write', [], 'pending', true), action('search')];
+            assert.deepStrictEqual(selectBatch(readFirst, 4, isExclusive).map(a => a.id), ['read', 'search']);
+        });
+
+        test('should wait for dependencies to complete', () => {
+            const actions = [action('a', [], 'executing'), action('b', ['a'])];
+            assert.deepStrictEqual(selectBatch(actions, 4, isExclusive), []);
+
+            actions[0].status = 'completed';
+            assert.deepStrictEqual(selectBatch(actions, 4, isExclusive).map(a => a.id), ['b']);
+        });
+    });
+
+    suite('getExecutionLevels', () => {
+        test('should group actions by their depth in the graph', () => {
+            const actions = [action('a'), action('b'), action('c', ['a', 'b']), action('d', ['a']), action('e', ['c'])];
+            assert.deepStrictEqual(getExecutionLevels(actions), [[0, 1], [2, 3], [4]]);
+        });
+    });
+});
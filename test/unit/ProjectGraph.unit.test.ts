@@ -0,0 +1,163 @@
+/**
+ * Project Graph Unit Tests
+ *
+ * Covers import resolution for relative paths, tsconfig path aliases,
+ * workspace packages, Python and Java, plus entry points, test mapping and
+ * graph distances.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectGraph, isTestFile } from '../../src/context/ProjectGraph';
+import { IndexedFile } from '../../src/context/WorkspaceIndex';
+
+interface FileSpec {
+    imports?: string[];
+    functions?: string[];
+    identifiers?: string[];
+    content?: string;
+}
+
+const LANGUAGES: Record<string, string> = { '.ts': 'typescript', '.js': 'javascript', '.py': 'python', '.java': 'java', '.json': 'json' };
+
+suite('ProjectGraph Unit Tests', () => {
+    let root: string;
+
+    const p = (name: string) => path.join(root, name);
+
+    // Writes each file and returns its index entry
+    const files = (specs: Record<string, FileSpec>): IndexedFile[] => Object.entries(specs).map(([name, spec]) => {
+        fs.mkdirSync(path.dirname(p(name)), { recursive: true });
+        fs.writeFileSync(p(name), spec.content ?? '');
+        return {
+            path: p(name),
+            hash: name,
+            size: 0,
+            mtime: 0,
+            language: LANGUAGES[path.extname(name)],
+            identifiers: spec.identifiers ?? [],
+            dependencies: spec.imports ?? [],
+            exports: [],
+            imports: spec.imports ?? [],
+            functions: (spec.functions ?? []).map(fn => ({ name: fn, line: 1, parameters: [], returnType: '', isExported: true })),
+            classes: [],
+            interfaces: [],
+            types: []
+        };
+    });
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-graph-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('should resolve relative imports and tsconfig path aliases', () => {
+        const graph = new ProjectGraph(files({
+            'tsconfig.base.json': { content: '{ "compilerOptions": { "baseUrl": ".", "paths": { "@app/*": ["src/*"] } } }' },
+            'tsconfig.json': { content: '{\n  // Shared options\n  "extends": "./tsconfig.base.json",\n  "compilerOptions": { "strict": true, },\n}' },
+            'src/main.ts': { imports: ['./util/format.js', '@app/services', 'lodash'] },
+            'src/util/format.ts': {},
+            'src/services/index.ts': { imports: ['../util/format'] }
+        }));
+
+        assert.deepStrictEqual(graph.getImports(p('src/main.ts')).sort(), [p('src/services/index.ts'), p('src/util/format.ts')]);
+        assert.deepStrictEqual(graph.getImporters(p('src/util/format.ts')).sort(), [p('src/main.ts'), p('src/services/index.ts')]);
+    });
+
+    test('should resolve workspace packages through their exports, mapping build output to source', () => {
+        const graph = new ProjectGraph(files({
+            'packages/core/package.json': {
+                content: JSON.stringify({ name: '@acme/core', exports: { '.': { import: './dist/index.js' }, './utils/*': './dist/utils/*.js' } })
+            },
+            'packages/core/src/index.ts': {},
+            'packages/core/src/utils/dates.ts': {},
+            'packages/web/package.json': { content: JSON.stringify({ name: 'web', main: 'lib/start.js' }) },
+            'packages/web/lib/start.js': { imports: ['@acme/core', '@acme/core/utils/dates', '@acme/core/missing'] }
+        }));
+
+        assert.deepStrictEqual(graph.getImports(p('packages/web/lib/start.js')), [
+            p('packages/core/src/index.ts'),
+            p('packages/core/src/utils/dates.ts')
+        ]);
+        assert.deepStrictEqual(graph.getEntryPoints().map(entry => [entry.path, entry.reason]), [
+            [p('packages/web/lib/start.js'), 'package entry'],
+            [p('packages/core/src/index.ts'), 'package entry']
+        ]);
+    });
+
+    test('should resolve Python modules, packages and relative imports', () => {
+        const graph = new ProjectGraph(files({
+            'app/__init__.py': {},
+            'app/models/__init__.py': {},
+            'app/models/user.py': { imports: ['.base', '..config'] },
+            'app/models/base.py': {},
+            'app/config.py': {},
+            'main.py': { imports: ['app.models', 'app.models.user', 'os'], identifiers: ['__name__', '__main__'] }
+        }));
+
+        assert.deepStrictEqual(graph.getImports(p('main.py')), [p('app/models/__init__.py'), p('app/models/user.py')]);
+        assert.deepStrictEqual(graph.getImports(p('app/models/user.py')), [p('app/models/base.py'), p('app/config.py')]);
+        assert.deepStrictEqual(graph.getEntryPoints(), [{ path: p('main.py'), reason: 'main function' }]);
+    });
+
+    test('should resolve Java classes, static imports and package wildcards', () => {
+        const graph = new ProjectGraph(files({
+            'src/main/java/com/acme/App.java': {
+                imports: ['com.acme.model.User', 'com.acme.util.Strings.trim', 'com.acme.model.*', 'java.util.List'],
+                functions: ['main']
+            },
+            'src/main/java/com/acme/model/User.java': {},
+            'src/main/java/com/acme/model/Order.java': {},
+            'src/main/java/com/acme/util/Strings.java': {}
+        }));
+
+        assert.deepStrictEqual(graph.getImports(p('src/main/java/com/acme/App.java')).sort(), [
+            p('src/main/java/com/acme/model/Order.java'),
+            p('src/main/java/com/acme/model/User.java'),
+            p('src/main/java/com/acme/util/Strings.java')
+        ]);
+        assert.deepStrictEqual(graph.getEntryPoints().map(entry => entry.reason), ['main function']);
+    });
+
+    test('should pair source files with their tests', () => {
+        const graph = new ProjectGraph(files({
+            'src/auth.ts': {},
+            'src/commit.ts': {},
+            'test/auth.unit.test.ts': { imports: ['../src/auth'] },
+            'test/login.spec.ts': { imports: ['../src/auth'] },
+            'tests/test_commit.py': {},
+            'src/test/java/AuthTest.java': {}
+        }));
+
+        assert.deepStrictEqual(graph.getTestsFor(p('src/auth.ts')), [
+            p('test/auth.unit.test.ts'),
+            p('test/login.spec.ts'),
+            p('src/test/java/AuthTest.java')
+        ]);
+        assert.deepStrictEqual(graph.getTestsFor(p('src/commit.ts')), [p('tests/test_commit.py')]);
+        assert.deepStrictEqual(graph.getSourcesFor(p('test/login.spec.ts')), [p('src/auth.ts')]);
+        assert.deepStrictEqual(graph.getTestsFor(p('test/login.spec.ts')), []);
+
+        assert.ok(isTestFile('src/__tests__/render.tsx'));
+        assert.ok(!isTestFile('src/testing/helpers.ts'));
+    });
+
+    test('should measure import distance in both directions', () => {
+        const graph = new ProjectGraph(files({
+            'a.ts': { imports: ['./b'] },
+            'b.ts': { imports: ['./c'] },
+            'c.ts': {},
+            'd.ts': { imports: ['./c'] },
+            'e.ts': {}
+        }));
+
+        const distances = graph.getDistances(p('a.ts'));
+        assert.deepStrictEqual([...distances.entries()], [[p('a.ts'), 0], [p('b.ts'), 1], [p('c.ts'), 2], [p('d.ts'), 3]]);
+        assert.strictEqual(graph.getDistances(p('a.ts'), 1).has(p('c.ts')), false);
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Provider Fallback Unit Tests
+ *
+ * Covers retry classification, backoff timing, fallback chain parsing and
+ * transcript translation between providers.
+ */
+
+import * as assert from 'assert';
+import {
+    DEFAULT_RETRY_POLICY,
+    isRetryableStatus,
+    isFallbackNetworkCode,
+    getStreamErrorStatus,
+    getRetryAfterMs,
+    waitForRetry,
+    parseRetryAfter,
+    computeBackoffDelay,
+    normalizeFallbackChain,
+    translateTranscript
+} from '../../src/providers/ProviderFallback';
+import { Message } from '../../src/providers/AIProviderManager';
+
+suite('ProviderFallback Unit Tests', () => {
+    suite('Classification', () => {
+        test('should retry rate limits and server errors only', () => {
+            assert.ok(isRetryableStatus(429));
+            assert.ok(isRetryableStatus(503));
+            assert.ok(isRetryableStatus(529));
+            assert.ok(!isRetryableStatus(400));
+            assert.ok(!isRetryableStatus(401));
+            assert.ok(!isRetryableStatus(undefined));
+        });
+
+        test('should fall back on unreachable hosts', () => {
+            assert.ok(isFallbackNetworkCode('ECONNREFUSED'));
+            assert.ok(!isFallbackNetworkCode('ECONNRESET'));
+        });
+
+        test('should classify mid-stream error events by the status they stand for', () => {
+            assert.strictEqual(getStreamErrorStatus({ type: 'overloaded_error' }), 529);
+            assert.strictEqual(getStreamErrorStatus({ type: 'invalid_request_error' }), 400);
+            assert.strictEqual(getStreamErrorStatus({ type: 'server_error', code: 503 }), 503);
+            assert.strictEqual(getStreamErrorStatus({ type: 'unknown_error' }), undefined);
+            assert.ok(isRetryableStatus(getStreamErrorStatus({ type: 'overloaded_error' })));
+        });
+    });
+
+    suite('parseRetryAfter', () => {
+        test('should parse delta seconds', () => {
+            assert.strictEqual(parseRetryAfter('3'), 3000);
+            assert.strictEqual(parseRetryAfter('1.5'), 1500);
+        });
+
+        test('should parse HTTP dates relative to now', () => {
+            const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+            assert.strictEqual(parseRetryAfter('Wed, 21 Oct 2015 07:28:10 GMT', now), 10000);
+        });
+
+        test('should ignore missing or malformed values', () => {
+            assert.strictEqual(parseRetryAfter(undefined), undefined);
+            assert.strictEqual(parseRetryAfter('soon'), undefined);
+        });
+
+        test('should prefer a numeric retry-after-ms header and fall back past a malformed one', () => {
+            assert.strictEqual(getRetryAfterMs({ 'retry-after-ms': '250', 'retry-after': '3' }), 250);
+            assert.strictEqual(getRetryAfterMs({ 'retry-after-ms': 'soon', 'retry-after': '3' }), 3000);
+            assert.strictEqual(getRetryAfterMs({ 'retry-after-ms': '' }), undefined);
+            assert.strictEqual(getRetryAfterMs({}), undefined);
+        });
+    });
+
+    suite('waitForRetry', () => {
+        test('should wait out the delay', async () => {
+            assert.strictEqual(await waitForRetry(5), true);
+        });
+
+        test('should stop waiting as soon as the request is aborted', async () => {
+            const controller = new AbortController();
+            const started = Date.now();
+            const waiting = waitForRetry(30000, controller.signal);
+            setTimeout(() => controller.abort(), 10);
+
+            assert.strictEqual(await waiting, false);
+            assert.ok(Date.now() - started < 5000);
+        });
+
+        test('should not wait at all for an aborted request', async () => {
+            const controller = new AbortController();
+            controller.abort();
+
+            assert.strictEqual(await waitForRetry(30000, controller.signal), false);
+        });
+    });
+
+    suite('computeBackoffDelay', () => {
+        test('should grow exponentially within the jitter window', () => {
+            const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 100, maxDelayMs: 10000 };
+
+            assert.strictEqual(computeBackoffDelay(0, policy, undefined, () => 0), 50);
+            assert.strictEqual(computeBackoffDelay(0, policy, undefined, () => 1), 100);
+            assert.strictEqual(computeBackoffDelay(3, policy, undefined, () => 1), 800);
+        });
+
+        test('should cap delays at the policy maximum', () => {
+            const policy = { ...DEFAULT_RETRY_POLICY, initialDelayMs: 1000, maxDelayMs: 2000 };
+
+            assert.strictEqual(computeBackoffDelay(10, policy, undefined, () => 1), 2000);
+            assert.strictEqual(computeBackoffDelay(0, policy, 60000), 2000);
+        });
+
+        test('should prefer server Retry-After hints', () => {
+            assert.strictEqual(computeBackoffDelay(0, DEFAULT_RETRY_POLICY, 250, () => 1), 250);
+        });
+    });
+
+    suite('normalizeFallbackChain', () => {
+        test('should accept provider ids and objects', () => {
+            const chain = normalizeFallbackChain(['anthropic', { provider: 'openai', model: 'gpt-4o' }]);
+
+            assert.deepStrictEqual(chain, [
+                { provider: 'anthropic' },
+                { provider: 'openai', model: 'gpt-4o' }
+            ]);
+        });
+
+        test('should drop invalid entries', () => {
+            assert.deepStrictEqual(normalizeFallbackChain(['', null, 42, { model: 'x' }]), []);
+            assert.deepStrictEqual(normalizeFallbackChain('openai'), []);
+        });
+    });
+
+    suite('translateTranscript', () => {
+        const transcript: Message[] = [
+            { role: 'user', content: 'Read the file' },
+            {
+                role: 'assistant',
+                content: '',
+                tool_calls: [{ id: '', type: 'function', function: { name: 'read_file', arguments: { path: 'a.ts' } as any } }]
+            },
+            { role: 'tool', name: 'read_file', content: 'export const a = 1;' }
+        ];
+
+        test('should repair ids and pairing for native tools', () => {
+            const translated = translateTranscript(transcript, { nativeTools: true });
+            const call = translated[1].tool_calls![0];
+
+            assert.ok(call.id);
+            assert.strictEqual(call.function.arguments, '{"path":"a.ts"}');
+            assert.strictEqual(translated[2].role, 'tool');
+            assert.strictEqual(translated[2].tool_call_id, call.id);
+        });
+
+        test('should flatten tool traffic without native tools', () => {
+            const translated = translateTranscript(transcript, { nativeTools: false });
+
+            assert.strictEqual(translated[1].role, 'assistant');
+            assert.strictEqual(translated[1].tool_calls, undefined);
+            assert.ok(translated[1].content.includes('read_file'));
+            assert.strictEqual(translated[2].role, 'user');
+            assert.ok(translated[2].content.includes('export const a = 1;'));
+        });
+
+        test('should turn orphaned tool results into text', () => {
+            const translated = translateTranscript([
+                { role: 'user', content: 'hi' },
+                { role: 'tool', name: 'search', tool_call_id: 'missing', content: 'nothing' }
+            ], { nativeTools: true });
+
+            assert.strictEqual(translated[1].role, 'user');
+        });
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Semantic Index Unit Tests
+ *
+ * Covers chunking at symbol boundaries, tokenization, incremental embedding,
+ * hybrid keyword and vector ranking, and persistence across backends.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EmbeddingBackend, LocalEmbeddingBackend, cosineSimilarity, tokenize } from '../../src/context/EmbeddingBackends';
+import { SemanticIndex, chunkFile } from '../../src/context/SemanticIndex';
+import { IndexedFile } from '../../src/context/WorkspaceIndex';
+
+class CountingBackend implements EmbeddingBackend {
+    public readonly batchSize = 8;
+    public embedded = 0;
+    private readonly local = new LocalEmbeddingBackend();
+
+    constructor(public readonly id = 'counting') {}
+
+    public async embed(texts: string[]): Promise<Float32Array[]> {
+        this.embedded += texts.length;
+        return this.local.embed(texts);
+    }
+}
+
+function indexedFile(filePath: string, hash: string, functions: { name: string; line: number }[] = []): IndexedFile {
+    return {
+        path: filePath,
+        hash,
+        size: 0,
+        mtime: 0,
+        language: 'typescript',
+        identifiers: [],
+        dependencies: [],
+        exports: [],
+        imports: [],
+        functions: functions.map(fn => ({ ...fn, parameters: [], returnType: '', isExported: true })),
+        classes: [],
+        interfaces: [],
+        types: []
+    };
+}
+
+const lines = (count: number, prefix = 'const value') => Array.from({ length: count }, (_, i) => `${prefix}${i} = ${i};`).join('\n');
+
+suite('SemanticIndex Unit Tests', () => {
+    let root: string;
+    let storage: string;
+    let backend: CountingBackend;
+    let index: SemanticIndex;
+
+    const write = (name: string, content: string) => {
+        const filePath = path.join(root, name);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-semantic-ws-'));
+        storage = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-semantic-'));
+        backend = new CountingBackend();
+        index = new SemanticIndex();
+        index.configure(storage, backend);
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+        fs.rmSync(storage, { recursive: true, force: true });
+    });
+
+    test('should chunk at symbols, keeping comments above them', () => {
+        const content = [
+            "import { db } from './db';",
+            '',
+            '',
+            '// Looks a user up by name',
+            'export function findUser(name: string) {',
+            '    return db.users.find(user => user.name === name);',
+            '}',
+            '',
+            'export function deleteUser(id: string) {',
+            '    db.users.delete(id);',
+            '    db.save();',
+            '}'
+        ].join('\n');
+
+        const chunks = chunkFile(content, [{ name: 'findUser', line: 5 }, { name: 'deleteUser', line: 9 }]);
+
+        assert.deepStrictEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine, chunk.symbol]), [
+            [1, 3, undefined],
+            [4, 8, 'findUser'],
+            [9, 12, 'deleteUser']
+        ]);
+        assert.ok(chunks[1].text.startsWith('// Looks a user up by name'));
+    });
+
+    test('should window long sections and merge very short ones', () => {
+        const long = chunkFile(lines(100));
+        assert.deepStrictEqual(long.map(chunk => [chunk.startLine, chunk.endLine]), [[1, 40], [41, 100]]);
+
+        const merged = chunkFile(`const a = 1;\n${lines(10)}`, [{ name: 'value0', line: 2 }]);
+        assert.deepStrictEqual(merged.map(chunk => [chunk.startLine, chunk.endLine, chunk.symbol]), [[1, 11, 'value0']]);
+    });
+
+    test('should split identifiers into lowercase words', async () => {
+        assert.deepStrictEqual(tokenize('getUserToken'), ['get', 'user', 'token', 'getusertoken']);
+        assert.deepStrictEqual(tokenize('how does the HTTPServer work'), ['http', 'server', 'httpserver', 'work']);
+
+        const [code, question, unrelated] = await new LocalEmbeddingBackend().embed(['function refreshAccessToken()', 'refresh the access token', 'render chart axis labels']);
+        assert.ok(cosineSimilarity(code, question) > cosineSimilarity(code, unrelated));
+    });
+
+    test('should return the matching lines of the best files', async () => {
+        const auth = write('src/auth.ts', [
+            lines(10),
+            '// Exchanges the refresh token for a new access token',
+            'export async function refreshAccessToken(refreshToken: string) {',
+            '    const response = await post("/oauth/token", { refreshToken });',
+            '    return response.accessToken;',
+            '}'
+        ].join('\n'));
+        const chart = write('src/chart.ts', [
+            'export function renderAxis(labels: string[]) {',
+            '    return labels.map(label => label.toUpperCase());',
+            '}'
+        ].join('\n'));
+
+        const result = await index.sync([
+            indexedFile(auth, 'a1', [{ name: 'refreshAccessToken', line: 12 }]),
+            indexedFile(chart, 'c1', [{ name: 'renderAxis', line: 1 }])
+        ]);
+        assert.strictEqual(result.embedded, 2);
+
+        const matches = await index.search('how is the access token refreshed');
+        assert.strictEqual(matches[0].path, auth);
+        assert.deepStrictEqual([matches[0].startLine, matches[0].endLine, matches[0].symbol], [11, 15, 'refreshAccessToken']);
+
+        assert.deepStrictEqual(await index.search('access token', { filter: filePath => filePath !== auth }), []);
+    });
+
+    test('should only embed files whose hash changed', async () => {
+        const a = write('src/a.ts', "export function alpha() {\n    return 'a';\n}\n");
+        const b = write('src/b.ts', "export function beta() {\n    return 'b';\n}\n");
+        await index.sync([indexedFile(a, 'a1'), indexedFile(b, 'b1')]);
+        const embedded = backend.embedded;
+
+        const unchanged = await index.sync([indexedFile(a, 'a1'), indexedFile(b, 'b1')]);
+        assert.strictEqual(unchanged.embedded, 0);
+        assert.strictEqual(backend.embedded, embedded);
+
+        write('src/a.ts', "export function alphaRenamed() {\n    return 'a';\n}\n");
+        const changed = await index.sync([indexedFile(a, 'a2')]);
+        assert.deepStrictEqual([changed.embedded, changed.removed], [1, 1]);
+        assert.strictEqual(index.getStatus().files, 1);
+        assert.strictEqual((await index.search('alpha renamed'))[0].path, a);
+    });
+
+    test('should reload saved chunks and discard them for another backend', async () => {
+        const a = write('src/a.ts', "export function alpha() {\n    return 'a';\n}\n");
+        await index.sync([indexedFile(a, 'a1')]);
+
+        const reloaded = new SemanticIndex();
+        reloaded.configure(storage, new CountingBackend());
+        assert.strictEqual(reloaded.getStatus().chunks, 1);
+        assert.strictEqual((await reloaded.search('alpha'))[0].path, a);
+
+        assert.strictEqual(reloaded.setBackend(new CountingBackend()), false);
+        assert.strictEqual(reloaded.hasChunks(), true);
+
+        const other = new SemanticIndex();
+        other.configure(storage, new CountingBackend('other'));
+        assert.strictEqual(other.hasChunks(), false);
+        assert.strictEqual(fs.existsSync(path.join(storage, 'semantic-index.json')), false);
+
+        assert.strictEqual(reloaded.setBackend(new CountingBackend('other')), true);
+        assert.strictEqual(reloaded.hasChunks(), false);
+    });
+});
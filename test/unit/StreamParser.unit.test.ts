@@ -0,0 +1,116 @@
+/**
+ * Stream Parser Unit Tests
+ *
+ * Covers incremental SSE and NDJSON parsing used for streamed provider responses,
+ * including UTF-8 characters split across chunks.
+ */
+
+import * as assert from 'assert';
+import { SSEParser, NDJSONParser, readStreamText } from '../../src/providers/StreamParser';
+
+// Split bytes in the middle of a multi-byte character
+function splitBytes(text: string, at: number): Buffer[] {
+    const bytes = Buffer.from(text, 'utf8');
+    return [bytes.subarray(0, at), bytes.subarray(at)];
+}
+
+suite('StreamParser Unit Tests', () => {
+    suite('SSEParser', () => {
+        test('should parse complete events', () => {
+            const parser = new SSEParser();
+            const events = parser.feed('data: {"a":1}\n\ndata: {"a":2}\n\n');
+
+            assert.strictEqual(events.length, 2);
+            assert.strictEqual(events[0].data, '{"a":1}');
+            assert.strictEqual(events[1].data, '{"a":2}');
+        });
+
+        test('should buffer events split across chunks', () => {
+            const parser = new SSEParser();
+
+            assert.deepStrictEqual(parser.feed('data: {"hel'), []);
+            assert.deepStrictEqual(parser.feed('lo":true}\n'), []);
+
+            const events = parser.feed('\n');
+            assert.strictEqual(events.length, 1);
+            assert.strictEqual(events[0].data, '{"hello":true}');
+        });
+
+        test('should read event names and ids', () => {
+            const parser = new SSEParser();
+            const events = parser.feed('event: content_block_delta\nid: 7\ndata: {}\n\n');
+
+            assert.strictEqual(events[0].event, 'content_block_delta');
+            assert.strictEqual(events[0].id, '7');
+        });
+
+        test('should join multi-line data and normalize CRLF', () => {
+            const parser = new SSEParser();
+            const events = parser.feed('data: first\r\ndata: second\r\n\r\n');
+
+            assert.strictEqual(events[0].data, 'first\nsecond');
+        });
+
+        test('should ignore comments and data-less blocks', () => {
+            const parser = new SSEParser();
+            const events = parser.feed(': keep-alive\n\nevent: ping\n\ndata: [DONE]\n\n');
+
+            assert.strictEqual(events.length, 1);
+            assert.strictEqual(events[0].data, '[DONE]');
+        });
+
+        test('should flush a trailing event without a blank line', () => {
+            const parser = new SSEParser();
+            parser.feed('data: tail');
+
+            const events = parser.flush();
+            assert.strictEqual(events.length, 1);
+            assert.strictEqual(events[0].data, 'tail');
+            assert.deepStrictEqual(parser.flush(), []);
+        });
+
+        test('should decode a character split across byte chunks', () => {
+            const parser = new SSEParser();
+            // "é" is two bytes and "🙂" four; cut inside the emoji
+            const [head, tail] = splitBytes('data: {"text":"café 🙂"}\n\n', 23);
+
+            assert.deepStrictEqual(parser.feed(head), []);
+            const events = parser.feed(tail);
+            assert.strictEqual(JSON.parse(events[0].data).text, 'café 🙂');
+        });
+    });
+
+    suite('NDJSONParser', () => {
+        test('should emit complete lines only', () => {
+            const parser = new NDJSONParser();
+
+            assert.deepStrictEqual(parser.feed('{"a":1}\n{"b"'), ['{"a":1}']);
+            assert.deepStrictEqual(parser.feed(':2}\n\n'), ['{"b":2}']);
+        });
+
+        test('should flush the final unterminated line', () => {
+            const parser = new NDJSONParser();
+            parser.feed('{"done":true}');
+
+            assert.deepStrictEqual(parser.flush(), ['{"done":true}']);
+        });
+
+        test('should decode a character split across byte chunks', () => {
+            const parser = new NDJSONParser();
+            const [head, tail] = splitBytes('{"text":"日本"}\n', 11);
+
+            assert.deepStrictEqual(parser.feed(head), []);
+            assert.deepStrictEqual(parser.feed(tail), ['{"text":"日本"}']);
+        });
+    });
+
+    suite('readStreamText', () => {
+        test('should join byte chunks without breaking characters', async () => {
+            async function* chunks() {
+                yield* splitBytes('{"error":{"message":"Überlastet"}}', 22);
+            }
+
+            assert.strictEqual(await readStreamText(chunks()), '{"error":{"message":"Überlastet"}}');
+        });
+    });
+});
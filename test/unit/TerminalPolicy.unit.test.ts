@@ -0,0 +1,166 @@
+/**
+ * Terminal Policy Unit Tests
+ *
+ * Covers allow/deny rules for commands, subcommands and arguments,
+ * options that would slip past them, environment scrubbing and the workspace
+ * jail for working directories and directory options.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+    checkDirectoryArguments,
+    createTerminalPolicy,
+    evaluateTerminalCommand,
+    getSubcommand,
+    resolveWorkingDirectory,
+    scrubEnvironment
+} from '../../src/agent/TerminalPolicy';
+
+suite('TerminalPolicy Unit Tests', () => {
+    suite('evaluateTerminalCommand', () => {
+        test('should allow listed commands and refuse everything else', () => {
+            const policy = createTerminalPolicy();
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'npm', ['run', 'build']).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'rm', ['-rf', '/']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git; rm', ['-rf']).allowed, false);
+            assert.ok(evaluateTerminalCommand(policy, 'npm run build', []).reason.includes('args'));
+        });
+
+        test('should let the built-in deny rules win over the allowlist', () => {
+            const policy = createTerminalPolicy();
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'node', ['-e', 'process.exit()']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['-c', 'core.pager=sh', 'log']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['push', '--force']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['push', 'origin', 'main']).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'npm', ['--silent', 'publish']).allowed, false);
+        });
+
+        test('should find the subcommand behind options that take a value', () => {
+            const policy = createTerminalPolicy();
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['-C', '.', 'push', '--force']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['--git-dir', '.git', 'push', '-f']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'npm', ['--prefix', '.', 'publish']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'pnpm', ['--filter', 'app', 'publish']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['-C', 'packages', 'push', 'origin', 'main']).allowed, true);
+        });
+
+        test('should deny combined short flags and forced refspecs', () => {
+            const policy = createTerminalPolicy();
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'node', ['-pe', 'require("fs").readdirSync("/")']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'node', ['-ep', '1']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'node', ['--eval=1']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'python', ['-Ic', 'print(1)']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'python', ['-cprint(1)']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['push', '-uf', 'origin', 'main']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['push', 'origin', '+main']).allowed, false);
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'node', ['scripts/build.js']).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'python', ['-m', 'pytest']).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['push', '-u', 'origin', 'main']).allowed, true);
+        });
+
+        test('should apply user rules by subcommand and argument pattern', () => {
+            const policy = createTerminalPolicy({
+                rules: [
+                    { command: 'docker', subcommand: 'compose', decision: 'allow' },
+                    { command: 'npm', subcommand: 'install', decision: 'deny' },
+                    { command: 'git', argPattern: '^--hard$', decision: 'deny' },
+                    { command: 'git', argPattern: '(', decision: 'deny' }, // Invalid pattern, ignored
+                    { command: 'make', decision: 'maybe' } // Invalid decision, ignored
+                ]
+            });
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'docker', ['compose', 'up']).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'docker', ['run', 'alpine']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'npm', ['install', 'left-pad']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['reset', '--hard']).allowed, false);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'git', ['reset', '--soft']).allowed, true);
+            assert.strictEqual(policy.rules.some(rule => rule.argPattern === '('), false);
+        });
+
+        test('should drop the built-in rules when asked', () => {
+            const policy = createTerminalPolicy({ useDefaultRules: false, rules: [{ command: 'make', decision: 'allow' }] });
+
+            assert.strictEqual(evaluateTerminalCommand(policy, 'make', []).allowed, true);
+            assert.strictEqual(evaluateTerminalCommand(policy, 'npm', ['test']).allowed, false);
+        });
+
+        test('should take the first non-option argument as the subcommand', () => {
+            assert.strictEqual(getSubcommand(['--silent', 'run', 'build']), 'run');
+            assert.strictEqual(getSubcommand(['--version']), '');
+            assert.strictEqual(getSubcommand(['-C', 'packages', 'status'], 'git'), 'status');
+            assert.strictEqual(getSubcommand(['--prefix=app', 'publish'], 'npm'), 'publish');
+        });
+    });
+
+    suite('scrubEnvironment', () => {
+        test('should remove credential-like variables unless kept', () => {
+            const env = { PATH: '/usr/bin', GITHUB_TOKEN: 'x', AWS_SECRET_ACCESS_KEY: 'y', OPENAI_API_KEY: 'z', NPM_TOKEN: 'n' };
+
+            const scrubbed = scrubEnvironment(env, createTerminalPolicy({ keepEnvironment: ['NPM_TOKEN'] }));
+            assert.deepStrictEqual(scrubbed, { PATH: '/usr/bin', NPM_TOKEN: 'n' });
+
+            const unscrubbed = scrubEnvironment(env, createTerminalPolicy({ scrubEnvironment: false }));
+            assert.deepStrictEqual(unscrubbed, env);
+        });
+    });
+
+    suite('resolveWorkingDirectory and checkDirectoryArguments', () => {
+        let root: string;
+
+        setup(() => {
+            root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-terminal-'));
+            fs.mkdirSync(path.join(root, 'workspace', 'packages'), { recursive: true });
+            fs.mkdirSync(path.join(root, 'outside'));
+        });
+
+        teardown(() => {
+            fs.rmSync(root, { recursive: true, force: true });
+        });
+
+        test('should keep the working directory inside the workspace', () => {
+            const workspace = path.join(root, 'workspace');
+            const policy = createTerminalPolicy();
+
+            assert.strictEqual(resolveWorkingDirectory(workspace, 'packages', policy), path.join(workspace, 'packages'));
+            assert.strictEqual(resolveWorkingDirectory(workspace, undefined, policy), workspace);
+            assert.throws(() => resolveWorkingDirectory(workspace, '../outside', policy), /outside the workspace/);
+            assert.throws(() => resolveWorkingDirectory(workspace, path.join(root, 'outside'), policy), /outside the workspace/);
+
+            const unrestricted = createTerminalPolicy({ restrictToWorkspace: false });
+            assert.strictEqual(resolveWorkingDirectory(workspace, '../outside', unrestricted), path.join(root, 'outside'));
+        });
+
+        test('should refuse a symlink that leads out of the workspace', () => {
+            const workspace = path.join(root, 'workspace');
+            fs.symlinkSync(path.join(root, 'outside'), path.join(workspace, 'link'), 'dir');
+
+            assert.throws(() => resolveWorkingDirectory(workspace, 'link', createTerminalPolicy()), /outside the workspace/);
+        });
+
+        test('should keep directory options inside the workspace', () => {
+            const workspace = path.join(root, 'workspace');
+            const outside = path.join(root, 'outside');
+            const policy = createTerminalPolicy();
+            const check = (command: string, args: string[], cwd = workspace) => () => checkDirectoryArguments(workspace, cwd, command, args, policy);
+
+            assert.doesNotThrow(check('git', ['-C', 'packages', 'status']));
+            assert.doesNotThrow(check('npm', ['--prefix=..', 'test'], path.join(workspace, 'packages')));
+            assert.throws(check('git', ['-C', outside, 'status']), /outside the workspace/);
+            assert.throws(check('git', ['--work-tree=../outside', 'status']), /outside the workspace/);
+            assert.throws(check('npm', ['--prefix', '../outside', 'install']), /outside the workspace/);
+            assert.throws(check('make', [`-C${outside}`]), /outside the workspace/);
+            assert.throws(check('npm', ['--prefix=..', 'test']), /outside the workspace/);
+
+            const unrestricted = createTerminalPolicy({ restrictToWorkspace: false });
+            assert.doesNotThrow(() => checkDirectoryArguments(workspace, workspace, 'git', ['-C', outside, 'status'], unrestricted));
+        });
+    });
+});
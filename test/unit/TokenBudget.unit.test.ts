@@ -0,0 +1,225 @@
+/**
+ * Token Budget Unit Tests
+ *
+ * Covers token counting against known tiktoken counts and the heuristic for
+ * other models, model limits, cost calculation, fitting context files and
+ * history into a prompt budget, and trimming a request for a smaller model.
+ */
+
+import * as assert from 'assert';
+import {
+    estimateTokens,
+    estimateMessageTokens,
+    getTokenizerEncoding,
+    getModelLimits,
+    estimateCost,
+    getPromptBudget,
+    truncateToTokens,
+    fitToBudget,
+    fitMessagesToBudget,
+    buildExtractiveSummary,
+    DEFAULT_MODEL_LIMITS
+} from '../../src/providers/TokenBudget';
+import { Message } from '../../src/providers/AIProviderManager';
+
+const PROSE = 'Token budgeting keeps long conversations inside the context window of the selected model without silent failures.';
+const CODE = 'function add(a: number, b: number): number {\n    return a + b;\n}';
+
+suite('TokenBudget Unit Tests', () => {
+    suite('estimateTokens', () => {
+        test('should count common words as single tokens', () => {
+            assert.strictEqual(estimateTokens(''), 0);
+            assert.strictEqual(estimateTokens('the quick brown fox'), 4);
+        });
+
+        test('should count OpenAI models exactly', () => {
+            // 'tiktoken is great!' is OpenAI's own cl100k example; the rest are reference counts
+            assert.strictEqual(estimateTokens('tiktoken is great!', 'gpt-4'), 6);
+            assert.strictEqual(estimateTokens(PROSE, 'gpt-4-turbo'), 18);
+            assert.strictEqual(estimateTokens(PROSE, 'gpt-4o'), 17);
+            assert.strictEqual(estimateTokens(CODE, 'gpt-4o-mini'), 19);
+            assert.strictEqual(estimateTokens('日本語のテキスト', 'gpt-3.5-turbo'), 8);
+            assert.strictEqual(estimateTokens('日本語のテキスト', 'openai/gpt-4o'), 6);
+        });
+
+        test('should count special-token markers in text as plain text', () => {
+            assert.strictEqual(estimateTokens('<|endoftext|>', 'gpt-4o'), 7);
+        });
+
+        test('should pick the encoding from the model id', () => {
+            assert.strictEqual(getTokenizerEncoding('gpt-4o-2024-08-06'), 'o200k_base');
+            assert.strictEqual(getTokenizerEncoding('openai/o3-mini'), 'o200k_base');
+            assert.strictEqual(getTokenizerEncoding('gpt-4.1'), 'o200k_base');
+            assert.strictEqual(getTokenizerEncoding('gpt-4-turbo'), 'cl100k_base');
+            assert.strictEqual(getTokenizerEncoding('claude-3-5-sonnet-20241022'), undefined);
+            assert.strictEqual(getTokenizerEncoding('llama3.1:8b'), undefined);
+            assert.strictEqual(getTokenizerEncoding(undefined), undefined);
+        });
+
+        test('should estimate other models with the heuristic', () => {
+            assert.strictEqual(estimateTokens(PROSE, 'claude-3-5-sonnet-20241022'), estimateTokens(PROSE));
+            // A rough guide only: within a third of the cl100k counts
+            assert.ok(Math.abs(estimateTokens(PROSE) - 18) <= 6, `prose estimate ${estimateTokens(PROSE)}`);
+            assert.ok(Math.abs(estimateTokens(CODE) - 19) <= 6, `code estimate ${estimateTokens(CODE)}`);
+        });
+
+        test('should charge long digit runs in groups of three', () => {
+            assert.strictEqual(estimateTokens('123456789'), 3);
+        });
+
+        test('should add per-message overhead', () => {
+            const messages: Message[] = [{ role: 'user', content: 'hello' }];
+            assert.ok(estimateMessageTokens(messages) > estimateTokens('hello'));
+        });
+    });
+
+    suite('Model limits and cost', () => {
+        test('should match specific models before families', () => {
+            assert.strictEqual(getModelLimits('gpt-4o-mini').inputCostPerMillion, 0.15);
+            assert.strictEqual(getModelLimits('gpt-4o').inputCostPerMillion, 2.5);
+            assert.strictEqual(getModelLimits('claude-3-5-sonnet-20241022').contextWindow, 200000);
+        });
+
+        test('should fall back to defaults for unknown models', () => {
+            assert.deepStrictEqual(getModelLimits('my-finetune'), DEFAULT_MODEL_LIMITS);
+        });
+
+        test('should compute cost only when pricing is known', () => {
+            const usage = { inputTokens: 1_000_000, outputTokens: 500_000 };
+
+            assert.strictEqual(estimateCost(usage, getModelLimits('gpt-4o')), 7.5);
+            assert.strictEqual(estimateCost(usage, getModelLimits('llama3')), undefined);
+        });
+
+        test('should reserve room for the reply', () => {
+            assert.strictEqual(getPromptBudget({ contextWindow: 8192, maxOutputTokens: 4096 }), 6144);
+            assert.strictEqual(getPromptBudget({ contextWindow: 200000, maxOutputTokens: 8192 }), 191808);
+        });
+    });
+
+    suite('truncateToTokens', () => {
+        test('should leave short text alone', () => {
+            assert.strictEqual(truncateToTokens('short text', 100), 'short text');
+        });
+
+        test('should cut long text and mark it', () => {
+            const text = Array.from({ length: 500 }, (_, i) => `line ${i} with some words`).join('\n');
+            const truncated = truncateToTokens(text, 100);
+
+            assert.ok(estimateTokens(truncated) <= 120);
+            assert.ok(truncated.endsWith('[truncated to fit the context window]'));
+        });
+    });
+
+    suite('fitToBudget', () => {
+        const turn = (role: 'user' | 'assistant', words: number): Message => ({
+            role,
+            content: Array.from({ length: words }, () => 'word').join(' ')
+        });
+
+        test('should keep everything that fits', () => {
+            const result = fitToBudget({
+                systemMessages: [],
+                contextFiles: [{ path: 'a.ts', content: 'const a = 1;' }],
+                history: [turn('user', 10), turn('assistant', 10), turn('user', 10)]
+            }, 10000);
+
+            assert.strictEqual(result.history.length, 3);
+            assert.strictEqual(result.contextFiles.length, 1);
+            assert.deepStrictEqual(result.droppedHistory, []);
+        });
+
+        test('should drop the oldest history first and always keep the latest message', () => {
+            const history = Array.from({ length: 20 }, (_, i) => turn(i % 2 === 0 ? 'user' : 'assistant', 100));
+            const result = fitToBudget({ systemMessages: [], contextFiles: [], history }, 1000);
+
+            assert.ok(result.droppedHistory.length > 0);
+            assert.strictEqual(result.droppedHistory[0], history[0]);
+            assert.strictEqual(result.history[result.history.length - 1], history[history.length - 1]);
+            assert.strictEqual(result.droppedHistory.length + result.history.length, history.length);
+            assert.ok(result.usedTokens <= 1000);
+        });
+
+        test('should prefer explicit files and relevant files over weaker ones', () => {
+            const big = Array.from({ length: 400 }, () => 'word').join(' ');
+            const result = fitToBudget({
+                systemMessages: [],
+                contextFiles: [
+                    { path: 'low.ts', content: big, isIntelligentContext: true, relevanceScore: 0.1 },
+                    { path: 'high.ts', content: big, isIntelligentContext: true, relevanceScore: 0.9 },
+                    { path: 'explicit.ts', content: big }
+                ],
+                history: [turn('user', 5)]
+            }, 900);
+
+            const kept = result.contextFiles.map(f => f.path);
+            assert.ok(kept.includes('explicit.ts'));
+            assert.ok(kept.includes('high.ts'));
+            assert.deepStrictEqual(result.droppedFiles, ['low.ts']);
+        });
+
+        test('should truncate a file when a useful slice still fits', () => {
+            const big = Array.from({ length: 2000 }, () => 'word').join(' ');
+            const result = fitToBudget({
+                systemMessages: [],
+                contextFiles: [{ path: 'big.ts', content: big }],
+                history: [turn('user', 5)]
+            }, 1000);
+
+            assert.strictEqual(result.contextFiles.length, 1);
+            assert.ok(result.contextFiles[0].truncated);
+        });
+    });
+
+    suite('fitMessagesToBudget', () => {
+        const words = (count: number) => Array.from({ length: count }, () => 'word').join(' ');
+
+        test('should leave a request that fits untouched', () => {
+            const messages: Message[] = [{ role: 'system', content: 'Be brief.' }, { role: 'user', content: 'hi' }];
+            assert.strictEqual(fitMessagesToBudget(messages, 1000, 'gpt-4o'), messages);
+        });
+
+        test('should drop earlier turns with their tool results before the current turn', () => {
+            const messages: Message[] = [
+                { role: 'system', content: 'You are a coding assistant.' },
+                { role: 'user', content: words(300) },
+                { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'read_file', arguments: '{"path":"a.ts"}' } }] },
+                { role: 'tool', content: words(300), tool_call_id: 'call_1' },
+                { role: 'assistant', content: words(100) },
+                { role: 'user', content: 'And now?' }
+            ];
+
+            const fitted = fitMessagesToBudget(messages, 200, 'gpt-4o');
+
+            assert.deepStrictEqual(fitted.map(message => message.role), ['system', 'assistant', 'user']);
+            assert.strictEqual(fitted[1].content, words(100));
+            assert.ok(estimateMessageTokens(fitted, 'gpt-4o') <= 200);
+        });
+
+        test('should cut the longest message when the current turn alone is too large', () => {
+            const messages: Message[] = [
+                { role: 'system', content: words(2000) },
+                { role: 'user', content: 'Summarize the file above.' }
+            ];
+
+            const fitted = fitMessagesToBudget(messages, 500, 'gpt-4o');
+
+            assert.strictEqual(fitted.length, 2);
+            assert.ok(fitted[0].content.endsWith('[truncated to fit the context window]'));
+            assert.strictEqual(fitted[1].content, 'Summarize the file above.');
+            assert.ok(estimateMessageTokens(fitted, 'gpt-4o') <= 500, `${estimateMessageTokens(fitted, 'gpt-4o')} tokens`);
+        });
+    });
+
+    suite('buildExtractiveSummary', () => {
+        test('should list dropped turns by role', () => {
+            const summary = buildExtractiveSummary([
+                { role: 'user', content: 'How do I add caching?' },
+                { role: 'assistant', content: 'Use a Map keyed by path.' }
+            ]);
+
+            assert.ok(summary.includes('- user: How do I add caching?'));
+            assert.ok(summary.includes('- assistant: Use a Map keyed by path.'));
+        });
+    });
+});
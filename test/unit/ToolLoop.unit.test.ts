@@ -0,0 +1,88 @@
+/**
+ * Tool Loop Unit Tests
+ *
+ * Covers repeated-call detection, the hop limit and the timeline summaries
+ * used when chat chains several rounds of tool calls.
+ */
+
+import * as assert from 'assert';
+import { ToolCall } from '../../src/providers/AIProviderManager';
+import {
+    DEFAULT_MAX_TOOL_HOPS,
+    createToolLoopState,
+    getToolCallSignature,
+    getToolLoopStopReason,
+    normalizeMaxToolHops,
+    partitionRepeatedCalls,
+    summarizeToolOutput
+} from '../../src/providers/ToolLoop';
+
+function call(id: string, name: string, args: string): ToolCall {
+    return { id, type: 'function', function: { name, arguments: args } };
+}
+
+suite('ToolLoop Unit Tests', () => {
+    suite('getToolCallSignature', () => {
+        test('should ignore key order and whitespace in arguments', () => {
+            assert.strictEqual(
+                getToolCallSignature(call('1', 'file_operation', '{"operation":"read","filePath":"a.ts"}')),
+                getToolCallSignature(call('2', 'file_operation', '{ "filePath": "a.ts",  "operation": "read" }'))
+            );
+            assert.notStrictEqual(
+                getToolCallSignature(call('1', 'file_operation', '{"filePath":"a.ts"}')),
+                getToolCallSignature(call('2', 'file_operation', '{"filePath":"b.ts"}'))
+            );
+        });
+    });
+
+    suite('partitionRepeatedCalls', () => {
+        test('should flag calls already made this turn, including within one hop', () => {
+            const state = createToolLoopState(5);
+            state.hop = 1;
+            const first = partitionRepeatedCalls(state, [
+                call('1', 'search_analysis', '{"query":"foo"}'),
+                call('2', 'search_analysis', '{"query":"foo"}')
+            ]);
+
+            assert.deepStrictEqual(first.fresh.map(c => c.id), ['1']);
+            assert.deepStrictEqual(first.repeated.map(r => [r.call.id, r.firstHop]), [['2', 1]]);
+
+            state.hop = 2;
+            const second = partitionRepeatedCalls(state, [
+                call('3', 'search_analysis', '{"query":"foo"}'),
+                call('4', 'file_operation', '{"operation":"read","filePath":"foo.ts"}')
+            ]);
+
+            assert.deepStrictEqual(second.fresh.map(c => c.id), ['4']);
+            assert.deepStrictEqual(second.repeated.map(r => r.firstHop), [1]);
+        });
+    });
+
+    suite('getToolLoopStopReason', () => {
+        test('should stop at the hop limit or when a whole hop repeats', () => {
+            const state = createToolLoopState(2);
+            state.hop = 1;
+
+            assert.strictEqual(getToolLoopStopReason(state, 2, 1), undefined);
+            assert.strictEqual(getToolLoopStopReason(state, 2, 2), 'repeatedCalls');
+
+            state.hop = 2;
+            assert.strictEqual(getToolLoopStopReason(state, 1, 0), 'hopLimit');
+        });
+
+        test('should fall back to the default limit for invalid settings', () => {
+            assert.strictEqual(normalizeMaxToolHops(undefined), DEFAULT_MAX_TOOL_HOPS);
+            assert.strictEqual(normalizeMaxToolHops(0), DEFAULT_MAX_TOOL_HOPS);
+            assert.strictEqual(normalizeMaxToolHops(3.7), 3);
+            assert.strictEqual(normalizeMaxToolHops(500), 50);
+        });
+    });
+
+    suite('summarizeToolOutput', () => {
+        test('should keep the first line, shortened', () => {
+            assert.strictEqual(summarizeToolOutput('Found 3 matches\nsrc/a.ts'), 'Found 3 matches');
+            assert.strictEqual(summarizeToolOutput({ ok: true }), '{"ok":true}');
+            assert.strictEqual(summarizeToolOutput('x'.repeat(200)).length, 120);
+        });
+    });
+});
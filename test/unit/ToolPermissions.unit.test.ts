@@ -0,0 +1,118 @@
+/**
+ * Tool Permissions Unit Tests
+ *
+ * Covers path containment (sibling folders, symlinks), the sandbox's path
+ * checks, and how per-workspace grants override the defaults.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolPermissionError, ToolPermissionManager, ToolSandbox, isPathInside } from '../../src/agent/ToolPermissions';
+
+function memento(initial: Record<string, any> = {}) {
+    const values: Record<string, any> = { ...initial };
+    return {
+        values,
+        get: <T>(key: string) => values[key] as T | undefined,
+        update: async (key: string, value: any) => {
+            values[key] = JSON.parse(JSON.stringify(value));
+        }
+    };
+}
+
+suite('ToolPermissions Unit Tests', () => {
+    let root: string;
+    let workspace: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-permissions-'));
+        workspace = path.join(root, 'ws');
+        fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'ws-evil'));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    suite('isPathInside', () => {
+        test('should reject sibling folders that share a prefix', () => {
+            assert.ok(isPathInside(workspace, path.join(workspace, 'src', 'new-file.ts')));
+            assert.ok(isPathInside(workspace, workspace));
+            assert.ok(!isPathInside(workspace, path.join(root, 'ws-evil', 'file.ts')));
+            assert.ok(!isPathInside(workspace, path.join(workspace, '..', 'ws-evil')));
+        });
+
+        test('should follow symlinks, including for files that do not exist yet', () => {
+            fs.symlinkSync(path.join(root, 'ws-evil'), path.join(workspace, 'escape'), 'dir');
+
+            assert.ok(!isPathInside(workspace, path.join(workspace, 'escape', 'new-file.ts')));
+        });
+    });
+
+    suite('ToolSandbox', () => {
+        test('should resolve workspace paths and refuse others without outsideWorkspace', () => {
+            const sandbox = ToolSandbox.forWorkspace(workspace, 'file_operation');
+
+            assert.strictEqual(sandbox.resolvePath('src/app.ts', 'write'), path.join(workspace, 'src', 'app.ts'));
+            assert.throws(() => sandbox.resolvePath('../ws-evil/app.ts'), (error: any) =>
+                error instanceof ToolPermissionError && error.capability === 'outsideWorkspace');
+        });
+
+        test('should check the access capability', () => {
+            const manager = new ToolPermissionManager();
+            manager.configure(memento({ 'cuovare.toolPermissions': { file_operation: { write: false, outsideWorkspace: true } } }));
+            const sandbox = manager.createSandbox('file_operation', workspace);
+
+            assert.ok(sandbox.resolvePath('src/app.ts', 'read'));
+            assert.ok(sandbox.resolvePath('../ws-evil/app.ts', 'read'));
+            assert.throws(() => sandbox.resolvePath('src/app.ts', 'write'), /'write' permission/);
+        });
+
+        test('should pass paths resolved for writing to the write hook', () => {
+            const written: string[] = [];
+            const sandbox = new ToolPermissionManager().createSandbox('file_operation', workspace, filePath => written.push(filePath));
+
+            sandbox.resolvePath('src/read.ts', 'read');
+            sandbox.resolvePath('src/app.ts', 'write');
+            assert.throws(() => sandbox.resolvePath('../ws-evil/app.ts', 'write'));
+            assert.deepStrictEqual(written, [path.join(workspace, 'src', 'app.ts')]);
+        });
+    });
+
+    suite('ToolPermissionManager', () => {
+        test('should prefer tool overrides, then all-tool overrides, then defaults', async () => {
+            const storage = memento();
+            const manager = new ToolPermissionManager();
+            manager.configure(storage);
+
+            assert.strictEqual(manager.isGranted('terminal', 'exec'), true);
+            assert.strictEqual(manager.isGranted('terminal', 'outsideWorkspace'), false);
+
+            await manager.setGrants('*', { exec: false });
+            await manager.setGrants('git_operation', { exec: true });
+            assert.strictEqual(manager.isGranted('terminal', 'exec'), false);
+            assert.strictEqual(manager.isGranted('git_operation', 'exec'), true);
+
+            // Overrides persist in the workspace store and clear back to inherited values
+            const reloaded = new ToolPermissionManager();
+            reloaded.configure(storage);
+            assert.strictEqual(reloaded.isGranted('terminal', 'exec'), false);
+            await reloaded.setGrants('git_operation', { exec: undefined });
+            assert.deepStrictEqual(storage.values['cuovare.toolPermissions'], { '*': { exec: false } });
+        });
+
+        test('should use per-operation capabilities when a tool declares them', async () => {
+            const manager = new ToolPermissionManager();
+            manager.configure(memento());
+            const tool = { name: 'file_operation', capabilities: ['read', 'write'] as any, operationCapabilities: { read: ['read'] as any } };
+            await manager.setGrants('file_operation', { write: false });
+
+            assert.deepStrictEqual(manager.getMissingCapabilities(tool, 'read'), []);
+            assert.deepStrictEqual(manager.getMissingCapabilities(tool, 'write'), ['write']);
+            assert.deepStrictEqual(manager.getRequiredCapabilities({ name: 'legacy' }), ['read', 'write', 'exec', 'network']);
+        });
+    });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tool Registry Unit Tests
+ *
+ * Covers the conversion of built-in tool metadata into the JSON Schema
+ * offered to providers for native function calling, the permission check
+ * before a tool runs, the checkpoint of what a tool writes, and the sandbox
+ * keeping a real tool's output inside the workspace.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ToolExecutor, ToolRegistry, toToolSchema } from '../../src/agent/ToolRegistry';
+import { toolPermissions } from '../../src/agent/ToolPermissions';
+import { checkpointManager } from '../../src/agent/CheckpointManager';
+import { DocumentationTool } from '../../src/agent/executors/DocumentationTool';
+
+function executor(name: string, parameters: any[] = [], examples: string[] = []): ToolExecutor {
+    return {
+        metadata: { name, description: `${name} tool`, category: 'Test', parameters, examples },
+        execute: async () => ({ success: true, message: 'ok' })
+    };
+}
+
+suite('ToolRegistry Unit Tests', () => {
+    suite('toToolSchema', () => {
+        test('should map parameters to JSON Schema properties', () => {
+            const schema = toToolSchema(executor('file_operation', [
+                { name: 'operation', description: 'read or write', required: true, type: 'string' },
+                { name: 'lineNumber', description: 'Line', required: false, type: 'number' },
+                { name: 'args', description: 'Arguments', required: false, type: 'array' },
+                { name: 'mode', description: 'Unusual type', required: false, type: 'enum' }
+            ]).metadata);
+
+            assert.strictEqual(schema.name, 'file_operation');
+            assert.deepStrictEqual(schema.parameters.required, ['operation']);
+            assert.deepStrictEqual(schema.parameters.properties.operation, { type: 'string', description: 'read or write' });
+            assert.strictEqual(schema.parameters.properties.lineNumber.type, 'number');
+            assert.deepStrictEqual(schema.parameters.properties.args.items, { type: 'string' });
+            assert.strictEqual(schema.parameters.properties.mode.type, 'string');
+        });
+
+        test('should keep declared array items and append a few examples', () => {
+            const items = { type: 'object', properties: { filePath: { type: 'string' } } };
+            const schema = toToolSchema(executor(
+                'multi_file_editing',
+                [{ name: 'files', description: 'Edits', required: true, type: 'array', items }],
+                ['one', 'two', 'three', 'four']
+            ).metadata);
+
+            assert.deepStrictEqual(schema.parameters.properties.files.items, items);
+            assert.ok(schema.description.includes('- three'));
+            assert.ok(!schema.description.includes('four'));
+        });
+    });
+
+    suite('getToolsForAIProvider', () => {
+        test('should return only the requested tools, or all of them for *', () => {
+            const registry = new ToolRegistry();
+            const tools: Map<string, ToolExecutor> = (registry as any).tools;
+            tools.set('terminal', executor('terminal'));
+            tools.set('git_operation', executor('git_operation'));
+
+            assert.deepStrictEqual(registry.getToolsForAIProvider(['terminal', 'missing']).map(t => t.name), ['terminal']);
+            assert.deepStrictEqual(registry.getToolsForAIProvider(['*']).map(t => t.name), ['terminal', 'git_operation']);
+        });
+    });
+
+    suite('executeAction', () => {
+        teardown(async () => {
+            await toolPermissions.reset();
+        });
+
+        test('should refuse tools whose capabilities are revoked and pass a sandbox otherwise', async () => {
+            const registry = new ToolRegistry();
+            const tools: Map<string, ToolExecutor> = (registry as any).tools;
+            let sandboxed = false;
+            tools.set('terminal', {
+                metadata: { name: 'terminal', description: 'terminal tool', category: 'Test', capabilities: ['exec'] },
+                execute: async (_payload, context) => {
+                    sandboxed = !!context.sandbox;
+                    return { success: true, message: 'ran' };
+                }
+            });
+            const context = { workspaceRoot: '/tmp', outputChannel: {} as any };
+
+            await toolPermissions.setGrants('terminal', { exec: false });
+            const refused = await registry.executeAction('terminal', { command: 'ls' }, context);
+            assert.strictEqual(refused.success, false);
+            assert.ok(refused.message?.includes('exec'));
+
+            await toolPermissions.reset('terminal');
+            const allowed = await registry.executeAction('terminal', { command: 'ls' }, context);
+            assert.strictEqual(allowed.success, true);
+            assert.ok(sandboxed);
+        });
+
+        test('should checkpoint the files a tool resolves for writing, together', async () => {
+            const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-registry-'));
+            fs.writeFileSync(path.join(workspace, 'a.txt'), 'one');
+
+            const registry = new ToolRegistry();
+            const tools: Map<string, ToolExecutor> = (registry as any).tools;
+            tools.set('writer', {
+                metadata: { name: 'writer', description: 'writer tool', category: 'Test', capabilities: ['read', 'write'] },
+                execute: async (_payload, context) => {
+                    fs.mkdirSync(context.sandbox!.resolvePath('out', 'write'));
+                    fs.writeFileSync(context.sandbox!.resolvePath('a.txt', 'write'), 'two');
+                    fs.writeFileSync(context.sandbox!.resolvePath('out/b.txt', 'write'), 'new');
+                    return { success: true, message: 'wrote' };
+                }
+            });
+
+            try {
+                const result = await registry.executeAction('writer', {}, { workspaceRoot: workspace, outputChannel: {} as any });
+                assert.strictEqual(result.success, true);
+
+                const checkpoint = checkpointManager.getCheckpoints().pop()!;
+                assert.strictEqual(checkpoint.label, 'writer changes');
+                checkpointManager.undoCheckpoint(checkpoint.id);
+                assert.strictEqual(fs.readFileSync(path.join(workspace, 'a.txt'), 'utf8'), 'one');
+                assert.ok(!fs.existsSync(path.join(workspace, 'out', 'b.txt')));
+            } finally {
+                fs.rmSync(workspace, { recursive: true, force: true });
+            }
+        });
+
+        test('should keep a tool from writing outside the workspace without outsideWorkspace', async () => {
+            const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-registry-'));
+            const workspace = path.join(root, 'ws');
+            fs.mkdirSync(path.join(workspace, 'src'), { recursive: true });
+            fs.mkdirSync(path.join(root, 'outside'));
+            fs.writeFileSync(path.join(workspace, 'src', 'math.ts'), 'export function add(a: number, b: number): number {\n    return a + b;\n}\n');
+
+            const registry = new ToolRegistry();
+            const tools: Map<string, ToolExecutor> = (registry as any).tools;
+            const tool = new DocumentationTool();
+            tools.set(tool.metadata.name, tool);
+            const context = { workspaceRoot: workspace, outputChannel: {} as any };
+            const action = { action: 'extract-api', path: 'src', outputDir: '../outside' };
+
+            try {
+                const refused = await registry.executeAction(tool.metadata.name, action, context);
+                assert.strictEqual(refused.success, false);
+                assert.ok(refused.message?.includes('outsideWorkspace'), refused.message);
+                assert.deepStrictEqual(fs.readdirSync(path.join(root, 'outside')), []);
+
+                // The same call may write there once the permission is granted
+                await toolPermissions.setGrants(tool.metadata.name, { outsideWorkspace: true });
+                const allowed = await registry.executeAction(tool.metadata.name, action, context);
+                assert.strictEqual(allowed.success, true, allowed.message);
+                assert.ok(fs.existsSync(path.join(root, 'outside', 'API.md')));
+            } finally {
+                fs.rmSync(root, { recursive: true, force: true });
+            }
+        });
+    });
+});
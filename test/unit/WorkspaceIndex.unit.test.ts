@@ -0,0 +1,158 @@
+/**
+ * Workspace Index Unit Tests
+ *
+ * Covers incremental builds, content-hash invalidation, persistence and
+ * versioning, and the symbol, usage and import queries served from the index.
+ */
+
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAnalysis, INDEX_VERSION, WorkspaceIndex, isIndexable, matchesGlob } from '../../src/context/WorkspaceIndex';
+
+function analyzer(calls: string[]) {
+    return (content: string): FileAnalysis => {
+        calls.push(content);
+        const imports = [...content.matchAll(/from\s+'([^']+)'/g)].map(match => match[1]);
+        const exported = [...content.matchAll(/export function (\w+)/g)].map(match => match[1]);
+        return {
+            dependencies: imports,
+            exports: exported,
+            imports,
+            functions: exported.map(name => ({ name, line: 1, parameters: [], returnType: '', isExported: true })),
+            classes: [],
+            interfaces: [],
+            types: []
+        };
+    };
+}
+
+suite('WorkspaceIndex Unit Tests', () => {
+    let root: string;
+    let storage: string;
+    let calls: string[];
+    let index: WorkspaceIndex;
+
+    const write = (name: string, content: string) => {
+        const filePath = path.join(root, name);
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    };
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-index-ws-'));
+        storage = fs.mkdtempSync(path.join(os.tmpdir(), 'cuovare-index-'));
+        calls = [];
+        index = new WorkspaceIndex();
+        index.configure(storage, analyzer(calls));
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+        fs.rmSync(storage, { recursive: true, force: true });
+    });
+
+    test('should only re-analyze files whose content changed', async () => {
+        const auth = write('src/auth.ts', "export function login() {}\n");
+        const util = write('src/util.ts', "export function helper() {}\n");
+
+        const first = await index.build([auth, util]);
+        assert.strictEqual(first.added, 2);
+        assert.strictEqual(calls.length, 2);
+
+        write('src/auth.ts', "export function login() {}\nexport function logout() {}\n");
+        fs.rmSync(util);
+        const extra = write('src/extra.ts', "export function extra() {}\n");
+
+        const result = await index.build([auth, extra]);
+        assert.strictEqual(result.added, 1);
+        assert.strictEqual(result.updated, 1);
+        assert.strictEqual(result.removed, 1);
+        assert.strictEqual(calls.length, 4);
+        assert.deepStrictEqual(index.getFile(auth)?.exports, ['login', 'logout']);
+        assert.strictEqual(index.getFile(util), undefined);
+        assert.strictEqual(index.getStatus().state, 'ready');
+        assert.strictEqual(index.getStatus().files, 2);
+    });
+
+    test('should reuse the stored analysis when only the modification time changed', async () => {
+        const file = write('src/a.ts', "export function a() {}\n");
+        await index.build([file]);
+
+        const later = new Date(Date.now() + 5000);
+        fs.utimesSync(file, later, later);
+        const result = await index.build([file]);
+
+        assert.strictEqual(result.unchanged, 1);
+        assert.strictEqual(calls.length, 1);
+        assert.strictEqual(index.getFile(file)?.mtime, Math.trunc(fs.statSync(file).mtimeMs));
+
+        await index.build([file], { force: true });
+        assert.strictEqual(calls.length, 2);
+    });
+
+    test('should persist the index and discard one written by another version', async () => {
+        const file = write('src/a.ts', "export function a() {}\n");
+        await index.build([file]);
+
+        const reloaded = new WorkspaceIndex();
+        reloaded.configure(storage, analyzer(calls));
+        assert.deepStrictEqual(reloaded.getFile(file)?.exports, ['a']);
+        assert.strictEqual(reloaded.getStatus().state, 'ready');
+
+        const indexPath = path.join(storage, 'index.json');
+        const snapshot = JSON.parse(fs.readFileSync(indexPath, 'utf8'));
+        fs.writeFileSync(indexPath, JSON.stringify({ ...snapshot, version: INDEX_VERSION + 1 }));
+
+        const outdated = new WorkspaceIndex();
+        outdated.configure(storage, analyzer(calls));
+        assert.strictEqual(outdated.hasFiles(), false);
+        assert.strictEqual(fs.existsSync(indexPath), false);
+    });
+
+    test('should update and remove single files', async () => {
+        const file = write('src/a.ts', "export function a() {}\n");
+        await index.build([file]);
+
+        write('src/a.ts', "export function renamed() {}\n");
+        assert.deepStrictEqual((await index.updateFile(file))?.exports, ['renamed']);
+
+        fs.rmSync(file);
+        assert.strictEqual(await index.updateFile(file), undefined);
+        assert.strictEqual(index.hasFiles(), false);
+    });
+
+    test('should answer symbol, usage and import queries', async () => {
+        const auth = write('src/auth/session.ts', "export function createSession() {}\n");
+        const login = write('src/login.ts', "import { createSession } from './auth/session.js';\nexport function login() { createSession(); }\n");
+        const audit = write('src/audit.ts', "// calls createSession indirectly\nexport function audit() {}\n");
+        const other = write('src/other.ts', "export function unrelated() {}\n");
+        await index.build([auth, login, audit, other]);
+
+        const results = index.search(['session']);
+        assert.strictEqual(results[0].path, auth);
+        assert.ok(!results.some(result => result.path === other));
+
+        assert.deepStrictEqual(index.findUsages('createSession').map(entry => entry.path), [audit, auth, login]);
+        assert.deepStrictEqual(index.findUsages('session').map(entry => entry.path), [login]);
+
+        assert.deepStrictEqual(index.getImportedFiles(login), [auth]);
+        assert.deepStrictEqual(index.getImportingFiles(auth), [login]);
+        assert.deepStrictEqual(index.getRelatedFiles(auth).sort(), [audit, login].sort());
+    });
+
+    test('should skip dependency and build folders and match exclude globs', () => {
+        assert.ok(isIndexable('src/app.ts'));
+        assert.ok(!isIndexable('node_modules/lib/index.js'));
+        assert.ok(!isIndexable('packages/web/dist/bundle.js'));
+        assert.ok(!isIndexable('src/vendor.min.js'));
+        assert.ok(!isIndexable('assets/logo.png'));
+
+        assert.ok(matchesGlob('src/app.test.ts', ['**/*test*']));
+        assert.ok(matchesGlob('docs/guide.md', ['**/*.{md,txt}']));
+        assert.ok(matchesGlob('README.md', ['**/*.md']));
+        assert.ok(!matchesGlob('src/app.ts', ['**/*test*', '**/docs/**']));
+    });
+});